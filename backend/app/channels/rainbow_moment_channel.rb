@@ -4,9 +4,16 @@
 #
 # When a RainbowMoment is active, users subscribe to receive:
 # - Participant count updates (heartbeat every 5 seconds)
+# - Participants joining and leaving
 # - New photo broadcasts from other participants
 # - Moment status changes (closing, archived)
 #
+# == Participation
+# Subscribing only watches the moment. Clients join explicitly with the
+# +join+ action, sending their current position as location proof, and
+# leave with +leave+. The initial state lists active participants so a
+# reconnecting client can restore its own participation.
+#
 # == Grace Period
 # A 30-second grace period handles app switching (e.g., user opens camera).
 # On unsubscribe, a delayed job checks if the user reconnected. If not,
@@ -28,16 +35,12 @@ class RainbowMomentChannel < ApplicationCable::Channel
 
     stream_from "rainbow_moment:#{@moment.id}"
 
-    # Join the moment (creates participation record)
-    if @moment.active?
-      @moment.join(current_user)
-    end
-
     # Send current state to the newly subscribed client
     transmit({
       type: "initial_state",
       moment: serialize_moment(@moment),
-      participant_count: @moment.active_participants_count
+      participant_count: @moment.active_participants_count,
+      participants: serialize_participants(@moment)
     })
   end
 
@@ -51,6 +54,31 @@ class RainbowMomentChannel < ApplicationCable::Channel
     )
   end
 
+  # Client joins the moment from its current position.
+  # Rejected when the moment is no longer active or the position is too far
+  # from the monitoring location. The model broadcasts participant_joined.
+  def join(data)
+    unless @moment&.active?
+      transmit({ type: "join_rejected", reason: "inactive" })
+      return
+    end
+
+    unless @moment.within_proximity?(data["latitude"], data["longitude"])
+      transmit({ type: "join_rejected", reason: "out_of_range" })
+      return
+    end
+
+    @moment.join(current_user)
+  end
+
+  # Client stops participating but keeps watching the moment.
+  # The model broadcasts participant_left.
+  def leave
+    return unless @moment
+
+    @moment.leave(current_user)
+  end
+
   # Client can send a heartbeat to confirm they're still watching.
   # This extends the grace period.
   def heartbeat
@@ -83,6 +111,16 @@ class RainbowMomentChannel < ApplicationCable::Channel
 
   private
 
+  def serialize_participants(moment)
+    moment.participations.active.includes(:user).map do |participation|
+      {
+        id: participation.user.id,
+        display_name: participation.user.display_name,
+        joined_at: participation.joined_at.iso8601
+      }
+    end
+  end
+
   def serialize_moment(moment)
     {
       id: moment.id,
@@ -91,6 +91,8 @@ module Api
              ErrorHandler::ErrorCodes::FILE_TOO_LARGE,
              ErrorHandler::ErrorCodes::INVALID_FILE_TYPE
           :unprocessable_entity
+        when ErrorHandler::ErrorCodes::UPLOAD_OFFSET_MISMATCH
+          :conflict
         when ErrorHandler::ErrorCodes::WEATHER_API_ERROR,
              ErrorHandler::ErrorCodes::S3_UPLOAD_ERROR
           :service_unavailable
@@ -31,7 +31,7 @@ module Api
       #
       # @param page [Integer] Page number (default: 1)
       # @param per_page [Integer] Items per page (default: 20, max: 100)
-      # @param filter [String] Filter type (unread, rainbow_alerts, social, system)
+      # @param filter [String] Filter type (unread, rainbow_alerts, social, system, rainbow_alert, like, comment)
       #
       # @return [JSON] Paginated list of notifications
       #
@@ -123,6 +123,7 @@ module Api
       #   {
       #     "data": {
       #       "settings": {
+      #         "push_enabled": true,
       #         "rainbow_alerts": true,
       #         "likes": true,
       #         "comments": true,
@@ -152,6 +153,7 @@ module Api
       #
       # Update notification settings for the current user.
       #
+      # @param push_enabled [Boolean] Deliver notifications to devices as push
       # @param rainbow_alerts [Boolean] Enable rainbow alert notifications
       # @param likes [Boolean] Enable like notifications
       # @param comments [Boolean] Enable comment notifications
@@ -273,6 +275,7 @@ module Api
 
       def settings_params
         params.permit(
+          :push_enabled,
           :rainbow_alerts,
           :likes,
           :comments,
@@ -0,0 +1,170 @@
+# frozen_string_literal: true
+
+module Api
+  module V1
+    # PhotoUploadsController handles resumable chunked photo uploads.
+    #
+    # An alternative to POST /api/v1/photos for unreliable connections:
+    # the image is sent in chunks and an interrupted upload resumes from
+    # the last acknowledged byte instead of starting over.
+    #
+    # == API Endpoints
+    #   POST   /api/v1/photos/uploads              - Start a chunked upload
+    #   GET    /api/v1/photos/uploads/:id          - Get the acknowledged offset
+    #   PATCH  /api/v1/photos/uploads/:id          - Append a chunk
+    #   POST   /api/v1/photos/uploads/:id/complete - Create the photo
+    #
+    # == Requirements
+    #   - FR-2: Photo upload and management (AC-2.7 Offline Support)
+    #
+    class PhotoUploadsController < BaseController
+      before_action :authenticate_user!
+      before_action :set_upload, only: %i[show update complete]
+
+      # POST /api/v1/photos/uploads
+      #
+      # Start a chunked upload.
+      #
+      # @param filename [String] Original file name
+      # @param content_type [String] Image MIME type
+      # @param byte_size [Integer] Total file size in bytes
+      #
+      # @return [JSON] Upload ID, chunk size and acknowledged offset
+      #
+      # @example Request body
+      #   { "upload": { "filename": "rainbow.jpg", "content_type": "image/jpeg", "byte_size": 1048576 } }
+      #
+      # @example Success response (201 Created)
+      #   {
+      #     "data": {
+      #       "upload": {
+      #         "id": "...",
+      #         "byteSize": 1048576,
+      #         "receivedBytes": 0,
+      #         "chunkSize": 262144,
+      #         "expiresAt": "2026-10-20T08:00:00Z"
+      #       }
+      #     }
+      #   }
+      def create
+        result = upload_service.start(
+          user: current_user,
+          filename: upload_params[:filename],
+          content_type: upload_params[:content_type],
+          byte_size: upload_params[:byte_size]
+        )
+
+        if result[:success]
+          render_success(data: result[:data], status: :created)
+        else
+          render_service_error(result: result, status: http_status_for_error(result[:error][:code]))
+        end
+      end
+
+      # GET /api/v1/photos/uploads/:id
+      #
+      # Get the upload state. Clients resume from receivedBytes.
+      #
+      # @return [JSON] Upload state (same shape as create)
+      def show
+        result = upload_service.status(upload: @upload)
+        render_success(data: result[:data], status: :ok)
+      end
+
+      # PATCH /api/v1/photos/uploads/:id
+      #
+      # Append a chunk. The body is the raw chunk bytes
+      # (Content-Type: application/octet-stream) and the Upload-Offset header
+      # is the position of its first byte, normally the last receivedBytes.
+      # Re-sending bytes that were already acknowledged is harmless.
+      #
+      # @return [JSON] Upload state with the new receivedBytes
+      #
+      # @example Conflict response (409) when Upload-Offset is past receivedBytes
+      #   {
+      #     "error": {
+      #       "code": 2004,
+      #       "message": "Chunk offset does not match the received data",
+      #       "details": { "received_bytes": 262144 }
+      #     }
+      #   }
+      def update
+        result = upload_service.append(
+          upload: @upload,
+          offset: request.headers["Upload-Offset"],
+          data: request.body.read
+        )
+
+        if result[:success]
+          render_success(data: result[:data], status: :ok)
+        else
+          render_service_error(result: result, status: http_status_for_error(result[:error][:code]))
+        end
+      end
+
+      # POST /api/v1/photos/uploads/:id/complete
+      #
+      # Create the photo from a fully received upload.
+      # Takes the same metadata as POST /api/v1/photos. Completing an upload
+      # again returns the photo it already created.
+      #
+      # @return [JSON] Created photo data (same as POST /api/v1/photos)
+      def complete
+        result = upload_service.complete(
+          upload: @upload,
+          metadata: photo_metadata_params
+        )
+
+        if result[:success]
+          render_success(data: result[:data], status: :created)
+        else
+          render_service_error(result: result, status: http_status_for_error(result[:error][:code]))
+        end
+      end
+
+      private
+
+      # Load one of the current user's unexpired uploads
+      def set_upload
+        @upload = current_user.photo_uploads.active.find(params[:id])
+      end
+
+      # Strong Parameters for starting an upload
+      #
+      # @return [ActionController::Parameters] permitted parameters
+      def upload_params
+        params.require(:upload).permit(:filename, :content_type, :byte_size)
+      end
+
+      # Photo metadata for completing an upload
+      #
+      # @return [Hash] metadata hash
+      def photo_metadata_params
+        permitted = params.require(:photo).permit(
+          :title,
+          :description,
+          :latitude,
+          :longitude,
+          :location_name,
+          :captured_at
+        )
+
+        {
+          title: permitted[:title],
+          description: permitted[:description],
+          latitude: permitted[:latitude],
+          longitude: permitted[:longitude],
+          location_name: permitted[:location_name],
+          captured_at: permitted[:captured_at]
+        }
+      end
+
+      # Initialize PhotoUploadService instance
+      #
+      # @return [PhotoUploadService] the upload service
+      def upload_service
+        @upload_service ||= PhotoUploadService.new
+      end
+    end
+  end
+end
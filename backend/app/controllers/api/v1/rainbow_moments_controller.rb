@@ -105,11 +105,27 @@ module Api
           data[:participants] = moment.participations.active.includes(:user).limit(50).map do |p|
             { id: p.user.id, displayName: p.user.display_name, joinedAt: p.joined_at.iso8601 }
           end
+          data[:photos] = moment.photos.visible.includes(:user).recent.limit(50).map do |photo|
+            serialize_moment_photo(photo)
+          end
         end
 
         data
       end
 
+      # Same shape as the "new_photo" broadcast so clients can show archived
+      # and live photos alike
+      def serialize_moment_photo(photo)
+        {
+          id: photo.id,
+          user: { id: photo.user.id, displayName: photo.user.display_name },
+          thumbnailUrl: photo.thumbnail_url,
+          latitude: photo.latitude,
+          longitude: photo.longitude,
+          capturedAt: photo.captured_at&.iso8601
+        }
+      end
+
       def demo_weather_data
         {
           temperature: 18.5,
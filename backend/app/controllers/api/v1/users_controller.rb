@@ -16,8 +16,11 @@ module Api
     #   POST   /api/v1/users/me/delete          - Request account deletion
     #   DELETE /api/v1/users/me/delete          - Cancel deletion request
     #   GET    /api/v1/users/me/deletion_status - Get deletion status
+    #   GET    /api/v1/users/me/blocks          - List blocked users
     #   GET    /api/v1/users/:id                - Get public user profile
     #   GET    /api/v1/users/:id/photos         - Get user's public photos
+    #   POST   /api/v1/users/:id/block          - Block user
+    #   DELETE /api/v1/users/:id/block          - Unblock user
     #
     # == Requirements
     #   - FR-9: User Profile (AC-9.1〜AC-9.5)
@@ -30,7 +33,7 @@ module Api
       before_action :authenticate_user!
 
       # Load user for member actions
-      before_action :set_user, only: %i[show user_photos]
+      before_action :set_user, only: %i[show user_photos block unblock]
 
       # GET /api/v1/users/me
       #
@@ -68,6 +71,7 @@ module Api
       #
       # @param display_name [String] Display name (3-30 chars)
       # @param profile_image [File] Profile image file
+      # @param public_profile [Boolean] Whether other users can see stats and photos
       #
       # @return [JSON] Updated user profile
       #
@@ -271,6 +275,8 @@ module Api
       #
       # Get a user's public profile.
       # Uses UserSerializer (public) which excludes email and other private fields.
+      # Private profiles viewed by other users only include the name and avatar
+      # (UserSerializer::Restricted).
       #
       # @param id [String] User UUID
       #
@@ -278,13 +284,14 @@ module Api
       def show
         authorize @user
 
-        serialized = UserSerializer.new(@user).to_h
-        render_success(data: { user: serialized })
+        serializer = policy(@user).show_details? ? UserSerializer : UserSerializer::Restricted
+        render_success(data: { user: serializer.new(@user).to_h })
       end
 
       # GET /api/v1/users/:id/photos
       #
       # Get a user's public photos with pagination.
+      # Returns 403 Forbidden for private profiles of other users.
       #
       # @param id [String] User UUID
       # @param page [Integer] Page number (default: 1)
@@ -292,7 +299,7 @@ module Api
       #
       # @return [JSON] Paginated list of user's public photos
       def user_photos
-        authorize @user, :show?
+        authorize @user, :show_details?
 
         photos = @user.photos
                      .where(deleted_at: nil)
@@ -309,8 +316,76 @@ module Api
         )
       end
 
+      # GET /api/v1/users/me/blocks
+      #
+      # List the users the current user has blocked, most recent first.
+      # The app hides their photos and comments on the client.
+      #
+      # @return [JSON] Blocked users
+      #
+      # @example Success response (200 OK)
+      #   {
+      #     "data": {
+      #       "users": [
+      #         {
+      #           "id": "uuid",
+      #           "displayName": "Username",
+      #           "profileImageUrl": null,
+      #           "blockedAt": "2026-10-19T00:00:00Z"
+      #         }
+      #       ]
+      #     }
+      #   }
+      def blocked_users
+        blocks = current_user.user_blocks.recent.includes(blocked: { profile_image_attachment: :blob })
+
+        render_success(
+          data: {
+            users: blocks.map { |block| serialize_blocked_user(block) }
+          }
+        )
+      end
+
+      # POST /api/v1/users/:id/block
+      #
+      # Block a user. Blocking an already blocked user succeeds.
+      #
+      # @param id [String] User UUID
+      #
+      # @return [JSON] The blocked user
+      def block
+        authorize @user, :block?
+
+        block = current_user.user_blocks.find_or_create_by!(blocked: @user)
+        render_success(data: { user: serialize_blocked_user(block) }, status: :created)
+      end
+
+      # DELETE /api/v1/users/:id/block
+      #
+      # Unblock a user. Unblocking a user that is not blocked succeeds.
+      #
+      # @param id [String] User UUID
+      #
+      # @return [JSON] Success message
+      def unblock
+        authorize @user, :block?
+
+        current_user.user_blocks.where(blocked: @user).destroy_all
+        render_success(data: { message: I18n.t("users.unblocked") })
+      end
+
       private
 
+      # Serialize a block for API response
+      #
+      # @param block [UserBlock] the block
+      # @return [Hash] blocked user summary with block time
+      def serialize_blocked_user(block)
+        UserSerializer::Summary.new(block.blocked).to_h.merge(
+          blockedAt: block.created_at&.iso8601
+        )
+      end
+
       # Load user from params[:id]
       def set_user
         @user = User.active.find(params[:id])
@@ -326,9 +401,9 @@ module Api
       #
       # @return [ActionController::Parameters] permitted parameters
       def user_update_params
-        params.require(:user).permit(:display_name, :profile_image)
+        params.require(:user).permit(:display_name, :profile_image, :public_profile)
       rescue ActionController::ParameterMissing
-        params.permit(:display_name, :profile_image)
+        params.permit(:display_name, :profile_image, :public_profile)
       end
 
       # Build pagination data hash
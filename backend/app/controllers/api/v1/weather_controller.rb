@@ -0,0 +1,118 @@
+# frozen_string_literal: true
+
+module Api
+  module V1
+    # WeatherController provides weather endpoints that are not tied to a photo.
+    #
+    # == Endpoints
+    # - GET /api/v1/weather/forecast - Hourly forecast around a location for rainbow prediction
+    #
+    # == Requirements
+    #   - FR-13: Rainbow condition analysis
+    #
+    class WeatherController < BaseController
+      before_action :authenticate_user!
+
+      # GET /api/v1/weather/forecast
+      #
+      # Forecast weather at the location and forecast precipitation at sample
+      # points around it, in the same shapes as a photo's weather data.
+      #
+      # @param lat [Float] Latitude (required)
+      # @param lng [Float] Longitude (required)
+      # @param hours [Integer] Forecast length in hours (default: 6, max: 12)
+      #
+      # @example Success response (200 OK)
+      #   {
+      #     "data": {
+      #       "hours": 6,
+      #       "weatherConditions": [
+      #         { "id": "forecast-1718953200", "timestamp": "2024-06-21T06:00:00Z",
+      #           "cloudCover": 40, "sunAzimuth": 268.2, "sunAltitude": 38.1, ... }
+      #       ],
+      #       "radarData": [
+      #         { "id": "forecast-90-1718953200", "timestamp": "2024-06-21T06:00:00Z",
+      #           "precipitationIntensity": 1.2, "centerLatitude": 36.115, "centerLongitude": 138.12 }
+      #       ]
+      #     }
+      #   }
+      def forecast
+        unless valid_coordinates?
+          return render_error(
+            code: ErrorHandler::ErrorCodes::VALIDATION_FAILED,
+            message: "Valid lat and lng parameters are required",
+            status: :bad_request
+          )
+        end
+
+        result = weather_service.fetch_forecast(
+          lat: params[:lat].to_f,
+          lng: params[:lng].to_f,
+          hours: params.fetch(:hours, WeatherService::FORECAST_DEFAULT_HOURS)
+        )
+
+        if result[:success]
+          render_success(data: serialize_forecast(result[:data][:forecast]))
+        else
+          render_service_error(result: result, status: http_status_for_error(result[:error][:code]))
+        end
+      end
+
+      private
+
+      def weather_service
+        @weather_service ||= WeatherService.new
+      end
+
+      def valid_coordinates?
+        return false unless params[:lat].present? && params[:lng].present?
+
+        params[:lat].to_f.between?(-90, 90) && params[:lng].to_f.between?(-180, 180)
+      end
+
+      def serialize_forecast(forecast)
+        {
+          hours: forecast[:hours],
+          weatherConditions: forecast[:weather_timeline].map { |hour| serialize_forecast_hour(hour) },
+          radarData: forecast[:precipitation_cells].map { |cell| serialize_precipitation_cell(cell) }
+        }
+      end
+
+      # Same fields as a photo's weather condition
+      def serialize_forecast_hour(hour)
+        rain = hour[:rain_1h] || 0
+        snow = hour[:snow_1h] || 0
+
+        {
+          id: "forecast-#{hour[:timestamp].to_i}",
+          timestamp: hour[:timestamp].iso8601,
+          temperature: hour[:temperature],
+          humidity: hour[:humidity],
+          pressure: hour[:pressure],
+          windSpeed: hour[:wind_speed],
+          windDirection: hour[:wind_direction],
+          windGust: hour[:wind_gust],
+          weatherCode: hour[:weather_code],
+          weatherDescription: hour[:weather_description],
+          precipitation: rain + snow,
+          precipitationType: snow.positive? ? "snow" : (rain.positive? ? "rain" : nil),
+          cloudCover: hour[:cloud_cover],
+          visibility: hour[:visibility],
+          sunAzimuth: hour.dig(:sun_position, :azimuth),
+          sunAltitude: hour.dig(:sun_position, :altitude)&.round(1)
+        }
+      end
+
+      # Same fields as a photo's radar datum
+      def serialize_precipitation_cell(cell)
+        {
+          id: "forecast-#{cell[:bearing]}-#{cell[:timestamp].to_i}",
+          timestamp: cell[:timestamp].iso8601,
+          precipitationIntensity: cell[:precipitation],
+          centerLatitude: cell[:lat],
+          centerLongitude: cell[:lng]
+        }
+      end
+    end
+  end
+end
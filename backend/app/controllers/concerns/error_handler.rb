@@ -24,6 +24,7 @@ module ErrorHandler
     REQUIRED_FIELD_MISSING = 2001
     CHARACTER_LIMIT_EXCEEDED = 2002
     VALIDATION_FAILED = 2003
+    UPLOAD_OFFSET_MISMATCH = 2004
 
     # Resource errors (3000-3999)
     PHOTO_NOT_FOUND = 3001
@@ -5,6 +5,7 @@
 # Runs daily via Solid Queue recurring schedule to:
 # - Remove expired JWT denylist entries
 # - Remove inactive device tokens (30+ days)
+# - Remove abandoned chunked photo uploads
 #
 # == Queue
 # Runs on the 'default' queue.
@@ -21,5 +22,8 @@ class DailyCleanupJob < ApplicationJob
 
     token_count = DeviceToken.cleanup_inactive(days_old: 30)
     Rails.logger.info("[DailyCleanupJob] Cleaned up #{token_count} inactive device tokens")
+
+    upload_count = PhotoUpload.cleanup_expired
+    Rails.logger.info("[DailyCleanupJob] Cleaned up #{upload_count} expired photo uploads")
   end
 end
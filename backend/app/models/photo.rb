@@ -284,16 +284,20 @@ class Photo < ApplicationRecord
   # =============================================================================
 
   # Broadcast new photo to the photo_feed channel
+  # Carries the fields the feed filters on (title/description, location,
+  # captured_at) so clients can match it against their current filters.
   def broadcast_new_photo
     ActionCable.server.broadcast("photo_feed", {
       type: "new_photo",
       photo: {
         id: id,
         title: title,
+        description: description,
         user: { id: user.id, display_name: user.display_name },
         latitude: latitude,
         longitude: longitude,
         thumbnail_url: thumbnail_url,
+        medium_url: medium_url,
         captured_at: captured_at&.iso8601,
         created_at: created_at.iso8601
       }
@@ -0,0 +1,87 @@
+# frozen_string_literal: true
+
+# PhotoUpload tracks a resumable, chunked photo upload.
+#
+# The client declares the file size up front, then sends the file in
+# chunks of at most CHUNK_SIZE bytes. received_bytes is the offset the
+# server has acknowledged, so an interrupted upload resumes from there
+# instead of resending the whole image. Once every byte has arrived the
+# upload is turned into a Photo. The upload then keeps a reference to the
+# photo (its chunks are dropped) until it expires, so completing it again
+# returns the same photo instead of creating another.
+#
+# == Associations
+# - belongs_to :user - The uploading user
+# - belongs_to :photo - The photo created from the upload (optional)
+# - has_many :chunks - Received bytes, ordered by offset
+#
+# == Validations
+# - content_type must be an allowed photo type
+# - byte_size must be within the photo size limit
+# - received_bytes cannot exceed byte_size
+#
+class PhotoUpload < ApplicationRecord
+  # Largest chunk accepted in a single request
+  CHUNK_SIZE = 256.kilobytes
+
+  # How long an upload can sit idle before it is discarded
+  EXPIRY = 24.hours
+
+  # Associations
+  belongs_to :user
+  belongs_to :photo, optional: true
+  has_many :chunks, -> { order(:byte_offset) }, class_name: "PhotoUploadChunk",
+                                                inverse_of: :photo_upload, dependent: :delete_all
+
+  # Validations
+  validates :filename, presence: true
+  validates :content_type, inclusion: { in: Photo::ALLOWED_CONTENT_TYPES }
+  validates :byte_size, numericality: { greater_than: 0, less_than_or_equal_to: Photo::MAX_IMAGE_SIZE }
+  validates :received_bytes, numericality: { greater_than_or_equal_to: 0 }
+  validate :received_bytes_within_byte_size
+
+  # Callbacks
+  before_validation :set_expires_at, on: :create
+
+  # Scopes
+  scope :active, -> { where("expires_at > ?", Time.current) }
+  scope :expired, -> { where("expires_at <= ?", Time.current) }
+
+  # Class method to clean up abandoned uploads
+  #
+  # @return [Integer] number of deleted uploads
+  def self.cleanup_expired
+    expired.delete_all
+  end
+
+  # Whether every byte of the file has been received
+  #
+  # @return [Boolean]
+  def complete?
+    received_bytes == byte_size
+  end
+
+  # The received file contents
+  #
+  # @return [String] binary data of all chunks in order
+  def assembled_data
+    chunks.pluck(:data).join.b
+  end
+
+  # Push back the expiry after activity
+  def touch_expiry
+    self.expires_at = EXPIRY.from_now
+  end
+
+  private
+
+  def set_expires_at
+    touch_expiry if expires_at.blank?
+  end
+
+  def received_bytes_within_byte_size
+    return if received_bytes.blank? || byte_size.blank?
+
+    errors.add(:received_bytes, "cannot exceed the file size") if received_bytes > byte_size
+  end
+end
@@ -0,0 +1,14 @@
+# frozen_string_literal: true
+
+# PhotoUploadChunk holds one received piece of a PhotoUpload.
+#
+# == Associations
+# - belongs_to :photo_upload
+#
+class PhotoUploadChunk < ApplicationRecord
+  belongs_to :photo_upload
+
+  validates :byte_offset, numericality: { greater_than_or_equal_to: 0 },
+                          uniqueness: { scope: :photo_upload_id }
+  validates :data, presence: true
+end
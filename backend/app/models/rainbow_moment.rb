@@ -25,6 +25,9 @@ class RainbowMoment < ApplicationRecord
   STATUSES = %w[active closing archived].freeze
   DEFAULT_DURATION = 15.minutes
   CLOSING_GRACE_PERIOD = 5.minutes
+  # Distance from the monitoring location for photos and participants
+  PROXIMITY_RADIUS_METERS = 10_000
+  EARTH_RADIUS_METERS = 6_371_000
 
   # =============================================================================
   # Associations
@@ -134,6 +137,7 @@ class RainbowMoment < ApplicationRecord
   end
 
   # Add a participant to this moment.
+  # Broadcasts participant_joined when the user was not already participating.
   #
   # @param user [User]
   # @return [RainbowMomentParticipation, nil]
@@ -144,16 +148,17 @@ class RainbowMoment < ApplicationRecord
     if participation.new_record?
       participation.joined_at = Time.current
       participation.save!
-      broadcast_participant_count
+      broadcast_participant_count("participant_joined", user)
     elsif participation.left_at.present?
       # Rejoin
       participation.update!(left_at: nil)
-      broadcast_participant_count
+      broadcast_participant_count("participant_joined", user)
     end
     participation
   end
 
   # Remove a participant from this moment.
+  # Broadcasts participant_left when the user was participating.
   #
   # @param user [User]
   def leave(user)
@@ -161,7 +166,7 @@ class RainbowMoment < ApplicationRecord
     return unless participation && participation.left_at.nil?
 
     participation.update!(left_at: Time.current)
-    broadcast_participant_count
+    broadcast_participant_count("participant_left", user)
   end
 
   # Current active participant count (joined but not left).
@@ -178,7 +183,20 @@ class RainbowMoment < ApplicationRecord
   def photos
     Photo.where(captured_at: starts_at..ends_at)
          .where("ST_DWithin(location, ST_SetSRID(ST_MakePoint(?, ?), 4326)::geography, ?)",
-                location_lng, location_lat, 10_000) # 10km radius
+                location_lng, location_lat, PROXIMITY_RADIUS_METERS)
+  end
+
+  # Whether a reported position is close enough to take part in this moment.
+  # Used as location proof when joining over the channel.
+  #
+  # @param latitude [Numeric, String]
+  # @param longitude [Numeric, String]
+  # @return [Boolean]
+  def within_proximity?(latitude, longitude)
+    return false if latitude.blank? || longitude.blank?
+    return false if location_lat.nil? || location_lng.nil?
+
+    distance_meters(latitude.to_f, longitude.to_f) <= PROXIMITY_RADIUS_METERS
   end
 
   # Get location details from MONITORING_LOCATIONS.
@@ -202,12 +220,33 @@ class RainbowMoment < ApplicationRecord
 
   private
 
-  def broadcast_participant_count
+  # Haversine distance from the monitoring location
+  def distance_meters(latitude, longitude)
+    rad_per_deg = Math::PI / 180
+    dlat = (latitude - location_lat) * rad_per_deg
+    dlng = (longitude - location_lng) * rad_per_deg
+
+    a = Math.sin(dlat / 2)**2 +
+        Math.cos(location_lat * rad_per_deg) * Math.cos(latitude * rad_per_deg) *
+        Math.sin(dlng / 2)**2
+
+    EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  end
+
+  # Broadcast the participant count along with the user whose participation changed
+  def broadcast_participant_count(type, user)
+    count = active_participants_count
+
     ActionCable.server.broadcast(
       "rainbow_moment:#{id}",
       {
-        type: "participant_count",
-        count: active_participants_count,
+        type: type,
+        user: {
+          id: user.id,
+          display_name: user.display_name
+        },
+        count: count,
+        participant_count: count,
         total: participations.count
       }
     )
@@ -8,10 +8,13 @@
 #
 # == Associations
 # - has_many :photos - Rainbow photos submitted by this user
+# - has_many :photo_uploads - Chunked photo uploads in progress
 # - has_many :comments - Comments made on photos
 # - has_many :likes - Likes given to photos
 # - has_many :notifications - In-app notifications
 # - has_many :device_tokens - Push notification tokens
+# - has_many :user_blocks - Blocks this user has made
+# - has_many :blocked_users - Users this user has blocked
 # - has_one_attached :profile_image - User's profile avatar
 #
 # == Validations
@@ -39,10 +42,15 @@ class User < ApplicationRecord
 
   # Associations
   has_many :photos, dependent: :destroy
+  has_many :photo_uploads, dependent: :destroy
   has_many :comments, dependent: :destroy
   has_many :likes, dependent: :destroy
   has_many :notifications, dependent: :destroy
   has_many :device_tokens, dependent: :destroy
+  has_many :user_blocks, foreign_key: :blocker_id, inverse_of: :blocker, dependent: :destroy
+  has_many :blocked_users, through: :user_blocks, source: :blocked
+  has_many :received_blocks, class_name: "UserBlock", foreign_key: :blocked_id,
+                             inverse_of: :blocked, dependent: :destroy
 
   # Validations
   validates :display_name, presence: true, length: { in: 3..30 }
@@ -119,4 +127,14 @@ class User < ApplicationRecord
     remaining = (deletion_scheduled_at - Time.current) / 1.day
     [ remaining.ceil, 0 ].max
   end
+
+  # Check if this user has blocked another user
+  #
+  # @param other [User] The user to check
+  # @return [Boolean] true if other is blocked
+  def blocking?(other)
+    return false unless other
+
+    user_blocks.exists?(blocked_id: other.id)
+  end
 end
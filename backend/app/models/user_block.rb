@@ -0,0 +1,33 @@
+# frozen_string_literal: true
+
+# UserBlock model for users hiding other users' content.
+#
+# Blocking is one-way: the blocker no longer sees the blocked user's
+# photos, comments or profile in the app. The blocked user is not told.
+#
+# == Associations
+# - belongs_to :blocker - The user who blocked
+# - belongs_to :blocked - The user who was blocked
+#
+# == Validations
+# - blocked_id must be unique per blocker (no duplicate blocks)
+# - A user cannot block themselves
+#
+class UserBlock < ApplicationRecord
+  # Associations
+  belongs_to :blocker, class_name: "User"
+  belongs_to :blocked, class_name: "User"
+
+  # Validations
+  validates :blocked_id, uniqueness: { scope: :blocker_id, message: "is already blocked" }
+  validate :cannot_block_self
+
+  # Scopes
+  scope :recent, -> { order(created_at: :desc) }
+
+  private
+
+  def cannot_block_self
+    errors.add(:blocked_id, "cannot be yourself") if blocker_id.present? && blocker_id == blocked_id
+  end
+end
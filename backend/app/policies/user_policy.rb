@@ -3,8 +3,11 @@
 # UserPolicy defines authorization rules for User resources.
 #
 # Rules:
-# - show?: Any authenticated user can view public profiles
+# - show?: Any authenticated user can view a profile's name and avatar
+# - show_details?: Stats and photos are visible for public profiles only
+#   (the owner and admins can always see them)
 # - update?: Only the user themselves can update their profile (or admin)
+# - block?: Any authenticated user can block anyone except themselves
 #
 # @see https://github.com/varvet/pundit
 #
@@ -17,6 +20,17 @@ class UserPolicy < ApplicationPolicy
     user.present?
   end
 
+  # Check if the user can see the profile's stats and photos
+  #
+  # @return [Boolean] true if authorized
+  def show_details?
+    return false unless user.present?
+    return true if record.public_profile?
+    return true if user.admin?
+
+    user.id == record.id
+  end
+
   # Check if the user can update the profile
   #
   # @return [Boolean] true if authorized
@@ -28,6 +42,15 @@ class UserPolicy < ApplicationPolicy
     user.id == record.id
   end
 
+  # Check if the user can block (or unblock) the record user
+  #
+  # @return [Boolean] true if authorized
+  def block?
+    return false unless user.present?
+
+    user.id != record.id
+  end
+
   # Scope for listing users (if needed in future)
   class Scope < ApplicationPolicy::Scope
     def resolve
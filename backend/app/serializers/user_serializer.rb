@@ -2,9 +2,10 @@
 
 # UserSerializer provides Alba serialization for User resources.
 #
-# Offers three serialization modes:
+# Offers four serialization modes:
 # - Summary: Minimal user info for embedding in other resources
 # - Full (default): Public profile information for profile views
+# - Restricted: Name and avatar only, for private profiles viewed by others
 # - Private: Full profile with private fields (for current user only)
 #
 # == Security
@@ -19,6 +20,9 @@
 #   # Public profile (for viewing other users)
 #   UserSerializer.new(user).serialize
 #
+#   # Private profile viewed by another user
+#   UserSerializer::Restricted.new(user).serialize
+#
 #   # Private profile (for current user viewing own profile)
 #   UserSerializer::Private.new(user).serialize
 #
@@ -42,6 +46,10 @@ class UserSerializer < ApplicationSerializer
     user.created_at&.iso8601
   end
 
+  attribute :is_public do |user|
+    user.public_profile
+  end
+
   class << self
     # Generate profile image URL
     #
@@ -91,6 +99,20 @@ class UserSerializer < ApplicationSerializer
     end
   end
 
+  # Restricted serializer for a private profile viewed by another user
+  # Stats and photos are hidden, so only the name and avatar are included
+  class Restricted < ApplicationSerializer
+    attributes :id, :display_name
+
+    attribute :profile_image_url do |user|
+      UserSerializer.profile_image_url_for(user)
+    end
+
+    attribute :is_public do |_user|
+      false
+    end
+  end
+
   # Private serializer for current user viewing own profile
   # Includes sensitive/private fields
   class Private < ApplicationSerializer
@@ -108,6 +130,10 @@ class UserSerializer < ApplicationSerializer
 
     # === Private fields (only visible to user themselves) ===
 
+    attribute :is_public do |user|
+      user.public_profile
+    end
+
     attribute :email do |user|
       user.email
     end
@@ -364,7 +364,8 @@ class MapService
       longitude: photo.longitude,
       title: photo.title,
       thumbnailUrl: photo.thumbnail_url,
-      capturedAt: photo.captured_at&.iso8601
+      capturedAt: photo.captured_at&.iso8601,
+      userId: photo.user_id
     }
   end
 
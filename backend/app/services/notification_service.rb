@@ -27,6 +27,7 @@
 class NotificationService
   # Default notification settings for new users
   DEFAULT_NOTIFICATION_SETTINGS = {
+    "push_enabled" => true,      # Master switch for device push (in-app notifications are still saved)
     "rainbow_alerts" => true,
     "likes" => true,
     "comments" => true,
@@ -81,6 +82,11 @@ class NotificationService
       )
     end
 
+    # Push delivery is switched off; the in-app notification is kept
+    unless push_enabled?(user)
+      return success_result(skipped: true, reason: "push_disabled")
+    end
+
     # Send push to all active devices
     results = send_to_user_devices(user, title, body, data)
 
@@ -290,7 +296,8 @@ class NotificationService
   # @param user [User] The user to get notifications for
   # @param page [Integer] Page number (1-indexed)
   # @param per_page [Integer] Items per page
-  # @param filter [Symbol, nil] Filter by type (:unread, :rainbow_alerts, :social, etc.)
+  # @param filter [Symbol, nil] Filter by group (:unread, :rainbow_alerts, :social, :system)
+  #   or by a single notification type (:rainbow_alert, :like, :comment)
   # @return [Hash] Result with notifications and pagination info
   def list_for_user(user:, page: 1, per_page: DEFAULT_PAGE_SIZE, filter: nil)
     return not_found_error("User not found") unless user
@@ -537,6 +544,11 @@ class NotificationService
     end
   end
 
+  # Check if device push delivery is enabled for user
+  def push_enabled?(user)
+    (user.notification_settings || {}).fetch("push_enabled", true)
+  end
+
   # Create in-app notification record
   def create_in_app_notification(user:, title:, body:, notification_type:, data:)
     Notification.create!(
@@ -604,6 +616,8 @@ class NotificationService
       scope.social
     when :system
       scope.system_notifications
+    when :rainbow_alert, :like, :comment
+      scope.where(notification_type: filter)
     else
       scope
     end
@@ -625,6 +639,7 @@ class NotificationService
   # Transform settings keys from snake_case to camelCase
   def camelize_settings(settings)
     key_mapping = {
+      "push_enabled" => "pushEnabled",
       "rainbow_alerts" => "rainbowAlerts",
       "alert_radius_km" => "alertRadiusKm",
       "quiet_hours_start" => "quietHoursStart",
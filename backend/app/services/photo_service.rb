@@ -132,10 +132,7 @@ class PhotoService
       # Queue weather data fetch job if location is provided
       enqueue_weather_fetch(photo) if photo.location.present?
 
-      success_result(
-        photo: photo_data(photo),
-        message: "Photo created successfully"
-      )
+      created_result(photo)
     else
       failure_result(
         code: ErrorHandler::ErrorCodes::VALIDATION_FAILED,
@@ -159,6 +156,17 @@ class PhotoService
     )
   end
 
+  # Result for a created photo, in the shape returned by #create
+  #
+  # @param photo [Photo] the created photo
+  # @return [Hash] success result with the photo data
+  def created_result(photo)
+    success_result(
+      photo: photo_data(photo),
+      message: "Photo created successfully"
+    )
+  end
+
   # Find a photo with all associated details
   #
   # Retrieves a photo with eager-loaded associations to prevent N+1 queries.
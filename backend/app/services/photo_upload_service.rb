@@ -0,0 +1,223 @@
+# frozen_string_literal: true
+
+# PhotoUploadService handles resumable chunked photo uploads.
+#
+# Uploads from flaky mobile connections are sent in chunks so a dropped
+# connection only costs the chunk in flight:
+# 1. start    - declare the file, get an upload ID and the chunk size
+# 2. status   - read the acknowledged offset to resume from
+# 3. append   - send the next chunk at the acknowledged offset
+# 4. complete - create the photo once every byte has arrived
+#
+# Appending is idempotent: a chunk that was stored but whose response was
+# lost can be sent again, and only the bytes past the acknowledged offset
+# are kept. Completing is idempotent as well: the created photo is recorded
+# on the upload, and completing again returns it.
+#
+# == Error Codes
+# - 2003: Validation failed (bad chunk, incomplete upload)
+# - 2004: Upload offset mismatch (chunk starts past the acknowledged offset)
+# - 4004: File too large
+# - 4005: Invalid file type
+#
+# == Usage
+#   service = PhotoUploadService.new
+#   result = service.start(user: current_user, filename: "rainbow.jpg",
+#                          content_type: "image/jpeg", byte_size: 1_048_576)
+#   upload = PhotoUpload.find(result[:data][:upload][:id])
+#   service.append(upload: upload, offset: 0, data: request.body.read)
+#   service.complete(upload: upload, metadata: { captured_at: Time.current })
+#
+class PhotoUploadService
+  # Result structure for successful operations
+  #
+  # @param data [Hash] the data to return
+  # @return [Hash] success result with data
+  def success_result(data)
+    { success: true, data: data }
+  end
+
+  # Result structure for failed operations
+  #
+  # @param code [Integer] error code
+  # @param message [String] error message
+  # @param details [Hash, nil] additional error details
+  # @return [Hash] failure result with error info
+  def failure_result(code:, message:, details: nil)
+    result = {
+      success: false,
+      error: {
+        code: code,
+        message: message
+      }
+    }
+    result[:error][:details] = details if details.present?
+    result
+  end
+
+  # Start a chunked upload
+  #
+  # @param user [User] the uploading user
+  # @param filename [String] original file name
+  # @param content_type [String] image MIME type
+  # @param byte_size [Integer] total file size in bytes
+  # @return [Hash] result with :success, :data or :error
+  def start(user:, filename:, content_type:, byte_size:)
+    unless Photo::ALLOWED_CONTENT_TYPES.include?(content_type)
+      return failure_result(
+        code: ErrorHandler::ErrorCodes::INVALID_FILE_TYPE,
+        message: "Unsupported image type",
+        details: { allowed: Photo::ALLOWED_CONTENT_TYPES }
+      )
+    end
+
+    if byte_size.to_i > Photo::MAX_IMAGE_SIZE
+      return failure_result(
+        code: ErrorHandler::ErrorCodes::FILE_TOO_LARGE,
+        message: "Image must be less than #{Photo::MAX_IMAGE_SIZE / 1.megabyte}MB"
+      )
+    end
+
+    upload = user.photo_uploads.build(
+      filename: filename,
+      content_type: content_type,
+      byte_size: byte_size.to_i
+    )
+
+    if upload.save
+      success_result(upload: upload_data(upload))
+    else
+      failure_result(
+        code: ErrorHandler::ErrorCodes::VALIDATION_FAILED,
+        message: "Failed to start upload",
+        details: { errors: upload.errors.full_messages }
+      )
+    end
+  end
+
+  # Get the state of an upload
+  #
+  # @param upload [PhotoUpload] the upload
+  # @return [Hash] result with :success and :data
+  def status(upload:)
+    success_result(upload: upload_data(upload))
+  end
+
+  # Append a chunk to an upload
+  #
+  # @param upload [PhotoUpload] the upload
+  # @param offset [Integer, String, nil] position of the chunk's first byte
+  # @param data [String] chunk contents
+  # @return [Hash] result with :success, :data or :error
+  def append(upload:, offset:, data:)
+    data = data.to_s.b
+
+    if data.empty? || data.bytesize > PhotoUpload::CHUNK_SIZE
+      return failure_result(
+        code: ErrorHandler::ErrorCodes::VALIDATION_FAILED,
+        message: "Chunk must be between 1 and #{PhotoUpload::CHUNK_SIZE} bytes"
+      )
+    end
+
+    upload.with_lock do
+      unless offset.to_s.match?(/\A\d+\z/) && offset.to_i <= upload.received_bytes
+        next offset_mismatch_result(upload)
+      end
+
+      # Keep only the bytes past the acknowledged offset
+      new_data = data.byteslice((upload.received_bytes - offset.to_i)..) || "".b
+
+      if upload.received_bytes + new_data.bytesize > upload.byte_size
+        next failure_result(
+          code: ErrorHandler::ErrorCodes::VALIDATION_FAILED,
+          message: "Chunk extends past the declared file size",
+          details: { byte_size: upload.byte_size }
+        )
+      end
+
+      if new_data.bytesize.positive?
+        upload.chunks.create!(byte_offset: upload.received_bytes, data: new_data)
+        upload.received_bytes += new_data.bytesize
+      end
+      upload.touch_expiry
+      upload.save!
+
+      success_result(upload: upload_data(upload))
+    end
+  end
+
+  # Create the photo from a fully received upload
+  #
+  # The created photo is recorded on the upload and its chunks are dropped.
+  # Completing it again returns that photo, so a client whose response was
+  # lost can safely retry. On failure the upload is kept so the client can
+  # retry.
+  #
+  # @param upload [PhotoUpload] the upload
+  # @param metadata [Hash] photo metadata (see PhotoService#create)
+  # @return [Hash] result with :success, :data or :error
+  def complete(upload:, metadata:)
+    upload.with_lock do
+      next photo_service.created_result(upload.photo) if upload.photo
+
+      unless upload.complete?
+        next failure_result(
+          code: ErrorHandler::ErrorCodes::VALIDATION_FAILED,
+          message: "Upload is incomplete",
+          details: { received_bytes: upload.received_bytes, byte_size: upload.byte_size }
+        )
+      end
+
+      result = photo_service.create(
+        user: upload.user,
+        image: {
+          io: StringIO.new(upload.assembled_data),
+          filename: upload.filename,
+          content_type: upload.content_type
+        },
+        metadata: metadata
+      )
+
+      if result[:success]
+        upload.chunks.delete_all
+        upload.photo_id = result[:data][:photo][:id]
+        upload.touch_expiry
+        upload.save!
+      end
+      result
+    end
+  end
+
+  private
+
+  # @return [PhotoService] the service that creates the photos
+  def photo_service
+    @photo_service ||= PhotoService.new
+  end
+
+  # Failure for a chunk that does not continue the received data
+  #
+  # @param upload [PhotoUpload] the upload
+  # @return [Hash] failure result with the offset to resume from
+  def offset_mismatch_result(upload)
+    failure_result(
+      code: ErrorHandler::ErrorCodes::UPLOAD_OFFSET_MISMATCH,
+      message: "Chunk offset does not match the received data",
+      details: { received_bytes: upload.received_bytes }
+    )
+  end
+
+  # Format upload data for API response
+  #
+  # @param upload [PhotoUpload] the upload
+  # @return [Hash] upload state (camelCase for JS clients)
+  def upload_data(upload)
+    {
+      id: upload.id,
+      byteSize: upload.byte_size,
+      receivedBytes: upload.received_bytes,
+      chunkSize: PhotoUpload::CHUNK_SIZE,
+      expiresAt: upload.expires_at&.iso8601
+    }
+  end
+end
@@ -6,6 +6,7 @@
 # - Current weather conditions fetching from OpenWeatherMap
 # - Historical weather data retrieval
 # - Radar data fetching from RainViewer
+# - Hourly forecasts around a location for rainbow prediction
 # - Sun position calculation using SunCalc
 # - Rainbow conditions evaluation
 #
@@ -35,6 +36,19 @@ class WeatherService
   CACHE_PREFIX_HISTORICAL = "weather:historical"
   CACHE_PREFIX_RADAR = "weather:radar"
   CACHE_PREFIX_SUN = "weather:sun"
+  CACHE_PREFIX_FORECAST = "weather:forecast"
+
+  # Forecast sample points around the location: one every 45° at this distance (km),
+  # close enough for rain there to be within sight
+  FORECAST_SAMPLE_DISTANCE_KM = 15
+  FORECAST_SAMPLE_BEARINGS = [ 0, 45, 90, 135, 180, 225, 270, 315 ].freeze
+
+  # Forecast length limits (hours)
+  FORECAST_DEFAULT_HOURS = 6
+  FORECAST_MAX_HOURS = 12
+
+  # Mean Earth radius (km)
+  EARTH_RADIUS_KM = 6371.0
 
   # Rainbow formation conditions thresholds
   RAINBOW_CONDITIONS = {
@@ -278,6 +292,78 @@ class WeatherService
     )
   end
 
+  # Fetch an hourly forecast for rainbow prediction
+  #
+  # Returns the forecast at the location with the sun position for each hour,
+  # and the forecast precipitation at sample points around it so clients can
+  # tell on which side of the sun rain is expected. A sample point that fails
+  # to load is skipped.
+  #
+  # @param lat [Float] latitude
+  # @param lng [Float] longitude
+  # @param hours [Integer] forecast length (default: 6, max: 12)
+  # @return [Hash] result with :success, :data or :error
+  def fetch_forecast(lat:, lng:, hours: FORECAST_DEFAULT_HOURS)
+    return api_not_configured_error unless @weather_api
+
+    hours = hours.to_i.clamp(1, FORECAST_MAX_HOURS)
+    now = Time.current
+    period = now.beginning_of_hour..(now + hours.hours)
+
+    weather_timeline = forecast_for(lat, lng, period).map do |hour|
+      sun_position = calculate_sun_position(lat: lat, lng: lng, time: hour[:timestamp])
+      sun_position[:success] ? hour.merge(sun_position: sun_position[:data]) : hour
+    end
+
+    precipitation_cells = FORECAST_SAMPLE_BEARINGS.flat_map do |bearing|
+      point = offset_point(lat, lng, bearing, FORECAST_SAMPLE_DISTANCE_KM)
+
+      forecast_for(point[:lat], point[:lng], period).map do |hour|
+        {
+          timestamp: hour[:timestamp],
+          lat: point[:lat],
+          lng: point[:lng],
+          bearing: bearing,
+          distance_km: FORECAST_SAMPLE_DISTANCE_KM,
+          precipitation: (hour[:rain_1h] || 0) + (hour[:snow_1h] || 0)
+        }
+      end
+    rescue ExternalApis::WeatherApi::ApiError => e
+      log_warn("Failed to fetch forecast #{bearing}° from #{lat},#{lng}: #{e.message}")
+      []
+    end
+
+    success_result(
+      forecast: {
+        hours: hours,
+        weather_timeline: weather_timeline,
+        precipitation_cells: precipitation_cells
+      }
+    )
+  rescue Faraday::TimeoutError, Faraday::ConnectionFailed => e
+    log_error("WeatherService#fetch_forecast timeout: #{e.message}")
+    failure_result(
+      code: ErrorHandler::ErrorCodes::TIMEOUT_ERROR,
+      message: "Weather API request timed out. Please try again."
+    )
+  rescue ExternalApis::WeatherApi::RateLimitError
+    failure_result(
+      code: ErrorHandler::ErrorCodes::RATE_LIMIT_ERROR,
+      message: "Weather API rate limit exceeded. Please try again later."
+    )
+  rescue ExternalApis::WeatherApi::ApiError => e
+    failure_result(
+      code: ErrorHandler::ErrorCodes::WEATHER_API_ERROR,
+      message: "Failed to fetch weather forecast: #{e.message}"
+    )
+  rescue StandardError => e
+    log_error("WeatherService#fetch_forecast error: #{e.message}")
+    failure_result(
+      code: ErrorHandler::ErrorCodes::INTERNAL_ERROR,
+      message: "An unexpected error occurred"
+    )
+  end
+
   # Calculate sun position for a given location and time
   #
   # @param lat [Float] latitude
@@ -423,6 +509,32 @@ class WeatherService
     @weather_api.historical_weather(lat: lat, lng: lng, timestamp: timestamp)
   end
 
+  # Hourly forecast for a location within a period (cached)
+  def forecast_for(lat, lng, period)
+    cache_key = "#{CACHE_PREFIX_FORECAST}:#{lat.round(3)}:#{lng.round(3)}"
+    hourly = cache_fetch(cache_key, expires_in: CACHE_DURATION) do
+      @weather_api.hourly_forecast(lat: lat, lng: lng)
+    end
+
+    hourly.select { |hour| period.cover?(hour[:timestamp]) }
+  end
+
+  # Point at a distance and compass bearing from a location (great-circle)
+  def offset_point(lat, lng, bearing_deg, distance_km)
+    phi = lat * Math::PI / 180
+    lng_rad = lng * Math::PI / 180
+    theta = bearing_deg * Math::PI / 180
+    delta = distance_km / EARTH_RADIUS_KM
+
+    phi2 = Math.asin(Math.sin(phi) * Math.cos(delta) + Math.cos(phi) * Math.sin(delta) * Math.cos(theta))
+    lng2 = lng_rad + Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi),
+      Math.cos(delta) - Math.sin(phi) * Math.sin(phi2)
+    )
+
+    { lat: radians_to_degrees(phi2).round(4), lng: radians_to_degrees(lng2).round(4) }
+  end
+
   def round_to_30_minutes(time)
     Time.at((time.to_i / 1800.0).round * 1800).utc
   end
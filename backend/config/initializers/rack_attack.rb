@@ -30,8 +30,9 @@ class Rack::Attack
   end
 
   # Photo upload: 20 per hour per user (identified by Authorization header)
+  # Counts direct uploads and chunked upload starts; chunks are not counted.
   throttle("uploads/token", limit: 20, period: 1.hour) do |req|
-    if req.path.match?(%r{/api/v1/photos}) && req.post?
+    if req.path.match?(%r{\A/api/v1/photos(/uploads)?/?\z}) && req.post?
       # Use JWT token as identifier (first 32 chars to avoid long keys)
       token = req.env["HTTP_AUTHORIZATION"]&.sub(/^Bearer\s+/, "")
       token&.first(32)
@@ -45,6 +45,17 @@ Rails.application.routes.draw do
         get "verify_email/:token", to: "/api/v1/auth#verify_email"
       end
 
+      # Resumable photo upload endpoints
+      # POST   /api/v1/photos/uploads              - Start a chunked upload
+      # GET    /api/v1/photos/uploads/:id          - Get the acknowledged offset
+      # PATCH  /api/v1/photos/uploads/:id          - Append a chunk
+      # POST   /api/v1/photos/uploads/:id/complete - Create the photo from the upload
+      resources :photo_uploads, path: "photos/uploads", only: %i[create show update] do
+        member do
+          post :complete
+        end
+      end
+
       # Photo endpoints
       # GET    /api/v1/photos             - List photos with filters
       # GET    /api/v1/photos/:id         - Show photo details
@@ -111,8 +122,11 @@ Rails.application.routes.draw do
       # POST   /api/v1/users/me/delete          - Request account deletion
       # DELETE /api/v1/users/me/delete          - Cancel deletion request
       # GET    /api/v1/users/me/deletion_status - Get deletion status
+      # GET    /api/v1/users/me/blocks          - List blocked users
       # GET    /api/v1/users/:id                - Get public user profile
       # GET    /api/v1/users/:id/photos         - Get user's public photos
+      # POST   /api/v1/users/:id/block          - Block user
+      # DELETE /api/v1/users/:id/block          - Unblock user
       resources :users, only: [ :show ] do
         collection do
           get :me, to: "users#me"
@@ -124,9 +138,12 @@ Rails.application.routes.draw do
           post "me/delete", to: "users#request_deletion"
           delete "me/delete", to: "users#cancel_deletion"
           get "me/deletion_status", to: "users#deletion_status"
+          get "me/blocks", to: "users#blocked_users"
         end
         member do
           get :photos, to: "users#user_photos"
+          post :block, to: "users#block"
+          delete :block, to: "users#unblock"
         end
       end
 
@@ -146,6 +163,12 @@ Rails.application.routes.draw do
         post :trigger_moment, to: "/api/v1/rainbow_moments#trigger_demo"
       end
 
+      # Weather endpoints
+      # GET    /api/v1/weather/forecast                - Hourly forecast around a location
+      scope :weather, controller: :weather do
+        get :forecast
+      end
+
       # Statistics endpoints (public, for research/dashboard)
       # GET    /api/v1/statistics/regions              - List available regions
       # GET    /api/v1/statistics/region/:region_id    - Get region statistics
@@ -0,0 +1,9 @@
+# frozen_string_literal: true
+
+# Add a public/private profile setting to users.
+# Private profiles hide stats and photos from other users.
+class AddPublicProfileToUsers < ActiveRecord::Migration[8.0]
+  def change
+    add_column :users, :public_profile, :boolean, default: true, null: false
+  end
+end
@@ -0,0 +1,27 @@
+# frozen_string_literal: true
+
+# Migration to create the user_blocks table.
+# Tracks which users each user has blocked.
+#
+# Features:
+# - UUID primary key
+# - Unique constraint on blocker_id + blocked_id to prevent duplicate blocks
+# - Only created_at timestamp (blocks are not edited)
+#
+class CreateUserBlocks < ActiveRecord::Migration[8.0]
+  def change
+    create_table :user_blocks, id: :uuid do |t|
+      # The user who blocked
+      t.references :blocker, type: :uuid, foreign_key: { to_table: :users }, null: false
+
+      # The user who was blocked
+      t.references :blocked, type: :uuid, foreign_key: { to_table: :users }, null: false
+
+      # Timestamp (created_at only, blocks are not updated)
+      t.datetime :created_at
+    end
+
+    # Unique constraint to prevent duplicate blocks
+    add_index :user_blocks, [ :blocker_id, :blocked_id ], unique: true
+  end
+end
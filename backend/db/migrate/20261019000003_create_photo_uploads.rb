@@ -0,0 +1,47 @@
+# frozen_string_literal: true
+
+# Migration to create the photo_uploads and photo_upload_chunks tables.
+# Backs resumable chunked photo uploads from the mobile app.
+#
+# Features:
+# - UUID primary keys
+# - received_bytes is the offset the client resumes from
+# - Chunks are stored in order by byte offset and removed with their upload
+# - expires_at index for the daily cleanup of abandoned uploads
+#
+class CreatePhotoUploads < ActiveRecord::Migration[8.0]
+  def change
+    create_table :photo_uploads, id: :uuid do |t|
+      # The user uploading the photo
+      t.references :user, type: :uuid, foreign_key: true, null: false
+
+      # Image file details declared when the upload starts
+      t.string :filename, null: false
+      t.string :content_type, null: false
+      t.bigint :byte_size, null: false
+
+      # Bytes acknowledged so far
+      t.bigint :received_bytes, null: false, default: 0
+
+      # Abandoned uploads are removed after this time
+      t.datetime :expires_at, null: false
+
+      t.timestamps
+    end
+
+    add_index :photo_uploads, :expires_at
+
+    create_table :photo_upload_chunks, id: :uuid do |t|
+      t.references :photo_upload, type: :uuid, foreign_key: { on_delete: :cascade }, null: false
+
+      # Position of the first byte of this chunk in the file
+      t.bigint :byte_offset, null: false
+      t.binary :data, null: false
+
+      # Timestamp (created_at only, chunks are not updated)
+      t.datetime :created_at
+    end
+
+    add_index :photo_upload_chunks, [ :photo_upload_id, :byte_offset ], unique: true
+  end
+end
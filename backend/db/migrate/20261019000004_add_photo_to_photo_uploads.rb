@@ -0,0 +1,10 @@
+# frozen_string_literal: true
+
+# Record the photo created from a chunked upload.
+# Completed uploads are kept until they expire so a repeated completion
+# (e.g. after its response was lost) returns the same photo.
+class AddPhotoToPhotoUploads < ActiveRecord::Migration[8.0]
+  def change
+    add_reference :photo_uploads, :photo, type: :uuid, foreign_key: { on_delete: :cascade }
+  end
+end
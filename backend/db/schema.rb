@@ -10,7 +10,7 @@
 #
 # It's strongly recommended that you check this file into your version control system.
 
-ActiveRecord::Schema[8.1].define(version: 2026_04_04_224908) do
+ActiveRecord::Schema[8.1].define(version: 2026_10_19_000004) do
   # These are extensions that must be enabled in order to support this database
   enable_extension "pg_catalog.plpgsql"
   enable_extension "pgcrypto"
@@ -97,6 +97,30 @@ ActiveRecord::Schema[8.1].define(version: 2026_04_04_224908) do
     t.index ["user_id"], name: "index_notifications_on_user_id"
   end
 
+  create_table "photo_upload_chunks", id: :uuid, default: -> { "gen_random_uuid()" }, force: :cascade do |t|
+    t.bigint "byte_offset", null: false
+    t.datetime "created_at"
+    t.binary "data", null: false
+    t.uuid "photo_upload_id", null: false
+    t.index ["photo_upload_id", "byte_offset"], name: "index_photo_upload_chunks_on_photo_upload_id_and_byte_offset", unique: true
+    t.index ["photo_upload_id"], name: "index_photo_upload_chunks_on_photo_upload_id"
+  end
+
+  create_table "photo_uploads", id: :uuid, default: -> { "gen_random_uuid()" }, force: :cascade do |t|
+    t.bigint "byte_size", null: false
+    t.string "content_type", null: false
+    t.datetime "created_at", null: false
+    t.datetime "expires_at", null: false
+    t.string "filename", null: false
+    t.uuid "photo_id"
+    t.bigint "received_bytes", default: 0, null: false
+    t.datetime "updated_at", null: false
+    t.uuid "user_id", null: false
+    t.index ["expires_at"], name: "index_photo_uploads_on_expires_at"
+    t.index ["photo_id"], name: "index_photo_uploads_on_photo_id"
+    t.index ["user_id"], name: "index_photo_uploads_on_user_id"
+  end
+
   create_table "photos", id: :uuid, default: -> { "gen_random_uuid()" }, force: :cascade do |t|
     t.decimal "accuracy"
     t.decimal "altitude"
@@ -178,6 +202,15 @@ ActiveRecord::Schema[8.1].define(version: 2026_04_04_224908) do
     t.index ["status", "created_at"], name: "index_reports_on_status_created", order: { created_at: :desc }
   end
 
+  create_table "user_blocks", id: :uuid, default: -> { "gen_random_uuid()" }, force: :cascade do |t|
+    t.uuid "blocked_id", null: false
+    t.uuid "blocker_id", null: false
+    t.datetime "created_at"
+    t.index ["blocked_id"], name: "index_user_blocks_on_blocked_id"
+    t.index ["blocker_id", "blocked_id"], name: "index_user_blocks_on_blocker_id_and_blocked_id", unique: true
+    t.index ["blocker_id"], name: "index_user_blocks_on_blocker_id"
+  end
+
   create_table "users", id: :uuid, default: -> { "gen_random_uuid()" }, force: :cascade do |t|
     t.datetime "confirmation_sent_at"
     t.string "confirmation_token"
@@ -195,6 +228,7 @@ ActiveRecord::Schema[8.1].define(version: 2026_04_04_224908) do
     t.string "locale", limit: 5, default: "ja"
     t.datetime "locked_at"
     t.jsonb "notification_settings", default: {}
+    t.boolean "public_profile", default: true, null: false
     t.datetime "remember_created_at"
     t.datetime "reset_password_sent_at"
     t.string "reset_password_token"
@@ -243,12 +277,17 @@ ActiveRecord::Schema[8.1].define(version: 2026_04_04_224908) do
   add_foreign_key "likes", "photos"
   add_foreign_key "likes", "users"
   add_foreign_key "notifications", "users"
+  add_foreign_key "photo_upload_chunks", "photo_uploads", on_delete: :cascade
+  add_foreign_key "photo_uploads", "photos", on_delete: :cascade
+  add_foreign_key "photo_uploads", "users"
   add_foreign_key "photos", "users"
   add_foreign_key "radar_data", "photos"
   add_foreign_key "rainbow_moment_participations", "rainbow_moments"
   add_foreign_key "rainbow_moment_participations", "users"
   add_foreign_key "reports", "users", column: "reporter_id"
   add_foreign_key "reports", "users", column: "resolved_by_id"
+  add_foreign_key "user_blocks", "users", column: "blocked_id"
+  add_foreign_key "user_blocks", "users", column: "blocker_id"
   add_foreign_key "weather_conditions", "photos"
   add_foreign_key "weather_conditions", "radar_data"
 end
@@ -9,6 +9,7 @@ module ExternalApis
   #   api = ExternalApis::WeatherApi.new
   #   current = api.current_weather(lat: 36.115, lng: 137.954)
   #   historical = api.historical_weather(lat: 36.115, lng: 137.954, timestamp: 1.hour.ago)
+  #   forecast = api.hourly_forecast(lat: 36.115, lng: 137.954)
   #
   class WeatherApi
     class ApiError < StandardError; end
@@ -92,6 +93,26 @@ module ExternalApis
       end
     end
 
+    # 1時間ごとの気象予報を取得（OpenWeatherMap One Call API 3.0 hourly、48時間分）
+    #
+    # @param lat [Float] 緯度
+    # @param lng [Float] 経度
+    # @return [Array<Hash>] 時刻順の気象予報データ
+    # @raise [ApiError] API呼び出しに失敗した場合
+    def hourly_forecast(lat:, lng:)
+      response = connection.get(ONECALL_ENDPOINT) do |req|
+        req.params["lat"] = lat
+        req.params["lon"] = lng
+        req.params["appid"] = @api_key
+        req.params["units"] = DEFAULT_UNITS
+        req.params["exclude"] = "current,minutely,daily,alerts"
+      end
+
+      handle_response(response) do |data|
+        parse_hourly_forecast(data)
+      end
+    end
+
     # 指定期間の気象データを取得（複数タイムスタンプ）
     #
     # @param lat [Float] 緯度
@@ -210,6 +231,32 @@ module ExternalApis
       }
     end
 
+    def parse_hourly_forecast(data)
+      Array(data["hourly"]).map do |hour|
+        {
+          timestamp: Time.at(hour["dt"]).utc,
+          temperature: hour["temp"],
+          feels_like: hour["feels_like"],
+          humidity: hour["humidity"],
+          pressure: hour["pressure"],
+          dew_point: hour["dew_point"],
+          uvi: hour["uvi"],
+          cloud_cover: hour["clouds"],
+          visibility: hour["visibility"],
+          wind_speed: hour["wind_speed"],
+          wind_direction: hour["wind_deg"],
+          wind_gust: hour["wind_gust"],
+          weather_code: extract_weather_code(hour["weather"]),
+          weather_description: extract_weather_description(hour["weather"]),
+          weather_main: extract_weather_main(hour["weather"]),
+          weather_icon: extract_weather_icon(hour["weather"]),
+          precipitation_probability: hour["pop"],
+          rain_1h: hour.dig("rain", "1h"),
+          snow_1h: hour.dig("snow", "1h")
+        }
+      end
+    end
+
     def extract_weather_code(weather_array)
       weather_array&.first&.dig("id")
     end
@@ -19,10 +19,10 @@ RSpec.describe RainbowMomentChannel, type: :channel do
         expect(subscription).to have_stream_from("rainbow_moment:#{moment.id}")
       end
 
-      it "joins the moment as a participant" do
+      it "does not join the moment until the client asks to" do
         expect {
           subscribe(moment_id: moment.id)
-        }.to change { moment.participations.count }.by(1)
+        }.not_to change { moment.participations.count }
       end
 
       it "transmits initial state" do
@@ -32,6 +32,21 @@ RSpec.describe RainbowMomentChannel, type: :channel do
           "type" => "initial_state"
         )
       end
+
+      it "lists active participants in the initial state" do
+        other = create(:user)
+        left = create(:user)
+        moment.join(user)
+        moment.join(other)
+        moment.join(left)
+        moment.leave(left)
+
+        subscribe(moment_id: moment.id)
+
+        participants = transmissions.last["participants"]
+        expect(participants.map { |p| p["id"] }).to contain_exactly(user.id, other.id)
+        expect(participants.first).to include("display_name", "joined_at")
+      end
     end
 
     context "when moment is archived" do
@@ -65,6 +80,96 @@ RSpec.describe RainbowMomentChannel, type: :channel do
     end
   end
 
+  describe "#join" do
+    it "joins when the user is near the moment location" do
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :join, latitude: 36.116, longitude: 137.955
+      }.to change { moment.participations.active.count }.by(1)
+    end
+
+    it "broadcasts the new participant with the updated count" do
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :join, latitude: 36.116, longitude: 137.955
+      }.to have_broadcasted_to("rainbow_moment:#{moment.id}")
+        .with(hash_including(type: "participant_joined", participant_count: 1))
+    end
+
+    it "broadcasts a single message per join" do
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :join, latitude: 36.116, longitude: 137.955
+      }.to have_broadcasted_to("rainbow_moment:#{moment.id}").exactly(:once)
+    end
+
+    it "does not broadcast when the user is already participating" do
+      moment.join(user)
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :join, latitude: 36.116, longitude: 137.955
+      }.not_to have_broadcasted_to("rainbow_moment:#{moment.id}")
+    end
+
+    it "rejects a position outside the moment radius" do
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :join, latitude: 35.681, longitude: 139.767
+      }.not_to change { moment.participations.count }
+
+      expect(transmissions.last).to include("type" => "join_rejected", "reason" => "out_of_range")
+    end
+
+    it "rejects a join without location proof" do
+      subscribe(moment_id: moment.id)
+
+      perform :join
+
+      expect(moment.participations.count).to eq(0)
+      expect(transmissions.last).to include("type" => "join_rejected", "reason" => "out_of_range")
+    end
+
+    context "when moment is closing" do
+      let(:moment) { create(:rainbow_moment, :closing) }
+
+      it "rejects the join" do
+        subscribe(moment_id: moment.id)
+
+        perform :join, latitude: 36.116, longitude: 137.955
+
+        expect(moment.participations.count).to eq(0)
+        expect(transmissions.last).to include("type" => "join_rejected", "reason" => "inactive")
+      end
+    end
+  end
+
+  describe "#leave" do
+    it "marks the participation as left and broadcasts it" do
+      moment.join(user)
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :leave
+      }.to have_broadcasted_to("rainbow_moment:#{moment.id}")
+        .with(hash_including(type: "participant_left", participant_count: 0))
+
+      expect(moment.participations.first.left_at).to be_present
+    end
+
+    it "does not broadcast when the user is not participating" do
+      subscribe(moment_id: moment.id)
+
+      expect {
+        perform :leave
+      }.not_to have_broadcasted_to("rainbow_moment:#{moment.id}")
+    end
+  end
+
   describe "#unsubscribed" do
     it "enqueues a leave job with grace period" do
       subscribe(moment_id: moment.id)
@@ -0,0 +1,10 @@
+# frozen_string_literal: true
+
+FactoryBot.define do
+  factory :photo_upload do
+    association :user
+    filename { "rainbow.jpg" }
+    content_type { "image/jpeg" }
+    byte_size { 1024 }
+  end
+end
@@ -0,0 +1,8 @@
+# frozen_string_literal: true
+
+FactoryBot.define do
+  factory :user_block do
+    association :blocker, factory: :user
+    association :blocked, factory: :user
+  end
+end
@@ -42,6 +42,10 @@ FactoryBot.define do
       locale { "en" }
     end
 
+    trait :private_profile do
+      public_profile { false }
+    end
+
     trait :violation_flagged do
       violation_flagged { true }
       violation_count { 3 }
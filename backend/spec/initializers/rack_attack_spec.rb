@@ -99,6 +99,24 @@ RSpec.describe "Rack::Attack", type: :request do
       expect(response).to have_http_status(:too_many_requests)
     end
 
+    it "counts chunked upload starts toward the limit" do
+      21.times do
+        post "/api/v1/photos/uploads",
+             params: {}.to_json,
+             headers: { "Content-Type" => "application/json" }.merge(bearer_header("upload-user-token-4-longtoken"))
+      end
+      expect(response).to have_http_status(:too_many_requests)
+    end
+
+    it "does not count chunked upload completion" do
+      25.times do
+        post "/api/v1/photos/uploads/00000000-0000-0000-0000-000000000000/complete",
+             params: {}.to_json,
+             headers: { "Content-Type" => "application/json" }.merge(bearer_header("upload-user-token-5-longtoken"))
+      end
+      expect(response).not_to have_http_status(:too_many_requests)
+    end
+
     it "does not throttle GET requests to the photos endpoint" do
       25.times do
         get "/api/v1/photos",
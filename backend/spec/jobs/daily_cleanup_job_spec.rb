@@ -30,5 +30,14 @@ RSpec.describe DailyCleanupJob, type: :job do
       expect(DeviceToken.count).to eq(1)
       expect(DeviceToken.first.token).to eq("active-token")
     end
+
+    it "cleans up expired photo uploads" do
+      create(:photo_upload, expires_at: 1.hour.ago)
+      active = create(:photo_upload)
+
+      described_class.perform_now
+
+      expect(PhotoUpload.all).to contain_exactly(active)
+    end
   end
 end
@@ -266,6 +266,120 @@ RSpec.describe ExternalApis::WeatherApi do
     end
   end
 
+  describe "#hourly_forecast" do
+    let(:forecast_response) do
+      {
+        "lat" => lat,
+        "lon" => lng,
+        "timezone" => "Asia/Tokyo",
+        "timezone_offset" => 32400,
+        "hourly" => [
+          {
+            "dt" => 1705903200,
+            "temp" => 7.9,
+            "humidity" => 80,
+            "pressure" => 1012,
+            "clouds" => 75,
+            "visibility" => 9000,
+            "wind_speed" => 4.1,
+            "wind_deg" => 250,
+            "pop" => 0.6,
+            "weather" => [
+              {
+                "id" => 500,
+                "main" => "Rain",
+                "description" => "light rain",
+                "icon" => "10d"
+              }
+            ],
+            "rain" => { "1h" => 0.8 }
+          },
+          {
+            "dt" => 1705906800,
+            "temp" => 7.2,
+            "humidity" => 70,
+            "clouds" => 30,
+            "weather" => [
+              {
+                "id" => 802,
+                "main" => "Clouds",
+                "description" => "scattered clouds",
+                "icon" => "03d"
+              }
+            ]
+          }
+        ]
+      }
+    end
+
+    context "with successful response" do
+      before do
+        stub_request(:get, onecall_url_pattern)
+          .to_return(
+            status: 200,
+            body: forecast_response.to_json,
+            headers: { "Content-Type" => "application/json" }
+          )
+      end
+
+      it "returns one entry per forecast hour" do
+        result = api.hourly_forecast(lat: lat, lng: lng)
+
+        expect(result.size).to eq(2)
+        expect(result.map { |hour| hour[:timestamp] }).to eq([
+          Time.at(1705903200).utc,
+          Time.at(1705906800).utc
+        ])
+      end
+
+      it "parses weather and precipitation for each hour" do
+        first, second = api.hourly_forecast(lat: lat, lng: lng)
+
+        expect(first[:temperature]).to eq(7.9)
+        expect(first[:cloud_cover]).to eq(75)
+        expect(first[:weather_code]).to eq(500)
+        expect(first[:precipitation_probability]).to eq(0.6)
+        expect(first[:rain_1h]).to eq(0.8)
+        expect(second[:rain_1h]).to be_nil
+      end
+
+      it "requests only hourly data" do
+        api.hourly_forecast(lat: lat, lng: lng)
+
+        expect(WebMock).to have_requested(:get, onecall_url_pattern)
+          .with(query: hash_including("exclude" => "current,minutely,daily,alerts"))
+      end
+    end
+
+    context "without hourly data" do
+      before do
+        stub_request(:get, onecall_url_pattern)
+          .to_return(
+            status: 200,
+            body: { "lat" => lat, "lon" => lng }.to_json,
+            headers: { "Content-Type" => "application/json" }
+          )
+      end
+
+      it "returns an empty array" do
+        expect(api.hourly_forecast(lat: lat, lng: lng)).to eq([])
+      end
+    end
+
+    context "with 429 rate limit response" do
+      before do
+        stub_request(:get, onecall_url_pattern)
+          .to_return(status: 429, body: { message: "Rate limit exceeded" }.to_json)
+      end
+
+      it "raises RateLimitError" do
+        expect {
+          api.hourly_forecast(lat: lat, lng: lng)
+        }.to raise_error(ExternalApis::WeatherApi::RateLimitError)
+      end
+    end
+  end
+
   describe "#historical_weather_bulk" do
     let(:timestamps) do
       [
@@ -0,0 +1,77 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe PhotoUpload, type: :model do
+  subject(:upload) { build(:photo_upload) }
+
+  describe "associations" do
+    it { is_expected.to belong_to(:user) }
+    it { is_expected.to have_many(:chunks).class_name("PhotoUploadChunk").dependent(:delete_all) }
+  end
+
+  describe "validations" do
+    it { is_expected.to validate_presence_of(:filename) }
+    it { is_expected.to validate_inclusion_of(:content_type).in_array(Photo::ALLOWED_CONTENT_TYPES) }
+
+    it "rejects files over the photo size limit" do
+      upload.byte_size = Photo::MAX_IMAGE_SIZE + 1
+      expect(upload).not_to be_valid
+    end
+
+    it "rejects empty files" do
+      upload.byte_size = 0
+      expect(upload).not_to be_valid
+    end
+
+    it "rejects received_bytes past the file size" do
+      upload.received_bytes = upload.byte_size + 1
+      expect(upload).not_to be_valid
+      expect(upload.errors[:received_bytes]).to include("cannot exceed the file size")
+    end
+  end
+
+  describe "expiry" do
+    it "expires a day after creation" do
+      freeze_time do
+        expect(create(:photo_upload).expires_at).to eq(PhotoUpload::EXPIRY.from_now)
+      end
+    end
+
+    it "scopes active and expired uploads" do
+      active = create(:photo_upload)
+      expired = create(:photo_upload, expires_at: 1.minute.ago)
+
+      expect(described_class.active).to contain_exactly(active)
+      expect(described_class.expired).to contain_exactly(expired)
+    end
+
+    it "cleans up expired uploads with their chunks" do
+      expired = create(:photo_upload, expires_at: 1.minute.ago)
+      expired.chunks.create!(byte_offset: 0, data: "abc")
+      create(:photo_upload)
+
+      expect(described_class.cleanup_expired).to eq(1)
+      expect(described_class.count).to eq(1)
+      expect(PhotoUploadChunk.count).to eq(0)
+    end
+  end
+
+  describe "#complete? and #assembled_data" do
+    let(:upload) { create(:photo_upload, byte_size: 6) }
+
+    it "joins chunks in offset order once every byte has arrived" do
+      upload.chunks.create!(byte_offset: 3, data: "def")
+      upload.chunks.create!(byte_offset: 0, data: "abc")
+      upload.update!(received_bytes: 6)
+
+      expect(upload).to be_complete
+      expect(upload.assembled_data).to eq("abcdef".b)
+    end
+
+    it "is not complete while bytes are missing" do
+      upload.update!(received_bytes: 3)
+      expect(upload).not_to be_complete
+    end
+  end
+end
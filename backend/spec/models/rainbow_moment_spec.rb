@@ -151,6 +151,27 @@ RSpec.describe RainbowMoment, type: :model do
     end
   end
 
+  describe "#within_proximity?" do
+    let(:moment) { described_class.new(location_id: "daimon") }
+
+    it "accepts a position near the monitoring location" do
+      expect(moment.within_proximity?(36.12, 137.96)).to be true
+    end
+
+    it "rejects a position outside the radius" do
+      expect(moment.within_proximity?(35.681, 139.767)).to be false
+    end
+
+    it "rejects a missing position" do
+      expect(moment.within_proximity?(nil, 137.96)).to be false
+    end
+
+    it "rejects positions for unknown locations" do
+      moment.location_id = "unknown"
+      expect(moment.within_proximity?(36.12, 137.96)).to be false
+    end
+  end
+
   describe "participation" do
     let(:moment) do
       described_class.create!(
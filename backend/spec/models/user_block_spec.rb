@@ -0,0 +1,54 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe UserBlock, type: :model do
+  subject(:user_block) { build(:user_block) }
+
+  describe "associations" do
+    it { is_expected.to belong_to(:blocker).class_name("User") }
+    it { is_expected.to belong_to(:blocked).class_name("User") }
+  end
+
+  describe "validations" do
+    subject { create(:user_block) }
+
+    it { is_expected.to validate_uniqueness_of(:blocked_id).scoped_to(:blocker_id).case_insensitive.with_message("is already blocked") }
+  end
+
+  describe "self blocking" do
+    let(:user) { create(:user) }
+
+    it "prevents a user from blocking themselves" do
+      block = build(:user_block, blocker: user, blocked: user)
+      expect(block).not_to be_valid
+      expect(block.errors[:blocked_id]).to include("cannot be yourself")
+    end
+  end
+
+  describe "User#blocking?" do
+    let(:user) { create(:user) }
+    let(:other_user) { create(:user) }
+
+    it "returns true for a blocked user" do
+      create(:user_block, blocker: user, blocked: other_user)
+      expect(user.blocking?(other_user)).to be true
+    end
+
+    it "is one-way" do
+      create(:user_block, blocker: user, blocked: other_user)
+      expect(other_user.blocking?(user)).to be false
+    end
+
+    it "returns false for nil" do
+      expect(user.blocking?(nil)).to be false
+    end
+  end
+
+  describe "dependent destroy" do
+    it "removes blocks when either user is destroyed" do
+      block = create(:user_block)
+      expect { block.blocked.destroy }.to change(UserBlock, :count).by(-1)
+    end
+  end
+end
@@ -81,6 +81,35 @@ RSpec.describe UserPolicy, type: :policy do
     end
   end
 
+  describe "#show_details?" do
+    let(:private_user) { create(:user, :private_profile) }
+
+    it "returns true for a public profile" do
+      policy = described_class.new(regular_user, other_user)
+      expect(policy.show_details?).to be true
+    end
+
+    it "returns false for another user's private profile" do
+      policy = described_class.new(regular_user, private_user)
+      expect(policy.show_details?).to be false
+    end
+
+    it "returns true for the owner of a private profile" do
+      policy = described_class.new(private_user, private_user)
+      expect(policy.show_details?).to be true
+    end
+
+    it "returns true for admins viewing a private profile" do
+      policy = described_class.new(admin_user, private_user)
+      expect(policy.show_details?).to be true
+    end
+
+    it "returns false for guests" do
+      policy = described_class.new(nil, other_user)
+      expect(policy.show_details?).to be false
+    end
+  end
+
   describe "#update?" do
     context "for admin users" do
       it "returns true for updating another user" do
@@ -114,6 +143,23 @@ RSpec.describe UserPolicy, type: :policy do
     end
   end
 
+  describe "#block?" do
+    it "returns true for blocking another user" do
+      policy = described_class.new(regular_user, other_user)
+      expect(policy.block?).to be true
+    end
+
+    it "returns false for blocking themselves" do
+      policy = described_class.new(regular_user, regular_user)
+      expect(policy.block?).to be false
+    end
+
+    it "returns false for guests" do
+      policy = described_class.new(nil, regular_user)
+      expect(policy.block?).to be false
+    end
+  end
+
   describe "inherited default actions" do
     describe "#index?" do
       it "returns false for admin users (inherits default deny)" do
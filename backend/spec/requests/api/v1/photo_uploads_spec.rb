@@ -0,0 +1,109 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Api::V1::PhotoUploads", type: :request do
+  let(:user) { create(:user) }
+  let(:other_user) { create(:user) }
+  let(:json_headers) { { "Accept" => "application/json" } }
+  let(:image_data) { File.binread(Rails.root.join("spec/fixtures/files/test_image.jpg")) }
+
+  def auth_headers_for(user)
+    token = Warden::JWTAuth::UserEncoder.new.call(user, :user, nil).first
+    json_headers.merge("Authorization" => "Bearer #{token}")
+  end
+
+  def chunk_headers_for(user, offset)
+    auth_headers_for(user).merge(
+      "Content-Type" => "application/octet-stream",
+      "Upload-Offset" => offset.to_s
+    )
+  end
+
+  def start_params(byte_size: image_data.bytesize)
+    { upload: { filename: "rainbow.jpg", content_type: "image/jpeg", byte_size: byte_size } }
+  end
+
+  describe "POST /api/v1/photos/uploads" do
+    it "returns 401 without authentication" do
+      post "/api/v1/photos/uploads", params: start_params, headers: json_headers
+      expect(response).to have_http_status(:unauthorized)
+    end
+
+    it "starts an upload" do
+      post "/api/v1/photos/uploads", params: start_params, headers: auth_headers_for(user)
+
+      expect(response).to have_http_status(:created)
+      expect(json_data[:upload]).to include(
+        byteSize: image_data.bytesize,
+        receivedBytes: 0,
+        chunkSize: PhotoUpload::CHUNK_SIZE
+      )
+    end
+
+    it "rejects unsupported types" do
+      post "/api/v1/photos/uploads",
+           params: { upload: { filename: "a.pdf", content_type: "application/pdf", byte_size: 10 } },
+           headers: auth_headers_for(user)
+
+      expect(response).to have_http_status(:unprocessable_entity)
+      expect(json_error[:code]).to eq(ErrorHandler::ErrorCodes::INVALID_FILE_TYPE)
+    end
+  end
+
+  describe "chunked upload flow" do
+    let!(:upload) { create(:photo_upload, user: user, byte_size: image_data.bytesize) }
+    let(:photo_params) do
+      { photo: { title: "Mountain Rainbow", latitude: 36.115, longitude: 137.954, captured_at: Time.current.iso8601 } }
+    end
+
+    it "resumes from the acknowledged offset and creates the photo" do
+      patch "/api/v1/photos/uploads/#{upload.id}",
+            params: image_data.byteslice(0, 200), headers: chunk_headers_for(user, 0)
+      expect(response).to have_http_status(:ok)
+      expect(json_data[:upload][:receivedBytes]).to eq(200)
+
+      # Connection dropped: ask where to resume
+      get "/api/v1/photos/uploads/#{upload.id}", headers: auth_headers_for(user)
+      offset = json_data[:upload][:receivedBytes]
+      expect(offset).to eq(200)
+
+      patch "/api/v1/photos/uploads/#{upload.id}",
+            params: image_data.byteslice(offset..), headers: chunk_headers_for(user, offset)
+      expect(json_data[:upload][:receivedBytes]).to eq(image_data.bytesize)
+
+      expect {
+        post "/api/v1/photos/uploads/#{upload.id}/complete", params: photo_params, headers: auth_headers_for(user)
+      }.to change(Photo, :count).by(1)
+      expect(response).to have_http_status(:created)
+      expect(json_data[:photo][:title]).to eq("Mountain Rainbow")
+    end
+
+    it "returns 409 with the offset to resume from for a chunk past it" do
+      patch "/api/v1/photos/uploads/#{upload.id}",
+            params: image_data.byteslice(100, 100), headers: chunk_headers_for(user, 100)
+
+      expect(response).to have_http_status(:conflict)
+      expect(json_error[:code]).to eq(ErrorHandler::ErrorCodes::UPLOAD_OFFSET_MISMATCH)
+      expect(json_error[:details][:received_bytes]).to eq(0)
+    end
+
+    it "refuses to complete before every byte has arrived" do
+      post "/api/v1/photos/uploads/#{upload.id}/complete", params: photo_params, headers: auth_headers_for(user)
+
+      expect(response).to have_http_status(:unprocessable_entity)
+    end
+
+    it "hides uploads of other users" do
+      get "/api/v1/photos/uploads/#{upload.id}", headers: auth_headers_for(other_user)
+      expect(response).to have_http_status(:not_found)
+    end
+
+    it "returns 404 for expired uploads" do
+      upload.update!(expires_at: 1.minute.ago)
+
+      get "/api/v1/photos/uploads/#{upload.id}", headers: auth_headers_for(user)
+      expect(response).to have_http_status(:not_found)
+    end
+  end
+end
@@ -91,6 +91,26 @@ RSpec.describe "Api::V1::RainbowMoments", type: :request do
       expect(moment[:status]).to eq("active")
     end
 
+    it "includes participants and visible photos taken during the moment" do
+      participant = create(:user)
+      active_moment.join(participant)
+
+      photo = create(:photo, :without_image, user: participant, captured_at: 1.minute.from_now)
+      photo.set_location(36.115, 137.954)
+      photo.save!
+      hidden = create(:photo, :without_image, :hidden, captured_at: 1.minute.from_now)
+      hidden.set_location(36.115, 137.954)
+      hidden.save!
+
+      get_api_as user, "/rainbow_moments/#{active_moment.id}"
+
+      moment = json_body[:data][:moment]
+      expect(moment[:participants].map { |p| p[:id] }).to eq([ participant.id ])
+      expect(moment[:photos].map { |p| p[:id] }).to eq([ photo.id ])
+      expect(moment[:photos].first[:user]).to eq(id: participant.id, displayName: participant.display_name)
+      expect(moment[:photos].first).to include(:thumbnailUrl, :latitude, :longitude, :capturedAt)
+    end
+
     it "returns 404 for non-existent moment" do
       get_api_as user, "/rainbow_moments/non-existent-id"
       expect(response).to have_http_status(:not_found)
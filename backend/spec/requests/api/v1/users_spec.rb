@@ -50,6 +50,11 @@ RSpec.describe "Api::V1::Users", type: :request do
         get "/api/v1/users/me", headers: auth_headers_for(user)
         expect(json_data[:user]).to have_key(:email)
       end
+
+      it "includes the profile privacy setting" do
+        get "/api/v1/users/me", headers: auth_headers_for(user)
+        expect(json_data[:user][:isPublic]).to be true
+      end
     end
   end
 
@@ -74,6 +79,15 @@ RSpec.describe "Api::V1::Users", type: :request do
         expect(json_data[:user][:displayName]).to eq("Updated Name")
       end
 
+      it "updates the profile privacy setting" do
+        patch "/api/v1/users/me",
+              params: { user: { public_profile: false } },
+              headers: auth_headers_for(user)
+        expect(response).to have_http_status(:ok)
+        expect(json_data[:user][:isPublic]).to be false
+        expect(user.reload.public_profile).to be false
+      end
+
       it "returns error for invalid data" do
         patch "/api/v1/users/me",
               params: { user: { display_name: "ab" } }, # Too short
@@ -258,6 +272,23 @@ RSpec.describe "Api::V1::Users", type: :request do
       end
     end
 
+    context "with a private profile" do
+      let(:private_user) { create(:user, :private_profile) }
+
+      it "returns only the name and avatar" do
+        get "/api/v1/users/#{private_user.id}", headers: auth_headers_for(user)
+        expect(response).to have_http_status(:ok)
+        expect(json_data[:user][:displayName]).to eq(private_user.display_name)
+        expect(json_data[:user][:isPublic]).to be false
+        expect(json_data[:user]).not_to have_key(:stats)
+      end
+
+      it "returns the full profile to its owner" do
+        get "/api/v1/users/#{private_user.id}", headers: auth_headers_for(private_user)
+        expect(json_data[:user]).to have_key(:stats)
+      end
+    end
+
     context "with non-existent user" do
       it "returns 404" do
         get "/api/v1/users/00000000-0000-0000-0000-000000000000",
@@ -294,5 +325,103 @@ RSpec.describe "Api::V1::Users", type: :request do
         expect(json_data[:pagination]).to be_present
       end
     end
+
+    context "with a private profile" do
+      before { other_user.update!(public_profile: false) }
+
+      it "returns 403 for other users" do
+        get "/api/v1/users/#{other_user.id}/photos", headers: auth_headers_for(user)
+        expect(response).to have_http_status(:forbidden)
+      end
+
+      it "returns photos to the owner" do
+        get "/api/v1/users/#{other_user.id}/photos", headers: auth_headers_for(other_user)
+        expect(response).to have_http_status(:ok)
+        expect(json_data[:photos].length).to eq(3)
+      end
+    end
+  end
+
+  describe "GET /api/v1/users/me/blocks" do
+    context "without authentication" do
+      it "returns 401" do
+        get "/api/v1/users/me/blocks", headers: json_headers
+        expect(response).to have_http_status(:unauthorized)
+      end
+    end
+
+    context "with blocked users" do
+      before { create(:user_block, blocker: user, blocked: other_user) }
+
+      it "returns the blocked users" do
+        get "/api/v1/users/me/blocks", headers: auth_headers_for(user)
+        expect(response).to have_http_status(:ok)
+        expect(json_data[:users].length).to eq(1)
+        expect(json_data[:users].first[:id]).to eq(other_user.id)
+        expect(json_data[:users].first[:displayName]).to eq(other_user.display_name)
+        expect(json_data[:users].first[:blockedAt]).to be_present
+      end
+
+      it "does not include other users' blocks" do
+        get "/api/v1/users/me/blocks", headers: auth_headers_for(other_user)
+        expect(json_data[:users]).to be_empty
+      end
+    end
+  end
+
+  describe "POST /api/v1/users/:id/block" do
+    context "without authentication" do
+      it "returns 401" do
+        post "/api/v1/users/#{other_user.id}/block", headers: json_headers
+        expect(response).to have_http_status(:unauthorized)
+      end
+    end
+
+    context "with authentication" do
+      it "blocks the user" do
+        expect {
+          post "/api/v1/users/#{other_user.id}/block", headers: auth_headers_for(user)
+        }.to change(UserBlock, :count).by(1)
+        expect(response).to have_http_status(:created)
+        expect(json_data[:user][:id]).to eq(other_user.id)
+        expect(user.blocking?(other_user)).to be true
+      end
+
+      it "succeeds when the user is already blocked" do
+        create(:user_block, blocker: user, blocked: other_user)
+        expect {
+          post "/api/v1/users/#{other_user.id}/block", headers: auth_headers_for(user)
+        }.not_to change(UserBlock, :count)
+        expect(response).to have_http_status(:created)
+      end
+
+      it "returns 403 when blocking yourself" do
+        post "/api/v1/users/#{user.id}/block", headers: auth_headers_for(user)
+        expect(response).to have_http_status(:forbidden)
+      end
+
+      it "returns 404 for non-existent user" do
+        post "/api/v1/users/00000000-0000-0000-0000-000000000000/block",
+             headers: auth_headers_for(user)
+        expect(response).to have_http_status(:not_found)
+      end
+    end
+  end
+
+  describe "DELETE /api/v1/users/:id/block" do
+    before { create(:user_block, blocker: user, blocked: other_user) }
+
+    it "unblocks the user" do
+      expect {
+        delete "/api/v1/users/#{other_user.id}/block", headers: auth_headers_for(user)
+      }.to change(UserBlock, :count).by(-1)
+      expect(response).to have_http_status(:ok)
+      expect(user.blocking?(other_user)).to be false
+    end
+
+    it "succeeds when the user is not blocked" do
+      delete "/api/v1/users/#{user.id}/block", headers: auth_headers_for(other_user)
+      expect(response).to have_http_status(:ok)
+    end
   end
 end
@@ -0,0 +1,107 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Api::V1::Weather", type: :request do
+  let(:user) { create(:user) }
+  let(:json_headers) { { "Accept" => "application/json" } }
+  let(:forecast_time) { Time.utc(2024, 6, 21, 6, 0, 0) }
+
+  let(:forecast) do
+    {
+      hours: 6,
+      weather_timeline: [
+        {
+          timestamp: forecast_time,
+          temperature: 22.0,
+          humidity: 75,
+          cloud_cover: 40,
+          visibility: 10000,
+          weather_code: 500,
+          weather_description: "light rain",
+          rain_1h: 0.6,
+          sun_position: { altitude: 38.14, azimuth: 268.2 }
+        }
+      ],
+      precipitation_cells: [
+        {
+          timestamp: forecast_time,
+          lat: 36.115,
+          lng: 138.1206,
+          bearing: 90,
+          distance_km: 15,
+          precipitation: 1.2
+        }
+      ]
+    }
+  end
+
+  describe "GET /api/v1/weather/forecast" do
+    before do
+      allow_any_instance_of(WeatherService).to receive(:fetch_forecast)
+        .and_return({ success: true, data: { forecast: forecast } })
+    end
+
+    it "returns the forecast as weather conditions and radar data" do
+      get_api_as user, "/weather/forecast", params: { lat: 36.115, lng: 137.954 }
+
+      expect(response).to have_http_status(:ok)
+      data = json_body[:data]
+      expect(data[:hours]).to eq(6)
+
+      condition = data[:weatherConditions].first
+      expect(condition[:id]).to eq("forecast-#{forecast_time.to_i}")
+      expect(condition[:timestamp]).to eq("2024-06-21T06:00:00Z")
+      expect(condition[:cloudCover]).to eq(40)
+      expect(condition[:precipitation]).to eq(0.6)
+      expect(condition[:precipitationType]).to eq("rain")
+      expect(condition[:sunAltitude]).to eq(38.1)
+      expect(condition[:sunAzimuth]).to eq(268.2)
+
+      cell = data[:radarData].first
+      expect(cell[:precipitationIntensity]).to eq(1.2)
+      expect(cell[:centerLatitude]).to eq(36.115)
+      expect(cell[:centerLongitude]).to eq(138.1206)
+    end
+
+    it "passes the location and forecast length to the service" do
+      expect_any_instance_of(WeatherService).to receive(:fetch_forecast)
+        .with(lat: 36.115, lng: 137.954, hours: "3")
+        .and_return({ success: true, data: { forecast: forecast } })
+
+      get_api_as user, "/weather/forecast", params: { lat: 36.115, lng: 137.954, hours: 3 }
+    end
+
+    it "rejects a missing location" do
+      get_api_as user, "/weather/forecast", params: { lat: 36.115 }
+
+      expect(response).to have_http_status(:bad_request)
+      expect(json_body[:error][:code]).to eq(ErrorHandler::ErrorCodes::VALIDATION_FAILED)
+    end
+
+    it "rejects coordinates out of range" do
+      get_api_as user, "/weather/forecast", params: { lat: 136.1, lng: 37.9 }
+
+      expect(response).to have_http_status(:bad_request)
+    end
+
+    it "returns the service error when the forecast fails" do
+      allow_any_instance_of(WeatherService).to receive(:fetch_forecast).and_return(
+        {
+          success: false,
+          error: { code: ErrorHandler::ErrorCodes::WEATHER_API_ERROR, message: "Failed to fetch weather forecast" }
+        }
+      )
+
+      get_api_as user, "/weather/forecast", params: { lat: 36.115, lng: 137.954 }
+
+      expect(response).to have_http_status(:service_unavailable)
+    end
+
+    it "requires authentication" do
+      get "/api/v1/weather/forecast", params: { lat: 36.115, lng: 137.954 }, headers: json_headers
+
+      expect(response).to have_http_status(:unauthorized)
+    end
+  end
+end
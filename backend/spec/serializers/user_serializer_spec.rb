@@ -36,6 +36,10 @@ RSpec.describe UserSerializer, type: :serializer do
       expect(serialized).not_to have_key(:notificationRadius)
     end
 
+    it "includes the profile privacy setting" do
+      expect(serialized[:isPublic]).to be true
+    end
+
     context "with photos" do
       before { create_list(:photo, 3, user: user) }
 
@@ -85,6 +89,18 @@ RSpec.describe UserSerializer, type: :serializer do
     end
   end
 
+  describe "UserSerializer::Restricted" do
+    subject(:serialized) { described_class::Restricted.new(user).to_h }
+
+    it "includes the name, avatar and privacy flag only" do
+      expect(serialized.keys).to match_array(%i[id displayName profileImageUrl isPublic])
+    end
+
+    it "marks the profile as private" do
+      expect(serialized[:isPublic]).to be false
+    end
+  end
+
   describe "UserSerializer::Private" do
     subject(:serialized) { described_class::Private.new(user).to_h }
 
@@ -112,6 +128,11 @@ RSpec.describe UserSerializer, type: :serializer do
       expect(serialized[:locale]).to eq("ja")
     end
 
+    it "includes the profile privacy setting" do
+      user.update!(public_profile: false)
+      expect(serialized[:isPublic]).to be false
+    end
+
     it "includes notification settings" do
       expect(serialized).to have_key(:notificationEnabled)
       expect(serialized).to have_key(:notificationRadius)
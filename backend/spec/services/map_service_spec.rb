@@ -53,6 +53,7 @@ RSpec.describe MapService do
         expect(marker[:longitude]).to be_within(0.001).of(137.954)
         expect(marker[:title]).to eq("Rainbow 1")
         expect(marker[:capturedAt]).to be_present
+        expect(marker[:userId]).to eq(photo1.user_id)
       end
 
       it "includes total count" do
@@ -90,6 +90,30 @@ RSpec.describe NotificationService do
       end
     end
 
+    context "with push disabled" do
+      let!(:device_token) { create(:device_token, :ios, user: user) }
+
+      before do
+        user.update!(notification_settings: { "push_enabled" => false })
+      end
+
+      it "saves the in-app notification without sending to devices" do
+        expect {
+          result = service.send_push_notification(
+            user: user,
+            title: "Test",
+            body: "Test"
+          )
+
+          expect(result[:success]).to be true
+          expect(result[:skipped]).to be true
+          expect(result[:reason]).to eq("push_disabled")
+        }.to change(Notification, :count).by(1)
+
+        expect(ApnsClient).not_to have_received(:send_to_devices)
+      end
+    end
+
     context "with active devices" do
       let!(:device_token) { create(:device_token, :ios, user: user) }
 
@@ -242,6 +266,17 @@ RSpec.describe NotificationService do
         expect(result[:success]).to be true
         expect(result[:notifications].length).to eq(5)
       end
+
+      it "filters by a single notification type" do
+        create_list(:notification, 2, :like, user: user)
+        create(:notification, :comment, user: user)
+
+        result = service.list_for_user(user: user, filter: :like)
+
+        expect(result[:success]).to be true
+        expect(result[:notifications].length).to eq(2)
+        expect(result[:notifications].map { |n| n[:type] }.uniq).to eq([ "like" ])
+      end
     end
   end
 
@@ -252,6 +287,7 @@ RSpec.describe NotificationService do
       expect(result[:success]).to be true
       expect(result[:settings]["rainbowAlerts"]).to be true
       expect(result[:settings]["alertRadiusKm"]).to eq(10)
+      expect(result[:settings]["pushEnabled"]).to be true
     end
 
     it "merges user settings with defaults" do
@@ -300,6 +336,17 @@ RSpec.describe NotificationService do
       expect(result[:error][:message]).to include("quiet_hours_start must be in HH:MM format")
     end
 
+    it "updates the push switch" do
+      result = service.update_settings(
+        user: user,
+        settings: { "push_enabled" => false }
+      )
+
+      expect(result[:success]).to be true
+      expect(result[:settings]["pushEnabled"]).to be false
+      expect(user.reload.notification_settings["push_enabled"]).to be false
+    end
+
     it "accepts valid quiet hours" do
       result = service.update_settings(
         user: user,
@@ -335,6 +382,7 @@ RSpec.describe NotificationService do
     it "has required keys" do
       settings = described_class::DEFAULT_NOTIFICATION_SETTINGS
 
+      expect(settings).to have_key("push_enabled")
       expect(settings).to have_key("rainbow_alerts")
       expect(settings).to have_key("likes")
       expect(settings).to have_key("comments")
@@ -0,0 +1,174 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe PhotoUploadService, type: :service do
+  let(:service) { described_class.new }
+  let(:user) { create(:user) }
+  let(:image_data) { File.binread(Rails.root.join("spec/fixtures/files/test_image.jpg")) }
+
+  def start_upload(byte_size: image_data.bytesize)
+    result = service.start(user: user, filename: "rainbow.jpg", content_type: "image/jpeg", byte_size: byte_size)
+    PhotoUpload.find(result[:data][:upload][:id])
+  end
+
+  # Send the whole file in chunks of the given size
+  def send_file(upload, chunk_size: PhotoUpload::CHUNK_SIZE)
+    (0...image_data.bytesize).step(chunk_size) do |offset|
+      service.append(upload: upload, offset: offset, data: image_data.byteslice(offset, chunk_size))
+    end
+  end
+
+  describe "#start" do
+    it "creates an upload and returns the chunk size" do
+      result = service.start(user: user, filename: "rainbow.jpg", content_type: "image/jpeg", byte_size: 2048)
+
+      expect(result[:success]).to be true
+      expect(result[:data][:upload]).to include(byteSize: 2048, receivedBytes: 0, chunkSize: PhotoUpload::CHUNK_SIZE)
+      expect(user.photo_uploads.count).to eq(1)
+    end
+
+    it "rejects unsupported image types" do
+      result = service.start(user: user, filename: "notes.pdf", content_type: "application/pdf", byte_size: 2048)
+
+      expect(result[:success]).to be false
+      expect(result[:error][:code]).to eq(ErrorHandler::ErrorCodes::INVALID_FILE_TYPE)
+    end
+
+    it "rejects files over the size limit" do
+      result = service.start(user: user, filename: "big.jpg", content_type: "image/jpeg",
+                             byte_size: Photo::MAX_IMAGE_SIZE + 1)
+
+      expect(result[:success]).to be false
+      expect(result[:error][:code]).to eq(ErrorHandler::ErrorCodes::FILE_TOO_LARGE)
+    end
+  end
+
+  describe "#append" do
+    let(:upload) { start_upload(byte_size: 10) }
+
+    it "acknowledges the chunk" do
+      result = service.append(upload: upload, offset: "0", data: "abcd")
+
+      expect(result[:success]).to be true
+      expect(result[:data][:upload][:receivedBytes]).to eq(4)
+      expect(upload.reload.received_bytes).to eq(4)
+    end
+
+    it "keeps only new bytes when an acknowledged chunk is sent again" do
+      service.append(upload: upload, offset: 0, data: "abcd")
+
+      result = service.append(upload: upload, offset: 2, data: "cdef")
+
+      expect(result[:data][:upload][:receivedBytes]).to eq(6)
+      expect(upload.reload.assembled_data).to eq("abcdef".b)
+    end
+
+    it "accepts a repeated final chunk without changes" do
+      service.append(upload: upload, offset: 0, data: "abcd")
+
+      result = service.append(upload: upload, offset: 0, data: "abcd")
+
+      expect(result[:success]).to be true
+      expect(upload.reload.chunks.count).to eq(1)
+    end
+
+    it "rejects chunks past the acknowledged offset" do
+      result = service.append(upload: upload, offset: 4, data: "efgh")
+
+      expect(result[:success]).to be false
+      expect(result[:error][:code]).to eq(ErrorHandler::ErrorCodes::UPLOAD_OFFSET_MISMATCH)
+      expect(result[:error][:details]).to eq(received_bytes: 0)
+    end
+
+    it "rejects a missing offset" do
+      result = service.append(upload: upload, offset: nil, data: "abcd")
+
+      expect(result[:error][:code]).to eq(ErrorHandler::ErrorCodes::UPLOAD_OFFSET_MISMATCH)
+    end
+
+    it "rejects data past the declared file size" do
+      result = service.append(upload: upload, offset: 0, data: "abcdefghijk")
+
+      expect(result[:success]).to be false
+      expect(result[:error][:code]).to eq(ErrorHandler::ErrorCodes::VALIDATION_FAILED)
+      expect(upload.reload.received_bytes).to eq(0)
+    end
+
+    it "rejects empty and oversized chunks" do
+      expect(service.append(upload: upload, offset: 0, data: "")[:success]).to be false
+      expect(
+        service.append(upload: upload, offset: 0, data: "a" * (PhotoUpload::CHUNK_SIZE + 1))[:success]
+      ).to be false
+    end
+
+    it "extends the expiry" do
+      upload.update!(expires_at: 1.hour.from_now)
+
+      service.append(upload: upload, offset: 0, data: "abcd")
+
+      expect(upload.reload.expires_at).to be > 23.hours.from_now
+    end
+  end
+
+  describe "#complete" do
+    let(:metadata) do
+      {
+        title: "Chunked Rainbow",
+        latitude: 36.115,
+        longitude: 137.954,
+        captured_at: Time.current
+      }
+    end
+
+    it "creates the photo from the received chunks and records it on the upload" do
+      upload = start_upload
+      send_file(upload, chunk_size: 100)
+
+      result = nil
+      expect {
+        result = service.complete(upload: upload.reload, metadata: metadata)
+      }.to change(Photo, :count).by(1)
+
+      expect(result[:success]).to be true
+      expect(result[:data][:photo][:title]).to eq("Chunked Rainbow")
+      expect(upload.reload.photo_id).to eq(result[:data][:photo][:id])
+      expect(upload.chunks).to be_empty
+    end
+
+    it "returns the same photo when completed twice" do
+      upload = start_upload
+      send_file(upload)
+      first = service.complete(upload: upload.reload, metadata: metadata)
+
+      second = nil
+      expect {
+        second = service.complete(upload: upload.reload, metadata: metadata)
+      }.not_to change(Photo, :count)
+
+      expect(second[:success]).to be true
+      expect(second[:data][:photo][:id]).to eq(first[:data][:photo][:id])
+    end
+
+    it "refuses to complete an upload with missing bytes" do
+      upload = start_upload
+      service.append(upload: upload, offset: 0, data: image_data.byteslice(0, 100))
+
+      result = service.complete(upload: upload.reload, metadata: metadata)
+
+      expect(result[:success]).to be false
+      expect(result[:error][:details]).to include(received_bytes: 100)
+      expect(PhotoUpload.exists?(upload.id)).to be true
+    end
+
+    it "keeps the upload when the photo cannot be created" do
+      upload = start_upload
+      send_file(upload)
+
+      result = service.complete(upload: upload.reload, metadata: metadata.except(:captured_at))
+
+      expect(result[:success]).to be false
+      expect(PhotoUpload.exists?(upload.id)).to be true
+    end
+  end
+end
@@ -243,6 +243,102 @@ RSpec.describe WeatherService do
     end
   end
 
+  describe "#fetch_forecast" do
+    let(:now) { Time.utc(2024, 6, 21, 6, 20, 0) } # 15:20 JST
+    let(:hourly_forecast) do
+      (0..14).map do |offset|
+        {
+          timestamp: now.beginning_of_hour + offset.hours,
+          temperature: 22.0,
+          humidity: 75,
+          cloud_cover: 40,
+          weather_code: 500,
+          rain_1h: 1.2
+        }
+      end
+    end
+
+    before do
+      travel_to(now)
+      allow_any_instance_of(ExternalApis::WeatherApi).to receive(:hourly_forecast)
+        .and_return(hourly_forecast)
+    end
+
+    after { travel_back }
+
+    it "returns the hourly forecast for the requested period with the sun position" do
+      result = service.fetch_forecast(lat: lat, lng: lng, hours: 3)
+
+      expect(result[:success]).to be true
+      timeline = result[:data][:forecast][:weather_timeline]
+      expect(timeline.map { |hour| hour[:timestamp] }).to eq(
+        (0..3).map { |offset| now.beginning_of_hour + offset.hours }
+      )
+      expect(timeline.first[:sun_position][:altitude]).to be_a(Numeric)
+      expect(timeline.first[:sun_position][:azimuth]).to be_between(180, 360)
+    end
+
+    it "returns precipitation at sample points around the location" do
+      result = service.fetch_forecast(lat: lat, lng: lng, hours: 3)
+
+      cells = result[:data][:forecast][:precipitation_cells]
+      expect(cells.map { |cell| cell[:bearing] }.uniq).to eq(described_class::FORECAST_SAMPLE_BEARINGS)
+      expect(cells.size).to eq(described_class::FORECAST_SAMPLE_BEARINGS.size * 4)
+      expect(cells.first[:precipitation]).to eq(1.2)
+    end
+
+    it "places sample points at the sample distance in their direction" do
+      result = service.fetch_forecast(lat: lat, lng: lng, hours: 1)
+
+      cells = result[:data][:forecast][:precipitation_cells]
+      north = cells.find { |cell| cell[:bearing] == 0 }
+      east = cells.find { |cell| cell[:bearing] == 90 }
+
+      # 15 km is about 0.135° of latitude
+      expect(north[:lat]).to be_within(0.002).of(lat + 0.1349)
+      expect(north[:lng]).to be_within(0.0001).of(lng)
+      expect(east[:lat]).to be_within(0.001).of(lat)
+      expect(east[:lng]).to be > lng
+    end
+
+    it "limits the forecast length" do
+      result = service.fetch_forecast(lat: lat, lng: lng, hours: 48)
+
+      expect(result[:data][:forecast][:hours]).to eq(described_class::FORECAST_MAX_HOURS)
+      expect(result[:data][:forecast][:weather_timeline].size).to eq(13)
+    end
+
+    it "skips sample points that fail to load" do
+      call_count = 0
+      allow_any_instance_of(ExternalApis::WeatherApi).to receive(:hourly_forecast) do
+        call_count += 1
+        raise ExternalApis::WeatherApi::ApiError, "API unavailable" if call_count == 2
+
+        hourly_forecast
+      end
+
+      result = service.fetch_forecast(lat: lat, lng: lng, hours: 1)
+
+      expect(result[:success]).to be true
+      bearings = result[:data][:forecast][:precipitation_cells].map { |cell| cell[:bearing] }.uniq
+      expect(bearings).to eq(described_class::FORECAST_SAMPLE_BEARINGS.drop(1))
+    end
+
+    context "when the forecast for the location fails" do
+      before do
+        allow_any_instance_of(ExternalApis::WeatherApi).to receive(:hourly_forecast)
+          .and_raise(ExternalApis::WeatherApi::ApiError, "API unavailable")
+      end
+
+      it "returns error result" do
+        result = service.fetch_forecast(lat: lat, lng: lng)
+
+        expect(result[:success]).to be false
+        expect(result[:error][:code]).to eq(ErrorHandler::ErrorCodes::WEATHER_API_ERROR)
+      end
+    end
+  end
+
   describe "#calculate_sun_position" do
     let(:time) { Time.utc(2024, 1, 21, 12, 0, 0) } # Noon UTC
 
@@ -45,13 +45,22 @@ RSpec.describe "Photo Upload Workflow", type: :request do
                photo: {
                  image: test_image,
                  title: "Feed Broadcast Test",
+                 description: "Double rainbow over the vineyards",
                  latitude: 36.1,
                  longitude: 137.9,
                  captured_at: 1.hour.ago.iso8601
                }
              },
              headers: auth_headers(user)
-      }.to have_broadcasted_to("photo_feed")
+      }.to have_broadcasted_to("photo_feed").with(
+        hash_including(
+          type: "new_photo",
+          photo: hash_including(
+            title: "Feed Broadcast Test",
+            description: "Double rainbow over the vineyards"
+          )
+        )
+      )
     end
 
     it "runs ImageProcessingJob which invokes ImageModerationService" do
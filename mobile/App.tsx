@@ -6,6 +6,7 @@
  * - i18n (internationalization) with Japanese and English support
  * - Onboarding flow for first-time users
  * - Authentication state management
+ * - Deep links for shared photos, profiles and email verification
  */
 
 import React, { useEffect, useState } from 'react';
@@ -18,7 +19,7 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { initializeI18n } from './src/i18n';
-import { RootNavigator } from './src/navigation';
+import { RootNavigator, linking } from './src/navigation';
 import { initSentry, wrapWithSentry } from './src/services/sentryService';
 import { useAuthStore } from './src/store/authStore';
 import { useOnboardingStore } from './src/store/onboardingStore';
@@ -88,7 +89,7 @@ function App() {
   return (
     <GestureHandlerRootView style={styles.container}>
       <SafeAreaProvider>
-        <NavigationContainer>
+        <NavigationContainer linking={linking}>
           <RootNavigator
             isAuthenticated={isAuthenticated}
             isOnboardingCompleted={isOnboardingCompleted}
@@ -0,0 +1,126 @@
+/**
+ * Component Tests for RainbowOverlay
+ *
+ * Tests the rainbow arcs drawn for the sun position and heading, and the
+ * direction hint / sun warnings with the next rainbow window.
+ */
+
+import React from 'react';
+
+import { fireEvent, render } from '@testing-library/react-native';
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, opts?: Record<string, unknown>) =>
+      opts ? `${key} ${JSON.stringify(opts)}` : key,
+  }),
+}));
+
+jest.mock('react-native-svg', () => {
+  const { View } = require('react-native');
+  return {
+    __esModule: true,
+    default: (props: any) => <View testID="svg" {...props} />,
+    Path: (props: any) => <View {...props} />,
+  };
+});
+
+import { RainbowOverlay } from '../../../src/components/camera/RainbowOverlay';
+
+const NEXT_WINDOW = { start: new Date(2026, 5, 21, 15, 27), end: new Date(2026, 5, 21, 19, 9) };
+
+const LAYOUT = { nativeEvent: { layout: { x: 0, y: 0, width: 400, height: 800 } } };
+
+/**
+ * Render the overlay and give it a size
+ */
+const renderOverlay = (props: React.ComponentProps<typeof RainbowOverlay>) => {
+  const utils = render(<RainbowOverlay {...props} />);
+  fireEvent(utils.getByTestId('rainbow-overlay'), 'layout', LAYOUT);
+  return utils;
+};
+
+describe('RainbowOverlay', () => {
+  it('renders nothing until the sun position is known', () => {
+    const { queryByTestId } = render(<RainbowOverlay sun={null} heading={90} />);
+
+    expect(queryByTestId('rainbow-overlay')).toBeNull();
+  });
+
+  it('draws both bows when facing away from the sun', () => {
+    const { getByTestId } = renderOverlay({ sun: { azimuth: 270, altitude: 20 }, heading: 90 });
+
+    expect(getByTestId('rainbow-overlay-primary').props.d).toMatch(/^M/);
+    expect(getByTestId('rainbow-overlay-secondary').props.d).toMatch(/^M/);
+  });
+
+  it('shows the direction to look in', () => {
+    const { getByTestId } = renderOverlay({ sun: { azimuth: 250, altitude: 20 }, heading: 70 });
+
+    expect(getByTestId('rainbow-overlay-hint').props.accessibilityLabel).toBe(
+      'camera.rainbowDirection {"direction":"ENE","azimuth":70}'
+    );
+  });
+
+  it('draws no bows when facing the sun', () => {
+    const { queryByTestId } = renderOverlay({ sun: { azimuth: 270, altitude: 20 }, heading: 270 });
+
+    expect(queryByTestId('rainbow-overlay-primary')).toBeNull();
+    expect(queryByTestId('rainbow-overlay-secondary')).toBeNull();
+  });
+
+  it('only shows the direction without a compass', () => {
+    const { queryByTestId, getByTestId } = renderOverlay({
+      sun: { azimuth: 270, altitude: 20 },
+      heading: null,
+    });
+
+    expect(queryByTestId('svg')).toBeNull();
+    expect(getByTestId('rainbow-overlay-hint')).toBeTruthy();
+  });
+
+  it('warns when the sun is too high for a rainbow', () => {
+    const { getByTestId, queryByTestId } = renderOverlay({
+      sun: { azimuth: 180, altitude: 55.4 },
+      heading: 0,
+    });
+
+    const hint = getByTestId('rainbow-overlay-hint');
+    expect(hint.props.accessibilityLabel).toBe('camera.sunTooHigh {"altitude":55}');
+    expect(hint.props.accessibilityRole).toBe('alert');
+    expect(queryByTestId('rainbow-overlay-primary')).toBeNull();
+  });
+
+  it('warns when the sun is below the horizon', () => {
+    const { getByTestId } = renderOverlay({ sun: { azimuth: 300, altitude: -5 }, heading: 120 });
+
+    expect(getByTestId('rainbow-overlay-hint').props.accessibilityLabel).toBe(
+      'camera.sunBelowHorizon'
+    );
+  });
+
+  it('shows the next rainbow window while the sun is too high', () => {
+    const { getByTestId } = renderOverlay({
+      sun: { azimuth: 180, altitude: 55.4 },
+      heading: 0,
+      nextWindow: NEXT_WINDOW,
+    });
+
+    expect(getByTestId('rainbow-overlay-next-window').props.children).toBe(
+      'camera.nextRainbowWindow {"start":"15:27","end":"19:09"}'
+    );
+    expect(getByTestId('rainbow-overlay-hint').props.accessibilityLabel).toBe(
+      'camera.sunTooHigh {"altitude":55} camera.nextRainbowWindow {"start":"15:27","end":"19:09"}'
+    );
+  });
+
+  it('hides the next rainbow window while a rainbow is possible', () => {
+    const { queryByTestId } = renderOverlay({
+      sun: { azimuth: 270, altitude: 20 },
+      heading: 90,
+      nextWindow: NEXT_WINDOW,
+    });
+
+    expect(queryByTestId('rainbow-overlay-next-window')).toBeNull();
+  });
+});
@@ -37,6 +37,7 @@ jest.mock('react-i18next', () => ({
         'photo.commentsCount': `${opts?.count || 0} comments`,
         'photo.doubleTapForDetail': 'Double tap for detail',
         'photo.navigateToDetail': 'Navigate to detail',
+        'photo.viewProfile': 'View profile',
       };
       return translations[key] || key;
     },
@@ -175,4 +176,34 @@ describe('PhotoCard', () => {
       render(<PhotoCard photo={photoInvalidDate as any} onPress={jest.fn()} />)
     ).not.toThrow();
   });
+
+  it('calls onUserPress with the photographer when the name is pressed', () => {
+    const onPress = jest.fn();
+    const onUserPress = jest.fn();
+    const { getByTestId } = render(
+      <PhotoCard {...defaultProps} onPress={onPress} onUserPress={onUserPress} testID="card" />
+    );
+
+    fireEvent.press(getByTestId('card-user'));
+
+    expect(onUserPress).toHaveBeenCalledWith({ id: 'user-1', displayName: 'Test User' });
+    expect(onPress).not.toHaveBeenCalled();
+  });
+
+  it('offers a view profile action to screen readers', () => {
+    const onUserPress = jest.fn();
+    const { getByRole } = render(<PhotoCard {...defaultProps} onUserPress={onUserPress} />);
+    const button = getByRole('button');
+
+    expect(button.props.accessibilityActions).toEqual([
+      { name: 'viewProfile', label: 'View profile' },
+    ]);
+    fireEvent(button, 'accessibilityAction', { nativeEvent: { actionName: 'viewProfile' } });
+    expect(onUserPress).toHaveBeenCalledWith({ id: 'user-1', displayName: 'Test User' });
+  });
+
+  it('has no profile action without onUserPress', () => {
+    const { getByRole } = render(<PhotoCard {...defaultProps} />);
+    expect(getByRole('button').props.accessibilityActions).toBeUndefined();
+  });
 });
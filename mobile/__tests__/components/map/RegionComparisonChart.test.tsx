@@ -0,0 +1,148 @@
+/**
+ * Component Tests for RegionComparisonChart
+ *
+ * Tests the overlay datasets per region, metric switching, legend and the
+ * side-by-side weather conditions.
+ */
+
+import React from 'react';
+
+import { render, fireEvent } from '@testing-library/react-native';
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, opts?: any) => {
+      if (key.startsWith('statistics.conditions.')) {
+        return opts?.defaultValue ?? key;
+      }
+      if (key === 'statistics.compare.legendItem') {
+        return `${opts?.region}, ${opts?.count} sightings`;
+      }
+      if (key === 'statistics.compare.peakHourSummary') {
+        return `${opts?.region}: ${opts?.hour}:00`;
+      }
+      return key;
+    },
+  }),
+}));
+
+jest.mock('../../../src/utils/accessibility', () => ({
+  MIN_TOUCH_TARGET_SIZE: 44,
+  createScreenReaderAnnouncement: (...parts: string[]) => parts.filter(Boolean).join(', '),
+  accessibleColors: {
+    primary: '#3D7A8C',
+    textPrimary: '#1F1F1F',
+    textSecondary: '#5C5C5C',
+    textMuted: '#6B6B6B',
+    backgroundLight: '#FFFFFF',
+    backgroundMuted: '#F5F5F5',
+  },
+}));
+
+jest.mock('react-native-chart-kit', () => ({
+  LineChart: (props: any) => {
+    const { View } = require('react-native');
+    return <View testID="line-chart" {...props} />;
+  },
+  BarChart: (props: any) => {
+    const { View } = require('react-native');
+    return <View testID="bar-chart" {...props} />;
+  },
+}));
+
+jest.mock('react-native-svg', () => ({
+  __esModule: true,
+  default: 'Svg',
+}));
+
+import { RegionComparisonChart } from '../../../src/components/map/RegionComparisonChart';
+
+import type { RegionStats } from '../../../src/services/mapService';
+
+const buildStats = (overrides: Partial<RegionStats>): RegionStats => ({
+  regionId: 'daimon',
+  regionName: '大門地区',
+  totalSightings: 42,
+  averageSightingsPerMonth: 3.5,
+  peakHours: [
+    { hour: 17, count: 12 },
+    { hour: 7, count: 4 },
+  ],
+  peakMonths: [{ month: 6, count: 7 }],
+  typicalWeather: {
+    temperature: { min: 12, max: 26, avg: 19 },
+    humidity: { min: 50, max: 90, avg: 70 },
+    conditions: [{ condition: 'sunny', count: 5 }],
+  },
+  ...overrides,
+});
+
+describe('RegionComparisonChart', () => {
+  const regions = [
+    buildStats({}),
+    buildStats({
+      regionId: 'shiojiri_city',
+      regionName: '塩尻市',
+      totalSightings: 10,
+      peakHours: [{ hour: 16, count: 6 }],
+      typicalWeather: {
+        temperature: { min: 8, max: 22, avg: 15 },
+        humidity: { min: 40, max: 80, avg: 60 },
+        conditions: [],
+      },
+    }),
+  ];
+
+  it('renders nothing without regions', () => {
+    const { toJSON } = render(<RegionComparisonChart regions={[]} />);
+    expect(toJSON()).toBeNull();
+  });
+
+  it('overlays one dataset per region aligned to 24 hours', () => {
+    const { getByTestId } = render(<RegionComparisonChart regions={regions} />);
+
+    const { data } = getByTestId('line-chart').props;
+    expect(data.labels).toHaveLength(24);
+    expect(data.datasets).toHaveLength(2);
+    expect(data.datasets[0].data[17]).toBe(12);
+    expect(data.datasets[0].data[7]).toBe(4);
+    expect(data.datasets[1].data[16]).toBe(6);
+    expect(data.datasets[0].color(1)).toBe('rgba(61, 122, 140, 1)');
+  });
+
+  it('switches to months and temperature metrics', () => {
+    const { getByTestId } = render(<RegionComparisonChart regions={regions} />);
+
+    fireEvent.press(getByTestId('comparison-metric-months'));
+    let { data } = getByTestId('line-chart').props;
+    expect(data.labels).toHaveLength(12);
+    expect(data.datasets[0].data[5]).toBe(7);
+
+    fireEvent.press(getByTestId('comparison-metric-temperature'));
+    ({ data } = getByTestId('line-chart').props);
+    expect(data.datasets[0].data).toEqual([12, 19, 26]);
+    expect(data.datasets[1].data).toEqual([8, 15, 22]);
+    expect(getByTestId('comparison-metric-temperature').props.accessibilityState).toEqual(
+      expect.objectContaining({ selected: true })
+    );
+  });
+
+  it('summarises the peak hour of each region for screen readers', () => {
+    const { getByTestId } = render(<RegionComparisonChart regions={regions} />);
+
+    expect(getByTestId('region-comparison-line-chart').props.accessibilityLabel).toBe(
+      'statistics.compare.metric.hours, 大門地区: 17:00, 塩尻市: 16:00'
+    );
+  });
+
+  it('renders the legend and conditions for each region', () => {
+    const { getByLabelText, getByTestId, getByText } = render(
+      <RegionComparisonChart regions={regions} />
+    );
+
+    expect(getByLabelText('大門地区, 42 sightings')).toBeTruthy();
+    expect(getByLabelText('塩尻市, 10 sightings')).toBeTruthy();
+    expect(getByTestId('comparison-conditions-daimon')).toBeTruthy();
+    expect(getByText('sunny (5)')).toBeTruthy();
+  });
+});
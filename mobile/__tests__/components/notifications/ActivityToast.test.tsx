@@ -0,0 +1,129 @@
+/**
+ * Component Tests for ActivityToast
+ *
+ * Tests the like/comment messages, opening the photo, dismissal and the
+ * automatic timeout.
+ */
+
+import React from 'react';
+
+import { AccessibilityInfo } from 'react-native';
+
+import { render, fireEvent, act } from '@testing-library/react-native';
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, opts?: any) => {
+      const translations: Record<string, string> = {
+        'notifications.liveLike': `${opts?.name} liked your photo`,
+        'notifications.liveComment': `${opts?.name} commented: ${opts?.content}`,
+        'notifications.liveOpenHint': 'Opens the photo',
+        'common.close': 'Close',
+      };
+      return translations[key] || key;
+    },
+  }),
+}));
+
+jest.mock('react-native-safe-area-context', () => ({
+  useSafeAreaInsets: () => ({ top: 20, bottom: 0, left: 0, right: 0 }),
+}));
+
+import { ActivityToast } from '../../../src/components/notifications/ActivityToast';
+
+import type { LiveSocialActivity } from '../../../src/hooks/useLiveSocialUpdates';
+
+describe('ActivityToast', () => {
+  const like: LiveSocialActivity = { id: 1, type: 'like', photoId: 'p1', userName: 'Taro' };
+  const comment: LiveSocialActivity = {
+    id: 2,
+    type: 'comment',
+    photoId: 'p1',
+    userName: 'Hanako',
+    content: 'Beautiful!',
+  };
+
+  const defaultProps = {
+    onPress: jest.fn(),
+    onDismiss: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('renders nothing without activity', () => {
+    const { queryByTestId } = render(<ActivityToast {...defaultProps} activity={null} />);
+    expect(queryByTestId('activity-toast')).toBeNull();
+  });
+
+  it('shows who liked the photo', () => {
+    const { getByText } = render(<ActivityToast {...defaultProps} activity={like} />);
+    expect(getByText('Taro liked your photo')).toBeTruthy();
+  });
+
+  it('shows the comment with its author', () => {
+    const { getByText } = render(<ActivityToast {...defaultProps} activity={comment} />);
+    expect(getByText('Hanako commented: Beautiful!')).toBeTruthy();
+  });
+
+  it('announces the activity to screen readers', () => {
+    const announce = jest.spyOn(AccessibilityInfo, 'announceForAccessibility');
+    render(<ActivityToast {...defaultProps} activity={like} />);
+    expect(announce).toHaveBeenCalledWith('Taro liked your photo');
+  });
+
+  it('opens the photo on press', () => {
+    const { getByTestId } = render(<ActivityToast {...defaultProps} activity={like} />);
+    fireEvent.press(getByTestId('activity-toast-open'));
+    expect(defaultProps.onPress).toHaveBeenCalledWith(like);
+  });
+
+  it('dismisses with the close button', () => {
+    const { getByLabelText } = render(<ActivityToast {...defaultProps} activity={like} />);
+    fireEvent.press(getByLabelText('Close'));
+    expect(defaultProps.onDismiss).toHaveBeenCalled();
+  });
+
+  it('dismisses through the accessibility action', () => {
+    const { getByTestId } = render(<ActivityToast {...defaultProps} activity={like} />);
+    fireEvent(getByTestId('activity-toast-open'), 'accessibilityAction', {
+      nativeEvent: { actionName: 'dismiss' },
+    });
+    expect(defaultProps.onDismiss).toHaveBeenCalled();
+  });
+
+  it('dismisses itself after a few seconds', () => {
+    jest.useFakeTimers();
+    render(<ActivityToast {...defaultProps} activity={like} />);
+
+    act(() => {
+      jest.advanceTimersByTime(3999);
+    });
+    expect(defaultProps.onDismiss).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(defaultProps.onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the timer for new activity', () => {
+    jest.useFakeTimers();
+    const { rerender } = render(<ActivityToast {...defaultProps} activity={like} />);
+
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+    rerender(<ActivityToast {...defaultProps} activity={comment} />);
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(defaultProps.onDismiss).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Component Tests for NotificationItem
+ *
+ * Tests rendering of read/unread rows, press handling, swipe-to-mark-read
+ * and the mark-as-read accessibility action.
+ */
+
+import React from 'react';
+
+import { render, fireEvent } from '@testing-library/react-native';
+
+jest.mock('date-fns', () => ({
+  formatDistanceToNow: () => '5 minutes ago',
+}));
+
+jest.mock('date-fns/locale', () => ({
+  ja: {},
+  enUS: {},
+}));
+
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        'notifications.unread': 'Unread',
+        'notifications.markRead': 'Mark as read',
+      };
+      return translations[key] || key;
+    },
+    i18n: { language: 'en' },
+  }),
+}));
+
+jest.mock('../../../src/utils/accessibility', () => ({
+  MIN_TOUCH_TARGET_SIZE: 44,
+  createScreenReaderAnnouncement: (...parts: (string | undefined)[]) =>
+    parts.filter(Boolean).join(', '),
+  accessibleColors: {
+    primary: '#3D7A8C',
+    textPrimary: '#1F1F1F',
+    textSecondary: '#5C5C5C',
+    textMuted: '#6B6B6B',
+    backgroundLight: '#FFFFFF',
+    backgroundMuted: '#F5F5F5',
+  },
+}));
+
+// Render Swipeable as a plain container that exposes its open callback
+jest.mock('react-native-gesture-handler', () => {
+  const mockReact = require('react');
+  const { View } = require('react-native');
+  return {
+    Swipeable: mockReact.forwardRef((props: any, _ref: unknown) => (
+      <View testID="swipeable" onSwipeableOpen={props.onSwipeableOpen}>
+        {props.children}
+      </View>
+    )),
+  };
+});
+
+import { NotificationItem } from '../../../src/components/notifications/NotificationItem';
+
+import type { Notification } from '../../../src/types/notification';
+
+const createNotification = (overrides: Partial<Notification> = {}): Notification => ({
+  id: 'n1',
+  type: 'like',
+  title: 'New like',
+  body: 'Taro liked your photo',
+  data: { photoId: 'photo-1' },
+  isRead: false,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('NotificationItem', () => {
+  const onPress = jest.fn();
+  const onMarkAsRead = jest.fn();
+
+  it('renders title, body and relative time', () => {
+    const { getByText } = render(
+      <NotificationItem
+        notification={createNotification()}
+        onPress={onPress}
+        onMarkAsRead={onMarkAsRead}
+      />
+    );
+
+    expect(getByText('New like')).toBeTruthy();
+    expect(getByText('Taro liked your photo')).toBeTruthy();
+    expect(getByText('5 minutes ago')).toBeTruthy();
+  });
+
+  it('announces unread state in the accessibility label', () => {
+    const { getByTestId } = render(
+      <NotificationItem
+        notification={createNotification()}
+        onPress={onPress}
+        onMarkAsRead={onMarkAsRead}
+      />
+    );
+
+    expect(getByTestId('notification-item-n1').props.accessibilityLabel).toBe(
+      'Unread, New like, Taro liked your photo, 5 minutes ago'
+    );
+    expect(getByTestId('notification-unread-dot')).toBeTruthy();
+  });
+
+  it('calls onPress with the notification', () => {
+    const notification = createNotification();
+    const { getByTestId } = render(
+      <NotificationItem notification={notification} onPress={onPress} onMarkAsRead={onMarkAsRead} />
+    );
+
+    fireEvent.press(getByTestId('notification-item-n1'));
+
+    expect(onPress).toHaveBeenCalledWith(notification);
+  });
+
+  it('marks as read when swiped open', () => {
+    const notification = createNotification();
+    const { getByTestId } = render(
+      <NotificationItem notification={notification} onPress={onPress} onMarkAsRead={onMarkAsRead} />
+    );
+
+    fireEvent(getByTestId('swipeable'), 'swipeableOpen');
+
+    expect(onMarkAsRead).toHaveBeenCalledWith(notification);
+  });
+
+  it('marks as read via the accessibility action', () => {
+    const notification = createNotification();
+    const { getByTestId } = render(
+      <NotificationItem notification={notification} onPress={onPress} onMarkAsRead={onMarkAsRead} />
+    );
+
+    fireEvent(getByTestId('notification-item-n1'), 'accessibilityAction', {
+      nativeEvent: { actionName: 'markAsRead' },
+    });
+
+    expect(onMarkAsRead).toHaveBeenCalledWith(notification);
+  });
+
+  it('does not render swipe actions for read notifications', () => {
+    const { queryByTestId } = render(
+      <NotificationItem
+        notification={createNotification({ isRead: true })}
+        onPress={onPress}
+        onMarkAsRead={onMarkAsRead}
+      />
+    );
+
+    expect(queryByTestId('swipeable')).toBeNull();
+    expect(queryByTestId('notification-unread-dot')).toBeNull();
+  });
+});
@@ -76,6 +76,7 @@ jest.mock('../../../src/types/social', () => ({
 
 import { CommentList } from '../../../src/components/social/CommentList';
 import { socialService } from '../../../src/services/socialService';
+import { useBlockStore } from '../../../src/store/blockStore';
 
 const mockedSocialService = jest.mocked(socialService);
 
@@ -86,6 +87,7 @@ describe('CommentList', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    useBlockStore.getState().reset();
   });
 
   it('loads and displays comments on mount', async () => {
@@ -301,6 +303,44 @@ describe('CommentList', () => {
     expect(onReportPress).toHaveBeenCalledWith('Comment', 'c1');
   });
 
+  it('calls onUserPress when a comment author is pressed', async () => {
+    const onUserPress = jest.fn();
+    const { getByTestId } = render(<CommentList {...defaultProps} onUserPress={onUserPress} />);
+
+    await waitFor(() => {
+      expect(getByTestId('comment-author-c1')).toBeTruthy();
+    });
+
+    fireEvent.press(getByTestId('comment-author-c1'));
+    expect(onUserPress).toHaveBeenCalledWith({ id: 'user-1', displayName: 'Taro' });
+  });
+
+  it('calls onBlockUser when block is pressed', async () => {
+    const onBlockUser = jest.fn();
+    const { getByTestId } = render(<CommentList {...defaultProps} onBlockUser={onBlockUser} />);
+
+    await waitFor(() => {
+      expect(getByTestId('comment-block-c1')).toBeTruthy();
+    });
+
+    fireEvent.press(getByTestId('comment-block-c1'));
+    expect(onBlockUser).toHaveBeenCalledWith({ id: 'user-1', displayName: 'Taro' });
+  });
+
+  it('hides comments from blocked users', async () => {
+    useBlockStore.setState({
+      blockedUsers: [{ id: 'user-1', displayName: 'Taro', blockedAt: '2026-10-19T00:00:00Z' }],
+    });
+
+    const { getByText, queryByText } = render(<CommentList {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(getByText('Amazing!')).toBeTruthy();
+    });
+    expect(queryByText('Great rainbow!')).toBeNull();
+    expect(getByText('1件')).toBeTruthy();
+  });
+
   it('handles pagination with multiple pages', async () => {
     mockedSocialService.getComments.mockResolvedValueOnce({
       comments: [
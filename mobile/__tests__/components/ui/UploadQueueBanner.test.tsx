@@ -17,11 +17,14 @@ import { render, fireEvent } from '@testing-library/react-native';
 // Mock the hooks before importing the component
 const mockUseNetworkState = jest.fn(() => ({ isOnline: true }));
 const mockRetryFailed = jest.fn();
+const mockCancelUpload = jest.fn();
 const mockUseUploadQueueProcessor = jest.fn(() => ({
   isProcessing: false,
   pendingCount: 0,
   failedCount: 0,
+  uploadingItems: [] as any[],
   retryFailed: mockRetryFailed,
+  cancelUpload: mockCancelUpload,
 }));
 
 jest.mock('../../../src/hooks', () => ({
@@ -29,6 +32,10 @@ jest.mock('../../../src/hooks', () => ({
   useUploadQueueProcessor: () => mockUseUploadQueueProcessor(),
 }));
 
+jest.mock('../../../src/store/uploadQueueStore', () => ({
+  useUploadProgress: () => 40,
+}));
+
 import { UploadQueueBanner } from '../../../src/components/ui/UploadQueueBanner';
 
 describe('UploadQueueBanner', () => {
@@ -40,7 +47,9 @@ describe('UploadQueueBanner', () => {
       isProcessing: false,
       pendingCount: 0,
       failedCount: 0,
+      uploadingItems: [],
       retryFailed: mockRetryFailed,
+      cancelUpload: mockCancelUpload,
     });
   });
 
@@ -75,7 +84,9 @@ describe('UploadQueueBanner', () => {
       isProcessing: true,
       pendingCount: 3,
       failedCount: 0,
+      uploadingItems: [],
       retryFailed: mockRetryFailed,
+      cancelUpload: mockCancelUpload,
     });
 
     const { getByText } = render(<UploadQueueBanner />);
@@ -91,7 +102,9 @@ describe('UploadQueueBanner', () => {
       isProcessing: false,
       pendingCount: 0,
       failedCount: 2,
+      uploadingItems: [],
       retryFailed: mockRetryFailed,
+      cancelUpload: mockCancelUpload,
     });
 
     const { getByText } = render(<UploadQueueBanner />);
@@ -108,7 +121,9 @@ describe('UploadQueueBanner', () => {
       isProcessing: false,
       pendingCount: 0,
       failedCount: 1,
+      uploadingItems: [],
       retryFailed: mockRetryFailed,
+      cancelUpload: mockCancelUpload,
     });
 
     const { getByText } = render(<UploadQueueBanner />);
@@ -117,4 +132,24 @@ describe('UploadQueueBanner', () => {
 
     expect(mockRetryFailed).toHaveBeenCalledTimes(1);
   });
+
+  // -----------------------------------------------------------------
+  // Uploads in flight
+  // -----------------------------------------------------------------
+  it('shows progress for an upload in flight and cancels it', () => {
+    mockUseUploadQueueProcessor.mockReturnValue({
+      isProcessing: true,
+      pendingCount: 0,
+      failedCount: 0,
+      uploadingItems: [{ id: 'upload-1', metadata: { title: 'Evening bow' } }],
+      retryFailed: mockRetryFailed,
+      cancelUpload: mockCancelUpload,
+    });
+
+    const { getByText, getByTestId } = render(<UploadQueueBanner />);
+
+    expect(getByText('Uploading Evening bow... 40%')).toBeTruthy();
+    fireEvent.press(getByTestId('upload-queue-cancel-upload-1'));
+    expect(mockCancelUpload).toHaveBeenCalledWith('upload-1');
+  });
 });
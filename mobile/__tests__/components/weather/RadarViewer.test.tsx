@@ -1,12 +1,32 @@
 /**
  * Component Tests for RadarViewer
  *
- * Tests radar image display, empty state, and rendering with data.
+ * Tests the radar map, frame playback controls, sun direction and empty state.
  */
 
 import React from 'react';
 
-import { render, fireEvent } from '@testing-library/react-native';
+import { render, fireEvent, act } from '@testing-library/react-native';
+
+jest.mock('react-native-maps', () => {
+  const { View } = require('react-native');
+  const MockMapView = (props: any) => <View testID="radar-map-view" {...props} />;
+  return {
+    __esModule: true,
+    default: MockMapView,
+    Circle: (props: any) => <View testID="radar-circle" {...props} />,
+    Marker: (props: any) => <View testID="radar-marker" {...props} />,
+    Polyline: (props: any) => <View testID="radar-sun-line" {...props} />,
+  };
+});
+
+jest.mock('@react-native-community/slider', () => {
+  const { View } = require('react-native');
+  return {
+    __esModule: true,
+    default: (props: any) => <View {...props} />,
+  };
+});
 
 jest.mock('../../../src/utils/accessibility', () => ({
   MIN_TOUCH_TARGET_SIZE: 44,
@@ -34,19 +54,29 @@ jest.mock('../../../src/utils/testMode', () => ({
 
 import { RadarViewer } from '../../../src/components/weather/RadarViewer';
 
+// The map is hidden from screen readers in favour of its summary
+const HIDDEN = { includeHiddenElements: true };
+
 describe('RadarViewer', () => {
+  const location = { latitude: 36.1151, longitude: 137.9465 };
+
+  // 12:00 and 12:10 JST, when the sun is up in the south
   const mockRadarData = [
     {
       id: 'r1',
-      imageUrl: 'https://example.com/radar1.png',
-      timestamp: '2026-03-01T12:00:00Z',
+      timestamp: '2026-03-01T03:00:00Z',
       precipitationIntensity: 0.5,
+      radius: 50000,
+      centerLatitude: 36.2,
+      centerLongitude: 138.0,
     },
     {
       id: 'r2',
-      imageUrl: 'https://example.com/radar2.png',
-      timestamp: '2026-03-01T12:10:00Z',
+      timestamp: '2026-03-01T03:10:00Z',
       precipitationIntensity: 1.2,
+      radius: 40000,
+      centerLatitude: 36.25,
+      centerLongitude: 138.05,
     },
   ];
 
@@ -54,6 +84,10 @@ describe('RadarViewer', () => {
     jest.clearAllMocks();
   });
 
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   it('renders radar viewer with data', () => {
     const { toJSON } = render(<RadarViewer radarData={mockRadarData as any} />);
     expect(toJSON()).toBeTruthy();
@@ -64,24 +98,87 @@ describe('RadarViewer', () => {
     expect(getByText('レーダーデータがありません')).toBeTruthy();
   });
 
+  it('renders no data accessibility label when empty', () => {
+    const { getByLabelText } = render(
+      <RadarViewer radarData={[]} testID="radar" />
+    );
+    expect(getByLabelText('レーダーデータがありません')).toBeTruthy();
+  });
+
   it('renders title text', () => {
     const { getByText } = render(<RadarViewer radarData={mockRadarData as any} />);
     expect(getByText('雨雲レーダー')).toBeTruthy();
   });
 
-  it('renders without crashing with valid data', () => {
-    expect(() => render(<RadarViewer radarData={mockRadarData as any} />)).not.toThrow();
+  it('draws the first frame as circles on the map', () => {
+    const { getAllByTestId } = render(<RadarViewer radarData={mockRadarData as any} />);
+    const circles = getAllByTestId('radar-circle', HIDDEN);
+    expect(circles).toHaveLength(1);
+    expect(circles[0].props.center).toEqual({ latitude: 36.2, longitude: 138.0 });
+    expect(circles[0].props.radius).toBe(50000);
+  });
+
+  it('groups areas sharing a timestamp into one frame', () => {
+    const data = [
+      { id: 'n', timestamp: '2026-03-01T03:00:00Z', precipitationIntensity: 2, centerLatitude: 36.25, centerLongitude: 137.95 },
+      { id: 's', timestamp: '2026-03-01T03:00:00Z', precipitationIntensity: 25, centerLatitude: 35.98, centerLongitude: 137.95 },
+      { id: 'n2', timestamp: '2026-03-01T04:00:00Z', precipitationIntensity: 0, centerLatitude: 36.25, centerLongitude: 137.95 },
+    ];
+    const { getAllByTestId, getByTestId, getByText } = render(
+      <RadarViewer radarData={data as any} testID="radar" />
+    );
+
+    const circles = getAllByTestId('radar-circle', HIDDEN);
+    expect(circles).toHaveLength(2);
+    // Areas without a radius get the default
+    expect(circles[0].props.radius).toBe(5000);
+    expect(getByTestId('radar-scrubber').props.maximumValue).toBe(1);
+    // The frame is described by its heaviest rain
+    expect(getByText('強い雨')).toBeTruthy();
+  });
+
+  it('marks the photo location', () => {
+    const { getAllByTestId } = render(
+      <RadarViewer radarData={mockRadarData as any} location={location} />
+    );
+    const photoMarker = getAllByTestId('radar-marker', HIDDEN).find(
+      (marker) => marker.props.title === '撮影地点'
+    );
+    expect(photoMarker?.props.coordinate).toEqual(location);
+  });
+
+  it('draws the sun direction from the photo location', () => {
+    const { getByTestId, getByText } = render(
+      <RadarViewer radarData={mockRadarData as any} location={location} />
+    );
+    const [from, to] = getByTestId('radar-sun-line', HIDDEN).props.coordinates;
+    expect(from).toEqual(location);
+    // Around noon the sun is to the south
+    expect(to.latitude).toBeLessThan(location.latitude);
+    expect(getByText(/^太陽は(S|SSE|SSW)（\d+°）$/)).toBeTruthy();
+  });
+
+  it('omits the sun direction at night', () => {
+    const night = [{ ...mockRadarData[0], timestamp: '2026-03-01T12:00:00Z' }];
+    const { queryByTestId, getByText } = render(
+      <RadarViewer radarData={night as any} location={location} />
+    );
+    expect(queryByTestId('radar-sun-line', HIDDEN)).toBeNull();
+    expect(getByText('太陽は地平線の下')).toBeTruthy();
   });
 
-  it('renders play/pause button for multiple radar items', () => {
+  it('renders play/pause button for multiple radar frames', () => {
     const { getByLabelText } = render(<RadarViewer radarData={mockRadarData as any} />);
-    expect(getByLabelText('スライドショーを再生')).toBeTruthy();
+    expect(getByLabelText('アニメーションを再生')).toBeTruthy();
   });
 
-  it('does not render play button for single radar item', () => {
+  it('does not render playback controls for a single radar frame', () => {
     const singleData = [mockRadarData[0]];
-    const { queryByLabelText } = render(<RadarViewer radarData={singleData as any} />);
-    expect(queryByLabelText('スライドショーを再生')).toBeNull();
+    const { queryByLabelText, queryByTestId } = render(
+      <RadarViewer radarData={singleData as any} testID="radar" />
+    );
+    expect(queryByLabelText('アニメーションを再生')).toBeNull();
+    expect(queryByTestId('radar-scrubber')).toBeNull();
   });
 
   it('toggles play/pause label on button press', () => {
@@ -89,11 +186,60 @@ describe('RadarViewer', () => {
       <RadarViewer radarData={mockRadarData as any} />
     );
 
-    fireEvent.press(getByLabelText('スライドショーを再生'));
-    expect(getByLabelText('スライドショーを停止')).toBeTruthy();
+    fireEvent.press(getByLabelText('アニメーションを再生'));
+    expect(getByLabelText('アニメーションを停止')).toBeTruthy();
 
-    fireEvent.press(getByLabelText('スライドショーを停止'));
-    expect(queryByLabelText('スライドショーを再生')).toBeTruthy();
+    fireEvent.press(getByLabelText('アニメーションを停止'));
+    expect(queryByLabelText('アニメーションを再生')).toBeTruthy();
+  });
+
+  it('advances frames while playing at the selected speed', () => {
+    jest.useFakeTimers();
+    const { getByLabelText, getByTestId } = render(
+      <RadarViewer radarData={mockRadarData as any} testID="radar" />
+    );
+
+    fireEvent.press(getByLabelText('アニメーションを再生'));
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(getByTestId('radar-scrubber').props.value).toBe(1);
+
+    fireEvent.press(getByTestId('radar-speed'));
+    expect(getByLabelText('再生速度 2倍')).toBeTruthy();
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    expect(getByTestId('radar-scrubber').props.value).toBe(0);
+  });
+
+  it('cycles through playback speeds', () => {
+    const { getByTestId, getByText } = render(
+      <RadarViewer radarData={mockRadarData as any} testID="radar" />
+    );
+    expect(getByText('1x')).toBeTruthy();
+    fireEvent.press(getByTestId('radar-speed'));
+    expect(getByText('2x')).toBeTruthy();
+    fireEvent.press(getByTestId('radar-speed'));
+    expect(getByText('0.5x')).toBeTruthy();
+    fireEvent.press(getByTestId('radar-speed'));
+    expect(getByText('1x')).toBeTruthy();
+  });
+
+  it('shows the scrubbed frame and pauses playback', () => {
+    const { getByLabelText, getByTestId, getAllByTestId, getByText } = render(
+      <RadarViewer radarData={mockRadarData as any} testID="radar" />
+    );
+
+    fireEvent.press(getByLabelText('アニメーションを再生'));
+    fireEvent(getByTestId('radar-scrubber'), 'valueChange', 1);
+
+    expect(getAllByTestId('radar-circle', HIDDEN)[0].props.center).toEqual({
+      latitude: 36.25,
+      longitude: 138.05,
+    });
+    expect(getByText(/1.2 mm\/h/)).toBeTruthy();
+    expect(getByLabelText('アニメーションを再生')).toBeTruthy();
   });
 
   it('renders legend with intensity labels', () => {
@@ -108,77 +254,46 @@ describe('RadarViewer', () => {
 
   it('renders intensity descriptions for various levels', () => {
     const radarVariety = [
-      { id: 'r1', imageUrl: 'u', timestamp: '2026-03-01T12:00:00Z', precipitationIntensity: 0 },
-      { id: 'r2', imageUrl: 'u', timestamp: '2026-03-01T12:10:00Z', precipitationIntensity: 3 },
-      { id: 'r3', imageUrl: 'u', timestamp: '2026-03-01T12:20:00Z', precipitationIntensity: 15 },
-      { id: 'r4', imageUrl: 'u', timestamp: '2026-03-01T12:30:00Z', precipitationIntensity: 40 },
-      { id: 'r5', imageUrl: 'u', timestamp: '2026-03-01T12:40:00Z', precipitationIntensity: 60 },
+      { id: 'r1', timestamp: '2026-03-01T12:00:00Z', precipitationIntensity: 0 },
+      { id: 'r2', timestamp: '2026-03-01T12:10:00Z', precipitationIntensity: 3 },
+      { id: 'r3', timestamp: '2026-03-01T12:20:00Z', precipitationIntensity: 15 },
+      { id: 'r4', timestamp: '2026-03-01T12:30:00Z', precipitationIntensity: 40 },
+      { id: 'r5', timestamp: '2026-03-01T12:40:00Z', precipitationIntensity: 60 },
     ];
-    const { getByText } = render(<RadarViewer radarData={radarVariety as any} />);
-    expect(getByText('降水なし')).toBeTruthy();
-    expect(getByText('弱い雨')).toBeTruthy();
-    expect(getByText('中程度の雨')).toBeTruthy();
-    expect(getByText('強い雨')).toBeTruthy();
-    expect(getByText('非常に強い雨')).toBeTruthy();
-  });
-
-  it('renders precipitation values in mm/h', () => {
-    const { getAllByText } = render(<RadarViewer radarData={mockRadarData as any} />);
-    // Each radar item shows mm/h twice (placeholder + indicator)
-    expect(getAllByText('0.5 mm/h').length).toBeGreaterThanOrEqual(1);
-    expect(getAllByText('1.2 mm/h').length).toBeGreaterThanOrEqual(1);
-  });
-
-  it('renders accessibility label with image count', () => {
-    const { getByLabelText } = render(
-      <RadarViewer radarData={mockRadarData as any} testID="radar" />
+    const { getByTestId, getByText } = render(
+      <RadarViewer radarData={radarVariety as any} testID="radar" />
     );
-    expect(
-      getByLabelText('雨雲レーダー。2枚の画像。左右にスクロールして閲覧できます')
-    ).toBeTruthy();
-  });
 
-  it('renders no data accessibility label when empty', () => {
-    const { getByLabelText } = render(
-      <RadarViewer radarData={[]} testID="radar" />
-    );
-    expect(getByLabelText('レーダーデータがありません')).toBeTruthy();
+    const descriptions = ['降水なし', '弱い雨', '中程度の雨', '強い雨', '非常に強い雨'];
+    descriptions.forEach((description, index) => {
+      fireEvent(getByTestId('radar-scrubber'), 'valueChange', index);
+      expect(getByText(description)).toBeTruthy();
+    });
   });
 
-  it('handles scroll end to update current index', () => {
-    const { getByLabelText } = render(
-      <RadarViewer radarData={mockRadarData as any} />
+  it('summarises the frame for screen readers', () => {
+    const { getByTestId } = render(
+      <RadarViewer radarData={mockRadarData as any} location={location} testID="radar" />
+    );
+    expect(getByTestId('radar-map').props.accessibilityLabel).toMatch(
+      /の雨雲レーダー。弱い雨。太陽は/
     );
-    // Component renders, scroll end handler is wired via onMomentumScrollEnd
-    // The handler updates internal state - we test it doesn't crash
-    expect(getByLabelText('雨雲レーダー。2枚の画像。左右にスクロールして閲覧できます')).toBeTruthy();
-  });
-
-  it('renders pagination dots for multiple items', () => {
-    const { toJSON } = render(<RadarViewer radarData={mockRadarData as any} />);
-    const json = JSON.stringify(toJSON());
-    // Pagination dots are rendered as Views; we verify the component renders fully
-    expect(json).toBeTruthy();
   });
 
   it('sorts radar data by timestamp', () => {
-    const unsorted = [
-      { id: 'r2', imageUrl: 'u', timestamp: '2026-03-01T12:10:00Z', precipitationIntensity: 1.2 },
-      { id: 'r1', imageUrl: 'u', timestamp: '2026-03-01T12:00:00Z', precipitationIntensity: 0.5 },
-    ];
-    const { getAllByText } = render(<RadarViewer radarData={unsorted as any} />);
-    // Both items should render regardless of order
-    expect(getAllByText(/mm\/h/).length).toBeGreaterThanOrEqual(2);
+    const unsorted = [mockRadarData[1], mockRadarData[0]];
+    const { getByText } = render(<RadarViewer radarData={unsorted as any} />);
+    expect(getByText(/0.5 mm\/h/)).toBeTruthy();
   });
 
   it('handles radar data with null precipitationIntensity', () => {
     const data = [
-      { id: 'r1', imageUrl: 'u', timestamp: '2026-03-01T12:00:00Z', precipitationIntensity: null },
-      { id: 'r2', imageUrl: 'u', timestamp: '2026-03-01T12:10:00Z', precipitationIntensity: undefined },
+      { id: 'r1', timestamp: '2026-03-01T12:00:00Z', precipitationIntensity: null },
+      { id: 'r2', timestamp: '2026-03-01T12:10:00Z', precipitationIntensity: undefined },
     ];
-    const { getAllByText } = render(<RadarViewer radarData={data as any} />);
+    const { getByText } = render(<RadarViewer radarData={data as any} />);
     // null/undefined should default to 0
-    expect(getAllByText('0 mm/h').length).toBeGreaterThanOrEqual(2);
-    expect(getAllByText('降水なし').length).toBeGreaterThanOrEqual(2);
+    expect(getByText(/ 0 mm\/h/)).toBeTruthy();
+    expect(getByText('降水なし')).toBeTruthy();
   });
 });
@@ -6,7 +6,7 @@
 
 import React from 'react';
 
-import { render } from '@testing-library/react-native';
+import { render, fireEvent } from '@testing-library/react-native';
 
 jest.mock('../../../src/utils/accessibility', () => ({
   MIN_TOUCH_TARGET_SIZE: 44,
@@ -36,6 +36,11 @@ jest.mock('react-native-chart-kit', () => ({
 jest.mock('react-native-svg', () => ({
   __esModule: true,
   default: 'Svg',
+  Circle: 'Circle',
+  Line: 'Line',
+  Path: 'Path',
+  Rect: 'Rect',
+  Text: 'SvgText',
 }));
 
 import { WeatherChart } from '../../../src/components/weather/WeatherChart';
@@ -102,4 +107,136 @@ describe('WeatherChart', () => {
       )
     ).not.toThrow();
   });
+
+  it('charts forecast cloud cover', () => {
+    const { getByText, getByTestId } = render(
+      <WeatherChart
+        weatherConditions={[
+          { id: 'f1', timestamp: '2026-03-01T12:00:00Z', cloudCover: 20 },
+          { id: 'f2', timestamp: '2026-03-01T13:00:00Z', cloudCover: 80 },
+        ] as any}
+        metric="cloudCover"
+        testID="cloud-chart"
+      />
+    );
+    expect(getByText('雲量')).toBeTruthy();
+    expect(getByTestId('cloud-chart').props.accessibilityLabel).toContain(
+      '雲量は最低20%、最高80%、平均50%です'
+    );
+  });
+
+  describe('overlay mode', () => {
+    // Svg content is hidden from screen readers in favour of the plot's label
+    const HIDDEN = { includeHiddenElements: true };
+
+    const conditions = [
+      { id: 'c1', timestamp: '2026-03-01T08:00:00Z', humidity: 70, cloudCover: 40, precipitation: 0 },
+      { id: 'c2', timestamp: '2026-03-01T08:10:00Z', humidity: 80, cloudCover: 60, precipitation: 1.5, rainbowFavorable: true },
+      { id: 'c3', timestamp: '2026-03-01T08:20:00Z', humidity: 85, cloudCover: 50, precipitation: 0.5, rainbowFavorable: true },
+      { id: 'c4', timestamp: '2026-03-01T08:30:00Z', humidity: 75, cloudCover: 30 },
+    ];
+
+    const renderOverlay = (props: Record<string, unknown> = {}) =>
+      render(
+        <WeatherChart
+          weatherConditions={conditions as any}
+          metric="humidity"
+          overlayMetrics={['cloudCover', 'precipitation']}
+          testID="overlay"
+          {...props}
+        />
+      );
+
+    it('plots each metric as its own series', () => {
+      const { getByTestId, queryByTestId, getByText } = renderOverlay();
+      expect(getByTestId('weather-chart-series-humidity', HIDDEN)).toBeTruthy();
+      expect(getByTestId('weather-chart-series-cloudCover', HIDDEN)).toBeTruthy();
+      expect(getByTestId('weather-chart-series-precipitation', HIDDEN)).toBeTruthy();
+      expect(queryByTestId('line-chart')).toBeNull();
+      expect(getByText('湿度・雲量・降水量')).toBeTruthy();
+    });
+
+    it('puts metrics sharing the first unit on the left axis', () => {
+      const { getByText, toJSON } = renderOverlay();
+      expect(getByText('湿度（%・左軸）')).toBeTruthy();
+      expect(getByText('雲量（%・左軸）')).toBeTruthy();
+      expect(getByText('降水量（mm・右軸）')).toBeTruthy();
+      // Left axis spans both percentages, right axis the precipitation
+      const json = JSON.stringify(toJSON());
+      expect(json).toContain('"85%"');
+      expect(json).toContain('"30%"');
+      expect(json).toContain('"1.5mm"');
+    });
+
+    it('plots at most three metrics', () => {
+      const { queryByTestId } = renderOverlay({
+        overlayMetrics: ['cloudCover', 'precipitation', 'temperature'],
+      });
+      expect(queryByTestId('weather-chart-series-temperature', HIDDEN)).toBeNull();
+    });
+
+    it('marks the capture time within the data range', () => {
+      const { getByTestId } = renderOverlay({ capturedAt: '2026-03-01T08:15:00Z' });
+      const xs = getByTestId('weather-chart-series-humidity', HIDDEN)
+        .props.d.split(' ')
+        .map((point: string) => parseFloat(point.slice(1)));
+      // Halfway between the second and third readings
+      expect(getByTestId('weather-chart-capture-marker', HIDDEN).props.x1).toBeCloseTo(
+        (xs[1] + xs[2]) / 2,
+        1
+      );
+    });
+
+    it('omits the capture marker outside the data range', () => {
+      const { queryByTestId } = renderOverlay({ capturedAt: '2026-03-01T12:00:00Z' });
+      expect(queryByTestId('weather-chart-capture-marker', HIDDEN)).toBeNull();
+    });
+
+    it('shades the periods when rainbow conditions were favorable', () => {
+      const { getAllByTestId, getByTestId } = renderOverlay();
+      const bands = getAllByTestId('weather-chart-favorable-band', HIDDEN);
+      expect(bands).toHaveLength(1);
+      expect(getByTestId('overlay-plot').props.accessibilityLabel).toContain(
+        '虹が出やすい時間帯は'
+      );
+    });
+
+    it('shows a tooltip for the tapped reading', () => {
+      const { getByTestId, queryByTestId } = renderOverlay();
+      const plot = getByTestId('overlay-plot');
+
+      fireEvent.press(plot, { nativeEvent: { locationX: 10000 } });
+      expect(getByTestId('overlay-tooltip')).toBeTruthy();
+      expect(getByTestId('overlay-plot').props.accessibilityValue.text).toContain('湿度 75%');
+      expect(getByTestId('overlay-plot').props.accessibilityValue.text).toContain(
+        '降水量 データなし'
+      );
+
+      // Tapping the same reading again hides it
+      fireEvent.press(plot, { nativeEvent: { locationX: 10000 } });
+      expect(queryByTestId('overlay-tooltip')).toBeNull();
+    });
+
+    it('steps through readings with screen reader actions', () => {
+      const { getByTestId } = renderOverlay();
+      const plot = getByTestId('overlay-plot');
+      expect(plot.props.accessibilityRole).toBe('adjustable');
+
+      fireEvent(plot, 'accessibilityAction', { nativeEvent: { actionName: 'increment' } });
+      fireEvent(plot, 'accessibilityAction', { nativeEvent: { actionName: 'increment' } });
+      const value = getByTestId('overlay-plot').props.accessibilityValue.text;
+      expect(value).toContain('湿度 80%');
+      expect(value).toContain('虹が出やすい条件');
+
+      fireEvent(plot, 'accessibilityAction', { nativeEvent: { actionName: 'decrement' } });
+      expect(getByTestId('overlay-plot').props.accessibilityValue.text).toContain('湿度 70%');
+    });
+
+    it('shows no data message when no metric has values', () => {
+      const { getByText } = renderOverlay({
+        weatherConditions: [{ id: 'x', timestamp: '2026-03-01T08:00:00Z' }],
+      });
+      expect(getByText('データがありません')).toBeTruthy();
+    });
+  });
 });
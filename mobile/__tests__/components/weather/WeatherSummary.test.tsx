@@ -1,7 +1,8 @@
 /**
  * Component Tests for WeatherSummary
  *
- * Tests summary rendering, icon display, and N/A fallback.
+ * Tests summary rendering, icon display, N/A fallback, and the sun position
+ * and rainbow conditions (recorded or calculated offline).
  */
 
 import React from 'react';
@@ -139,4 +140,46 @@ describe('WeatherSummary', () => {
     );
     expect(getByText('詳細を見る')).toBeTruthy();
   });
+
+  it('shows the sun position and rainbow conditions recorded by the server', () => {
+    const weather = {
+      id: 'w1',
+      timestamp: '2026-06-21T08:00:00Z',
+      sunAltitude: 23.3,
+      sunAzimuth: 282.8,
+      rainbowFavorable: false,
+    };
+    const { getByTestId, getByText } = render(
+      <WeatherSummary weatherCondition={weather as any} />
+    );
+
+    expect(getByTestId('weather-summary-sun').props.accessibilityLabel).toBe(
+      '太陽高度: 23.3度、方位WNW'
+    );
+    expect(getByText('虹: 条件外')).toBeTruthy();
+  });
+
+  it('calculates the sun position from the location when the server did not', () => {
+    // 17:00 JST in Shiojiri
+    const weather = { id: 'w1', timestamp: '2026-06-21T08:00:00Z', temperature: 22.5 };
+    const { getByTestId, getByText } = render(
+      <WeatherSummary
+        weatherCondition={weather as any}
+        location={{ latitude: 36.1157, longitude: 137.9644 }}
+      />
+    );
+
+    expect(getByTestId('weather-summary-sun').props.accessibilityLabel).toBe(
+      '太陽高度: 23.3度、方位WNW（端末で計算）'
+    );
+    expect(getByText('虹: 条件良好')).toBeTruthy();
+  });
+
+  it('omits the sun position without server values or a location', () => {
+    const weather = { id: 'w1', timestamp: '2026-06-21T08:00:00Z', temperature: 22.5 };
+    const { queryByTestId } = render(<WeatherSummary weatherCondition={weather as any} />);
+
+    expect(queryByTestId('weather-summary-sun')).toBeNull();
+    expect(queryByTestId('weather-summary-rainbow')).toBeNull();
+  });
 });
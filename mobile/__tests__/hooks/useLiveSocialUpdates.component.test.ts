@@ -0,0 +1,196 @@
+/**
+ * Component Tests for useLiveSocialUpdates hook
+ *
+ * Tests that like/comment events update the cached photo counts and that
+ * activity on the user's photos is exposed for the toast.
+ */
+
+import React from 'react';
+
+import { AppState } from 'react-native';
+
+import { QueryClient, QueryClientProvider, type InfiniteData } from '@tanstack/react-query';
+import { act, renderHook } from '@testing-library/react-native';
+
+let mockNotificationHandler: ((message: NotificationMessage) => void) | null = null;
+const mockUnsubscribe = jest.fn();
+
+jest.mock('../../src/services/cableService', () => ({
+  subscribeToNotifications: jest.fn((handler: (message: NotificationMessage) => void) => {
+    mockNotificationHandler = handler;
+    return mockUnsubscribe;
+  }),
+}));
+
+import { useLiveSocialUpdates } from '../../src/hooks/useLiveSocialUpdates';
+import { useBlockStore } from '../../src/store/blockStore';
+
+import type { NotificationMessage } from '../../src/services/cableService';
+import type { Photo, PhotoListResponse } from '../../src/types/photo';
+
+const createPhoto = (id: string): Photo =>
+  ({
+    id,
+    capturedAt: '2026-10-19T08:00:00Z',
+    location: null,
+    imageUrls: { thumbnail: '', medium: '' },
+    likeCount: 1,
+    commentCount: 1,
+    user: { id: 'me', displayName: 'Me' },
+    createdAt: '2026-10-19T08:00:00Z',
+  }) as Photo;
+
+const createPage = (photos: Photo[]): PhotoListResponse =>
+  ({
+    data: photos,
+    meta: { currentPage: 1, totalPages: 1, totalCount: photos.length, perPage: 20 },
+  }) as PhotoListResponse;
+
+// The react-native mock has no app state of its own
+const setAppState = (state: string) => {
+  Object.defineProperty(AppState, 'currentState', { value: state, configurable: true });
+};
+
+const likeMessage: NotificationMessage = {
+  type: 'new_like',
+  photo_id: 'p1',
+  user: { id: 'u1', display_name: 'Taro' },
+  like_count: 5,
+};
+
+const commentMessage: NotificationMessage = {
+  type: 'new_comment',
+  photo_id: 'p1',
+  comment: { id: 'c1', content: 'Beautiful!', user: { id: 'u2', display_name: 'Hanako' } },
+  comment_count: 3,
+};
+
+describe('useLiveSocialUpdates hook', () => {
+  let queryClient: QueryClient;
+
+  const renderLiveSocialUpdates = () =>
+    renderHook(() => useLiveSocialUpdates(), {
+      wrapper: ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children),
+    });
+
+  const receive = (message: NotificationMessage) => {
+    act(() => {
+      mockNotificationHandler?.(message);
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockNotificationHandler = null;
+    queryClient = new QueryClient();
+    useBlockStore.setState({ blockedUsers: [] });
+    setAppState('active');
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('updates the like count of the photo in cached feeds', () => {
+    queryClient.setQueryData<InfiniteData<PhotoListResponse>>(['photos', {}], {
+      pages: [createPage([createPhoto('p1'), createPhoto('p2')])],
+      pageParams: [1],
+    });
+    renderLiveSocialUpdates();
+
+    receive(likeMessage);
+
+    const feed = queryClient.getQueryData<InfiniteData<PhotoListResponse>>(['photos', {}]);
+    expect(feed?.pages[0].data.map((photo) => photo.likeCount)).toEqual([5, 1]);
+  });
+
+  it('updates the comment count of the photo on the profile and detail', () => {
+    queryClient.setQueryData(['myPhotos'], createPage([createPhoto('p1')]));
+    queryClient.setQueryData(['photo', 'p1'], createPhoto('p1'));
+    renderLiveSocialUpdates();
+
+    receive(commentMessage);
+
+    const myPhotos = queryClient.getQueryData<PhotoListResponse>(['myPhotos']);
+    expect(myPhotos?.data[0].commentCount).toBe(3);
+    expect(queryClient.getQueryData<Photo>(['photo', 'p1'])?.commentCount).toBe(3);
+  });
+
+  it('exposes a like on the own photo as activity', () => {
+    const { result } = renderLiveSocialUpdates();
+
+    receive(likeMessage);
+
+    expect(result.current.activity).toEqual({
+      id: 1,
+      type: 'like',
+      photoId: 'p1',
+      userName: 'Taro',
+    });
+  });
+
+  it('exposes a comment with its content and a new id', () => {
+    const { result } = renderLiveSocialUpdates();
+
+    receive(likeMessage);
+    receive(commentMessage);
+
+    expect(result.current.activity).toEqual({
+      id: 2,
+      type: 'comment',
+      photoId: 'p1',
+      userName: 'Hanako',
+      content: 'Beautiful!',
+    });
+  });
+
+  it('clears the activity on dismiss', () => {
+    const { result } = renderLiveSocialUpdates();
+    receive(likeMessage);
+
+    act(() => {
+      result.current.dismissActivity();
+    });
+
+    expect(result.current.activity).toBeNull();
+  });
+
+  it('skips activity from blocked users but still updates counts', () => {
+    useBlockStore.setState({
+      blockedUsers: [{ id: 'u1', displayName: 'Taro', blockedAt: '2026-10-19T00:00:00Z' }],
+    });
+    queryClient.setQueryData(['photo', 'p1'], createPhoto('p1'));
+    const { result } = renderLiveSocialUpdates();
+
+    receive(likeMessage);
+
+    expect(result.current.activity).toBeNull();
+    expect(queryClient.getQueryData<Photo>(['photo', 'p1'])?.likeCount).toBe(5);
+  });
+
+  it('shows no activity while the app is in the background', () => {
+    setAppState('background');
+    const { result } = renderLiveSocialUpdates();
+
+    receive(likeMessage);
+
+    expect(result.current.activity).toBeNull();
+  });
+
+  it('ignores rainbow alerts', () => {
+    const { result } = renderLiveSocialUpdates();
+
+    receive({ type: 'rainbow_alert' });
+
+    expect(result.current.activity).toBeNull();
+  });
+
+  it('unsubscribes on unmount', () => {
+    const { unmount } = renderLiveSocialUpdates();
+
+    unmount();
+
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+});
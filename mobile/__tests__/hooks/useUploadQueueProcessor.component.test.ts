@@ -17,7 +17,10 @@ jest.mock('../../src/hooks/useNetworkState', () => ({
 }));
 
 jest.mock('../../src/services/photoService', () => ({
-  uploadPhoto: jest.fn(() => Promise.resolve({ id: 'photo-1' })),
+  uploadPhotoResumable: jest.fn(() => Promise.resolve({ id: 'photo-1' })),
+  isUploadCanceled: jest.fn((error: any) => error?.name === 'CanceledError'),
+  classifyUploadError: jest.fn((error: any) => (error?.status === 422 ? 'validation' : 'network')),
+  getUploadErrorMessage: jest.fn((error: any) => error.message),
   prepareUploadRequest: jest.fn((photo: any, metadata: any) => ({
     image: { uri: photo.uri, type: 'image/jpeg', name: 'test.jpg' },
     metadata,
@@ -26,9 +29,13 @@ jest.mock('../../src/services/photoService', () => ({
 
 const mockGetNextPending: jest.Mock<unknown, []> = jest.fn(() => null);
 const mockUpdateStatus = jest.fn();
-const mockIncrementRetryCount = jest.fn();
+const mockRecordFailure = jest.fn();
+const mockRetryUpload = jest.fn();
 const mockSetProcessing = jest.fn();
 const mockClearCompleted = jest.fn();
+const mockSetUploadProgress = jest.fn();
+const mockSetCheckpoint = jest.fn();
+const mockRequeue = jest.fn();
 
 jest.mock('../../src/store/uploadQueueStore', () => ({
   useUploadQueueStore: jest.fn(() => ({
@@ -36,7 +43,11 @@ jest.mock('../../src/store/uploadQueueStore', () => ({
     isProcessing: false,
     getNextPending: mockGetNextPending,
     updateStatus: mockUpdateStatus,
-    incrementRetryCount: mockIncrementRetryCount,
+    recordFailure: mockRecordFailure,
+    retryUpload: mockRetryUpload,
+    setUploadProgress: mockSetUploadProgress,
+    setCheckpoint: mockSetCheckpoint,
+    requeue: mockRequeue,
     setProcessing: mockSetProcessing,
     clearCompleted: mockClearCompleted,
   })),
@@ -44,10 +55,10 @@ jest.mock('../../src/store/uploadQueueStore', () => ({
 
 import { useNetworkState } from '../../src/hooks/useNetworkState';
 import { useUploadQueueProcessor } from '../../src/hooks/useUploadQueueProcessor';
-import { uploadPhoto } from '../../src/services/photoService';
+import { uploadPhotoResumable } from '../../src/services/photoService';
 import { useUploadQueueStore } from '../../src/store/uploadQueueStore';
 
-const mockedUploadPhoto = jest.mocked(uploadPhoto);
+const mockedUploadPhoto = jest.mocked(uploadPhotoResumable);
 
 describe('useUploadQueueProcessor hook', () => {
   beforeEach(() => {
@@ -74,6 +85,8 @@ describe('useUploadQueueProcessor hook', () => {
     expect(result.current).toHaveProperty('processQueue');
     expect(result.current).toHaveProperty('clearCompleted');
     expect(result.current).toHaveProperty('retryFailed');
+    expect(result.current).toHaveProperty('uploadingItems');
+    expect(result.current).toHaveProperty('cancelUpload');
   });
 
   it('has zero counts when queue is empty', () => {
@@ -121,7 +134,11 @@ describe('useUploadQueueProcessor hook', () => {
       isProcessing: false,
       getNextPending: mockGetNextPending,
       updateStatus: mockUpdateStatus,
-      incrementRetryCount: mockIncrementRetryCount,
+      recordFailure: mockRecordFailure,
+      retryUpload: mockRetryUpload,
+      setUploadProgress: mockSetUploadProgress,
+      setCheckpoint: mockSetCheckpoint,
+      requeue: mockRequeue,
       setProcessing: mockSetProcessing,
       clearCompleted: mockClearCompleted,
     } as any);
@@ -140,7 +157,11 @@ describe('useUploadQueueProcessor hook', () => {
       isProcessing: false,
       getNextPending: mockGetNextPending,
       updateStatus: mockUpdateStatus,
-      incrementRetryCount: mockIncrementRetryCount,
+      recordFailure: mockRecordFailure,
+      retryUpload: mockRetryUpload,
+      setUploadProgress: mockSetUploadProgress,
+      setCheckpoint: mockSetCheckpoint,
+      requeue: mockRequeue,
       setProcessing: mockSetProcessing,
       clearCompleted: mockClearCompleted,
     } as any);
@@ -184,7 +205,11 @@ describe('useUploadQueueProcessor hook', () => {
       isProcessing: false,
       getNextPending: mockGetNextPending,
       updateStatus: mockUpdateStatus,
-      incrementRetryCount: mockIncrementRetryCount,
+      recordFailure: mockRecordFailure,
+      retryUpload: mockRetryUpload,
+      setUploadProgress: mockSetUploadProgress,
+      setCheckpoint: mockSetCheckpoint,
+      requeue: mockRequeue,
       setProcessing: mockSetProcessing,
       clearCompleted: mockClearCompleted,
     } as any);
@@ -193,7 +218,7 @@ describe('useUploadQueueProcessor hook', () => {
 
     result.current.retryFailed();
 
-    expect(mockUpdateStatus).toHaveBeenCalledWith('1', 'pending', undefined);
+    expect(mockRetryUpload).toHaveBeenCalledWith('1');
   });
 
   it('calls clearCompleted from store', () => {
@@ -204,7 +229,7 @@ describe('useUploadQueueProcessor hook', () => {
     expect(mockClearCompleted).toHaveBeenCalled();
   });
 
-  it('handles upload failure and increments retry count', async () => {
+  it('records a failed upload with its error class', async () => {
     const pendingItem = {
       id: 'upload-fail',
       status: 'pending',
@@ -220,13 +245,16 @@ describe('useUploadQueueProcessor hook', () => {
 
     mockedUploadPhoto.mockRejectedValueOnce(new Error('Upload failed'));
 
-    // Configure queue to return updated item with retryCount < 3
     (useUploadQueueStore as jest.MockedFunction<typeof useUploadQueueStore>).mockReturnValue({
       queue: [{ ...pendingItem, retryCount: 1 }] as any,
       isProcessing: false,
       getNextPending: mockGetNextPending,
       updateStatus: mockUpdateStatus,
-      incrementRetryCount: mockIncrementRetryCount,
+      recordFailure: mockRecordFailure,
+      retryUpload: mockRetryUpload,
+      setUploadProgress: mockSetUploadProgress,
+      setCheckpoint: mockSetCheckpoint,
+      requeue: mockRequeue,
       setProcessing: mockSetProcessing,
       clearCompleted: mockClearCompleted,
     } as any);
@@ -235,16 +263,17 @@ describe('useUploadQueueProcessor hook', () => {
 
     await jest.advanceTimersByTimeAsync(200);
 
-    expect(mockIncrementRetryCount).toHaveBeenCalledWith('upload-fail');
+    expect(mockRecordFailure).toHaveBeenCalledWith('upload-fail', 'network', 'Upload failed');
+    expect(mockUpdateStatus).not.toHaveBeenCalledWith('upload-fail', 'error', expect.anything());
   });
 
-  it('marks as error when max retries exceeded', async () => {
+  it('records a rejected upload as a validation failure with the server message', async () => {
     const pendingItem = {
-      id: 'upload-max-retry',
+      id: 'upload-rejected',
       status: 'pending',
-      photoUri: 'file://photo-retry.jpg',
+      photoUri: 'file://photo-rejected.jpg',
       metadata: { latitude: 36.1, longitude: 137.9 },
-      retryCount: 2,
+      retryCount: 0,
       createdAt: new Date().toISOString(),
     };
 
@@ -252,15 +281,20 @@ describe('useUploadQueueProcessor hook', () => {
       .mockReturnValueOnce(pendingItem)
       .mockReturnValueOnce(null);
 
-    mockedUploadPhoto.mockRejectedValueOnce(new Error('Upload failed'));
+    mockedUploadPhoto.mockRejectedValueOnce(
+      Object.assign(new Error('Validation failed'), { status: 422 })
+    );
 
-    // Return item with retryCount >= 3 (max exceeded)
     (useUploadQueueStore as jest.MockedFunction<typeof useUploadQueueStore>).mockReturnValue({
-      queue: [{ ...pendingItem, retryCount: 3 }] as any,
+      queue: [pendingItem] as any,
       isProcessing: false,
       getNextPending: mockGetNextPending,
       updateStatus: mockUpdateStatus,
-      incrementRetryCount: mockIncrementRetryCount,
+      recordFailure: mockRecordFailure,
+      retryUpload: mockRetryUpload,
+      setUploadProgress: mockSetUploadProgress,
+      setCheckpoint: mockSetCheckpoint,
+      requeue: mockRequeue,
       setProcessing: mockSetProcessing,
       clearCompleted: mockClearCompleted,
     } as any);
@@ -269,7 +303,108 @@ describe('useUploadQueueProcessor hook', () => {
 
     await jest.advanceTimersByTimeAsync(200);
 
-    expect(mockUpdateStatus).toHaveBeenCalledWith('upload-max-retry', 'error', expect.any(String));
+    expect(mockRecordFailure).toHaveBeenCalledWith(
+      'upload-rejected',
+      'validation',
+      'Validation failed'
+    );
+  });
+
+  it('reports upload progress to the store', async () => {
+    const pendingItem = {
+      id: 'upload-progress',
+      status: 'pending',
+      photoUri: 'file://photo-progress.jpg',
+      metadata: { latitude: 36.1, longitude: 137.9 },
+      retryCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    mockGetNextPending
+      .mockReturnValueOnce(pendingItem)
+      .mockReturnValueOnce(null);
+
+    mockedUploadPhoto.mockImplementationOnce(async (_request, options) => {
+      options?.onProgress?.({ loaded: 50, total: 100, percent: 50 });
+      return { id: 'photo-1' } as any;
+    });
+
+    renderHook(() => useUploadQueueProcessor());
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('upload-progress', 50);
+  });
+
+  it('resumes from the checkpoint and records acknowledged chunks', async () => {
+    const pendingItem = {
+      id: 'upload-resume',
+      status: 'pending',
+      photoUri: 'file://photo-resume.jpg',
+      metadata: { latitude: 36.1, longitude: 137.9 },
+      retryCount: 1,
+      createdAt: new Date().toISOString(),
+      checkpoint: { uploadId: 'server-upload-1', receivedBytes: 262144 },
+    };
+
+    mockGetNextPending
+      .mockReturnValueOnce(pendingItem)
+      .mockReturnValueOnce(null);
+
+    mockedUploadPhoto.mockImplementationOnce(async (_request, options) => {
+      options?.onAcknowledged?.('server-upload-1', 524288);
+      return { id: 'photo-1' } as any;
+    });
+
+    renderHook(() => useUploadQueueProcessor());
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(mockedUploadPhoto).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ uploadId: 'server-upload-1', receivedBytes: 262144 })
+    );
+    expect(mockSetCheckpoint).toHaveBeenCalledWith('upload-resume', {
+      uploadId: 'server-upload-1',
+      receivedBytes: 524288,
+    });
+  });
+
+  it('cancels an in-flight upload and requeues it without a retry', async () => {
+    const pendingItem = {
+      id: 'upload-cancel',
+      status: 'pending',
+      photoUri: 'file://photo-cancel.jpg',
+      metadata: { latitude: 36.1, longitude: 137.9 },
+      retryCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    mockGetNextPending
+      .mockReturnValueOnce(pendingItem)
+      .mockReturnValueOnce(pendingItem);
+
+    mockedUploadPhoto.mockImplementationOnce(
+      (_request, options) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () => {
+            const error = new Error('canceled');
+            error.name = 'CanceledError';
+            reject(error);
+          });
+        })
+    );
+
+    const { result } = renderHook(() => useUploadQueueProcessor());
+    await jest.advanceTimersByTimeAsync(0);
+
+    result.current.cancelUpload('upload-cancel');
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(mockRequeue).toHaveBeenCalledWith('upload-cancel');
+    expect(mockRecordFailure).not.toHaveBeenCalled();
+    // The canceled item waits for the next processing pass
+    expect(mockedUploadPhoto).toHaveBeenCalledTimes(1);
   });
 
   it('cleans up interval on unmount', () => {
@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for deep link configuration
+ *
+ * Tests URL parsing, the path config and auth-gated deferral of links
+ * opened while signed out. Linking and the auth store are mocked.
+ */
+
+jest.mock('../../src/store/authStore', () => ({
+  useAuthStore: { getState: jest.fn() },
+}));
+
+import { Linking } from 'react-native';
+
+import {
+  consumePendingDeepLink,
+  deferIfSignedOut,
+  getPathFromUrl,
+  linking,
+} from '../../src/navigation/linking';
+import { useAuthStore } from '../../src/store/authStore';
+
+const mockedGetAuthState = useAuthStore.getState as jest.Mock;
+
+const signIn = (userId = 'user-1') =>
+  mockedGetAuthState.mockReturnValue({ isAuthenticated: true, user: { id: userId } });
+const signOut = () => mockedGetAuthState.mockReturnValue({ isAuthenticated: false, user: null });
+
+/**
+ * Helper: the leaf route of a navigation state
+ */
+const leafRoute = (path: string) => {
+  let state = linking.getStateFromPath!(path, linking.config);
+  let route = state?.routes[state.routes.length - 1];
+  while (route?.state) {
+    state = route.state as typeof state;
+    route = state?.routes[state.routes.length - 1];
+  }
+  return route;
+};
+
+describe('linking', () => {
+  beforeEach(() => {
+    consumePendingDeepLink();
+    signIn();
+  });
+
+  // -------------------------------------------------------------------
+  // getPathFromUrl
+  // -------------------------------------------------------------------
+  describe('getPathFromUrl', () => {
+    it('should extract the path from the custom scheme', () => {
+      expect(getPathFromUrl('shiojiri-rainbow://photos/42')).toBe('/photos/42');
+    });
+
+    it('should extract the path from universal links', () => {
+      expect(getPathFromUrl('https://shiojiri-rainbow.example.com/verify_email/abc')).toBe(
+        '/verify_email/abc'
+      );
+    });
+
+    it('should ignore other hosts and empty paths', () => {
+      expect(getPathFromUrl('https://shiojiri-rainbow.example.com.evil.test/photos/1')).toBeNull();
+      expect(getPathFromUrl('https://example.org/photos/1')).toBeNull();
+      expect(getPathFromUrl('shiojiri-rainbow://')).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // Path config
+  // -------------------------------------------------------------------
+  describe('getStateFromPath', () => {
+    it('should open PhotoDetail on top of the feed', () => {
+      const state = linking.getStateFromPath!('/photos/42', linking.config);
+      const feedTab = state?.routes[0].state?.routes[0];
+
+      expect(state?.routes[0].name).toBe('Main');
+      expect(feedTab?.name).toBe('FeedTab');
+      expect(feedTab?.state?.routes.map((route) => route.name)).toEqual(['Feed', 'PhotoDetail']);
+      expect(leafRoute('/photos/42')?.params).toEqual({ photoId: '42' });
+    });
+
+    it('should open MomentDetail on top of the map', () => {
+      const state = linking.getStateFromPath!('/moments/7', linking.config);
+      const mapTab = state?.routes[0].state?.routes[0];
+
+      expect(state?.routes[0].name).toBe('Main');
+      expect(mapTab?.name).toBe('MapTab');
+      expect(mapTab?.state?.routes.map((route) => route.name)).toEqual(['Map', 'MomentDetail']);
+      expect(leafRoute('/moments/7')?.params).toEqual({ momentId: '7' });
+    });
+
+    it('should open VerifyEmail with the token', () => {
+      expect(leafRoute('/verify_email/abc123')).toMatchObject({
+        name: 'VerifyEmail',
+        params: { token: 'abc123' },
+      });
+    });
+
+    it('should open ResetPassword with the token from the query string', () => {
+      const state = linking.getStateFromPath!('/password/reset?token=xyz', linking.config);
+
+      expect(state?.routes[0].name).toBe('Auth');
+      expect(state?.routes[0].state?.routes.map((route) => route.name)).toEqual([
+        'Login',
+        'ResetPassword',
+      ]);
+      expect(leafRoute('/password/reset?token=xyz')?.params).toEqual({ token: 'xyz' });
+    });
+
+    it("should open the signed-in user's own profile", () => {
+      expect(leafRoute('/users/user-1')?.name).toBe('Profile');
+    });
+
+    it("should open other users' profiles on top of the feed", () => {
+      const state = linking.getStateFromPath!('/users/someone-else', linking.config);
+      const feedTab = state?.routes[0].state?.routes[0];
+
+      expect(feedTab?.state?.routes.map((route) => route.name)).toEqual(['Feed', 'UserProfile']);
+      expect(leafRoute('/users/someone-else')?.params).toEqual({ userId: 'someone-else' });
+    });
+
+    it('should ignore unknown paths', () => {
+      expect(linking.getStateFromPath!('/unknown/path', linking.config)).toBeUndefined();
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // Auth-gated deferral
+  // -------------------------------------------------------------------
+  describe('deferral', () => {
+    it('should defer links into the app while signed out', () => {
+      signOut();
+
+      expect(deferIfSignedOut('shiojiri-rainbow://photos/42')).toBe(true);
+      expect(consumePendingDeepLink()).toBe('/photos/42');
+      expect(consumePendingDeepLink()).toBeNull();
+    });
+
+    it('should not defer public links or signed-in users', () => {
+      signOut();
+      expect(deferIfSignedOut('shiojiri-rainbow://verify_email/abc')).toBe(false);
+      expect(deferIfSignedOut('shiojiri-rainbow://password/reset?token=xyz')).toBe(false);
+
+      signIn();
+      expect(deferIfSignedOut('shiojiri-rainbow://photos/42')).toBe(false);
+      expect(consumePendingDeepLink()).toBeNull();
+    });
+
+    it('should hold back the initial URL while signed out', async () => {
+      signOut();
+      jest.spyOn(Linking, 'getInitialURL').mockResolvedValue('shiojiri-rainbow://photos/7');
+
+      await expect(linking.getInitialURL!()).resolves.toBeNull();
+      expect(consumePendingDeepLink()).toBe('/photos/7');
+    });
+
+    it('should only forward incoming URLs that are not deferred', () => {
+      const remove = jest.fn();
+      let onUrl: (event: { url: string }) => void = () => {};
+      jest.spyOn(Linking, 'addEventListener').mockImplementation(((
+        _: string,
+        handler: typeof onUrl
+      ) => {
+        onUrl = handler;
+        return { remove };
+      }) as never);
+      const listener = jest.fn();
+
+      const unsubscribe = linking.subscribe!(listener);
+      onUrl({ url: 'shiojiri-rainbow://photos/1' });
+      signOut();
+      onUrl({ url: 'shiojiri-rainbow://photos/2' });
+      unsubscribe?.();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('shiojiri-rainbow://photos/1');
+      expect(consumePendingDeepLink()).toBe('/photos/2');
+      expect(remove).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Unit Tests for adminService
+ *
+ * Tests the admin moderation API calls and snake_case → camelCase
+ * normalisation. apiClient is mocked.
+ */
+
+// Mock apiClient
+jest.mock('../../src/services/apiClient', () => ({
+  apiClient: {
+    get: jest.fn(),
+    post: jest.fn(),
+  },
+}));
+
+import { getReports, getReport, processReport } from '../../src/services/adminService';
+import { apiClient } from '../../src/services/apiClient';
+
+const mockedApiClient = jest.mocked(apiClient);
+
+const rawReport = {
+  id: 'report-1',
+  reason: 'spam',
+  status: 'pending',
+  admin_note: null,
+  reporter: { id: 'user-1', display_name: 'Reporter', email: 'reporter@example.com' },
+  reportable: { id: 'photo-1', type: 'Photo', preview: 'Double rainbow' },
+  content_owner: { id: 'user-2', display_name: 'Owner', violation_flagged: false },
+  resolved_by: null,
+  created_at: '2026-10-01T09:00:00Z',
+  updated_at: '2026-10-01T09:00:00Z',
+};
+
+const rawReportDetail = {
+  ...rawReport,
+  reportable: {
+    id: 'photo-1',
+    type: 'Photo',
+    created_at: '2026-09-30T17:00:00Z',
+    title: 'Double rainbow',
+    description: 'Over Daimon',
+    moderation_status: 'approved',
+    is_visible: true,
+    image_url: 'https://example.com/thumb.jpg',
+    like_count: 3,
+    comment_count: 1,
+  },
+  content_owner: {
+    id: 'user-2',
+    display_name: 'Owner',
+    email: 'owner@example.com',
+    violation_flagged: true,
+    violation_count: 3,
+    photo_count: 12,
+    total_reports_against: 5,
+  },
+  related_reports: [
+    { id: 'report-2', status: 'pending', reason: 'copyright', created_at: '2026-10-02T09:00:00Z' },
+  ],
+};
+
+describe('adminService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // -------------------------------------------------------------------
+  // getReports
+  // -------------------------------------------------------------------
+  describe('getReports', () => {
+    it('fetches pending reports and transforms the response', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({
+        data: {
+          data: {
+            reports: [rawReport],
+            pagination: { current_page: 1, total_pages: 2, total_count: 21, per_page: 20 },
+            stats: { pending_count: 21, resolved_count: 4, dismissed_count: 2 },
+          },
+        },
+      });
+
+      const result = await getReports({ status: 'pending' });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/admin/reports', {
+        params: { page: 1, per_page: 20, status: 'pending' },
+      });
+      expect(result.reports).toEqual([
+        {
+          id: 'report-1',
+          reason: 'spam',
+          status: 'pending',
+          adminNote: null,
+          reporter: { id: 'user-1', displayName: 'Reporter' },
+          reportable: { id: 'photo-1', type: 'Photo', preview: 'Double rainbow' },
+          contentOwner: { id: 'user-2', displayName: 'Owner', violationFlagged: false },
+          createdAt: '2026-10-01T09:00:00Z',
+        },
+      ]);
+      expect(result.pagination).toEqual({
+        currentPage: 1,
+        totalPages: 2,
+        totalCount: 21,
+        perPage: 20,
+      });
+      expect(result.stats).toEqual({ pendingCount: 21, resolvedCount: 4, dismissedCount: 2 });
+    });
+
+    it('passes content type and paging filters', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({ data: { data: { reports: [] } } });
+
+      await getReports({ reportableType: 'Comment', page: 3, perPage: 50 });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/admin/reports', {
+        params: { page: 3, per_page: 50, reportable_type: 'Comment' },
+      });
+    });
+
+    it('handles reports whose content was removed', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({
+        data: {
+          data: { reports: [{ ...rawReport, reportable: null, content_owner: null }] },
+        },
+      });
+
+      const result = await getReports();
+
+      expect(result.reports[0].reportable).toBeNull();
+      expect(result.reports[0].contentOwner).toBeNull();
+      expect(result.stats.pendingCount).toBe(0);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // getReport
+  // -------------------------------------------------------------------
+  describe('getReport', () => {
+    it('fetches the report with the reported content and owner history', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({
+        data: { data: { report: rawReportDetail } },
+      });
+
+      const report = await getReport('report-1');
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/admin/reports/report-1');
+      expect(report.reportable).toEqual({
+        id: 'photo-1',
+        type: 'Photo',
+        title: 'Double rainbow',
+        description: 'Over Daimon',
+        content: undefined,
+        imageUrl: 'https://example.com/thumb.jpg',
+        moderationStatus: 'approved',
+        isVisible: true,
+        photoId: undefined,
+      });
+      expect(report.contentOwner).toEqual({
+        id: 'user-2',
+        displayName: 'Owner',
+        violationFlagged: true,
+        violationCount: 3,
+        totalReportsAgainst: 5,
+      });
+      expect(report.relatedReports).toEqual([
+        {
+          id: 'report-2',
+          status: 'pending',
+          reason: 'copyright',
+          createdAt: '2026-10-02T09:00:00Z',
+        },
+      ]);
+    });
+
+    it('transforms reported comments', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({
+        data: {
+          data: {
+            report: {
+              ...rawReportDetail,
+              reportable: {
+                id: 'comment-1',
+                type: 'Comment',
+                content: 'Buy now!',
+                is_visible: true,
+                photo_id: 'photo-1',
+              },
+            },
+          },
+        },
+      });
+
+      const report = await getReport('report-1');
+
+      expect(report.reportable).toMatchObject({
+        id: 'comment-1',
+        type: 'Comment',
+        content: 'Buy now!',
+        photoId: 'photo-1',
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // processReport
+  // -------------------------------------------------------------------
+  describe('processReport', () => {
+    it('posts the moderation action and returns the processed report', async () => {
+      mockedApiClient.post.mockResolvedValueOnce({
+        data: {
+          data: {
+            report: { ...rawReportDetail, status: 'resolved' },
+            message: 'Content hidden',
+            user_flagged: true,
+          },
+        },
+      });
+
+      const result = await processReport('report-1', 'hide', 'Spam link');
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/admin/reports/report-1/process', {
+        moderation_action: 'hide',
+        admin_note: 'Spam link',
+      });
+      expect(result.report.status).toBe('resolved');
+      expect(result.message).toBe('Content hidden');
+      expect(result.userFlagged).toBe(true);
+    });
+
+    it('omits an empty admin note', async () => {
+      mockedApiClient.post.mockResolvedValueOnce({
+        data: { data: { report: { ...rawReportDetail, status: 'dismissed' } } },
+      });
+
+      const result = await processReport('report-1', 'approve');
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/admin/reports/report-1/process', {
+        moderation_action: 'approve',
+      });
+      expect(result.userFlagged).toBe(false);
+    });
+
+    it('propagates API errors', async () => {
+      mockedApiClient.post.mockRejectedValueOnce(new Error('Forbidden'));
+
+      await expect(processReport('report-1', 'delete')).rejects.toThrow('Forbidden');
+    });
+  });
+});
@@ -39,6 +39,7 @@ jest.mock('axios', () => {
     default: {
       create: jest.fn(() => mockInstance),
       post: jest.fn(),
+      isCancel: jest.fn((value: any) => value?.code === 'ERR_CANCELED'),
     },
     AxiosError: class extends Error {
       response: any;
@@ -72,7 +73,14 @@ jest.mock('../../src/services/tokenStorage', () => ({
   isAccessTokenExpired: jest.fn(() => Promise.resolve(false)),
 }));
 
-import { createApiClient, isAuthError, getErrorMessage, getErrorCode } from '../../src/services/apiClient';
+import {
+  createApiClient,
+  isAuthError,
+  getErrorMessage,
+  getErrorCode,
+  getErrorStatus,
+  isNetworkError,
+} from '../../src/services/apiClient';
 import * as tokenStorage from '../../src/services/tokenStorage';
 
 const mockedTokenStorage = jest.mocked(tokenStorage);
@@ -238,6 +246,61 @@ describe('apiClient', () => {
     });
   });
 
+  describe('getErrorStatus', () => {
+    it('should return the response status of an AxiosError', () => {
+      const error = new AxiosError('Unprocessable', '422', undefined, undefined, {
+        status: 422,
+        data: {},
+        headers: {},
+        statusText: 'Unprocessable Entity',
+        config: {} as any,
+      } as any);
+      expect(getErrorStatus(error)).toBe(422);
+    });
+
+    it('should return the status of a normalized error', () => {
+      const error = Object.assign(new Error('test'), { status: 503 });
+      expect(getErrorStatus(error)).toBe(503);
+    });
+
+    it('should return undefined when no response was received', () => {
+      expect(getErrorStatus(new AxiosError('Network Error'))).toBeUndefined();
+      expect(getErrorStatus(new Error('Network error'))).toBeUndefined();
+      expect(getErrorStatus(null)).toBeUndefined();
+    });
+  });
+
+  describe('isNetworkError', () => {
+    it.each(['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT'])(
+      'should detect an AxiosError with code %s and no response',
+      (code) => {
+        expect(isNetworkError(new AxiosError('Network Error', code))).toBe(true);
+      }
+    );
+
+    it('should detect normalized network errors', () => {
+      const error = Object.assign(new Error('Network error'), { isNetworkError: true });
+      expect(isNetworkError(error)).toBe(true);
+    });
+
+    it('should return false for requests that got a response', () => {
+      const error = new AxiosError('Server Error', 'ERR_BAD_RESPONSE', undefined, undefined, {
+        status: 503,
+        data: {},
+        headers: {},
+        statusText: 'Service Unavailable',
+        config: {} as any,
+      } as any);
+      expect(isNetworkError(error)).toBe(false);
+    });
+
+    it('should return false for other errors', () => {
+      expect(isNetworkError(new AxiosError('canceled', 'ERR_CANCELED'))).toBe(false);
+      expect(isNetworkError(new Error('File not found'))).toBe(false);
+      expect(isNetworkError(null)).toBe(false);
+    });
+  });
+
   // -------------------------------------------------------------------
   // Response interceptor - 401 handling
   // -------------------------------------------------------------------
@@ -328,9 +391,20 @@ describe('apiClient', () => {
         await responseRejected(error);
       } catch (e: any) {
         expect(e.message).toBe('Request timed out. Please check your connection.');
+        expect(isNetworkError(e)).toBe(true);
       }
     });
 
+    it('should pass through canceled requests unchanged', async () => {
+      const client = createApiClient() as any;
+      const responseRejected = client._responseInterceptors[0].rejected;
+
+      const error = new AxiosError('canceled', 'ERR_CANCELED');
+      error.config = { url: '/photos', headers: {} } as any;
+
+      await expect(responseRejected(error)).rejects.toBe(error);
+    });
+
     it('should normalize network error (no response)', async () => {
       const client = createApiClient() as any;
       const responseRejected = client._responseInterceptors[0].rejected;
@@ -343,6 +417,7 @@ describe('apiClient', () => {
         await responseRejected(error);
       } catch (e: any) {
         expect(e.message).toBe('Network error. Please check your internet connection.');
+        expect(isNetworkError(e)).toBe(true);
       }
     });
 
@@ -371,6 +446,7 @@ describe('apiClient', () => {
         expect(e.message).toBe('Validation failed');
         expect(e.code).toBe(1001);
         expect(e.details).toEqual({ field: 'email' });
+        expect(e.status).toBe(400);
       }
     });
 
@@ -413,6 +489,7 @@ describe('apiClient', () => {
         await responseRejected(error);
       } catch (e: any) {
         expect(e.message).toBe('Something broke');
+        expect(e.status).toBe(422);
       }
     });
   });
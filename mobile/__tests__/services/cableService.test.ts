@@ -1,25 +1,53 @@
 /**
  * Unit Tests for cableService
  *
- * Tests WebSocket (ActionCable) connection, subscription, and disconnection.
+ * Tests WebSocket (ActionCable) connection, subscription, and disconnection,
+ * plus reconnection with a fresh token and backoff.
  * @rails/actioncable is already mocked in setup.ts.
  */
 
 import { createConsumer } from '@rails/actioncable';
 
-// Mock tokenStorage
+// Mock tokenStorage, keeping the access token listener for tests
+let mockTokenListener: ((token: string) => void) | null = null;
 jest.mock('../../src/services/tokenStorage', () => ({
   getAccessToken: jest.fn(() => Promise.resolve('test-token')),
+  addAccessTokenListener: jest.fn((listener: (token: string) => void) => {
+    mockTokenListener = listener;
+    return () => {
+      mockTokenListener = null;
+    };
+  }),
 }));
 
 import {
   connectCable,
   disconnectCable,
+  reconnectCable,
+  getCableConnectionState,
+  addCableConnectionListener,
   subscribeToPhotoFeed,
   subscribeToNotifications,
+  subscribeToRainbowMoment,
+  joinRainbowMoment,
+  leaveRainbowMoment,
 } from '../../src/services/cableService';
+import { getAccessToken } from '../../src/services/tokenStorage';
+
+import type { SubscriptionCallbacks } from '@rails/actioncable';
 
 const mockedCreateConsumer = jest.mocked(createConsumer);
+const mockedGetAccessToken = jest.mocked(getAccessToken);
+
+/** Consumer created by the nth createConsumer call */
+const getConsumer = (index = 0) => mockedCreateConsumer.mock.results[index].value;
+
+/** Callbacks passed to the nth subscriptions.create call of a consumer */
+const getCallbacks = (consumer: ReturnType<typeof getConsumer>, index = 0) =>
+  consumer.subscriptions.create.mock.calls[index][1] as SubscriptionCallbacks;
+
+/** Let pending promises (token reads) settle */
+const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
 
 describe('cableService', () => {
   beforeEach(() => {
@@ -117,4 +145,242 @@ describe('cableService', () => {
       expect(typeof unsubscribe).toBe('function');
     });
   });
+
+  describe('subscribeToRainbowMoment', () => {
+    it('should subscribe to RainbowMomentChannel for the moment', async () => {
+      await connectCable();
+      const consumer = mockedCreateConsumer.mock.results[0].value;
+
+      subscribeToRainbowMoment('moment-1', jest.fn());
+
+      expect(consumer.subscriptions.create).toHaveBeenCalledWith(
+        { channel: 'RainbowMomentChannel', moment_id: 'moment-1' },
+        expect.objectContaining({ received: expect.any(Function) })
+      );
+    });
+  });
+
+  describe('joinRainbowMoment', () => {
+    it('should perform join with the location proof', async () => {
+      await connectCable();
+      const consumer = mockedCreateConsumer.mock.results[0].value;
+      subscribeToRainbowMoment('moment-1', jest.fn());
+      const subscription = consumer.subscriptions.create.mock.results[0].value;
+
+      joinRainbowMoment('moment-1', { latitude: 36.115, longitude: 137.954 });
+
+      expect(subscription.perform).toHaveBeenCalledWith('join', {
+        latitude: 36.115,
+        longitude: 137.954,
+      });
+    });
+
+    it('should not throw when not subscribed', () => {
+      expect(() =>
+        joinRainbowMoment('moment-1', { latitude: 36.115, longitude: 137.954 })
+      ).not.toThrow();
+    });
+  });
+
+  describe('leaveRainbowMoment', () => {
+    it('should perform leave on the subscription', async () => {
+      await connectCable();
+      const consumer = mockedCreateConsumer.mock.results[0].value;
+      subscribeToRainbowMoment('moment-1', jest.fn());
+      const subscription = consumer.subscriptions.create.mock.results[0].value;
+
+      leaveRainbowMoment('moment-1');
+
+      expect(subscription.perform).toHaveBeenCalledWith('leave');
+    });
+
+    it('should not perform after unsubscribing', async () => {
+      await connectCable();
+      const consumer = mockedCreateConsumer.mock.results[0].value;
+      const unsubscribe = subscribeToRainbowMoment('moment-1', jest.fn());
+      const subscription = consumer.subscriptions.create.mock.results[0].value;
+
+      unsubscribe();
+      leaveRainbowMoment('moment-1');
+
+      expect(subscription.perform).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shared subscriptions', () => {
+    it('should share one subscription between handlers of the same channel', async () => {
+      await connectCable();
+      const consumer = getConsumer();
+      const first = jest.fn();
+      const second = jest.fn();
+
+      subscribeToRainbowMoment('moment-1', first);
+      subscribeToRainbowMoment('moment-1', second);
+      getCallbacks(consumer).received?.({ type: 'participant_count', participant_count: 3 });
+
+      expect(consumer.subscriptions.create).toHaveBeenCalledTimes(1);
+      expect(first).toHaveBeenCalledWith({ type: 'participant_count', participant_count: 3 });
+      expect(second).toHaveBeenCalledWith({ type: 'participant_count', participant_count: 3 });
+    });
+
+    it('should keep separate subscriptions for different moments', async () => {
+      await connectCable();
+      const consumer = getConsumer();
+
+      subscribeToRainbowMoment('moment-1', jest.fn());
+      subscribeToRainbowMoment('moment-2', jest.fn());
+
+      expect(consumer.subscriptions.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should unsubscribe only when the last handler is removed', async () => {
+      await connectCable();
+      const consumer = getConsumer();
+      const unsubscribeFirst = subscribeToPhotoFeed(jest.fn());
+      const unsubscribeSecond = subscribeToPhotoFeed(jest.fn());
+      const subscription = consumer.subscriptions.create.mock.results[0].value;
+
+      unsubscribeFirst();
+      expect(subscription.unsubscribe).not.toHaveBeenCalled();
+
+      unsubscribeSecond();
+      expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create subscriptions registered before connecting', async () => {
+      subscribeToNotifications(jest.fn());
+
+      await connectCable();
+
+      expect(getConsumer().subscriptions.create).toHaveBeenCalledWith(
+        'NotificationsChannel',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should reconnect with the new token and resubscribe after a token refresh', async () => {
+      await connectCable();
+      subscribeToRainbowMoment('moment-1', jest.fn());
+      subscribeToPhotoFeed(jest.fn());
+      mockedGetAccessToken.mockResolvedValueOnce('fresh-token');
+
+      mockTokenListener?.('fresh-token');
+      await flushPromises();
+
+      expect(getConsumer(0).disconnect).toHaveBeenCalled();
+      expect(mockedCreateConsumer).toHaveBeenLastCalledWith(
+        expect.stringContaining('token=fresh-token')
+      );
+      const newConsumer = getConsumer(1);
+      expect(newConsumer.subscriptions.create).toHaveBeenCalledWith(
+        { channel: 'RainbowMomentChannel', moment_id: 'moment-1' },
+        expect.any(Object)
+      );
+      expect(newConsumer.subscriptions.create).toHaveBeenCalledWith(
+        'PhotoFeedChannel',
+        expect.any(Object)
+      );
+    });
+
+    it('should deliver messages from the new subscription after reconnecting', async () => {
+      await connectCable();
+      const handler = jest.fn();
+      subscribeToRainbowMoment('moment-1', handler);
+
+      await reconnectCable();
+      getCallbacks(getConsumer(1)).received?.({ type: 'initial_state' });
+
+      expect(handler).toHaveBeenCalledWith({ type: 'initial_state' });
+    });
+
+    it('should ignore token changes while disconnected', async () => {
+      await connectCable();
+      disconnectCable();
+
+      mockTokenListener?.('fresh-token');
+      await flushPromises();
+
+      expect(mockedCreateConsumer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should back off when the server closes the connection', async () => {
+      jest.useFakeTimers();
+      try {
+        await connectCable();
+        subscribeToPhotoFeed(jest.fn());
+
+        getCallbacks(getConsumer(0)).disconnected?.({ willAttemptReconnect: false });
+        expect(getCableConnectionState()).toBe('reconnecting');
+
+        jest.advanceTimersByTime(999);
+        expect(mockedCreateConsumer).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(1);
+        await flushPromises();
+        expect(mockedCreateConsumer).toHaveBeenCalledTimes(2);
+
+        // Second failure waits twice as long
+        getCallbacks(getConsumer(1)).disconnected?.({ willAttemptReconnect: false });
+        jest.advanceTimersByTime(1999);
+        expect(mockedCreateConsumer).toHaveBeenCalledTimes(2);
+
+        jest.advanceTimersByTime(1);
+        await flushPromises();
+        expect(mockedCreateConsumer).toHaveBeenCalledTimes(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should leave retries to ActionCable when it will reconnect itself', async () => {
+      await connectCable();
+      subscribeToPhotoFeed(jest.fn());
+
+      getCallbacks(getConsumer()).disconnected?.({ willAttemptReconnect: true });
+      await flushPromises();
+
+      expect(getCableConnectionState()).toBe('reconnecting');
+      expect(mockedCreateConsumer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('connection state', () => {
+    it('should report connected once a channel is confirmed', async () => {
+      const listener = jest.fn();
+      const removeListener = addCableConnectionListener(listener);
+
+      await connectCable();
+      subscribeToPhotoFeed(jest.fn());
+      expect(getCableConnectionState()).toBe('connecting');
+
+      getCallbacks(getConsumer()).connected?.();
+
+      expect(getCableConnectionState()).toBe('connected');
+      expect(listener).toHaveBeenLastCalledWith('connected');
+      removeListener();
+    });
+
+    it('should report disconnected after disconnecting', async () => {
+      await connectCable();
+      subscribeToPhotoFeed(jest.fn());
+      getCallbacks(getConsumer()).connected?.();
+
+      disconnectCable();
+
+      expect(getCableConnectionState()).toBe('disconnected');
+    });
+
+    it('should ignore callbacks from a replaced consumer', async () => {
+      await connectCable();
+      subscribeToPhotoFeed(jest.fn());
+      const oldCallbacks = getCallbacks(getConsumer(0));
+
+      await reconnectCable();
+      oldCallbacks.disconnected?.({ willAttemptReconnect: false });
+
+      expect(getCableConnectionState()).toBe('connecting');
+    });
+  });
 });
@@ -25,6 +25,7 @@ import { apiClient } from '../../src/services/apiClient';
 import {
   getMarkers,
   getCachedMarkers,
+  addMarkersToCache,
   isMarkerCacheValid,
   clearMarkerCache,
   filterMarkersByBounds,
@@ -169,6 +170,48 @@ describe('mapService', () => {
     });
   });
 
+  // -------------------------------------------------------------------
+  // addMarkersToCache
+  // -------------------------------------------------------------------
+  describe('addMarkersToCache', () => {
+    it('should merge live markers into the cache without the live flag', async () => {
+      const [existing, updated] = createMockMarkers();
+      mockedAsyncStorage.getItem.mockResolvedValue(JSON.stringify([existing]));
+
+      await addMarkersToCache([{ ...updated, isLive: true }]);
+
+      expect(mockedAsyncStorage.setItem).toHaveBeenCalledWith(
+        'map_markers_cache',
+        JSON.stringify([existing, updated])
+      );
+    });
+
+    it('should keep every marker when writes overlap', async () => {
+      const storage: Record<string, string> = {};
+      mockedAsyncStorage.getItem.mockImplementation(async (key) => storage[key] ?? null);
+      mockedAsyncStorage.setItem.mockImplementation(async (key, value) => {
+        storage[key] = value;
+      });
+      const [first, second] = createMockMarkers();
+
+      await Promise.all([addMarkersToCache([first]), addMarkersToCache([second])]);
+
+      expect(JSON.parse(storage.map_markers_cache)).toEqual([first, second]);
+    });
+
+    it('should not refresh the cache timestamp', async () => {
+      mockedAsyncStorage.getItem.mockResolvedValue(null);
+
+      await addMarkersToCache(createMockMarkers());
+
+      expect(mockedAsyncStorage.setItem).toHaveBeenCalledTimes(1);
+      expect(mockedAsyncStorage.setItem).not.toHaveBeenCalledWith(
+        'map_markers_timestamp',
+        expect.any(String)
+      );
+    });
+  });
+
   // -------------------------------------------------------------------
   // clearMarkerCache
   // -------------------------------------------------------------------
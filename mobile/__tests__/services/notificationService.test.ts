@@ -29,6 +29,7 @@ jest.mock('expo-notifications', () => ({
   addNotificationReceivedListener: jest.fn(),
   addNotificationResponseReceivedListener: jest.fn(),
   getLastNotificationResponseAsync: jest.fn(),
+  clearLastNotificationResponse: jest.fn(),
   getBadgeCountAsync: jest.fn(),
   setBadgeCountAsync: jest.fn(),
   dismissAllNotificationsAsync: jest.fn(),
@@ -62,6 +63,7 @@ import {
   cancelAllScheduledNotifications,
   clearAllNotifications,
   getLastNotificationResponse,
+  clearLastNotificationResponse,
 } from '../../src/services/notificationService';
 
 const mockedApiClient = jest.mocked(apiClient);
@@ -245,6 +247,7 @@ describe('notificationService', () => {
       const result = await getNotificationSettings();
 
       expect(result).toEqual({
+        pushEnabled: true,
         rainbowAlerts: true,
         likes: false,
         comments: true,
@@ -294,6 +297,34 @@ describe('notificationService', () => {
       expect(result.rainbowAlerts).toBe(false);
       expect(result.alertRadiusKm).toBe(5);
     });
+
+    it('should send the push switch and read it back from camelCase keys', async () => {
+      mockedApiClient.put.mockResolvedValue({
+        data: {
+          data: {
+            settings: {
+              pushEnabled: false,
+              rainbowAlerts: true,
+              likes: true,
+              comments: true,
+              system: true,
+              alertRadiusKm: 10,
+              quietHoursStart: null,
+              quietHoursEnd: null,
+              timezone: 'Asia/Tokyo',
+            },
+          },
+        },
+      });
+
+      const result = await updateNotificationSettings({ pushEnabled: false });
+
+      expect(mockedApiClient.put).toHaveBeenCalledWith('/notifications/settings', {
+        push_enabled: false,
+      });
+      expect(result.pushEnabled).toBe(false);
+      expect(result.rainbowAlerts).toBe(true);
+    });
   });
 
   // -------------------------------------------------------------------
@@ -485,4 +516,12 @@ describe('notificationService', () => {
       expect(result).toEqual(mockResponse);
     });
   });
+
+  describe('clearLastNotificationResponse', () => {
+    it('should clear the last response', () => {
+      clearLastNotificationResponse();
+
+      expect(mockedNotifications.clearLastNotificationResponse).toHaveBeenCalled();
+    });
+  });
 });
@@ -62,6 +62,7 @@ jest.mock('expo-location', () => ({
     })
   ),
   watchPositionAsync: jest.fn(() => Promise.resolve({ remove: jest.fn() })),
+  watchHeadingAsync: jest.fn(() => Promise.resolve({ remove: jest.fn() })),
   Accuracy: {
     Lowest: 1,
     Low: 2,
@@ -72,6 +73,72 @@ jest.mock('expo-location', () => ({
   },
 }));
 
+// In-memory files by URI
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('expo-file-system', () => ({
+  File: jest.fn().mockImplementation((uri: string) => {
+    const bytes = mockFiles.get(uri) ?? new Uint8Array(0);
+    return {
+      size: bytes.length,
+      bytes: () => Promise.resolve(bytes),
+      write: (content: Uint8Array) => mockFiles.set(uri, content),
+      delete: () => mockFiles.delete(uri),
+      open: () => {
+        const handle = {
+          offset: 0,
+          readBytes: (length: number) =>
+            bytes.slice(handle.offset, (handle.offset += length)),
+          close: jest.fn(),
+        };
+        return handle;
+      },
+    };
+  }),
+}));
+
+// Decoded dimensions of source images, by URI
+const mockImageSizes = new Map<string, { width: number; height: number }>();
+// Size of a JPEG encode; replaced per test
+let mockEncodedSize = (width: number, height: number, quality: number): number =>
+  Math.round((width * height * quality) / 10);
+// JPEG quality of every encode, in order
+const mockSavedQualities: number[] = [];
+
+jest.mock('expo-image-manipulator', () => {
+  const renderRef = (width: number, height: number) => ({
+    width,
+    height,
+    saveAsync: jest.fn(async ({ compress }: { compress: number }) => {
+      mockSavedQualities.push(compress);
+      const uri = `file:///cache/encoded-${mockSavedQualities.length}.jpg`;
+      const bytes = new Uint8Array(mockEncodedSize(width, height, compress));
+      bytes.set([0xff, 0xd8]);
+      mockFiles.set(uri, bytes);
+      return { uri, width, height };
+    }),
+  });
+
+  return {
+    ImageManipulator: {
+      manipulate: jest.fn((source: string | { width: number; height: number }) => {
+        let size = typeof source === 'string' ? mockImageSizes.get(source)! : source;
+        const context: { resize: jest.Mock; renderAsync: jest.Mock } = {
+          resize: jest.fn(({ width, height }: { width?: number; height?: number }) => {
+            size = width
+              ? { width, height: Math.round((size.height * width) / size.width) }
+              : { width: Math.round((size.width * height!) / size.height), height: height! };
+            return context;
+          }),
+          renderAsync: jest.fn(async () => renderRef(size.width, size.height)),
+        };
+        return context;
+      }),
+    },
+    SaveFormat: { JPEG: 'jpeg', PNG: 'png' },
+  };
+});
+
 jest.mock('../../src/services/apiClient', () => ({
   apiClient: {
     get: jest.fn(),
@@ -79,8 +146,15 @@ jest.mock('../../src/services/apiClient', () => ({
     patch: jest.fn(),
     delete: jest.fn(),
   },
+  getErrorCode: jest.fn((e) => (e instanceof Error && 'code' in e ? e.code : undefined)),
+  getErrorStatus: jest.fn((e) => (e instanceof Error && 'status' in e ? e.status : undefined)),
+  isNetworkError: jest.fn((e) => e?.isNetworkError === true),
+  getErrorMessage: jest.fn((e) =>
+    e instanceof Error ? e.message : 'An unexpected error occurred'
+  ),
 }));
 
+import { CanceledError } from 'axios';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 
@@ -91,6 +165,7 @@ import {
   requestLocationPermission,
   getCurrentLocation,
   watchLocation,
+  watchHeading,
   extractExifData,
   capturePhoto,
   selectFromGallery,
@@ -98,7 +173,13 @@ import {
   getMimeType,
   generateFilename,
   prepareUploadRequest,
+  compressPhoto,
+  CELLULAR_UPLOAD_BYTE_BUDGET,
   uploadPhoto,
+  uploadPhotoResumable,
+  isUploadCanceled,
+  classifyUploadError,
+  getUploadErrorMessage,
   getPhoto,
   getPhotos,
   updatePhoto,
@@ -106,6 +187,8 @@ import {
   getPhotoWeather,
   getMyPhotos,
 } from '../../src/services/photoService';
+import { buildExifSegment } from '../../src/utils/exifWriter';
+import { ChunkedUploadServer } from '../support/chunkedUploadServer';
 
 const mockedApiClient = jest.mocked(apiClient);
 
@@ -217,6 +300,35 @@ describe('photoService', () => {
     });
   });
 
+  describe('watchHeading', () => {
+    const emitHeading = async (heading: { trueHeading: number; magHeading: number }) => {
+      const callback = jest.fn();
+      await watchHeading(callback);
+      const listener = (Location.watchHeadingAsync as jest.Mock).mock.calls[0][0];
+      listener({ ...heading, accuracy: 3 });
+      return callback;
+    };
+
+    it('should report the true heading', async () => {
+      const callback = await emitHeading({ trueHeading: 92.5, magHeading: 85 });
+      expect(callback).toHaveBeenCalledWith(92.5);
+    });
+
+    it('should fall back to the magnetic heading until the true heading is known', async () => {
+      const callback = await emitHeading({ trueHeading: -1, magHeading: 85 });
+      expect(callback).toHaveBeenCalledWith(85);
+    });
+
+    it('should return null when permission denied', async () => {
+      (Location.requestForegroundPermissionsAsync as jest.Mock).mockResolvedValueOnce({
+        status: 'denied',
+      });
+      const result = await watchHeading(jest.fn());
+      expect(result).toBeNull();
+      expect(Location.watchHeadingAsync).not.toHaveBeenCalled();
+    });
+  });
+
   describe('extractExifData', () => {
     it('should return null (stub implementation)', async () => {
       const result = await extractExifData();
@@ -391,6 +503,145 @@ describe('photoService', () => {
   });
 
   // ===== API calls =====
+  describe('compressPhoto', () => {
+    const defaultEncodedSize = mockEncodedSize;
+
+    const addImage = (uri: string, width: number, height: number, byteSize: number) => {
+      mockImageSizes.set(uri, { width, height });
+      mockFiles.set(uri, new Uint8Array(byteSize));
+    };
+
+    beforeEach(() => {
+      mockSavedQualities.length = 0;
+      mockFiles.clear();
+      mockImageSizes.clear();
+      mockEncodedSize = defaultEncodedSize;
+    });
+
+    it('should return a JPEG within both limits untouched', async () => {
+      addImage('file:///small.jpg', 1600, 1200, 500_000);
+
+      const result = await compressPhoto({ uri: 'file:///small.jpg', width: 1600, height: 1200 });
+
+      expect(result).toEqual({
+        uri: 'file:///small.jpg',
+        width: 1600,
+        height: 1200,
+        byteSize: 500_000,
+      });
+      expect(mockSavedQualities).toEqual([]);
+    });
+
+    it('should downscale the longest edge to maxEdge, keeping the aspect ratio', async () => {
+      addImage('file:///portrait.jpg', 3000, 4000, 6_000_000);
+
+      const result = await compressPhoto(
+        { uri: 'file:///portrait.jpg', width: 3000, height: 4000 },
+        { maxEdge: 2000 }
+      );
+
+      expect(result.width).toBe(1500);
+      expect(result.height).toBe(2000);
+      expect(result.uri).toMatch(/^file:\/\/\/cache\/encoded-\d+\.jpg$/);
+      expect(result.byteSize).toBe(mockFiles.get(result.uri)!.length);
+    });
+
+    it('should re-encode HEIC and PNG photos to JPEG', async () => {
+      addImage('file:///rainbow.heic', 1200, 900, 300_000);
+      addImage('file:///rainbow.png', 1200, 900, 300_000);
+
+      const heic = await compressPhoto({ uri: 'file:///rainbow.heic', width: 1200, height: 900 });
+      const png = await compressPhoto({ uri: 'file:///rainbow.png', width: 1200, height: 900 });
+
+      expect(heic.uri).toMatch(/\.jpg$/);
+      expect(png.uri).toMatch(/\.jpg$/);
+      expect(mockSavedQualities).toEqual([0.8, 0.8]);
+    });
+
+    it('should pick the highest quality that fits the byte budget', async () => {
+      addImage('file:///big.png', 2000, 1000, 4_000_000);
+      mockEncodedSize = (_w, _h, quality) => Math.round(quality * 1_000_000);
+
+      const result = await compressPhoto(
+        { uri: 'file:///big.png', width: 2000, height: 1000 },
+        { maxBytes: 700_000 }
+      );
+
+      // 0.8 and 0.725 are over budget; 0.65 is the best fit
+      expect(mockSavedQualities.map((q) => +q.toFixed(3))).toEqual([0.8, 0.5, 0.65, 0.725]);
+      expect(result.byteSize).toBeLessThanOrEqual(700_000);
+      expect(result.byteSize).toBeGreaterThan(650_000);
+      // Rejected encodes are deleted
+      expect([...mockFiles.keys()]).toEqual(['file:///big.png', result.uri]);
+    });
+
+    it('should use the smaller budget on cellular', async () => {
+      addImage('file:///wide.png', 2000, 1000, 4_000_000);
+      mockEncodedSize = (_w, _h, quality) => Math.round(quality * 2_500_000);
+
+      const wifi = await compressPhoto({ uri: 'file:///wide.png', width: 2000, height: 1000 });
+      const cellular = await compressPhoto(
+        { uri: 'file:///wide.png', width: 2000, height: 1000 },
+        { isCellular: true }
+      );
+
+      expect(wifi.byteSize).toBeGreaterThan(CELLULAR_UPLOAD_BYTE_BUDGET);
+      expect(cellular.byteSize).toBeLessThanOrEqual(CELLULAR_UPLOAD_BYTE_BUDGET);
+    });
+
+    it('should return the smallest encode when nothing fits', async () => {
+      addImage('file:///huge.png', 2000, 1000, 4_000_000);
+      mockEncodedSize = (_w, _h, quality) => Math.round(quality * 1_000_000);
+
+      const result = await compressPhoto(
+        { uri: 'file:///huge.png', width: 2000, height: 1000 },
+        { maxBytes: 100_000 }
+      );
+
+      expect(mockSavedQualities).toEqual([0.8, 0.5]);
+      expect(result.byteSize).toBeGreaterThan(500_000);
+    });
+
+    it('should write the capture time, GPS position and upright orientation as EXIF', async () => {
+      addImage('file:///gallery.heic', 1200, 900, 300_000);
+
+      const result = await compressPhoto({
+        uri: 'file:///gallery.heic',
+        width: 1200,
+        height: 900,
+        location: { latitude: 36.1157, longitude: 137.9644, altitude: 715 },
+        exifData: { DateTimeOriginal: '2026:10:18 17:42:05', Orientation: 6 },
+      });
+
+      const segment = buildExifSegment({
+        orientation: 1,
+        dateTimeOriginal: '2026:10:18 17:42:05',
+        latitude: 36.1157,
+        longitude: 137.9644,
+        altitude: 715,
+      })!;
+      const bytes = mockFiles.get(result.uri)!;
+      expect(Array.from(bytes.subarray(2, 2 + segment.length))).toEqual(Array.from(segment));
+      expect(result.byteSize).toBe(bytes.length);
+      expect(result.exifData?.Orientation).toBe(1);
+    });
+
+    it('should take the EXIF capture time from an EXIF-formatted timestamp', async () => {
+      addImage('file:///timestamp.png', 1200, 900, 300_000);
+
+      const result = await compressPhoto({
+        uri: 'file:///timestamp.png',
+        width: 1200,
+        height: 900,
+        timestamp: '2026:10:18 17:42:05',
+      });
+
+      const segment = buildExifSegment({ orientation: 1, dateTimeOriginal: '2026:10:18 17:42:05' })!;
+      const bytes = mockFiles.get(result.uri)!;
+      expect(Array.from(bytes.subarray(2, 2 + segment.length))).toEqual(Array.from(segment));
+    });
+  });
+
   describe('uploadPhoto', () => {
     it('should POST to /photos with FormData', async () => {
       mockedApiClient.post.mockResolvedValue({
@@ -410,6 +661,286 @@ describe('photoService', () => {
       );
       expect(result).toEqual({ id: 'photo-1', title: 'Rainbow' });
     });
+
+    it('should pass the abort signal and report byte-level progress', async () => {
+      mockedApiClient.post.mockResolvedValue({ data: { data: { id: 'photo-1' } } });
+      const controller = new AbortController();
+      const onProgress = jest.fn();
+
+      const request = {
+        image: { uri: 'file:///photo.jpg', type: 'image/jpeg', name: 'rainbow.jpg' },
+        metadata: { latitude: 36.1, longitude: 137.9 },
+      } as any;
+
+      await uploadPhoto(request, { onProgress, signal: controller.signal });
+
+      const config = mockedApiClient.post.mock.calls[0][2] as any;
+      expect(config.signal).toBe(controller.signal);
+
+      config.onUploadProgress({ loaded: 512, total: 2048 });
+      config.onUploadProgress({ loaded: 100 });
+      expect(onProgress).toHaveBeenNthCalledWith(1, { loaded: 512, total: 2048, percent: 25 });
+      expect(onProgress).toHaveBeenNthCalledWith(2, { loaded: 100, total: undefined, percent: 0 });
+    });
+
+    it('should not register a progress handler without onProgress', async () => {
+      mockedApiClient.post.mockResolvedValue({ data: { data: { id: 'photo-1' } } });
+
+      await uploadPhoto({
+        image: { uri: 'file:///photo.jpg', type: 'image/jpeg', name: 'rainbow.jpg' },
+        metadata: { latitude: 36.1, longitude: 137.9 },
+      } as any);
+
+      expect((mockedApiClient.post.mock.calls[0][2] as any).onUploadProgress).toBeUndefined();
+    });
+  });
+
+  describe('uploadPhotoResumable', () => {
+    const PHOTO_URI = 'file:///resumable.jpg';
+    const photoBytes = Uint8Array.from({ length: 250 }, (_, i) => i);
+    const request = {
+      image: { uri: PHOTO_URI, type: 'image/jpeg', name: 'rainbow.jpg' },
+      metadata: { title: 'Rainbow', comment: 'Over Shiojiri', latitude: 36.1, longitude: 137.9 },
+    } as any;
+
+    let server: ChunkedUploadServer;
+
+    beforeEach(() => {
+      mockFiles.set(PHOTO_URI, photoBytes);
+      server = new ChunkedUploadServer(100);
+      server.install(mockedApiClient as any);
+    });
+
+    it('should send the file in chunks and create the photo', async () => {
+      const onAcknowledged = jest.fn();
+
+      const result = await uploadPhotoResumable(request, { onAcknowledged });
+
+      expect(result).toEqual({ id: 'photo-1' });
+      expect(server.chunkOffsets).toEqual([0, 100, 200]);
+      expect(server.photos[0].bytes).toEqual(Array.from(photoBytes));
+      expect(server.photos[0].metadata).toEqual(
+        expect.objectContaining({ title: 'Rainbow', description: 'Over Shiojiri', latitude: 36.1 })
+      );
+      expect(onAcknowledged.mock.calls).toEqual([
+        ['upload-1', 0],
+        ['upload-1', 100],
+        ['upload-1', 200],
+        ['upload-1', 250],
+      ]);
+    });
+
+    it('should send chunks as raw bytes with their offset and a per-chunk timeout', async () => {
+      await uploadPhotoResumable(request);
+
+      const [url, body, config] = mockedApiClient.patch.mock.calls[1] as any;
+      expect(url).toBe('/photos/uploads/upload-1');
+      expect(body).toEqual(photoBytes.slice(100, 200));
+      expect(config.headers).toEqual({
+        'Content-Type': 'application/octet-stream',
+        'Upload-Offset': '100',
+      });
+      expect(config.timeout).toBe(30000);
+    });
+
+    it('should report progress across the whole file', async () => {
+      const onProgress = jest.fn();
+
+      await uploadPhotoResumable(request, { onProgress });
+
+      const percents = onProgress.mock.calls.map(([progress]) => progress.percent);
+      expect(percents[0]).toBe(0);
+      expect(percents[percents.length - 1]).toBe(100);
+      expect(onProgress).toHaveBeenCalledWith({ loaded: 200, total: 250, percent: 80 });
+    });
+
+    it('should resume from the last acknowledged chunk after a dropped connection', async () => {
+      const onAcknowledged = jest.fn();
+      server.dropRequestAt(100);
+
+      await expect(uploadPhotoResumable(request, { onAcknowledged })).rejects.toThrow(
+        'Network error'
+      );
+      expect(onAcknowledged).toHaveBeenLastCalledWith('upload-1', 100);
+
+      const result = await uploadPhotoResumable(request, { uploadId: 'upload-1' });
+
+      expect(result).toEqual({ id: 'photo-1' });
+      expect(mockedApiClient.post).toHaveBeenCalledTimes(2); // start + complete
+      expect(server.chunkOffsets).toEqual([0, 100, 200]);
+      expect(server.photos[0].bytes).toEqual(Array.from(photoBytes));
+    });
+
+    it('should not duplicate a chunk whose acknowledgement was lost', async () => {
+      const onAcknowledged = jest.fn();
+      server.loseAckAt(100);
+
+      await expect(uploadPhotoResumable(request, { onAcknowledged })).rejects.toThrow(
+        'Network error'
+      );
+      expect(onAcknowledged).toHaveBeenLastCalledWith('upload-1', 100);
+      expect(server.receivedBytes('upload-1')).toBe(200);
+
+      await uploadPhotoResumable(request, { uploadId: 'upload-1' });
+
+      expect(server.chunkOffsets).toEqual([0, 100, 200]);
+      expect(server.photos[0].bytes).toEqual(Array.from(photoBytes));
+    });
+
+    it('should not create a second photo when the completion response was lost', async () => {
+      server.loseCompletionAckOnce();
+      await expect(uploadPhotoResumable(request)).rejects.toThrow('Network error');
+
+      const result = await uploadPhotoResumable(request, {
+        uploadId: 'upload-1',
+        receivedBytes: 250,
+      });
+
+      expect(result).toEqual({ id: 'photo-1' });
+      expect(server.photos).toHaveLength(1);
+      expect(server.chunkOffsets).toEqual([0, 100, 200]);
+    });
+
+    it('should complete again instead of starting over once every byte was sent', async () => {
+      server.loseCompletionAckOnce();
+      await expect(uploadPhotoResumable(request)).rejects.toThrow('Network error');
+      server.expire('upload-1');
+
+      await expect(
+        uploadPhotoResumable(request, { uploadId: 'upload-1', receivedBytes: 250 })
+      ).rejects.toThrow('Resource not found');
+
+      expect(mockedApiClient.post).toHaveBeenCalledTimes(3); // start + complete + complete
+      expect(mockedApiClient.post).toHaveBeenLastCalledWith(
+        '/photos/uploads/upload-1/complete',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(server.photos).toHaveLength(1);
+    });
+
+    it('should continue from the server offset when a chunk is ahead of it', async () => {
+      server.dropRequestAt(0);
+      await expect(uploadPhotoResumable(request)).rejects.toThrow('Network error');
+
+      // A stale status claims more bytes than the server holds
+      mockedApiClient.get.mockResolvedValueOnce({
+        data: {
+          data: {
+            upload: { id: 'upload-1', byteSize: 250, receivedBytes: 200, chunkSize: 100, expiresAt: null },
+          },
+        },
+      });
+
+      await uploadPhotoResumable(request, { uploadId: 'upload-1' });
+
+      expect(server.chunkOffsets).toEqual([200, 0, 100, 200]);
+      expect(server.photos[0].bytes).toEqual(Array.from(photoBytes));
+    });
+
+    it('should start over when the upload has expired', async () => {
+      server.dropRequestAt(100);
+      await expect(uploadPhotoResumable(request)).rejects.toThrow('Network error');
+      server.expire('upload-1');
+
+      const onAcknowledged = jest.fn();
+      const result = await uploadPhotoResumable(request, { uploadId: 'upload-1', onAcknowledged });
+
+      expect(result).toEqual({ id: 'photo-1' });
+      expect(onAcknowledged).toHaveBeenNthCalledWith(1, 'upload-2', 0);
+      expect(server.photos[0].uploadId).toBe('upload-2');
+    });
+
+    it('should start over when the upload is for a different file', async () => {
+      mockFiles.set('file:///other.jpg', photoBytes.slice(0, 50));
+      server.dropRequestAt(0);
+      await expect(
+        uploadPhotoResumable({ ...request, image: { ...request.image, uri: 'file:///other.jpg' } })
+      ).rejects.toThrow('Network error');
+
+      await uploadPhotoResumable(request, { uploadId: 'upload-1' });
+
+      expect(server.photos[0].uploadId).toBe('upload-2');
+      expect(server.photos[0].bytes).toEqual(Array.from(photoBytes));
+    });
+
+    it('should rethrow other errors when resuming', async () => {
+      mockedApiClient.get.mockRejectedValueOnce(new Error('Request timed out'));
+
+      await expect(uploadPhotoResumable(request, { uploadId: 'upload-1' })).rejects.toThrow(
+        'Request timed out'
+      );
+      expect(mockedApiClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should fail rather than loop when the server does not advance', async () => {
+      mockedApiClient.patch.mockResolvedValue({
+        data: {
+          data: {
+            upload: { id: 'upload-1', byteSize: 250, receivedBytes: 0, chunkSize: 100, expiresAt: null },
+          },
+        },
+      });
+
+      await expect(uploadPhotoResumable(request)).rejects.toThrow('Upload did not advance');
+    });
+  });
+
+  describe('isUploadCanceled', () => {
+    it('should detect aborted requests', () => {
+      expect(isUploadCanceled(new CanceledError())).toBe(true);
+    });
+
+    it('should return false for other errors', () => {
+      expect(isUploadCanceled(new Error('Network error'))).toBe(false);
+      expect(isUploadCanceled(undefined)).toBe(false);
+    });
+  });
+
+  describe('classifyUploadError', () => {
+    const httpError = (status: number) => Object.assign(new Error('Request failed'), { status });
+
+    it('should classify requests that never reached the server as network errors', () => {
+      const error = Object.assign(new Error('Network error'), { isNetworkError: true });
+      expect(classifyUploadError(error)).toBe('network');
+    });
+
+    it.each([
+      'File not found',
+      'Unable to read the file',
+      'Upload did not advance. Please try again.',
+    ])('should classify "%s" as a local error', (message) => {
+      expect(classifyUploadError(new Error(message))).toBe('local');
+    });
+
+    it.each([401, 403])('should classify %i as an auth error', (status) => {
+      expect(classifyUploadError(httpError(status))).toBe('auth');
+    });
+
+    it.each([400, 404, 413, 422])('should classify %i as a validation error', (status) => {
+      expect(classifyUploadError(httpError(status))).toBe('validation');
+    });
+
+    it.each([408, 429, 500, 503])('should classify %i as a transient server error', (status) => {
+      expect(classifyUploadError(httpError(status))).toBe('server');
+    });
+  });
+
+  describe('getUploadErrorMessage', () => {
+    it('should append the server validation errors', () => {
+      const error = Object.assign(new Error('Validation failed'), {
+        details: { errors: ['Title is too long', 'Latitude is invalid'] },
+      });
+
+      expect(getUploadErrorMessage(error)).toBe(
+        'Validation failed: Title is too long, Latitude is invalid'
+      );
+    });
+
+    it('should return the message alone without validation errors', () => {
+      expect(getUploadErrorMessage(new Error('Server error'))).toBe('Server error');
+      expect(getUploadErrorMessage(undefined)).toBe('An unexpected error occurred');
+    });
   });
 
   describe('getPhoto', () => {
@@ -9,9 +9,12 @@ import {
   fetchActiveMoments,
   fetchPastMoments,
   fetchMomentDetail,
+  momentWeatherCondition,
   triggerDemoMoment,
 } from '../../src/services/rainbowMomentService';
 
+import type { RainbowMoment } from '../../src/store/rainbowMomentStore';
+
 jest.mock('../../src/services/apiClient', () => ({
   apiClient: {
     get: jest.fn(),
@@ -21,7 +24,7 @@ jest.mock('../../src/services/apiClient', () => ({
 
 const mockedApiClient = jest.mocked(apiClient);
 
-const mockMoment = {
+const mockMoment: RainbowMoment = {
   id: 'moment-1',
   locationId: 'daimon',
   locationName: '大門地区',
@@ -106,6 +109,70 @@ describe('rainbowMomentService', () => {
       expect(mockedApiClient.get).toHaveBeenCalledWith('/rainbow_moments/moment-1');
       expect(result.id).toBe('moment-1');
     });
+
+    it('should default missing participants and photos to empty lists', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: { data: { moment: mockMoment } },
+      });
+
+      const result = await fetchMomentDetail('moment-1');
+
+      expect(result.participants).toEqual([]);
+      expect(result.photos).toEqual([]);
+    });
+
+    it('should return the photos taken during the moment', async () => {
+      const photo = {
+        id: 'photo-1',
+        user: { id: 'user-1', displayName: 'Taro' },
+        thumbnailUrl: 'https://example.com/thumb.jpg',
+        latitude: 36.115,
+        longitude: 137.954,
+        capturedAt: '2026-02-12T10:05:00Z',
+      };
+      mockedApiClient.get.mockResolvedValue({
+        data: { data: { moment: { ...mockMoment, participants: [], photos: [photo] } } },
+      });
+
+      const result = await fetchMomentDetail('moment-1');
+
+      expect(result.photos).toEqual([photo]);
+    });
+  });
+
+  describe('momentWeatherCondition', () => {
+    it('should map the snake_case snapshot to a WeatherCondition', () => {
+      const condition = momentWeatherCondition({
+        ...mockMoment,
+        weatherSnapshot: {
+          temperature: 18.5,
+          humidity: 72,
+          cloud_cover: 45,
+          sun_altitude: 25.0,
+          weather_code: '500',
+          weather_description: 'light rain',
+          visibility: 8000,
+          precipitation_mm: 1.2,
+        },
+      });
+
+      expect(condition).toEqual({
+        id: mockMoment.id,
+        timestamp: mockMoment.startsAt,
+        temperature: 18.5,
+        humidity: 72,
+        cloudCover: 45,
+        visibility: 8000,
+        sunAltitude: 25.0,
+        weatherCode: 500,
+        weatherDescription: 'light rain',
+        precipitation: 1.2,
+      });
+    });
+
+    it('should return undefined for an empty snapshot', () => {
+      expect(momentWeatherCondition({ ...mockMoment, weatherSnapshot: {} })).toBeUndefined();
+    });
   });
 
   describe('triggerDemoMoment', () => {
@@ -0,0 +1,451 @@
+/**
+ * Unit Tests for statisticsService
+ *
+ * Tests the public statistics API calls and snake_case → camelCase
+ * normalisation. apiClient is mocked.
+ */
+
+// Mock apiClient
+jest.mock('../../src/services/apiClient', () => ({
+  apiClient: {
+    get: jest.fn(),
+  },
+}));
+
+import { apiClient } from '../../src/services/apiClient';
+import {
+  getStatisticsRegions,
+  getRegionStatistics,
+  getTrends,
+  getWeatherCorrelations,
+  compareRegions,
+  getRegionComparison,
+  weatherCodeToCondition,
+  exportDataset,
+} from '../../src/services/statisticsService';
+
+const mockedApiClient = jest.mocked(apiClient);
+
+const rawStatistics = {
+  total_sightings: 42,
+  unique_users: 7,
+  date_range: {
+    first_sighting: '2025-04-01T08:00:00Z',
+    last_sighting: '2026-03-20T17:30:00Z',
+  },
+  weather: {
+    average_temperature: 18.5,
+    average_humidity: 72.1,
+    average_cloud_cover: 45.0,
+    typical_sun_altitude: 22.3,
+    precipitation_present_rate: 60.0,
+    common_weather_codes: { '500': 3, '800': 10 },
+  },
+  time_distribution: {
+    peak_hour: 17,
+    hour_distribution: { '17': 12, '7': 4 },
+    morning_rate: 20.0,
+    afternoon_rate: 70.0,
+    evening_rate: 10.0,
+  },
+  sightings_per_month: 3.5,
+  comparison_to_average: null,
+};
+
+describe('statisticsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // -------------------------------------------------------------------
+  // getStatisticsRegions
+  // -------------------------------------------------------------------
+  describe('getStatisticsRegions', () => {
+    it('should call GET /statistics/regions and return regions', async () => {
+      const regions = [
+        { id: 'daimon', name: '大門地区', center: { lat: 36.115, lng: 137.954 }, radius: 3000 },
+      ];
+      mockedApiClient.get.mockResolvedValue({ data: { data: { regions } } });
+
+      const result = await getStatisticsRegions();
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/regions');
+      expect(result).toEqual(regions);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // getRegionStatistics
+  // -------------------------------------------------------------------
+  describe('getRegionStatistics', () => {
+    it('should fetch and transform snake_case region statistics', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            region: { id: 'daimon', name: '大門地区', center: { lat: 36.115, lng: 137.954 }, radius: 3000 },
+            period: { start_date: '2026-01-01', end_date: null },
+            statistics: rawStatistics,
+          },
+        },
+      });
+
+      const result = await getRegionStatistics('daimon', { startDate: '2026-01-01' });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/region/daimon', {
+        params: { start_date: '2026-01-01' },
+      });
+      expect(result.period).toEqual({ startDate: '2026-01-01', endDate: undefined });
+      expect(result.statistics.totalSightings).toBe(42);
+      expect(result.statistics.dateRange?.lastSighting).toBe('2026-03-20T17:30:00Z');
+      expect(result.statistics.weather.averageHumidity).toBe(72.1);
+      expect(result.statistics.weather.commonWeatherCodes).toEqual([
+        { code: '800', count: 10 },
+        { code: '500', count: 3 },
+      ]);
+      expect(result.statistics.timeDistribution.hourDistribution).toEqual([
+        { hour: 7, count: 4 },
+        { hour: 17, count: 12 },
+      ]);
+      expect(result.statistics.sightingsPerMonth).toBe(3.5);
+    });
+
+    it('should handle empty statistics for regions without sightings', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            region: { id: 'daimon', name: '大門地区', center: { lat: 36.115, lng: 137.954 }, radius: 3000 },
+            period: {},
+            statistics: {
+              total_sightings: 0,
+              unique_users: 0,
+              date_range: null,
+              weather: {},
+              time_distribution: {},
+              sightings_per_month: 0,
+            },
+          },
+        },
+      });
+
+      const result = await getRegionStatistics('daimon');
+
+      expect(result.statistics.dateRange).toBeNull();
+      expect(result.statistics.weather.averageTemperature).toBeNull();
+      expect(result.statistics.timeDistribution.peakHour).toBeNull();
+      expect(result.statistics.timeDistribution.hourDistribution).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // getTrends
+  // -------------------------------------------------------------------
+  describe('getTrends', () => {
+    it('should fetch monthly trends by default', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            period: {},
+            group_by: 'month',
+            region_id: null,
+            trends: [
+              { date: '2026-01-01', count: 2 },
+              { date: '2026-02-01', count: 5 },
+            ],
+            summary: { total: 7, average: 3.5, max: 5, min: 2, trend_direction: 'increasing' },
+          },
+        },
+      });
+
+      const result = await getTrends();
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/trends', {
+        params: { group_by: 'month' },
+      });
+      expect(result.trends).toHaveLength(2);
+      expect(result.regionId).toBeNull();
+      expect(result.summary).toEqual({
+        total: 7,
+        average: 3.5,
+        max: 5,
+        min: 2,
+        trendDirection: 'increasing',
+      });
+    });
+
+    it('should pass region and period filters', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: { data: { group_by: 'week', region_id: 'daimon', trends: [], summary: {} } },
+      });
+
+      const result = await getTrends('week', 'daimon', {
+        startDate: '2026-01-01',
+        endDate: '2026-03-31',
+      });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/trends', {
+        params: {
+          group_by: 'week',
+          region_id: 'daimon',
+          start_date: '2026-01-01',
+          end_date: '2026-03-31',
+        },
+      });
+      expect(result.regionId).toBe('daimon');
+      expect(result.summary.trendDirection).toBe('stable');
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // getWeatherCorrelations
+  // -------------------------------------------------------------------
+  describe('getWeatherCorrelations', () => {
+    it('should fetch and transform weather correlations', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            period: {},
+            region_id: 'daimon',
+            correlations: {
+              total_samples: 10,
+              weather_distribution: { '800': 6, '500': 4 },
+              favorable_sun_position_rate: 80.0,
+              temperature_range: { min: 10, max: 25, average: 18.2 },
+              humidity_range: { min: 50, max: 95, average: 71.0 },
+              precipitation_correlation: {
+                with_precipitation: 7,
+                without_precipitation: 3,
+                correlation_rate: 70.0,
+              },
+            },
+          },
+        },
+      });
+
+      const result = await getWeatherCorrelations('daimon');
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/weather', {
+        params: { region_id: 'daimon' },
+      });
+      expect(result.correlations.totalSamples).toBe(10);
+      expect(result.correlations.weatherDistribution[0]).toEqual({ code: '800', count: 6 });
+      expect(result.correlations.temperatureRange).toEqual({ min: 10, max: 25, average: 18.2 });
+      expect(result.correlations.precipitationCorrelation).toEqual({
+        withPrecipitation: 7,
+        withoutPrecipitation: 3,
+        correlationRate: 70.0,
+      });
+    });
+
+    it('should handle empty correlations', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: { data: { period: {}, region_id: null, correlations: {} } },
+      });
+
+      const result = await getWeatherCorrelations();
+
+      expect(result.correlations.totalSamples).toBe(0);
+      expect(result.correlations.temperatureRange).toBeNull();
+      expect(result.correlations.precipitationCorrelation).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // compareRegions
+  // -------------------------------------------------------------------
+  describe('compareRegions', () => {
+    it('should send comma-separated region_ids and transform the comparison', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            period: {},
+            regions: [
+              { region_id: 'daimon', region_name: '大門地区', statistics: rawStatistics },
+            ],
+            rankings: {
+              by_total_sightings: [{ region_id: 'daimon', value: 42 }],
+              by_monthly_average: [{ region_id: 'daimon', value: 3.5 }],
+            },
+          },
+        },
+      });
+
+      const result = await compareRegions(['daimon', 'shiojiri_city']);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/compare', {
+        params: { region_ids: 'daimon,shiojiri_city' },
+      });
+      expect(result.regions[0].regionName).toBe('大門地区');
+      expect(result.regions[0].statistics.totalSightings).toBe(42);
+      expect(result.rankings.byTotalSightings).toEqual([{ regionId: 'daimon', value: 42 }]);
+      expect(result.rankings.byMonthlyAverage).toEqual([{ regionId: 'daimon', value: 3.5 }]);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // getRegionComparison
+  // -------------------------------------------------------------------
+  describe('getRegionComparison', () => {
+    const respondTo = (responses: Record<string, unknown>) => {
+      mockedApiClient.get.mockImplementation(async (url: string) => ({
+        data: { data: responses[url] },
+      }));
+    };
+
+    it('should combine compare, trends and weather into RegionStats', async () => {
+      respondTo({
+        '/statistics/compare': {
+          period: {},
+          regions: [{ region_id: 'daimon', region_name: '大門地区', statistics: rawStatistics }],
+          rankings: {},
+        },
+        '/statistics/trends': {
+          group_by: 'month',
+          region_id: 'daimon',
+          trends: [
+            { date: '2025-06-01', count: 4 },
+            { date: '2025-07-01', count: 2 },
+            { date: '2026-06-01', count: 3 },
+          ],
+          summary: {},
+        },
+        '/statistics/weather': {
+          region_id: 'daimon',
+          correlations: {
+            total_samples: 9,
+            weather_distribution: { '800': 2, '500': 3, '501': 1, '802': 3 },
+            temperature_range: { min: 12, max: 26, average: 19.1 },
+            humidity_range: null,
+          },
+        },
+      });
+
+      const result = await getRegionComparison(['daimon', 'shiojiri_city']);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/compare', {
+        params: { region_ids: 'daimon,shiojiri_city' },
+      });
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/trends', {
+        params: { group_by: 'month', region_id: 'daimon' },
+      });
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/weather', {
+        params: { region_id: 'daimon' },
+      });
+      expect(result).toEqual([
+        {
+          regionId: 'daimon',
+          regionName: '大門地区',
+          totalSightings: 42,
+          averageSightingsPerMonth: 3.5,
+          peakHours: [
+            { hour: 17, count: 12 },
+            { hour: 7, count: 4 },
+          ],
+          peakMonths: [
+            { month: 6, count: 7 },
+            { month: 7, count: 2 },
+          ],
+          typicalWeather: {
+            temperature: { min: 12, max: 26, avg: 19.1 },
+            humidity: { min: 72.1, max: 72.1, avg: 72.1 },
+            conditions: [
+              { condition: 'light_rain', count: 4 },
+              { condition: 'partly_cloudy', count: 3 },
+              { condition: 'sunny', count: 2 },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should fall back to common weather codes when correlations are empty', async () => {
+      respondTo({
+        '/statistics/compare': {
+          regions: [{ region_id: 'daimon', region_name: '大門地区', statistics: rawStatistics }],
+        },
+        '/statistics/trends': { trends: [], summary: {} },
+        '/statistics/weather': { correlations: {} },
+      });
+
+      const [stats] = await getRegionComparison(['daimon', 'shiojiri_city']);
+
+      expect(stats.peakMonths).toEqual([]);
+      expect(stats.typicalWeather.temperature).toEqual({ min: 18.5, max: 18.5, avg: 18.5 });
+      expect(stats.typicalWeather.conditions).toEqual([
+        { condition: 'sunny', count: 10 },
+        { condition: 'light_rain', count: 3 },
+      ]);
+    });
+  });
+
+  describe('weatherCodeToCondition', () => {
+    it('should map weather codes to RegionStats condition keys', () => {
+      expect(weatherCodeToCondition('800')).toBe('sunny');
+      expect(weatherCodeToCondition('804')).toBe('cloudy');
+      expect(weatherCodeToCondition('521')).toBe('shower');
+      expect(weatherCodeToCondition('502')).toBe('rainy');
+      expect(weatherCodeToCondition('211')).toBe('rainy');
+      expect(weatherCodeToCondition('741')).toBe('741');
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // exportDataset
+  // -------------------------------------------------------------------
+  describe('exportDataset', () => {
+    it('should return complete exports with metadata', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            status: 'complete',
+            format: 'csv',
+            record_count: 2,
+            data: 'id,captured_at\n"1","2026-01-01"',
+            metadata: { exported_at: '2026-04-01T00:00:00Z' },
+          },
+        },
+      });
+
+      const result = await exportDataset({
+        format: 'csv',
+        regionId: 'daimon',
+        includeWeather: false,
+      });
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/export', {
+        params: { export_format: 'csv', region_id: 'daimon', include_weather: 'false' },
+      });
+      expect(result).toEqual({
+        status: 'complete',
+        format: 'csv',
+        recordCount: 2,
+        data: 'id,captured_at\n"1","2026-01-01"',
+        exportedAt: '2026-04-01T00:00:00Z',
+      });
+    });
+
+    it('should return job info for queued exports', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            status: 'queued',
+            job_id: 'job-1',
+            estimated_records: 50000,
+            message: 'Export job queued.',
+          },
+        },
+      });
+
+      const result = await exportDataset();
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/statistics/export', {
+        params: { export_format: 'json' },
+      });
+      expect(result).toEqual({
+        status: 'queued',
+        jobId: 'job-1',
+        estimatedRecords: 50000,
+        message: 'Export job queued.',
+      });
+    });
+  });
+});
@@ -8,6 +8,7 @@
 import * as SecureStore from 'expo-secure-store';
 
 import {
+  addAccessTokenListener,
   storeAccessToken,
   storeRefreshToken,
   storeTokens,
@@ -59,6 +60,29 @@ describe('tokenStorage', () => {
         'Storage failed'
       );
     });
+
+    it('should notify access token listeners after storing', async () => {
+      const listener = jest.fn();
+      const removeListener = addAccessTokenListener(listener);
+
+      await storeAccessToken('access-token-456', 3600);
+      expect(listener).toHaveBeenCalledWith('access-token-456');
+
+      removeListener();
+      await storeAccessToken('access-token-789', 3600);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not notify listeners when storing fails', async () => {
+      const listener = jest.fn();
+      const removeListener = addAccessTokenListener(listener);
+      mockedSecureStore.setItemAsync.mockRejectedValueOnce(new Error('Storage failed'));
+
+      await expect(storeAccessToken('token', 3600)).rejects.toThrow('Storage failed');
+      expect(listener).not.toHaveBeenCalled();
+
+      removeListener();
+    });
   });
 
   // -------------------------------------------------------------------
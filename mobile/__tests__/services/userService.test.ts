@@ -18,11 +18,20 @@ jest.mock('../../src/services/apiClient', () => ({
   getErrorMessage: jest.fn((e: unknown) =>
     e instanceof Error ? e.message : 'error'
   ),
+  getErrorCode: jest.fn((e: unknown) =>
+    e instanceof Error && 'code' in e ? (e as Error & { code?: number }).code : undefined
+  ),
 }));
 
 import { apiClient } from '../../src/services/apiClient';
 import {
+  blockUser,
+  getBlockedUsers,
   getMyProfile,
+  getUserPhotos,
+  getUserProfile,
+  isPrivateProfileError,
+  unblockUser,
   updateMyProfile,
   validateDisplayName,
 } from '../../src/services/userService';
@@ -74,6 +83,7 @@ describe('userService', () => {
         locale: 'ja',
         confirmed: true,
         createdAt: '2025-01-01T00:00:00Z',
+        isPublic: true,
         stats: {
           photosCount: 10,
           totalLikesReceived: 42,
@@ -81,6 +91,33 @@ describe('userService', () => {
       });
     });
 
+    it('should unwrap the user key and read camelCase fields', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            user: {
+              id: 'user-123',
+              email: 'test@shiojiri.jp',
+              displayName: 'Test User',
+              profileImageUrl: null,
+              locale: 'en',
+              isPublic: false,
+              createdAt: '2025-01-01T00:00:00Z',
+              stats: { photoCount: 3, likesReceived: 7, commentsCount: 1 },
+            },
+          },
+        },
+      });
+
+      const profile = await getMyProfile();
+
+      expect(profile.displayName).toBe('Test User');
+      expect(profile.profileImageUrl).toBeUndefined();
+      expect(profile.locale).toBe('en');
+      expect(profile.isPublic).toBe(false);
+      expect(profile.stats).toEqual({ photosCount: 3, totalLikesReceived: 7 });
+    });
+
     it('should propagate API errors', async () => {
       mockedApiClient.get.mockRejectedValue(new Error('Unauthorized'));
 
@@ -130,6 +167,18 @@ describe('userService', () => {
       );
     });
 
+    it('should send the privacy setting as user[public_profile]', async () => {
+      mockedApiClient.patch.mockResolvedValue({
+        data: { data: { user: createRawProfile({ is_public: false }) } },
+      });
+
+      const profile = await updateMyProfile({ publicProfile: false });
+
+      const formData = mockedApiClient.patch.mock.calls[0][1] as FormData;
+      expect(formData.get('user[public_profile]')).toBe('false');
+      expect(profile.isPublic).toBe(false);
+    });
+
     it('should propagate API errors', async () => {
       mockedApiClient.patch.mockRejectedValue(new Error('Upload failed'));
 
@@ -139,6 +188,208 @@ describe('userService', () => {
     });
   });
 
+  // -------------------------------------------------------------------
+  // getUserProfile
+  // -------------------------------------------------------------------
+  describe('getUserProfile', () => {
+    it('should fetch a public profile and map its stats', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            user: {
+              id: 'user-456',
+              display_name: 'Rainbow Hunter',
+              profile_image_url: null,
+              created_at: '2025-02-01T00:00:00Z',
+              stats: { photoCount: 7, likesReceived: 30, commentsCount: 4 },
+            },
+          },
+        },
+      });
+
+      const profile = await getUserProfile('user-456');
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/users/user-456');
+      expect(profile).toEqual({
+        id: 'user-456',
+        displayName: 'Rainbow Hunter',
+        profileImageUrl: undefined,
+        isPublic: true,
+        createdAt: '2025-02-01T00:00:00Z',
+        stats: { photosCount: 7, totalLikesReceived: 30, commentsCount: 4 },
+      });
+    });
+
+    it('should keep the private flag when the API sends it', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: { data: { user: { id: 'user-456', display_name: 'Hidden', is_public: false } } },
+      });
+
+      const profile = await getUserProfile('user-456');
+
+      expect(profile.isPublic).toBe(false);
+      expect(profile.stats).toEqual({ photosCount: 0, totalLikesReceived: 0, commentsCount: 0 });
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // getUserPhotos
+  // -------------------------------------------------------------------
+  describe('getUserPhotos', () => {
+    it('should request a page and transform photos', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            photos: [
+              {
+                id: 'photo-1',
+                title: 'Double rainbow',
+                description: null,
+                thumbnail_url: 'https://example.com/thumb.jpg',
+                image_url: 'https://example.com/full.jpg',
+                latitude: 36.1,
+                longitude: 137.9,
+                location_name: 'Shiojiri',
+                captured_at: '2025-03-01T08:00:00Z',
+                created_at: '2025-03-01T09:00:00Z',
+                like_count: 5,
+                comment_count: 2,
+                is_own: false,
+                user: { id: 'user-456', display_name: 'Rainbow Hunter' },
+              },
+            ],
+            pagination: { currentPage: 2, totalPages: 3, totalCount: 61, perPage: 30 },
+          },
+        },
+      });
+
+      const result = await getUserPhotos('user-456', 2);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/users/user-456/photos', {
+        params: { page: 2, per_page: 30 },
+      });
+      expect(result.meta).toEqual({ currentPage: 2, totalPages: 3, totalCount: 61, perPage: 30 });
+      expect(result.data[0]).toEqual({
+        id: 'photo-1',
+        title: 'Double rainbow',
+        description: undefined,
+        capturedAt: '2025-03-01T08:00:00Z',
+        location: { latitude: 36.1, longitude: 137.9, name: 'Shiojiri' },
+        imageUrls: {
+          thumbnail: 'https://example.com/thumb.jpg',
+          medium: 'https://example.com/full.jpg',
+          original: 'https://example.com/full.jpg',
+        },
+        likeCount: 5,
+        commentCount: 2,
+        user: { id: 'user-456', displayName: 'Rainbow Hunter' },
+        createdAt: '2025-03-01T09:00:00Z',
+      });
+    });
+
+    it('should leave location empty for photos without coordinates', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            photos: [
+              {
+                id: 'photo-2',
+                image_url: 'https://example.com/full.jpg',
+                latitude: null,
+                longitude: null,
+                captured_at: null,
+                created_at: '2025-03-02T09:00:00Z',
+                user: { id: 'user-456', display_name: 'Rainbow Hunter' },
+              },
+            ],
+            pagination: { currentPage: 1, totalPages: 1, totalCount: 1, perPage: 30 },
+          },
+        },
+      });
+
+      const result = await getUserPhotos('user-456');
+
+      expect(result.data[0].location).toBeNull();
+      expect(result.data[0].capturedAt).toBe('2025-03-02T09:00:00Z');
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // isPrivateProfileError
+  // -------------------------------------------------------------------
+  describe('isPrivateProfileError', () => {
+    it('should detect the not-authorized error code', () => {
+      const forbidden = Object.assign(new Error('Permission denied'), { code: 1003 });
+      const notFound = Object.assign(new Error('User not found'), { code: 3002 });
+
+      expect(isPrivateProfileError(forbidden)).toBe(true);
+      expect(isPrivateProfileError(notFound)).toBe(false);
+      expect(isPrivateProfileError(new Error('Network error'))).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // Blocking
+  // -------------------------------------------------------------------
+  describe('getBlockedUsers', () => {
+    it('should fetch and transform the blocked users', async () => {
+      mockedApiClient.get.mockResolvedValue({
+        data: {
+          data: {
+            users: [
+              {
+                id: 'user-456',
+                displayName: 'Rainbow Hunter',
+                profileImageUrl: null,
+                blockedAt: '2026-10-19T00:00:00Z',
+              },
+            ],
+          },
+        },
+      });
+
+      const users = await getBlockedUsers();
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/users/me/blocks');
+      expect(users).toEqual([
+        {
+          id: 'user-456',
+          displayName: 'Rainbow Hunter',
+          profileImageUrl: undefined,
+          blockedAt: '2026-10-19T00:00:00Z',
+        },
+      ]);
+    });
+  });
+
+  describe('blockUser', () => {
+    it('should post to the block endpoint and return the blocked user', async () => {
+      mockedApiClient.post.mockResolvedValue({
+        data: {
+          data: {
+            user: { id: 'user-456', display_name: 'Rainbow Hunter', blocked_at: '2026-10-19T00:00:00Z' },
+          },
+        },
+      });
+
+      const user = await blockUser('user-456');
+
+      expect(mockedApiClient.post).toHaveBeenCalledWith('/users/user-456/block');
+      expect(user.displayName).toBe('Rainbow Hunter');
+      expect(user.blockedAt).toBe('2026-10-19T00:00:00Z');
+    });
+  });
+
+  describe('unblockUser', () => {
+    it('should delete the block', async () => {
+      mockedApiClient.delete.mockResolvedValue({ data: { data: {} } });
+
+      await unblockUser('user-456');
+
+      expect(mockedApiClient.delete).toHaveBeenCalledWith('/users/user-456/block');
+    });
+  });
+
   // -------------------------------------------------------------------
   // validateDisplayName
   // -------------------------------------------------------------------
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for weatherService
+ *
+ * Tests API calls for weather endpoints.
+ */
+
+import { apiClient } from '../../src/services/apiClient';
+import { fetchWeatherForecast } from '../../src/services/weatherService';
+
+jest.mock('../../src/services/apiClient', () => ({
+  apiClient: {
+    get: jest.fn(),
+  },
+}));
+
+const mockedApiClient = jest.mocked(apiClient);
+
+const mockForecast = {
+  hours: 6,
+  weatherConditions: [{ id: 'forecast-1', timestamp: '2026-06-21T06:00:00Z', cloudCover: 40 }],
+  radarData: [
+    {
+      id: 'forecast-90-1',
+      timestamp: '2026-06-21T06:00:00Z',
+      precipitationIntensity: 1.2,
+      centerLatitude: 36.115,
+      centerLongitude: 138.12,
+    },
+  ],
+};
+
+describe('weatherService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('fetchWeatherForecast', () => {
+    it('fetches the forecast for a location', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({ data: { data: mockForecast } });
+
+      const result = await fetchWeatherForecast(36.115, 137.954);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/weather/forecast', {
+        params: { lat: 36.115, lng: 137.954 },
+      });
+      expect(result).toEqual(mockForecast);
+    });
+
+    it('passes the forecast length', async () => {
+      mockedApiClient.get.mockResolvedValueOnce({ data: { data: mockForecast } });
+
+      await fetchWeatherForecast(36.115, 137.954, 3);
+
+      expect(mockedApiClient.get).toHaveBeenCalledWith('/weather/forecast', {
+        params: { lat: 36.115, lng: 137.954, hours: 3 },
+      });
+    });
+
+    it('propagates API errors', async () => {
+      mockedApiClient.get.mockRejectedValueOnce(new Error('Network Error'));
+
+      await expect(fetchWeatherForecast(36.115, 137.954)).rejects.toThrow('Network Error');
+    });
+  });
+});
@@ -106,6 +106,7 @@ jest.mock('@rails/actioncable', () => ({
     subscriptions: {
       create: jest.fn(() => ({
         unsubscribe: jest.fn(),
+        perform: jest.fn(),
       })),
     },
     disconnect: jest.fn(),
@@ -14,6 +14,8 @@ jest.mock('../../src/services/authService', () => ({
     refreshToken: jest.fn(),
     checkAuth: jest.fn(),
     requestPasswordReset: jest.fn(),
+    verifyEmail: jest.fn(),
+    confirmPasswordReset: jest.fn(),
   },
   getErrorMessage: jest.fn((error: unknown) => {
     if (error instanceof Error) return error.message;
@@ -345,6 +347,94 @@ describe('authStore', () => {
     });
   });
 
+  // -------------------------------------------------------------------
+  // confirmPasswordReset
+  // -------------------------------------------------------------------
+  describe('confirmPasswordReset', () => {
+    it('should reset the password and sign in with it', async () => {
+      const mockUser = createMockUser();
+      mockedAuthService.confirmPasswordReset.mockResolvedValue(mockUser);
+      mockedAuthService.login.mockResolvedValue(mockUser);
+
+      const signedIn = await useAuthStore
+        .getState()
+        .confirmPasswordReset('reset-token', 'newPassword123');
+
+      expect(signedIn).toBe(true);
+      expect(mockedAuthService.confirmPasswordReset).toHaveBeenCalledWith(
+        'reset-token',
+        'newPassword123'
+      );
+      expect(mockedAuthService.login).toHaveBeenCalledWith('test@example.com', 'newPassword123');
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    });
+
+    it('should return false when signing in after the reset fails', async () => {
+      mockedAuthService.confirmPasswordReset.mockResolvedValue(
+        createMockUser({ confirmed: false })
+      );
+      mockedAuthService.login.mockRejectedValue(new Error('Email not confirmed'));
+
+      const signedIn = await useAuthStore
+        .getState()
+        .confirmPasswordReset('reset-token', 'newPassword123');
+
+      expect(signedIn).toBe(false);
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    });
+
+    it('should set error and throw when the token is invalid', async () => {
+      mockedAuthService.confirmPasswordReset.mockRejectedValue(
+        new Error('Invalid or expired reset token')
+      );
+
+      await expect(
+        useAuthStore.getState().confirmPasswordReset('expired', 'newPassword123')
+      ).rejects.toThrow('Invalid or expired reset token');
+
+      const state = useAuthStore.getState();
+      expect(mockedAuthService.login).not.toHaveBeenCalled();
+      expect(state.isLoading).toBe(false);
+      expect(state.error).toBe('Invalid or expired reset token');
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // verifyEmail
+  // -------------------------------------------------------------------
+  describe('verifyEmail', () => {
+    it('should update the signed-in user when they verify their own email', async () => {
+      useAuthStore.setState({
+        user: createMockUser({ confirmed: false }),
+        isAuthenticated: true,
+      });
+      mockedAuthService.verifyEmail.mockResolvedValue(createMockUser());
+
+      const user = await useAuthStore.getState().verifyEmail('token-abc');
+
+      expect(mockedAuthService.verifyEmail).toHaveBeenCalledWith('token-abc');
+      expect(user.confirmed).toBe(true);
+      expect(useAuthStore.getState().user?.confirmed).toBe(true);
+    });
+
+    it('should not replace the signed-in user with another account', async () => {
+      useAuthStore.setState({ user: createMockUser(), isAuthenticated: true });
+      mockedAuthService.verifyEmail.mockResolvedValue(
+        createMockUser({ id: 'user-456', email: 'other@example.com' })
+      );
+
+      await useAuthStore.getState().verifyEmail('token-abc');
+
+      expect(useAuthStore.getState().user?.id).toBe('user-123');
+    });
+
+    it('should propagate verification errors', async () => {
+      mockedAuthService.verifyEmail.mockRejectedValue(new Error('Invalid token'));
+
+      await expect(useAuthStore.getState().verifyEmail('bad')).rejects.toThrow('Invalid token');
+    });
+  });
+
   // -------------------------------------------------------------------
   // clearError
   // -------------------------------------------------------------------
@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for blockStore (Zustand)
+ *
+ * Tests loading the blocked user list and optimistic block/unblock
+ * with rollback. The userService is fully mocked.
+ */
+
+jest.mock('../../src/services/userService', () => ({
+  getBlockedUsers: jest.fn(),
+  blockUser: jest.fn(),
+  unblockUser: jest.fn(),
+}));
+
+import { blockUser, getBlockedUsers, unblockUser } from '../../src/services/userService';
+import { useBlockStore } from '../../src/store/blockStore';
+
+import type { BlockedUser } from '../../src/services/userService';
+
+const mockedGetBlockedUsers = jest.mocked(getBlockedUsers);
+const mockedBlockUser = jest.mocked(blockUser);
+const mockedUnblockUser = jest.mocked(unblockUser);
+
+/**
+ * Helper: create a blocked user
+ */
+const createBlockedUser = (id: string): BlockedUser => ({
+  id,
+  displayName: `User ${id}`,
+  blockedAt: '2026-10-01T00:00:00Z',
+});
+
+describe('blockStore', () => {
+  beforeEach(() => {
+    useBlockStore.getState().reset();
+    jest.clearAllMocks();
+  });
+
+  // -------------------------------------------------------------------
+  // fetchBlockedUsers
+  // -------------------------------------------------------------------
+  describe('fetchBlockedUsers', () => {
+    it('should load the blocked user list', async () => {
+      mockedGetBlockedUsers.mockResolvedValue([createBlockedUser('u1'), createBlockedUser('u2')]);
+
+      await useBlockStore.getState().fetchBlockedUsers();
+
+      const state = useBlockStore.getState();
+      expect(state.blockedUsers.map((u) => u.id)).toEqual(['u1', 'u2']);
+      expect(state.isLoading).toBe(false);
+    });
+
+    it('should keep the list and set an error on failure', async () => {
+      useBlockStore.setState({ blockedUsers: [createBlockedUser('u1')] });
+      mockedGetBlockedUsers.mockRejectedValue(new Error('Network error'));
+
+      await useBlockStore.getState().fetchBlockedUsers();
+
+      const state = useBlockStore.getState();
+      expect(state.blockedUsers.map((u) => u.id)).toEqual(['u1']);
+      expect(state.error).toBe('Network error');
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // blockUser
+  // -------------------------------------------------------------------
+  describe('blockUser', () => {
+    it('should add the user before the request resolves', async () => {
+      let resolveRequest: (user: BlockedUser) => void = () => {};
+      mockedBlockUser.mockReturnValue(
+        new Promise((resolve) => {
+          resolveRequest = resolve;
+        })
+      );
+
+      const pending = useBlockStore.getState().blockUser({ id: 'u1', displayName: 'User u1' });
+
+      expect(useBlockStore.getState().blockedUsers.map((u) => u.id)).toEqual(['u1']);
+
+      resolveRequest({ ...createBlockedUser('u1'), blockedAt: '2026-10-19T00:00:00Z' });
+      await pending;
+
+      expect(mockedBlockUser).toHaveBeenCalledWith('u1');
+      expect(useBlockStore.getState().blockedUsers[0].blockedAt).toBe('2026-10-19T00:00:00Z');
+    });
+
+    it('should roll back and rethrow on failure', async () => {
+      useBlockStore.setState({ blockedUsers: [createBlockedUser('u2')] });
+      mockedBlockUser.mockRejectedValue(new Error('Server error'));
+
+      await expect(
+        useBlockStore.getState().blockUser({ id: 'u1', displayName: 'User u1' })
+      ).rejects.toThrow('Server error');
+
+      const state = useBlockStore.getState();
+      expect(state.blockedUsers.map((u) => u.id)).toEqual(['u2']);
+      expect(state.error).toBe('Server error');
+    });
+
+    it('should not call the API for an already blocked user', async () => {
+      useBlockStore.setState({ blockedUsers: [createBlockedUser('u1')] });
+
+      await useBlockStore.getState().blockUser({ id: 'u1', displayName: 'User u1' });
+
+      expect(mockedBlockUser).not.toHaveBeenCalled();
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // unblockUser
+  // -------------------------------------------------------------------
+  describe('unblockUser', () => {
+    it('should remove the user', async () => {
+      useBlockStore.setState({ blockedUsers: [createBlockedUser('u1'), createBlockedUser('u2')] });
+      mockedUnblockUser.mockResolvedValue(undefined);
+
+      await useBlockStore.getState().unblockUser('u1');
+
+      expect(mockedUnblockUser).toHaveBeenCalledWith('u1');
+      expect(useBlockStore.getState().blockedUsers.map((u) => u.id)).toEqual(['u2']);
+    });
+
+    it('should restore the user at its position on failure', async () => {
+      useBlockStore.setState({
+        blockedUsers: [createBlockedUser('u1'), createBlockedUser('u2'), createBlockedUser('u3')],
+      });
+      mockedUnblockUser.mockRejectedValue(new Error('Server error'));
+
+      await expect(useBlockStore.getState().unblockUser('u2')).rejects.toThrow('Server error');
+
+      expect(useBlockStore.getState().blockedUsers.map((u) => u.id)).toEqual(['u1', 'u2', 'u3']);
+    });
+  });
+});
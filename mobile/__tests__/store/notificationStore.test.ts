@@ -0,0 +1,267 @@
+/**
+ * Unit Tests for notificationStore (Zustand)
+ *
+ * Tests inbox pagination, filtering, optimistic mark-as-read and settings.
+ * The notificationService is fully mocked.
+ */
+
+jest.mock('../../src/services/notificationService', () => ({
+  notificationService: {
+    fetchNotifications: jest.fn(),
+    markAsRead: jest.fn(),
+    getSettings: jest.fn(),
+    updateSettings: jest.fn(),
+    requestPermission: jest.fn(),
+    getExpoPushToken: jest.fn(),
+    registerDeviceToken: jest.fn(),
+    unregisterDeviceToken: jest.fn(),
+  },
+}));
+
+import { notificationService } from '../../src/services/notificationService';
+import { useNotificationStore } from '../../src/store/notificationStore';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../../src/types/notification';
+
+import type { Notification } from '../../src/types/notification';
+
+const mockedService = jest.mocked(notificationService);
+
+/**
+ * Helper: create a mock notification
+ */
+const createNotification = (id: string, overrides: Partial<Notification> = {}): Notification => ({
+  id,
+  type: 'like',
+  title: 'New like',
+  body: 'Someone liked your photo',
+  data: { photoId: 'photo-1' },
+  isRead: false,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+/**
+ * Helper: build a fetchNotifications result
+ */
+const page = (
+  notifications: Notification[],
+  currentPage: number,
+  totalPages: number,
+  unreadCount = 0
+) => ({
+  notifications,
+  pagination: { currentPage, totalPages, totalCount: notifications.length, perPage: 20 },
+  unreadCount,
+});
+
+describe('notificationStore', () => {
+  beforeEach(() => {
+    useNotificationStore.getState().reset();
+    jest.clearAllMocks();
+  });
+
+  // -------------------------------------------------------------------
+  // fetchNotifications / fetchNextPage
+  // -------------------------------------------------------------------
+  describe('fetchNotifications', () => {
+    it('should load the first page and unread count', async () => {
+      mockedService.fetchNotifications.mockResolvedValue(
+        page([createNotification('n1'), createNotification('n2')], 1, 3, 7)
+      );
+
+      await useNotificationStore.getState().fetchNotifications();
+
+      const state = useNotificationStore.getState();
+      expect(mockedService.fetchNotifications).toHaveBeenCalledWith(1, 20, undefined);
+      expect(state.notifications.map((n) => n.id)).toEqual(['n1', 'n2']);
+      expect(state.unreadCount).toBe(7);
+      expect(state.currentPage).toBe(1);
+      expect(state.totalPages).toBe(3);
+      expect(state.isLoading).toBe(false);
+    });
+
+    it('should pass the type filter and replace the list', async () => {
+      useNotificationStore.setState({ notifications: [createNotification('old')] });
+      mockedService.fetchNotifications.mockResolvedValue(
+        page([createNotification('c1', { type: 'comment' })], 1, 1, 1)
+      );
+
+      await useNotificationStore.getState().fetchNotifications(1, 'comment');
+
+      const state = useNotificationStore.getState();
+      expect(mockedService.fetchNotifications).toHaveBeenCalledWith(1, 20, 'comment');
+      expect(state.filter).toBe('comment');
+      expect(state.notifications.map((n) => n.id)).toEqual(['c1']);
+    });
+
+    it('should append the next page without duplicates', async () => {
+      mockedService.fetchNotifications
+        .mockResolvedValueOnce(page([createNotification('n1'), createNotification('n2')], 1, 2))
+        .mockResolvedValueOnce(page([createNotification('n2'), createNotification('n3')], 2, 2));
+
+      await useNotificationStore.getState().fetchNotifications();
+      await useNotificationStore.getState().fetchNextPage();
+
+      expect(mockedService.fetchNotifications).toHaveBeenLastCalledWith(2, 20, undefined);
+      expect(useNotificationStore.getState().notifications.map((n) => n.id)).toEqual([
+        'n1',
+        'n2',
+        'n3',
+      ]);
+    });
+
+    it('should not fetch past the last page', async () => {
+      mockedService.fetchNotifications.mockResolvedValue(page([createNotification('n1')], 1, 1));
+
+      await useNotificationStore.getState().fetchNotifications();
+      await useNotificationStore.getState().fetchNextPage();
+
+      expect(mockedService.fetchNotifications).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore responses for a filter that is no longer active', async () => {
+      let resolveLike: (value: ReturnType<typeof page>) => void = () => {};
+      mockedService.fetchNotifications
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveLike = resolve)))
+        .mockResolvedValueOnce(page([createNotification('s1', { type: 'system' })], 1, 1));
+
+      const likeRequest = useNotificationStore.getState().fetchNotifications(1, 'like');
+      await useNotificationStore.getState().fetchNotifications(1, 'system');
+      resolveLike(page([createNotification('l1')], 1, 1));
+      await likeRequest;
+
+      const state = useNotificationStore.getState();
+      expect(state.filter).toBe('system');
+      expect(state.notifications.map((n) => n.id)).toEqual(['s1']);
+    });
+
+    it('should set error on failure', async () => {
+      mockedService.fetchNotifications.mockRejectedValue(new Error('Network error'));
+
+      await useNotificationStore.getState().fetchNotifications();
+
+      const state = useNotificationStore.getState();
+      expect(state.error).toBe('Network error');
+      expect(state.isLoading).toBe(false);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // markAsRead
+  // -------------------------------------------------------------------
+  describe('markAsRead', () => {
+    beforeEach(() => {
+      useNotificationStore.setState({
+        notifications: [
+          createNotification('n1'),
+          createNotification('n2'),
+          createNotification('n3', { isRead: true }),
+        ],
+        unreadCount: 5,
+      });
+    });
+
+    it('should mark selected notifications as read optimistically', async () => {
+      mockedService.markAsRead.mockResolvedValue(1);
+
+      await useNotificationStore.getState().markAsRead(['n1']);
+
+      const state = useNotificationStore.getState();
+      expect(mockedService.markAsRead).toHaveBeenCalledWith(['n1']);
+      expect(state.notifications.find((n) => n.id === 'n1')?.isRead).toBe(true);
+      expect(state.notifications.find((n) => n.id === 'n2')?.isRead).toBe(false);
+      expect(state.unreadCount).toBe(4);
+    });
+
+    it('should skip the request when the notifications are already read', async () => {
+      await useNotificationStore.getState().markAsRead(['n3']);
+
+      expect(mockedService.markAsRead).not.toHaveBeenCalled();
+    });
+
+    it('should mark all notifications as read when no IDs are given', async () => {
+      mockedService.markAsRead.mockResolvedValue(5);
+
+      await useNotificationStore.getState().markAsRead();
+
+      const state = useNotificationStore.getState();
+      expect(mockedService.markAsRead).toHaveBeenCalledWith(undefined);
+      expect(state.notifications.every((n) => n.isRead)).toBe(true);
+      expect(state.unreadCount).toBe(0);
+    });
+
+    it('should roll back on failure', async () => {
+      mockedService.markAsRead.mockRejectedValue(new Error('Server error'));
+
+      await expect(useNotificationStore.getState().markAsRead()).rejects.toThrow('Server error');
+
+      const state = useNotificationStore.getState();
+      expect(state.notifications.filter((n) => !n.isRead).map((n) => n.id)).toEqual(['n1', 'n2']);
+      expect(state.unreadCount).toBe(5);
+      expect(state.error).toBe('Server error');
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // Settings
+  // -------------------------------------------------------------------
+  describe('settings', () => {
+    it('should fetch settings', async () => {
+      const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, likes: false };
+      mockedService.getSettings.mockResolvedValue(settings);
+
+      await useNotificationStore.getState().fetchSettings();
+
+      expect(useNotificationStore.getState().settings).toEqual(settings);
+    });
+
+    it('should roll back settings when the update fails', async () => {
+      mockedService.updateSettings.mockRejectedValue(new Error('Failed'));
+
+      await expect(
+        useNotificationStore.getState().updateSettings({ comments: false })
+      ).rejects.toThrow('Failed');
+
+      expect(useNotificationStore.getState().settings.comments).toBe(true);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // Device registration
+  // -------------------------------------------------------------------
+  describe('registerDevice', () => {
+    it('should register the push token when permission is granted', async () => {
+      mockedService.requestPermission.mockResolvedValue(true);
+      mockedService.getExpoPushToken.mockResolvedValue('ExponentPushToken[abc]');
+      mockedService.registerDeviceToken.mockResolvedValue({
+        data: { deviceTokenId: 'd1', platform: 'ios' },
+      });
+
+      await useNotificationStore.getState().registerDevice();
+
+      const state = useNotificationStore.getState();
+      expect(mockedService.registerDeviceToken).toHaveBeenCalledWith('ExponentPushToken[abc]');
+      expect(state.hasPermission).toBe(true);
+      expect(state.expoPushToken).toBe('ExponentPushToken[abc]');
+    });
+
+    it('should not register without permission', async () => {
+      mockedService.requestPermission.mockResolvedValue(false);
+
+      await useNotificationStore.getState().registerDevice();
+
+      expect(mockedService.getExpoPushToken).not.toHaveBeenCalled();
+      expect(useNotificationStore.getState().hasPermission).toBe(false);
+    });
+
+    it('should unregister the stored token', async () => {
+      useNotificationStore.setState({ expoPushToken: 'ExponentPushToken[abc]' });
+      mockedService.unregisterDeviceToken.mockResolvedValue();
+
+      await useNotificationStore.getState().unregisterDevice();
+
+      expect(mockedService.unregisterDeviceToken).toHaveBeenCalledWith('ExponentPushToken[abc]');
+      expect(useNotificationStore.getState().expoPushToken).toBeNull();
+    });
+  });
+});
@@ -101,6 +101,26 @@ describe('rainbowMomentStore', () => {
       useRainbowMomentStore.getState().setParticipating(false);
       expect(useRainbowMomentStore.getState().isParticipating).toBe(false);
     });
+
+    it('should remember the joined moment', () => {
+      useRainbowMomentStore.getState().setActiveMoment(mockMoment);
+      useRainbowMomentStore.getState().setParticipating(true);
+      expect(useRainbowMomentStore.getState().joinedMomentId).toBe('moment-1');
+    });
+
+    it('should keep the joined moment when the active moment is cleared', () => {
+      useRainbowMomentStore.getState().setActiveMoment(mockMoment);
+      useRainbowMomentStore.getState().setParticipating(true);
+      useRainbowMomentStore.getState().setActiveMoment(null);
+      expect(useRainbowMomentStore.getState().joinedMomentId).toBe('moment-1');
+    });
+
+    it('should forget the joined moment on leave', () => {
+      useRainbowMomentStore.getState().setActiveMoment(mockMoment);
+      useRainbowMomentStore.getState().setParticipating(true);
+      useRainbowMomentStore.getState().setParticipating(false);
+      expect(useRainbowMomentStore.getState().joinedMomentId).toBeNull();
+    });
   });
 
   describe('updateParticipantCount', () => {
@@ -181,6 +201,7 @@ describe('rainbowMomentStore', () => {
       const state = useRainbowMomentStore.getState();
       expect(state.activeMoment).toBeNull();
       expect(state.isParticipating).toBe(false);
+      expect(state.joinedMomentId).toBeNull();
       expect(state.participantCount).toBe(0);
       expect(state.livePhotos).toEqual([]);
       expect(state.pastMoments).toEqual([]);
@@ -5,8 +5,14 @@
  * AsyncStorage is mocked in the setup file.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
 // Import the store after mocks are in place (setup.ts handles AsyncStorage mock)
-import { useUploadQueueStore } from '../../src/store/uploadQueueStore';
+import {
+  useUploadQueueStore,
+  calculateRetryDelay,
+  RETRY_LIMITS,
+} from '../../src/store/uploadQueueStore';
 
 import type { QueuedUpload } from '../../src/store/uploadQueueStore';
 import type { PhotoUploadMetadata } from '../../src/types/photo';
@@ -30,7 +36,7 @@ const createMockMetadata = (
  * Helper: reset the store to initial state between tests
  */
 const resetStore = () => {
-  useUploadQueueStore.setState({ queue: [], isProcessing: false });
+  useUploadQueueStore.setState({ queue: [], isProcessing: false, uploadProgress: {} });
 };
 
 /**
@@ -114,6 +120,15 @@ describe('uploadQueueStore', () => {
       expect(queue[1].photoUri).toBe('file:///b.jpg');
       expect(queue[2].photoUri).toBe('file:///c.jpg');
     });
+
+    it('should keep the checkpoint of a partially sent upload', () => {
+      const checkpoint = { uploadId: 'upload-1', receivedBytes: 262144 };
+      useUploadQueueStore
+        .getState()
+        .addToQueue('file:///partial.jpg', createMockMetadata(), checkpoint);
+
+      expect(useUploadQueueStore.getState().queue[0].checkpoint).toEqual(checkpoint);
+    });
   });
 
   // -------------------------------------------------------------------
@@ -211,59 +226,246 @@ describe('uploadQueueStore', () => {
   });
 
   // -------------------------------------------------------------------
-  // incrementRetryCount
+  // recordFailure
   // -------------------------------------------------------------------
-  describe('incrementRetryCount', () => {
-    it('should increment retryCount by 1', () => {
+  describe('recordFailure', () => {
+    const NOW = Date.parse('2026-10-19T08:00:00Z');
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should schedule a transient failure for retry with backoff', () => {
       const { id } = addItemToQueue();
 
-      useUploadQueueStore.getState().incrementRetryCount(id);
+      useUploadQueueStore.getState().recordFailure(id, 'network', 'Network error');
 
-      const item = useUploadQueueStore
-        .getState()
-        .queue.find((q) => q.id === id)!;
+      const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
+      expect(item.status).toBe('pending');
       expect(item.retryCount).toBe(1);
+      expect(item.errorClass).toBe('network');
+      expect(item.errorMessage).toBe('Network error');
+      expect(item.lastAttemptAt).toBe(new Date(NOW).toISOString());
+      expect(item.nextAttemptAt).toBe(new Date(NOW + 1000).toISOString());
     });
 
-    it('should increment retryCount cumulatively', () => {
+    it('should double the delay with each failure', () => {
       const { id } = addItemToQueue();
 
-      useUploadQueueStore.getState().incrementRetryCount(id);
-      useUploadQueueStore.getState().incrementRetryCount(id);
+      useUploadQueueStore.getState().recordFailure(id, 'server', 'Server error');
+      useUploadQueueStore.getState().recordFailure(id, 'server', 'Server error');
+      useUploadQueueStore.getState().recordFailure(id, 'server', 'Server error');
 
-      const item = useUploadQueueStore
-        .getState()
-        .queue.find((q) => q.id === id)!;
-      expect(item.retryCount).toBe(2);
+      const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
+      expect(item.retryCount).toBe(3);
+      expect(item.nextAttemptAt).toBe(new Date(NOW + 4000).toISOString());
     });
 
-    it('should mark as error when max retries (3) are exceeded', () => {
+    it('should dead-letter a transient failure once out of retries', () => {
       const { id } = addItemToQueue();
 
-      // Increment 3 times to reach MAX_RETRIES
-      useUploadQueueStore.getState().incrementRetryCount(id);
-      useUploadQueueStore.getState().incrementRetryCount(id);
-      useUploadQueueStore.getState().incrementRetryCount(id);
+      for (let i = 0; i < RETRY_LIMITS.server; i++) {
+        useUploadQueueStore.getState().recordFailure(id, 'server', 'Server error');
+      }
 
-      const item = useUploadQueueStore
-        .getState()
-        .queue.find((q) => q.id === id)!;
-      expect(item.retryCount).toBe(3);
+      const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
       expect(item.status).toBe('error');
-      expect(item.errorMessage).toBe('Maximum retry attempts exceeded');
+      expect(item.retryCount).toBe(RETRY_LIMITS.server);
+      expect(item.nextAttemptAt).toBeUndefined();
     });
 
-    it('should not mark as error before max retries', () => {
+    it('should count failures per class', () => {
       const { id } = addItemToQueue();
 
-      useUploadQueueStore.getState().incrementRetryCount(id);
-      useUploadQueueStore.getState().incrementRetryCount(id);
+      for (let i = 0; i < RETRY_LIMITS.server; i++) {
+        useUploadQueueStore.getState().recordFailure(id, 'network', 'Network error');
+      }
+      useUploadQueueStore.getState().recordFailure(id, 'server', 'Server error');
 
-      const item = useUploadQueueStore
-        .getState()
-        .queue.find((q) => q.id === id)!;
-      expect(item.retryCount).toBe(2);
+      const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
       expect(item.status).toBe('pending');
+      expect(item.retryCount).toBe(1);
+      expect(item.nextAttemptAt).toBe(new Date(NOW + 1000).toISOString());
+    });
+
+    it('should allow more retries for network failures than server failures', () => {
+      expect(RETRY_LIMITS.network).toBeGreaterThan(RETRY_LIMITS.server);
+    });
+
+    it.each(['validation', 'auth', 'local'] as const)(
+      'should dead-letter a %s failure immediately',
+      (errorClass) => {
+        const { id } = addItemToQueue();
+
+        useUploadQueueStore
+          .getState()
+          .recordFailure(id, errorClass, 'Validation failed: Title is too long');
+
+        const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
+        expect(item.status).toBe('error');
+        expect(item.errorClass).toBe(errorClass);
+        expect(item.errorMessage).toBe('Validation failed: Title is too long');
+        expect(item.nextAttemptAt).toBeUndefined();
+      }
+    );
+
+    it('should clear the progress of the item', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().setUploadProgress(id, 50);
+
+      useUploadQueueStore.getState().recordFailure(id, 'network', 'Network error');
+
+      expect(useUploadQueueStore.getState().uploadProgress).toEqual({});
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // calculateRetryDelay
+  // -------------------------------------------------------------------
+  describe('calculateRetryDelay', () => {
+    it('should grow exponentially from one second', () => {
+      expect([1, 2, 3, 4].map(calculateRetryDelay)).toEqual([1000, 2000, 4000, 8000]);
+    });
+
+    it('should be capped at five minutes', () => {
+      expect(calculateRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // retryUpload
+  // -------------------------------------------------------------------
+  describe('retryUpload', () => {
+    it('should return a dead-lettered item to the queue with a fresh retry budget', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().recordFailure(id, 'validation', 'Title is too long');
+
+      useUploadQueueStore.getState().retryUpload(id);
+
+      const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
+      expect(item.status).toBe('pending');
+      expect(item.retryCount).toBe(0);
+      expect(item.errorClass).toBeUndefined();
+      expect(item.errorMessage).toBeUndefined();
+      expect(item.nextAttemptAt).toBeUndefined();
+    });
+
+    it('should apply edited metadata', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().recordFailure(id, 'validation', 'Title is too long');
+
+      useUploadQueueStore.getState().retryUpload(id, { title: 'Short title' });
+
+      const item = useUploadQueueStore.getState().queue.find((q) => q.id === id)!;
+      expect(item.metadata).toEqual(createMockMetadata({ title: 'Short title' }));
+    });
+
+    it('should keep the checkpoint', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().setCheckpoint(id, { uploadId: 'upload-1', receivedBytes: 100 });
+      useUploadQueueStore.getState().recordFailure(id, 'auth', 'Unauthorized');
+
+      useUploadQueueStore.getState().retryUpload(id);
+
+      expect(useUploadQueueStore.getState().queue[0].checkpoint).toEqual({
+        uploadId: 'upload-1',
+        receivedBytes: 100,
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // setUploadProgress
+  // -------------------------------------------------------------------
+  describe('setUploadProgress', () => {
+    it('should record progress per item', () => {
+      const { id: id1 } = addItemToQueue('file:///a.jpg');
+      const { id: id2 } = addItemToQueue('file:///b.jpg');
+
+      useUploadQueueStore.getState().setUploadProgress(id1, 40);
+      useUploadQueueStore.getState().setUploadProgress(id2, 75);
+
+      expect(useUploadQueueStore.getState().uploadProgress).toEqual({ [id1]: 40, [id2]: 75 });
+    });
+
+    it('should reset progress when the status changes', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().updateStatus(id, 'uploading');
+      useUploadQueueStore.getState().setUploadProgress(id, 60);
+
+      useUploadQueueStore.getState().updateStatus(id, 'success');
+
+      expect(useUploadQueueStore.getState().uploadProgress).toEqual({});
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // setCheckpoint
+  // -------------------------------------------------------------------
+  describe('setCheckpoint', () => {
+    it('should record the last acknowledged position on the item', () => {
+      const { id } = addItemToQueue('file:///a.jpg');
+      addItemToQueue('file:///b.jpg');
+
+      useUploadQueueStore.getState().setCheckpoint(id, { uploadId: 'upload-1', receivedBytes: 100 });
+
+      const queue = useUploadQueueStore.getState().queue;
+      expect(queue[0].checkpoint).toEqual({ uploadId: 'upload-1', receivedBytes: 100 });
+      expect(queue[1].checkpoint).toBeUndefined();
+    });
+
+    it('should be kept when the upload is requeued', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().setCheckpoint(id, { uploadId: 'upload-1', receivedBytes: 100 });
+
+      useUploadQueueStore.getState().requeue(id);
+
+      expect(useUploadQueueStore.getState().queue[0].checkpoint).toEqual({
+        uploadId: 'upload-1',
+        receivedBytes: 100,
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // requeue
+  // -------------------------------------------------------------------
+  describe('requeue', () => {
+    it('should return the item to the end of the queue as pending', () => {
+      const { id } = addItemToQueue('file:///canceled.jpg');
+      addItemToQueue('file:///next.jpg');
+      useUploadQueueStore.getState().updateStatus(id, 'uploading');
+      useUploadQueueStore.getState().setUploadProgress(id, 30);
+
+      useUploadQueueStore.getState().requeue(id);
+
+      const { queue, uploadProgress } = useUploadQueueStore.getState();
+      expect(queue.map((q) => q.photoUri)).toEqual(['file:///next.jpg', 'file:///canceled.jpg']);
+      expect(queue[1].status).toBe('pending');
+      expect(queue[1].errorMessage).toBeUndefined();
+      expect(uploadProgress).toEqual({});
+    });
+
+    it('should keep the retry count', () => {
+      const { id } = addItemToQueue();
+      useUploadQueueStore.getState().recordFailure(id, 'network', 'Network error');
+
+      useUploadQueueStore.getState().requeue(id);
+
+      expect(useUploadQueueStore.getState().queue[0].retryCount).toBe(1);
+    });
+
+    it('should be a no-op if id does not exist', () => {
+      addItemToQueue();
+      const before = useUploadQueueStore.getState().queue;
+
+      useUploadQueueStore.getState().requeue('nonexistent');
+
+      expect(useUploadQueueStore.getState().queue).toBe(before);
     });
   });
 
@@ -301,14 +503,11 @@ describe('uploadQueueStore', () => {
       expect(next!.id).toBe(id2);
     });
 
-    it('should skip items that have exceeded max retries', () => {
+    it('should skip dead-lettered items', () => {
       const { id: id1 } = addItemToQueue('file:///a.jpg');
       const { id: id2 } = addItemToQueue('file:///b.jpg');
 
-      // Exhaust retries on first item (MAX_RETRIES = 3)
-      useUploadQueueStore.getState().incrementRetryCount(id1);
-      useUploadQueueStore.getState().incrementRetryCount(id1);
-      useUploadQueueStore.getState().incrementRetryCount(id1);
+      useUploadQueueStore.getState().recordFailure(id1, 'validation', 'Title is too long');
 
       const next = useUploadQueueStore.getState().getNextPending();
 
@@ -316,6 +515,37 @@ describe('uploadQueueStore', () => {
       expect(next!.id).toBe(id2);
     });
 
+    it('should skip items until their backoff has elapsed', () => {
+      const { id: id1 } = addItemToQueue('file:///a.jpg');
+      const { id: id2 } = addItemToQueue('file:///b.jpg');
+      useUploadQueueStore.getState().recordFailure(id1, 'network', 'Network error');
+      const nextAttemptAt = Date.parse(
+        useUploadQueueStore.getState().queue.find((q) => q.id === id1)!.nextAttemptAt!
+      );
+
+      expect(useUploadQueueStore.getState().getNextPending(nextAttemptAt - 1)!.id).toBe(id2);
+      expect(useUploadQueueStore.getState().getNextPending(nextAttemptAt)!.id).toBe(id1);
+    });
+
+    it('should respect backoff scheduled before a restart', () => {
+      const now = Date.now();
+      useUploadQueueStore.setState({
+        queue: [
+          {
+            id: 'persisted',
+            photoUri: 'file:///a.jpg',
+            metadata: createMockMetadata(),
+            status: 'pending',
+            retryCount: 2,
+            createdAt: new Date(now - 60000).toISOString(),
+            nextAttemptAt: new Date(now + 60000).toISOString(),
+          },
+        ],
+      });
+
+      expect(useUploadQueueStore.getState().getNextPending(now)).toBeUndefined();
+    });
+
     it('should return undefined when all items are completed or failed', () => {
       const { id: id1 } = addItemToQueue('file:///a.jpg');
       const { id: id2 } = addItemToQueue('file:///b.jpg');
@@ -428,4 +658,56 @@ describe('uploadQueueStore', () => {
       expect(useUploadQueueStore.getState().isProcessing).toBe(false);
     });
   });
+
+  // -------------------------------------------------------------------
+  // rehydration
+  // -------------------------------------------------------------------
+  describe('rehydration', () => {
+    const persistQueue = (queue: QueuedUpload[]) =>
+      AsyncStorage.setItem('upload-queue-storage', JSON.stringify({ state: { queue }, version: 0 }));
+
+    const persistedItem = (overrides: Partial<QueuedUpload>): QueuedUpload => ({
+      id: 'persisted',
+      photoUri: 'file:///a.jpg',
+      metadata: createMockMetadata(),
+      status: 'pending',
+      retryCount: 0,
+      createdAt: '2025-06-15T14:30:00Z',
+      ...overrides,
+    });
+
+    afterEach(async () => {
+      await AsyncStorage.removeItem('upload-queue-storage');
+    });
+
+    it('should make uploads interrupted by a restart pending again with their checkpoint', async () => {
+      await persistQueue([
+        persistedItem({
+          status: 'uploading',
+          checkpoint: { uploadId: 'upload-1', receivedBytes: 262144 },
+        }),
+      ]);
+
+      await useUploadQueueStore.persist.rehydrate();
+
+      const [item] = useUploadQueueStore.getState().queue;
+      expect(item.status).toBe('pending');
+      expect(item.checkpoint).toEqual({ uploadId: 'upload-1', receivedBytes: 262144 });
+      expect(useUploadQueueStore.getState().getNextPending()?.id).toBe('persisted');
+    });
+
+    it('should leave other statuses unchanged', async () => {
+      await persistQueue([
+        persistedItem({ id: 'failed', status: 'error', errorMessage: 'Rejected' }),
+        persistedItem({ id: 'done', status: 'success' }),
+      ]);
+
+      await useUploadQueueStore.persist.rehydrate();
+
+      expect(useUploadQueueStore.getState().queue.map((q) => q.status)).toEqual([
+        'error',
+        'success',
+      ]);
+    });
+  });
 });
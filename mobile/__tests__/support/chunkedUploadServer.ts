@@ -0,0 +1,199 @@
+/**
+ * Chunked Upload Stand-in Server
+ *
+ * In-memory implementation of the resumable upload endpoints
+ * (POST /photos/uploads, GET/PATCH /photos/uploads/:id,
+ * POST /photos/uploads/:id/complete) for service tests. Wire it into the
+ * mocked apiClient with `server.install(mockedApiClient)`.
+ *
+ * Follows the backend contract in docs/api.md: appends and completions are
+ * idempotent, a chunk past the acknowledged offset is rejected with 2004,
+ * and unknown or expired uploads return 3003. Failures are rejected the way apiClient
+ * normalizes them (Error with `code` and `details`).
+ */
+
+interface StoredUpload {
+  id: string;
+  filename: string;
+  contentType: string;
+  byteSize: number;
+  data: number[];
+  expired: boolean;
+  /** Photo created by completing the upload */
+  photoId?: string;
+}
+
+interface AxiosLikeConfig {
+  headers?: Record<string, string>;
+  onUploadProgress?: (event: { loaded: number; total?: number }) => void;
+}
+
+interface MockedClient {
+  get: jest.Mock;
+  post: jest.Mock;
+  patch: jest.Mock;
+}
+
+const NETWORK_ERROR_MESSAGE = 'Network error. Please check your internet connection.';
+
+const apiError = (code: number, message: string, details?: Record<string, unknown>): Error =>
+  Object.assign(new Error(message), { code, details });
+
+const notFound = (): Error => apiError(3003, 'Resource not found');
+
+export class ChunkedUploadServer {
+  /** Created photos, in order */
+  readonly photos: { id: string; uploadId: string; bytes: number[]; metadata: unknown }[] = [];
+  /** Upload-Offset of every chunk request that reached the server */
+  readonly chunkOffsets: number[] = [];
+
+  private readonly uploads = new Map<string, StoredUpload>();
+  private nextId = 1;
+  private readonly lostAckOffsets = new Set<number>();
+  private readonly droppedRequestOffsets = new Set<number>();
+  private loseCompletionAck = false;
+
+  constructor(readonly chunkSize: number) {}
+
+  /**
+   * Route the mocked apiClient's get/post/patch to this server
+   */
+  install(client: MockedClient): void {
+    client.get.mockImplementation((url: string) => this.get(url));
+    client.post.mockImplementation((url: string, body: unknown) => this.post(url, body));
+    client.patch.mockImplementation((url: string, body: Uint8Array, config?: AxiosLikeConfig) =>
+      this.patch(url, body, config)
+    );
+  }
+
+  /** Store the next chunk sent at this offset, but fail before the response arrives */
+  loseAckAt(offset: number): void {
+    this.lostAckOffsets.add(offset);
+  }
+
+  /** Fail the next chunk request sent at this offset before it reaches the server */
+  dropRequestAt(offset: number): void {
+    this.droppedRequestOffsets.add(offset);
+  }
+
+  /** Create the photo on the next completion, but fail before the response arrives */
+  loseCompletionAckOnce(): void {
+    this.loseCompletionAck = true;
+  }
+
+  /** Expire an upload so it is no longer found */
+  expire(uploadId: string): void {
+    const upload = this.uploads.get(uploadId);
+    if (upload) {
+      upload.expired = true;
+    }
+  }
+
+  /** Bytes the server has acknowledged for an upload */
+  receivedBytes(uploadId: string): number {
+    return this.uploads.get(uploadId)?.data.length ?? 0;
+  }
+
+  private async get(url: string) {
+    const upload = this.find(url.match(/^\/photos\/uploads\/([^/]+)$/)?.[1]);
+    return this.respond({ upload: this.session(upload) });
+  }
+
+  private async post(url: string, body: unknown) {
+    if (url === '/photos/uploads') {
+      const { upload } = body as {
+        upload: { filename: string; content_type: string; byte_size: number };
+      };
+      const stored: StoredUpload = {
+        id: `upload-${this.nextId++}`,
+        filename: upload.filename,
+        contentType: upload.content_type,
+        byteSize: upload.byte_size,
+        data: [],
+        expired: false,
+      };
+      this.uploads.set(stored.id, stored);
+      return this.respond({ upload: this.session(stored) });
+    }
+
+    const upload = this.find(url.match(/^\/photos\/uploads\/([^/]+)\/complete$/)?.[1]);
+    if (upload.photoId) {
+      return this.respond({ photo: { id: upload.photoId } });
+    }
+    if (upload.data.length < upload.byteSize) {
+      throw apiError(2003, 'Upload is incomplete', {
+        received_bytes: upload.data.length,
+        byte_size: upload.byteSize,
+      });
+    }
+
+    const photo = {
+      id: `photo-${this.photos.length + 1}`,
+      uploadId: upload.id,
+      bytes: upload.data,
+      metadata: (body as { photo: unknown }).photo,
+    };
+    this.photos.push(photo);
+    upload.photoId = photo.id;
+
+    if (this.loseCompletionAck) {
+      this.loseCompletionAck = false;
+      throw new Error(NETWORK_ERROR_MESSAGE);
+    }
+    return this.respond({ photo: { id: photo.id } });
+  }
+
+  private async patch(url: string, body: Uint8Array, config: AxiosLikeConfig = {}) {
+    const offset = Number(config.headers?.['Upload-Offset']);
+    if (this.droppedRequestOffsets.delete(offset)) {
+      throw new Error(NETWORK_ERROR_MESSAGE);
+    }
+
+    const upload = this.find(url.match(/^\/photos\/uploads\/([^/]+)$/)?.[1]);
+    this.chunkOffsets.push(offset);
+
+    if (body.length === 0 || body.length > this.chunkSize) {
+      throw apiError(2003, `Chunk must be between 1 and ${this.chunkSize} bytes`);
+    }
+    if (!Number.isInteger(offset) || offset > upload.data.length) {
+      throw apiError(2004, 'Chunk offset does not match the received data', {
+        received_bytes: upload.data.length,
+      });
+    }
+
+    // Keep only the bytes past the acknowledged offset
+    const newData = Array.from(body.subarray(upload.data.length - offset));
+    if (upload.data.length + newData.length > upload.byteSize) {
+      throw apiError(2003, 'Chunk extends past the declared file size');
+    }
+    upload.data.push(...newData);
+    config.onUploadProgress?.({ loaded: body.length, total: body.length });
+
+    if (this.lostAckOffsets.delete(offset)) {
+      throw new Error(NETWORK_ERROR_MESSAGE);
+    }
+    return this.respond({ upload: this.session(upload) });
+  }
+
+  private find(id: string | undefined): StoredUpload {
+    const upload = id ? this.uploads.get(id) : undefined;
+    if (!upload || upload.expired) {
+      throw notFound();
+    }
+    return upload;
+  }
+
+  private session(upload: StoredUpload) {
+    return {
+      id: upload.id,
+      byteSize: upload.byteSize,
+      receivedBytes: upload.data.length,
+      chunkSize: this.chunkSize,
+      expiresAt: '2026-10-20T08:00:00Z',
+    };
+  }
+
+  private respond<T>(data: T) {
+    return { data: { data } };
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for exifWriter utilities
+ *
+ * Tests building EXIF APP1 segments (read back with a minimal TIFF reader)
+ * and inserting them into JPEG data.
+ */
+
+import {
+  buildExifSegment,
+  formatExifDateTime,
+  insertExifSegment,
+} from '../../src/utils/exifWriter';
+
+/**
+ * Read the entries of an IFD as tag → decoded values
+ */
+const readIfd = (tiff: DataView, offset: number): Map<number, number[] | string> => {
+  const entries = new Map<number, number[] | string>();
+  const count = tiff.getUint16(offset);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = tiff.getUint16(entry);
+    const type = tiff.getUint16(entry + 2);
+    const valueCount = tiff.getUint32(entry + 4);
+    const size = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8 }[type]! * valueCount;
+    const valueOffset = size > 4 ? tiff.getUint32(entry + 8) : entry + 8;
+
+    if (type === 2) {
+      const chars = Array.from({ length: valueCount - 1 }, (_, c) =>
+        String.fromCharCode(tiff.getUint8(valueOffset + c))
+      );
+      entries.set(tag, chars.join(''));
+    } else if (type === 5) {
+      entries.set(
+        tag,
+        Array.from(
+          { length: valueCount },
+          (_, v) => tiff.getUint32(valueOffset + v * 8) / tiff.getUint32(valueOffset + v * 8 + 4)
+        )
+      );
+    } else {
+      entries.set(
+        tag,
+        Array.from({ length: valueCount }, (_, v) =>
+          type === 1
+            ? tiff.getUint8(valueOffset + v)
+            : type === 3
+              ? tiff.getUint16(valueOffset + v * 2)
+              : tiff.getUint32(valueOffset + v * 4)
+        )
+      );
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Parse a segment into its IFD0, Exif and GPS entries
+ */
+const parseSegment = (segment: Uint8Array) => {
+  const tiff = new DataView(segment.buffer, segment.byteOffset + 10);
+  const ifd0 = readIfd(tiff, tiff.getUint32(4));
+  const exifPointer = ifd0.get(0x8769) as number[] | undefined;
+  const gpsPointer = ifd0.get(0x8825) as number[] | undefined;
+
+  return {
+    byteOrder: tiff.getUint16(0),
+    ifd0,
+    exif: exifPointer ? readIfd(tiff, exifPointer[0]) : new Map(),
+    gps: gpsPointer ? readIfd(tiff, gpsPointer[0]) : new Map(),
+  };
+};
+
+const dms = (values: number[]) => values[0] + values[1] / 60 + values[2] / 3600;
+
+describe('exifWriter', () => {
+  describe('formatExifDateTime', () => {
+    it('formats a date in local time', () => {
+      expect(formatExifDateTime(new Date(2026, 9, 8, 7, 5, 3))).toBe('2026:10:08 07:05:03');
+    });
+  });
+
+  describe('buildExifSegment', () => {
+    it('returns null when there is nothing to write', () => {
+      expect(buildExifSegment({})).toBeNull();
+    });
+
+    it('builds an APP1 segment with the Exif header and a big-endian TIFF block', () => {
+      const segment = buildExifSegment({ orientation: 1 })!;
+
+      expect(Array.from(segment.subarray(0, 2))).toEqual([0xff, 0xe1]);
+      expect((segment[2] << 8) | segment[3]).toBe(segment.length - 2);
+      expect(String.fromCharCode(...segment.subarray(4, 8))).toBe('Exif');
+      expect(parseSegment(segment).byteOrder).toBe(0x4d4d);
+    });
+
+    it('writes orientation and the original capture time', () => {
+      const { ifd0, exif } = parseSegment(
+        buildExifSegment({ orientation: 1, dateTimeOriginal: '2026:10:18 17:42:05' })!
+      );
+
+      expect(ifd0.get(0x0112)).toEqual([1]);
+      expect(exif.get(0x9003)).toBe('2026:10:18 17:42:05');
+    });
+
+    it('writes the GPS position as degrees, minutes and seconds', () => {
+      const { gps } = parseSegment(
+        buildExifSegment({ latitude: 36.1157, longitude: 137.9644, altitude: 715.5 })!
+      );
+
+      expect(gps.get(0x0000)).toEqual([2, 3, 0, 0]);
+      expect(gps.get(0x0001)).toBe('N');
+      expect(dms(gps.get(0x0002) as number[])).toBeCloseTo(36.1157, 6);
+      expect(gps.get(0x0003)).toBe('E');
+      expect(dms(gps.get(0x0004) as number[])).toBeCloseTo(137.9644, 6);
+      expect(gps.get(0x0005)).toEqual([0]);
+      expect(gps.get(0x0006)).toEqual([715.5]);
+    });
+
+    it('uses the S/W references and below-sea-level altitude for negative values', () => {
+      const { gps } = parseSegment(
+        buildExifSegment({ latitude: -33.8688, longitude: -70.6693, altitude: -12 })!
+      );
+
+      expect(gps.get(0x0001)).toBe('S');
+      expect(dms(gps.get(0x0002) as number[])).toBeCloseTo(33.8688, 6);
+      expect(gps.get(0x0003)).toBe('W');
+      expect(gps.get(0x0005)).toEqual([1]);
+      expect(gps.get(0x0006)).toEqual([12]);
+    });
+
+    it('skips the GPS block without both coordinates', () => {
+      const { ifd0 } = parseSegment(buildExifSegment({ orientation: 1, latitude: 36.1 })!);
+
+      expect(ifd0.has(0x8825)).toBe(false);
+    });
+  });
+
+  describe('insertExifSegment', () => {
+    const segment = buildExifSegment({ orientation: 1 })!;
+    const app0 = [0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+    const staleExif = [0xff, 0xe1, 0x00, 0x08, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+    const imageData = [0xff, 0xdb, 0x00, 0x03, 0x01, 0xff, 0xd9];
+
+    it('puts the segment right after the start-of-image marker', () => {
+      const jpeg = Uint8Array.from([0xff, 0xd8, ...imageData]);
+
+      const result = insertExifSegment(jpeg, segment);
+
+      expect(Array.from(result)).toEqual([0xff, 0xd8, ...segment, ...imageData]);
+    });
+
+    it('replaces an existing EXIF segment and keeps other APP segments', () => {
+      const jpeg = Uint8Array.from([0xff, 0xd8, ...staleExif, ...app0, ...imageData]);
+
+      const result = insertExifSegment(jpeg, segment);
+
+      expect(Array.from(result)).toEqual([0xff, 0xd8, ...segment, ...app0, ...imageData]);
+    });
+
+    it('rejects data that is not a JPEG', () => {
+      expect(() => insertExifSegment(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]), segment)).toThrow(
+        'Not a JPEG image'
+      );
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Unit Tests for liveFeed utilities
+ *
+ * Tests conversion of PhotoFeedChannel broadcasts, matching against feed
+ * filters, merging into the cached infinite query pages, and applying
+ * NotificationsChannel like/comment counts to cached photos.
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+
+import {
+  matchesPhotoFilters,
+  mergeNewPhotos,
+  photoCountsFromNotification,
+  photoFromFeedMessage,
+  updateCachedPhotoCounts,
+  updatePhotoCountsInPage,
+  updatePhotoCountsInPages,
+} from '../../src/utils/liveFeed';
+
+import type { PhotoFeedMessage } from '../../src/services/cableService';
+import type { Photo, PhotoListResponse } from '../../src/types/photo';
+import type { PhotoWithSocial } from '../../src/types/social';
+import type { InfiniteData } from '@tanstack/react-query';
+
+const message: PhotoFeedMessage = {
+  type: 'new_photo',
+  photo: {
+    id: 'photo-new',
+    title: 'Evening Rainbow',
+    description: 'Double arc over Daimon',
+    user: { id: 'user-1', display_name: 'Seeker' },
+    latitude: 36.116,
+    longitude: 137.95,
+    thumbnail_url: 'https://example.com/thumb.jpg',
+    medium_url: 'https://example.com/medium.jpg',
+    captured_at: '2026-10-18T08:30:00Z',
+    created_at: '2026-10-18T08:35:00Z',
+  },
+};
+
+const createPhoto = (overrides: Partial<Photo> = {}): Photo => ({
+  id: 'photo-1',
+  title: 'Rainbow',
+  capturedAt: '2026-10-18T08:00:00Z',
+  location: { latitude: 36.1151, longitude: 137.9465 },
+  imageUrls: { thumbnail: 'thumb.jpg', medium: 'medium.jpg' },
+  likeCount: 2,
+  commentCount: 1,
+  user: { id: 'user-2', displayName: 'Other' },
+  createdAt: '2026-10-18T08:05:00Z',
+  ...overrides,
+});
+
+const createPage = (photos: Photo[], currentPage = 1): PhotoListResponse => ({
+  data: photos,
+  meta: { currentPage, totalPages: 2, totalCount: 40, perPage: 20 },
+});
+
+describe('liveFeed', () => {
+  describe('photoFromFeedMessage', () => {
+    it('converts the broadcast into a feed photo', () => {
+      expect(photoFromFeedMessage(message)).toEqual({
+        id: 'photo-new',
+        title: 'Evening Rainbow',
+        description: 'Double arc over Daimon',
+        capturedAt: '2026-10-18T08:30:00Z',
+        location: { latitude: 36.116, longitude: 137.95 },
+        imageUrls: {
+          thumbnail: 'https://example.com/thumb.jpg',
+          medium: 'https://example.com/medium.jpg',
+        },
+        likeCount: 0,
+        commentCount: 0,
+        user: { id: 'user-1', displayName: 'Seeker' },
+        createdAt: '2026-10-18T08:35:00Z',
+      });
+    });
+
+    it('handles photos without location or processed images', () => {
+      const photo = photoFromFeedMessage({
+        ...message,
+        photo: {
+          ...message.photo,
+          latitude: null,
+          longitude: null,
+          thumbnail_url: null,
+          medium_url: null,
+          captured_at: null,
+        },
+      });
+
+      expect(photo.location).toBeNull();
+      expect(photo.imageUrls).toEqual({ thumbnail: '', medium: '' });
+      expect(photo.capturedAt).toBe('2026-10-18T08:35:00Z');
+    });
+  });
+
+  describe('matchesPhotoFilters', () => {
+    const photo = photoFromFeedMessage(message);
+
+    it('matches when no filters are set', () => {
+      expect(matchesPhotoFilters(photo, { perPage: 20 })).toBe(true);
+    });
+
+    it('matches the keyword in the title or description, ignoring case', () => {
+      expect(matchesPhotoFilters(photo, { keyword: 'evening' })).toBe(true);
+      expect(matchesPhotoFilters(photo, { keyword: 'DAIMON' })).toBe(true);
+      expect(matchesPhotoFilters(photo, { keyword: 'sunset' })).toBe(false);
+    });
+
+    it('matches photos inside the radius', () => {
+      const filters = { latitude: 36.1151, longitude: 137.9465, radiusKm: 5 };
+      expect(matchesPhotoFilters(photo, filters)).toBe(true);
+    });
+
+    it('rejects photos outside the radius or without a location', () => {
+      const filters = { latitude: 35.681, longitude: 139.767, radiusKm: 10 };
+      expect(matchesPhotoFilters(photo, filters)).toBe(false);
+      expect(
+        matchesPhotoFilters(
+          { ...photo, location: null },
+          { latitude: 36.1151, longitude: 137.9465, radiusKm: 10 }
+        )
+      ).toBe(false);
+    });
+
+    it('matches the date range inclusively', () => {
+      expect(matchesPhotoFilters(photo, { startDate: '2026-10-01', endDate: '2026-10-31' })).toBe(
+        true
+      );
+      expect(matchesPhotoFilters(photo, { startDate: '2026-10-20' })).toBe(false);
+      expect(matchesPhotoFilters(photo, { endDate: '2026-10-01' })).toBe(false);
+    });
+
+    it('matches the user filter', () => {
+      expect(matchesPhotoFilters(photo, { userId: 'user-1' })).toBe(true);
+      expect(matchesPhotoFilters(photo, { userId: 'user-2' })).toBe(false);
+    });
+  });
+
+  describe('mergeNewPhotos', () => {
+    const existing = createPhoto();
+    const secondPage = createPage([createPhoto({ id: 'photo-21' })], 2);
+    const data: InfiniteData<PhotoListResponse> = {
+      pages: [createPage([existing]), secondPage],
+      pageParams: [1, 2],
+    };
+
+    it('prepends new photos to the first page only', () => {
+      const newPhoto = photoFromFeedMessage(message);
+
+      const merged = mergeNewPhotos(data, [newPhoto]);
+
+      expect(merged.pages[0].data.map((photo) => photo.id)).toEqual(['photo-new', 'photo-1']);
+      expect(merged.pages[0].meta.totalCount).toBe(41);
+      expect(merged.pages[1]).toBe(secondPage);
+      expect(merged.pageParams).toEqual([1, 2]);
+    });
+
+    it('skips photos that are already cached', () => {
+      const merged = mergeNewPhotos(data, [createPhoto({ id: 'photo-21' })]);
+
+      expect(merged).toBe(data);
+    });
+
+    it('leaves an empty cache untouched', () => {
+      const empty: InfiniteData<PhotoListResponse> = { pages: [], pageParams: [] };
+
+      expect(mergeNewPhotos(empty, [existing])).toBe(empty);
+    });
+  });
+
+  describe('photoCountsFromNotification', () => {
+    it('reads the like count from new_like', () => {
+      expect(
+        photoCountsFromNotification({
+          type: 'new_like',
+          photo_id: 'photo-1',
+          user: { id: 'user-2', display_name: 'Other' },
+          like_count: 3,
+        })
+      ).toEqual({ photoId: 'photo-1', counts: { likeCount: 3 } });
+    });
+
+    it('reads the comment count from new_comment', () => {
+      expect(
+        photoCountsFromNotification({
+          type: 'new_comment',
+          photo_id: 'photo-1',
+          comment: { id: 'c-1', content: 'Nice', user: { id: 'user-2', display_name: 'Other' } },
+          comment_count: 5,
+        })
+      ).toEqual({ photoId: 'photo-1', counts: { commentCount: 5 } });
+    });
+
+    it('ignores messages without photo counts', () => {
+      expect(photoCountsFromNotification({ type: 'rainbow_alert' })).toBeNull();
+      expect(photoCountsFromNotification({ type: 'new_like', photo_id: 'photo-1' })).toBeNull();
+    });
+  });
+
+  describe('updatePhotoCountsInPage / updatePhotoCountsInPages', () => {
+    const page = createPage([createPhoto(), createPhoto({ id: 'photo-2' })]);
+
+    it('updates only the matching photo', () => {
+      const updated = updatePhotoCountsInPage(page, 'photo-1', { likeCount: 7 });
+
+      expect(updated?.data[0]).toEqual({ ...page.data[0], likeCount: 7 });
+      expect(updated?.data[1]).toBe(page.data[1]);
+    });
+
+    it('keeps the same reference when nothing changes', () => {
+      expect(updatePhotoCountsInPage(page, 'photo-1', { likeCount: 2 })).toBe(page);
+      expect(updatePhotoCountsInPage(page, 'missing', { likeCount: 9 })).toBe(page);
+      expect(updatePhotoCountsInPage(undefined, 'photo-1', { likeCount: 9 })).toBeUndefined();
+    });
+
+    it('updates the photo on whichever page it is cached', () => {
+      const secondPage = createPage([createPhoto({ id: 'photo-21' })], 2);
+      const data: InfiniteData<PhotoListResponse> = {
+        pages: [page, secondPage],
+        pageParams: [1, 2],
+      };
+
+      const updated = updatePhotoCountsInPages(data, 'photo-21', { commentCount: 4 });
+
+      expect(updated?.pages[0]).toBe(page);
+      expect(updated?.pages[1].data[0].commentCount).toBe(4);
+      expect(updatePhotoCountsInPages(data, 'missing', { commentCount: 4 })).toBe(data);
+    });
+  });
+
+  describe('updateCachedPhotoCounts', () => {
+    it('updates the feed, profile grids and photo detail', () => {
+      const queryClient = new QueryClient();
+      const infinite = (): InfiniteData<PhotoListResponse> => ({
+        pages: [createPage([createPhoto()])],
+        pageParams: [1],
+      });
+      const detail: PhotoWithSocial = {
+        ...createPhoto(),
+        likedByCurrentUser: false,
+        isOwner: true,
+      };
+      queryClient.setQueryData(['photos', { perPage: 20 }], infinite());
+      queryClient.setQueryData(['photos', { keyword: 'rain' }], infinite());
+      queryClient.setQueryData(['userPhotos', 'user-2'], infinite());
+      queryClient.setQueryData(['myPhotos'], createPage([createPhoto()]));
+      queryClient.setQueryData(['photo', 'photo-1'], detail);
+
+      updateCachedPhotoCounts(queryClient, 'photo-1', { likeCount: 3, commentCount: 2 });
+
+      const feeds = queryClient.getQueriesData<InfiniteData<PhotoListResponse>>({
+        queryKey: ['photos'],
+      });
+      expect(feeds).toHaveLength(2);
+      feeds.forEach(([, data]) => {
+        expect(data?.pages[0].data[0]).toMatchObject({ likeCount: 3, commentCount: 2 });
+      });
+      expect(
+        queryClient.getQueryData<InfiniteData<PhotoListResponse>>(['userPhotos', 'user-2'])
+          ?.pages[0].data[0].likeCount
+      ).toBe(3);
+      expect(queryClient.getQueryData<PhotoListResponse>(['myPhotos'])?.data[0].likeCount).toBe(3);
+      expect(queryClient.getQueryData<PhotoWithSocial>(['photo', 'photo-1'])).toEqual({
+        ...detail,
+        likeCount: 3,
+        commentCount: 2,
+      });
+      queryClient.clear();
+    });
+
+    it('does not create cache entries for photos that are not loaded', () => {
+      const queryClient = new QueryClient();
+
+      updateCachedPhotoCounts(queryClient, 'photo-1', { likeCount: 3 });
+
+      expect(queryClient.getQueryData(['photo', 'photo-1'])).toBeUndefined();
+      expect(queryClient.getQueryData(['myPhotos'])).toBeUndefined();
+    });
+  });
+});
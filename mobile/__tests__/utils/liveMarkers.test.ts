@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for liveMarkers utilities
+ *
+ * Tests conversion of Rainbow Moment and photo feed broadcasts into map
+ * markers, and merging them with the loaded markers.
+ */
+
+import {
+  addLiveMarker,
+  markerFromFeedMessage,
+  markerFromMomentPhoto,
+  mergeLiveMarkers,
+  MAX_LIVE_MARKERS,
+  type LiveMapMarker,
+} from '../../src/utils/liveMarkers';
+
+import type { PhotoFeedMessage } from '../../src/services/cableService';
+import type { MapMarker } from '../../src/services/mapService';
+
+const createMarker = (id: string): MapMarker => ({
+  id,
+  latitude: 36.115,
+  longitude: 137.946,
+  thumbnailUrl: `https://example.com/${id}.jpg`,
+  capturedAt: '2026-10-18T08:00:00Z',
+});
+
+const feedMessage: PhotoFeedMessage = {
+  type: 'new_photo',
+  photo: {
+    id: 'photo-feed',
+    title: 'Evening Rainbow',
+    user: { id: 'user-1', display_name: 'Seeker' },
+    latitude: 36.116,
+    longitude: 137.95,
+    thumbnail_url: 'https://example.com/thumb.jpg',
+    captured_at: '2026-10-18T08:30:00Z',
+    created_at: '2026-10-18T08:35:00Z',
+  },
+};
+
+describe('liveMarkers', () => {
+  describe('markerFromMomentPhoto', () => {
+    it('converts a moment photo into a marker', () => {
+      expect(
+        markerFromMomentPhoto({
+          id: 'photo-moment',
+          user: { id: 'user-2', displayName: 'Other' },
+          thumbnailUrl: null,
+          latitude: 36.1,
+          longitude: 137.9,
+          capturedAt: '2026-10-18T08:10:00Z',
+        })
+      ).toEqual({
+        id: 'photo-moment',
+        latitude: 36.1,
+        longitude: 137.9,
+        thumbnailUrl: '',
+        capturedAt: '2026-10-18T08:10:00Z',
+        userId: 'user-2',
+      });
+    });
+  });
+
+  describe('markerFromFeedMessage', () => {
+    it('converts a feed broadcast into a marker', () => {
+      expect(markerFromFeedMessage(feedMessage)).toEqual({
+        id: 'photo-feed',
+        latitude: 36.116,
+        longitude: 137.95,
+        thumbnailUrl: 'https://example.com/thumb.jpg',
+        title: 'Evening Rainbow',
+        capturedAt: '2026-10-18T08:30:00Z',
+        userId: 'user-1',
+      });
+    });
+
+    it('returns null for photos without a location', () => {
+      expect(
+        markerFromFeedMessage({
+          ...feedMessage,
+          photo: { ...feedMessage.photo, latitude: null, longitude: null },
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('addLiveMarker', () => {
+    it('adds new markers first with their moment', () => {
+      const first = addLiveMarker([], createMarker('a'), 'moment-1');
+      const second = addLiveMarker(first, createMarker('b'), null);
+
+      expect(second.map((live) => [live.marker.id, live.momentId])).toEqual([
+        ['b', null],
+        ['a', 'moment-1'],
+      ]);
+    });
+
+    it('keeps a photo received on both channels once', () => {
+      const liveMarkers = addLiveMarker([], createMarker('a'), 'moment-1');
+
+      expect(addLiveMarker(liveMarkers, createMarker('a'), null)).toBe(liveMarkers);
+    });
+
+    it(`keeps at most ${MAX_LIVE_MARKERS} markers`, () => {
+      let liveMarkers: LiveMapMarker[] = [];
+      for (let i = 0; i <= MAX_LIVE_MARKERS; i++) {
+        liveMarkers = addLiveMarker(liveMarkers, createMarker(`m-${i}`), null);
+      }
+
+      expect(liveMarkers).toHaveLength(MAX_LIVE_MARKERS);
+      expect(liveMarkers[0].marker.id).toBe(`m-${MAX_LIVE_MARKERS}`);
+    });
+  });
+
+  describe('mergeLiveMarkers', () => {
+    const loaded = [createMarker('loaded'), createMarker('shared')];
+    const liveMarkers: LiveMapMarker[] = [
+      { marker: createMarker('new'), momentId: 'moment-1' },
+      { marker: createMarker('shared'), momentId: 'moment-1' },
+      { marker: createMarker('feed'), momentId: null },
+    ];
+
+    it('returns the loaded markers when nothing is live', () => {
+      expect(mergeLiveMarkers(loaded, [], 'moment-1')).toBe(loaded);
+    });
+
+    it('adds live markers and highlights those from the running moment', () => {
+      const merged = mergeLiveMarkers(loaded, liveMarkers, 'moment-1');
+
+      expect(merged.map((marker) => [marker.id, !!marker.isLive])).toEqual([
+        ['new', true],
+        ['feed', false],
+        ['loaded', false],
+        ['shared', true],
+      ]);
+    });
+
+    it('stops highlighting once the moment is archived', () => {
+      const merged = mergeLiveMarkers(loaded, liveMarkers, null);
+
+      expect(merged).toHaveLength(4);
+      expect(merged.some((marker) => marker.isLive)).toBe(false);
+    });
+  });
+});
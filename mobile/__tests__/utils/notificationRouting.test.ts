@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for notification routing
+ *
+ * Tests payload normalization (snake_case push payloads and camelCase
+ * in-app data) and the screen each notification opens.
+ */
+
+import {
+  normalizeNotificationData,
+  resolveNotificationRoute,
+} from '../../src/utils/notificationRouting';
+
+const now = () => 1_700_000_000_000;
+
+describe('notificationRouting', () => {
+  // -------------------------------------------------------------------
+  // normalizeNotificationData
+  // -------------------------------------------------------------------
+  describe('normalizeNotificationData', () => {
+    it('should accept snake_case push payloads', () => {
+      const data = normalizeNotificationData({
+        type: 'rainbow_alert',
+        location: { lat: '36.1', lng: 137.9 },
+        direction: 'NE',
+        probability: 0.82,
+        estimated_duration: 15,
+      });
+
+      expect(data.location).toEqual({ lat: 36.1, lng: 137.9 });
+      expect(data.direction).toBe('NE');
+      expect(data.probability).toBe(0.82);
+      expect(data.estimatedDuration).toBe(15);
+      expect(data.type).toBe('rainbow_alert');
+    });
+
+    it('should convert numeric IDs to strings', () => {
+      const data = normalizeNotificationData({ photo_id: 42, user_id: 7 });
+
+      expect(data.photoId).toBe('42');
+      expect(data.userId).toBe('7');
+    });
+
+    it('should drop incomplete locations', () => {
+      expect(normalizeNotificationData({ location: { lat: 36.1 } }).location).toBeUndefined();
+      expect(
+        normalizeNotificationData({ location: { lat: 'abc', lng: 137.9 } }).location
+      ).toBeUndefined();
+    });
+  });
+
+  // -------------------------------------------------------------------
+  // resolveNotificationRoute
+  // -------------------------------------------------------------------
+  describe('resolveNotificationRoute', () => {
+    it('should open PhotoDetail for like and comment notifications', () => {
+      expect(resolveNotificationRoute({ type: 'like', photo_id: 'p1', liker_id: 'u2' })).toEqual({
+        screen: 'FeedTab',
+        params: { screen: 'PhotoDetail', params: { photoId: 'p1' } },
+      });
+    });
+
+    it('should prefer the photo over the user', () => {
+      const route = resolveNotificationRoute(
+        { photoId: 'p1', userId: 'me' },
+        { currentUserId: 'me' }
+      );
+
+      expect(route.screen).toBe('FeedTab');
+    });
+
+    it('should centre the map on rainbow alerts', () => {
+      const route = resolveNotificationRoute(
+        { location: { lat: 36.1, lng: 137.9 }, direction: 'SW', probability: 0.7 },
+        { now }
+      );
+
+      expect(route).toEqual({
+        screen: 'MapTab',
+        params: {
+          screen: 'Map',
+          params: {
+            focus: {
+              latitude: 36.1,
+              longitude: 137.9,
+              direction: 'SW',
+              probability: 0.7,
+              requestedAt: now(),
+            },
+          },
+        },
+      });
+    });
+
+    it('should open the Profile tab for the signed-in user', () => {
+      expect(resolveNotificationRoute({ user_id: 'me' }, { currentUserId: 'me' })).toEqual({
+        screen: 'ProfileTab',
+        params: { screen: 'Profile' },
+      });
+    });
+
+    it("should open another user's profile in the Feed stack", () => {
+      expect(resolveNotificationRoute({ userId: 'someone-else' }, { currentUserId: 'me' })).toEqual({
+        screen: 'FeedTab',
+        params: { screen: 'UserProfile', params: { userId: 'someone-else' } },
+      });
+    });
+
+    it('should fall back to the inbox', () => {
+      const inbox = { screen: 'NotificationsTab', params: { screen: 'Notifications' } };
+
+      expect(resolveNotificationRoute({ type: 'system' })).toEqual(inbox);
+      expect(resolveNotificationRoute(null)).toEqual(inbox);
+    });
+  });
+});
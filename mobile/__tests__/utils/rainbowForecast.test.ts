@@ -0,0 +1,166 @@
+/**
+ * Unit Tests for rainbowForecast utilities
+ *
+ * Tests slot scoring from the sun position, rain opposite the sun and
+ * clearing toward it, and merging good slots into windows.
+ */
+
+import {
+  FORECAST_SLOT_MINUTES,
+  GOOD_SLOT_SCORE,
+  buildForecastSlots,
+  getForecastWindows,
+  scoreForecastSlot,
+  type ForecastSlot,
+} from '../../src/utils/rainbowForecast';
+
+import type { RadarData, WeatherCondition } from '../../src/types/photo';
+
+// Shiojiri, Nagano
+const LOCATION = { latitude: 36.1157, longitude: 137.9644 };
+// 17:00 JST: sun in the west (about 283°) at about 23°
+const EVENING = new Date('2026-06-21T08:00:00Z');
+// 12:00 JST: sun at about 77°
+const NOON = new Date('2026-06-21T03:00:00Z');
+
+/** Forecast precipitation about 15 km away in a direction */
+const cell = (
+  timestamp: string,
+  direction: 'east' | 'west',
+  precipitationIntensity: number
+): RadarData => ({
+  id: `${direction}-${timestamp}`,
+  timestamp,
+  precipitationIntensity,
+  centerLatitude: LOCATION.latitude,
+  centerLongitude: LOCATION.longitude + (direction === 'east' ? 0.17 : -0.17),
+});
+
+const condition = (timestamp: string, cloudCover: number): WeatherCondition => ({
+  id: `forecast-${timestamp}`,
+  timestamp,
+  cloudCover,
+});
+
+describe('rainbowForecast', () => {
+  describe('scoreForecastSlot', () => {
+    it('scores rain opposite the sun with clear skies toward it', () => {
+      const slot = scoreForecastSlot(
+        EVENING,
+        LOCATION,
+        [condition('2026-06-21T08:00:00Z', 0)],
+        [cell('2026-06-21T08:00:00Z', 'east', 2), cell('2026-06-21T08:00:00Z', 'west', 0)]
+      );
+
+      expect(slot.score).toBe(100);
+      expect(slot.rainOpposite).toBe(1);
+      expect(slot.clearTowardSun).toBe(1);
+      expect(slot.rainbowAzimuth).toBeCloseTo(slot.sun.azimuth - 180);
+    });
+
+    it('scores nothing without rain opposite the sun', () => {
+      const slot = scoreForecastSlot(
+        EVENING,
+        LOCATION,
+        [condition('2026-06-21T08:00:00Z', 0)],
+        [cell('2026-06-21T08:00:00Z', 'east', 0)]
+      );
+
+      expect(slot.score).toBe(0);
+    });
+
+    it('lowers the score for rain and clouds toward the sun', () => {
+      const rainTowardSun = scoreForecastSlot(
+        EVENING,
+        LOCATION,
+        [condition('2026-06-21T08:00:00Z', 0)],
+        [cell('2026-06-21T08:00:00Z', 'east', 2), cell('2026-06-21T08:00:00Z', 'west', 0.5)]
+      );
+      const overcast = scoreForecastSlot(
+        EVENING,
+        LOCATION,
+        [condition('2026-06-21T08:00:00Z', 100)],
+        [cell('2026-06-21T08:00:00Z', 'east', 2)]
+      );
+
+      expect(rainTowardSun.score).toBe(50);
+      expect(overcast.score).toBe(50);
+    });
+
+    it('scores nothing while the sun is too high', () => {
+      const slot = scoreForecastSlot(
+        NOON,
+        LOCATION,
+        [condition('2026-06-21T03:00:00Z', 0)],
+        [cell('2026-06-21T03:00:00Z', 'west', 2), cell('2026-06-21T03:00:00Z', 'east', 2)]
+      );
+
+      expect(slot.score).toBe(0);
+    });
+
+    it('uses the forecast hour covering the slot', () => {
+      const radar = [cell('2026-06-21T07:00:00Z', 'east', 0), cell('2026-06-21T08:00:00Z', 'east', 2)];
+      const conditions = [condition('2026-06-21T07:00:00Z', 0), condition('2026-06-21T08:00:00Z', 0)];
+
+      expect(
+        scoreForecastSlot(new Date('2026-06-21T07:50:00Z'), LOCATION, conditions, radar).score
+      ).toBe(0);
+      expect(
+        scoreForecastSlot(new Date('2026-06-21T08:50:00Z'), LOCATION, conditions, radar).score
+      ).toBe(100);
+    });
+  });
+
+  describe('buildForecastSlots', () => {
+    it('covers the period in 10-minute slots from the current slot', () => {
+      const slots = buildForecastSlots(new Date('2026-06-21T08:04:00Z'), 2, LOCATION, [], []);
+
+      expect(slots).toHaveLength((2 * 60) / FORECAST_SLOT_MINUTES);
+      expect(slots[0].time).toEqual(new Date('2026-06-21T08:00:00Z'));
+      expect(slots[1].time).toEqual(new Date('2026-06-21T08:10:00Z'));
+    });
+  });
+
+  describe('getForecastWindows', () => {
+    const slotAt = (minutes: number, score: number, rainbowAzimuth = 100): ForecastSlot => ({
+      time: new Date(EVENING.getTime() + minutes * 60 * 1000),
+      score,
+      sun: { azimuth: rainbowAzimuth + 180, altitude: 20 },
+      rainbowAzimuth,
+      rainOpposite: 1,
+      clearTowardSun: 1,
+    });
+
+    it('merges consecutive good slots and keeps the peak', () => {
+      const windows = getForecastWindows([
+        slotAt(0, 10),
+        slotAt(10, GOOD_SLOT_SCORE),
+        slotAt(20, 90, 105),
+        slotAt(30, 70),
+        slotAt(40, 20),
+        slotAt(50, 60),
+      ]);
+
+      expect(windows).toEqual([
+        {
+          start: slotAt(10, 0).time,
+          end: slotAt(40, 0).time,
+          peakScore: 90,
+          peakTime: slotAt(20, 0).time,
+          rainbowAzimuth: 105,
+        },
+        {
+          start: slotAt(50, 0).time,
+          end: slotAt(60, 0).time,
+          peakScore: 60,
+          peakTime: slotAt(50, 0).time,
+          rainbowAzimuth: 100,
+        },
+      ]);
+    });
+
+    it('returns no windows when no slot is good', () => {
+      expect(getForecastWindows([slotAt(0, 10), slotAt(10, 49)])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for rainbowGeometry utilities
+ *
+ * Tests rainbow visibility, direction helpers, the projection of the
+ * primary/secondary bows onto the camera preview and the daily rainbow
+ * windows.
+ */
+
+import {
+  PRIMARY_RAINBOW_RADIUS,
+  SECONDARY_RAINBOW_RADIUS,
+  bearingDifference,
+  getAntisolarAzimuth,
+  getCardinalDirection,
+  getNextRainbowWindow,
+  getRainbowArc,
+  getRainbowVisibility,
+  getRainbowWindows,
+} from '../../src/utils/rainbowGeometry';
+import { getSunPosition, getSunTimes } from '../../src/utils/sunPosition';
+
+// Portrait preview, 50° wide → 86° tall
+const VIEW = { width: 400, height: 800, horizontalFov: 50 };
+const HALF_VERTICAL_FOV = Math.atan(Math.tan((25 * Math.PI) / 180) * 2) / (Math.PI / 180);
+
+/** Elevation in degrees of a preview y coordinate */
+const elevationAt = (y: number) => ((VIEW.height / 2 - y) / (VIEW.height / 2)) * HALF_VERTICAL_FOV;
+
+describe('rainbowGeometry', () => {
+  describe('getRainbowVisibility', () => {
+    it('allows a rainbow while the sun is below 42°', () => {
+      expect(getRainbowVisibility(0)).toBe('possible');
+      expect(getRainbowVisibility(30)).toBe('possible');
+      expect(getRainbowVisibility(PRIMARY_RAINBOW_RADIUS)).toBe('possible');
+    });
+
+    it('reports a sun that is too high', () => {
+      expect(getRainbowVisibility(42.5)).toBe('sunTooHigh');
+    });
+
+    it('reports a sun below the horizon', () => {
+      expect(getRainbowVisibility(-3)).toBe('sunBelowHorizon');
+    });
+  });
+
+  describe('direction helpers', () => {
+    it('puts the rainbow opposite the sun', () => {
+      expect(getAntisolarAzimuth(90)).toBe(270);
+      expect(getAntisolarAzimuth(250)).toBe(70);
+    });
+
+    it('names bearings with 16 compass points', () => {
+      expect(getCardinalDirection(0)).toBe('N');
+      expect(getCardinalDirection(70)).toBe('ENE');
+      expect(getCardinalDirection(350)).toBe('N');
+      expect(getCardinalDirection(225)).toBe('SW');
+    });
+
+    it('measures the signed difference between bearings', () => {
+      expect(bearingDifference(350, 10)).toBe(20);
+      expect(bearingDifference(10, 350)).toBe(-20);
+      expect(bearingDifference(0, 180)).toBe(180);
+    });
+  });
+
+  describe('getRainbowArc', () => {
+    const sun = { azimuth: 270, altitude: 20 };
+
+    it('centers the bow on the antisolar bearing with its top at 42° − sun altitude', () => {
+      const [segment] = getRainbowArc(sun, PRIMARY_RAINBOW_RADIUS, { ...VIEW, heading: 90 });
+      const top = segment.reduce((highest, point) => (point.y < highest.y ? point : highest));
+
+      expect(top.x).toBeCloseTo(VIEW.width / 2);
+      expect(elevationAt(top.y)).toBeCloseTo(PRIMARY_RAINBOW_RADIUS - sun.altitude);
+    });
+
+    it('draws a symmetric arc that comes down toward the horizon', () => {
+      const [segment] = getRainbowArc(sun, PRIMARY_RAINBOW_RADIUS, { ...VIEW, heading: 90 });
+      const first = segment[0];
+      const last = segment[segment.length - 1];
+
+      expect(first.x + last.x).toBeCloseTo(VIEW.width);
+      expect(first.y).toBeCloseTo(last.y);
+      expect(elevationAt(first.y)).toBeLessThan(5);
+      expect(elevationAt(first.y)).toBeGreaterThanOrEqual(0);
+    });
+
+    it('puts the secondary bow above the primary', () => {
+      const view = { ...VIEW, heading: 90 };
+      const topOf = (radius: number) =>
+        Math.min(...getRainbowArc(sun, radius, view)[0].map((point) => point.y));
+
+      expect(topOf(SECONDARY_RAINBOW_RADIUS)).toBeLessThan(topOf(PRIMARY_RAINBOW_RADIUS));
+    });
+
+    it('shifts the bow when the camera turns', () => {
+      const [segment] = getRainbowArc(sun, PRIMARY_RAINBOW_RADIUS, { ...VIEW, heading: 80 });
+      const top = segment.reduce((highest, point) => (point.y < highest.y ? point : highest));
+
+      // 10° right of a 50° wide view
+      expect(top.x).toBeCloseTo(VIEW.width / 2 + VIEW.width / 5);
+    });
+
+    it('returns nothing when the camera faces the sun', () => {
+      expect(getRainbowArc(sun, PRIMARY_RAINBOW_RADIUS, { ...VIEW, heading: 270 })).toEqual([]);
+    });
+
+    it('returns nothing when the bow is below the horizon', () => {
+      const highSun = { azimuth: 180, altitude: 45 };
+
+      expect(getRainbowArc(highSun, PRIMARY_RAINBOW_RADIUS, { ...VIEW, heading: 0 })).toEqual([]);
+      expect(getRainbowArc(highSun, SECONDARY_RAINBOW_RADIUS, { ...VIEW, heading: 0 })).not.toEqual(
+        []
+      );
+    });
+
+    it('returns nothing with the sun below the horizon', () => {
+      const sunset = { azimuth: 270, altitude: -2 };
+
+      expect(getRainbowArc(sunset, PRIMARY_RAINBOW_RADIUS, { ...VIEW, heading: 90 })).toEqual([]);
+    });
+  });
+
+  describe('getRainbowWindows', () => {
+    // Shiojiri, Nagano
+    const LATITUDE = 36.1157;
+    const LONGITUDE = 137.9644;
+
+    it('has a morning and an afternoon window when the sun climbs above 42°', () => {
+      const date = new Date('2026-06-21T03:00:00Z');
+      const { sunrise, sunset, solarNoon } = getSunTimes(date, LATITUDE, LONGITUDE);
+
+      const windows = getRainbowWindows(date, LATITUDE, LONGITUDE);
+
+      expect(windows).toHaveLength(2);
+      expect(windows[0].start).toEqual(sunrise);
+      expect(windows[0].end.getTime()).toBeLessThan(solarNoon.getTime());
+      expect(windows[1].start.getTime()).toBeGreaterThan(solarNoon.getTime());
+      expect(windows[1].end).toEqual(sunset);
+      expect(getSunPosition(windows[0].end, LATITUDE, LONGITUDE).altitude).toBeCloseTo(
+        PRIMARY_RAINBOW_RADIUS,
+        0
+      );
+    });
+
+    it('spans the whole day when the sun stays below 42°', () => {
+      const date = new Date('2026-12-21T03:00:00Z');
+      const { sunrise, sunset } = getSunTimes(date, LATITUDE, LONGITUDE);
+
+      expect(getRainbowWindows(date, LATITUDE, LONGITUDE)).toEqual([
+        { start: sunrise, end: sunset },
+      ]);
+    });
+
+    it('is empty without a sunrise and sunset', () => {
+      expect(getRainbowWindows(new Date('2026-12-21T12:00:00Z'), 78.2, 15.6)).toEqual([]);
+      expect(getRainbowWindows(new Date('2026-06-21T12:00:00Z'), 78.2, 15.6)).toEqual([]);
+    });
+  });
+
+  describe('getNextRainbowWindow', () => {
+    const LATITUDE = 36.1157;
+    const LONGITUDE = 137.9644;
+
+    it('returns the window in progress', () => {
+      // 17:00 JST
+      const now = new Date('2026-06-21T08:00:00Z');
+      const [, afternoon] = getRainbowWindows(now, LATITUDE, LONGITUDE);
+
+      expect(getNextRainbowWindow(now, LATITUDE, LONGITUDE)).toEqual(afternoon);
+    });
+
+    it('returns the afternoon window around noon', () => {
+      // 12:00 JST
+      const now = new Date('2026-06-21T03:00:00Z');
+      const [, afternoon] = getRainbowWindows(now, LATITUDE, LONGITUDE);
+
+      expect(getNextRainbowWindow(now, LATITUDE, LONGITUDE)).toEqual(afternoon);
+    });
+
+    it('returns tomorrow morning’s window after sunset', () => {
+      // 21:00 JST
+      const now = new Date('2026-06-21T12:00:00Z');
+      const next = getNextRainbowWindow(now, LATITUDE, LONGITUDE)!;
+
+      expect(next.start.getTime()).toBeGreaterThan(now.getTime());
+      expect(next.start.getTime() - now.getTime()).toBeLessThan(12 * 60 * 60 * 1000);
+    });
+
+    it('returns null during polar night', () => {
+      expect(getNextRainbowWindow(new Date('2026-12-21T12:00:00Z'), 78.2, 15.6)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for sunPosition utilities
+ *
+ * Checks the solar position against known solar geometry for Shiojiri
+ * (solstice noon altitudes, morning/evening bearings) and against the
+ * reference values published with SunCalc (Kyiv, 2013-03-05).
+ */
+
+import {
+  getAltitudeTimes,
+  getSunPosition,
+  getSunTimes,
+  normalizeDegrees,
+} from '../../src/utils/sunPosition';
+
+// Shiojiri, Nagano
+const LATITUDE = 36.1157;
+const LONGITUDE = 137.9644;
+
+// SunCalc reference: 2013-03-05T00:00Z at 50.5°N 30.5°E
+const REFERENCE_DATE = new Date('2013-03-05T00:00:00Z');
+const REFERENCE_LATITUDE = 50.5;
+const REFERENCE_LONGITUDE = 30.5;
+
+/** Difference between two dates in seconds */
+const secondsBetween = (actual: Date | null, expected: string) =>
+  Math.abs((actual?.getTime() ?? NaN) - new Date(expected).getTime()) / 1000;
+
+describe('sunPosition', () => {
+  describe('normalizeDegrees', () => {
+    it('wraps angles into [0, 360)', () => {
+      expect(normalizeDegrees(370)).toBe(10);
+      expect(normalizeDegrees(-90)).toBe(270);
+      expect(normalizeDegrees(360)).toBe(0);
+    });
+  });
+
+  describe('getSunPosition', () => {
+    it('matches the SunCalc reference position', () => {
+      const sun = getSunPosition(REFERENCE_DATE, REFERENCE_LATITUDE, REFERENCE_LONGITUDE);
+
+      // -2.5003175907168385 rad from south, -0.7000406838781611 rad
+      expect(sun.azimuth).toBeCloseTo((-2.5003175907168385 * 180) / Math.PI + 180, 6);
+      expect(sun.altitude).toBeCloseTo((-0.7000406838781611 * 180) / Math.PI, 6);
+    });
+
+    it('puts the summer solstice noon sun due south at 90° − latitude + tilt', () => {
+      // Local solar noon is about 11:50 JST
+      const sun = getSunPosition(new Date('2026-06-21T02:50:00Z'), LATITUDE, LONGITUDE);
+
+      expect(sun.azimuth).toBeCloseTo(180, 0);
+      expect(sun.altitude).toBeCloseTo(90 - LATITUDE + 23.44, 0);
+    });
+
+    it('puts the winter solstice noon sun at 90° − latitude − tilt', () => {
+      const sun = getSunPosition(new Date('2026-12-21T02:50:00Z'), LATITUDE, LONGITUDE);
+
+      expect(sun.altitude).toBeCloseTo(90 - LATITUDE - 23.44, 0);
+    });
+
+    it('has the sun overhead at the equator at the equinox noon', () => {
+      const sun = getSunPosition(new Date('2026-03-20T12:07:00Z'), 0, 0);
+
+      expect(sun.altitude).toBeGreaterThan(89);
+    });
+
+    it('places the morning sun in the east and the evening sun in the west', () => {
+      // 06:00 and 17:00 JST
+      const morning = getSunPosition(new Date('2026-06-20T21:00:00Z'), LATITUDE, LONGITUDE);
+      const evening = getSunPosition(new Date('2026-06-21T08:00:00Z'), LATITUDE, LONGITUDE);
+
+      expect(morning.azimuth).toBeGreaterThan(60);
+      expect(morning.azimuth).toBeLessThan(90);
+      expect(morning.altitude).toBeGreaterThan(0);
+      expect(evening.azimuth).toBeGreaterThan(270);
+      expect(evening.azimuth).toBeLessThan(300);
+    });
+
+    it('reports a negative altitude at night', () => {
+      // 00:00 JST
+      const sun = getSunPosition(new Date('2026-06-20T15:00:00Z'), LATITUDE, LONGITUDE);
+
+      expect(sun.altitude).toBeLessThan(0);
+    });
+  });
+
+  describe('getSunTimes', () => {
+    it('matches the SunCalc reference sunrise, solar noon and sunset', () => {
+      const times = getSunTimes(REFERENCE_DATE, REFERENCE_LATITUDE, REFERENCE_LONGITUDE);
+
+      expect(secondsBetween(times.sunrise, '2013-03-05T04:34:56Z')).toBeLessThan(1);
+      expect(secondsBetween(times.solarNoon, '2013-03-05T10:10:57Z')).toBeLessThan(1);
+      expect(secondsBetween(times.sunset, '2013-03-05T15:46:57Z')).toBeLessThan(1);
+    });
+
+    it('puts solar noon at the sun’s highest point', () => {
+      const { solarNoon } = getSunTimes(new Date('2026-06-21T03:00:00Z'), LATITUDE, LONGITUDE);
+      const altitudeAt = (offsetMinutes: number) =>
+        getSunPosition(new Date(solarNoon.getTime() + offsetMinutes * 60000), LATITUDE, LONGITUDE)
+          .altitude;
+
+      expect(altitudeAt(0)).toBeGreaterThan(altitudeAt(-10));
+      expect(altitudeAt(0)).toBeGreaterThan(altitudeAt(10));
+    });
+
+    it('has no sunrise or sunset during polar night and midnight sun', () => {
+      const polarNight = getSunTimes(new Date('2026-12-21T12:00:00Z'), 78.2, 15.6);
+      const midnightSun = getSunTimes(new Date('2026-06-21T12:00:00Z'), 78.2, 15.6);
+
+      expect(polarNight.sunrise).toBeNull();
+      expect(polarNight.sunset).toBeNull();
+      expect(midnightSun.sunrise).toBeNull();
+      expect(midnightSun.sunset).toBeNull();
+    });
+  });
+
+  describe('getAltitudeTimes', () => {
+    it('matches the SunCalc reference dawn and dusk (−6°)', () => {
+      const times = getAltitudeTimes(REFERENCE_DATE, REFERENCE_LATITUDE, REFERENCE_LONGITUDE, -6);
+
+      expect(secondsBetween(times?.rising ?? null, '2013-03-05T04:02:17Z')).toBeLessThan(1);
+      expect(secondsBetween(times?.setting ?? null, '2013-03-05T16:19:36Z')).toBeLessThan(1);
+    });
+
+    it('returns times when the sun is at that altitude', () => {
+      const times = getAltitudeTimes(new Date('2026-06-21T03:00:00Z'), LATITUDE, LONGITUDE, 42)!;
+
+      expect(getSunPosition(times.rising, LATITUDE, LONGITUDE).altitude).toBeCloseTo(42, 0);
+      expect(getSunPosition(times.setting, LATITUDE, LONGITUDE).altitude).toBeCloseTo(42, 0);
+    });
+
+    it('returns null when the sun never reaches the altitude', () => {
+      expect(getAltitudeTimes(new Date('2026-12-21T03:00:00Z'), LATITUDE, LONGITUDE, 42)).toBeNull();
+    });
+  });
+});
@@ -55,6 +55,7 @@ export const TestIDs = {
     cameraTab: 'tab-camera',
     mapTab: 'tab-map',
     profileTab: 'tab-profile',
+    notificationsTab: 'tab-notifications',
   },
 
   // Feed screen
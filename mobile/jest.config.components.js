@@ -13,6 +13,7 @@ module.exports = {
   testMatch: [
     '<rootDir>/__tests__/components/**/*.test.tsx',
     '<rootDir>/__tests__/hooks/**/*.component.test.ts',
+    '<rootDir>/__tests__/navigation/**/*.test.ts',
   ],
   testPathIgnorePatterns: ['/node_modules/', '/e2e/'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
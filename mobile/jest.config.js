@@ -4,7 +4,8 @@
  * Uses ts-jest to transpile TypeScript test files.
  * Mocks React Native and Expo modules for a Node-based test environment.
  *
- * Note: Component tests (in __tests__/components/) require jest-expo.
+ * Note: Component tests (in __tests__/components/) and navigation tests
+ * (React Navigation ships ES modules) require jest-expo.
  * Run component tests with: npx jest --config jest.config.components.js
  */
 
@@ -14,7 +15,7 @@ module.exports = {
   testEnvironment: 'node',
   rootDir: '.',
   testMatch: ['<rootDir>/__tests__/**/*.test.ts', '<rootDir>/__tests__/**/*.test.tsx'],
-  testPathIgnorePatterns: ['/node_modules/', '/e2e/', '/__tests__/components/', '\\.component\\.test\\.'],
+  testPathIgnorePatterns: ['/node_modules/', '/e2e/', '/__tests__/components/', '/__tests__/navigation/', '\\.component\\.test\\.'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   transform: {
     '^.+\\.tsx?$': [
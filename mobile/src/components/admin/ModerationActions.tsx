@@ -0,0 +1,108 @@
+/**
+ * ModerationActions Component
+ *
+ * Approve / Hide / Delete buttons for a content report, shared by the
+ * moderation list and the report detail screen.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Each button describes its effect on the content in the hint
+ * - Minimum touch target size 44x44pt
+ *
+ * Requirements: FR-10 (AC-10.2)
+ */
+
+import React from 'react';
+
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+import { accessibleColors, MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
+
+import type { ModerationAction } from '../../services/adminService';
+
+// ============================================
+// Types
+// ============================================
+
+interface ModerationActionsProps {
+  /** Called with the chosen action */
+  onAction: (action: ModerationAction) => void;
+  /** Disable the buttons while a decision is being sent */
+  disabled?: boolean;
+  /** Prefix for the button test IDs */
+  testID?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const ACTIONS: {
+  action: ModerationAction;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}[] = [
+  { action: 'approve', icon: 'checkmark-circle-outline', color: accessibleColors.success },
+  { action: 'hide', icon: 'eye-off-outline', color: accessibleColors.warning },
+  { action: 'delete', icon: 'trash-outline', color: accessibleColors.error },
+];
+
+// ============================================
+// Component
+// ============================================
+
+export const ModerationActions: React.FC<ModerationActionsProps> = ({
+  onAction,
+  disabled = false,
+  testID = 'moderation-actions',
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {ACTIONS.map(({ action, icon, color }) => (
+        <TouchableOpacity
+          key={action}
+          style={[styles.button, { borderColor: color }, disabled && styles.buttonDisabled]}
+          onPress={() => onAction(action)}
+          disabled={disabled}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t(`admin.actions.${action}`)}
+          accessibilityHint={t(`admin.actionHints.${action}`)}
+          accessibilityState={{ disabled }}
+          testID={`${testID}-${action}`}
+        >
+          <Ionicons name={icon} size={18} color={color} />
+          <Text style={[styles.buttonText, { color }]}>{t(`admin.actions.${action}`)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 4,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
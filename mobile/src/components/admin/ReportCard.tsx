@@ -0,0 +1,187 @@
+/**
+ * ReportCard Component
+ *
+ * A pending content report in the moderation list: the reported photo or
+ * comment preview, the report category and the moderation actions.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Content type, category and preview announced together
+ * - Minimum touch target sizes (44x44pt)
+ *
+ * Requirements: FR-10 (AC-10.1, AC-10.2)
+ */
+
+import React from 'react';
+
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+import { ModerationActions } from './ModerationActions';
+import { REPORT_REASONS } from '../../types/social';
+import { accessibleColors, createScreenReaderAnnouncement } from '../../utils/accessibility';
+
+import type { ModerationAction, ModerationReport } from '../../services/adminService';
+
+// ============================================
+// Types
+// ============================================
+
+interface ReportCardProps {
+  report: ModerationReport;
+  /** Called when the preview is tapped */
+  onPress: (report: ModerationReport) => void;
+  /** Called with the chosen moderation action */
+  onAction: (report: ModerationReport, action: ModerationAction) => void;
+  /** Disable the actions while a decision is being sent */
+  disabled?: boolean;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Get the REPORT_REASONS value for a report reason
+ * Reasons that are not one of the predefined values (free text from older
+ * clients) fall back to "other".
+ */
+export const getReportReasonKey = (reason: string): string =>
+  REPORT_REASONS.find((option) => option.value === reason)?.value ?? 'other';
+
+// ============================================
+// Component
+// ============================================
+
+export const ReportCard: React.FC<ReportCardProps> = ({
+  report,
+  onPress,
+  onAction,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const reasonKey = getReportReasonKey(report.reason);
+  const isPhoto = report.reportable?.type === 'Photo';
+  const typeLabel = t(isPhoto ? 'admin.reportedPhoto' : 'admin.reportedComment');
+  const reasonLabel = t(`admin.reasons.${reasonKey}`);
+  const preview = report.reportable?.preview ?? t('admin.contentUnavailable');
+  // Show free-text reasons that did not match a category
+  const customReason = reasonKey === 'other' && report.reason !== 'other' ? report.reason : null;
+
+  return (
+    <View style={styles.card} testID={`report-card-${report.id}`}>
+      <TouchableOpacity
+        onPress={() => onPress(report)}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={createScreenReaderAnnouncement(
+          typeLabel,
+          reasonLabel,
+          preview,
+          report.reporter ? t('admin.reportedBy', { name: report.reporter.displayName }) : undefined
+        )}
+        accessibilityHint={t('admin.openReportHint')}
+        testID={`report-card-open-${report.id}`}
+      >
+        <View style={styles.header}>
+          <Ionicons
+            name={isPhoto ? 'image-outline' : 'chatbubble-outline'}
+            size={18}
+            color={accessibleColors.textSecondary}
+          />
+          <Text style={styles.typeLabel}>{typeLabel}</Text>
+          <View style={styles.reasonBadge}>
+            <Text style={styles.reasonText}>{reasonLabel}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.preview} numberOfLines={3}>
+          {preview}
+        </Text>
+        {customReason && (
+          <Text style={styles.customReason} numberOfLines={2}>
+            {customReason}
+          </Text>
+        )}
+
+        <View style={styles.meta}>
+          {report.reporter && (
+            <Text style={styles.metaText} numberOfLines={1}>
+              {t('admin.reportedBy', { name: report.reporter.displayName })}
+            </Text>
+          )}
+          {report.contentOwner && (
+            <Text style={styles.metaText} numberOfLines={1}>
+              {t('admin.postedBy', { name: report.contentOwner.displayName })}
+              {report.contentOwner.violationFlagged && ` · ${t('admin.flagged')}`}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+
+      <ModerationActions
+        onAction={(action) => onAction(report, action)}
+        disabled={disabled}
+        testID={`report-actions-${report.id}`}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginVertical: 6,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  typeLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: accessibleColors.textSecondary,
+  },
+  reasonBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#FDECEC',
+  },
+  reasonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: accessibleColors.error,
+  },
+  preview: {
+    fontSize: 15,
+    color: accessibleColors.textPrimary,
+    marginTop: 8,
+  },
+  customReason: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: accessibleColors.textSecondary,
+    marginTop: 4,
+  },
+  meta: {
+    marginTop: 8,
+    gap: 2,
+  },
+  metaText: {
+    fontSize: 12,
+    color: accessibleColors.textMuted,
+  },
+});
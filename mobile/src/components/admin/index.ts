@@ -0,0 +1,8 @@
+/**
+ * Admin Components Index
+ *
+ * Exports moderation console components.
+ */
+
+export { ModerationActions } from './ModerationActions';
+export { ReportCard, getReportReasonKey } from './ReportCard';
@@ -0,0 +1,173 @@
+/**
+ * RainbowOverlay
+ *
+ * Drawn over the camera preview: arcs where the primary (42°) and secondary
+ * (51°) rainbow would appear for the current sun position and compass
+ * heading, the direction to look in, and a warning when the sun is too
+ * high (or below the horizon) for a rainbow along with the next time it
+ * will be low enough.
+ *
+ * Requirements: FR-2 (AC-2.1)
+ */
+
+import React, { useMemo, useState } from 'react';
+
+import { StyleSheet, View, Text, type LayoutChangeEvent } from 'react-native';
+
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import Svg, { Path } from 'react-native-svg';
+
+import {
+  PRIMARY_RAINBOW_RADIUS,
+  SECONDARY_RAINBOW_RADIUS,
+  getAntisolarAzimuth,
+  getCardinalDirection,
+  getRainbowArc,
+  getRainbowVisibility,
+  type ArcPoint,
+  type RainbowWindow,
+} from '../../utils/rainbowGeometry';
+
+import type { SunPosition } from '../../utils/sunPosition';
+
+interface RainbowOverlayProps {
+  /** Current sun position, null until the location is known */
+  sun: SunPosition | null;
+  /** Compass heading of the camera, null without a compass */
+  heading: number | null;
+  /** Current or next rainbow window, shown while no rainbow is possible */
+  nextWindow?: RainbowWindow | null;
+}
+
+/**
+ * SVG path through arc segments
+ */
+const toPath = (segments: ArcPoint[][]): string =>
+  segments
+    .map((segment) =>
+      segment
+        .map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`)
+        .join(' ')
+    )
+    .join(' ');
+
+export const RainbowOverlay: React.FC<RainbowOverlayProps> = ({ sun, heading, nextWindow }) => {
+  const { t } = useTranslation();
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const paths = useMemo(() => {
+    if (!sun || heading === null || size.width === 0 || size.height === 0) {
+      return null;
+    }
+    const view = { heading, width: size.width, height: size.height };
+    return {
+      primary: toPath(getRainbowArc(sun, PRIMARY_RAINBOW_RADIUS, view)),
+      secondary: toPath(getRainbowArc(sun, SECONDARY_RAINBOW_RADIUS, view)),
+    };
+  }, [sun, heading, size]);
+
+  if (!sun) {
+    return null;
+  }
+
+  const visibility = getRainbowVisibility(sun.altitude);
+  const antisolarAzimuth = getAntisolarAzimuth(sun.azimuth);
+  const message =
+    visibility === 'sunTooHigh'
+      ? t('camera.sunTooHigh', { altitude: Math.round(sun.altitude) })
+      : visibility === 'sunBelowHorizon'
+        ? t('camera.sunBelowHorizon')
+        : t('camera.rainbowDirection', {
+            direction: getCardinalDirection(antisolarAzimuth),
+            azimuth: Math.round(antisolarAzimuth),
+          });
+  const windowMessage =
+    visibility !== 'possible' && nextWindow
+      ? t('camera.nextRainbowWindow', {
+          start: format(nextWindow.start, 'HH:mm'),
+          end: format(nextWindow.end, 'HH:mm'),
+        })
+      : null;
+  const label = windowMessage ? `${message} ${windowMessage}` : message;
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      pointerEvents="none"
+      onLayout={handleLayout}
+      testID="rainbow-overlay"
+    >
+      {paths && (
+        <Svg width={size.width} height={size.height} accessible={false}>
+          {paths.secondary ? (
+            <Path
+              d={paths.secondary}
+              stroke="rgba(255,255,255,0.5)"
+              strokeWidth={2}
+              strokeDasharray="8,6"
+              fill="none"
+              testID="rainbow-overlay-secondary"
+            />
+          ) : null}
+          {paths.primary ? (
+            <Path
+              d={paths.primary}
+              stroke="rgba(255,255,255,0.85)"
+              strokeWidth={3}
+              fill="none"
+              testID="rainbow-overlay-primary"
+            />
+          ) : null}
+        </Svg>
+      )}
+
+      <View
+        style={[styles.hint, visibility !== 'possible' && styles.hintWarning]}
+        accessible={true}
+        accessibilityRole={visibility === 'possible' ? 'text' : 'alert'}
+        accessibilityLabel={label}
+        testID="rainbow-overlay-hint"
+      >
+        <Text style={styles.hintText}>{message}</Text>
+        {windowMessage ? (
+          <Text style={styles.windowText} testID="rainbow-overlay-next-window">
+            {windowMessage}
+          </Text>
+        ) : null}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  hintWarning: {
+    backgroundColor: 'rgba(255,59,48,0.8)',
+  },
+  hintText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  windowText: {
+    fontSize: 12,
+    color: '#fff',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+});
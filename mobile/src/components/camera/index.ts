@@ -0,0 +1,7 @@
+/**
+ * Camera Components Index
+ *
+ * Exports components drawn over the camera preview.
+ */
+
+export { RainbowOverlay } from './RainbowOverlay';
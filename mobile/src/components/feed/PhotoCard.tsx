@@ -20,6 +20,7 @@ import {
   Text,
   View,
   TouchableOpacity,
+  type AccessibilityActionEvent,
   type ViewStyle,
 } from 'react-native';
 
@@ -34,13 +35,15 @@ import {
   createScreenReaderAnnouncement,
 } from '../../utils/accessibility';
 
-import type { Photo } from '../../types/photo';
+import type { Photo, PhotoUser } from '../../types/photo';
 
 interface PhotoCardProps {
   /** Photo data to display */
   photo: Photo;
   /** Callback when the card is pressed */
   onPress: (photo: Photo) => void;
+  /** Optional callback when the photographer's name is pressed */
+  onUserPress?: (user: PhotoUser) => void;
   /** Optional container style override */
   style?: ViewStyle;
   /** Test ID for testing frameworks */
@@ -75,6 +78,7 @@ const formatCount = (count: number): string => {
 const PhotoCardComponent: React.FC<PhotoCardProps> = ({
   photo,
   onPress,
+  onUserPress,
   style,
   testID,
 }) => {
@@ -84,6 +88,21 @@ const PhotoCardComponent: React.FC<PhotoCardProps> = ({
     onPress(photo);
   }, [photo, onPress]);
 
+  const handleUserPress = useCallback(() => {
+    onUserPress?.(photo.user);
+  }, [photo.user, onUserPress]);
+
+  // The card is a single element for screen readers, so the profile is
+  // offered as a custom action instead of a nested button
+  const handleAccessibilityAction = useCallback(
+    (event: AccessibilityActionEvent) => {
+      if (event.nativeEvent.actionName === 'viewProfile') {
+        handleUserPress();
+      }
+    },
+    [handleUserPress]
+  );
+
   // Generate accessibility label with all relevant information
   const accessibilityLabel = createScreenReaderAnnouncement(
     photo.title || t('photo.rainbowPhoto'),
@@ -104,6 +123,10 @@ const PhotoCardComponent: React.FC<PhotoCardProps> = ({
       accessibilityLabel={accessibilityLabel}
       accessibilityRole="button"
       accessibilityHint={t('photo.navigateToDetail')}
+      accessibilityActions={
+        onUserPress ? [{ name: 'viewProfile', label: t('photo.viewProfile') }] : undefined
+      }
+      onAccessibilityAction={onUserPress ? handleAccessibilityAction : undefined}
       testID={testID}
     >
       {/* Photo Thumbnail */}
@@ -121,7 +144,14 @@ const PhotoCardComponent: React.FC<PhotoCardProps> = ({
       {/* Content Container */}
       <View style={styles.content}>
         {/* Header: User Info */}
-        <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.header}
+          onPress={handleUserPress}
+          disabled={!onUserPress}
+          hitSlop={{ top: 8, bottom: 8 }}
+          accessible={false}
+          testID={testID ? `${testID}-user` : undefined}
+        >
           <View style={[styles.avatar, styles.avatarPlaceholder]}>
             <Ionicons name="person" size={14} color="#6B6B6B" />
           </View>
@@ -133,7 +163,7 @@ const PhotoCardComponent: React.FC<PhotoCardProps> = ({
           >
             {photo.user.displayName}
           </Text>
-        </View>
+        </TouchableOpacity>
 
         {/* Title */}
         {photo.title && (
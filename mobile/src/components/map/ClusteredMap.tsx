@@ -3,6 +3,8 @@
  *
  * Displays rainbow photo locations with automatic clustering based on zoom level.
  * Uses react-native-map-clustering for supercluster implementation.
+ * Live markers (photos from a running Rainbow Moment) are highlighted, and the
+ * highlight fades out once the moment is archived.
  *
  * Accessibility features (WCAG 2.1 AA):
  * - Clear accessibility labels for markers and clusters
@@ -12,9 +14,9 @@
  * Requirements: FR-5 (AC-5.1, AC-5.3, AC-5.5)
  */
 
-import React, { useCallback, useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import { StyleSheet, View, Text, Platform } from 'react-native';
+import { StyleSheet, View, Text, Platform, Animated } from 'react-native';
 
 import { Image } from 'expo-image';
 import ClusterMapView from 'react-native-map-clustering';
@@ -29,6 +31,16 @@ import { accessibleColors, MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibili
 
 import type { MapMarker, MapRegion } from '../../services/mapService';
 
+// ============================================
+// Constants
+// ============================================
+
+/** Highlight color for live markers (matches the Rainbow Moment overlay) */
+const LIVE_MARKER_COLOR = '#FF6B6B';
+
+/** How long the live highlight takes to fade after the moment is archived */
+const LIVE_FADE_DURATION_MS = 1500;
+
 // ============================================
 // Types
 // ============================================
@@ -120,10 +132,32 @@ interface PhotoMarkerProps {
  * Memoized for performance optimization
  */
 const PhotoMarkerComponent: React.FC<PhotoMarkerProps> = ({ marker, onPress }) => {
+  const isLive = !!marker.isLive;
+  const liveOpacity = useRef(new Animated.Value(isLive ? 1 : 0)).current;
+  const wasLiveRef = useRef(isLive);
+  const [isFading, setIsFading] = useState(false);
+
   const handlePress = useCallback(() => {
     onPress(marker);
   }, [marker, onPress]);
 
+  // Fade the live highlight out when the moment ends
+  useEffect(() => {
+    if (isLive) {
+      liveOpacity.setValue(1);
+    } else if (wasLiveRef.current) {
+      setIsFading(true);
+      Animated.timing(liveOpacity, {
+        toValue: 0,
+        duration: LIVE_FADE_DURATION_MS,
+        useNativeDriver: true,
+      }).start(() => setIsFading(false));
+    }
+    wasLiveRef.current = isLive;
+  }, [isLive, liveOpacity]);
+
+  const baseLabel = marker.title ? `${marker.title}の虹の写真` : '虹の写真';
+
   return (
     <Marker
       key={marker.id}
@@ -132,18 +166,25 @@ const PhotoMarkerComponent: React.FC<PhotoMarkerProps> = ({ marker, onPress }) =
         longitude: marker.longitude,
       }}
       onPress={handlePress}
-      tracksViewChanges={false}
+      // Live markers redraw while highlighted or fading; others are static
+      tracksViewChanges={isLive || isFading}
       accessible={true}
       accessibilityRole="button"
-      accessibilityLabel={
-        marker.title
-          ? `${marker.title}の虹の写真`
-          : '虹の写真'
-      }
+      accessibilityLabel={isLive ? `${baseLabel}（ライブ）` : baseLabel}
       accessibilityHint="タップしてプレビューを表示"
       testID={`marker-${marker.id}`}
     >
       <View style={styles.markerContainer}>
+        {(isLive || isFading) && (
+          <Animated.View
+            style={[styles.liveRing, { opacity: liveOpacity }]}
+            testID={`marker-live-${marker.id}`}
+          >
+            <View style={styles.liveBadge}>
+              <Text style={styles.liveBadgeText}>LIVE</Text>
+            </View>
+          </Animated.View>
+        )}
         <View style={styles.markerImageContainer}>
           <Image
             source={{ uri: marker.thumbnailUrl }}
@@ -376,6 +417,30 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  liveRing: {
+    position: 'absolute',
+    top: -4,
+    left: -4,
+    width: 56,
+    height: 56,
+    borderRadius: 11,
+    borderWidth: 3,
+    borderColor: LIVE_MARKER_COLOR,
+    alignItems: 'center',
+    zIndex: 1,
+  },
+  liveBadge: {
+    position: 'absolute',
+    top: -10,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+    backgroundColor: LIVE_MARKER_COLOR,
+  },
+  liveBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 9,
+    fontWeight: '700',
+  },
   markerPin: {
     width: 0,
     height: 0,
@@ -4,9 +4,13 @@
  * Floating overlay on MapScreen showing the active Rainbow Moment.
  * Displays real-time participant count ("N人が今、空を見上げています"),
  * countdown timer, participation toggle, and live photo thumbnails.
+ *
+ * Participation is confirmed by the server: joining sends the current
+ * position over the channel, and the user's own state is reconciled from
+ * the participant list each time the subscription (re)connects.
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import {
   StyleSheet,
@@ -17,15 +21,22 @@ import {
   Image,
   Animated,
   AccessibilityInfo,
+  Alert,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 
+import { useCableConnection } from '../../hooks/useCableConnection';
 import {
   subscribeToRainbowMoment,
+  joinRainbowMoment,
+  leaveRainbowMoment,
   type RainbowMomentMessage,
 } from '../../services/cableService';
+import { getCurrentLocation } from '../../services/photoService';
+import { useCurrentUser } from '../../store/authStore';
+import { useBlockedUserIds } from '../../store/blockStore';
 import {
   useActiveMoment,
   useIsParticipating,
@@ -77,7 +88,16 @@ export const RainbowMomentOverlay: React.FC = () => {
   const activeMoment = useActiveMoment();
   const isParticipating = useIsParticipating();
   const participantCount = useParticipantCount();
-  const livePhotos = useLivePhotos();
+  const currentUser = useCurrentUser();
+  const currentUserId = currentUser?.id;
+  const [isJoining, setIsJoining] = useState(false);
+  const { isReconnecting } = useCableConnection();
+  const blockedUserIds = useBlockedUserIds();
+  const allLivePhotos = useLivePhotos();
+  const livePhotos = useMemo(
+    () => allLivePhotos.filter((photo) => !blockedUserIds.has(photo.user.id)),
+    [allLivePhotos, blockedUserIds]
+  );
 
   const store = useRainbowMomentStore;
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -107,6 +127,19 @@ export const RainbowMomentOverlay: React.FC = () => {
     return () => pulse.stop();
   }, [activeMoment, pulseAnim]);
 
+  /**
+   * Send a join request with the current position as location proof.
+   * The result arrives over the channel (participant_joined / join_rejected).
+   */
+  const requestJoin = useCallback(async (momentId: string): Promise<boolean> => {
+    const location = await getCurrentLocation();
+    if (!location) {
+      return false;
+    }
+    joinRainbowMoment(momentId, location);
+    return true;
+  }, []);
+
   // Subscribe to WebSocket when moment is active
   useEffect(() => {
     if (!activeMoment) {
@@ -117,20 +150,57 @@ export const RainbowMomentOverlay: React.FC = () => {
       return;
     }
 
+    const { id: momentId, locationName } = activeMoment;
+
     const handleMessage = (message: RainbowMomentMessage) => {
       switch (message.type) {
-        case 'initial_state':
+        case 'initial_state': {
           if (message.participant_count !== null && message.participant_count !== undefined) {
             store.getState().updateParticipantCount(message.participant_count);
           }
+          // Sent on every (re)subscribe: trust the server's participant list
+          const isListed = (message.participants ?? []).some(
+            (participant) => participant.id === currentUserId
+          );
+          if (isListed) {
+            store.getState().setParticipating(true);
+          } else if (store.getState().joinedMomentId === momentId) {
+            // Dropped while disconnected or after a restart; join again from here
+            requestJoin(momentId).then((sent) => {
+              if (!sent) {
+                store.getState().setParticipating(false);
+              }
+            });
+          } else {
+            store.getState().setParticipating(false);
+          }
           break;
+        }
         case 'participant_joined':
         case 'participant_left':
+          if (message.user && message.user.id === currentUserId) {
+            store.getState().setParticipating(message.type === 'participant_joined');
+            setIsJoining(false);
+          }
+          if (message.participant_count !== null && message.participant_count !== undefined) {
+            store.getState().updateParticipantCount(message.participant_count);
+          }
+          break;
         case 'participant_count':
           if (message.participant_count !== null && message.participant_count !== undefined) {
             store.getState().updateParticipantCount(message.participant_count);
           }
           break;
+        case 'join_rejected':
+          store.getState().setParticipating(false);
+          setIsJoining(false);
+          Alert.alert(
+            t('moment.joinFailed'),
+            message.reason === 'inactive'
+              ? t('moment.joinClosed')
+              : t('moment.joinOutOfRange', { location: locationName })
+          );
+          break;
         case 'new_photo':
           if (message.photo) {
             store.getState().addLivePhoto({
@@ -151,12 +221,13 @@ export const RainbowMomentOverlay: React.FC = () => {
           break;
         case 'moment_archived':
           store.getState().updateMomentStatus('archived');
+          store.getState().setParticipating(false);
           store.getState().setActiveMoment(null);
           break;
       }
     };
 
-    unsubscribeRef.current = subscribeToRainbowMoment(activeMoment.id, handleMessage);
+    unsubscribeRef.current = subscribeToRainbowMoment(momentId, handleMessage);
 
     return () => {
       if (unsubscribeRef.current) {
@@ -164,18 +235,34 @@ export const RainbowMomentOverlay: React.FC = () => {
         unsubscribeRef.current = null;
       }
     };
-  }, [activeMoment?.id, store]);
+  }, [activeMoment?.id, currentUserId, store, requestJoin, t]);
 
-  const handleToggleParticipation = useCallback(() => {
-    const next = !isParticipating;
-    store.getState().setParticipating(next);
+  const handleToggleParticipation = useCallback(async () => {
+    if (!activeMoment) return;
 
-    AccessibilityInfo.announceForAccessibility(
-      next
-        ? t('moment.joined')
-        : t('moment.left')
-    );
-  }, [isParticipating, store, t]);
+    if (isParticipating) {
+      leaveRainbowMoment(activeMoment.id);
+      store.getState().setParticipating(false);
+      AccessibilityInfo.announceForAccessibility(t('moment.left'));
+      return;
+    }
+
+    setIsJoining(true);
+    const sent = await requestJoin(activeMoment.id);
+    if (!sent) {
+      setIsJoining(false);
+      Alert.alert(t('moment.joinFailed'), t('moment.locationRequired'));
+    }
+  }, [activeMoment, isParticipating, requestJoin, store, t]);
+
+  // Announce once the server has confirmed the join
+  const wasParticipatingRef = useRef(isParticipating);
+  useEffect(() => {
+    if (isParticipating && !wasParticipatingRef.current) {
+      AccessibilityInfo.announceForAccessibility(t('moment.joined'));
+    }
+    wasParticipatingRef.current = isParticipating;
+  }, [isParticipating, t]);
 
   const renderPhotoThumbnail = useCallback(
     ({ item }: { item: MomentPhoto }) => (
@@ -230,6 +317,14 @@ export const RainbowMomentOverlay: React.FC = () => {
         </Text>
       </Animated.View>
 
+      {/* Live updates paused while the socket reconnects */}
+      {isReconnecting && (
+        <View style={styles.reconnectingRow} accessibilityLiveRegion="polite">
+          <Ionicons name="cloud-offline-outline" size={14} color={accessibleColors.textMuted} />
+          <Text style={styles.reconnectingText}>{t('moment.reconnecting')}</Text>
+        </View>
+      )}
+
       {/* Participation Button */}
       <TouchableOpacity
         style={[
@@ -237,12 +332,13 @@ export const RainbowMomentOverlay: React.FC = () => {
           isParticipating && styles.participateButtonActive,
         ]}
         onPress={handleToggleParticipation}
+        disabled={isJoining}
         accessible={true}
         accessibilityRole="button"
         accessibilityLabel={
           isParticipating ? t('moment.leaveButton') : t('moment.joinButton')
         }
-        accessibilityState={{ selected: isParticipating }}
+        accessibilityState={{ selected: isParticipating, busy: isJoining }}
         testID="participate-button"
       >
         <Ionicons
@@ -344,6 +440,17 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: accessibleColors.textPrimary,
   },
+  reconnectingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  reconnectingText: {
+    fontSize: 12,
+    color: accessibleColors.textMuted,
+  },
   participateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,381 @@
+/**
+ * RegionComparisonChart - Overlay of rainbow statistics for several regions
+ *
+ * Draws one line per region for peak hours, peak months, temperature or
+ * humidity on a shared chart, followed by a side-by-side table of the most
+ * common weather conditions. Uses the same RegionStats shape as
+ * RegionStatsModal so both views stay consistent.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Screen reader summary of the busiest value per region
+ * - Selected state on metric tabs
+ * - Legend does not rely on colour alone (region names are listed)
+ *
+ * Requirements: FR-6 (AC-6.4), FR-13 (AC-13.6)
+ */
+
+import React, { useMemo, useState } from 'react';
+
+import { StyleSheet, View, Text, TouchableOpacity, Dimensions } from 'react-native';
+
+import { useTranslation } from 'react-i18next';
+import { LineChart } from 'react-native-chart-kit';
+
+import { STATS_CHART_CONFIG } from './RegionStatsModal';
+import {
+  accessibleColors,
+  MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { RegionStats } from '../../services/mapService';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Metric shown on the comparison chart
+ */
+export type ComparisonMetric = 'hours' | 'months' | 'temperature' | 'humidity';
+
+export interface RegionComparisonChartProps {
+  /** Regions to compare (two or more for a meaningful overlay) */
+  regions: RegionStats[];
+  /** Initially selected metric */
+  initialMetric?: ComparisonMetric;
+  /** Chart width (defaults to screen width minus padding) */
+  width?: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+const METRICS: ComparisonMetric[] = ['hours', 'months', 'temperature', 'humidity'];
+
+/**
+ * Line colours per region (in selection order)
+ */
+export const REGION_COLORS = ['#3D7A8C', '#C05621', '#6B46C1', '#2F855A', '#B7791F', '#C53030'];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+const HOUR_LABEL_INTERVAL = 3;
+const MAX_CONDITIONS = 4;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Convert a hex colour to the rgba() function chart-kit expects
+ */
+const toRgba =
+  (hex: string) =>
+  (opacity = 1) => {
+    const value = parseInt(hex.slice(1), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+  };
+
+export const getRegionColor = (index: number): string =>
+  REGION_COLORS[index % REGION_COLORS.length];
+
+/**
+ * Series values for a region and metric, aligned to the chart labels
+ */
+const getSeries = (stats: RegionStats, metric: ComparisonMetric): number[] => {
+  switch (metric) {
+    case 'hours': {
+      const counts = new Map(stats.peakHours.map((p) => [p.hour, p.count]));
+      return HOURS.map((hour) => counts.get(hour) ?? 0);
+    }
+    case 'months': {
+      const counts = new Map(stats.peakMonths.map((p) => [p.month, p.count]));
+      return MONTHS.map((month) => counts.get(month) ?? 0);
+    }
+    case 'temperature':
+    case 'humidity': {
+      const range = stats.typicalWeather[metric];
+      return [range.min, range.avg, range.max];
+    }
+  }
+};
+
+// ============================================
+// Component
+// ============================================
+
+export const RegionComparisonChart: React.FC<RegionComparisonChartProps> = ({
+  regions,
+  initialMetric = 'hours',
+  width = SCREEN_WIDTH - 32,
+}) => {
+  const { t } = useTranslation();
+  const [metric, setMetric] = useState<ComparisonMetric>(initialMetric);
+
+  const labels = useMemo(() => {
+    switch (metric) {
+      case 'hours':
+        return HOURS.map((hour) => (hour % HOUR_LABEL_INTERVAL === 0 ? `${hour}` : ''));
+      case 'months':
+        return MONTHS.map((month) => `${month}`);
+      default:
+        return [
+          t('statistics.compare.min'),
+          t('statistics.compare.avg'),
+          t('statistics.compare.max'),
+        ];
+    }
+  }, [metric, t]);
+
+  const chartData = useMemo(
+    () => ({
+      labels,
+      datasets: regions.map((region, index) => ({
+        data: getSeries(region, metric),
+        color: toRgba(getRegionColor(index)),
+        strokeWidth: 2,
+      })),
+    }),
+    [labels, regions, metric]
+  );
+
+  /**
+   * Screen reader summary: the strongest value of each region
+   */
+  const accessibilitySummary = useMemo(() => {
+    const parts = regions.map((region) => {
+      switch (metric) {
+        case 'hours':
+          return region.peakHours[0]
+            ? t('statistics.compare.peakHourSummary', {
+                region: region.regionName,
+                hour: region.peakHours[0].hour,
+                count: region.peakHours[0].count,
+              })
+            : t('statistics.compare.noDataFor', { region: region.regionName });
+        case 'months':
+          return region.peakMonths[0]
+            ? t('statistics.compare.peakMonthSummary', {
+                region: region.regionName,
+                month: region.peakMonths[0].month,
+                count: region.peakMonths[0].count,
+              })
+            : t('statistics.compare.noDataFor', { region: region.regionName });
+        default:
+          return t(`statistics.compare.${metric}Summary`, {
+            region: region.regionName,
+            ...region.typicalWeather[metric],
+          });
+      }
+    });
+
+    return createScreenReaderAnnouncement(t(`statistics.compare.metric.${metric}`), ...parts);
+  }, [regions, metric, t]);
+
+  if (regions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} testID="region-comparison-chart">
+      {/* Metric tabs */}
+      <View style={styles.metricRow} accessibilityRole="tablist">
+        {METRICS.map((option) => {
+          const selected = option === metric;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.metricTab, selected && styles.metricTabSelected]}
+              onPress={() => setMetric(option)}
+              accessible={true}
+              accessibilityRole="tab"
+              accessibilityLabel={t(`statistics.compare.metric.${option}`)}
+              accessibilityState={{ selected }}
+              testID={`comparison-metric-${option}`}
+            >
+              <Text style={[styles.metricText, selected && styles.metricTextSelected]}>
+                {t(`statistics.compare.metric.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Overlay chart */}
+      <View
+        style={styles.chartContainer}
+        accessible={true}
+        accessibilityLabel={accessibilitySummary}
+        testID="region-comparison-line-chart"
+      >
+        <LineChart
+          data={chartData}
+          width={width}
+          height={220}
+          yAxisLabel=""
+          yAxisSuffix={metric === 'temperature' ? '°' : metric === 'humidity' ? '%' : ''}
+          chartConfig={STATS_CHART_CONFIG}
+          style={styles.chart}
+          fromZero={metric !== 'temperature'}
+          bezier={false}
+        />
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {regions.map((region, index) => (
+          <View
+            key={region.regionId}
+            style={styles.legendItem}
+            accessible={true}
+            accessibilityLabel={t('statistics.compare.legendItem', {
+              region: region.regionName,
+              count: region.totalSightings,
+            })}
+          >
+            <View style={[styles.legendSwatch, { backgroundColor: getRegionColor(index) }]} />
+            <Text style={styles.legendText}>
+              {region.regionName} ({region.totalSightings})
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Typical weather conditions, side by side */}
+      <Text style={styles.sectionTitle} accessibilityRole="header">
+        {t('statistics.compare.conditions')}
+      </Text>
+      <View style={styles.conditionsTable}>
+        {regions.map((region, index) => (
+          <View
+            key={region.regionId}
+            style={styles.conditionsColumn}
+            testID={`comparison-conditions-${region.regionId}`}
+          >
+            <Text
+              style={[styles.conditionsHeader, { color: getRegionColor(index) }]}
+              numberOfLines={1}
+            >
+              {region.regionName}
+            </Text>
+            {region.typicalWeather.conditions.length === 0 ? (
+              <Text style={styles.conditionText}>-</Text>
+            ) : (
+              region.typicalWeather.conditions.slice(0, MAX_CONDITIONS).map((c) => (
+                <Text
+                  key={c.condition}
+                  style={styles.conditionText}
+                  accessibilityLabel={t('statistics.compare.conditionCount', {
+                    condition: t(`statistics.conditions.${c.condition}`, {
+                      defaultValue: c.condition,
+                    }),
+                    count: c.count,
+                  })}
+                >
+                  {t(`statistics.conditions.${c.condition}`, { defaultValue: c.condition })} (
+                  {c.count})
+                </Text>
+              ))
+            )}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+// ============================================
+// Styles
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: accessibleColors.backgroundLight,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  metricRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+    marginBottom: 8,
+    gap: 4,
+  },
+  metricTab: {
+    flex: 1,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  metricTabSelected: {
+    backgroundColor: accessibleColors.primary,
+  },
+  metricText: {
+    fontSize: 12,
+    color: accessibleColors.textSecondary,
+  },
+  metricTextSelected: {
+    color: accessibleColors.backgroundLight,
+    fontWeight: '600',
+  },
+  chartContainer: {
+    alignItems: 'center',
+  },
+  chart: {
+    borderRadius: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    marginTop: 8,
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 13,
+    color: accessibleColors.textPrimary,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 16,
+    marginBottom: 8,
+    paddingHorizontal: 16,
+  },
+  conditionsTable: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  conditionsColumn: {
+    flex: 1,
+  },
+  conditionsHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  conditionText: {
+    fontSize: 12,
+    color: accessibleColors.textSecondary,
+    marginBottom: 2,
+  },
+});
+
+export default RegionComparisonChart;
@@ -82,8 +82,9 @@ const MONTH_NAMES = [
 
 /**
  * Chart configuration
+ * Shared with the statistics screens so all rainbow charts look the same.
  */
-const CHART_CONFIG = {
+export const STATS_CHART_CONFIG = {
   backgroundColor: '#FFFFFF',
   backgroundGradientFrom: '#FFFFFF',
   backgroundGradientTo: '#FFFFFF',
@@ -384,7 +385,7 @@ export const RegionStatsModal: React.FC<RegionStatsModalProps> = ({
                 height={160}
                 yAxisLabel=""
                 yAxisSuffix=""
-                chartConfig={CHART_CONFIG}
+                chartConfig={STATS_CHART_CONFIG}
                 style={styles.chart}
                 fromZero={true}
                 showValuesOnTopOfBars={true}
@@ -412,7 +413,7 @@ export const RegionStatsModal: React.FC<RegionStatsModalProps> = ({
                 height={160}
                 yAxisLabel=""
                 yAxisSuffix=""
-                chartConfig={CHART_CONFIG}
+                chartConfig={STATS_CHART_CONFIG}
                 style={styles.chart}
                 fromZero={true}
                 showValuesOnTopOfBars={true}
@@ -7,5 +7,6 @@
 export { ClusteredMap } from './ClusteredMap';
 export { PhotoPreviewModal } from './PhotoPreviewModal';
 export { HeatmapOverlay } from './HeatmapOverlay';
-export { RegionStatsModal } from './RegionStatsModal';
+export { RegionStatsModal, STATS_CHART_CONFIG } from './RegionStatsModal';
 export { RainbowMomentOverlay } from './RainbowMomentOverlay';
+export { RegionComparisonChart } from './RegionComparisonChart';
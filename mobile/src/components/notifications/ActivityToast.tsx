@@ -0,0 +1,173 @@
+/**
+ * ActivityToast Component
+ *
+ * A short in-app toast shown at the top of the screen when someone likes or
+ * comments on the user's photo while the app is open. Hides itself after a
+ * few seconds; tapping it opens the photo.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Announced to screen readers when shown
+ * - Dismiss exposed as an accessibility action
+ * - Minimum touch target sizes (44x44pt)
+ *
+ * Requirements: F-5 (Real-time Updates), FR-8 (Social Features)
+ */
+
+import React, { useEffect, useRef } from 'react';
+
+import {
+  AccessibilityInfo,
+  Animated,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { NOTIFICATION_ICONS } from './NotificationItem';
+import { accessibleColors, MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
+
+import type { LiveSocialActivity } from '../../hooks/useLiveSocialUpdates';
+
+// ============================================
+// Types
+// ============================================
+
+interface ActivityToastProps {
+  /** Activity to show; null hides the toast */
+  activity: LiveSocialActivity | null;
+  /** Called when the toast is tapped */
+  onPress: (activity: LiveSocialActivity) => void;
+  /** Called when the toast is closed or times out */
+  onDismiss: () => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** How long a toast stays on screen */
+const TOAST_DURATION_MS = 4000;
+
+// ============================================
+// Component
+// ============================================
+
+export const ActivityToast: React.FC<ActivityToastProps> = ({ activity, onPress, onDismiss }) => {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  const message = activity
+    ? activity.type === 'like'
+      ? t('notifications.liveLike', { name: activity.userName })
+      : t('notifications.liveComment', { name: activity.userName, content: activity.content ?? '' })
+    : '';
+
+  // Fade in and restart the timer for every new activity
+  useEffect(() => {
+    if (!activity) {
+      opacity.setValue(0);
+      return;
+    }
+
+    AccessibilityInfo.announceForAccessibility(message);
+    Animated.timing(opacity, { toValue: 1, duration: 200, useNativeDriver: true }).start();
+
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [activity, message, onDismiss, opacity]);
+
+  if (!activity) {
+    return null;
+  }
+
+  return (
+    <Animated.View
+      style={[styles.container, { top: insets.top + 8, opacity }]}
+      pointerEvents="box-none"
+      testID="activity-toast"
+    >
+      <View style={styles.toast}>
+        <TouchableOpacity
+          style={styles.content}
+          onPress={() => onPress(activity)}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={message}
+          accessibilityHint={t('notifications.liveOpenHint')}
+          accessibilityActions={[{ name: 'dismiss', label: t('common.close') }]}
+          onAccessibilityAction={(event) => {
+            if (event.nativeEvent.actionName === 'dismiss') {
+              onDismiss();
+            }
+          }}
+          testID="activity-toast-open"
+        >
+          <Ionicons
+            name={NOTIFICATION_ICONS[activity.type]}
+            size={20}
+            color={activity.type === 'like' ? accessibleColors.error : accessibleColors.primary}
+          />
+          <Text style={styles.message} numberOfLines={2}>
+            {message}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.closeButton}
+          onPress={onDismiss}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.close')}
+          testID="activity-toast-close"
+        >
+          <Ionicons name="close" size={18} color={accessibleColors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    zIndex: 10,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingLeft: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingVertical: 10,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: accessibleColors.textPrimary,
+  },
+  closeButton: {
+    minWidth: MIN_TOUCH_TARGET_SIZE,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,239 @@
+/**
+ * NotificationItem Component
+ *
+ * A single row of the notification inbox. Unread rows are highlighted and
+ * can be swiped left to mark them as read.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Read state included in the accessibility label
+ * - "Mark as read" exposed as an accessibility action (no swipe needed)
+ * - Minimum touch target sizes (44x44pt)
+ *
+ * Requirements: FR-7 (AC-7.1)
+ */
+
+import React, { useCallback, useRef } from 'react';
+
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { enUS, ja } from 'date-fns/locale';
+import { useTranslation } from 'react-i18next';
+import { Swipeable } from 'react-native-gesture-handler';
+
+import {
+  accessibleColors,
+  MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { Notification, NotificationType } from '../../types/notification';
+
+// ============================================
+// Types
+// ============================================
+
+interface NotificationItemProps {
+  notification: Notification;
+  /** Called when the row is tapped */
+  onPress: (notification: Notification) => void;
+  /** Called when the row is swiped (or the accessibility action is used) */
+  onMarkAsRead: (notification: Notification) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/**
+ * Icon per notification type
+ */
+export const NOTIFICATION_ICONS: Record<NotificationType, keyof typeof Ionicons.glyphMap> = {
+  rainbow_alert: 'partly-sunny',
+  like: 'heart',
+  comment: 'chatbubble',
+  system: 'information-circle',
+};
+
+const ACTION_WIDTH = 96;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Format the notification time relative to now (e.g. "5 minutes ago")
+ */
+const formatRelativeTime = (createdAt: string, language: string): string => {
+  try {
+    return formatDistanceToNow(new Date(createdAt), {
+      addSuffix: true,
+      locale: language.startsWith('ja') ? ja : enUS,
+    });
+  } catch {
+    return '';
+  }
+};
+
+// ============================================
+// Component
+// ============================================
+
+export const NotificationItem: React.FC<NotificationItemProps> = ({
+  notification,
+  onPress,
+  onMarkAsRead,
+}) => {
+  const { t, i18n } = useTranslation();
+  const swipeableRef = useRef<Swipeable>(null);
+
+  const relativeTime = formatRelativeTime(notification.createdAt, i18n.language);
+
+  const handleSwipeOpen = useCallback(() => {
+    onMarkAsRead(notification);
+    swipeableRef.current?.close();
+  }, [notification, onMarkAsRead]);
+
+  const handleAccessibilityAction = useCallback(
+    (event: { nativeEvent: { actionName: string } }) => {
+      if (event.nativeEvent.actionName === 'markAsRead') {
+        onMarkAsRead(notification);
+      }
+    },
+    [notification, onMarkAsRead]
+  );
+
+  const renderRightActions = useCallback(
+    () => (
+      <View style={styles.swipeAction}>
+        <Ionicons name="checkmark-done" size={24} color={accessibleColors.backgroundLight} />
+        <Text style={styles.swipeActionText}>{t('notifications.markRead')}</Text>
+      </View>
+    ),
+    [t]
+  );
+
+  const content = (
+    <TouchableOpacity
+      style={[styles.container, !notification.isRead && styles.unreadContainer]}
+      onPress={() => onPress(notification)}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={createScreenReaderAnnouncement(
+        notification.isRead ? undefined : t('notifications.unread'),
+        notification.title,
+        notification.body,
+        relativeTime
+      )}
+      accessibilityActions={
+        notification.isRead
+          ? undefined
+          : [{ name: 'markAsRead', label: t('notifications.markRead') }]
+      }
+      onAccessibilityAction={handleAccessibilityAction}
+      testID={`notification-item-${notification.id}`}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons
+          name={NOTIFICATION_ICONS[notification.type] ?? 'notifications'}
+          size={22}
+          color={accessibleColors.primary}
+        />
+      </View>
+      <View style={styles.textContainer}>
+        <Text style={[styles.title, !notification.isRead && styles.unreadTitle]} numberOfLines={1}>
+          {notification.title}
+        </Text>
+        <Text style={styles.body} numberOfLines={2}>
+          {notification.body}
+        </Text>
+        {relativeTime !== '' && <Text style={styles.time}>{relativeTime}</Text>}
+      </View>
+      {!notification.isRead && <View style={styles.unreadDot} testID="notification-unread-dot" />}
+    </TouchableOpacity>
+  );
+
+  // Read notifications have nothing to swipe for
+  if (notification.isRead) {
+    return content;
+  }
+
+  return (
+    <Swipeable
+      ref={swipeableRef}
+      renderRightActions={renderRightActions}
+      onSwipeableOpen={handleSwipeOpen}
+      rightThreshold={ACTION_WIDTH / 2}
+    >
+      {content}
+    </Swipeable>
+  );
+};
+
+// ============================================
+// Styles
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: MIN_TOUCH_TARGET_SIZE + 24,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: accessibleColors.backgroundLight,
+  },
+  unreadContainer: {
+    backgroundColor: '#EEF6F8',
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: accessibleColors.backgroundMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    color: accessibleColors.textPrimary,
+  },
+  unreadTitle: {
+    fontWeight: '700',
+  },
+  body: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    marginTop: 2,
+  },
+  time: {
+    fontSize: 12,
+    color: accessibleColors.textMuted,
+    marginTop: 4,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: accessibleColors.primary,
+    marginLeft: 8,
+  },
+  swipeAction: {
+    width: ACTION_WIDTH,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: accessibleColors.primary,
+  },
+  swipeActionText: {
+    fontSize: 12,
+    color: accessibleColors.backgroundLight,
+    marginTop: 4,
+  },
+});
+
+export default NotificationItem;
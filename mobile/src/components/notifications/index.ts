@@ -0,0 +1,8 @@
+/**
+ * Notification Components Index
+ *
+ * Exports notification inbox and in-app toast components.
+ */
+
+export { NotificationItem, NOTIFICATION_ICONS } from './NotificationItem';
+export { ActivityToast } from './ActivityToast';
@@ -0,0 +1,144 @@
+/**
+ * PhotoGridItem - Square photo tile for profile photo grids
+ *
+ * Shared by the signed-in user's ProfileScreen and other users'
+ * UserProfileScreen so both grids use the same layout.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Screen reader label with title, location and like count
+ * - Minimum touch target size 44x44pt (tiles are ~1/3 screen width)
+ *
+ * Requirements: FR-9 (AC-9.3)
+ */
+
+import React from 'react';
+
+import { StyleSheet, Text, View, TouchableOpacity, Dimensions, type ViewStyle } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+
+import {
+  formatNumberForScreenReader,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { Photo } from '../../types/photo';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+/** Number of columns in a profile photo grid */
+export const PHOTO_GRID_COLUMNS = 3;
+
+const GRID_GAP = 2;
+const PHOTO_SIZE = (screenWidth - GRID_GAP * (PHOTO_GRID_COLUMNS + 1)) / PHOTO_GRID_COLUMNS;
+
+/** FlatList columnWrapperStyle matching the tile margins */
+export const photoGridColumnWrapperStyle: ViewStyle = {
+  paddingHorizontal: GRID_GAP / 2,
+};
+
+interface PhotoGridItemProps {
+  /** Photo to display */
+  photo: Photo;
+  /** Callback when the tile is pressed */
+  onPress: (photo: Photo) => void;
+  /** Optional callback when the tile is long pressed */
+  onLongPress?: (photo: Photo) => void;
+  /** What the gestures do, appended to the screen reader label */
+  actionLabel: string;
+  /** Screen reader hint */
+  accessibilityHint: string;
+  /** Test ID for testing frameworks */
+  testID?: string;
+}
+
+/**
+ * Format count for display with abbreviation
+ */
+const formatCount = (count: number): string => {
+  if (count >= 10000) {
+    return `${(count / 10000).toFixed(1)}`;
+  }
+  if (count >= 1000) {
+    return `${(count / 1000).toFixed(1)}k`;
+  }
+  return count.toString();
+};
+
+export const PhotoGridItem: React.FC<PhotoGridItemProps> = ({
+  photo,
+  onPress,
+  onLongPress,
+  actionLabel,
+  accessibilityHint,
+  testID,
+}) => {
+  const accessibilityLabel = createScreenReaderAnnouncement(
+    photo.title || 'Rainbow photo',
+    photo.location?.name || '',
+    `${formatNumberForScreenReader(photo.likeCount)} likes`,
+    actionLabel
+  );
+
+  return (
+    <TouchableOpacity
+      style={styles.photoItem}
+      onPress={() => onPress(photo)}
+      onLongPress={onLongPress ? () => onLongPress(photo) : undefined}
+      delayLongPress={500}
+      accessible={true}
+      accessibilityLabel={accessibilityLabel}
+      accessibilityRole="button"
+      accessibilityHint={accessibilityHint}
+      testID={testID}
+    >
+      <Image
+        source={{ uri: photo.imageUrls.thumbnail || photo.imageUrls.medium }}
+        style={styles.photoImage}
+        contentFit="cover"
+        transition={200}
+      />
+      {/* Like count overlay */}
+      <View style={styles.photoOverlay}>
+        <View style={styles.photoStats}>
+          <Ionicons name="heart" size={12} color="#FFFFFF" />
+          <Text style={styles.photoStatsText}>{formatCount(photo.likeCount)}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  photoItem: {
+    width: PHOTO_SIZE,
+    height: PHOTO_SIZE,
+    margin: GRID_GAP / 2,
+    backgroundColor: '#E0E0E0',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoOverlay: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  photoStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  photoStatsText: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+});
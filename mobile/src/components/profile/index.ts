@@ -0,0 +1,7 @@
+/**
+ * Profile Components
+ *
+ * Exports components shared by the profile screens.
+ */
+
+export { PhotoGridItem, PHOTO_GRID_COLUMNS, photoGridColumnWrapperStyle } from './PhotoGridItem';
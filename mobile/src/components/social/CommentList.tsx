@@ -3,6 +3,8 @@
  *
  * Displays a list of comments with the ability to add new comments.
  * Supports pagination, delete own comments, and report functionality.
+ * Comments from blocked users are hidden. When commentCount grows past the
+ * loaded total (e.g. from a live update), the newest comments are fetched.
  *
  * Accessibility features (WCAG 2.1 AA):
  * - Accessible labels for all interactive elements
@@ -14,7 +16,7 @@
  * Requirements: FR-8 (Social Features), NFR-5 (Accessibility)
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 
 import {
   StyleSheet,
@@ -32,23 +34,32 @@ import {
 import { useTranslation } from 'react-i18next';
 
 import { socialService } from '../../services/socialService';
+import { useBlockedUserIds } from '../../store/blockStore';
 import { MAX_COMMENT_LENGTH } from '../../types/social';
 import { MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
 
-import type { Comment, ReportableType } from '../../types/social';
+import type { Comment, ReportableType, SocialUser } from '../../types/social';
 
 interface CommentListProps {
   photoId: string;
+  /** Latest known comment total; newer comments are loaded when it grows */
+  commentCount?: number;
   onCommentCountChange?: (count: number) => void;
   onReportPress?: (type: ReportableType, id: string) => void;
+  onUserPress?: (user: SocialUser) => void;
+  onBlockUser?: (user: SocialUser) => void;
 }
 
 export const CommentList: React.FC<CommentListProps> = ({
   photoId,
+  commentCount,
   onCommentCountChange,
   onReportPress,
+  onUserPress,
+  onBlockUser,
 }) => {
   const { t } = useTranslation();
+  const blockedUserIds = useBlockedUserIds();
   const [comments, setComments] = useState<Comment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -57,6 +68,7 @@ export const CommentList: React.FC<CommentListProps> = ({
   const [newComment, setNewComment] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Load comments
@@ -82,6 +94,7 @@ export const CommentList: React.FC<CommentListProps> = ({
 
         setCurrentPage(response.pagination.currentPage);
         setTotalPages(response.pagination.totalPages);
+        setTotalCount(response.pagination.totalCount);
         onCommentCountChange?.(response.pagination.totalCount);
       } catch (err) {
         setError(t('social.commentLoadError'));
@@ -100,6 +113,38 @@ export const CommentList: React.FC<CommentListProps> = ({
     loadComments(1);
   }, [loadComments]);
 
+  // Prepend comments posted since the list was loaded
+  const loadNewComments = useCallback(
+    async (expectedCount: number) => {
+      try {
+        const response = await socialService.getComments(photoId, 1);
+        setComments((prev) => {
+          const loadedIds = new Set(prev.map((c) => c.id));
+          const added = response.comments.filter((c) => !loadedIds.has(c.id));
+          return added.length > 0 ? [...added, ...prev] : prev;
+        });
+        // Never below the expected count, so a lagging response does not refetch again
+        setTotalCount(Math.max(response.pagination.totalCount, expectedCount));
+      } catch (err) {
+        console.error('Failed to load new comments:', err);
+      }
+    },
+    [photoId]
+  );
+
+  // Someone else commented (live update from the parent)
+  useEffect(() => {
+    if (commentCount !== undefined && totalCount !== null && commentCount > totalCount) {
+      loadNewComments(commentCount);
+    }
+  }, [commentCount, totalCount, loadNewComments]);
+
+  // Hide comments from blocked users
+  const visibleComments = useMemo(
+    () => comments.filter((comment) => !blockedUserIds.has(comment.user.id)),
+    [comments, blockedUserIds]
+  );
+
   // Handle refresh
   const handleRefresh = useCallback(() => {
     loadComments(1, true);
@@ -143,6 +188,7 @@ export const CommentList: React.FC<CommentListProps> = ({
       setComments((prev) =>
         prev.map((c) => (c.id === tempId ? response.comment : c))
       );
+      setTotalCount(response.commentCount);
       onCommentCountChange?.(response.commentCount);
     } catch (err) {
       // Revert optimistic update
@@ -171,6 +217,7 @@ export const CommentList: React.FC<CommentListProps> = ({
 
             try {
               const response = await socialService.deleteComment(commentId);
+              setTotalCount(response.commentCount);
               onCommentCountChange?.(response.commentCount);
             } catch {
               // Revert optimistic update
@@ -208,56 +255,89 @@ export const CommentList: React.FC<CommentListProps> = ({
   };
 
   // Render comment item with accessibility support
-  const renderComment = ({ item }: { item: Comment }) => (
-    <View
-      style={styles.commentItem}
-      accessible={true}
-      accessibilityRole="text"
-      accessibilityLabel={`${item.user.displayName}のコメント、${formatDate(item.createdAt)}、${item.content}`}
-    >
-      <View style={styles.commentHeader} accessible={false}>
-        <View
-          style={styles.commentAvatar}
-          accessible={false}
-          importantForAccessibility="no-hide-descendants"
-        >
-          <Text style={styles.avatarText}>
-            {item.user.displayName.charAt(0).toUpperCase()}
-          </Text>
-        </View>
-        <View style={styles.commentMeta} accessible={false}>
-          <Text style={styles.commentAuthor}>{item.user.displayName}</Text>
-          <Text style={styles.commentDate}>{formatDate(item.createdAt)}</Text>
-        </View>
-        {item.isOwn ? (
-          <TouchableOpacity
-            style={styles.commentAction}
-            onPress={() => handleDeleteComment(item.id)}
-            accessible={true}
-            accessibilityRole="button"
-            accessibilityLabel={`${item.user.displayName}のコメントを削除`}
-            accessibilityHint="ダブルタップで削除確認ダイアログを表示"
-          >
-            <Text style={styles.deleteText}>削除</Text>
-          </TouchableOpacity>
-        ) : (
+  const renderComment = ({ item }: { item: Comment }) => {
+    // Optimistic comments do not carry the real author yet
+    const canOpenProfile = !!onUserPress && !item.id.startsWith('temp-');
+
+    return (
+      <View
+        style={styles.commentItem}
+        accessible={true}
+        accessibilityRole="text"
+        accessibilityLabel={`${item.user.displayName}のコメント、${formatDate(item.createdAt)}、${item.content}`}
+        accessibilityActions={
+          canOpenProfile ? [{ name: 'viewProfile', label: t('photo.viewProfile') }] : undefined
+        }
+        onAccessibilityAction={(event) => {
+          if (canOpenProfile && event.nativeEvent.actionName === 'viewProfile') {
+            onUserPress(item.user);
+          }
+        }}
+      >
+        <View style={styles.commentHeader} accessible={false}>
           <TouchableOpacity
-            style={styles.commentAction}
-            onPress={() => onReportPress?.('Comment', item.id)}
-            accessible={true}
-            accessibilityRole="button"
-            accessibilityLabel={`${item.user.displayName}のコメントを報告`}
-            accessibilityHint="ダブルタップで報告画面を表示"
+            style={styles.commentAuthorButton}
+            onPress={() => onUserPress?.(item.user)}
+            disabled={!canOpenProfile}
+            accessible={false}
+            testID={`comment-author-${item.id}`}
           >
-            <Text style={styles.reportText}>報告</Text>
+            <View
+              style={styles.commentAvatar}
+              accessible={false}
+              importantForAccessibility="no-hide-descendants"
+            >
+              <Text style={styles.avatarText}>{item.user.displayName.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.commentMeta} accessible={false}>
+              <Text style={styles.commentAuthor}>{item.user.displayName}</Text>
+              <Text style={styles.commentDate}>{formatDate(item.createdAt)}</Text>
+            </View>
           </TouchableOpacity>
-        )}
+          {item.isOwn ? (
+            <TouchableOpacity
+              style={styles.commentAction}
+              onPress={() => handleDeleteComment(item.id)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={`${item.user.displayName}のコメントを削除`}
+              accessibilityHint="ダブルタップで削除確認ダイアログを表示"
+            >
+              <Text style={styles.deleteText}>削除</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.commentActions}>
+              <TouchableOpacity
+                style={styles.commentAction}
+                onPress={() => onReportPress?.('Comment', item.id)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`${item.user.displayName}のコメントを報告`}
+                accessibilityHint="ダブルタップで報告画面を表示"
+              >
+                <Text style={styles.reportText}>報告</Text>
+              </TouchableOpacity>
+              {onBlockUser && !item.id.startsWith('temp-') && (
+                <TouchableOpacity
+                  style={styles.commentAction}
+                  onPress={() => onBlockUser(item.user)}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('social.blockUserOf', { name: item.user.displayName })}
+                  testID={`comment-block-${item.id}`}
+                >
+                  <Text style={styles.reportText}>{t('social.block')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+        <Text style={styles.commentContent} accessible={false}>
+          {item.content}
+        </Text>
       </View>
-      <Text style={styles.commentContent} accessible={false}>
-        {item.content}
-      </Text>
-    </View>
-  );
+    );
+  };
 
   // Render footer (loading more indicator)
   const renderFooter = () => {
@@ -336,14 +416,14 @@ export const CommentList: React.FC<CommentListProps> = ({
         style={styles.header}
         accessible={true}
         accessibilityRole="header"
-        accessibilityLabel={`コメント、${comments.length}件`}
+        accessibilityLabel={`コメント、${visibleComments.length}件`}
       >
         <Text style={styles.headerTitle}>コメント</Text>
-        <Text style={styles.commentCount}>{comments.length}件</Text>
+        <Text style={styles.commentCount}>{visibleComments.length}件</Text>
       </View>
 
       <FlatList
-        data={comments}
+        data={visibleComments}
         renderItem={renderComment}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
@@ -498,6 +578,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  commentAuthorButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+  },
   commentMeta: {
     flex: 1,
   },
@@ -511,6 +597,9 @@ const styles = StyleSheet.create({
     color: '#6B6B6B', // Accessible muted text (4.54:1 on white)
     marginTop: 2,
   },
+  commentActions: {
+    flexDirection: 'row',
+  },
   commentAction: {
     // Ensure minimum touch target size (WCAG 2.5.5)
     minWidth: MIN_TOUCH_TARGET_SIZE,
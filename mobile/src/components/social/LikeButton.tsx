@@ -2,7 +2,8 @@
  * LikeButton Component
  *
  * A button that allows users to like/unlike photos with optimistic UI updates.
- * Displays like count and visual feedback for the current state.
+ * Displays like count and visual feedback for the current state. The count
+ * follows initialLikeCount, so live updates from the parent are shown.
  *
  * Accessibility features (WCAG 2.1 AA):
  * - Clear accessibility labels in Japanese
@@ -13,7 +14,7 @@
  * Requirements: FR-8 (Social Features), NFR-5 (Accessibility)
  */
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 
 import {
   StyleSheet,
@@ -54,6 +55,11 @@ export const LikeButton: React.FC<LikeButtonProps> = ({
   const [likeCount, setLikeCount] = useState(initialLikeCount);
   const [isLoading, setIsLoading] = useState(false);
 
+  // Follow count changes from outside (e.g. someone else liked the photo)
+  useEffect(() => {
+    setLikeCount(initialLikeCount);
+  }, [initialLikeCount]);
+
   // Animation value for the heart scale
   const scaleAnim = useRef(new Animated.Value(1)).current;
 
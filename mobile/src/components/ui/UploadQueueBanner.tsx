@@ -18,6 +18,7 @@ import {
 } from 'react-native';
 
 import { useNetworkState, useUploadQueueProcessor } from '../../hooks';
+import { useUploadProgress, type QueuedUpload } from '../../store/uploadQueueStore';
 
 /**
  * Props for UploadQueueBanner
@@ -27,10 +28,53 @@ interface UploadQueueBannerProps {
   showNetworkStatus?: boolean;
 }
 
+/**
+ * Progress row for an upload in flight, with a cancel action
+ */
+function UploadingRow({
+  item,
+  onCancel,
+}: {
+  item: QueuedUpload;
+  onCancel: (id: string) => void;
+}): React.ReactElement {
+  const progress = useUploadProgress(item.id);
+  const name = item.metadata.title || 'Photo';
+
+  return (
+    <View style={[styles.banner, styles.pendingBanner]} testID={`upload-queue-item-${item.id}`}>
+      <View style={styles.progressContent}>
+        <Text style={styles.progressText} numberOfLines={1}>
+          Uploading {name}... {progress}%
+        </Text>
+        <View
+          style={styles.progressTrack}
+          accessible={true}
+          accessibilityRole="progressbar"
+          accessibilityLabel={`Uploading ${name}`}
+          accessibilityValue={{ min: 0, max: 100, now: progress }}
+        >
+          <View style={[styles.progressFill, { width: `${progress}%` }]} />
+        </View>
+      </View>
+      <TouchableOpacity
+        style={styles.retryButton}
+        onPress={() => onCancel(item.id)}
+        accessibilityLabel={`Cancel uploading ${name}`}
+        accessibilityRole="button"
+        testID={`upload-queue-cancel-${item.id}`}
+      >
+        <Text style={styles.retryButtonText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
 /**
  * Upload queue status banner
  *
  * Shows:
+ * - Progress of each upload in flight with a cancel option
  * - Pending uploads count
  * - Failed uploads count with retry option
  * - Processing indicator
@@ -49,11 +93,13 @@ export function UploadQueueBanner({
     isProcessing,
     pendingCount,
     failedCount,
+    uploadingItems,
     retryFailed,
+    cancelUpload,
   } = useUploadQueueProcessor();
 
   // Don't render if nothing to show
-  if (pendingCount === 0 && failedCount === 0 && isOnline) {
+  if (pendingCount === 0 && failedCount === 0 && uploadingItems.length === 0 && isOnline) {
     return null;
   }
 
@@ -66,6 +112,11 @@ export function UploadQueueBanner({
         </View>
       )}
 
+      {/* Uploads in flight */}
+      {uploadingItems.map((item) => (
+        <UploadingRow key={item.id} item={item} onCancel={cancelUpload} />
+      ))}
+
       {/* Pending uploads */}
       {pendingCount > 0 && (
         <View style={[styles.banner, styles.pendingBanner]}>
@@ -157,6 +208,25 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  progressContent: {
+    flex: 1,
+  },
+  progressText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#FFFFFF',
+  },
   bannerText: {
     color: '#FFFFFF',
     fontSize: 14,
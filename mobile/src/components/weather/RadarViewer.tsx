@@ -1,34 +1,39 @@
 /**
- * RadarViewer - Radar image viewer component
+ * RadarViewer - Animated rain radar on a map
  *
- * Displays radar images in a horizontal scrollable list with timestamps
- * and intensity indicators. Supports animation/slideshow of radar images.
+ * Groups radar data into frames by timestamp and draws each frame's
+ * precipitation areas (center and radius) as circles colored by intensity.
+ * The frames loop with play/pause, a scrubber and a speed control, and the
+ * photo location and the sun's direction at each frame's time are marked
+ * on the same map.
  *
  * Accessibility features (WCAG 2.1 AA):
- * - accessibilityLabel for each radar image
- * - Description of intensity levels
- * - Navigation hints for horizontal scroll
+ * - Map summarised for screen readers (frame time, intensity, sun direction)
+ * - Scrubber exposed as an adjustable control
+ * - Minimum touch target size 44x44pt for the controls
  *
  * Requirements: FR-13 (AC-13.4)
  */
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 
 import {
   StyleSheet,
   Text,
   View,
-  ScrollView,
   TouchableOpacity,
-  Dimensions,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import MapView, { Circle, Marker, Polyline } from 'react-native-maps';
 
 import {
   accessibleColors,
   MIN_TOUCH_TARGET_SIZE,
 } from '../../utils/accessibility';
+import { getCardinalDirection } from '../../utils/rainbowGeometry';
+import { getSunPosition } from '../../utils/sunPosition';
 import { shouldEnableContinuousAnimations } from '../../utils/testMode';
 
 import type { RadarData } from '../../types/photo';
@@ -36,13 +41,32 @@ import type { RadarData } from '../../types/photo';
 interface RadarViewerProps {
   /** Radar data array */
   radarData: RadarData[];
+  /** Photo location, marked on the map and used for the sun direction */
+  location?: { latitude: number; longitude: number };
   /** Test ID for testing */
   testID?: string;
 }
 
-const screenWidth = Dimensions.get('window').width;
-const RADAR_IMAGE_WIDTH = screenWidth - 64;
-const RADAR_IMAGE_HEIGHT = 200;
+/**
+ * Radar data sharing a timestamp
+ */
+interface RadarFrame {
+  timestamp: string;
+  cells: RadarData[];
+  /** Heaviest precipitation in the frame (mm/h) */
+  intensity: number;
+}
+
+const RADAR_MAP_HEIGHT = 240;
+/** Frame duration at 1x speed */
+const FRAME_INTERVAL_MS = 1000;
+const PLAYBACK_SPEEDS = [0.5, 1, 2];
+/** Radius drawn for areas without one (meters) */
+const DEFAULT_AREA_RADIUS = 5000;
+/** Smallest map span so a lone area is not zoomed in to street level */
+const MIN_MAP_DELTA = 0.1;
+const METERS_PER_DEGREE = 111_320;
+const RAD = Math.PI / 180;
 
 /**
  * Get intensity description for accessibility
@@ -88,67 +112,140 @@ const formatTimestampForAccessibility = (timestamp: string): string => {
   });
 };
 
+/**
+ * Group radar data into frames ordered by time
+ */
+const groupFrames = (radarData: RadarData[]): RadarFrame[] => {
+  const byTimestamp = new Map<number, RadarFrame>();
+
+  for (const radar of radarData) {
+    const time = new Date(radar.timestamp).getTime();
+    const intensity = radar.precipitationIntensity ?? 0;
+    const frame = byTimestamp.get(time);
+    if (frame) {
+      frame.cells.push(radar);
+      frame.intensity = Math.max(frame.intensity, intensity);
+    } else {
+      byTimestamp.set(time, { timestamp: radar.timestamp, cells: [radar], intensity });
+    }
+  }
+
+  return [...byTimestamp.entries()].sort(([a], [b]) => a - b).map(([, frame]) => frame);
+};
+
+/**
+ * Point a distance along a compass bearing (flat-earth, fine at map scale)
+ */
+const offsetCoordinate = (
+  origin: { latitude: number; longitude: number },
+  bearing: number,
+  meters: number
+) => ({
+  latitude: origin.latitude + (meters * Math.cos(bearing * RAD)) / METERS_PER_DEGREE,
+  longitude:
+    origin.longitude +
+    (meters * Math.sin(bearing * RAD)) / (METERS_PER_DEGREE * Math.cos(origin.latitude * RAD)),
+});
+
+/**
+ * Get a map region that fits every precipitation area and the photo location
+ */
+const getRadarRegion = (
+  frames: RadarFrame[],
+  location?: { latitude: number; longitude: number }
+) => {
+  const latitudes: number[] = [];
+  const longitudes: number[] = [];
+
+  for (const radar of frames.flatMap((frame) => frame.cells)) {
+    if (radar.centerLatitude === undefined || radar.centerLongitude === undefined) {
+      continue;
+    }
+    const latRadius = (radar.radius ?? DEFAULT_AREA_RADIUS) / METERS_PER_DEGREE;
+    const lngRadius = latRadius / Math.cos(radar.centerLatitude * RAD);
+    latitudes.push(radar.centerLatitude - latRadius, radar.centerLatitude + latRadius);
+    longitudes.push(radar.centerLongitude - lngRadius, radar.centerLongitude + lngRadius);
+  }
+  if (location) {
+    latitudes.push(location.latitude);
+    longitudes.push(location.longitude);
+  }
+  if (latitudes.length === 0) {
+    return null;
+  }
+
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.2, MIN_MAP_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.2, MIN_MAP_DELTA),
+  };
+};
+
 export const RadarViewer: React.FC<RadarViewerProps> = ({
   radarData,
+  location,
   testID,
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const scrollViewRef = useRef<ScrollView>(null);
-  const animationRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [speed, setSpeed] = useState(1);
 
-  // Sort radar data by timestamp
-  const sortedData = [...radarData].sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
+  const frames = useMemo(() => groupFrames(radarData), [radarData]);
+  const region = useMemo(() => getRadarRegion(frames, location), [frames, location]);
+  const frame = frames[Math.min(currentIndex, frames.length - 1)];
+
+  // Sun at the frame's time, seen from the photo location (or the map center)
+  const sun = useMemo(() => {
+    const origin = location ?? region;
+    if (!frame || !origin) {
+      return null;
+    }
+    return {
+      origin,
+      position: getSunPosition(new Date(frame.timestamp), origin.latitude, origin.longitude),
+    };
+  }, [frame, location, region]);
 
   // Handle play/pause animation
   const togglePlayback = useCallback(() => {
     setIsPlaying((prev) => !prev);
   }, []);
 
+  // Cycle through playback speeds
+  const cycleSpeed = useCallback(() => {
+    setSpeed((prev) => PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(prev) + 1) % PLAYBACK_SPEEDS.length]);
+  }, []);
+
+  // Scrubbing takes over from playback
+  const handleScrub = useCallback((value: number) => {
+    setIsPlaying(false);
+    setCurrentIndex(Math.round(value));
+  }, []);
+
   // Animation effect
   // Note: Disabled in E2E test mode to prevent Detox synchronization issues
   useEffect(() => {
     // Skip animations in E2E test mode to allow Detox to synchronize
     const enableAnimations = shouldEnableContinuousAnimations();
 
-    if (isPlaying && sortedData.length > 1 && enableAnimations) {
-      animationRef.current = setInterval(() => {
-        setCurrentIndex((prev) => {
-          const nextIndex = (prev + 1) % sortedData.length;
-          scrollViewRef.current?.scrollTo({
-            x: nextIndex * (RADAR_IMAGE_WIDTH + 16),
-            animated: true,
-          });
-          return nextIndex;
-        });
-      }, 1000);
-    } else {
-      if (animationRef.current) {
-        clearInterval(animationRef.current);
-        animationRef.current = null;
-      }
+    if (!isPlaying || frames.length <= 1 || !enableAnimations) {
+      return;
     }
 
-    return () => {
-      if (animationRef.current) {
-        clearInterval(animationRef.current);
-      }
-    };
-  }, [isPlaying, sortedData.length]);
-
-  // Handle scroll end to update current index
-  const handleScrollEnd = useCallback(
-    (event: { nativeEvent: { contentOffset: { x: number } } }) => {
-      const offsetX = event.nativeEvent.contentOffset.x;
-      const newIndex = Math.round(offsetX / (RADAR_IMAGE_WIDTH + 16));
-      setCurrentIndex(Math.max(0, Math.min(newIndex, sortedData.length - 1)));
-    },
-    [sortedData.length]
-  );
+    const interval = setInterval(() => {
+      setCurrentIndex((prev) => (prev + 1) % frames.length);
+    }, FRAME_INTERVAL_MS / speed);
 
-  if (!sortedData || sortedData.length === 0) {
+    return () => clearInterval(interval);
+  }, [isPlaying, frames.length, speed]);
+
+  if (!frame) {
     return (
       <View
         style={styles.container}
@@ -176,13 +273,22 @@ export const RadarViewer: React.FC<RadarViewerProps> = ({
     );
   }
 
+  const visibleSun = sun && sun.position.altitude >= 0 ? sun : null;
+  const sunDescription = visibleSun
+    ? `太陽は${getCardinalDirection(visibleSun.position.azimuth)}（${Math.round(visibleSun.position.azimuth)}°）`
+    : '太陽は地平線の下';
+  // The sun line reaches about a third of the way across the map
+  const sunMarker =
+    visibleSun && region
+      ? offsetCoordinate(
+          visibleSun.origin,
+          visibleSun.position.azimuth,
+          (region.latitudeDelta * METERS_PER_DEGREE) / 3
+        )
+      : null;
+
   return (
-    <View
-      style={styles.container}
-      accessible={true}
-      accessibilityLabel={`雨雲レーダー。${sortedData.length}枚の画像。左右にスクロールして閲覧できます`}
-      testID={testID}
-    >
+    <View style={styles.container} testID={testID}>
       <View style={styles.header}>
         <View style={styles.titleContainer}>
           <Ionicons
@@ -192,101 +298,130 @@ export const RadarViewer: React.FC<RadarViewerProps> = ({
           />
           <Text style={styles.title}>雨雲レーダー</Text>
         </View>
-        {sortedData.length > 1 && (
-          <TouchableOpacity
-            style={styles.playButton}
-            onPress={togglePlayback}
-            accessible={true}
-            accessibilityLabel={isPlaying ? 'スライドショーを停止' : 'スライドショーを再生'}
-            accessibilityRole="button"
-          >
-            <Ionicons
-              name={isPlaying ? 'pause' : 'play'}
-              size={20}
-              color={accessibleColors.primary}
-            />
-          </TouchableOpacity>
+        {frames.length > 1 && (
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={cycleSpeed}
+              accessible={true}
+              accessibilityLabel={`再生速度 ${speed}倍`}
+              accessibilityHint="タップで再生速度を切り替えます"
+              accessibilityRole="button"
+              testID={testID ? `${testID}-speed` : undefined}
+            >
+              <Text style={styles.speedText}>{`${speed}x`}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={togglePlayback}
+              accessible={true}
+              accessibilityLabel={isPlaying ? 'アニメーションを停止' : 'アニメーションを再生'}
+              accessibilityRole="button"
+            >
+              <Ionicons
+                name={isPlaying ? 'pause' : 'play'}
+                size={20}
+                color={accessibleColors.primary}
+              />
+            </TouchableOpacity>
+          </View>
         )}
       </View>
 
-      <ScrollView
-        ref={scrollViewRef}
-        horizontal
-        showsHorizontalScrollIndicator={false}
-        pagingEnabled={false}
-        snapToInterval={RADAR_IMAGE_WIDTH + 16}
-        decelerationRate="fast"
-        onMomentumScrollEnd={handleScrollEnd}
-        style={styles.scrollView}
-        contentContainerStyle={styles.scrollContent}
+      <View
+        style={styles.mapContainer}
+        accessible={true}
+        accessibilityLabel={`${formatTimestampForAccessibility(frame.timestamp)}の雨雲レーダー。${getIntensityDescription(frame.intensity)}。${sunDescription}`}
+        testID={testID ? `${testID}-map` : undefined}
       >
-        {sortedData.map((radar, index) => (
-          <View
-            key={radar.timestamp}
-            style={styles.radarItem}
-            accessible={true}
-            accessibilityLabel={`${formatTimestampForAccessibility(radar.timestamp)}のレーダー画像。${getIntensityDescription(radar.precipitationIntensity ?? 0)}`}
+        {region && (
+          <MapView
+            style={styles.map}
+            initialRegion={region}
+            rotateEnabled={false}
+            pitchEnabled={false}
+            importantForAccessibility="no-hide-descendants"
           >
-            <View style={styles.imageContainer}>
-              {/* Radar data visualization placeholder */}
-              <View style={styles.placeholderImage}>
-                <Ionicons
-                  name="rainy-outline"
-                  size={48}
-                  color={accessibleColors.textMuted}
+            {frame.cells.map((radar) =>
+              radar.centerLatitude !== undefined && radar.centerLongitude !== undefined ? (
+                <Circle
+                  key={radar.id}
+                  center={{ latitude: radar.centerLatitude, longitude: radar.centerLongitude }}
+                  radius={radar.radius ?? DEFAULT_AREA_RADIUS}
+                  fillColor={`${getIntensityColor(radar.precipitationIntensity ?? 0)}99`}
+                  strokeColor={getIntensityColor(radar.precipitationIntensity ?? 0)}
+                  strokeWidth={1}
                 />
-                <Text style={styles.placeholderText}>
-                  {radar.precipitationIntensity ?? 0} mm/h
-                </Text>
-              </View>
-
-              {/* Intensity indicator overlay */}
-              <View
-                style={[
-                  styles.intensityIndicator,
-                  { backgroundColor: getIntensityColor(radar.precipitationIntensity ?? 0) },
-                ]}
-              >
-                <Text style={styles.intensityText}>
-                  {radar.precipitationIntensity ?? 0} mm/h
-                </Text>
-              </View>
-            </View>
-
-            {/* Timestamp */}
-            <View style={styles.timestampContainer}>
-              <Text style={styles.timestamp}>
-                {formatTimestamp(radar.timestamp)}
-              </Text>
-              <Text style={styles.intensityLabel}>
-                {getIntensityDescription(radar.precipitationIntensity ?? 0)}
-              </Text>
-            </View>
-
-            {/* Current indicator dot */}
-            {index === currentIndex && (
-              <View
-                style={styles.currentIndicator}
-                accessible={true}
-                accessibilityLabel="現在表示中"
-              />
+              ) : null
+            )}
+            {visibleSun && sunMarker && (
+              <>
+                <Polyline
+                  coordinates={[visibleSun.origin, sunMarker]}
+                  strokeColor="#DD6B20"
+                  strokeWidth={3}
+                  lineDashPattern={[8, 6]}
+                />
+                <Marker
+                  coordinate={sunMarker}
+                  anchor={{ x: 0.5, y: 0.5 }}
+                  tracksViewChanges={false}
+                >
+                  <Ionicons name="sunny" size={24} color="#DD6B20" />
+                </Marker>
+              </>
             )}
+            {location && <Marker coordinate={location} title="撮影地点" />}
+          </MapView>
+        )}
+        {/* Frame time and intensity overlay */}
+        <View
+          style={[
+            styles.intensityIndicator,
+            { backgroundColor: getIntensityColor(frame.intensity) },
+          ]}
+        >
+          <Text style={styles.intensityText}>
+            {formatTimestamp(frame.timestamp)} {frame.intensity} mm/h
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.frameInfo}>
+        <Text style={styles.intensityLabel}>{getIntensityDescription(frame.intensity)}</Text>
+        <Text style={styles.intensityLabel}>{sunDescription}</Text>
+      </View>
+
+      {/* Scrubber */}
+      {frames.length > 1 && (
+        <View style={styles.scrubber}>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={frames.length - 1}
+            step={1}
+            value={currentIndex}
+            onValueChange={handleScrub}
+            minimumTrackTintColor={accessibleColors.primary}
+            maximumTrackTintColor="#E0E0E0"
+            thumbTintColor={accessibleColors.primary}
+            accessible={true}
+            accessibilityLabel="レーダーの時刻"
+            accessibilityRole="adjustable"
+            accessibilityValue={{
+              min: 0,
+              max: frames.length - 1,
+              now: currentIndex,
+              text: formatTimestampForAccessibility(frame.timestamp),
+            }}
+            testID={testID ? `${testID}-scrubber` : undefined}
+          />
+          <View style={styles.scrubberLabels}>
+            <Text style={styles.scrubberLabel}>{formatTimestamp(frames[0].timestamp)}</Text>
+            <Text style={styles.scrubberLabel}>
+              {formatTimestamp(frames[frames.length - 1].timestamp)}
+            </Text>
           </View>
-        ))}
-      </ScrollView>
-
-      {/* Pagination dots */}
-      {sortedData.length > 1 && (
-        <View style={styles.pagination}>
-          {sortedData.map((_, index) => (
-            <View
-              key={index}
-              style={[
-                styles.paginationDot,
-                index === currentIndex && styles.paginationDotActive,
-              ]}
-            />
-          ))}
         </View>
       )}
 
@@ -351,7 +486,11 @@ const styles = StyleSheet.create({
     color: accessibleColors.textPrimary,
     marginLeft: 8,
   },
-  playButton: {
+  controls: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  controlButton: {
     width: MIN_TOUCH_TARGET_SIZE,
     height: MIN_TOUCH_TARGET_SIZE,
     justifyContent: 'center',
@@ -359,6 +498,11 @@ const styles = StyleSheet.create({
     backgroundColor: '#E8F4F8',
     borderRadius: MIN_TOUCH_TARGET_SIZE / 2,
   },
+  speedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: accessibleColors.primary,
+  },
   noDataContainer: {
     alignItems: 'center',
     paddingVertical: 24,
@@ -368,45 +512,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: accessibleColors.textMuted,
   },
-  scrollView: {
-    marginHorizontal: -8,
-  },
-  scrollContent: {
-    paddingHorizontal: 8,
-  },
-  radarItem: {
-    width: RADAR_IMAGE_WIDTH,
-    marginHorizontal: 8,
-    position: 'relative',
-  },
-  imageContainer: {
-    width: '100%',
-    height: RADAR_IMAGE_HEIGHT,
+  mapContainer: {
+    height: RADAR_MAP_HEIGHT,
     borderRadius: 8,
     overflow: 'hidden',
-    backgroundColor: '#F5F5F5',
-  },
-  radarImage: {
-    width: '100%',
-    height: '100%',
-  },
-  loadingOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: 'rgba(255, 255, 255, 0.8)',
-  },
-  placeholderImage: {
-    width: '100%',
-    height: '100%',
-    justifyContent: 'center',
-    alignItems: 'center',
     backgroundColor: '#F0F0F0',
   },
-  placeholderText: {
-    marginTop: 8,
-    fontSize: 12,
-    color: accessibleColors.textMuted,
+  map: {
+    ...StyleSheet.absoluteFillObject,
   },
   intensityIndicator: {
     position: 'absolute',
@@ -424,45 +537,29 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
-  timestampContainer: {
+  frameInfo: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
     marginTop: 8,
-    alignItems: 'center',
-  },
-  timestamp: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: accessibleColors.textPrimary,
   },
   intensityLabel: {
     fontSize: 12,
     color: accessibleColors.textSecondary,
-    marginTop: 2,
   },
-  currentIndicator: {
-    position: 'absolute',
-    top: 8,
-    left: 8,
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    backgroundColor: accessibleColors.primary,
+  scrubber: {
+    marginTop: 8,
   },
-  pagination: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginTop: 12,
+  slider: {
+    width: '100%',
+    height: MIN_TOUCH_TARGET_SIZE,
   },
-  paginationDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    backgroundColor: '#E0E0E0',
-    marginHorizontal: 4,
+  scrubberLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
   },
-  paginationDotActive: {
-    backgroundColor: accessibleColors.primary,
-    width: 16,
+  scrubberLabel: {
+    fontSize: 12,
+    color: accessibleColors.textMuted,
   },
   legend: {
     marginTop: 16,
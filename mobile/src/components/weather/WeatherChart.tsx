@@ -1,34 +1,61 @@
 /**
  * WeatherChart - Time-series chart for weather data visualization
  *
- * Displays weather metrics (temperature, humidity, pressure, wind speed)
+ * Displays weather metrics (temperature, humidity, pressure, wind speed,
+ * cloud cover, precipitation)
  * using react-native-chart-kit for line charts.
  *
+ * Overlay mode (overlayMetrics) plots up to three metrics together on two
+ * axes — metrics sharing the first metric's unit on the left, the rest on
+ * the right — with the photo's capture time marked, periods when rainbow
+ * conditions were favorable shaded, and tap-to-inspect tooltips.
+ *
  * Accessibility features (WCAG 2.1 AA):
  * - accessibilityLabel for chart description
  * - Data summary for screen readers
  * - High contrast colors for visibility
+ * - Overlay tooltips reachable with adjustable actions (swipe up/down)
  *
  * Requirements: FR-13 (AC-13.4)
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 
-import { StyleSheet, Text, View, Dimensions, ScrollView } from 'react-native';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Dimensions,
+  ScrollView,
+  Pressable,
+  type AccessibilityActionEvent,
+  type GestureResponderEvent,
+} from 'react-native';
 
 import { LineChart } from 'react-native-chart-kit';
+import Svg, { Circle, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
 
 import { accessibleColors } from '../../utils/accessibility';
 
 import type { WeatherCondition } from '../../types/photo';
 
-type MetricType = 'temperature' | 'humidity' | 'pressure' | 'windSpeed';
+type MetricType =
+  | 'temperature'
+  | 'humidity'
+  | 'pressure'
+  | 'windSpeed'
+  | 'cloudCover'
+  | 'precipitation';
 
 interface WeatherChartProps {
   /** Weather condition data array */
   weatherConditions: WeatherCondition[];
   /** Metric to display */
   metric: MetricType;
+  /** Up to two more metrics plotted over `metric` (overlay mode) */
+  overlayMetrics?: MetricType[];
+  /** Photo capture time, marked in overlay mode */
+  capturedAt?: string;
   /** Optional title override */
   title?: string;
   /** Test ID for testing */
@@ -77,8 +104,31 @@ const METRIC_CONFIGS: Record<MetricType, MetricConfig> = {
     decimalDigits: 1,
     accessibilityDescription: '風速の時系列変化を示すグラフ',
   },
+  cloudCover: {
+    label: '雲量',
+    unit: '%',
+    accessor: (c) => c.cloudCover,
+    color: '#718096', // Gray for clouds
+    decimalDigits: 0,
+    accessibilityDescription: '雲量の時系列変化を示すグラフ',
+  },
+  precipitation: {
+    label: '降水量',
+    unit: 'mm',
+    accessor: (c) => c.precipitation,
+    color: '#319795', // Teal for precipitation
+    decimalDigits: 1,
+    accessibilityDescription: '降水量の時系列変化を示すグラフ',
+  },
 };
 
+/** Overlay mode plots at most this many metrics */
+const MAX_OVERLAY_METRICS = 3;
+const OVERLAY_HEIGHT = 200;
+const OVERLAY_PADDING = { top: 20, right: 40, bottom: 24, left: 40 };
+const FAVORABLE_BAND_COLOR = 'rgba(236, 201, 75, 0.25)';
+const CAPTURE_MARKER_COLOR = '#D53F8C';
+
 const screenWidth = Dimensions.get('window').width;
 
 /**
@@ -109,7 +159,7 @@ const createDataSummary = (
     `平均${avg.toFixed(config.decimalDigits)}${config.unit}です`;
 };
 
-export const WeatherChart: React.FC<WeatherChartProps> = ({
+const SingleMetricChart: React.FC<WeatherChartProps> = ({
   weatherConditions,
   metric,
   title,
@@ -249,6 +299,384 @@ export const WeatherChart: React.FC<WeatherChartProps> = ({
   );
 };
 
+interface OverlayAxis {
+  min: number;
+  max: number;
+  /** Shared unit, or empty when the axis mixes units */
+  unit: string;
+  decimalDigits: number;
+}
+
+/**
+ * Value range covering every metric plotted on an axis
+ */
+const getAxis = (metrics: MetricType[], conditions: WeatherCondition[]): OverlayAxis | null => {
+  const values = metrics.flatMap((metric) =>
+    conditions
+      .map((condition) => METRIC_CONFIGS[metric].accessor(condition))
+      .filter((value): value is number => value !== undefined)
+  );
+  if (values.length === 0) {
+    return null;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const units = new Set(metrics.map((metric) => METRIC_CONFIGS[metric].unit));
+  return {
+    min: min === max ? min - 1 : min,
+    max: min === max ? max + 1 : max,
+    unit: units.size === 1 ? METRIC_CONFIGS[metrics[0]].unit : '',
+    decimalDigits: Math.max(...metrics.map((metric) => METRIC_CONFIGS[metric].decimalDigits)),
+  };
+};
+
+/**
+ * Periods (inclusive index ranges) when rainbow conditions were favorable
+ */
+const getFavorableRanges = (conditions: WeatherCondition[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  let start: number | null = null;
+
+  conditions.forEach((condition, index) => {
+    if (condition.rainbowFavorable && start === null) {
+      start = index;
+    } else if (!condition.rainbowFavorable && start !== null) {
+      ranges.push([start, index - 1]);
+      start = null;
+    }
+  });
+  if (start !== null) {
+    ranges.push([start, conditions.length - 1]);
+  }
+
+  return ranges;
+};
+
+/**
+ * Tooltip text for one reading, also used as the screen reader value
+ */
+const describeReading = (condition: WeatherCondition, metrics: MetricType[]): string => {
+  const values = metrics.map((metric) => {
+    const config = METRIC_CONFIGS[metric];
+    const value = config.accessor(condition);
+    return value === undefined
+      ? `${config.label} データなし`
+      : `${config.label} ${value.toFixed(config.decimalDigits)}${config.unit}`;
+  });
+  return [
+    formatTimeLabel(condition.timestamp),
+    ...values,
+    ...(condition.rainbowFavorable ? ['虹が出やすい条件'] : []),
+  ].join('、');
+};
+
+const OverlayChart: React.FC<WeatherChartProps & { metrics: MetricType[] }> = ({
+  weatherConditions,
+  metrics,
+  capturedAt,
+  title,
+  testID,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const chartTitle = title || metrics.map((metric) => METRIC_CONFIGS[metric].label).join('・');
+  const width = screenWidth - 72;
+  const plotLeft = OVERLAY_PADDING.left;
+  const plotRight = width - OVERLAY_PADDING.right;
+  const plotTop = OVERLAY_PADDING.top;
+  const plotBottom = OVERLAY_HEIGHT - OVERLAY_PADDING.bottom;
+
+  const chart = useMemo(() => {
+    const sorted = [...(weatherConditions ?? [])].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    const leftUnit = METRIC_CONFIGS[metrics[0]].unit;
+    const leftMetrics = metrics.filter((metric) => METRIC_CONFIGS[metric].unit === leftUnit);
+    const rightMetrics = metrics.filter((metric) => METRIC_CONFIGS[metric].unit !== leftUnit);
+    const leftAxis = getAxis(leftMetrics, sorted);
+    const rightAxis = getAxis(rightMetrics, sorted);
+    if (!leftAxis && !rightAxis) {
+      return null;
+    }
+
+    const times = sorted.map((condition) => new Date(condition.timestamp).getTime());
+    const start = times[0];
+    const span = times[times.length - 1] - start;
+    const xFor = (time: number) =>
+      span === 0
+        ? (plotLeft + plotRight) / 2
+        : plotLeft + ((time - start) / span) * (plotRight - plotLeft);
+    const yFor = (value: number, axis: OverlayAxis) =>
+      plotTop + (1 - (value - axis.min) / (axis.max - axis.min)) * (plotBottom - plotTop);
+    const xs = times.map(xFor);
+
+    const series = metrics.map((metric) => {
+      const config = METRIC_CONFIGS[metric];
+      const axis = leftMetrics.includes(metric) ? leftAxis : rightAxis;
+      const points = sorted.flatMap((condition, index) => {
+        const value = config.accessor(condition);
+        return value === undefined || !axis ? [] : [{ x: xs[index], y: yFor(value, axis) }];
+      });
+      return {
+        metric,
+        config,
+        axis: leftMetrics.includes(metric) ? ('left' as const) : ('right' as const),
+        points,
+        path: points
+          .map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`)
+          .join(' '),
+      };
+    });
+
+    // Bands run halfway to the neighboring readings
+    const bands = getFavorableRanges(sorted).map(([first, last]) => ({
+      x1: first === 0 ? plotLeft : (xs[first - 1] + xs[first]) / 2,
+      x2: last === xs.length - 1 ? plotRight : (xs[last] + xs[last + 1]) / 2,
+      label: `${formatTimeLabel(sorted[first].timestamp)}〜${formatTimeLabel(sorted[last].timestamp)}`,
+    }));
+
+    const capturedTime = capturedAt ? new Date(capturedAt).getTime() : NaN;
+    const captureX =
+      !Number.isNaN(capturedTime) && capturedTime >= start && capturedTime <= start + span
+        ? xFor(capturedTime)
+        : null;
+
+    const labelInterval = Math.max(1, Math.floor(sorted.length / 5));
+
+    return { sorted, xs, leftAxis, rightAxis, series, bands, captureX, labelInterval };
+  }, [weatherConditions, metrics, capturedAt, plotLeft, plotRight, plotTop, plotBottom]);
+
+  const accessibilitySummary = useMemo(() => {
+    if (!chart) return 'データがありません';
+    const summaries = chart.series.map(({ metric, config }) =>
+      createDataSummary(
+        chart.sorted
+          .map((condition) => METRIC_CONFIGS[metric].accessor(condition))
+          .filter((value): value is number => value !== undefined),
+        config
+      )
+    );
+    if (capturedAt && chart.captureX !== null) {
+      summaries.push(`撮影時刻は${formatTimeLabel(capturedAt)}です`);
+    }
+    if (chart.bands.length > 0) {
+      summaries.push(`虹が出やすい時間帯は${chart.bands.map((band) => band.label).join('、')}です`);
+    }
+    return summaries.join('。');
+  }, [chart, capturedAt]);
+
+  if (!chart) {
+    return (
+      <View
+        style={styles.container}
+        accessible={true}
+        accessibilityLabel={`${chartTitle}のデータがありません`}
+        testID={testID}
+      >
+        <Text style={styles.title}>{chartTitle}</Text>
+        <View style={styles.noDataContainer}>
+          <Text style={styles.noDataText}>データがありません</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const lastIndex = chart.sorted.length - 1;
+  const selected = selectedIndex === null ? null : chart.sorted[selectedIndex];
+  const selectedText = selected ? describeReading(selected, metrics) : null;
+
+  // Select the reading nearest the tap; tapping it again hides the tooltip
+  const handlePress = (event: GestureResponderEvent) => {
+    const { locationX } = event.nativeEvent;
+    const nearest = chart.xs.reduce(
+      (best, x, index) => (Math.abs(x - locationX) < Math.abs(chart.xs[best] - locationX) ? index : best),
+      0
+    );
+    setSelectedIndex((prev) => (prev === nearest ? null : nearest));
+  };
+
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    if (event.nativeEvent.actionName === 'increment') {
+      setSelectedIndex((prev) => (prev === null ? 0 : Math.min(prev + 1, lastIndex)));
+    } else if (event.nativeEvent.actionName === 'decrement') {
+      setSelectedIndex((prev) => (prev === null ? lastIndex : Math.max(prev - 1, 0)));
+    }
+  };
+
+  const axisTicks = (axis: OverlayAxis | null) =>
+    axis
+      ? [axis.max, (axis.min + axis.max) / 2, axis.min].map((value) => ({
+          y: plotTop + ((axis.max - value) / (axis.max - axis.min)) * (plotBottom - plotTop),
+          label: `${value.toFixed(axis.decimalDigits)}${axis.unit}`,
+        }))
+      : [];
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>{chartTitle}</Text>
+
+      <Pressable
+        onPress={handlePress}
+        accessible={true}
+        accessibilityRole="adjustable"
+        accessibilityLabel={`${chartTitle}のグラフ。${accessibilitySummary}`}
+        accessibilityHint="上下にスワイプして各時刻の値を読み上げます"
+        accessibilityValue={{ text: selectedText ?? '時刻が選択されていません' }}
+        accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+        onAccessibilityAction={handleAccessibilityAction}
+        testID={testID ? `${testID}-plot` : undefined}
+      >
+        <Svg width={width} height={OVERLAY_HEIGHT} accessible={false}>
+          {chart.bands.map((band) => (
+            <Rect
+              key={band.label}
+              x={band.x1}
+              y={plotTop}
+              width={Math.max(band.x2 - band.x1, 2)}
+              height={plotBottom - plotTop}
+              fill={FAVORABLE_BAND_COLOR}
+              testID="weather-chart-favorable-band"
+            />
+          ))}
+
+          <Line x1={plotLeft} y1={plotBottom} x2={plotRight} y2={plotBottom} stroke="#E0E0E0" />
+          {axisTicks(chart.leftAxis).map((tick) => (
+            <SvgText
+              key={`left-${tick.y}`}
+              x={plotLeft - 4}
+              y={tick.y + 4}
+              fontSize={10}
+              fill={accessibleColors.textSecondary}
+              textAnchor="end"
+            >
+              {tick.label}
+            </SvgText>
+          ))}
+          {axisTicks(chart.rightAxis).map((tick) => (
+            <SvgText
+              key={`right-${tick.y}`}
+              x={plotRight + 4}
+              y={tick.y + 4}
+              fontSize={10}
+              fill={accessibleColors.textSecondary}
+              textAnchor="start"
+            >
+              {tick.label}
+            </SvgText>
+          ))}
+          {chart.sorted.map((condition, index) =>
+            index % chart.labelInterval === 0 ? (
+              <SvgText
+                key={condition.timestamp}
+                x={chart.xs[index]}
+                y={OVERLAY_HEIGHT - 6}
+                fontSize={10}
+                fill={accessibleColors.textSecondary}
+                textAnchor="middle"
+              >
+                {formatTimeLabel(condition.timestamp)}
+              </SvgText>
+            ) : null
+          )}
+
+          {chart.series.map(({ metric, config, points, path }) => (
+            <React.Fragment key={metric}>
+              <Path
+                d={path}
+                stroke={config.color}
+                strokeWidth={2}
+                fill="none"
+                testID={`weather-chart-series-${metric}`}
+              />
+              {points.map(({ x, y }) => (
+                <Circle key={`${metric}-${x}`} cx={x} cy={y} r={3} fill={config.color} />
+              ))}
+            </React.Fragment>
+          ))}
+
+          {chart.captureX !== null && (
+            <>
+              <Line
+                x1={chart.captureX}
+                y1={plotTop}
+                x2={chart.captureX}
+                y2={plotBottom}
+                stroke={CAPTURE_MARKER_COLOR}
+                strokeWidth={2}
+                strokeDasharray="4,3"
+                testID="weather-chart-capture-marker"
+              />
+              <SvgText
+                x={chart.captureX}
+                y={plotTop - 6}
+                fontSize={10}
+                fill={CAPTURE_MARKER_COLOR}
+                textAnchor="middle"
+              >
+                撮影
+              </SvgText>
+            </>
+          )}
+
+          {selectedIndex !== null && (
+            <Line
+              x1={chart.xs[selectedIndex]}
+              y1={plotTop}
+              x2={chart.xs[selectedIndex]}
+              y2={plotBottom}
+              stroke={accessibleColors.textMuted}
+              strokeWidth={1}
+            />
+          )}
+        </Svg>
+      </Pressable>
+
+      {/* Tooltip for the selected reading */}
+      {selectedText && (
+        <View
+          style={styles.tooltip}
+          accessibilityLiveRegion="polite"
+          testID={testID ? `${testID}-tooltip` : undefined}
+        >
+          <Text style={styles.tooltipText}>{selectedText}</Text>
+        </View>
+      )}
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {chart.series.map(({ metric, config, axis }) => (
+          <View key={metric} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: config.color }]} />
+            <Text style={styles.legendLabel}>
+              {`${config.label}（${config.unit}・${axis === 'left' ? '左軸' : '右軸'}）`}
+            </Text>
+          </View>
+        ))}
+        {chart.bands.length > 0 && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: FAVORABLE_BAND_COLOR }]} />
+            <Text style={styles.legendLabel}>虹が出やすい条件</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+export const WeatherChart: React.FC<WeatherChartProps> = (props) => {
+  const { metric, overlayMetrics } = props;
+
+  if (overlayMetrics && overlayMetrics.length > 0) {
+    const metrics = [metric, ...overlayMetrics.filter((other) => other !== metric)].slice(
+      0,
+      MAX_OVERLAY_METRICS
+    );
+    return <OverlayChart {...props} metrics={metrics} />;
+  }
+
+  return <SingleMetricChart {...props} />;
+};
+
 const styles = StyleSheet.create({
   container: {
     marginVertical: 12,
@@ -303,4 +731,34 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: accessibleColors.textPrimary,
   },
+  tooltip: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  tooltipText: {
+    fontSize: 13,
+    color: accessibleColors.textPrimary,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  legendLabel: {
+    fontSize: 12,
+    color: accessibleColors.textSecondary,
+  },
 });
@@ -3,6 +3,8 @@
  *
  * Displays a grid of current weather metrics with icons and values.
  * Shows "N/A" for missing data and supports tap to expand.
+ * Sun position and rainbow conditions come from the server when recorded,
+ * otherwise they are calculated on the device from the location.
  *
  * Accessibility features (WCAG 2.1 AA):
  * - accessibilityLabel for each metric
@@ -22,12 +24,19 @@ import {
   accessibleColors,
   MIN_TOUCH_TARGET_SIZE,
 } from '../../utils/accessibility';
+import {
+  getCardinalDirection,
+  getRainbowVisibility,
+} from '../../utils/rainbowGeometry';
+import { getSunPosition } from '../../utils/sunPosition';
 
 import type { WeatherCondition } from '../../types/photo';
 
 interface WeatherSummaryProps {
   /** Weather condition data (uses the first entry for summary) */
   weatherCondition?: WeatherCondition;
+  /** Where the weather was recorded, for calculating the sun position offline */
+  location?: { latitude: number; longitude: number };
   /** Callback when user taps to see details */
   onShowDetails?: () => void;
   /** Test ID for testing */
@@ -43,6 +52,49 @@ interface MetricItem {
   accessibilityLabel: string;
 }
 
+interface SunInfo {
+  altitude: number;
+  azimuth?: number;
+  rainbowFavorable: boolean;
+  /** Calculated on the device rather than recorded by the server */
+  calculated: boolean;
+}
+
+/**
+ * Sun position and rainbow conditions for the weather condition
+ */
+const getSunInfo = (
+  condition?: WeatherCondition,
+  location?: { latitude: number; longitude: number }
+): SunInfo | null => {
+  if (!condition) {
+    return null;
+  }
+
+  if (condition.sunAltitude !== undefined) {
+    return {
+      altitude: condition.sunAltitude,
+      azimuth: condition.sunAzimuth,
+      rainbowFavorable:
+        condition.rainbowFavorable ?? getRainbowVisibility(condition.sunAltitude) === 'possible',
+      calculated: false,
+    };
+  }
+
+  const time = new Date(condition.timestamp);
+  if (!location || Number.isNaN(time.getTime())) {
+    return null;
+  }
+
+  const sun = getSunPosition(time, location.latitude, location.longitude);
+  return {
+    altitude: sun.altitude,
+    azimuth: sun.azimuth,
+    rainbowFavorable: getRainbowVisibility(sun.altitude) === 'possible',
+    calculated: true,
+  };
+};
+
 /**
  * Format wind direction degrees to cardinal direction
  */
@@ -179,6 +231,7 @@ const getMetrics = (condition?: WeatherCondition): MetricItem[] => {
 
 export const WeatherSummary: React.FC<WeatherSummaryProps> = ({
   weatherCondition,
+  location,
   onShowDetails,
   testID,
 }) => {
@@ -187,6 +240,11 @@ export const WeatherSummary: React.FC<WeatherSummaryProps> = ({
     [weatherCondition]
   );
 
+  const sunInfo = useMemo(
+    () => getSunInfo(weatherCondition, location),
+    [weatherCondition, location]
+  );
+
   const hasData = weatherCondition !== undefined;
 
   return (
@@ -289,6 +347,51 @@ export const WeatherSummary: React.FC<WeatherSummaryProps> = ({
                 </Text>
               </View>
             )}
+          {sunInfo && (
+            <View
+              style={styles.infoItem}
+              accessible={true}
+              accessibilityLabel={`太陽高度: ${sunInfo.altitude.toFixed(1)}度${
+                sunInfo.azimuth !== undefined
+                  ? `、方位${getCardinalDirection(sunInfo.azimuth)}`
+                  : ''
+              }${sunInfo.calculated ? '（端末で計算）' : ''}`}
+              testID="weather-summary-sun"
+            >
+              <Ionicons
+                name="sunny-outline"
+                size={16}
+                color={accessibleColors.primary}
+              />
+              <Text style={styles.infoText}>
+                太陽: {sunInfo.altitude.toFixed(1)}°
+                {sunInfo.azimuth !== undefined &&
+                  ` ${getCardinalDirection(sunInfo.azimuth)}`}
+                {sunInfo.calculated && ' (計算値)'}
+              </Text>
+            </View>
+          )}
+          {sunInfo && (
+            <View
+              style={styles.infoItem}
+              accessible={true}
+              accessibilityLabel={
+                sunInfo.rainbowFavorable ? '虹が出やすい条件です' : '虹が出にくい条件です'
+              }
+              testID="weather-summary-rainbow"
+            >
+              <Ionicons
+                name={sunInfo.rainbowFavorable ? 'checkmark-circle-outline' : 'close-circle-outline'}
+                size={16}
+                color={
+                  sunInfo.rainbowFavorable ? accessibleColors.primary : accessibleColors.textMuted
+                }
+              />
+              <Text style={styles.infoText}>
+                {sunInfo.rainbowFavorable ? '虹: 条件良好' : '虹: 条件外'}
+              </Text>
+            </View>
+          )}
           {/* UV index not currently available from backend */}
         </View>
       )}
@@ -4,11 +4,31 @@
  * Central export for all custom hooks
  */
 
+export { useDeferredDeepLink } from './useDeferredDeepLink';
+
 export { useLanguage } from './useLanguage';
 export type { LanguageOption, UseLanguageReturn } from './useLanguage';
 
 export { useNetworkState } from './useNetworkState';
 export type { NetworkState, UseNetworkStateReturn } from './useNetworkState';
 
+export { useCableConnection } from './useCableConnection';
+export type { UseCableConnectionReturn } from './useCableConnection';
+
+export { useLiveSocialUpdates } from './useLiveSocialUpdates';
+export type { LiveSocialActivity, UseLiveSocialUpdatesReturn } from './useLiveSocialUpdates';
+
 export { useUploadQueueProcessor } from './useUploadQueueProcessor';
 export type { UseUploadQueueProcessorReturn } from './useUploadQueueProcessor';
+
+export { useNotificationRouter } from './useNotificationRouter';
+export type { UseNotificationRouterReturn } from './useNotificationRouter';
+
+export { useOpenUserProfile } from './useOpenUserProfile';
+export type { UseOpenUserProfileReturn } from './useOpenUserProfile';
+
+export { useBlockUser } from './useBlockUser';
+export type { UseBlockUserReturn } from './useBlockUser';
+
+export { useModerateReport } from './useModerateReport';
+export type { UseModerateReportReturn } from './useModerateReport';
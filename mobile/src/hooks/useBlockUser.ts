@@ -0,0 +1,94 @@
+/**
+ * useBlockUser Hook
+ *
+ * Confirms and performs blocking from anywhere another user's content is
+ * shown (photo details, comments, profiles). Blocked users' photos and
+ * comments are hidden on the client via the block store.
+ */
+
+import { useCallback } from 'react';
+
+import { Alert } from 'react-native';
+
+import { useTranslation } from 'react-i18next';
+
+import { getErrorMessage } from '../services/apiClient';
+import { useBlockStore } from '../store/blockStore';
+
+import type { BlockableUser } from '../store/blockStore';
+
+/**
+ * Return type for useBlockUser hook
+ */
+export interface UseBlockUserReturn {
+  /** Ask for confirmation, then block the user */
+  confirmBlockUser: (user: BlockableUser, onBlocked?: () => void) => void;
+  /** Ask for confirmation, then unblock the user */
+  confirmUnblockUser: (user: BlockableUser, onUnblocked?: () => void) => void;
+}
+
+/**
+ * Block and unblock users with a confirmation dialog
+ *
+ * @example
+ * ```tsx
+ * const { confirmBlockUser } = useBlockUser();
+ * <Button title={t('social.block')} onPress={() => confirmBlockUser(photo.user, navigation.goBack)} />
+ * ```
+ */
+export function useBlockUser(): UseBlockUserReturn {
+  const { t } = useTranslation();
+
+  const confirmBlockUser = useCallback(
+    (user: BlockableUser, onBlocked?: () => void) => {
+      Alert.alert(
+        t('social.blockConfirmTitle', { name: user.displayName }),
+        t('social.blockConfirmMessage'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('social.block'),
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await useBlockStore.getState().blockUser(user);
+                onBlocked?.();
+              } catch (error) {
+                console.warn('[useBlockUser] Failed to block user:', getErrorMessage(error));
+                Alert.alert(t('common.error'), t('social.blockError'));
+              }
+            },
+          },
+        ]
+      );
+    },
+    [t]
+  );
+
+  const confirmUnblockUser = useCallback(
+    (user: BlockableUser, onUnblocked?: () => void) => {
+      Alert.alert(
+        t('social.unblockConfirmTitle', { name: user.displayName }),
+        t('social.unblockConfirmMessage'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('social.unblock'),
+            onPress: async () => {
+              try {
+                await useBlockStore.getState().unblockUser(user.id);
+                onUnblocked?.();
+              } catch (error) {
+                console.warn('[useBlockUser] Failed to unblock user:', getErrorMessage(error));
+                Alert.alert(t('common.error'), t('social.unblockError'));
+              }
+            },
+          },
+        ]
+      );
+    },
+    [t]
+  );
+
+  return { confirmBlockUser, confirmUnblockUser };
+}
@@ -0,0 +1,73 @@
+/**
+ * useCableConnection Hook
+ *
+ * Real-time (ActionCable) connection state for components that show live
+ * data, e.g. to indicate that updates are paused while reconnecting.
+ *
+ * Requirements: F-5 (Real-time Updates)
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+
+import {
+  addCableConnectionListener,
+  getCableConnectionState,
+  reconnectCable,
+  type CableConnectionState,
+} from '../services/cableService';
+
+/**
+ * Return type for useCableConnection hook
+ */
+export interface UseCableConnectionReturn {
+  /** Current connection state */
+  connectionState: CableConnectionState;
+  /** Whether live updates are currently flowing */
+  isConnected: boolean;
+  /** Whether the connection was lost and is being restored */
+  isReconnecting: boolean;
+  /** Reconnect immediately instead of waiting for the next attempt */
+  reconnect: () => Promise<void>;
+}
+
+/**
+ * Real-time connection state hook
+ *
+ * @example
+ * ```tsx
+ * function LiveBadge() {
+ *   const { isReconnecting } = useCableConnection();
+ *   return isReconnecting ? <ReconnectingBanner /> : null;
+ * }
+ * ```
+ */
+export function useCableConnection(): UseCableConnectionReturn {
+  const [connectionState, setConnectionState] =
+    useState<CableConnectionState>(getCableConnectionState);
+
+  /**
+   * Subscribe to connection state changes on mount
+   */
+  useEffect(() => {
+    // The state may have changed between render and effect
+    setConnectionState(getCableConnectionState());
+    return addCableConnectionListener(setConnectionState);
+  }, []);
+
+  const reconnect = useCallback(async () => {
+    try {
+      await reconnectCable();
+    } catch (error) {
+      console.warn('[useCableConnection] Failed to reconnect:', error);
+    }
+  }, []);
+
+  return {
+    connectionState,
+    isConnected: connectionState === 'connected',
+    isReconnecting: connectionState === 'reconnecting',
+    reconnect,
+  };
+}
+
+export default useCableConnection;
@@ -0,0 +1,37 @@
+/**
+ * useDeferredDeepLink Hook
+ *
+ * Opens a deep link that arrived while the user was signed out, once they
+ * have signed in and the main tabs are shown.
+ *
+ * Must be used inside the main tabs so the linked screen can be navigated to.
+ */
+
+import { useEffect } from 'react';
+
+import { useLinkTo } from '@react-navigation/native';
+
+import { consumePendingDeepLink } from '../navigation/linking';
+
+/**
+ * Replay the deep link deferred during sign-in (if any). The pending link
+ * is consumed, so it opens only once.
+ *
+ * @example
+ * ```tsx
+ * const MainTabs = () => {
+ *   useDeferredDeepLink();
+ *   return <Tab.Navigator>...</Tab.Navigator>;
+ * };
+ * ```
+ */
+export function useDeferredDeepLink(): void {
+  const linkTo = useLinkTo();
+
+  useEffect(() => {
+    const path = consumePendingDeepLink();
+    if (path) {
+      linkTo(path);
+    }
+  }, [linkTo]);
+}
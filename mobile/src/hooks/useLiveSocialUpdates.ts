@@ -0,0 +1,128 @@
+/**
+ * useLiveSocialUpdates Hook
+ *
+ * Applies NotificationsChannel like/comment events to the React Query cache
+ * so counts on feed cards, profile grids and the photo detail update live.
+ * The server only sends these events to the photo owner, so each one is an
+ * interaction with the user's own photo; while the app is in the foreground
+ * the latest one is exposed as `activity` for an in-app toast.
+ *
+ * Must be used once, inside the main tabs (signed in).
+ *
+ * Requirements: F-5 (Real-time Updates), FR-8 (Social Features)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { AppState } from 'react-native';
+
+import { useQueryClient } from '@tanstack/react-query';
+
+import { subscribeToNotifications, type NotificationMessage } from '../services/cableService';
+import { useBlockStore } from '../store/blockStore';
+import { photoCountsFromNotification, updateCachedPhotoCounts } from '../utils/liveFeed';
+
+/**
+ * Someone liked or commented on the user's photo
+ */
+export interface LiveSocialActivity {
+  /** Unique per event, e.g. to restart the toast timer */
+  id: number;
+  type: 'like' | 'comment';
+  photoId: string;
+  userName: string;
+  /** Comment text (truncated by the server) */
+  content?: string;
+}
+
+/**
+ * Return type for useLiveSocialUpdates hook
+ */
+export interface UseLiveSocialUpdatesReturn {
+  /** Latest interaction to show, or null */
+  activity: LiveSocialActivity | null;
+  /** Hide the current activity */
+  dismissActivity: () => void;
+}
+
+/**
+ * Build the toast activity for a notification, if it should be shown
+ */
+const toActivity = (message: NotificationMessage, id: number): LiveSocialActivity | null => {
+  if (!message.photo_id) {
+    return null;
+  }
+
+  if (message.type === 'new_like' && message.user) {
+    return { id, type: 'like', photoId: message.photo_id, userName: message.user.display_name };
+  }
+  if (message.type === 'new_comment' && message.comment) {
+    return {
+      id,
+      type: 'comment',
+      photoId: message.photo_id,
+      userName: message.comment.user.display_name,
+      content: message.comment.content,
+    };
+  }
+  return null;
+};
+
+/**
+ * Live like/comment updates hook
+ *
+ * @example
+ * ```tsx
+ * const { activity, dismissActivity } = useLiveSocialUpdates();
+ * <ActivityToast activity={activity} onDismiss={dismissActivity} />
+ * ```
+ */
+export function useLiveSocialUpdates(): UseLiveSocialUpdatesReturn {
+  const queryClient = useQueryClient();
+  const [activity, setActivity] = useState<LiveSocialActivity | null>(null);
+  const nextActivityId = useRef(1);
+
+  useEffect(
+    () =>
+      subscribeToNotifications((message) => {
+        const update = photoCountsFromNotification(message);
+        if (update) {
+          updateCachedPhotoCounts(queryClient, update.photoId, update.counts);
+        }
+
+        if (AppState.currentState !== 'active') {
+          return;
+        }
+
+        const next = toActivity(message, nextActivityId.current);
+        const actorId = message.user?.id ?? message.comment?.user.id;
+        const isBlocked = useBlockStore
+          .getState()
+          .blockedUsers.some((blockedUser) => blockedUser.id === actorId);
+        if (!next || isBlocked) {
+          return;
+        }
+        nextActivityId.current += 1;
+        setActivity(next);
+      }),
+    [queryClient]
+  );
+
+  // A toast from before the app went to the background is stale
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') {
+        setActivity(null);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const dismissActivity = useCallback(() => {
+    setActivity(null);
+  }, []);
+
+  return { activity, dismissActivity };
+}
+
+export default useLiveSocialUpdates;
@@ -0,0 +1,74 @@
+/**
+ * useModerateReport Hook
+ *
+ * Confirms and processes a content report from the moderation list and the
+ * report detail screen. Hiding or deleting is destructive for the content
+ * owner, so every action asks for confirmation first.
+ */
+
+import { useCallback } from 'react';
+
+import { Alert } from 'react-native';
+
+import { useTranslation } from 'react-i18next';
+
+import { processReport } from '../services/adminService';
+import { getErrorMessage } from '../services/apiClient';
+
+import type { ModerationAction, ProcessReportResult } from '../services/adminService';
+
+/**
+ * Return type for useModerateReport hook
+ */
+export interface UseModerateReportReturn {
+  /** Ask for confirmation, then process the report */
+  confirmProcessReport: (
+    reportId: string,
+    action: ModerationAction,
+    onProcessed?: (result: ProcessReportResult) => void
+  ) => void;
+}
+
+/**
+ * Process moderation reports with a confirmation dialog
+ *
+ * @example
+ * ```tsx
+ * const { confirmProcessReport } = useModerateReport();
+ * <Button title={t('admin.hide')} onPress={() => confirmProcessReport(report.id, 'hide', removeReport)} />
+ * ```
+ */
+export function useModerateReport(): UseModerateReportReturn {
+  const { t } = useTranslation();
+
+  const confirmProcessReport = useCallback(
+    (
+      reportId: string,
+      action: ModerationAction,
+      onProcessed?: (result: ProcessReportResult) => void
+    ) => {
+      Alert.alert(t(`admin.confirm.${action}Title`), t(`admin.confirm.${action}Message`), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t(`admin.actions.${action}`),
+          style: action === 'approve' ? 'default' : 'destructive',
+          onPress: async () => {
+            try {
+              const result = await processReport(reportId, action);
+              onProcessed?.(result);
+              if (result.userFlagged) {
+                Alert.alert(t('admin.userFlaggedTitle'), t('admin.userFlaggedMessage'));
+              }
+            } catch (error) {
+              console.warn('[useModerateReport] Failed to process report:', getErrorMessage(error));
+              Alert.alert(t('common.error'), t('admin.processError'));
+            }
+          },
+        },
+      ]);
+    },
+    [t]
+  );
+
+  return { confirmProcessReport };
+}
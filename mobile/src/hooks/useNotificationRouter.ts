@@ -0,0 +1,99 @@
+/**
+ * useNotificationRouter Hook
+ *
+ * Opens the screen a notification points to when the user taps it:
+ * - While the app is running (notification response listener)
+ * - On cold start, when the app was launched from a notification
+ *
+ * Must be used inside the main tabs so the routes can be navigated to.
+ *
+ * Requirements: FR-7 (AC-7.1)
+ */
+
+import { useCallback, useEffect } from 'react';
+
+import { useNavigation } from '@react-navigation/native';
+
+import {
+  clearLastNotificationResponse,
+  getLastNotificationResponse,
+  setupNotificationListeners,
+} from '../services/notificationService';
+import { useAuthStore } from '../store/authStore';
+import { resolveNotificationRoute } from '../utils/notificationRouting';
+
+import type { RootStackParamList } from '../types/navigation';
+import type { NavigationProp } from '@react-navigation/native';
+import type * as Notifications from 'expo-notifications';
+
+/**
+ * Return type for useNotificationRouter hook
+ */
+export interface UseNotificationRouterReturn {
+  /** Navigate to the screen for the given notification data */
+  openNotification: (data: Record<string, unknown> | null | undefined) => void;
+}
+
+/**
+ * Identifiers of responses that have already been routed. Module level so the
+ * launch notification is not handled twice when the navigator remounts
+ * (e.g. after signing out and back in).
+ */
+const handledResponseIds = new Set<string>();
+
+/**
+ * Route notification taps to photos, map alerts and profiles
+ *
+ * @example
+ * ```tsx
+ * const { openNotification } = useNotificationRouter();
+ * openNotification(notification.data);
+ * ```
+ */
+export function useNotificationRouter(): UseNotificationRouterReturn {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+
+  const openNotification = useCallback(
+    (data: Record<string, unknown> | null | undefined) => {
+      const currentUserId = useAuthStore.getState().user?.id;
+      navigation.navigate('Main', resolveNotificationRoute(data, { currentUserId }));
+    },
+    [navigation]
+  );
+
+  const handleResponse = useCallback(
+    (response: Notifications.NotificationResponse) => {
+      const id = response.notification.request.identifier;
+      if (handledResponseIds.has(id)) return;
+      handledResponseIds.add(id);
+
+      openNotification(response.notification.request.content.data);
+      clearLastNotificationResponse();
+    },
+    [openNotification]
+  );
+
+  // Cold start: the app was opened by tapping a notification
+  useEffect(() => {
+    let isMounted = true;
+
+    getLastNotificationResponse()
+      .then((response) => {
+        if (isMounted && response) {
+          handleResponse(response);
+        }
+      })
+      .catch((error) => {
+        console.warn('[useNotificationRouter] Failed to read the launch notification:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [handleResponse]);
+
+  // Taps while the app is running or in the background
+  useEffect(() => setupNotificationListeners(undefined, handleResponse), [handleResponse]);
+
+  return { openNotification };
+}
@@ -0,0 +1,57 @@
+/**
+ * useOpenUserProfile Hook
+ *
+ * Opens a user's profile from anywhere an author name is shown
+ * (photo cards, photo details, comments). The signed-in user's own
+ * profile opens in the Profile tab; everyone else's opens in the Feed
+ * stack's UserProfile screen.
+ *
+ * Requirements: FR-9 (AC-9.1)
+ */
+
+import { useCallback } from 'react';
+
+import { useNavigation } from '@react-navigation/native';
+
+import { useAuthStore } from '../store/authStore';
+
+import type { RootStackParamList } from '../types/navigation';
+import type { NavigationProp } from '@react-navigation/native';
+
+/**
+ * Return type for useOpenUserProfile hook
+ */
+export interface UseOpenUserProfileReturn {
+  /** Navigate to the profile of the given user */
+  openUserProfile: (userId: string, displayName?: string) => void;
+}
+
+/**
+ * Navigate to user profiles
+ *
+ * @example
+ * ```tsx
+ * const { openUserProfile } = useOpenUserProfile();
+ * <PhotoCard photo={photo} onUserPress={(user) => openUserProfile(user.id, user.displayName)} />
+ * ```
+ */
+export function useOpenUserProfile(): UseOpenUserProfileReturn {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+
+  const openUserProfile = useCallback(
+    (userId: string, displayName?: string) => {
+      if (userId === useAuthStore.getState().user?.id) {
+        navigation.navigate('Main', { screen: 'ProfileTab', params: { screen: 'Profile' } });
+        return;
+      }
+
+      navigation.navigate('Main', {
+        screen: 'FeedTab',
+        params: { screen: 'UserProfile', params: { userId, displayName } },
+      });
+    },
+    [navigation]
+  );
+
+  return { openUserProfile };
+}
@@ -2,7 +2,12 @@
  * useUploadQueueProcessor Hook
  *
  * Automatically processes queued photo uploads when network is available.
- * Implements exponential backoff for retries.
+ * Failures are classified and recorded on the store, which schedules
+ * transient ones with exponential backoff and dead-letters the rest.
+ * Uploads are sent in chunks
+ * and resume from the last acknowledged chunk recorded on the queue item.
+ * They report byte-level progress to the store and can be canceled, which
+ * returns them to the queue as pending.
  *
  * Requirements: FR-2 (AC-2.7 Offline Support)
  */
@@ -10,7 +15,13 @@
 import { useEffect, useRef, useCallback } from 'react';
 
 import { useNetworkState } from './useNetworkState';
-import { uploadPhoto, prepareUploadRequest } from '../services/photoService';
+import {
+  uploadPhotoResumable,
+  prepareUploadRequest,
+  isUploadCanceled,
+  classifyUploadError,
+  getUploadErrorMessage,
+} from '../services/photoService';
 import {
   useUploadQueueStore,
   type QueuedUpload,
@@ -18,26 +29,22 @@ import {
 
 import type { CapturedPhoto } from '../types/photo';
 
-
 /**
- * Exponential backoff configuration
+ * Processing interval configuration
  */
-const INITIAL_RETRY_DELAY_MS = 1000; // 1 second
-const MAX_RETRY_DELAY_MS = 30000; // 30 seconds
-const BACKOFF_MULTIPLIER = 2;
+const PROCESSING_INTERVAL_MS = 5000; // Check queue every 5 seconds when online
 
 /**
- * Processing interval configuration
+ * Result of a single upload attempt
  */
-const PROCESSING_INTERVAL_MS = 5000; // Check queue every 5 seconds when online
+type UploadOutcome = 'success' | 'failed' | 'canceled';
 
 /**
- * Calculate retry delay with exponential backoff
+ * Abort controllers of in-flight uploads by queue item ID.
+ * Module-level so any screen using the hook can cancel an upload
+ * started by another instance.
  */
-const calculateRetryDelay = (retryCount: number): number => {
-  const delay = INITIAL_RETRY_DELAY_MS * Math.pow(BACKOFF_MULTIPLIER, retryCount);
-  return Math.min(delay, MAX_RETRY_DELAY_MS);
-};
+const activeUploads = new Map<string, AbortController>();
 
 /**
  * Convert queued upload back to CapturedPhoto format
@@ -63,19 +70,24 @@ export interface UseUploadQueueProcessorReturn {
   pendingCount: number;
   /** Number of failed uploads */
   failedCount: number;
+  /** Items currently being uploaded (progress via useUploadProgress) */
+  uploadingItems: QueuedUpload[];
   /** Manually trigger queue processing */
   processQueue: () => Promise<void>;
   /** Clear completed uploads from queue */
   clearCompleted: () => void;
-  /** Retry all failed uploads */
+  /** Retry all dead-lettered uploads */
   retryFailed: () => void;
+  /** Abort an in-flight upload and return it to the queue as pending */
+  cancelUpload: (id: string) => void;
 }
 
 /**
  * Upload queue processor hook
  *
  * Automatically monitors network state and processes queued uploads
- * when connectivity is restored. Uses exponential backoff for retries.
+ * when connectivity is restored. Retries wait for the backoff the store
+ * scheduled on each item.
  *
  * @example
  * ```tsx
@@ -102,7 +114,11 @@ export function useUploadQueueProcessor(): UseUploadQueueProcessorReturn {
     isProcessing,
     getNextPending,
     updateStatus,
-    incrementRetryCount,
+    recordFailure,
+    retryUpload,
+    setUploadProgress,
+    setCheckpoint,
+    requeue,
     setProcessing,
     clearCompleted,
   } = useUploadQueueStore();
@@ -111,9 +127,12 @@ export function useUploadQueueProcessor(): UseUploadQueueProcessorReturn {
    * Process a single queued upload
    */
   const processUpload = useCallback(
-    async (item: QueuedUpload): Promise<boolean> => {
+    async (item: QueuedUpload): Promise<UploadOutcome> => {
       console.log(`[UploadQueueProcessor] Processing upload: ${item.id}`);
 
+      const controller = new AbortController();
+      activeUploads.set(item.id, controller);
+
       try {
         // Mark as uploading
         updateStatus(item.id, 'uploading');
@@ -122,35 +141,45 @@ export function useUploadQueueProcessor(): UseUploadQueueProcessorReturn {
         const capturedPhoto = queueItemToCapturedPhoto(item);
         const uploadRequest = prepareUploadRequest(capturedPhoto, item.metadata);
 
-        // Attempt upload
-        await uploadPhoto(uploadRequest);
+        // Attempt upload, resuming from the last acknowledged chunk
+        await uploadPhotoResumable(uploadRequest, {
+          uploadId: item.checkpoint?.uploadId,
+          receivedBytes: item.checkpoint?.receivedBytes,
+          signal: controller.signal,
+          onProgress: ({ percent }) => setUploadProgress(item.id, percent),
+          onAcknowledged: (uploadId, receivedBytes) =>
+            setCheckpoint(item.id, { uploadId, receivedBytes }),
+        });
 
         // Mark as success
         updateStatus(item.id, 'success');
         console.log(`[UploadQueueProcessor] Upload successful: ${item.id}`);
 
-        return true;
+        return 'success';
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-        console.error(`[UploadQueueProcessor] Upload failed: ${item.id}`, errorMessage);
-
-        // Increment retry count (this also marks as error if max retries exceeded)
-        incrementRetryCount(item.id);
-
-        // Get updated item to check retry count
-        const updatedItem = queue.find((i) => i.id === item.id);
-        if (updatedItem && updatedItem.retryCount < 3) {
-          // Mark as pending for retry
-          updateStatus(item.id, 'pending', errorMessage);
-        } else {
-          // Max retries exceeded, mark as error
-          updateStatus(item.id, 'error', errorMessage);
+        // Canceled by the user: back to the queue without counting a retry
+        if (isUploadCanceled(error)) {
+          console.log(`[UploadQueueProcessor] Upload canceled: ${item.id}`);
+          requeue(item.id);
+          return 'canceled';
         }
 
-        return false;
+        const errorClass = classifyUploadError(error);
+        const errorMessage = getUploadErrorMessage(error);
+        console.error(
+          `[UploadQueueProcessor] Upload failed (${errorClass}): ${item.id}`,
+          errorMessage
+        );
+
+        // Schedules a retry, or dead-letters the item
+        recordFailure(item.id, errorClass, errorMessage);
+
+        return 'failed';
+      } finally {
+        activeUploads.delete(item.id);
       }
     },
-    [queue, updateStatus, incrementRetryCount]
+    [updateStatus, recordFailure, setUploadProgress, setCheckpoint, requeue]
   );
 
   /**
@@ -167,26 +196,17 @@ export function useUploadQueueProcessor(): UseUploadQueueProcessorReturn {
 
     console.log('[UploadQueueProcessor] Starting queue processing');
 
+    // Canceled items wait for the next processing pass
+    const canceledIds = new Set<string>();
+
     try {
       let nextItem = getNextPending();
 
-      while (nextItem && isOnline) {
-        // Check if item needs delay (exponential backoff)
-        if (nextItem.lastAttemptAt && nextItem.retryCount > 0) {
-          const lastAttempt = new Date(nextItem.lastAttemptAt).getTime();
-          const requiredDelay = calculateRetryDelay(nextItem.retryCount - 1);
-          const timeSinceLastAttempt = Date.now() - lastAttempt;
-
-          if (timeSinceLastAttempt < requiredDelay) {
-            console.log(
-              `[UploadQueueProcessor] Waiting ${requiredDelay - timeSinceLastAttempt}ms before retry`
-            );
-            // Skip this item for now, will be picked up on next interval
-            break;
-          }
+      // Items still backing off are skipped until a later interval
+      while (nextItem && isOnline && !canceledIds.has(nextItem.id)) {
+        if ((await processUpload(nextItem)) === 'canceled') {
+          canceledIds.add(nextItem.id);
         }
-
-        await processUpload(nextItem);
         nextItem = getNextPending();
       }
     } finally {
@@ -197,16 +217,20 @@ export function useUploadQueueProcessor(): UseUploadQueueProcessorReturn {
   }, [isOnline, getNextPending, processUpload, setProcessing]);
 
   /**
-   * Retry all failed uploads by resetting their status
+   * Retry all dead-lettered uploads now, with a fresh retry budget
    */
   const retryFailed = useCallback(() => {
     queue
       .filter((item) => item.status === 'error')
-      .forEach((item) => {
-        // Reset to pending with cleared retry count
-        updateStatus(item.id, 'pending', undefined);
-      });
-  }, [queue, updateStatus]);
+      .forEach((item) => retryUpload(item.id));
+  }, [queue, retryUpload]);
+
+  /**
+   * Abort an in-flight upload; processUpload returns it to the queue
+   */
+  const cancelUpload = useCallback((id: string) => {
+    activeUploads.get(id)?.abort();
+  }, []);
 
   /**
    * Start/stop processing interval based on network state
@@ -242,14 +266,17 @@ export function useUploadQueueProcessor(): UseUploadQueueProcessorReturn {
   // Calculate counts
   const pendingCount = queue.filter((item) => item.status === 'pending').length;
   const failedCount = queue.filter((item) => item.status === 'error').length;
+  const uploadingItems = queue.filter((item) => item.status === 'uploading');
 
   return {
     isProcessing,
     pendingCount,
     failedCount,
+    uploadingItems,
     processQueue,
     clearCompleted,
     retryFailed,
+    cancelUpload,
   };
 }
 
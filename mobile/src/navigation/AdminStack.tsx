@@ -0,0 +1,44 @@
+/**
+ * AdminStack - Navigation stack for moderation screens (admin role only)
+ */
+
+import React from 'react';
+
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
+
+import { ModerationReportsScreen, ReportDetailScreen } from '../screens/admin';
+
+import type { AdminStackParamList } from '../types/navigation';
+
+const Stack = createNativeStackNavigator<AdminStackParamList>();
+
+export const AdminStack: React.FC = () => {
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: '#4A90A4',
+        },
+        headerTintColor: '#fff',
+        headerTitleStyle: {
+          fontWeight: '600',
+        },
+      }}
+    >
+      <Stack.Screen
+        name="ModerationReports"
+        component={ModerationReportsScreen}
+        options={{
+          title: 'Moderation',
+        }}
+      />
+      <Stack.Screen
+        name="ReportDetail"
+        component={ReportDetailScreen}
+        options={{
+          title: 'Report',
+        }}
+      />
+    </Stack.Navigator>
+  );
+};
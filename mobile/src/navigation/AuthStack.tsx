@@ -6,7 +6,12 @@ import React from 'react';
 
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
-import { LoginScreen, RegisterScreen, ForgotPasswordScreen } from '../screens/auth';
+import {
+  LoginScreen,
+  RegisterScreen,
+  ForgotPasswordScreen,
+  ResetPasswordScreen,
+} from '../screens/auth';
 
 import type { AuthStackParamList } from '../types/navigation';
 
@@ -47,6 +52,13 @@ export const AuthStack: React.FC = () => {
           title: 'Reset Password',
         }}
       />
+      <Stack.Screen
+        name="ResetPassword"
+        component={ResetPasswordScreen}
+        options={{
+          title: 'New Password',
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -6,7 +6,7 @@ import React from 'react';
 
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
-import { CameraScreen, PhotoUploadScreen } from '../screens/camera';
+import { CameraScreen, PhotoUploadScreen, FailedUploadsScreen } from '../screens/camera';
 
 import type { CameraStackParamList } from '../types/navigation';
 
@@ -39,6 +39,13 @@ export const CameraStack: React.FC = () => {
           title: 'Upload Photo',
         }}
       />
+      <Stack.Screen
+        name="FailedUploads"
+        component={FailedUploadsScreen}
+        options={{
+          title: 'Failed Uploads',
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -7,6 +7,7 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 import { FeedScreen, PhotoDetailScreen } from '../screens/feed';
+import { UserProfileScreen } from '../screens/profile';
 
 import type { FeedStackParamList } from '../types/navigation';
 
@@ -39,6 +40,15 @@ export const FeedStack: React.FC = () => {
           title: 'Photo Details',
         }}
       />
+      <Stack.Screen
+        name="UserProfile"
+        component={UserProfileScreen}
+        // One entry per user, so opening another profile from a profile pushes
+        getId={({ params }) => params.userId}
+        options={{
+          title: 'Profile',
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -2,16 +2,25 @@
  * MainTabs - Bottom tab navigator for authenticated users
  */
 
-import React from 'react';
+import React, { useCallback, useEffect } from 'react';
 
 import { StyleSheet, View, Text } from 'react-native';
 
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 
+import { AdminStack } from './AdminStack';
 import { CameraStack } from './CameraStack';
 import { FeedStack } from './FeedStack';
 import { MapStack } from './MapStack';
+import { NotificationsStack } from './NotificationsStack';
 import { ProfileStack } from './ProfileStack';
+import { ActivityToast } from '../components/notifications/ActivityToast';
+import { useDeferredDeepLink } from '../hooks/useDeferredDeepLink';
+import { useLiveSocialUpdates } from '../hooks/useLiveSocialUpdates';
+import { useNotificationRouter } from '../hooks/useNotificationRouter';
+import { useCurrentUser } from '../store/authStore';
+import { useBlockStore } from '../store/blockStore';
+import { useNotificationStore, useUnreadNotificationCount } from '../store/notificationStore';
 
 import type { MainTabParamList } from '../types/navigation';
 
@@ -32,9 +41,62 @@ const TabIcon: React.FC<TabIconProps> = ({ label, focused }) => (
   </View>
 );
 
+/**
+ * Format the unread count for the tab badge (hidden when zero)
+ */
+const formatBadge = (count: number): string | number | undefined => {
+  if (count <= 0) return undefined;
+  return count > 99 ? '99+' : count;
+};
+
 export const MainTabs: React.FC = () => {
+  const unreadCount = useUnreadNotificationCount();
+  const isAdmin = useCurrentUser()?.role === 'admin';
+
+  // Open the screen a tapped push notification points to
+  const { openNotification } = useNotificationRouter();
+
+  // Live like/comment counts, and a toast for activity on the user's photos
+  const { activity, dismissActivity } = useLiveSocialUpdates();
+
+  // Open a link that arrived before the user signed in
+  useDeferredDeepLink();
+
+  // Load the unread count for the badge; clear the inbox when the user signs out
+  useEffect(() => {
+    const { fetchNotifications, reset } = useNotificationStore.getState();
+    fetchNotifications();
+    return reset;
+  }, []);
+
+  // Load blocked users so their content is hidden everywhere; clear on sign out
+  useEffect(() => {
+    const { fetchBlockedUsers, reset } = useBlockStore.getState();
+    fetchBlockedUsers();
+    return reset;
+  }, []);
+
+  // Show the activity toast above every tab
+  const renderLayout = useCallback(
+    ({ children }: { children: React.ReactNode }) => (
+      <View style={styles.container}>
+        {children}
+        <ActivityToast
+          activity={activity}
+          onPress={(current) => {
+            dismissActivity();
+            openNotification({ photo_id: current.photoId });
+          }}
+          onDismiss={dismissActivity}
+        />
+      </View>
+    ),
+    [activity, dismissActivity, openNotification]
+  );
+
   return (
     <Tab.Navigator
+      layout={renderLayout}
       screenOptions={{
         headerShown: false,
         tabBarActiveTintColor: '#4A90A4',
@@ -86,6 +148,19 @@ export const MainTabs: React.FC = () => {
           tabBarButtonTestID: 'tab-camera',
         }}
       />
+      <Tab.Screen
+        name="NotificationsTab"
+        component={NotificationsStack}
+        options={{
+          tabBarLabel: 'Inbox',
+          tabBarIcon: ({ focused }) => (
+            <TabIcon label="Inbox" focused={focused} />
+          ),
+          tabBarBadge: formatBadge(unreadCount),
+          tabBarAccessibilityLabel: 'tab-notifications',
+          tabBarButtonTestID: 'tab-notifications',
+        }}
+      />
       <Tab.Screen
         name="ProfileTab"
         component={ProfileStack}
@@ -98,11 +173,28 @@ export const MainTabs: React.FC = () => {
           tabBarButtonTestID: 'tab-profile',
         }}
       />
+      {isAdmin && (
+        <Tab.Screen
+          name="AdminTab"
+          component={AdminStack}
+          options={{
+            tabBarLabel: 'Admin',
+            tabBarIcon: ({ focused }) => (
+              <TabIcon label="Admin" focused={focused} />
+            ),
+            tabBarAccessibilityLabel: 'tab-admin',
+            tabBarButtonTestID: 'tab-admin',
+          }}
+        />
+      )}
     </Tab.Navigator>
   );
 };
 
 const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
   iconContainer: {
     width: 28,
     height: 28,
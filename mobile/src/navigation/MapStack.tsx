@@ -6,7 +6,14 @@ import React from 'react';
 
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
-import { MapScreen } from '../screens/map';
+import {
+  ForecastScreen,
+  MapScreen,
+  MomentDetailScreen,
+  RainbowMomentArchiveScreen,
+  RegionComparisonScreen,
+  TrendsScreen,
+} from '../screens/map';
 
 import type { MapStackParamList } from '../types/navigation';
 
@@ -32,6 +39,41 @@ export const MapStack: React.FC = () => {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="Trends"
+        component={TrendsScreen}
+        options={{
+          title: 'Rainbow Trends',
+        }}
+      />
+      <Stack.Screen
+        name="RegionComparison"
+        component={RegionComparisonScreen}
+        options={{
+          title: 'Compare Regions',
+        }}
+      />
+      <Stack.Screen
+        name="MomentArchive"
+        component={RainbowMomentArchiveScreen}
+        options={{
+          title: 'Rainbow Moments',
+        }}
+      />
+      <Stack.Screen
+        name="MomentDetail"
+        component={MomentDetailScreen}
+        options={{
+          title: 'Rainbow Moment',
+        }}
+      />
+      <Stack.Screen
+        name="Forecast"
+        component={ForecastScreen}
+        options={{
+          title: 'Rainbow Forecast',
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -0,0 +1,37 @@
+/**
+ * NotificationsStack - Navigation stack for the notification inbox
+ */
+
+import React from 'react';
+
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
+
+import { NotificationsScreen } from '../screens/notifications';
+
+import type { NotificationsStackParamList } from '../types/navigation';
+
+const Stack = createNativeStackNavigator<NotificationsStackParamList>();
+
+export const NotificationsStack: React.FC = () => {
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: '#4A90A4',
+        },
+        headerTintColor: '#fff',
+        headerTitleStyle: {
+          fontWeight: '600',
+        },
+      }}
+    >
+      <Stack.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={{
+          title: 'Notifications',
+        }}
+      />
+    </Stack.Navigator>
+  );
+};
@@ -7,7 +7,11 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 import { ProfileScreen, EditProfileScreen } from '../screens/profile';
-import { SettingsScreen, NotificationSettingsScreen } from '../screens/settings';
+import {
+  SettingsScreen,
+  NotificationSettingsScreen,
+  BlockedUsersScreen,
+} from '../screens/settings';
 
 import type { ProfileStackParamList } from '../types/navigation';
 
@@ -54,6 +58,13 @@ export const ProfileStack: React.FC = () => {
           title: 'Notification Settings',
         }}
       />
+      <Stack.Screen
+        name="BlockedUsers"
+        component={BlockedUsersScreen}
+        options={{
+          title: 'Blocked Users',
+        }}
+      />
     </Stack.Navigator>
   );
 };
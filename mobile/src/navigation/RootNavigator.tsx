@@ -8,6 +8,7 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 import { AuthStack } from './AuthStack';
 import { MainTabs } from './MainTabs';
+import { VerifyEmailScreen } from '../screens/auth';
 import { OnboardingScreen } from '../screens/onboarding';
 
 import type { RootStackParamList } from '../types/navigation';
@@ -43,6 +44,22 @@ export const RootNavigator: React.FC<RootNavigatorProps> = ({
         // Show auth flow for unauthenticated users
         <Stack.Screen name="Auth" component={AuthStack} />
       )}
+      {/* Email verification links work whether or not the user is signed in */}
+      <Stack.Screen
+        name="VerifyEmail"
+        component={VerifyEmailScreen}
+        options={{
+          headerShown: true,
+          title: 'Verify Email',
+          headerStyle: {
+            backgroundColor: '#4A90A4',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
     </Stack.Navigator>
   );
 };
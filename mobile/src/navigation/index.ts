@@ -6,6 +6,9 @@ export { AuthStack } from './AuthStack';
 export { FeedStack } from './FeedStack';
 export { MapStack } from './MapStack';
 export { CameraStack } from './CameraStack';
+export { NotificationsStack } from './NotificationsStack';
 export { ProfileStack } from './ProfileStack';
+export { AdminStack } from './AdminStack';
 export { MainTabs } from './MainTabs';
 export { RootNavigator } from './RootNavigator';
+export { linking } from './linking';
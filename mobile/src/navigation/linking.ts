@@ -0,0 +1,205 @@
+/**
+ * Deep link configuration
+ *
+ * Maps shared URLs and email links onto RootStackParamList:
+ * - /photos/:photoId       → PhotoDetail (Feed tab)
+ * - /users/:userId         → UserProfile (Feed tab), or Profile for the signed-in user
+ * - /moments/:momentId     → MomentDetail (Map tab)
+ * - /verify_email/:token   → VerifyEmail (available signed in or out)
+ * - /password/reset?token= → ResetPassword (Auth stack)
+ *
+ * Links into the main tabs need a session. When one is opened while signed
+ * out, the path is held back until the user has gone through AuthStack and
+ * is replayed once the main tabs mount (see useDeferredDeepLink).
+ *
+ * Both the custom scheme (shiojiri-rainbow://photos/1) and universal links
+ * (https://<app link host>/photos/1) are accepted.
+ */
+
+import { Linking } from 'react-native';
+
+import { getStateFromPath as getStateFromPathDefault } from '@react-navigation/native';
+
+import { useAuthStore } from '../store/authStore';
+
+import type {
+  AuthStackParamList,
+  FeedStackParamList,
+  MapStackParamList,
+  ProfileStackParamList,
+  RootStackParamList,
+} from '../types/navigation';
+import type { LinkingOptions, PathConfig } from '@react-navigation/native';
+
+// ============================================
+// Constants
+// ============================================
+
+/**
+ * Custom URL scheme (must match `expo.scheme` in app.json)
+ */
+export const APP_SCHEME = 'shiojiri-rainbow';
+
+/**
+ * Host for universal / app links (must match the associated domains in app.json)
+ */
+export const APP_LINK_URL =
+  process.env.EXPO_PUBLIC_APP_LINK_URL || 'https://shiojiri-rainbow.example.com';
+
+export const LINKING_PREFIXES = [`${APP_SCHEME}://`, APP_LINK_URL];
+
+/**
+ * Paths that can be opened without signing in
+ */
+const PUBLIC_PATHS = [/^\/verify_email\//, /^\/password\/reset\b/];
+
+const ROOT_ROUTES: (keyof RootStackParamList)[] = ['Onboarding', 'Auth', 'Main', 'VerifyEmail'];
+
+/**
+ * Path held back while the user signs in
+ */
+let pendingPath: string | null = null;
+
+// ============================================
+// Path helpers
+// ============================================
+
+/**
+ * Extract the path (with leading slash, query included) from a deep link URL
+ * @returns The path, or null when the URL does not belong to this app
+ */
+export const getPathFromUrl = (url: string): string | null => {
+  // A host prefix must end at a path boundary (https://host.evil.test is not ours)
+  const prefix = LINKING_PREFIXES.find(
+    (candidate) =>
+      url.startsWith(candidate) &&
+      (candidate.endsWith('/') || /^([/?#]|$)/.test(url.slice(candidate.length)))
+  );
+  if (!prefix) return null;
+
+  const path = url.slice(prefix.length).replace(/^\/*/, '/');
+  return path === '/' ? null : path;
+};
+
+/**
+ * Whether the path can be opened without a session
+ */
+export const isPublicPath = (path: string): boolean =>
+  PUBLIC_PATHS.some((pattern) => pattern.test(path));
+
+/**
+ * Rewrite paths that depend on who is signed in
+ */
+const rewritePath = (path: string): string => {
+  // The signed-in user's own profile lives in the Profile tab
+  const userId = path.match(/^\/?users\/([^/?#]+)/)?.[1];
+  if (userId && userId === useAuthStore.getState().user?.id) {
+    return '/profile';
+  }
+  return path;
+};
+
+// ============================================
+// Deferred links
+// ============================================
+
+/**
+ * Hold back a link to a signed-in screen while the user is signed out
+ * @returns true when the link was deferred and must not be opened yet
+ */
+export const deferIfSignedOut = (url: string): boolean => {
+  const path = getPathFromUrl(url);
+  if (!path || isPublicPath(path) || useAuthStore.getState().isAuthenticated) {
+    return false;
+  }
+
+  pendingPath = path;
+  return true;
+};
+
+/**
+ * Take the path deferred during sign-in (if any)
+ */
+export const consumePendingDeepLink = (): string | null => {
+  const path = pendingPath;
+  pendingPath = null;
+  return path;
+};
+
+// ============================================
+// Linking options
+// ============================================
+
+/**
+ * PathConfigMap cannot infer a tab's param list through NavigatorScreenParams
+ * (initialRouteName ends up typed as never), so nested stacks are checked
+ * against their own param list and widened here
+ */
+const stackConfig = <ParamList extends object>(config: PathConfig<ParamList>) =>
+  config as PathConfig<object>;
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: LINKING_PREFIXES,
+
+  config: {
+    screens: {
+      VerifyEmail: 'verify_email/:token',
+      Auth: stackConfig<AuthStackParamList>({
+        initialRouteName: 'Login',
+        screens: {
+          ResetPassword: 'password/reset',
+        },
+      }),
+      Main: {
+        screens: {
+          FeedTab: stackConfig<FeedStackParamList>({
+            initialRouteName: 'Feed',
+            screens: {
+              Feed: 'feed',
+              PhotoDetail: 'photos/:photoId',
+              UserProfile: 'users/:userId',
+            },
+          }),
+          MapTab: stackConfig<MapStackParamList>({
+            initialRouteName: 'Map',
+            screens: {
+              MomentDetail: 'moments/:momentId',
+            },
+          }),
+          ProfileTab: stackConfig<ProfileStackParamList>({
+            initialRouteName: 'Profile',
+            screens: {
+              Profile: 'profile',
+            },
+          }),
+        },
+      },
+    },
+  },
+
+  /**
+   * Ignore paths that do not resolve to one of the root routes instead of
+   * letting React Navigation invent routes from the path segments
+   */
+  getStateFromPath: (path, options) => {
+    const state = getStateFromPathDefault(rewritePath(path), options);
+    const rootRoute = state?.routes[0]?.name as keyof RootStackParamList | undefined;
+    return rootRoute && ROOT_ROUTES.includes(rootRoute) ? state : undefined;
+  },
+
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    if (!url || deferIfSignedOut(url)) return null;
+    return url;
+  },
+
+  subscribe(listener) {
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      if (!deferIfSignedOut(url)) {
+        listener(url);
+      }
+    });
+
+    return () => subscription.remove();
+  },
+};
@@ -0,0 +1,236 @@
+/**
+ * ModerationReportsScreen - Pending content reports for admins
+ *
+ * Features:
+ * - Pending reports, most recent first, loaded page by page
+ * - Reported photo/comment preview and report category per card
+ * - Approve, hide or delete directly from the list
+ * - Pull to refresh
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Pending count announced in the list header
+ * - Minimum touch target size 44x44pt
+ *
+ * Requirements: FR-10 (AC-10.1, AC-10.2)
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+
+import { StyleSheet, Text, View, FlatList, ActivityIndicator, RefreshControl } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { ReportCard } from '../../components/admin';
+import { Button } from '../../components/ui/Button';
+import { useModerateReport } from '../../hooks/useModerateReport';
+import { getReports } from '../../services/adminService';
+import { accessibleColors, createScreenReaderAnnouncement } from '../../utils/accessibility';
+
+import type {
+  ModerationAction,
+  ModerationReport,
+  ReportListResult,
+} from '../../services/adminService';
+import type { ModerationReportsScreenProps } from '../../types/navigation';
+
+const REPORTS_PER_PAGE = 20;
+
+export const ModerationReportsScreen: React.FC<ModerationReportsScreenProps> = ({ navigation }) => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { confirmProcessReport } = useModerateReport();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useInfiniteQuery({
+      queryKey: ['adminReports', 'pending'],
+      queryFn: ({ pageParam }) =>
+        getReports({ status: 'pending', page: pageParam, perPage: REPORTS_PER_PAGE }),
+      getNextPageParam: (lastPage: ReportListResult) =>
+        lastPage.pagination.currentPage < lastPage.pagination.totalPages
+          ? lastPage.pagination.currentPage + 1
+          : undefined,
+      initialPageParam: 1,
+    });
+
+  const reports = useMemo(() => data?.pages.flatMap((page) => page.reports) ?? [], [data]);
+  const pendingCount = data?.pages[0]?.stats.pendingCount ?? 0;
+
+  // Reports may have been processed on the detail screen or by another admin
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await refetch();
+    setIsRefreshing(false);
+  }, [refetch]);
+
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const handleOpenReport = useCallback(
+    (report: ModerationReport) => {
+      navigation.navigate('ReportDetail', { reportId: report.id });
+    },
+    [navigation]
+  );
+
+  const handleAction = useCallback(
+    (report: ModerationReport, action: ModerationAction) => {
+      confirmProcessReport(report.id, action, () => {
+        queryClient.invalidateQueries({ queryKey: ['adminReports'] });
+      });
+    },
+    [confirmProcessReport, queryClient]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: ModerationReport }) => (
+      <ReportCard report={item} onPress={handleOpenReport} onAction={handleAction} />
+    ),
+    [handleOpenReport, handleAction]
+  );
+
+  const renderHeader = () =>
+    reports.length > 0 ? (
+      <Text style={styles.headerText} accessibilityRole="header">
+        {t('admin.pendingReports', { count: pendingCount })}
+      </Text>
+    ) : null;
+
+  const renderFooter = () =>
+    isFetchingNextPage ? (
+      <ActivityIndicator style={styles.footerLoader} color={accessibleColors.primary} />
+    ) : null;
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View
+          style={styles.centerContainer}
+          accessible={true}
+          accessibilityRole="progressbar"
+          accessibilityLabel={t('common.loading')}
+        >
+          <ActivityIndicator size="large" color={accessibleColors.primary} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerContainer} accessible={true} accessibilityRole="alert">
+          <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+          <Text style={styles.emptyTitle}>{t('admin.loadError')}</Text>
+          <Button
+            title={t('common.retry')}
+            onPress={() => refetch()}
+            variant="outline"
+            style={styles.retryButton}
+            testID="moderation-retry"
+          />
+        </View>
+      );
+    }
+
+    return (
+      <View
+        style={styles.centerContainer}
+        accessible={true}
+        accessibilityLabel={createScreenReaderAnnouncement(
+          t('admin.noPendingReports'),
+          t('admin.noPendingReportsDesc')
+        )}
+        testID="moderation-empty"
+      >
+        <Ionicons
+          name="shield-checkmark-outline"
+          size={48}
+          color={accessibleColors.textSecondary}
+        />
+        <Text style={styles.emptyTitle}>{t('admin.noPendingReports')}</Text>
+        <Text style={styles.emptyDescription}>{t('admin.noPendingReportsDesc')}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="moderation-reports-screen">
+      <FlatList
+        data={reports}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ListHeaderComponent={renderHeader}
+        ListFooterComponent={renderFooter}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={reports.length === 0 ? styles.listContentEmpty : styles.listContent}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={accessibleColors.primary}
+          />
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+  },
+  headerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.textSecondary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,269 @@
+/**
+ * ReportDetailScreen - A content report with the reported content
+ *
+ * Features:
+ * - Reported photo (image, title, description) or comment text
+ * - Report category, reporter and other reports for the same content
+ * - Content owner's violation history
+ * - Approve, hide or delete, then return to the list
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Section headers marked as headers
+ * - Minimum touch target size 44x44pt
+ *
+ * Requirements: FR-10 (AC-10.1 to AC-10.3)
+ */
+
+import React, { useCallback } from 'react';
+
+import { StyleSheet, Text, View, ScrollView, ActivityIndicator } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { ModerationActions, getReportReasonKey } from '../../components/admin';
+import { Button } from '../../components/ui/Button';
+import { useModerateReport } from '../../hooks/useModerateReport';
+import { getReport } from '../../services/adminService';
+import { accessibleColors } from '../../utils/accessibility';
+
+import type { ModerationAction, ModerationReportDetail } from '../../services/adminService';
+import type { ReportDetailScreenProps } from '../../types/navigation';
+
+export const ReportDetailScreen: React.FC<ReportDetailScreenProps> = ({ navigation, route }) => {
+  const { reportId } = route.params;
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { confirmProcessReport } = useModerateReport();
+
+  const {
+    data: report,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<ModerationReportDetail>({
+    queryKey: ['adminReport', reportId],
+    queryFn: () => getReport(reportId),
+  });
+
+  const handleAction = useCallback(
+    (action: ModerationAction) => {
+      confirmProcessReport(reportId, action, () => {
+        queryClient.invalidateQueries({ queryKey: ['adminReports'] });
+        queryClient.invalidateQueries({ queryKey: ['adminReport', reportId] });
+        navigation.goBack();
+      });
+    },
+    [confirmProcessReport, reportId, queryClient, navigation]
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={styles.centerContainer}
+        accessible={true}
+        accessibilityRole="progressbar"
+        accessibilityLabel={t('common.loading')}
+      >
+        <ActivityIndicator size="large" color={accessibleColors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <View style={styles.centerContainer} accessible={true} accessibilityRole="alert">
+        <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+        <Text style={styles.errorText}>{t('admin.loadError')}</Text>
+        <Button
+          title={t('common.retry')}
+          onPress={() => refetch()}
+          variant="outline"
+          style={styles.retryButton}
+          testID="report-detail-retry"
+        />
+      </View>
+    );
+  }
+
+  const { reportable, contentOwner } = report;
+  const reasonKey = getReportReasonKey(report.reason);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="report-detail-screen">
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Reported content */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t(reportable?.type === 'Photo' ? 'admin.reportedPhoto' : 'admin.reportedComment')}
+        </Text>
+        {reportable ? (
+          <View style={styles.section}>
+            {reportable.imageUrl && (
+              <Image
+                source={{ uri: reportable.imageUrl }}
+                style={styles.image}
+                contentFit="cover"
+                accessible={true}
+                accessibilityLabel={reportable.title ?? t('admin.reportedPhoto')}
+                testID="report-detail-image"
+              />
+            )}
+            {reportable.title && <Text style={styles.contentTitle}>{reportable.title}</Text>}
+            {(reportable.description || reportable.content) && (
+              <Text style={styles.bodyText}>{reportable.content ?? reportable.description}</Text>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.mutedText}>{t('admin.contentUnavailable')}</Text>
+        )}
+
+        {/* Report */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t('social.reportReason')}
+        </Text>
+        <View style={styles.section}>
+          <Text style={styles.reasonText}>{t(`admin.reasons.${reasonKey}`)}</Text>
+          {reasonKey === 'other' && report.reason !== 'other' && (
+            <Text style={styles.bodyText}>{report.reason}</Text>
+          )}
+          {report.reporter && (
+            <Text style={styles.mutedText}>
+              {t('admin.reportedBy', { name: report.reporter.displayName })}
+            </Text>
+          )}
+        </View>
+
+        {/* Content owner */}
+        {contentOwner && (
+          <View style={styles.section}>
+            <View style={styles.ownerRow}>
+              <Text style={styles.ownerName}>
+                {t('admin.postedBy', { name: contentOwner.displayName })}
+              </Text>
+              {contentOwner.violationFlagged && (
+                <View style={styles.flagBadge}>
+                  <Text style={styles.flagText}>{t('admin.flagged')}</Text>
+                </View>
+              )}
+            </View>
+            <Text style={styles.mutedText}>
+              {t('admin.violations', {
+                count: contentOwner.violationCount,
+                reports: contentOwner.totalReportsAgainst,
+              })}
+            </Text>
+          </View>
+        )}
+
+        {/* Other reports for the same content */}
+        {report.relatedReports.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle} accessibilityRole="header">
+              {t('admin.relatedReports')}
+            </Text>
+            <View style={styles.section}>
+              {report.relatedReports.map((related) => (
+                <Text key={related.id} style={styles.mutedText}>
+                  {t(`admin.reasons.${getReportReasonKey(related.reason)}`)}
+                </Text>
+              ))}
+            </View>
+          </>
+        )}
+
+        {report.status === 'pending' && (
+          <ModerationActions onAction={handleAction} testID="report-detail-actions" />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: accessibleColors.textSecondary,
+    marginBottom: 8,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 6,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: 8,
+    backgroundColor: '#E0E0E0',
+  },
+  contentTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  bodyText: {
+    fontSize: 15,
+    color: accessibleColors.textPrimary,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: accessibleColors.textMuted,
+  },
+  reasonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: accessibleColors.error,
+  },
+  ownerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ownerName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  flagBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#FDECEC',
+  },
+  flagText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: accessibleColors.error,
+  },
+});
@@ -0,0 +1,6 @@
+/**
+ * Admin screens index
+ */
+
+export { ModerationReportsScreen } from './ModerationReportsScreen';
+export { ReportDetailScreen } from './ReportDetailScreen';
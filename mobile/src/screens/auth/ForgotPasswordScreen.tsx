@@ -7,6 +7,7 @@
  * - Error handling and display
  * - Loading state during request
  * - Navigation back to Login screen
+ * - Link to enter the reset code manually
  */
 
 import React, { useState, useCallback } from 'react';
@@ -87,6 +88,10 @@ export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({
     navigation.goBack();
   }, [navigation]);
 
+  const handleEnterCode = useCallback(() => {
+    navigation.navigate('ResetPassword');
+  }, [navigation]);
+
   const handleTryAgain = useCallback(() => {
     setScreenState('form');
     setEmail('');
@@ -125,6 +130,15 @@ export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({
               size="large"
             />
 
+            <Button
+              title="Enter Reset Code"
+              onPress={handleEnterCode}
+              variant="outline"
+              fullWidth
+              style={styles.tryAgainButton}
+              testID="enter-reset-code-button"
+            />
+
             <Button
               title="Try Different Email"
               onPress={handleTryAgain}
@@ -0,0 +1,339 @@
+/**
+ * ResetPasswordScreen - Set a new password with the token from the reset email
+ *
+ * Features:
+ * - Token prefilled from the /password/reset?token= link, or entered manually
+ * - New password and confirmation inputs with validation
+ * - Signs the user in with the new password on success
+ * - Error handling for expired or invalid tokens
+ * - Navigation back to Login screen
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Input, Button } from '../../components/ui';
+import { getErrorMessage } from '../../services/apiClient';
+import { useAuthStore } from '../../store/authStore';
+import { validatePassword, validatePasswordConfirmation } from '../../utils/validation';
+
+import type { ResetPasswordScreenProps } from '../../types/navigation';
+
+export const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({ navigation, route }) => {
+  // Token from the reset link (if the screen was opened from one)
+  const linkToken = route.params?.token;
+
+  // Auth store
+  const confirmPasswordReset = useAuthStore((state) => state.confirmPasswordReset);
+
+  // Form state
+  const [token, setToken] = useState(linkToken ?? '');
+  const [password, setPassword] = useState('');
+  const [passwordConfirmation, setPasswordConfirmation] = useState('');
+
+  // UI state
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<{
+    token?: string;
+    password?: string;
+    passwordConfirmation?: string;
+    general?: string;
+  }>({});
+
+  // A newer reset link replaces the code
+  useEffect(() => {
+    if (linkToken) {
+      setToken(linkToken);
+    }
+  }, [linkToken]);
+
+  // Clear field errors when user starts typing
+  const handleTokenChange = useCallback(
+    (text: string) => {
+      setToken(text);
+      if (errors.token) {
+        setErrors((prev) => ({ ...prev, token: undefined }));
+      }
+    },
+    [errors.token]
+  );
+
+  const handlePasswordChange = useCallback(
+    (text: string) => {
+      setPassword(text);
+      if (errors.password) {
+        setErrors((prev) => ({ ...prev, password: undefined }));
+      }
+    },
+    [errors.password]
+  );
+
+  const handlePasswordConfirmationChange = useCallback(
+    (text: string) => {
+      setPasswordConfirmation(text);
+      if (errors.passwordConfirmation) {
+        setErrors((prev) => ({ ...prev, passwordConfirmation: undefined }));
+      }
+    },
+    [errors.passwordConfirmation]
+  );
+
+  // Handle new password submission
+  const handleResetPassword = useCallback(async () => {
+    // Clear previous errors
+    setErrors({});
+
+    // Validate form
+    const trimmedToken = token.trim();
+    const passwordResult = validatePassword(password);
+    const confirmationResult = validatePasswordConfirmation(password, passwordConfirmation);
+    if (!trimmedToken || !passwordResult.isValid || !confirmationResult.isValid) {
+      setErrors({
+        token: trimmedToken ? undefined : 'Reset code is required',
+        password: passwordResult.error,
+        passwordConfirmation: confirmationResult.error,
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const signedIn = await confirmPasswordReset(trimmedToken, password);
+
+      // On sign-in the root navigator switches to the main tabs by itself
+      if (!signedIn) {
+        Alert.alert(
+          'Password Updated',
+          'Your password has been reset. Please log in with your new password.',
+          [
+            {
+              text: 'OK',
+              onPress: () => navigation.navigate('Login'),
+            },
+          ]
+        );
+      }
+    } catch (error) {
+      // Handle API errors (e.g. expired token)
+      const errorMessage = getErrorMessage(error);
+      setErrors({ general: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, password, passwordConfirmation, confirmPasswordReset, navigation]);
+
+  const handleBackToLogin = useCallback(() => {
+    navigation.navigate('Login');
+  }, [navigation]);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="reset-password-screen">
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.logoContainer}>
+              <Ionicons
+                name="lock-open"
+                size={40}
+                color="#4A90A4"
+                accessibilityLabel="Set New Password"
+              />
+            </View>
+            <Text style={styles.title}>Set New Password</Text>
+            <Text style={styles.subtitle}>
+              {linkToken
+                ? 'Choose a new password for your account.'
+                : 'Enter the reset code from the email we sent you and choose a new password.'}
+            </Text>
+          </View>
+
+          {/* Form */}
+          <View style={styles.form}>
+            {/* General error message */}
+            {errors.general && (
+              <View style={styles.errorContainer} accessibilityRole="alert">
+                <Text style={styles.errorText}>{errors.general}</Text>
+              </View>
+            )}
+
+            {/* The code is hidden when it came from the link */}
+            {!linkToken && (
+              <Input
+                label="Reset Code"
+                placeholder="Paste the code from the email"
+                value={token}
+                onChangeText={handleTokenChange}
+                error={errors.token}
+                autoCapitalize="none"
+                autoCorrect={false}
+                leftIcon="key-outline"
+                returnKeyType="next"
+                disabled={isLoading}
+                accessibilityLabel="Reset code input"
+                testID="auth-reset-token-input"
+              />
+            )}
+
+            <Input
+              label="New Password"
+              placeholder="Create a new password"
+              value={password}
+              onChangeText={handlePasswordChange}
+              error={errors.password}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="new-password"
+              leftIcon="lock-closed-outline"
+              returnKeyType="next"
+              disabled={isLoading}
+              accessibilityLabel="New password input"
+              hint="At least 8 characters"
+              testID="auth-password-input"
+            />
+
+            <Input
+              label="Confirm New Password"
+              placeholder="Enter new password again"
+              value={passwordConfirmation}
+              onChangeText={handlePasswordConfirmationChange}
+              error={errors.passwordConfirmation}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="new-password"
+              leftIcon="lock-closed-outline"
+              returnKeyType="done"
+              disabled={isLoading}
+              onSubmitEditing={handleResetPassword}
+              accessibilityLabel="Confirm new password input"
+              testID="auth-confirm-password-input"
+            />
+
+            <Button
+              title="Reset Password"
+              onPress={handleResetPassword}
+              loading={isLoading}
+              disabled={isLoading}
+              fullWidth
+              size="large"
+              icon="checkmark-circle-outline"
+              testID="reset-password-button"
+            />
+          </View>
+
+          {/* Footer */}
+          <View style={styles.footer}>
+            <TouchableOpacity
+              onPress={handleBackToLogin}
+              disabled={isLoading}
+              style={styles.backLink}
+              accessibilityRole="link"
+              accessibilityLabel="Go back to login"
+            >
+              <Ionicons name="arrow-back" size={18} color="#4A90A4" />
+              <Text style={styles.backLinkText}>Back to Login</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  logoContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#E8F4F8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    paddingHorizontal: 16,
+  },
+  form: {
+    marginBottom: 24,
+  },
+  errorContainer: {
+    backgroundColor: '#FDEAEA',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#E74C3C',
+  },
+  errorText: {
+    color: '#C0392B',
+    fontSize: 14,
+  },
+  footer: {
+    alignItems: 'center',
+    marginTop: 'auto',
+    paddingTop: 24,
+  },
+  backLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backLinkText: {
+    color: '#4A90A4',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,218 @@
+/**
+ * VerifyEmailScreen - Confirms an email address from the verification link
+ *
+ * Opened from the /verify_email/:token deep link, whether or not the user
+ * is signed in.
+ *
+ * Features:
+ * - Verifies the token as soon as the screen opens
+ * - Success and error states (expired or already used tokens)
+ * - Continue to the app (or to Login when signed out)
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+
+import { StyleSheet, Text, View, ActivityIndicator } from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Button } from '../../components/ui';
+import { getErrorMessage } from '../../services/authService';
+import { useAuthStore } from '../../store/authStore';
+
+import type { VerifyEmailScreenProps } from '../../types/navigation';
+
+type ScreenState = 'verifying' | 'success' | 'error';
+
+export const VerifyEmailScreen: React.FC<VerifyEmailScreenProps> = ({ navigation, route }) => {
+  const { token } = route.params;
+  const verifyEmail = useAuthStore((state) => state.verifyEmail);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  const [screenState, setScreenState] = useState<ScreenState>('verifying');
+  const [email, setEmail] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const verify = async () => {
+      setScreenState('verifying');
+      try {
+        const user = await verifyEmail(token);
+        if (!isMounted) return;
+        setEmail(user.email);
+        setScreenState('success');
+      } catch (error) {
+        if (!isMounted) return;
+        setErrorMessage(getErrorMessage(error));
+        setScreenState('error');
+      }
+    };
+
+    verify();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [token, verifyEmail]);
+
+  // The link may have opened this screen on its own, so go back to
+  // whichever flow the root navigator is showing instead of popping
+  const handleContinue = useCallback(() => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+      return;
+    }
+
+    const home = navigation.getState().routeNames.find((name) => name !== 'VerifyEmail');
+    if (home) {
+      navigation.reset({ index: 0, routes: [{ name: home }] });
+    }
+  }, [navigation]);
+
+  const continueTitle = isAuthenticated ? 'Continue' : 'Go to Login';
+
+  if (screenState === 'verifying') {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']} testID="verify-email-screen">
+        <View
+          style={styles.content}
+          accessible={true}
+          accessibilityRole="progressbar"
+          accessibilityLabel="Verifying your email address"
+        >
+          <ActivityIndicator size="large" color="#4A90A4" />
+          <Text style={styles.message}>Verifying your email address...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (screenState === 'error') {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']} testID="verify-email-screen">
+        <View style={styles.content}>
+          <View style={[styles.iconContainer, styles.iconContainerError]}>
+            <Ionicons
+              name="close-circle"
+              size={60}
+              color="#E74C3C"
+              accessibilityLabel="Verification failed"
+            />
+          </View>
+
+          <Text style={styles.title}>Verification Failed</Text>
+          <View style={styles.errorContainer} accessibilityRole="alert">
+            <Text style={styles.errorText}>{errorMessage}</Text>
+          </View>
+          <Text style={styles.hint}>
+            The link may have expired or already been used. Sign in to request a new verification
+            email.
+          </Text>
+
+          <Button title={continueTitle} onPress={handleContinue} fullWidth size="large" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="verify-email-screen">
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons
+            name="checkmark-circle"
+            size={60}
+            color="#27AE60"
+            accessibilityLabel="Email verified"
+          />
+        </View>
+
+        <Text style={styles.title} accessibilityRole="header">
+          Email Verified
+        </Text>
+        <Text style={styles.message}>Thanks for confirming</Text>
+        {email && <Text style={styles.email}>{email}</Text>}
+
+        <Button
+          title={continueTitle}
+          onPress={handleContinue}
+          fullWidth
+          size="large"
+          testID="verify-email-continue"
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  iconContainer: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: '#E8F4F8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  iconContainerError: {
+    backgroundColor: '#FDEAEA',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  email: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4A90A4',
+    marginBottom: 32,
+  },
+  errorContainer: {
+    alignSelf: 'stretch',
+    backgroundColor: '#FDEAEA',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#E74C3C',
+  },
+  errorText: {
+    color: '#C0392B',
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 18,
+  },
+});
@@ -5,9 +5,11 @@
  * - Camera capture with GPS tagging (AC-2.1, AC-2.2)
  * - Gallery selection with EXIF extraction (AC-2.4)
  * - Location permission handling (AC-2.3)
+ * - Rainbow direction overlay from the sun position and compass heading
+ * - Link to failed uploads when any need attention (AC-2.8)
  */
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 
 import {
   StyleSheet,
@@ -22,24 +24,28 @@ import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { RainbowOverlay } from '../../components/camera';
 import {
   getCurrentLocation,
   watchLocation,
+  watchHeading,
   selectFromGallery,
-  checkFileSize,
   requestLocationPermission,
 } from '../../services/photoService';
+import { useFailedUploadCount } from '../../store';
+import { getNextRainbowWindow } from '../../utils/rainbowGeometry';
+import { getSunPosition } from '../../utils/sunPosition';
 
 import type { CameraScreenProps } from '../../types/navigation';
 import type { Location as LocationType, CapturedPhoto } from '../../types/photo';
 import type { LocationSubscription } from 'expo-location';
 
-
-// Maximum file size (10MB) as per AC-2.9
-const MAX_FILE_SIZE_MB = 10;
+// How often the sun position is recalculated
+const SUN_UPDATE_INTERVAL_MS = 60000;
 
 export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
   const { t } = useTranslation();
+  const failedUploadCount = useFailedUploadCount();
 
   // Camera state
   const [facing, setFacing] = useState<CameraType>('back');
@@ -54,6 +60,11 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
   const [isLocationLoading, setIsLocationLoading] = useState(true);
   const locationSubscription = useRef<LocationSubscription | null>(null);
 
+  // Compass and sun state for the rainbow overlay
+  const [heading, setHeading] = useState<number | null>(null);
+  const headingSubscription = useRef<LocationSubscription | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
   // Request location permission and start watching on mount
   useEffect(() => {
     const initLocation = async () => {
@@ -81,6 +92,9 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
         if (subscription) {
           locationSubscription.current = subscription;
         }
+
+        // Watch the compass; without one the overlay only shows the direction
+        headingSubscription.current = await watchHeading(setHeading);
       } catch (error) {
         console.error('Location error:', error);
         setLocationError(t('camera.locationError'));
@@ -96,9 +110,28 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
       if (locationSubscription.current) {
         locationSubscription.current.remove();
       }
+      if (headingSubscription.current) {
+        headingSubscription.current.remove();
+      }
     };
   }, []);
 
+  // Keep the sun position current while the screen is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), SUN_UPDATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const sunPosition = useMemo(
+    () => (location ? getSunPosition(now, location.latitude, location.longitude) : null),
+    [location, now]
+  );
+
+  const nextRainbowWindow = useMemo(
+    () => (location ? getNextRainbowWindow(now, location.latitude, location.longitude) : null),
+    [location, now]
+  );
+
   /**
    * Toggle camera facing (front/back)
    */
@@ -136,7 +169,8 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
 
     try {
       const photo = await cameraRef.current.takePictureAsync({
-        quality: 0.8,
+        // Full quality; compressPhoto encodes once before upload
+        quality: 1,
         exif: true,
         skipProcessing: false,
       });
@@ -185,17 +219,6 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
         return;
       }
 
-      // Check file size (AC-2.9)
-      const isValidSize = await checkFileSize(photo.uri);
-      if (!isValidSize) {
-        Alert.alert(
-          t('camera.fileTooLarge'),
-          t('camera.fileTooLargeMessage', { size: MAX_FILE_SIZE_MB })
-        );
-        setIsLoadingGallery(false);
-        return;
-      }
-
       // If no GPS in EXIF and we have current location, offer to use it
       if (!photo.location && location) {
         Alert.alert(
@@ -320,6 +343,21 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
             )}
           </View>
         </View>
+        {failedUploadCount > 0 && (
+          <TouchableOpacity
+            style={styles.failedUploadsLink}
+            onPress={() => navigation.navigate('FailedUploads')}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityHint={t('camera.failedUploadsHint')}
+            testID="camera-failed-uploads"
+          >
+            <View style={[styles.locationDot, styles.locationDotError]} />
+            <Text style={styles.failedUploadsText}>
+              {t('camera.failedUploadsBanner', { count: failedUploadCount })}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Camera View */}
@@ -330,6 +368,15 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({ navigation }) => {
           facing={facing}
           mode="picture"
         >
+          {/* Where a rainbow would appear (the back camera faces the heading) */}
+          {facing === 'back' && (
+            <RainbowOverlay
+              sun={sunPosition}
+              heading={heading}
+              nextWindow={nextRainbowWindow}
+            />
+          )}
+
           {/* Camera overlay with capture indicator */}
           <View style={styles.cameraOverlay}>
             {isCapturing && (
@@ -497,6 +544,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#FF9500',
   },
+  failedUploadsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44, // Accessibility: minimum touch target
+  },
+  failedUploadsText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+    textDecorationLine: 'underline',
+  },
   cameraContainer: {
     flex: 1,
     overflow: 'hidden',
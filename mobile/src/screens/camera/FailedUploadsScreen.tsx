@@ -0,0 +1,369 @@
+/**
+ * FailedUploadsScreen - Dead-lettered photo uploads
+ *
+ * Requirements: FR-2 (AC-2.7, AC-2.8)
+ * - List of uploads that failed permanently or ran out of retries
+ * - Failure reason and the server's message for each upload
+ * - Edit title/comment and retry (e.g. after a validation error)
+ * - Discard with confirmation
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Each row is announced with its title and failure reason
+ * - Minimum touch target size 44x44pt for action buttons
+ */
+
+import React, { useCallback, useState } from 'react';
+
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import {
+  useUploadQueueStore,
+  useDeadLetterUploads,
+  type QueuedUpload,
+  type UploadErrorClass,
+} from '../../store';
+import {
+  accessibleColors,
+  MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { FailedUploadsScreenProps } from '../../types/navigation';
+
+// Character limits as per AC-3.1
+const TITLE_MAX_LENGTH = 100;
+const COMMENT_MAX_LENGTH = 500;
+
+/**
+ * Translation key of the reason shown for each failure class
+ */
+const FAILURE_REASON_KEYS: Record<UploadErrorClass, string> = {
+  network: 'camera.failureNetwork',
+  auth: 'camera.failureAuth',
+  validation: 'camera.failureValidation',
+  server: 'camera.failureServer',
+  local: 'camera.failureLocal',
+};
+
+/**
+ * Fields being edited for an upload
+ */
+interface EditDraft {
+  id: string;
+  title: string;
+  comment: string;
+}
+
+export const FailedUploadsScreen: React.FC<FailedUploadsScreenProps> = () => {
+  const { t } = useTranslation();
+  const failedUploads = useDeadLetterUploads();
+  const retryUpload = useUploadQueueStore((state) => state.retryUpload);
+  const removeFromQueue = useUploadQueueStore((state) => state.removeFromQueue);
+  const [draft, setDraft] = useState<EditDraft | null>(null);
+
+  const handleRetry = useCallback(
+    (item: QueuedUpload) => {
+      if (draft?.id === item.id) {
+        retryUpload(item.id, { title: draft.title.trim(), comment: draft.comment.trim() });
+        setDraft(null);
+      } else {
+        retryUpload(item.id);
+      }
+    },
+    [draft, retryUpload]
+  );
+
+  const handleDiscard = useCallback(
+    (item: QueuedUpload) => {
+      Alert.alert(t('camera.discardUploadTitle'), t('camera.discardUploadMessage'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('camera.discardUpload'),
+          style: 'destructive',
+          onPress: () => removeFromQueue(item.id),
+        },
+      ]);
+    },
+    [t, removeFromQueue]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: QueuedUpload }) => {
+      const title = item.metadata.title || t('camera.untitledPhoto');
+      const reason = t(FAILURE_REASON_KEYS[item.errorClass ?? 'server']);
+      const isEditing = draft?.id === item.id;
+
+      return (
+        <View style={styles.row} testID={`failed-upload-${item.id}`}>
+          <View
+            style={styles.uploadInfo}
+            accessible={true}
+            accessibilityLabel={createScreenReaderAnnouncement(title, reason, item.errorMessage)}
+          >
+            <Image
+              source={{ uri: item.photoUri }}
+              style={styles.thumbnail}
+              contentFit="cover"
+              accessible={false}
+            />
+            <View style={styles.uploadText}>
+              <Text style={styles.uploadTitle} numberOfLines={1}>
+                {title}
+              </Text>
+              <Text style={styles.reason}>{reason}</Text>
+              {item.errorMessage ? (
+                <Text style={styles.errorMessage} testID={`failed-upload-error-${item.id}`}>
+                  {item.errorMessage}
+                </Text>
+              ) : null}
+            </View>
+          </View>
+
+          {isEditing && (
+            <View style={styles.editForm}>
+              <TextInput
+                style={styles.input}
+                value={draft.title}
+                onChangeText={(text) => setDraft({ ...draft, title: text })}
+                placeholder={t('photo.enterTitle')}
+                maxLength={TITLE_MAX_LENGTH}
+                accessibilityLabel={t('photo.title')}
+                testID={`failed-upload-title-${item.id}`}
+              />
+              <TextInput
+                style={[styles.input, styles.commentInput]}
+                value={draft.comment}
+                onChangeText={(text) => setDraft({ ...draft, comment: text })}
+                placeholder={t('photo.enterDescription')}
+                maxLength={COMMENT_MAX_LENGTH}
+                multiline
+                accessibilityLabel={t('photo.description')}
+                testID={`failed-upload-comment-${item.id}`}
+              />
+            </View>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => handleDiscard(item)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('camera.discardUpload')}
+              testID={`failed-upload-discard-${item.id}`}
+            >
+              <Text style={styles.discardButtonText}>{t('camera.discardUpload')}</Text>
+            </TouchableOpacity>
+            {isEditing ? (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setDraft(null)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={t('common.cancel')}
+              >
+                <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() =>
+                  setDraft({
+                    id: item.id,
+                    title: item.metadata.title ?? '',
+                    comment: item.metadata.comment ?? '',
+                  })
+                }
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={t('camera.editAndRetry')}
+                testID={`failed-upload-edit-${item.id}`}
+              >
+                <Text style={styles.secondaryButtonText}>{t('common.edit')}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={() => handleRetry(item)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('camera.retryUpload')}
+              testID={`failed-upload-retry-${item.id}`}
+            >
+              <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    },
+    [t, draft, handleRetry, handleDiscard]
+  );
+
+  const renderEmptyState = useCallback(
+    () => (
+      <View
+        style={styles.centerContainer}
+        accessible={true}
+        accessibilityLabel={createScreenReaderAnnouncement(
+          t('camera.noFailedUploads'),
+          t('camera.noFailedUploadsDesc')
+        )}
+        testID="failed-uploads-empty"
+      >
+        <Ionicons name="cloud-done-outline" size={48} color={accessibleColors.textSecondary} />
+        <Text style={styles.emptyTitle}>{t('camera.noFailedUploads')}</Text>
+        <Text style={styles.emptyDescription}>{t('camera.noFailedUploadsDesc')}</Text>
+      </View>
+    ),
+    [t]
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="failed-uploads-screen">
+      <FlatList
+        data={failedUploads}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        extraData={draft}
+        ListEmptyComponent={renderEmptyState}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        contentContainerStyle={failedUploads.length === 0 ? styles.listContentEmpty : undefined}
+        keyboardShouldPersistTaps="handled"
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  uploadInfo: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: '#E0E0E0',
+  },
+  uploadText: {
+    flex: 1,
+  },
+  uploadTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  reason: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: accessibleColors.error,
+    marginTop: 2,
+  },
+  errorMessage: {
+    fontSize: 13,
+    color: accessibleColors.textSecondary,
+    marginTop: 2,
+  },
+  editForm: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: accessibleColors.textPrimary,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    marginBottom: 8,
+  },
+  commentInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.primary,
+  },
+  discardButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.error,
+  },
+  retryButton: {
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: 22,
+    backgroundColor: accessibleColors.primary,
+    marginLeft: 8,
+  },
+  retryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#E0E0E0',
+    marginLeft: 84,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
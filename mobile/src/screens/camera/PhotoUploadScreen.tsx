@@ -10,7 +10,7 @@
  * - Error handling (AC-2.8)
  */
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 
 import {
   StyleSheet,
@@ -25,20 +25,23 @@ import {
   Platform,
 } from 'react-native';
 
-import NetInfo from '@react-native-community/netinfo';
 import { Image } from 'expo-image';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { LocationPicker } from '../../components/photo';
+import { useNetworkState } from '../../hooks/useNetworkState';
 import {
-  uploadPhoto,
+  compressPhoto,
+  uploadPhotoResumable,
   prepareUploadRequest,
+  isUploadCanceled,
+  classifyUploadError,
+  getUploadErrorMessage,
 } from '../../services/photoService';
-import { useUploadQueueStore } from '../../store';
-import { isE2ETestMode } from '../../utils/testMode';
+import { useUploadQueueStore, type UploadCheckpoint } from '../../store';
 
 import type { PhotoUploadScreenProps } from '../../types/navigation';
-import type { Location, PhotoUploadMetadata } from '../../types/photo';
+import type { CapturedPhoto, Location, PhotoUploadMetadata } from '../../types/photo';
 
 // Character limits as per AC-3.1
 const TITLE_MAX_LENGTH = 100;
@@ -69,27 +72,20 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
   // Upload state
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Last acknowledged chunk, so retries and the offline queue resume the upload
+  const checkpointRef = useRef<UploadCheckpoint | undefined>(undefined);
+  // Compressed file, reused by retries so a resumed upload continues the same bytes
+  const compressedUriRef = useRef<string | null>(null);
 
   // Network state
-  const [isOnline, setIsOnline] = useState(true);
+  const { isOnline, networkState } = useNetworkState();
 
   // Upload queue
   const addToQueue = useUploadQueueStore((state) => state.addToQueue);
 
-  // Check network status on mount
-  useEffect(() => {
-    const checkNetwork = async () => {
-      const state = await NetInfo.fetch();
-      setIsOnline(state.isConnected ?? true);
-    };
-    checkNetwork();
-
-    const unsubscribe = NetInfo.addEventListener((state) => {
-      setIsOnline(state.isConnected ?? true);
-    });
-
-    return () => unsubscribe();
-  }, []);
+  // Abort an upload still in flight when leaving the screen
+  useEffect(() => () => uploadAbortRef.current?.abort(), []);
 
   // Calculate remaining characters
   const titleRemaining = TITLE_MAX_LENGTH - title.length;
@@ -156,6 +152,28 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
     };
   }, [title, comment, location, timestamp]);
 
+  /**
+   * Compress the photo for upload, once: retries reuse the same file.
+   * Cellular connections get a smaller byte budget.
+   * Requirements: FR-2 (AC-2.5, AC-2.9)
+   */
+  const preparePhoto = useCallback(async (): Promise<CapturedPhoto> => {
+    const photo: CapturedPhoto = { uri: photoUri, width, height, location, timestamp };
+    if (compressedUriRef.current) {
+      return { ...photo, uri: compressedUriRef.current };
+    }
+
+    try {
+      const compressed = await compressPhoto(photo, { isCellular: networkState.isCellular });
+      compressedUriRef.current = compressed.uri;
+      return compressed;
+    } catch (error) {
+      // Upload the original rather than nothing
+      console.warn('Photo compression failed:', error);
+      return photo;
+    }
+  }, [photoUri, width, height, location, timestamp, networkState.isCellular]);
+
   /**
    * Handle upload (direct or queued)
    * Requirements: FR-2 (AC-2.6, AC-2.7, AC-2.8)
@@ -173,9 +191,14 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
 
     const metadata = prepareMetadata();
 
+    setIsUploading(true);
+    setUploadProgress(0);
+    const photo = await preparePhoto();
+
     // If offline, add to queue (AC-2.7)
     if (!isOnline) {
-      addToQueue(photoUri, metadata);
+      setIsUploading(false);
+      addToQueue(photo.uri, metadata);
       Alert.alert(
         'Queued for Upload',
         'Your photo has been saved and will be uploaded when you are back online.',
@@ -185,37 +208,22 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
     }
 
     // Online upload
-    setIsUploading(true);
-    setUploadProgress(0);
-
-    // Check if in E2E test mode to skip progress simulation
-    const inTestMode = isE2ETestMode();
-    let progressInterval: ReturnType<typeof setInterval> | null = null;
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
 
     try {
-      // Simulate upload progress (skip in E2E test mode to prevent Detox sync issues)
-      if (!inTestMode) {
-        progressInterval = setInterval(() => {
-          setUploadProgress((prev) => Math.min(prev + 10, 90));
-        }, 200);
-      }
-
-      const request = prepareUploadRequest(
-        {
-          uri: photoUri,
-          width,
-          height,
-          location,
-          timestamp,
+      const request = prepareUploadRequest(photo, metadata);
+
+      await uploadPhotoResumable(request, {
+        uploadId: checkpointRef.current?.uploadId,
+        signal: controller.signal,
+        onProgress: ({ percent }) => setUploadProgress(percent),
+        onAcknowledged: (uploadId, receivedBytes) => {
+          checkpointRef.current = { uploadId, receivedBytes };
         },
-        metadata
-      );
-
-      await uploadPhoto(request);
+      });
+      checkpointRef.current = undefined;
 
-      if (progressInterval) {
-        clearInterval(progressInterval);
-      }
       setUploadProgress(100);
 
       // Success notification (AC-2.6)
@@ -225,52 +233,62 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
         [{ text: 'OK', onPress: () => navigation.goBack() }]
       );
     } catch (error) {
-      console.error('Upload error:', error);
       setUploadProgress(0);
 
-      // Check if it's a network error
-      const isNetworkError =
-        error instanceof Error &&
-        (error.message.includes('Network') || error.message.includes('network'));
+      // Canceled by the user: stay on the form so they can try again
+      if (isUploadCanceled(error)) {
+        return;
+      }
+
+      console.error('Upload error:', error);
+
+      const errorClass = classifyUploadError(error);
 
-      if (isNetworkError) {
-        // Add to queue on network error (AC-2.7)
-        addToQueue(photoUri, metadata);
+      if (errorClass === 'network') {
+        // Add to queue on network error, keeping the sent chunks (AC-2.7)
+        addToQueue(photo.uri, metadata, checkpointRef.current);
         Alert.alert(
           'Network Error',
           'Upload failed due to network issues. Your photo has been queued and will upload automatically when connected.',
           [{ text: 'OK', onPress: () => navigation.goBack() }]
         );
+      } else if (errorClass === 'validation') {
+        // Rejected by the server: retrying unchanged cannot succeed (AC-2.8)
+        Alert.alert(
+          'Upload Rejected',
+          `${getUploadErrorMessage(error)}\n\nPlease correct the details and try again.`
+        );
       } else {
         // Server error - allow manual retry (AC-2.8)
-        const errorMessage =
-          error instanceof Error ? error.message : 'An unknown error occurred';
+        const errorMessage = getUploadErrorMessage(error);
         Alert.alert('Upload Failed', `${errorMessage}\n\nPlease try again.`, [
           { text: 'Cancel', style: 'cancel' },
           { text: 'Retry', onPress: handleUpload },
         ]);
       }
     } finally {
+      uploadAbortRef.current = null;
       setIsUploading(false);
     }
   }, [
     isTitleValid,
     isCommentValid,
     prepareMetadata,
+    preparePhoto,
     isOnline,
     addToQueue,
-    photoUri,
     navigation,
-    width,
-    height,
-    location,
-    timestamp,
   ]);
 
   /**
-   * Handle cancel
+   * Handle cancel: aborts an upload in flight, otherwise leaves the screen
    */
   const handleCancel = useCallback(() => {
+    if (uploadAbortRef.current) {
+      uploadAbortRef.current.abort();
+      return;
+    }
+
     if (title || comment) {
       Alert.alert(
         'Discard Changes?',
@@ -321,6 +339,16 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
                 <Text style={styles.uploadProgressText}>
                   Uploading... {uploadProgress}%
                 </Text>
+                <View
+                  style={styles.uploadProgressTrack}
+                  accessible={true}
+                  accessibilityRole="progressbar"
+                  accessibilityLabel="Upload progress"
+                  accessibilityValue={{ min: 0, max: 100, now: uploadProgress }}
+                  testID="upload-progress-bar"
+                >
+                  <View style={[styles.uploadProgressFill, { width: `${uploadProgress}%` }]} />
+                </View>
               </View>
             )}
           </View>
@@ -463,7 +491,6 @@ export const PhotoUploadScreen: React.FC<PhotoUploadScreenProps> = ({
           <TouchableOpacity
             style={styles.cancelButton}
             onPress={handleCancel}
-            disabled={isUploading}
             accessibilityRole="button"
             accessibilityLabel="Cancel upload"
             testID="upload-cancel-button"
@@ -537,6 +564,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  uploadProgressTrack: {
+    width: '60%',
+    height: 4,
+    marginTop: 12,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+    overflow: 'hidden',
+  },
+  uploadProgressFill: {
+    height: '100%',
+    backgroundColor: '#fff',
+  },
   form: {
     padding: 20,
   },
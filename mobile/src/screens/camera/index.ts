@@ -4,3 +4,4 @@
 
 export { CameraScreen } from './CameraScreen';
 export { PhotoUploadScreen } from './PhotoUploadScreen';
+export { FailedUploadsScreen } from './FailedUploadsScreen';
@@ -6,6 +6,7 @@
  * - Keyword search with debounce (300ms)
  * - Location and date range filters
  * - Pull-to-refresh
+ * - "N new photos" pill for live uploads matching the current filters
  * - Empty state and error handling with retry
  *
  * Accessibility features (WCAG 2.1 AA):
@@ -17,7 +18,7 @@
  * Requirements: FR-4 (AC-4.1 to AC-4.8)
  */
 
-import React, { useState, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 
 import {
   StyleSheet,
@@ -37,7 +38,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import Slider from '@react-native-community/slider';
-import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
 import { useTranslation } from 'react-i18next';
@@ -45,11 +46,15 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { PhotoCard } from '../../components/feed';
 import { Button } from '../../components/ui/Button';
+import { useOpenUserProfile } from '../../hooks/useOpenUserProfile';
+import { subscribeToPhotoFeed } from '../../services/cableService';
 import { getPhotos } from '../../services/photoService';
+import { useBlockedUserIds } from '../../store/blockStore';
 import { MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
+import { matchesPhotoFilters, mergeNewPhotos, photoFromFeedMessage } from '../../utils/liveFeed';
 
 import type { FeedScreenProps } from '../../types/navigation';
-import type { Photo, PhotoFilters, PhotoListResponse } from '../../types/photo';
+import type { Photo, PhotoFilters, PhotoListResponse, PhotoUser } from '../../types/photo';
 
 // Constants
 const ITEMS_PER_PAGE = 20;
@@ -95,6 +100,8 @@ const hasActiveFilters = (filters: FilterState): boolean => {
 
 export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
   const { t } = useTranslation();
+  const { openUserProfile } = useOpenUserProfile();
+  const blockedUserIds = useBlockedUserIds();
 
   // Search state
   const [searchText, setSearchText] = useState('');
@@ -110,6 +117,10 @@ export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
 
+  // Live uploads waiting to be shown
+  const [pendingPhotos, setPendingPhotos] = useState<Photo[]>([]);
+  const listRef = useRef<FlatList<Photo>>(null);
+
   // Query client for refresh
   const queryClient = useQueryClient();
 
@@ -185,11 +196,62 @@ export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
     initialPageParam: 1,
   });
 
-  // Flatten pages into single array
+  // Flatten pages into single array, hiding photos from blocked users.
+  // Photos merged from the live feed shift server pages, so later pages may
+  // repeat them.
   const photos = useMemo(() => {
     if (!data?.pages) return [];
-    return data.pages.flatMap((page) => page.data);
-  }, [data]);
+    const seen = new Set<string>();
+    return data.pages
+      .flatMap((page) => page.data)
+      .filter((photo) => {
+        if (seen.has(photo.id) || blockedUserIds.has(photo.user.id)) return false;
+        seen.add(photo.id);
+        return true;
+      });
+  }, [data, blockedUserIds]);
+
+  // Collect live uploads that match the current filters
+  const queryFiltersRef = useRef(queryFilters);
+  queryFiltersRef.current = queryFilters;
+
+  useEffect(() => {
+    setPendingPhotos([]);
+  }, [queryFilters]);
+
+  useEffect(() => {
+    return subscribeToPhotoFeed((message) => {
+      if (message.type !== 'new_photo') return;
+
+      const photo = photoFromFeedMessage(message);
+      if (!matchesPhotoFilters(photo, queryFiltersRef.current)) return;
+
+      setPendingPhotos((prev) =>
+        prev.some((pending) => pending.id === photo.id) ? prev : [photo, ...prev]
+      );
+    });
+  }, []);
+
+  const visiblePendingPhotos = useMemo(
+    () =>
+      pendingPhotos.filter(
+        (photo) =>
+          !blockedUserIds.has(photo.user.id) && !photos.some((shown) => shown.id === photo.id)
+      ),
+    [pendingPhotos, blockedUserIds, photos]
+  );
+
+  // Show pending uploads at the top without refetching loaded pages
+  const handleShowNewPhotos = useCallback(() => {
+    queryClient.setQueryData<InfiniteData<PhotoListResponse>>(['photos', queryFilters], (old) =>
+      old ? mergeNewPhotos(old, visiblePendingPhotos) : old
+    );
+    setPendingPhotos([]);
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+    AccessibilityInfo.announceForAccessibility(
+      t('feed.newPhotosShown', { count: visiblePendingPhotos.length })
+    );
+  }, [queryClient, queryFilters, visiblePendingPhotos, t]);
 
   // Handle photo press - navigate to detail
   const handlePhotoPress = useCallback(
@@ -199,6 +261,14 @@ export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
     [navigation]
   );
 
+  // Handle photographer name press - open their profile
+  const handleUserPress = useCallback(
+    (user: PhotoUser) => {
+      openUserProfile(user.id, user.displayName);
+    },
+    [openUserProfile]
+  );
+
   // Handle load more (infinite scroll)
   const handleLoadMore = useCallback(() => {
     if (hasNextPage && !isFetchingNextPage) {
@@ -208,6 +278,7 @@ export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
 
   // Handle refresh
   const handleRefresh = useCallback(async () => {
+    setPendingPhotos([]);
     await queryClient.invalidateQueries({ queryKey: ['photos', queryFilters] });
     await refetch();
     AccessibilityInfo.announceForAccessibility(t('feed.refreshed'));
@@ -316,10 +387,11 @@ export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
       <PhotoCard
         photo={item}
         onPress={handlePhotoPress}
+        onUserPress={handleUserPress}
         testID={`photo-card-${item.id}`}
       />
     ),
-    [handlePhotoPress]
+    [handlePhotoPress, handleUserPress]
   );
 
   // Key extractor
@@ -503,37 +575,59 @@ export const FeedScreen: React.FC<FeedScreenProps> = ({ navigation }) => {
           <Text style={styles.loadingText}>写真を読み込み中...</Text>
         </View>
       ) : (
-        <FlatList
-          data={photos}
-          renderItem={renderPhotoCard}
-          keyExtractor={keyExtractor}
-          contentContainerStyle={[
-            styles.listContent,
-            photos.length === 0 && styles.listContentEmpty,
-          ]}
-          onEndReached={handleLoadMore}
-          onEndReachedThreshold={0.5}
-          ListFooterComponent={renderFooter}
-          ListEmptyComponent={renderEmptyState}
-          refreshControl={
-            <RefreshControl
-              refreshing={isRefetching}
-              onRefresh={handleRefresh}
-              tintColor="#3D7A8C"
-              title="更新中..."
-              titleColor="#6B6B6B"
-            />
-          }
-          showsVerticalScrollIndicator={false}
-          removeClippedSubviews={true}
-          maxToRenderPerBatch={10}
-          windowSize={10}
-          initialNumToRender={10}
-          accessible={true}
-          accessibilityLabel="虹の写真フィード"
-          accessibilityRole="list"
-          testID="photo-list"
-        />
+        <View style={styles.listContainer}>
+          <FlatList
+            ref={listRef}
+            data={photos}
+            renderItem={renderPhotoCard}
+            keyExtractor={keyExtractor}
+            contentContainerStyle={[
+              styles.listContent,
+              photos.length === 0 && styles.listContentEmpty,
+            ]}
+            onEndReached={handleLoadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={renderFooter}
+            ListEmptyComponent={renderEmptyState}
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefetching}
+                onRefresh={handleRefresh}
+                tintColor="#3D7A8C"
+                title="更新中..."
+                titleColor="#6B6B6B"
+              />
+            }
+            showsVerticalScrollIndicator={false}
+            removeClippedSubviews={true}
+            maxToRenderPerBatch={10}
+            windowSize={10}
+            initialNumToRender={10}
+            accessible={true}
+            accessibilityLabel="虹の写真フィード"
+            accessibilityRole="list"
+            testID="photo-list"
+          />
+
+          {/* New photos pill (live uploads) */}
+          {visiblePendingPhotos.length > 0 && (
+            <TouchableOpacity
+              style={styles.newPhotosPill}
+              onPress={handleShowNewPhotos}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={t('feed.newPhotos', { count: visiblePendingPhotos.length })}
+              accessibilityHint={t('feed.newPhotosHint')}
+              accessibilityLiveRegion="polite"
+              testID="new-photos-pill"
+            >
+              <Ionicons name="arrow-up" size={16} color="#FFFFFF" />
+              <Text style={styles.newPhotosPillText}>
+                {t('feed.newPhotos', { count: visiblePendingPhotos.length })}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
       )}
 
       {/* Filter Modal */}
@@ -844,6 +938,31 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
+  listContainer: {
+    flex: 1,
+  },
+  newPhotosPill: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    borderRadius: MIN_TOUCH_TARGET_SIZE / 2,
+    backgroundColor: '#3D7A8C',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  newPhotosPillText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   listContent: {
     paddingVertical: 8,
   },
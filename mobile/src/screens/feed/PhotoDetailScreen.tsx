@@ -2,8 +2,10 @@
  * PhotoDetailScreen - Photo details with weather info and social features
  *
  * Displays photo details including image, weather information, user info,
- * and social features (likes, comments, report). Enhanced with detailed
- * weather data, time-series charts, and radar viewer.
+ * and social features (likes, comments, report, block). Enhanced with detailed
+ * weather data, time-series charts, and radar viewer. Photos from blocked
+ * users are hidden. Like and comment counts update live via the ['photo', id]
+ * query (see useLiveSocialUpdates).
  *
  * Requirements: FR-8 (Social Features), FR-3 (AC-3.4), FR-13 (AC-13.3, AC-13.4)
  */
@@ -24,20 +26,25 @@ import {
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { LikeButton, CommentList, ReportModal } from '../../components/social';
 import { WeatherSummary, WeatherChart, RadarViewer } from '../../components/weather';
+import { useBlockUser } from '../../hooks/useBlockUser';
+import { useOpenUserProfile } from '../../hooks/useOpenUserProfile';
 import { apiClient } from '../../services/apiClient';
 import { getPhotoWeather } from '../../services/photoService';
+import { useBlockedUserIds } from '../../store/blockStore';
 import {
   accessibleColors,
   MIN_TOUCH_TARGET_SIZE,
 } from '../../utils/accessibility';
+import { updateCachedPhotoCounts } from '../../utils/liveFeed';
 
 import type { PhotoDetailScreenProps } from '../../types/navigation';
 import type { WeatherCondition, RadarData } from '../../types/photo';
-import type { PhotoWithSocial, ReportableType } from '../../types/social';
+import type { PhotoWithSocial, ReportableType, SocialUser } from '../../types/social';
 
 /** Raw photo detail response from the API (snake_case or camelCase) */
 interface RawPhotoDetail {
@@ -70,15 +77,67 @@ interface RawPhotoDetail {
 
 const screenHeight = Dimensions.get('window').height;
 
+/**
+ * Load a photo and normalize the API response
+ */
+const fetchPhotoDetail = async (photoId: string): Promise<PhotoWithSocial> => {
+  const response = await apiClient.get<{ data: RawPhotoDetail }>(`/photos/${photoId}`);
+  const data = response.data.data;
+
+  return {
+    id: data.id,
+    title: data.title,
+    description: data.description,
+    capturedAt: data.capturedAt ?? data.captured_at ?? '',
+    location: data.location ? {
+      latitude: data.location.latitude,
+      longitude: data.location.longitude,
+      name: data.location.name,
+    } : null,
+    imageUrls: data.imageUrls ?? {
+      thumbnail: data.image_url ?? data.imageUrl ?? '',
+      medium: data.image_url ?? data.imageUrl ?? '',
+    },
+    createdAt: data.createdAt ?? data.created_at ?? '',
+    user: {
+      id: data.user.id,
+      displayName: data.user.displayName ?? data.user.display_name ?? '',
+    },
+    likeCount: data.likeCount ?? data.like_count ?? 0,
+    commentCount: data.commentCount ?? data.comment_count ?? 0,
+    likedByCurrentUser: data.likedByCurrentUser ?? data.is_liked ?? false,
+    isOwner: data.isOwner ?? data.is_own ?? false,
+    weatherSummary: data.weatherSummary
+      ? {
+          temperature: data.weatherSummary.temperature,
+          humidity: data.weatherSummary.humidity,
+          weatherDescription: data.weatherSummary.weatherDescription,
+        }
+      : undefined,
+  };
+};
+
 export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
   route,
 }) => {
   const { photoId } = route.params;
+  const { openUserProfile } = useOpenUserProfile();
+  const { confirmBlockUser } = useBlockUser();
+  const blockedUserIds = useBlockedUserIds();
+
+  const queryClient = useQueryClient();
+
+  const {
+    data: photo,
+    isLoading,
+    error,
+    refetch: refetchPhoto,
+  } = useQuery<PhotoWithSocial>({
+    queryKey: ['photo', photoId],
+    queryFn: () => fetchPhotoDetail(photoId),
+  });
 
-  const [photo, setPhoto] = useState<PhotoWithSocial | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [showComments, setShowComments] = useState(false);
 
   // Weather data state
@@ -97,64 +156,6 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
     id: string;
   } | null>(null);
 
-  // Load photo data
-  const loadPhoto = useCallback(
-    async (refresh = false) => {
-      try {
-        if (refresh) {
-          setIsRefreshing(true);
-        } else {
-          setIsLoading(true);
-        }
-        setError(null);
-
-        const response = await apiClient.get<{ data: RawPhotoDetail }>(
-          `/photos/${photoId}`
-        );
-        const data = response.data.data;
-
-        setPhoto({
-          id: data.id,
-          title: data.title,
-          description: data.description,
-          capturedAt: data.capturedAt ?? data.captured_at ?? '',
-          location: data.location ? {
-            latitude: data.location.latitude,
-            longitude: data.location.longitude,
-            name: data.location.name,
-          } : null,
-          imageUrls: data.imageUrls ?? {
-            thumbnail: data.image_url ?? data.imageUrl ?? '',
-            medium: data.image_url ?? data.imageUrl ?? '',
-          },
-          createdAt: data.createdAt ?? data.created_at ?? '',
-          user: {
-            id: data.user.id,
-            displayName: data.user.displayName ?? data.user.display_name ?? '',
-          },
-          likeCount: data.likeCount ?? data.like_count ?? 0,
-          commentCount: data.commentCount ?? data.comment_count ?? 0,
-          likedByCurrentUser: data.likedByCurrentUser ?? data.is_liked ?? false,
-          isOwner: data.isOwner ?? data.is_own ?? false,
-          weatherSummary: data.weatherSummary
-            ? {
-                temperature: data.weatherSummary.temperature,
-                humidity: data.weatherSummary.humidity,
-                weatherDescription: data.weatherSummary.weatherDescription,
-              }
-            : undefined,
-        });
-      } catch (err) {
-        setError('Failed to load photo');
-        console.error('Failed to load photo:', err);
-      } finally {
-        setIsLoading(false);
-        setIsRefreshing(false);
-      }
-    },
-    [photoId]
-  );
-
   // Load weather data
   const loadWeatherData = useCallback(async () => {
     try {
@@ -172,21 +173,36 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
     }
   }, [photoId]);
 
-  // Initial load
+  // Initial load (the photo itself is loaded by useQuery)
   useEffect(() => {
-    loadPhoto();
     loadWeatherData();
-  }, [loadPhoto, loadWeatherData]);
-
-  // Handle like change
-  const handleLikeChange = useCallback((liked: boolean, likeCount: number) => {
-    setPhoto((prev) => (prev ? { ...prev, isLiked: liked, likeCount } : null));
-  }, []);
+  }, [loadWeatherData]);
+
+  // Pull to refresh
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await Promise.all([refetchPhoto(), loadWeatherData()]);
+    setIsRefreshing(false);
+  }, [refetchPhoto, loadWeatherData]);
+
+  // Handle like change (counts are shared with the feed and profile grids)
+  const handleLikeChange = useCallback(
+    (liked: boolean, likeCount: number) => {
+      queryClient.setQueryData<PhotoWithSocial>(['photo', photoId], (prev) =>
+        prev ? { ...prev, likedByCurrentUser: liked } : prev
+      );
+      updateCachedPhotoCounts(queryClient, photoId, { likeCount });
+    },
+    [queryClient, photoId]
+  );
 
   // Handle comment count change
-  const handleCommentCountChange = useCallback((count: number) => {
-    setPhoto((prev) => (prev ? { ...prev, commentCount: count } : null));
-  }, []);
+  const handleCommentCountChange = useCallback(
+    (count: number) => {
+      updateCachedPhotoCounts(queryClient, photoId, { commentCount: count });
+    },
+    [queryClient, photoId]
+  );
 
   // Handle report press
   const handleReportPress = useCallback((type: ReportableType, id: string) => {
@@ -194,6 +210,22 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
     setReportModalVisible(true);
   }, []);
 
+  // Open the profile of the photographer or a commenter
+  const handleUserPress = useCallback(
+    (user: SocialUser) => {
+      openUserProfile(user.id, user.displayName);
+    },
+    [openUserProfile]
+  );
+
+  // Block the photographer or a commenter (their content is hidden once blocked)
+  const handleBlockUser = useCallback(
+    (user: SocialUser) => {
+      confirmBlockUser(user);
+    },
+    [confirmBlockUser]
+  );
+
   // Handle show weather details
   const handleShowWeatherDetails = useCallback(() => {
     setShowWeatherDetailModal(true);
@@ -239,8 +271,8 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
     return (
       <SafeAreaView style={styles.container} edges={['bottom']}>
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error || 'Photo not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={() => loadPhoto()}>
+          <Text style={styles.errorText}>{error ? 'Failed to load photo' : 'Photo not found'}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => refetchPhoto()}>
             <Text style={styles.retryText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -248,6 +280,18 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
     );
   }
 
+  // Blocked photographer
+  if (blockedUserIds.has(photo.user.id)) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.errorContainer} testID="photo-detail-blocked">
+          <Ionicons name="eye-off-outline" size={40} color={accessibleColors.textSecondary} />
+          <Text style={styles.blockedText}>This photo is from a user you blocked</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   // Comments view
   if (showComments) {
     return (
@@ -266,8 +310,11 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
         </View>
         <CommentList
           photoId={photoId}
+          commentCount={photo.commentCount}
           onCommentCountChange={handleCommentCountChange}
           onReportPress={handleReportPress}
+          onUserPress={handleUserPress}
+          onBlockUser={handleBlockUser}
         />
         <ReportModal
           visible={reportModalVisible}
@@ -286,10 +333,7 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
-            onRefresh={() => {
-              loadPhoto(true);
-              loadWeatherData();
-            }}
+            onRefresh={handleRefresh}
             colors={['#4A90A4']}
           />
         }
@@ -358,6 +402,20 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
                 <Text style={styles.socialButtonText}>Report</Text>
               </TouchableOpacity>
             )}
+
+            {!photo.isOwner && (
+              <TouchableOpacity
+                style={styles.socialButton}
+                onPress={() => handleBlockUser(photo.user)}
+                accessible={true}
+                accessibilityLabel={`Block ${photo.user.displayName}`}
+                accessibilityRole="button"
+                testID="photo-detail-block"
+              >
+                <Ionicons name="ban-outline" size={18} color={accessibleColors.textSecondary} />
+                <Text style={styles.socialButtonText}>Block</Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Weather Summary (AC-13.3) */}
@@ -383,6 +441,7 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
           ) : (
             <WeatherSummary
               weatherCondition={getLatestWeatherCondition()}
+              location={photo.location ?? undefined}
               onShowDetails={
                 weatherConditions && weatherConditions.length > 0
                   ? handleShowWeatherDetails
@@ -428,7 +487,14 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
           {/* User Info */}
           <View style={styles.userSection}>
             <Text style={styles.sectionTitle}>Photographer</Text>
-            <View style={styles.userInfo}>
+            <TouchableOpacity
+              style={styles.userInfo}
+              onPress={() => handleUserPress(photo.user)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={`View ${photo.user.displayName}'s profile`}
+              testID="photo-detail-user"
+            >
               <View style={styles.userAvatar}>
                 <Text style={styles.userAvatarText}>
                   {photo.user.displayName.charAt(0).toUpperCase()}
@@ -440,7 +506,8 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
                   <Text style={styles.ownBadgeText}>Your Post</Text>
                 </View>
               )}
-            </View>
+              <Ionicons name="chevron-forward" size={20} color={accessibleColors.textSecondary} />
+            </TouchableOpacity>
           </View>
         </View>
       </ScrollView>
@@ -474,6 +541,14 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
             {weatherConditions && weatherConditions.length > 0 && (
               <>
                 <Text style={styles.modalSectionTitle}>Time Series Data</Text>
+                <WeatherChart
+                  weatherConditions={weatherConditions}
+                  metric="humidity"
+                  overlayMetrics={['cloudCover', 'precipitation']}
+                  capturedAt={photo.capturedAt}
+                  title="Rainbow Conditions"
+                  testID="conditions-chart"
+                />
                 <WeatherChart
                   weatherConditions={weatherConditions}
                   metric="temperature"
@@ -504,9 +579,10 @@ export const PhotoDetailScreen: React.FC<PhotoDetailScreenProps> = ({
             {/* Radar Viewer */}
             {radarData && radarData.length > 0 && (
               <>
-                <Text style={styles.modalSectionTitle}>Radar Images</Text>
+                <Text style={styles.modalSectionTitle}>Rain Radar</Text>
                 <RadarViewer
                   radarData={radarData}
+                  location={photo.location ?? undefined}
                   testID="radar-viewer"
                 />
               </>
@@ -565,6 +641,12 @@ const styles = StyleSheet.create({
     color: accessibleColors.error,
     marginBottom: 12,
   },
+  blockedText: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
   retryButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -706,6 +788,7 @@ const styles = StyleSheet.create({
   userInfo: {
     flexDirection: 'row',
     alignItems: 'center',
+    minHeight: MIN_TOUCH_TARGET_SIZE,
   },
   userAvatar: {
     width: 40,
@@ -731,6 +814,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderRadius: 4,
+    marginRight: 8,
   },
   ownBadgeText: {
     fontSize: 12,
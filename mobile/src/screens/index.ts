@@ -14,6 +14,9 @@ export * from './map';
 // Camera screens
 export * from './camera';
 
+// Notification screens
+export * from './notifications';
+
 // Profile screens
 export * from './profile';
 
@@ -22,3 +25,6 @@ export * from './settings';
 
 // Onboarding screens
 export * from './onboarding';
+
+// Admin screens
+export * from './admin';
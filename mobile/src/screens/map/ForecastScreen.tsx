@@ -0,0 +1,390 @@
+/**
+ * ForecastScreen - Rainbow chances over the next few hours
+ *
+ * Fetches the hourly forecast for the user's location (Shiojiri when the
+ * location is unavailable), scores each 10-minute slot for rain opposite
+ * the sun, clearing toward the sun and the sun's altitude, and shows:
+ * - The best windows with the direction to face
+ * - A timeline of slot scores
+ * - The forecast cloud cover (WeatherChart)
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Screen reader summary for the timeline
+ * - Each window announced with its time, chance and direction
+ *
+ * Requirements: FR-13
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Button } from '../../components/ui/Button';
+import { WeatherChart } from '../../components/weather/WeatherChart';
+import { SHIOJIRI_LOCATION } from '../../services/mapService';
+import { getCurrentLocation } from '../../services/photoService';
+import { fetchWeatherForecast } from '../../services/weatherService';
+import { accessibleColors, createScreenReaderAnnouncement } from '../../utils/accessibility';
+import {
+  GOOD_SLOT_SCORE,
+  buildForecastSlots,
+  getForecastWindows,
+  type ForecastSlot,
+  type ForecastWindow,
+} from '../../utils/rainbowForecast';
+import { getCardinalDirection } from '../../utils/rainbowGeometry';
+
+import type { ForecastScreenProps } from '../../types/navigation';
+
+// ============================================
+// Constants
+// ============================================
+
+const FORECAST_HOURS = 6;
+const TIMELINE_BAR_WIDTH = 10;
+const TIMELINE_BAR_GAP = 2;
+const TIMELINE_HEIGHT = 80;
+
+interface ForecastLocation {
+  latitude: number;
+  longitude: number;
+  /** Shiojiri used because the device location is unavailable */
+  isDefault: boolean;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Bar color for a slot score
+ */
+const getScoreColor = (score: number): string => {
+  if (score >= GOOD_SLOT_SCORE) {
+    return accessibleColors.success;
+  }
+  return score > 0 ? accessibleColors.warning : '#E0E0E0';
+};
+
+// ============================================
+// Component
+// ============================================
+
+export const ForecastScreen: React.FC<ForecastScreenProps> = () => {
+  const { t } = useTranslation();
+  const [location, setLocation] = useState<ForecastLocation | null>(null);
+
+  // Resolve the location once; the forecast covers a wide enough area
+  useEffect(() => {
+    let isMounted = true;
+
+    const resolveLocation = async () => {
+      const current = await getCurrentLocation();
+      if (!isMounted) return;
+      setLocation(
+        current
+          ? { latitude: current.latitude, longitude: current.longitude, isDefault: false }
+          : { ...SHIOJIRI_LOCATION, isDefault: true }
+      );
+    };
+
+    resolveLocation();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const {
+    data: forecast,
+    isLoading,
+    isRefetching,
+    error,
+    refetch,
+    dataUpdatedAt,
+  } = useQuery({
+    queryKey: ['weatherForecast', location?.latitude, location?.longitude],
+    queryFn: () => fetchWeatherForecast(location!.latitude, location!.longitude, FORECAST_HOURS),
+    enabled: location !== null,
+  });
+
+  const slots = useMemo<ForecastSlot[]>(
+    () =>
+      forecast && location
+        ? buildForecastSlots(
+            new Date(dataUpdatedAt),
+            FORECAST_HOURS,
+            location,
+            forecast.weatherConditions,
+            forecast.radarData
+          )
+        : [],
+    [forecast, location, dataUpdatedAt]
+  );
+
+  const windows = useMemo(() => getForecastWindows(slots), [slots]);
+
+  const describeWindow = (window: ForecastWindow) => ({
+    time: t('forecast.windowTime', {
+      start: format(window.start, 'HH:mm'),
+      end: format(window.end, 'HH:mm'),
+    }),
+    chance: t('forecast.chance', { score: window.peakScore }),
+    direction: t('forecast.faceDirection', {
+      direction: getCardinalDirection(window.rainbowAzimuth),
+      azimuth: Math.round(window.rainbowAzimuth),
+    }),
+  });
+
+  if (!location || isLoading) {
+    return (
+      <View
+        style={styles.centerContainer}
+        accessible={true}
+        accessibilityRole="progressbar"
+        accessibilityLabel={t('common.loading')}
+      >
+        <ActivityIndicator size="large" color={accessibleColors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !forecast) {
+    return (
+      <View style={styles.centerContainer} accessible={true} accessibilityRole="alert">
+        <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+        <Text style={styles.errorText}>{t('forecast.loadError')}</Text>
+        <Button
+          title={t('common.retry')}
+          onPress={() => refetch()}
+          variant="outline"
+          style={styles.retryButton}
+          testID="forecast-retry"
+        />
+      </View>
+    );
+  }
+
+  const bestScore = slots.reduce((best, slot) => Math.max(best, slot.score), 0);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="forecast-screen">
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={refetch}
+            tintColor={accessibleColors.primary}
+          />
+        }
+      >
+        {location.isDefault && (
+          <View style={styles.notice} accessible={true} testID="forecast-default-location">
+            <Ionicons name="location-outline" size={16} color={accessibleColors.textSecondary} />
+            <Text style={styles.noticeText}>{t('forecast.defaultLocation')}</Text>
+          </View>
+        )}
+
+        {/* Best windows */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t('forecast.bestWindows')}
+        </Text>
+        {windows.length === 0 ? (
+          <View style={styles.card} accessible={true} testID="forecast-no-windows">
+            <Text style={styles.emptyTitle}>{t('forecast.noWindows')}</Text>
+            <Text style={styles.emptyText}>{t('forecast.noWindowsDesc')}</Text>
+          </View>
+        ) : (
+          windows.map((window) => {
+            const { time, chance, direction } = describeWindow(window);
+            return (
+              <View
+                key={window.start.toISOString()}
+                style={styles.card}
+                accessible={true}
+                accessibilityLabel={createScreenReaderAnnouncement(time, chance, direction)}
+                testID={`forecast-window-${format(window.start, 'HHmm')}`}
+              >
+                <View style={styles.windowHeader}>
+                  <Text style={styles.windowTime}>{time}</Text>
+                  <Text style={styles.windowChance}>{chance}</Text>
+                </View>
+                <View style={styles.windowDirection}>
+                  <Ionicons name="compass-outline" size={16} color={accessibleColors.primary} />
+                  <Text style={styles.windowDirectionText}>{direction}</Text>
+                </View>
+              </View>
+            );
+          })
+        )}
+
+        {/* Timeline */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t('forecast.timeline')}
+        </Text>
+        <View
+          style={styles.card}
+          accessible={true}
+          accessibilityLabel={t('forecast.timelineSummary', {
+            hours: FORECAST_HOURS,
+            windows: windows.length,
+            score: bestScore,
+          })}
+          testID="forecast-timeline"
+        >
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+              <View style={styles.timelineBars}>
+                {slots.map((slot) => (
+                  <View
+                    key={slot.time.toISOString()}
+                    style={[
+                      styles.timelineBar,
+                      {
+                        height: Math.max(2, (slot.score / 100) * TIMELINE_HEIGHT),
+                        backgroundColor: getScoreColor(slot.score),
+                      },
+                    ]}
+                  />
+                ))}
+              </View>
+              <View style={styles.timelineLabels}>
+                {slots.map((slot) => (
+                  <Text key={slot.time.toISOString()} style={styles.timelineLabel}>
+                    {slot.time.getMinutes() === 0 ? format(slot.time, 'H:mm') : ''}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+        </View>
+
+        {/* Forecast weather */}
+        <WeatherChart
+          weatherConditions={forecast.weatherConditions}
+          metric="cloudCover"
+          testID="forecast-cloud-chart"
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  noticeText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: accessibleColors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: accessibleColors.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  emptyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: accessibleColors.textMuted,
+    marginTop: 4,
+  },
+  windowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  windowTime: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  windowChance: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.success,
+  },
+  windowDirection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  windowDirectionText: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+  },
+  timelineBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: TIMELINE_HEIGHT,
+    gap: TIMELINE_BAR_GAP,
+  },
+  timelineBar: {
+    width: TIMELINE_BAR_WIDTH,
+    borderRadius: 2,
+  },
+  timelineLabels: {
+    flexDirection: 'row',
+    gap: TIMELINE_BAR_GAP,
+    marginTop: 4,
+  },
+  timelineLabel: {
+    width: TIMELINE_BAR_WIDTH,
+    fontSize: 10,
+    color: accessibleColors.textMuted,
+    overflow: 'visible',
+  },
+});
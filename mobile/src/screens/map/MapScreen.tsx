@@ -20,9 +20,15 @@
  * - AC-5.6: Display cached markers when offline
  * - AC-13.5: Display heatmap of rainbow sighting frequency
  * - AC-13.6: Display region statistics on tap
+ *
+ * Opening the map from a rainbow alert notification (route param `focus`)
+ * centres it on the alert location and shows the direction and probability.
+ *
+ * Photos posted while the map is open (feed and Rainbow Moment channels) are
+ * added as markers, highlighted as "live" until the moment is archived.
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import {
   StyleSheet,
@@ -38,7 +44,7 @@ import { Ionicons } from '@expo/vector-icons';
 import NetInfo from '@react-native-community/netinfo';
 import * as Location from 'expo-location';
 import { useTranslation } from 'react-i18next';
-import MapView from 'react-native-maps';
+import MapView, { Marker } from 'react-native-maps';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import {
@@ -48,6 +54,7 @@ import {
   RegionStatsModal,
   RainbowMomentOverlay,
 } from '../../components/map';
+import { subscribeToPhotoFeed } from '../../services/cableService';
 import {
   type MapMarker,
   type MapRegion,
@@ -55,6 +62,7 @@ import {
   type RegionStats,
   getMarkers,
   getCachedMarkers,
+  addMarkersToCache,
   regionToBounds,
   saveLastRegion,
   getLastRegion,
@@ -64,13 +72,26 @@ import {
   DEFAULT_REGION,
 } from '../../services/mapService';
 import { fetchActiveMoments } from '../../services/rainbowMomentService';
-import { useRainbowMomentStore } from '../../store/rainbowMomentStore';
+import { useBlockedUserIds } from '../../store/blockStore';
+import {
+  useActiveMoment,
+  useLivePhotos,
+  useRainbowMomentStore,
+} from '../../store/rainbowMomentStore';
 import {
   accessibleColors,
   MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
 } from '../../utils/accessibility';
+import {
+  addLiveMarker,
+  markerFromFeedMessage,
+  markerFromMomentPhoto,
+  mergeLiveMarkers,
+  type LiveMapMarker,
+} from '../../utils/liveMarkers';
 
-import type { MapScreenProps } from '../../types/navigation';
+import type { MapFocusTarget, MapScreenProps } from '../../types/navigation';
 
 // ============================================
 // Types
@@ -100,11 +121,21 @@ interface RegionStatsState {
   lastCoordinate: { latitude: number; longitude: number } | null;
 }
 
+// ============================================
+// Constants
+// ============================================
+
+/**
+ * react-native-map-clustering leaves children with cluster={false} out of
+ * clusters; the prop is not part of react-native-maps' Marker typings
+ */
+const UNCLUSTERED_MARKER_PROPS = { cluster: false } as object;
+
 // ============================================
 // Component
 // ============================================
 
-export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
+export const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
   const { t } = useTranslation();
   const mapRef = useRef<MapView | null>(null);
 
@@ -119,8 +150,32 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
   const [selectedMarker, setSelectedMarker] = useState<MapMarker | null>(null);
   const [isPreviewVisible, setIsPreviewVisible] = useState(false);
   const [currentRegion, setCurrentRegion] = useState<MapRegion>(DEFAULT_REGION);
+
+  // Photos received in real time, highlighted while their Rainbow Moment runs
+  const [liveMarkers, setLiveMarkers] = useState<LiveMapMarker[]>([]);
+  const liveMarkerIdsRef = useRef(new Set<string>());
+  const activeMoment = useActiveMoment();
+  const livePhotos = useLivePhotos();
+  const liveMomentId =
+    activeMoment && activeMoment.status !== 'archived' ? activeMoment.id : null;
+  const liveMomentIdRef = useRef(liveMomentId);
+  liveMomentIdRef.current = liveMomentId;
+
+  // Hide markers for photos from blocked users
+  const blockedUserIds = useBlockedUserIds();
+  const visibleMarkers = useMemo(
+    () =>
+      mergeLiveMarkers(state.markers, liveMarkers, liveMomentId).filter(
+        (marker) => !marker.userId || !blockedUserIds.has(marker.userId)
+      ),
+    [state.markers, liveMarkers, liveMomentId, blockedUserIds]
+  );
   const [isInitialized, setIsInitialized] = useState(false);
 
+  // Rainbow alert opened from a notification - FR-7 (AC-7.1)
+  const [alertFocus, setAlertFocus] = useState<MapFocusTarget | null>(null);
+  const focusTarget = route.params?.focus;
+
   // Heatmap state - FR-13 (AC-13.5)
   const [heatmapState, setHeatmapState] = useState<HeatmapState>({
     points: [],
@@ -274,6 +329,85 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
     loadActiveMoment();
   }, []);
 
+  /**
+   * Add photos received in real time to the map and, in one write, the offline cache
+   */
+  const addLivePhotoMarkers = useCallback((markers: MapMarker[]) => {
+    const newMarkers = markers.filter((marker) => !liveMarkerIdsRef.current.has(marker.id));
+    if (newMarkers.length === 0) {
+      return;
+    }
+    newMarkers.forEach((marker) => liveMarkerIdsRef.current.add(marker.id));
+
+    setLiveMarkers((prev) =>
+      newMarkers.reduce(
+        (current, marker) => addLiveMarker(current, marker, liveMomentIdRef.current),
+        prev
+      )
+    );
+    addMarkersToCache(newMarkers);
+  }, []);
+
+  // Photos streamed on the Rainbow Moment channel (oldest first)
+  useEffect(() => {
+    addLivePhotoMarkers([...livePhotos].reverse().map(markerFromMomentPhoto));
+  }, [livePhotos, addLivePhotoMarkers]);
+
+  // New photos from the global feed
+  useEffect(
+    () =>
+      subscribeToPhotoFeed((message) => {
+        const marker = markerFromFeedMessage(message);
+        if (marker) {
+          addLivePhotoMarkers([marker]);
+        }
+      }),
+    [addLivePhotoMarkers]
+  );
+
+  /**
+   * Centre on a rainbow alert location passed in from a notification.
+   * Each tap sets a new focus object (with its own requestedAt), so the
+   * same alert can be reopened after dismissing it.
+   * Requirements: FR-7 (AC-7.1)
+   */
+  useEffect(() => {
+    if (!isInitialized || !focusTarget) return;
+
+    setAlertFocus(focusTarget);
+    mapRef.current?.animateToRegion(
+      {
+        latitude: focusTarget.latitude,
+        longitude: focusTarget.longitude,
+        latitudeDelta: 0.05,
+        longitudeDelta: 0.05,
+      },
+      300
+    );
+
+    AccessibilityInfo.announceForAccessibility(
+      createScreenReaderAnnouncement(
+        t('map.rainbowAlertTitle'),
+        focusTarget.direction
+          ? t('map.rainbowAlertDirection', { direction: focusTarget.direction })
+          : undefined,
+        focusTarget.probability !== undefined
+          ? t('map.rainbowAlertProbability', {
+              percent: Math.round(focusTarget.probability * 100),
+            })
+          : undefined
+      )
+    );
+  }, [isInitialized, focusTarget, t]);
+
+  /**
+   * Dismiss the rainbow alert banner and marker
+   */
+  const handleDismissAlert = useCallback(() => {
+    setAlertFocus(null);
+    navigation.setParams({ focus: undefined });
+  }, [navigation]);
+
   /**
    * Load markers for the given region
    * Requirements: FR-5 (AC-5.1, AC-5.5)
@@ -624,6 +758,29 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
     AccessibilityInfo.announceForAccessibility(t('map.centeredOnShiojiri'));
   }, []);
 
+  /**
+   * Open sighting trends
+   * Requirements: FR-6 (AC-6.2)
+   */
+  const handleOpenTrends = useCallback(() => {
+    navigation.navigate('Trends');
+  }, [navigation]);
+
+  /**
+   * Open the rainbow forecast
+   * Requirements: FR-13
+   */
+  const handleOpenForecast = useCallback(() => {
+    navigation.navigate('Forecast');
+  }, [navigation]);
+
+  /**
+   * Open the Rainbow Moment archive
+   */
+  const handleOpenMomentArchive = useCallback(() => {
+    navigation.navigate('MomentArchive');
+  }, [navigation]);
+
   /**
    * Retry loading markers
    */
@@ -653,11 +810,62 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
     );
   };
 
+  /**
+   * Render rainbow alert banner
+   * Requirements: FR-7 (AC-7.1)
+   */
+  const renderAlertBanner = () => {
+    if (!alertFocus) return null;
+
+    const details = [
+      alertFocus.direction
+        ? t('map.rainbowAlertDirection', { direction: alertFocus.direction })
+        : undefined,
+      alertFocus.probability !== undefined
+        ? t('map.rainbowAlertProbability', {
+            percent: Math.round(alertFocus.probability * 100),
+          })
+        : undefined,
+    ].filter((part): part is string => Boolean(part));
+
+    return (
+      <View style={styles.alertBanner} testID="map-rainbow-alert-banner">
+        <View
+          style={styles.alertBannerContent}
+          accessible={true}
+          accessibilityRole="alert"
+          accessibilityLabel={createScreenReaderAnnouncement(
+            t('map.rainbowAlertTitle'),
+            ...details
+          )}
+        >
+          <Ionicons name="partly-sunny" size={20} color={accessibleColors.primary} />
+          <View style={styles.alertBannerText}>
+            <Text style={styles.alertBannerTitle}>{t('map.rainbowAlertTitle')}</Text>
+            {details.length > 0 && (
+              <Text style={styles.alertBannerDetail}>{details.join(' · ')}</Text>
+            )}
+          </View>
+        </View>
+        <TouchableOpacity
+          style={styles.alertDismissButton}
+          onPress={handleDismissAlert}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('map.dismissAlert')}
+          testID="map-rainbow-alert-dismiss"
+        >
+          <Ionicons name="close" size={20} color={accessibleColors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   /**
    * Render error state
    */
   const renderError = () => {
-    if (state.loadingState !== 'error' || state.markers.length > 0) return null;
+    if (state.loadingState !== 'error' || visibleMarkers.length > 0) return null;
 
     return (
       <View
@@ -717,8 +925,8 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
           {t('map.headerTitle')}
         </Text>
         <Text style={styles.subtitle}>
-          {state.markers.length > 0
-            ? t('map.photoCount', { count: state.markers.length })
+          {visibleMarkers.length > 0
+            ? t('map.photoCount', { count: visibleMarkers.length })
             : t('map.defaultSubtitle')}
         </Text>
       </View>
@@ -729,7 +937,7 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
           <>
             <ClusteredMap
               mapRef={mapRef}
-              markers={state.markers}
+              markers={visibleMarkers}
               initialRegion={currentRegion}
               onRegionChange={handleRegionChange}
               onMarkerPress={handleMarkerPress}
@@ -743,15 +951,37 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
                 points={heatmapState.points}
                 visible={heatmapState.isVisible}
               />
+
+              {/* Rainbow alert location - FR-7 (AC-7.1) */}
+              {alertFocus && (
+                <Marker
+                  coordinate={{
+                    latitude: alertFocus.latitude,
+                    longitude: alertFocus.longitude,
+                  }}
+                  pinColor={accessibleColors.primary}
+                  title={t('map.rainbowAlertTitle')}
+                  description={
+                    alertFocus.direction
+                      ? t('map.rainbowAlertDirection', { direction: alertFocus.direction })
+                      : undefined
+                  }
+                  {...UNCLUSTERED_MARKER_PROPS}
+                  testID="map-rainbow-alert-marker"
+                />
+              )}
             </ClusteredMap>
 
             {/* Offline Banner */}
             {renderOfflineBanner()}
 
+            {/* Rainbow Alert Banner */}
+            {renderAlertBanner()}
+
             {/* Error Overlay */}
             {renderError()}
 
-            {/* Map Controls - Top Right (Heatmap toggle) */}
+            {/* Map Controls - Top Right (Heatmap toggle, Trends, Moments) */}
             <View style={styles.topControlsContainer}>
               {/* Heatmap Toggle - FR-13 (AC-13.5) */}
               <TouchableOpacity
@@ -781,6 +1011,57 @@ export const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
                   }
                 />
               </TouchableOpacity>
+
+              {/* Sighting Trends - FR-6 (AC-6.2) */}
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={handleOpenTrends}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={t('map.openTrends')}
+                accessibilityHint={t('map.openTrendsHint')}
+                testID="trends-button"
+              >
+                <Ionicons
+                  name="stats-chart"
+                  size={24}
+                  color={accessibleColors.primary}
+                />
+              </TouchableOpacity>
+
+              {/* Rainbow Forecast - FR-13 */}
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={handleOpenForecast}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={t('map.openForecast')}
+                accessibilityHint={t('map.openForecastHint')}
+                testID="forecast-button"
+              >
+                <Ionicons
+                  name="partly-sunny"
+                  size={24}
+                  color={accessibleColors.primary}
+                />
+              </TouchableOpacity>
+
+              {/* Rainbow Moment Archive */}
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={handleOpenMomentArchive}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={t('moment.openArchive')}
+                accessibilityHint={t('moment.openArchiveHint')}
+                testID="moment-archive-button"
+              >
+                <Ionicons
+                  name="color-palette"
+                  size={24}
+                  color={accessibleColors.primary}
+                />
+              </TouchableOpacity>
             </View>
 
             {/* Map Controls - Bottom Right */}
@@ -906,6 +1187,50 @@ const styles = StyleSheet.create({
     marginLeft: 8,
   },
 
+  // Rainbow Alert Banner
+  alertBanner: {
+    position: 'absolute',
+    top: 56,
+    left: 16,
+    right: 88,
+    backgroundColor: accessibleColors.backgroundLight,
+    borderRadius: 12,
+    paddingLeft: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  alertBannerContent: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  alertBannerText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  alertBannerTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  alertBannerDetail: {
+    fontSize: 13,
+    color: accessibleColors.textSecondary,
+    marginTop: 2,
+  },
+  alertDismissButton: {
+    width: MIN_TOUCH_TARGET_SIZE,
+    height: MIN_TOUCH_TARGET_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
   // Controls - Top Right
   topControlsContainer: {
     position: 'absolute',
@@ -0,0 +1,425 @@
+/**
+ * MomentDetailScreen - A past Rainbow Moment
+ *
+ * Features:
+ * - Weather at the start of the moment (WeatherSummary)
+ * - Photos taken during the moment on a mini-map and in a gallery
+ * - Participant list with join times
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Section headers marked as headers
+ * - Mini-map summarised for screen readers; photos reachable via the gallery
+ * - Minimum touch target size 44x44pt for gallery items
+ */
+
+import React, { useCallback, useEffect, useMemo } from 'react';
+
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import MapView, { Marker } from 'react-native-maps';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { Button } from '../../components/ui/Button';
+import { WeatherSummary } from '../../components/weather/WeatherSummary';
+import {
+  fetchMomentDetail,
+  momentWeatherCondition,
+  type MomentDetail,
+} from '../../services/rainbowMomentService';
+import { useBlockedUserIds } from '../../store/blockStore';
+import { accessibleColors, MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
+
+import type { MomentPhoto } from '../../store/rainbowMomentStore';
+import type { MomentDetailScreenProps } from '../../types/navigation';
+
+// ============================================
+// Constants
+// ============================================
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const GALLERY_COLUMNS = 3;
+const GALLERY_GAP = 4;
+const GALLERY_ITEM_SIZE = Math.floor(
+  (SCREEN_WIDTH - 32 - GALLERY_GAP * (GALLERY_COLUMNS - 1)) / GALLERY_COLUMNS
+);
+
+/** Smallest map span so a single photo is not zoomed in to street level */
+const MIN_MAP_DELTA = 0.02;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Get a map region that fits all photo locations
+ */
+const getPhotosRegion = (photos: MomentPhoto[]) => {
+  const latitudes = photos.map((photo) => photo.latitude);
+  const longitudes = photos.map((photo) => photo.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.5, MIN_MAP_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.5, MIN_MAP_DELTA),
+  };
+};
+
+export const MomentDetailScreen: React.FC<MomentDetailScreenProps> = ({ navigation, route }) => {
+  const { momentId } = route.params;
+  const { t, i18n } = useTranslation();
+  const blockedUserIds = useBlockedUserIds();
+
+  const {
+    data: moment,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<MomentDetail>({
+    queryKey: ['rainbowMoment', momentId],
+    queryFn: () => fetchMomentDetail(momentId),
+  });
+
+  const weatherCondition = useMemo(
+    () => (moment ? momentWeatherCondition(moment) : undefined),
+    [moment]
+  );
+
+  // Hide photos and participation of blocked users
+  const photos = useMemo(
+    () => (moment?.photos ?? []).filter((photo) => !blockedUserIds.has(photo.user.id)),
+    [moment, blockedUserIds]
+  );
+  const participants = useMemo(
+    () =>
+      (moment?.participants ?? []).filter((participant) => !blockedUserIds.has(participant.id)),
+    [moment, blockedUserIds]
+  );
+
+  // Photos without a location cannot be placed on the map
+  const mappedPhotos = useMemo(
+    () =>
+      photos.filter((photo) => Number.isFinite(photo.latitude) && Number.isFinite(photo.longitude)),
+    [photos]
+  );
+
+  // Show the location name in the header once it is known
+  useEffect(() => {
+    navigation.setOptions({ title: moment?.locationName ?? t('moment.detailTitle') });
+  }, [navigation, moment, t]);
+
+  const formatTime = useCallback(
+    (dateString: string, withDate = false): string => {
+      const date = new Date(dateString);
+      if (Number.isNaN(date.getTime())) {
+        return dateString;
+      }
+      return date.toLocaleString(i18n.language, {
+        ...(withDate ? { month: 'short', day: 'numeric' } : {}),
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    },
+    [i18n.language]
+  );
+
+  // Photo details live in the feed stack
+  const handleOpenPhoto = useCallback(
+    (photo: MomentPhoto) => {
+      navigation.navigate('FeedTab', {
+        screen: 'PhotoDetail',
+        params: { photoId: photo.id },
+      });
+    },
+    [navigation]
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={styles.centerContainer}
+        accessible={true}
+        accessibilityRole="progressbar"
+        accessibilityLabel={t('common.loading')}
+      >
+        <ActivityIndicator size="large" color={accessibleColors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !moment) {
+    return (
+      <View style={styles.centerContainer} accessible={true} accessibilityRole="alert">
+        <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+        <Text style={styles.errorText}>{t('moment.detailLoadError')}</Text>
+        <Button
+          title={t('common.retry')}
+          onPress={() => refetch()}
+          variant="outline"
+          style={styles.retryButton}
+          testID="moment-detail-retry"
+        />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="moment-detail-screen">
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Summary */}
+        <View style={styles.summary}>
+          <Text style={styles.summaryTime}>
+            {`${formatTime(moment.startsAt, true)} - ${formatTime(moment.endsAt)}`}
+          </Text>
+          <View style={styles.summaryStats}>
+            <View style={styles.stat}>
+              <Ionicons name="people-outline" size={16} color={accessibleColors.primary} />
+              <Text style={styles.statText}>{moment.participantsCount}</Text>
+            </View>
+            <View style={styles.stat}>
+              <Ionicons name="camera-outline" size={16} color={accessibleColors.primary} />
+              <Text style={styles.statText}>{moment.photosCount}</Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Weather snapshot */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t('moment.weather')}
+        </Text>
+        {/* The moment has no coordinates of its own; its photos are taken nearby */}
+        <WeatherSummary
+          weatherCondition={weatherCondition}
+          location={mappedPhotos[0]}
+          testID="moment-weather-summary"
+        />
+
+        {/* Photos: mini-map and gallery */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t('moment.photos')}
+        </Text>
+        {photos.length === 0 ? (
+          <Text style={styles.emptyText}>{t('moment.noPhotos')}</Text>
+        ) : (
+          <>
+            {mappedPhotos.length > 0 && (
+              <View
+                style={styles.mapContainer}
+                accessible={true}
+                accessibilityLabel={t('moment.mapDescription', { count: mappedPhotos.length })}
+                testID="moment-photo-map"
+              >
+                <MapView
+                  style={styles.map}
+                  initialRegion={getPhotosRegion(mappedPhotos)}
+                  scrollEnabled={false}
+                  zoomEnabled={false}
+                  rotateEnabled={false}
+                  pitchEnabled={false}
+                  importantForAccessibility="no-hide-descendants"
+                >
+                  {mappedPhotos.map((photo) => (
+                    <Marker
+                      key={photo.id}
+                      coordinate={{ latitude: photo.latitude, longitude: photo.longitude }}
+                      title={t('moment.photoBy', { name: photo.user.displayName })}
+                      onCalloutPress={() => handleOpenPhoto(photo)}
+                    />
+                  ))}
+                </MapView>
+              </View>
+            )}
+
+            <View style={styles.gallery}>
+              {photos.map((photo) => (
+                <TouchableOpacity
+                  key={photo.id}
+                  style={styles.galleryItem}
+                  onPress={() => handleOpenPhoto(photo)}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('moment.photoBy', { name: photo.user.displayName })}
+                  testID={`moment-photo-${photo.id}`}
+                >
+                  {photo.thumbnailUrl ? (
+                    <Image
+                      source={{ uri: photo.thumbnailUrl }}
+                      style={styles.galleryImage}
+                      contentFit="cover"
+                      accessible={false}
+                    />
+                  ) : (
+                    <View style={[styles.galleryImage, styles.galleryPlaceholder]}>
+                      <Ionicons name="image-outline" size={24} color={accessibleColors.textMuted} />
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Participants */}
+        <Text style={styles.sectionTitle} accessibilityRole="header">
+          {t('moment.participants')}
+        </Text>
+        {participants.length === 0 ? (
+          <Text style={styles.emptyText}>{t('moment.noParticipants')}</Text>
+        ) : (
+          <View style={styles.participants}>
+            {participants.map((participant) => (
+              <View
+                key={participant.id}
+                style={styles.participantRow}
+                testID={`moment-participant-${participant.id}`}
+              >
+                <Ionicons
+                  name="person-circle-outline"
+                  size={28}
+                  color={accessibleColors.textSecondary}
+                />
+                <Text style={styles.participantName} numberOfLines={1}>
+                  {participant.displayName}
+                </Text>
+                <Text style={styles.participantJoined}>
+                  {t('moment.joinedAt', { time: formatTime(participant.joinedAt) })}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+  },
+  summary: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  summaryTime: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  summaryStats: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  stat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: accessibleColors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: accessibleColors.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: accessibleColors.textMuted,
+  },
+  mapContainer: {
+    height: 180,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  map: {
+    flex: 1,
+  },
+  gallery: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GALLERY_GAP,
+  },
+  galleryItem: {
+    width: GALLERY_ITEM_SIZE,
+    height: GALLERY_ITEM_SIZE,
+    minWidth: MIN_TOUCH_TARGET_SIZE,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+  },
+  galleryImage: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 4,
+  },
+  galleryPlaceholder: {
+    backgroundColor: '#E0E0E0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  participants: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  participantName: {
+    flex: 1,
+    fontSize: 15,
+    color: accessibleColors.textPrimary,
+  },
+  participantJoined: {
+    fontSize: 12,
+    color: accessibleColors.textMuted,
+  },
+});
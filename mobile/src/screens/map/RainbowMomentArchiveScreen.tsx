@@ -2,7 +2,7 @@
  * RainbowMomentArchiveScreen
  *
  * Lists past Rainbow Moments with participant counts, photo counts,
- * and weather snapshots.
+ * and weather snapshots. Tapping a moment opens its detail.
  */
 
 import React, { useCallback, useEffect, useState } from 'react';
@@ -14,6 +14,7 @@ import {
   FlatList,
   ActivityIndicator,
   RefreshControl,
+  TouchableOpacity,
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
@@ -24,8 +25,11 @@ import { fetchPastMoments } from '../../services/rainbowMomentService';
 import { accessibleColors } from '../../utils/accessibility';
 
 import type { RainbowMoment } from '../../store/rainbowMomentStore';
+import type { MomentArchiveScreenProps } from '../../types/navigation';
 
-export const RainbowMomentArchiveScreen: React.FC = () => {
+export const RainbowMomentArchiveScreen: React.FC<MomentArchiveScreenProps> = ({
+  navigation,
+}) => {
   const { t } = useTranslation();
   const [moments, setMoments] = useState<RainbowMoment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -55,6 +59,17 @@ export const RainbowMomentArchiveScreen: React.FC = () => {
     loadMoments(1, true);
   }, [loadMoments]);
 
+  useEffect(() => {
+    navigation.setOptions({ title: t('moment.archiveTitle') });
+  }, [navigation, t]);
+
+  const handleOpenMoment = useCallback(
+    (moment: RainbowMoment) => {
+      navigation.navigate('MomentDetail', { momentId: moment.id });
+    },
+    [navigation]
+  );
+
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
     loadMoments(1, true);
@@ -84,7 +99,15 @@ export const RainbowMomentArchiveScreen: React.FC = () => {
 
   const renderMoment = useCallback(
     ({ item }: { item: RainbowMoment }) => (
-      <View style={styles.card} testID={`moment-card-${item.id}`}>
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => handleOpenMoment(item)}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={`${item.locationName} ${formatDate(item.startsAt)}`}
+        accessibilityHint={t('moment.openDetailHint')}
+        testID={`moment-card-${item.id}`}
+      >
         <View style={styles.cardHeader}>
           <Ionicons name="color-palette" size={18} color="#FF6B6B" />
           <Text style={styles.cardLocation}>{item.locationName}</Text>
@@ -107,9 +130,9 @@ export const RainbowMomentArchiveScreen: React.FC = () => {
             </Text>
           </View>
         </View>
-      </View>
+      </TouchableOpacity>
     ),
-    [t]
+    [t, handleOpenMoment]
   );
 
   const renderEmpty = () => {
@@ -123,13 +146,7 @@ export const RainbowMomentArchiveScreen: React.FC = () => {
   };
 
   return (
-    <SafeAreaView style={styles.container} edges={['top']} testID="moment-archive-screen">
-      <View style={styles.header}>
-        <Text style={styles.title} accessibilityRole="header">
-          {t('moment.archiveTitle')}
-        </Text>
-      </View>
-
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="moment-archive-screen">
       {isLoading && moments.length === 0 ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={accessibleColors.primary} />
@@ -157,18 +174,6 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F5F5F5',
   },
-  header: {
-    paddingHorizontal: 20,
-    paddingVertical: 15,
-    backgroundColor: '#FFF',
-    borderBottomWidth: 1,
-    borderBottomColor: '#E0E0E0',
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: accessibleColors.textPrimary,
-  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,307 @@
+/**
+ * RegionComparisonScreen - Side-by-side rainbow statistics for several regions
+ *
+ * Lets the user pick two or more predefined regions and overlays their peak
+ * hours, peak months and typical weather in a single chart, so areas such as
+ * Shiojiri can be compared with their neighbours.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Checkbox role and checked state on region chips
+ * - Screen reader announcement when the comparison loads
+ * - Minimum touch target size 44x44pt
+ *
+ * Requirements: FR-6 (AC-6.4), FR-13 (AC-13.6)
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  AccessibilityInfo,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+import { RegionComparisonChart } from '../../components/map';
+import { Button } from '../../components/ui/Button';
+import {
+  getRegionComparison,
+  getStatisticsRegions,
+  type StatisticsRegion,
+} from '../../services/statisticsService';
+import { accessibleColors, MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
+
+import type { RegionStats } from '../../services/mapService';
+import type { RegionComparisonScreenProps } from '../../types/navigation';
+
+// ============================================
+// Constants
+// ============================================
+
+const MIN_REGIONS = 2;
+
+// ============================================
+// Component
+// ============================================
+
+export const RegionComparisonScreen: React.FC<RegionComparisonScreenProps> = ({ route }) => {
+  const { t } = useTranslation();
+
+  const [regions, setRegions] = useState<StatisticsRegion[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(route.params?.regionIds ?? []);
+  const [comparison, setComparison] = useState<RegionStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest comparison request may update the screen
+  const comparisonRequestRef = useRef(0);
+
+  /**
+   * Load available regions and preselect the first two when nothing was passed in
+   */
+  const loadRegions = useCallback(async () => {
+    try {
+      const result = await getStatisticsRegions();
+      setRegions(result);
+      setSelectedIds((current) =>
+        current.length > 0 ? current : result.slice(0, MIN_REGIONS).map((region) => region.id)
+      );
+      setError(null);
+      if (result.length === 0) {
+        setIsLoading(false);
+      }
+    } catch (err) {
+      console.error('Error loading statistics regions:', err);
+      setError(t('statistics.loadError'));
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadRegions();
+  }, [loadRegions]);
+
+  /**
+   * Load the comparison for the current selection
+   */
+  const loadComparison = useCallback(async () => {
+    const requestId = ++comparisonRequestRef.current;
+
+    if (selectedIds.length < MIN_REGIONS) {
+      setComparison([]);
+      setIsLoading(false);
+      setIsRefreshing(false);
+      return;
+    }
+
+    try {
+      const result = await getRegionComparison(selectedIds);
+      // Superseded by a newer request, e.g. after the selection changed
+      if (requestId !== comparisonRequestRef.current) return;
+      // Keep the selection order so colours stay stable while toggling
+      result.sort((a, b) => selectedIds.indexOf(a.regionId) - selectedIds.indexOf(b.regionId));
+      setComparison(result);
+      setError(null);
+      AccessibilityInfo.announceForAccessibility(
+        t('statistics.compare.loaded', { count: result.length })
+      );
+    } catch (err) {
+      if (requestId !== comparisonRequestRef.current) return;
+      console.error('Error loading region comparison:', err);
+      setError(t('statistics.loadError'));
+    } finally {
+      if (requestId === comparisonRequestRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    }
+  }, [selectedIds, t]);
+
+  useEffect(() => {
+    if (regions.length === 0) return;
+    setIsLoading(true);
+    loadComparison();
+  }, [regions, loadComparison]);
+
+  const handleRefresh = useCallback(() => {
+    setIsRefreshing(true);
+    loadComparison();
+  }, [loadComparison]);
+
+  const handleRetry = useCallback(() => {
+    setIsLoading(true);
+    if (regions.length === 0) {
+      loadRegions();
+    } else {
+      loadComparison();
+    }
+  }, [regions, loadRegions, loadComparison]);
+
+  const handleToggleRegion = useCallback((regionId: string) => {
+    setSelectedIds((current) =>
+      current.includes(regionId) ? current.filter((id) => id !== regionId) : [...current, regionId]
+    );
+  }, []);
+
+  /**
+   * Render the comparison body (loading / error / hint / chart)
+   */
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View
+          style={styles.stateContainer}
+          accessible={true}
+          accessibilityRole="progressbar"
+          accessibilityLabel={t('common.loading')}
+        >
+          <ActivityIndicator size="large" color={accessibleColors.primary} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer} accessible={true} accessibilityRole="alert">
+          <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+          <Text style={styles.stateText}>{error}</Text>
+          <Button
+            title={t('common.retry')}
+            onPress={handleRetry}
+            variant="outline"
+            size="medium"
+            icon="refresh"
+          />
+        </View>
+      );
+    }
+
+    if (selectedIds.length < MIN_REGIONS) {
+      return (
+        <View style={styles.stateContainer} testID="comparison-select-hint">
+          <Ionicons name="git-compare-outline" size={48} color={accessibleColors.textMuted} />
+          <Text style={styles.stateText}>
+            {t('statistics.compare.selectAtLeast', { count: MIN_REGIONS })}
+          </Text>
+        </View>
+      );
+    }
+
+    return <RegionComparisonChart regions={comparison} />;
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      testID="region-comparison-screen"
+    >
+      <Text style={styles.sectionTitle} accessibilityRole="header">
+        {t('statistics.compare.regions')}
+      </Text>
+      <View style={styles.chipRow}>
+        {regions.map((region) => {
+          const selected = selectedIds.includes(region.id);
+          return (
+            <TouchableOpacity
+              key={region.id}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => handleToggleRegion(region.id)}
+              accessible={true}
+              accessibilityRole="checkbox"
+              accessibilityLabel={region.name}
+              accessibilityState={{ checked: selected }}
+              testID={`comparison-region-${region.id}`}
+            >
+              {selected && (
+                <Ionicons
+                  name="checkmark"
+                  size={16}
+                  color={accessibleColors.backgroundLight}
+                  style={styles.chipIcon}
+                />
+              )}
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {region.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {renderBody()}
+    </ScrollView>
+  );
+};
+
+// ============================================
+// Styles
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    borderRadius: MIN_TOUCH_TARGET_SIZE / 2,
+    borderWidth: 1,
+    borderColor: accessibleColors.primary,
+    backgroundColor: accessibleColors.backgroundLight,
+  },
+  chipSelected: {
+    backgroundColor: accessibleColors.primary,
+  },
+  chipIcon: {
+    marginRight: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: accessibleColors.primary,
+  },
+  chipTextSelected: {
+    color: accessibleColors.backgroundLight,
+    fontWeight: '600',
+  },
+  stateContainer: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  stateText: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+});
+
+export default RegionComparisonScreen;
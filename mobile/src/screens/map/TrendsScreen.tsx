@@ -0,0 +1,520 @@
+/**
+ * TrendsScreen - Rainbow sighting trends over time
+ *
+ * Charts the number of rainbow sightings per day/week/month/year using the
+ * public statistics endpoints, optionally filtered by region.
+ * The series can be shared as CSV for use in local presentations.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Screen reader summary for the chart
+ * - Selected state on filter chips
+ * - Minimum touch target size 44x44pt
+ *
+ * Requirements: FR-6 (AC-6.1, AC-6.2)
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Dimensions,
+  Share,
+  AccessibilityInfo,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { LineChart } from 'react-native-chart-kit';
+
+import { STATS_CHART_CONFIG } from '../../components/map';
+import { Button } from '../../components/ui/Button';
+import {
+  getStatisticsRegions,
+  getTrends,
+  type StatisticsRegion,
+  type TrendGroupBy,
+  type TrendsResult,
+} from '../../services/statisticsService';
+import {
+  accessibleColors,
+  MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { TrendsScreenProps } from '../../types/navigation';
+
+// ============================================
+// Constants
+// ============================================
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const CHART_WIDTH = SCREEN_WIDTH - 32;
+const MAX_CHART_LABELS = 6;
+
+const GROUP_BY_OPTIONS: TrendGroupBy[] = ['day', 'week', 'month', 'year'];
+
+/**
+ * Date label format per grouping period
+ */
+const LABEL_FORMATS: Record<TrendGroupBy, string> = {
+  day: 'M/d',
+  week: 'M/d',
+  month: 'yy/M',
+  year: 'yyyy',
+};
+
+const TREND_ICONS: Record<
+  TrendsResult['summary']['trendDirection'],
+  keyof typeof Ionicons.glyphMap
+> = {
+  increasing: 'trending-up',
+  decreasing: 'trending-down',
+  stable: 'remove-outline',
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Format a trend date for chart labels
+ */
+const formatTrendLabel = (date: string, groupBy: TrendGroupBy): string => {
+  try {
+    return format(new Date(date), LABEL_FORMATS[groupBy]);
+  } catch {
+    return date;
+  }
+};
+
+/**
+ * Build CSV text for the trend series
+ */
+const buildTrendsCsv = (trends: TrendsResult): string =>
+  ['date,count', ...trends.trends.map((point) => `${point.date},${point.count}`)].join('\n');
+
+// ============================================
+// Component
+// ============================================
+
+export const TrendsScreen: React.FC<TrendsScreenProps> = ({ navigation }) => {
+  const { t } = useTranslation();
+
+  const [regions, setRegions] = useState<StatisticsRegion[]>([]);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<TrendGroupBy>('month');
+  const [trends, setTrends] = useState<TrendsResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest trends request may update the screen
+  const trendsRequestRef = useRef(0);
+
+  /**
+   * Load available regions once
+   */
+  useEffect(() => {
+    const loadRegions = async () => {
+      try {
+        setRegions(await getStatisticsRegions());
+      } catch {
+        // Non-critical — the "all regions" chart still works
+        console.warn('Could not fetch statistics regions');
+      }
+    };
+
+    loadRegions();
+  }, []);
+
+  /**
+   * Load trends for the current filters
+   */
+  const loadTrends = useCallback(async () => {
+    const requestId = ++trendsRequestRef.current;
+
+    try {
+      const result = await getTrends(groupBy, selectedRegionId ?? undefined);
+      // Superseded by a newer request, e.g. after the region or grouping changed
+      if (requestId !== trendsRequestRef.current) return;
+      setTrends(result);
+      setError(null);
+    } catch (err) {
+      if (requestId !== trendsRequestRef.current) return;
+      console.error('Error loading trends:', err);
+      setError(t('statistics.loadError'));
+    } finally {
+      if (requestId === trendsRequestRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    }
+  }, [groupBy, selectedRegionId, t]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadTrends();
+  }, [loadTrends]);
+
+  const handleRefresh = useCallback(() => {
+    setIsRefreshing(true);
+    loadTrends();
+  }, [loadTrends]);
+
+  const handleSelectRegion = useCallback((regionId: string | null) => {
+    setSelectedRegionId(regionId);
+  }, []);
+
+  const handleSelectGroupBy = useCallback((value: TrendGroupBy) => {
+    setGroupBy(value);
+  }, []);
+
+  const handleOpenComparison = useCallback(() => {
+    navigation.navigate('RegionComparison', {
+      regionIds: selectedRegionId ? [selectedRegionId] : undefined,
+    });
+  }, [navigation, selectedRegionId]);
+
+  /**
+   * Share the current series as CSV
+   */
+  const handleShare = useCallback(async () => {
+    if (!trends) return;
+
+    try {
+      await Share.share({
+        title: t('statistics.shareTitle'),
+        message: buildTrendsCsv(trends),
+      });
+    } catch (err) {
+      console.error('Error sharing trends:', err);
+    }
+  }, [trends, t]);
+
+  /**
+   * Prepare chart data (labels thinned for readability)
+   */
+  const chartData = useMemo(() => {
+    if (!trends || trends.trends.length === 0) return null;
+
+    const labelInterval = Math.max(1, Math.ceil(trends.trends.length / MAX_CHART_LABELS));
+    return {
+      labels: trends.trends.map((point, index) =>
+        index % labelInterval === 0 ? formatTrendLabel(point.date, trends.groupBy) : ''
+      ),
+      datasets: [{ data: trends.trends.map((point) => point.count) }],
+    };
+  }, [trends]);
+
+  useEffect(() => {
+    if (trends && !isLoading) {
+      AccessibilityInfo.announceForAccessibility(
+        t('statistics.totalSightings', { count: trends.summary.total })
+      );
+    }
+  }, [trends, isLoading, t]);
+
+  /**
+   * Render a filter chip
+   */
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected }}
+      testID={`trends-chip-${key}`}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  /**
+   * Render summary cards
+   */
+  const renderSummary = () => {
+    if (!trends) return null;
+    const { summary } = trends;
+
+    return (
+      <View style={styles.summaryRow}>
+        <View
+          style={styles.summaryCard}
+          accessible={true}
+          accessibilityLabel={t('statistics.totalSightings', { count: summary.total })}
+        >
+          <Text style={styles.summaryValue}>{summary.total}</Text>
+          <Text style={styles.summaryLabel}>{t('statistics.total')}</Text>
+        </View>
+        <View
+          style={styles.summaryCard}
+          accessible={true}
+          accessibilityLabel={t('statistics.averagePerPeriod', {
+            value: summary.average.toFixed(1),
+          })}
+        >
+          <Text style={styles.summaryValue}>{summary.average.toFixed(1)}</Text>
+          <Text style={styles.summaryLabel}>{t('statistics.average')}</Text>
+        </View>
+        <View
+          style={styles.summaryCard}
+          accessible={true}
+          accessibilityLabel={t(`statistics.trend.${summary.trendDirection}`)}
+        >
+          <Ionicons
+            name={TREND_ICONS[summary.trendDirection]}
+            size={24}
+            color={accessibleColors.primary}
+          />
+          <Text style={styles.summaryLabel}>{t(`statistics.trend.${summary.trendDirection}`)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Render chart section
+   */
+  const renderChart = () => {
+    if (!trends || !chartData) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="analytics-outline" size={48} color={accessibleColors.textMuted} />
+          <Text style={styles.emptyText}>{t('statistics.noData')}</Text>
+        </View>
+      );
+    }
+
+    const chartAccessibilityLabel = createScreenReaderAnnouncement(
+      t('statistics.chartDescription'),
+      t('statistics.maxPerPeriod', { count: trends.summary.max }),
+      t('statistics.minPerPeriod', { count: trends.summary.min })
+    );
+
+    return (
+      <View
+        style={styles.chartContainer}
+        accessible={true}
+        accessibilityLabel={chartAccessibilityLabel}
+        testID="trends-chart"
+      >
+        <LineChart
+          data={chartData}
+          width={CHART_WIDTH}
+          height={220}
+          yAxisLabel=""
+          yAxisSuffix=""
+          chartConfig={STATS_CHART_CONFIG}
+          style={styles.chart}
+          fromZero={true}
+          bezier={false}
+        />
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      testID="trends-screen"
+    >
+      {/* Region filter */}
+      <Text style={styles.sectionTitle} accessibilityRole="header">
+        {t('statistics.region')}
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {renderChip('all', t('statistics.allRegions'), selectedRegionId === null, () =>
+          handleSelectRegion(null)
+        )}
+        {regions.map((region) =>
+          renderChip(region.id, region.name, selectedRegionId === region.id, () =>
+            handleSelectRegion(region.id)
+          )
+        )}
+      </ScrollView>
+
+      {/* Grouping period */}
+      <Text style={styles.sectionTitle} accessibilityRole="header">
+        {t('statistics.groupBy')}
+      </Text>
+      <View style={styles.chipRow}>
+        {GROUP_BY_OPTIONS.map((option) =>
+          renderChip(option, t(`statistics.period.${option}`), groupBy === option, () =>
+            handleSelectGroupBy(option)
+          )
+        )}
+      </View>
+
+      {isLoading ? (
+        <View
+          style={styles.loadingContainer}
+          accessible={true}
+          accessibilityRole="progressbar"
+          accessibilityLabel={t('common.loading')}
+        >
+          <ActivityIndicator size="large" color={accessibleColors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer} accessible={true} accessibilityRole="alert">
+          <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+          <Text style={styles.errorText}>{error}</Text>
+          <Button
+            title={t('common.retry')}
+            onPress={loadTrends}
+            variant="outline"
+            size="medium"
+            icon="refresh"
+          />
+        </View>
+      ) : (
+        <>
+          {renderSummary()}
+          {renderChart()}
+          {trends && trends.trends.length > 0 && (
+            <Button
+              title={t('statistics.shareCsv')}
+              onPress={handleShare}
+              variant="outline"
+              size="medium"
+              icon="share-outline"
+              accessibilityHint={t('statistics.shareCsvHint')}
+              testID="trends-share-button"
+            />
+          )}
+          {regions.length >= 2 && (
+            <View style={styles.compareButton}>
+              <Button
+                title={t('statistics.compare.open')}
+                onPress={handleOpenComparison}
+                variant="outline"
+                size="medium"
+                icon="git-compare-outline"
+                accessibilityHint={t('statistics.compare.openHint')}
+                testID="trends-compare-button"
+              />
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+// ============================================
+// Styles
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+    flexGrow: 0,
+  },
+  chip: {
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: MIN_TOUCH_TARGET_SIZE / 2,
+    borderWidth: 1,
+    borderColor: accessibleColors.primary,
+    backgroundColor: accessibleColors.backgroundLight,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: accessibleColors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: accessibleColors.primary,
+  },
+  chipTextSelected: {
+    color: accessibleColors.backgroundLight,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: accessibleColors.backgroundLight,
+    borderRadius: 12,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: accessibleColors.textPrimary,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: accessibleColors.textSecondary,
+    marginTop: 4,
+  },
+  chartContainer: {
+    backgroundColor: accessibleColors.backgroundLight,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  chart: {
+    borderRadius: 8,
+  },
+  compareButton: {
+    marginTop: 12,
+  },
+  loadingContainer: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  errorContainer: {
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  emptyContainer: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: accessibleColors.textSecondary,
+  },
+});
+
+export default TrendsScreen;
@@ -2,5 +2,9 @@
  * Map screens index
  */
 
+export { ForecastScreen } from './ForecastScreen';
 export { MapScreen } from './MapScreen';
+export { MomentDetailScreen } from './MomentDetailScreen';
 export { RainbowMomentArchiveScreen } from './RainbowMomentArchiveScreen';
+export { RegionComparisonScreen } from './RegionComparisonScreen';
+export { TrendsScreen } from './TrendsScreen';
@@ -0,0 +1,343 @@
+/**
+ * NotificationsScreen - Notification inbox
+ *
+ * Lists the user's notifications newest first with:
+ * - Filter chips per notification type
+ * - Infinite scrolling and pull-to-refresh
+ * - Swipe to mark a notification as read
+ * - "Mark all as read"
+ * - Tapping a notification opens the photo, map alert or profile it refers to
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Selected state on filter chips
+ * - Mark-as-read available as an accessibility action
+ * - Minimum touch target size 44x44pt
+ *
+ * Requirements: FR-7 (AC-7.1)
+ */
+
+import React, { useCallback, useEffect } from 'react';
+
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+
+import { NotificationItem } from '../../components/notifications';
+import { Button } from '../../components/ui/Button';
+import { useNotificationRouter } from '../../hooks/useNotificationRouter';
+import { useNotificationStore } from '../../store/notificationStore';
+import { accessibleColors, MIN_TOUCH_TARGET_SIZE } from '../../utils/accessibility';
+
+import type { NotificationsScreenProps } from '../../types/navigation';
+import type { Notification, NotificationType } from '../../types/notification';
+
+// ============================================
+// Constants
+// ============================================
+
+const FILTERS: NotificationType[] = ['rainbow_alert', 'like', 'comment', 'system'];
+
+// ============================================
+// Component
+// ============================================
+
+export const NotificationsScreen: React.FC<NotificationsScreenProps> = ({ navigation }) => {
+  const { t } = useTranslation();
+
+  const notifications = useNotificationStore((state) => state.notifications);
+  const unreadCount = useNotificationStore((state) => state.unreadCount);
+  const filter = useNotificationStore((state) => state.filter);
+  const isLoading = useNotificationStore((state) => state.isLoading);
+  const isLoadingMore = useNotificationStore((state) => state.isLoadingMore);
+  const error = useNotificationStore((state) => state.error);
+  const fetchNotifications = useNotificationStore((state) => state.fetchNotifications);
+  const fetchNextPage = useNotificationStore((state) => state.fetchNextPage);
+  const markAsRead = useNotificationStore((state) => state.markAsRead);
+  const { openNotification } = useNotificationRouter();
+
+  /**
+   * Refresh the first page whenever the inbox is shown
+   */
+  useFocusEffect(
+    useCallback(() => {
+      const { filter: activeFilter } = useNotificationStore.getState();
+      fetchNotifications(1, activeFilter ?? undefined);
+    }, [fetchNotifications])
+  );
+
+  const handleRefresh = useCallback(() => {
+    fetchNotifications(1, filter ?? undefined);
+  }, [fetchNotifications, filter]);
+
+  const handleSelectFilter = useCallback(
+    (value: NotificationType | null) => {
+      if (value === filter) return;
+      fetchNotifications(1, value ?? undefined);
+    },
+    [fetchNotifications, filter]
+  );
+
+  const handleMarkAsRead = useCallback(
+    (notification: Notification) => {
+      markAsRead([notification.id]).catch(() => {
+        // Store rolls back and exposes the error
+      });
+    },
+    [markAsRead]
+  );
+
+  const handlePress = useCallback(
+    (notification: Notification) => {
+      if (!notification.isRead) {
+        handleMarkAsRead(notification);
+      }
+      openNotification(notification.data);
+    },
+    [handleMarkAsRead, openNotification]
+  );
+
+  const handleMarkAllRead = useCallback(() => {
+    markAsRead().catch(() => {
+      Alert.alert(t('common.error'), t('notifications.markReadError'));
+    });
+  }, [markAsRead, t]);
+
+  const handleOpenSettings = useCallback(() => {
+    navigation.navigate('ProfileTab', { screen: 'NotificationSettings' });
+  }, [navigation]);
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity
+          onPress={handleOpenSettings}
+          style={styles.headerButton}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('notifications.settings')}
+          testID="notifications-settings-button"
+        >
+          <Ionicons name="settings-outline" size={22} color="#fff" />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, handleOpenSettings, t]);
+
+  /**
+   * Render a filter chip
+   */
+  const renderChip = (key: string, label: string, value: NotificationType | null) => {
+    const selected = filter === value;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.chip, selected && styles.chipSelected]}
+        onPress={() => handleSelectFilter(value)}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={label}
+        accessibilityState={{ selected }}
+        testID={`notifications-filter-${key}`}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+        {renderChip('all', t('notifications.filters.all'), null)}
+        {FILTERS.map((type) => renderChip(type, t(`notifications.filters.${type}`), type))}
+      </ScrollView>
+      {unreadCount > 0 && (
+        <TouchableOpacity
+          style={styles.markAllButton}
+          onPress={handleMarkAllRead}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={t('notifications.markAllRead')}
+          accessibilityHint={t('notifications.unreadCount', { count: unreadCount })}
+          testID="notifications-mark-all-read"
+        >
+          <Ionicons name="checkmark-done" size={18} color={accessibleColors.primary} />
+          <Text style={styles.markAllText}>{t('notifications.markAllRead')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View
+          style={styles.stateContainer}
+          accessible={true}
+          accessibilityRole="progressbar"
+          accessibilityLabel={t('common.loading')}
+        >
+          <ActivityIndicator size="large" color={accessibleColors.primary} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer} accessible={true} accessibilityRole="alert">
+          <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+          <Text style={styles.stateText}>{t('notifications.loadError')}</Text>
+          <Button
+            title={t('common.retry')}
+            onPress={handleRefresh}
+            variant="outline"
+            size="medium"
+            icon="refresh"
+          />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.stateContainer}>
+        <Ionicons name="notifications-off-outline" size={48} color={accessibleColors.textMuted} />
+        <Text style={styles.stateText}>{t('notifications.noNotifications')}</Text>
+      </View>
+    );
+  };
+
+  const renderFooter = () =>
+    isLoadingMore ? (
+      <View style={styles.footer}>
+        <ActivityIndicator color={accessibleColors.primary} />
+      </View>
+    ) : null;
+
+  return (
+    <View style={styles.container} testID="notifications-screen">
+      {renderHeader()}
+      <FlatList
+        data={notifications}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <NotificationItem
+            notification={item}
+            onPress={handlePress}
+            onMarkAsRead={handleMarkAsRead}
+          />
+        )}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={renderFooter}
+        onEndReached={fetchNextPage}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isLoading && notifications.length > 0}
+            onRefresh={handleRefresh}
+          />
+        }
+        contentContainerStyle={notifications.length === 0 && styles.emptyContent}
+        testID="notifications-list"
+      />
+    </View>
+  );
+};
+
+// ============================================
+// Styles
+// ============================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: accessibleColors.backgroundMuted,
+  },
+  header: {
+    backgroundColor: accessibleColors.backgroundLight,
+    paddingTop: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerButton: {
+    minWidth: MIN_TOUCH_TARGET_SIZE,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chipRow: {
+    flexGrow: 0,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  chip: {
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: MIN_TOUCH_TARGET_SIZE / 2,
+    borderWidth: 1,
+    borderColor: accessibleColors.primary,
+    backgroundColor: accessibleColors.backgroundLight,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: accessibleColors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: accessibleColors.primary,
+  },
+  chipTextSelected: {
+    color: accessibleColors.backgroundLight,
+    fontWeight: '600',
+  },
+  markAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+  },
+  markAllText: {
+    fontSize: 14,
+    color: accessibleColors.primary,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#E0E0E0',
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  stateContainer: {
+    flex: 1,
+    paddingVertical: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stateText: {
+    fontSize: 16,
+    color: accessibleColors.textSecondary,
+    textAlign: 'center',
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
+
+export default NotificationsScreen;
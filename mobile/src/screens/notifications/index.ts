@@ -0,0 +1,5 @@
+/**
+ * Notification screens index
+ */
+
+export { NotificationsScreen } from './NotificationsScreen';
@@ -7,6 +7,8 @@
  * - Skip button to bypass onboarding
  * - Next and Get Started buttons
  * - Pagination dots indicator
+ * - Today's rainbow windows in Shiojiri as a tip on the Camera slide
+ *   (calculated on the device, so it works before sign-in and offline)
  *
  * Requirements: FR-11 (AC-11.1 ~ AC-11.4)
  * - AC-11.1: Display onboarding on first launch
@@ -15,7 +17,7 @@
  * - AC-11.4: Don't show again after completion (managed by AsyncStorage)
  */
 
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 
 import {
   Dimensions,
@@ -30,12 +32,15 @@ import {
 } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 
 import { Button } from '../../components/ui';
+import { SHIOJIRI_LOCATION } from '../../services/mapService';
 import { useOnboardingStore } from '../../store/onboardingStore';
+import { getRainbowWindows } from '../../utils/rainbowGeometry';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -49,6 +54,8 @@ interface OnboardingSlide {
   titleKey: string;
   subtitleKey: string;
   descriptionKey: string;
+  /** Show today's rainbow windows below the description */
+  showRainbowWindows?: boolean;
 }
 
 /**
@@ -70,6 +77,7 @@ const SLIDES: OnboardingSlide[] = [
     titleKey: 'onboarding.camera.title',
     subtitleKey: 'onboarding.camera.subtitle',
     descriptionKey: 'onboarding.camera.description',
+    showRainbowWindows: true,
   },
   {
     id: 'gallery',
@@ -111,6 +119,15 @@ export const OnboardingScreen: React.FC = () => {
 
   const isLastSlide = currentIndex === SLIDES.length - 1;
 
+  // e.g. "04:32–08:14, 15:27–19:09"
+  const rainbowWindows = useMemo(
+    () =>
+      getRainbowWindows(new Date(), SHIOJIRI_LOCATION.latitude, SHIOJIRI_LOCATION.longitude)
+        .map((window) => `${format(window.start, 'HH:mm')}–${format(window.end, 'HH:mm')}`)
+        .join(', '),
+    []
+  );
+
   /**
    * Handle scroll end to update current index
    */
@@ -168,11 +185,19 @@ export const OnboardingScreen: React.FC = () => {
             <Text style={styles.title}>{t(item.titleKey)}</Text>
             <Text style={styles.subtitle}>{t(item.subtitleKey)}</Text>
             <Text style={styles.description}>{t(item.descriptionKey)}</Text>
+            {item.showRainbowWindows && rainbowWindows ? (
+              <View style={styles.tip} testID="onboarding-rainbow-windows">
+                <Ionicons name="time-outline" size={18} color={item.iconColor} />
+                <Text style={styles.tipText}>
+                  {t('onboarding.camera.rainbowWindows', { windows: rainbowWindows })}
+                </Text>
+              </View>
+            ) : null}
           </View>
         </View>
       </View>
     ),
-    [t]
+    [t, rainbowWindows]
   );
 
   /**
@@ -327,6 +352,21 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
+  tip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#F5F5F5',
+  },
+  tipText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
   footer: {
     paddingHorizontal: 24,
     paddingBottom: 24,
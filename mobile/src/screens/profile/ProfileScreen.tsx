@@ -24,7 +24,6 @@ import {
   ActivityIndicator,
   RefreshControl,
   Alert,
-  Dimensions,
   AccessibilityInfo,
 } from 'react-native';
 
@@ -33,6 +32,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Image } from 'expo-image';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { PhotoGridItem, PHOTO_GRID_COLUMNS, photoGridColumnWrapperStyle } from '../../components/profile';
 import { getMyPhotos, deletePhoto } from '../../services/photoService';
 import { getMyProfile, type UserProfile } from '../../services/userService';
 import { useCurrentUser } from '../../store/authStore';
@@ -46,11 +46,6 @@ import {
 import type { ProfileScreenProps } from '../../types/navigation';
 import type { Photo, PhotoListResponse } from '../../types/photo';
 
-const { width: screenWidth } = Dimensions.get('window');
-const NUM_COLUMNS = 3;
-const GRID_GAP = 2;
-const PHOTO_SIZE = (screenWidth - GRID_GAP * (NUM_COLUMNS + 1)) / NUM_COLUMNS;
-
 /**
  * Format count for display with abbreviation
  */
@@ -180,44 +175,16 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
 
   // Render photo grid item (AC-9.3)
   const renderPhotoItem = useCallback(
-    ({ item, index }: { item: Photo; index: number }) => {
-      const accessibilityLabel = createScreenReaderAnnouncement(
-        item.title || 'Rainbow photo',
-        item.location?.name || '',
-        `${formatNumberForScreenReader(item.likeCount)} likes`,
-        'Double tap to view, long press to delete'
-      );
-
-      return (
-        <TouchableOpacity
-          style={styles.photoItem}
-          onPress={() => handlePhotoPress(item)}
-          onLongPress={() => handlePhotoLongPress(item)}
-          delayLongPress={500}
-          accessible={true}
-          accessibilityLabel={accessibilityLabel}
-          accessibilityRole="button"
-          accessibilityHint="Double tap to view details, long press to delete"
-          testID={`photo-grid-item-${index}`}
-        >
-          <Image
-            source={{ uri: item.imageUrls.thumbnail || item.imageUrls.medium }}
-            style={styles.photoImage}
-            contentFit="cover"
-            transition={200}
-          />
-          {/* Like count overlay */}
-          <View style={styles.photoOverlay}>
-            <View style={styles.photoStats}>
-              <Ionicons name="heart" size={12} color="#FFFFFF" />
-              <Text style={styles.photoStatsText}>
-                {formatCount(item.likeCount)}
-              </Text>
-            </View>
-          </View>
-        </TouchableOpacity>
-      );
-    },
+    ({ item, index }: { item: Photo; index: number }) => (
+      <PhotoGridItem
+        photo={item}
+        onPress={handlePhotoPress}
+        onLongPress={handlePhotoLongPress}
+        actionLabel="Double tap to view, long press to delete"
+        accessibilityHint="Double tap to view details, long press to delete"
+        testID={`photo-grid-item-${index}`}
+      />
+    ),
     [handlePhotoPress, handlePhotoLongPress]
   );
 
@@ -417,11 +384,11 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
         data={photos}
         renderItem={renderPhotoItem}
         keyExtractor={(item) => item.id}
-        numColumns={NUM_COLUMNS}
+        numColumns={PHOTO_GRID_COLUMNS}
         ListHeaderComponent={renderHeader}
         ListEmptyComponent={renderEmptyState}
         contentContainerStyle={styles.listContent}
-        columnWrapperStyle={photos.length > 0 ? styles.columnWrapper : undefined}
+        columnWrapperStyle={photos.length > 0 ? photoGridColumnWrapperStyle : undefined}
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
@@ -601,39 +568,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: accessibleColors.textPrimary,
   },
-  columnWrapper: {
-    paddingHorizontal: GRID_GAP / 2,
-  },
-  photoItem: {
-    width: PHOTO_SIZE,
-    height: PHOTO_SIZE,
-    margin: GRID_GAP / 2,
-    backgroundColor: '#E0E0E0',
-    borderRadius: 4,
-    overflow: 'hidden',
-  },
-  photoImage: {
-    width: '100%',
-    height: '100%',
-  },
-  photoOverlay: {
-    position: 'absolute',
-    bottom: 0,
-    left: 0,
-    right: 0,
-    padding: 4,
-    backgroundColor: 'rgba(0, 0, 0, 0.3)',
-  },
-  photoStats: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
-  photoStatsText: {
-    fontSize: 11,
-    fontWeight: '500',
-    color: '#FFFFFF',
-  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,607 @@
+/**
+ * UserProfileScreen - Another user's public profile with photo grid
+ *
+ * Opened from author names on photo cards, photo details and comments.
+ * Displays the user's name, stats and a paginated photo grid using the
+ * same layout as ProfileScreen. Private profiles only show the name.
+ * The user can be blocked or unblocked here; a blocked user's stats and
+ * photos are hidden.
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Screen reader support for all UI elements
+ * - Minimum touch target size 44x44pt
+ * - Color contrast ratio 4.5:1 or higher
+ *
+ * Requirements: FR-9 (AC-9.1, AC-9.3, AC-9.5)
+ */
+
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import {
+  PhotoGridItem,
+  PHOTO_GRID_COLUMNS,
+  photoGridColumnWrapperStyle,
+} from '../../components/profile';
+import { useBlockUser } from '../../hooks/useBlockUser';
+import {
+  getUserPhotos,
+  getUserProfile,
+  isPrivateProfileError,
+  type PublicUserProfile,
+} from '../../services/userService';
+import { useBlockedUserIds } from '../../store/blockStore';
+import {
+  accessibleColors,
+  MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { UserProfileScreenProps } from '../../types/navigation';
+import type { Photo, PhotoListResponse } from '../../types/photo';
+
+const PHOTOS_PER_PAGE = 30;
+
+/**
+ * Format count for display with abbreviation
+ */
+const formatCount = (count: number): string => {
+  if (count >= 10000) {
+    return `${(count / 10000).toFixed(1)}`;
+  }
+  if (count >= 1000) {
+    return `${(count / 1000).toFixed(1)}k`;
+  }
+  return count.toString();
+};
+
+/**
+ * Get initials from display name
+ */
+const getInitials = (displayName: string): string => {
+  const parts = displayName.trim().split(/\s+/);
+  if (parts.length >= 2) {
+    return (parts[0][0] + parts[1][0]).toUpperCase();
+  }
+  return displayName.slice(0, 2).toUpperCase();
+};
+
+export const UserProfileScreen: React.FC<UserProfileScreenProps> = ({ navigation, route }) => {
+  const { userId, displayName: initialDisplayName } = route.params;
+  const { t } = useTranslation();
+  const { confirmBlockUser, confirmUnblockUser } = useBlockUser();
+  const isBlocked = useBlockedUserIds().has(userId);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Fetch the user's public profile
+  const {
+    data: profile,
+    isLoading: isLoadingProfile,
+    error: profileError,
+    refetch: refetchProfile,
+  } = useQuery<PublicUserProfile>({
+    queryKey: ['user', userId],
+    queryFn: () => getUserProfile(userId),
+    // A private profile will not become visible by retrying
+    retry: (failureCount, error) => !isPrivateProfileError(error) && failureCount < 3,
+  });
+
+  const isPrivate = profile?.isPublic === false || isPrivateProfileError(profileError);
+  const displayName = profile?.displayName ?? initialDisplayName ?? '';
+  // Stats and photos are not shown for private or blocked users
+  const isHidden = isPrivate || isBlocked;
+
+  // Fetch the user's photos page by page (AC-9.3)
+  const {
+    data: photosData,
+    isLoading: isLoadingPhotos,
+    error: photosError,
+    refetch: refetchPhotos,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['userPhotos', userId],
+    queryFn: ({ pageParam }) => getUserPhotos(userId, pageParam, PHOTOS_PER_PAGE),
+    getNextPageParam: (lastPage: PhotoListResponse) =>
+      lastPage.meta.currentPage < lastPage.meta.totalPages
+        ? lastPage.meta.currentPage + 1
+        : undefined,
+    initialPageParam: 1,
+    enabled: !!profile && !isHidden,
+  });
+
+  const photos = useMemo(() => photosData?.pages.flatMap((page) => page.data) ?? [], [photosData]);
+
+  // Show the user's name in the header once it is known
+  useEffect(() => {
+    if (displayName) {
+      navigation.setOptions({ title: displayName });
+    }
+  }, [navigation, displayName]);
+
+  // Handle refresh
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await refetchProfile();
+    if (!isHidden) {
+      await refetchPhotos();
+    }
+    setIsRefreshing(false);
+  }, [refetchProfile, refetchPhotos, isHidden]);
+
+  // Block or unblock the user
+  const handleToggleBlock = useCallback(() => {
+    const user = { id: userId, displayName, profileImageUrl: profile?.profileImageUrl };
+    if (isBlocked) {
+      confirmUnblockUser(user);
+    } else {
+      confirmBlockUser(user);
+    }
+  }, [userId, displayName, profile, isBlocked, confirmBlockUser, confirmUnblockUser]);
+
+  // Load the next page when the end of the grid is reached
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Navigate to photo detail (AC-9.5)
+  const handlePhotoPress = useCallback(
+    (photo: Photo) => {
+      navigation.push('PhotoDetail', { photoId: photo.id });
+    },
+    [navigation]
+  );
+
+  // Render photo grid item (AC-9.3)
+  const renderPhotoItem = useCallback(
+    ({ item, index }: { item: Photo; index: number }) => (
+      <PhotoGridItem
+        photo={item}
+        onPress={handlePhotoPress}
+        actionLabel={t('profile.photoAction')}
+        accessibilityHint={t('profile.photoActionHint')}
+        testID={`user-photo-grid-item-${index}`}
+      />
+    ),
+    [handlePhotoPress, t]
+  );
+
+  // Render header with profile info (AC-9.1)
+  const renderHeader = useCallback(() => {
+    const photosCount = profile?.stats.photosCount ?? 0;
+    const likesReceived = profile?.stats.totalLikesReceived ?? 0;
+    const commentsCount = profile?.stats.commentsCount ?? 0;
+
+    const profileAccessibilityLabel = createScreenReaderAnnouncement(
+      t('profile.profileSummary', { name: displayName }),
+      !isHidden ? t('profile.photosCount', { count: photosCount }) : undefined,
+      !isHidden ? t('profile.likesReceivedCount', { count: likesReceived }) : undefined
+    );
+
+    return (
+      <View accessible={false}>
+        {/* Profile Section */}
+        <View
+          style={styles.profileSection}
+          accessible={true}
+          accessibilityLabel={profileAccessibilityLabel}
+        >
+          {profile?.profileImageUrl ? (
+            <Image
+              source={{ uri: profile.profileImageUrl }}
+              style={styles.avatar}
+              contentFit="cover"
+              accessibilityLabel={t('profile.profilePicture', { name: displayName })}
+            />
+          ) : (
+            <View style={[styles.avatar, styles.avatarPlaceholder]}>
+              <Text style={styles.avatarText}>{getInitials(displayName || '?')}</Text>
+            </View>
+          )}
+
+          <Text
+            style={styles.userName}
+            accessible={false}
+            importantForAccessibility="no-hide-descendants"
+          >
+            {displayName}
+          </Text>
+        </View>
+
+        <View style={styles.profileActions}>
+          <TouchableOpacity
+            style={styles.blockButton}
+            onPress={handleToggleBlock}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t(isBlocked ? 'social.unblockUserOf' : 'social.blockUserOf', {
+              name: displayName,
+            })}
+            testID="user-profile-block-button"
+          >
+            <Ionicons name="ban-outline" size={16} color={accessibleColors.textSecondary} />
+            <Text style={styles.blockButtonText}>
+              {isBlocked ? t('social.unblock') : t('social.block')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isBlocked ? (
+          <View
+            style={styles.privateState}
+            accessible={true}
+            accessibilityLabel={createScreenReaderAnnouncement(
+              t('social.blockedTitle'),
+              t('social.blockedDescription')
+            )}
+            testID="user-profile-blocked"
+          >
+            <Ionicons name="eye-off-outline" size={48} color={accessibleColors.textSecondary} />
+            <Text style={styles.privateTitle}>{t('social.blockedTitle')}</Text>
+            <Text style={styles.privateDescription}>{t('social.blockedDescription')}</Text>
+          </View>
+        ) : isPrivate ? (
+          <View
+            style={styles.privateState}
+            accessible={true}
+            accessibilityLabel={createScreenReaderAnnouncement(
+              t('profile.privateTitle'),
+              t('profile.privateDescription')
+            )}
+            testID="user-profile-private"
+          >
+            <Ionicons name="lock-closed-outline" size={48} color={accessibleColors.textSecondary} />
+            <Text style={styles.privateTitle}>{t('profile.privateTitle')}</Text>
+            <Text style={styles.privateDescription}>{t('profile.privateDescription')}</Text>
+          </View>
+        ) : (
+          <>
+            {/* Stats Section (AC-9.1) */}
+            <View style={styles.statsSection} accessible={false}>
+              <View style={styles.statItem}>
+                <Text
+                  style={styles.statValue}
+                  accessible={true}
+                  accessibilityLabel={t('profile.photosCount', { count: photosCount })}
+                >
+                  {formatCount(photosCount)}
+                </Text>
+                <Text
+                  style={styles.statLabel}
+                  accessible={false}
+                  importantForAccessibility="no-hide-descendants"
+                >
+                  {t('profile.photos')}
+                </Text>
+              </View>
+              <View style={styles.statDivider} />
+              <View style={styles.statItem}>
+                <Text
+                  style={styles.statValue}
+                  accessible={true}
+                  accessibilityLabel={t('profile.likesReceivedCount', { count: likesReceived })}
+                >
+                  {formatCount(likesReceived)}
+                </Text>
+                <Text
+                  style={styles.statLabel}
+                  accessible={false}
+                  importantForAccessibility="no-hide-descendants"
+                >
+                  {t('profile.likesReceived')}
+                </Text>
+              </View>
+              <View style={styles.statDivider} />
+              <View style={styles.statItem}>
+                <Text
+                  style={styles.statValue}
+                  accessible={true}
+                  accessibilityLabel={t('profile.commentsCount', { count: commentsCount })}
+                >
+                  {formatCount(commentsCount)}
+                </Text>
+                <Text
+                  style={styles.statLabel}
+                  accessible={false}
+                  importantForAccessibility="no-hide-descendants"
+                >
+                  {t('profile.comments')}
+                </Text>
+              </View>
+            </View>
+
+            {/* Photos Section Header */}
+            <View style={styles.photosHeader}>
+              <Text style={styles.photosTitle} accessible={true} accessibilityRole="header">
+                {t('profile.userPhotos', { name: displayName })}
+              </Text>
+            </View>
+          </>
+        )}
+      </View>
+    );
+  }, [profile, displayName, isPrivate, isBlocked, isHidden, handleToggleBlock, t]);
+
+  // Render empty state
+  const renderEmptyState = useCallback(() => {
+    if (isHidden || isLoadingPhotos) return null;
+
+    return (
+      <View
+        style={styles.emptyState}
+        accessible={true}
+        accessibilityLabel={t('profile.noPhotosYet')}
+      >
+        <Ionicons name="camera-outline" size={64} color="#CCCCCC" />
+        <Text style={styles.emptyTitle}>{t('profile.noPhotosYet')}</Text>
+      </View>
+    );
+  }, [isHidden, isLoadingPhotos, t]);
+
+  // Render footer (loading more indicator)
+  const renderFooter = useCallback(() => {
+    if (!isFetchingNextPage) return null;
+
+    return (
+      <View
+        style={styles.loadingMore}
+        accessible={true}
+        accessibilityLabel={t('profile.loadingMorePhotos')}
+        accessibilityRole="progressbar"
+      >
+        <ActivityIndicator size="small" color={accessibleColors.primary} />
+      </View>
+    );
+  }, [isFetchingNextPage, t]);
+
+  // Loading state
+  if (isLoadingProfile) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={accessibleColors.primary} />
+          <Text style={styles.loadingText}>{t('profile.loadingProfile')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Error state (a private profile is not an error)
+  if ((profileError && !isPrivate) || (photosError && photos.length === 0)) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={64} color={accessibleColors.error} />
+          <Text style={styles.errorText}>{t('profile.loadError')}</Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={handleRefresh}
+            accessible={true}
+            accessibilityLabel={t('profile.retryLoad')}
+            accessibilityRole="button"
+          >
+            <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="user-profile-screen">
+      <FlatList
+        data={isHidden ? [] : photos}
+        renderItem={renderPhotoItem}
+        keyExtractor={(item) => item.id}
+        numColumns={PHOTO_GRID_COLUMNS}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={renderFooter}
+        contentContainerStyle={styles.listContent}
+        columnWrapperStyle={
+          !isHidden && photos.length > 0 ? photoGridColumnWrapperStyle : undefined
+        }
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={accessibleColors.primary}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+        accessible={true}
+        accessibilityLabel={t('profile.photoGallery', { name: displayName })}
+        accessibilityRole="list"
+        testID="user-profile-photo-grid"
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: accessibleColors.error,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: accessibleColors.primary,
+    borderRadius: 8,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    justifyContent: 'center',
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  listContent: {
+    flexGrow: 1,
+  },
+  profileSection: {
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    paddingVertical: 24,
+    paddingHorizontal: 16,
+  },
+  avatar: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    marginBottom: 16,
+  },
+  avatarPlaceholder: {
+    backgroundColor: accessibleColors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  userName: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  statsSection: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 20,
+    paddingHorizontal: 16,
+    marginTop: 1,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: accessibleColors.textPrimary,
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 13,
+    color: accessibleColors.textSecondary,
+  },
+  statDivider: {
+    width: 1,
+    height: '100%',
+    backgroundColor: '#E0E0E0',
+  },
+  photosHeader: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    marginTop: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  photosTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  profileActions: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    paddingBottom: 16,
+  },
+  blockButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: '#CCCCCC',
+  },
+  blockButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: accessibleColors.textSecondary,
+  },
+  privateState: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    marginTop: 8,
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  privateTitle: {
+    marginTop: 16,
+    fontSize: 18,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  privateDescription: {
+    marginTop: 8,
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    textAlign: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    marginTop: 16,
+    fontSize: 18,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  loadingMore: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+});
@@ -4,3 +4,4 @@
 
 export { ProfileScreen } from './ProfileScreen';
 export { EditProfileScreen } from './EditProfileScreen';
+export { UserProfileScreen } from './UserProfileScreen';
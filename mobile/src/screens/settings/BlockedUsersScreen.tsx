@@ -0,0 +1,277 @@
+/**
+ * BlockedUsersScreen - Users the signed-in user has blocked
+ *
+ * Features:
+ * - List of blocked users, most recent first
+ * - Unblock with confirmation
+ * - Pull to refresh
+ *
+ * Accessibility features (WCAG 2.1 AA):
+ * - Each row is announced with the user's name and block date
+ * - Minimum touch target size 44x44pt for unblock buttons
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useBlockUser } from '../../hooks/useBlockUser';
+import { useBlockStore, useBlockedUsers } from '../../store/blockStore';
+import {
+  accessibleColors,
+  MIN_TOUCH_TARGET_SIZE,
+  createScreenReaderAnnouncement,
+} from '../../utils/accessibility';
+
+import type { BlockedUser } from '../../services/userService';
+import type { BlockedUsersScreenProps } from '../../types/navigation';
+
+/**
+ * Get initials from display name
+ */
+const getInitials = (displayName: string): string => {
+  const parts = displayName.trim().split(/\s+/);
+  if (parts.length >= 2) {
+    return (parts[0][0] + parts[1][0]).toUpperCase();
+  }
+  return displayName.slice(0, 2).toUpperCase();
+};
+
+export const BlockedUsersScreen: React.FC<BlockedUsersScreenProps> = () => {
+  const { t, i18n } = useTranslation();
+  const { confirmUnblockUser } = useBlockUser();
+  const blockedUsers = useBlockedUsers();
+  const isLoading = useBlockStore((state) => state.isLoading);
+  const error = useBlockStore((state) => state.error);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Refresh the list on mount in case blocks changed on another device
+  useEffect(() => {
+    useBlockStore.getState().fetchBlockedUsers();
+  }, []);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await useBlockStore.getState().fetchBlockedUsers();
+    setIsRefreshing(false);
+  }, []);
+
+  const formatBlockedAt = useCallback(
+    (dateString: string): string => {
+      const date = new Date(dateString);
+      if (Number.isNaN(date.getTime())) {
+        return dateString;
+      }
+      return date.toLocaleDateString(i18n.language, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      });
+    },
+    [i18n.language]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: BlockedUser }) => {
+      const blockedOn = t('settings.blockedOn', { date: formatBlockedAt(item.blockedAt) });
+
+      return (
+        <View style={styles.row} testID={`blocked-user-${item.id}`}>
+          <View
+            style={styles.userInfo}
+            accessible={true}
+            accessibilityLabel={createScreenReaderAnnouncement(item.displayName, blockedOn)}
+          >
+            {item.profileImageUrl ? (
+              <Image
+                source={{ uri: item.profileImageUrl }}
+                style={styles.avatar}
+                contentFit="cover"
+                accessible={false}
+              />
+            ) : (
+              <View style={[styles.avatar, styles.avatarPlaceholder]}>
+                <Text style={styles.avatarText}>{getInitials(item.displayName || '?')}</Text>
+              </View>
+            )}
+            <View style={styles.userText}>
+              <Text style={styles.userName} numberOfLines={1}>
+                {item.displayName}
+              </Text>
+              <Text style={styles.blockedOn}>{blockedOn}</Text>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={styles.unblockButton}
+            onPress={() => confirmUnblockUser(item)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={t('social.unblockUserOf', { name: item.displayName })}
+            testID={`blocked-user-unblock-${item.id}`}
+          >
+            <Text style={styles.unblockButtonText}>{t('social.unblock')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [t, formatBlockedAt, confirmUnblockUser]
+  );
+
+  const renderEmptyState = useCallback(() => {
+    if (isLoading) {
+      return (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={accessibleColors.primary} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerContainer} accessible={true} accessibilityRole="alert">
+          <Ionicons name="alert-circle-outline" size={48} color={accessibleColors.error} />
+          <Text style={styles.emptyTitle}>{t('settings.loadBlockedUsersError')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View
+        style={styles.centerContainer}
+        accessible={true}
+        accessibilityLabel={createScreenReaderAnnouncement(
+          t('settings.noBlockedUsers'),
+          t('settings.noBlockedUsersDesc')
+        )}
+        testID="blocked-users-empty"
+      >
+        <Ionicons name="ban-outline" size={48} color={accessibleColors.textSecondary} />
+        <Text style={styles.emptyTitle}>{t('settings.noBlockedUsers')}</Text>
+        <Text style={styles.emptyDescription}>{t('settings.noBlockedUsersDesc')}</Text>
+      </View>
+    );
+  }, [isLoading, error, t]);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']} testID="blocked-users-screen">
+      <FlatList
+        data={blockedUsers}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ListEmptyComponent={renderEmptyState}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        contentContainerStyle={blockedUsers.length === 0 ? styles.listContentEmpty : undefined}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={accessibleColors.primary}
+          />
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  userInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    backgroundColor: accessibleColors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  userText: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+  },
+  blockedOn: {
+    fontSize: 13,
+    color: accessibleColors.textSecondary,
+    marginTop: 2,
+  },
+  unblockButton: {
+    minHeight: MIN_TOUCH_TARGET_SIZE,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: accessibleColors.primary,
+    marginLeft: 12,
+  },
+  unblockButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: accessibleColors.primary,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#E0E0E0',
+    marginLeft: 72,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: accessibleColors.textPrimary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: 14,
+    color: accessibleColors.textSecondary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
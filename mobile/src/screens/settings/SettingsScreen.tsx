@@ -4,6 +4,8 @@
  * Features:
  * - Notification settings (push notifications, rainbow alerts)
  * - Privacy settings (public profile, blocked users)
+ * - Toggles are loaded from the server and saved optimistically,
+ *   rolling back if the update fails
  * - Data management (export, account deletion)
  * - Language settings with Japanese/English support (NFR-5)
  *
@@ -27,6 +29,7 @@ import {
   Alert,
 } from 'react-native';
 
+import { useFocusEffect } from '@react-navigation/native';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
@@ -39,19 +42,33 @@ import {
   getDeletionStatus,
   getErrorMessage,
   logout,
+  getNotificationSettings,
+  updateNotificationSettings,
+  getMyProfile,
+  updateMyProfile,
 } from '../../services';
 
 import type { SupportedLanguage } from '../../i18n';
 import type { DeletionStatusResponse } from '../../services/dataManagementService';
 import type { SettingsScreenProps } from '../../types/navigation';
 
+/**
+ * Switches on this screen. Push and rainbow alerts are notification
+ * settings; public profile is part of the user's profile.
+ */
+type ToggleSetting = 'pushNotifications' | 'rainbowAlerts' | 'publicProfile';
+
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const { t } = useTranslation();
   const { currentLanguage, changeLanguage } = useLanguage();
 
-  const [pushNotifications, setPushNotifications] = useState(true);
-  const [rainbowAlerts, setRainbowAlerts] = useState(true);
-  const [publicProfile, setPublicProfile] = useState(false);
+  // Toggle settings (server defaults until loaded)
+  const [toggles, setToggles] = useState<Record<ToggleSetting, boolean>>({
+    pushNotifications: true,
+    rainbowAlerts: true,
+    publicProfile: true,
+  });
+  const [isLoadingToggles, setIsLoadingToggles] = useState(true);
 
   // Data management state
   const [isLoading, setIsLoading] = useState(false);
@@ -78,6 +95,68 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     fetchDeletionStatus();
   }, [fetchDeletionStatus]);
 
+  // Fetch toggle settings whenever the screen is shown
+  // (rainbow alerts can also be changed from the advanced settings screen)
+  const fetchToggleSettings = useCallback(async () => {
+    const [settingsResult, profileResult] = await Promise.allSettled([
+      getNotificationSettings(),
+      getMyProfile(),
+    ]);
+
+    setToggles((prev) => ({
+      pushNotifications:
+        settingsResult.status === 'fulfilled'
+          ? settingsResult.value.pushEnabled
+          : prev.pushNotifications,
+      rainbowAlerts:
+        settingsResult.status === 'fulfilled'
+          ? settingsResult.value.rainbowAlerts
+          : prev.rainbowAlerts,
+      publicProfile:
+        profileResult.status === 'fulfilled' ? profileResult.value.isPublic : prev.publicProfile,
+    }));
+
+    if (settingsResult.status === 'rejected') {
+      console.warn('Failed to fetch notification settings:', getErrorMessage(settingsResult.reason));
+    }
+    if (profileResult.status === 'rejected') {
+      console.warn('Failed to fetch profile settings:', getErrorMessage(profileResult.reason));
+    }
+    setIsLoadingToggles(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchToggleSettings();
+    }, [fetchToggleSettings])
+  );
+
+  // Save a toggle on the server
+  const updateToggle = useCallback(
+    async (key: ToggleSetting, value: boolean) => {
+      const previousValue = toggles[key];
+
+      // Optimistic update
+      setToggles((prev) => ({ ...prev, [key]: value }));
+
+      try {
+        if (key === 'publicProfile') {
+          await updateMyProfile({ publicProfile: value });
+        } else if (key === 'pushNotifications') {
+          await updateNotificationSettings({ pushEnabled: value });
+        } else {
+          await updateNotificationSettings({ rainbowAlerts: value });
+        }
+      } catch (error) {
+        console.warn('Failed to update setting:', getErrorMessage(error));
+        // Revert on failure, unless a newer change has replaced this one
+        setToggles((prev) => (prev[key] === value ? { ...prev, [key]: previousValue } : prev));
+        Alert.alert(t('common.error'), t('settings.updateSettingError'));
+      }
+    },
+    [toggles, t]
+  );
+
   // Handle data export request
   const handleExportData = async () => {
     setIsLoading(true);
@@ -215,9 +294,12 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
               </Text>
             </View>
             <Switch
-              value={pushNotifications}
-              onValueChange={setPushNotifications}
+              value={toggles.pushNotifications}
+              onValueChange={(value) => updateToggle('pushNotifications', value)}
+              disabled={isLoadingToggles}
               trackColor={{ false: '#ddd', true: '#4A90A4' }}
+              accessibilityLabel={t('settings.pushNotifications')}
+              testID="settings-push-notifications-switch"
             />
           </View>
 
@@ -231,9 +313,12 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
               </Text>
             </View>
             <Switch
-              value={rainbowAlerts}
-              onValueChange={setRainbowAlerts}
+              value={toggles.rainbowAlerts}
+              onValueChange={(value) => updateToggle('rainbowAlerts', value)}
+              disabled={isLoadingToggles}
               trackColor={{ false: '#ddd', true: '#4A90A4' }}
+              accessibilityLabel={t('settings.rainbowAlerts')}
+              testID="settings-rainbow-alerts-switch"
             />
           </View>
 
@@ -261,16 +346,24 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
               </Text>
             </View>
             <Switch
-              value={publicProfile}
-              onValueChange={setPublicProfile}
+              value={toggles.publicProfile}
+              onValueChange={(value) => updateToggle('publicProfile', value)}
+              disabled={isLoadingToggles}
               trackColor={{ false: '#ddd', true: '#4A90A4' }}
+              accessibilityLabel={t('settings.publicProfile')}
+              testID="settings-public-profile-switch"
             />
           </View>
 
-          <TouchableOpacity style={styles.settingButton}>
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={() => navigation.navigate('BlockedUsers')}
+            testID="settings-blocked-users-button"
+          >
             <Text style={styles.settingButtonText}>
               {t('settings.manageBlockedUsers')}
             </Text>
+            <Text style={styles.settingValue}>{'>'}</Text>
           </TouchableOpacity>
         </View>
 
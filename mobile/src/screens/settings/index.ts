@@ -4,3 +4,4 @@
 
 export { SettingsScreen } from './SettingsScreen';
 export { NotificationSettingsScreen } from './NotificationSettingsScreen';
+export { BlockedUsersScreen } from './BlockedUsersScreen';
@@ -0,0 +1,386 @@
+/**
+ * Admin Service
+ *
+ * Client for the admin-only moderation endpoints. Every call requires the
+ * signed-in user to have the `admin` role; the API answers 403 otherwise.
+ *
+ * Features:
+ * - Report list with status/content type filters and pagination
+ * - Report detail with the reported content and its owner
+ * - Processing a report (approve, hide or delete the content)
+ *
+ * Requirements: FR-10 (AC-10.1 to AC-10.4)
+ */
+
+import { apiClient } from './apiClient';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Report review status
+ */
+export type ReportStatus = 'pending' | 'resolved' | 'dismissed';
+
+/**
+ * Type of the reported content
+ */
+export type ReportedContentType = 'Photo' | 'Comment';
+
+/**
+ * Moderation action for a report
+ * - approve: the content stays visible and the report is dismissed
+ * - hide: the content is hidden from public view
+ * - delete: the content is soft deleted
+ */
+export type ModerationAction = 'approve' | 'hide' | 'delete';
+
+/**
+ * Report list filters
+ */
+export interface ReportFilters {
+  status?: ReportStatus;
+  reportableType?: ReportedContentType;
+  page?: number;
+  perPage?: number;
+}
+
+/**
+ * Report as shown in the moderation list
+ */
+export interface ModerationReport {
+  id: string;
+  /** Reason value from REPORT_REASONS (or free text from older clients) */
+  reason: string;
+  status: ReportStatus;
+  adminNote: string | null;
+  reporter: { id: string; displayName: string } | null;
+  reportable: {
+    id: string;
+    type: ReportedContentType;
+    /** Photo title or truncated comment text */
+    preview: string | null;
+  } | null;
+  contentOwner: { id: string; displayName: string; violationFlagged: boolean } | null;
+  createdAt: string;
+}
+
+/**
+ * Report with the full reported content, for the detail screen
+ */
+export interface ModerationReportDetail extends Omit<
+  ModerationReport,
+  'reportable' | 'contentOwner'
+> {
+  reportable: {
+    id: string;
+    type: ReportedContentType;
+    title?: string;
+    description?: string;
+    /** Comment text */
+    content?: string;
+    imageUrl?: string;
+    moderationStatus?: string;
+    isVisible: boolean;
+    /** Photo a reported comment belongs to */
+    photoId?: string;
+  } | null;
+  contentOwner: {
+    id: string;
+    displayName: string;
+    violationFlagged: boolean;
+    violationCount: number;
+    totalReportsAgainst: number;
+  } | null;
+  relatedReports: { id: string; status: ReportStatus; reason: string; createdAt: string }[];
+}
+
+/**
+ * Paginated report list with status counts
+ */
+export interface ReportListResult {
+  reports: ModerationReport[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalCount: number;
+    perPage: number;
+  };
+  stats: {
+    pendingCount: number;
+    resolvedCount: number;
+    dismissedCount: number;
+  };
+}
+
+/**
+ * Result of processing a report
+ */
+export interface ProcessReportResult {
+  report: ModerationReportDetail;
+  message: string;
+  /** The content owner reached the violation threshold with this decision */
+  userFlagged: boolean;
+}
+
+/** Raw user summary from the API */
+interface RawUserSummary {
+  id: string;
+  display_name?: string;
+  displayName?: string;
+  violation_flagged?: boolean;
+  violationFlagged?: boolean;
+  violation_count?: number;
+  violationCount?: number;
+  total_reports_against?: number;
+  totalReportsAgainst?: number;
+}
+
+/** Raw reportable content from the API */
+interface RawReportable {
+  id: string;
+  type: ReportedContentType;
+  preview?: string | null;
+  title?: string | null;
+  description?: string | null;
+  content?: string | null;
+  image_url?: string | null;
+  imageUrl?: string | null;
+  moderation_status?: string;
+  moderationStatus?: string;
+  is_visible?: boolean;
+  isVisible?: boolean;
+  photo_id?: string;
+  photoId?: string;
+}
+
+/** Raw report from the API (snake_case or camelCase) */
+interface RawReport {
+  id: string;
+  reason: string;
+  status: ReportStatus;
+  admin_note?: string | null;
+  adminNote?: string | null;
+  reporter?: RawUserSummary | null;
+  reportable?: RawReportable | null;
+  content_owner?: RawUserSummary | null;
+  contentOwner?: RawUserSummary | null;
+  created_at?: string;
+  createdAt?: string;
+  related_reports?: RawRelatedReport[];
+  relatedReports?: RawRelatedReport[];
+}
+
+interface RawRelatedReport {
+  id: string;
+  status: ReportStatus;
+  reason: string;
+  created_at?: string;
+  createdAt?: string;
+}
+
+interface RawReportListResponse {
+  reports: RawReport[];
+  pagination?: {
+    current_page?: number;
+    currentPage?: number;
+    total_pages?: number;
+    totalPages?: number;
+    total_count?: number;
+    totalCount?: number;
+    per_page?: number;
+    perPage?: number;
+  };
+  stats?: {
+    pending_count?: number;
+    pendingCount?: number;
+    resolved_count?: number;
+    resolvedCount?: number;
+    dismissed_count?: number;
+    dismissedCount?: number;
+  };
+}
+
+interface RawProcessReportResponse {
+  report: RawReport;
+  message?: string;
+  user_flagged?: boolean;
+  userFlagged?: boolean;
+}
+
+// ============================================
+// Transformers
+// ============================================
+
+const transformUserSummary = (user: RawUserSummary) => ({
+  id: user.id,
+  displayName: user.display_name ?? user.displayName ?? '',
+});
+
+/**
+ * Transform a report list item from API response to local type
+ */
+const transformReport = (report: RawReport): ModerationReport => {
+  const owner = report.content_owner ?? report.contentOwner;
+
+  return {
+    id: report.id,
+    reason: report.reason,
+    status: report.status,
+    adminNote: report.admin_note ?? report.adminNote ?? null,
+    reporter: report.reporter ? transformUserSummary(report.reporter) : null,
+    reportable: report.reportable
+      ? {
+          id: report.reportable.id,
+          type: report.reportable.type,
+          preview: report.reportable.preview ?? null,
+        }
+      : null,
+    contentOwner: owner
+      ? {
+          ...transformUserSummary(owner),
+          violationFlagged: owner.violation_flagged ?? owner.violationFlagged ?? false,
+        }
+      : null,
+    createdAt: report.created_at ?? report.createdAt ?? '',
+  };
+};
+
+/**
+ * Transform a report detail from API response to local type
+ */
+const transformReportDetail = (report: RawReport): ModerationReportDetail => {
+  const { reportable } = report;
+  const owner = report.content_owner ?? report.contentOwner;
+
+  return {
+    ...transformReport(report),
+    reportable: reportable
+      ? {
+          id: reportable.id,
+          type: reportable.type,
+          title: reportable.title ?? undefined,
+          description: reportable.description ?? undefined,
+          content: reportable.content ?? undefined,
+          imageUrl: reportable.image_url ?? reportable.imageUrl ?? undefined,
+          moderationStatus: reportable.moderation_status ?? reportable.moderationStatus,
+          isVisible: reportable.is_visible ?? reportable.isVisible ?? true,
+          photoId: reportable.photo_id ?? reportable.photoId,
+        }
+      : null,
+    contentOwner: owner
+      ? {
+          ...transformUserSummary(owner),
+          violationFlagged: owner.violation_flagged ?? owner.violationFlagged ?? false,
+          violationCount: owner.violation_count ?? owner.violationCount ?? 0,
+          totalReportsAgainst: owner.total_reports_against ?? owner.totalReportsAgainst ?? 0,
+        }
+      : null,
+    relatedReports: (report.related_reports ?? report.relatedReports ?? []).map((related) => ({
+      id: related.id,
+      status: related.status,
+      reason: related.reason,
+      createdAt: related.created_at ?? related.createdAt ?? '',
+    })),
+  };
+};
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * Get reports for moderation
+ * Requirements: FR-10 (AC-10.1)
+ * @param filters Status/content type filters and pagination
+ */
+export const getReports = async (filters: ReportFilters = {}): Promise<ReportListResult> => {
+  const params: Record<string, string | number> = {
+    page: filters.page ?? 1,
+    per_page: filters.perPage ?? 20,
+  };
+  if (filters.status) {
+    params.status = filters.status;
+  }
+  if (filters.reportableType) {
+    params.reportable_type = filters.reportableType;
+  }
+
+  const response = await apiClient.get<{ data: RawReportListResponse }>('/admin/reports', {
+    params,
+  });
+
+  const data = response.data.data;
+  const pagination = data.pagination ?? {};
+  const stats = data.stats ?? {};
+
+  return {
+    reports: (data.reports || []).map(transformReport),
+    pagination: {
+      currentPage: pagination.current_page ?? pagination.currentPage ?? 1,
+      totalPages: pagination.total_pages ?? pagination.totalPages ?? 1,
+      totalCount: pagination.total_count ?? pagination.totalCount ?? 0,
+      perPage: pagination.per_page ?? pagination.perPage ?? 20,
+    },
+    stats: {
+      pendingCount: stats.pending_count ?? stats.pendingCount ?? 0,
+      resolvedCount: stats.resolved_count ?? stats.resolvedCount ?? 0,
+      dismissedCount: stats.dismissed_count ?? stats.dismissedCount ?? 0,
+    },
+  };
+};
+
+/**
+ * Get a report with the reported content and its owner
+ * Requirements: FR-10 (AC-10.1)
+ * @param reportId Report ID
+ */
+export const getReport = async (reportId: string): Promise<ModerationReportDetail> => {
+  const response = await apiClient.get<{ data: { report: RawReport } }>(
+    `/admin/reports/${reportId}`
+  );
+
+  return transformReportDetail(response.data.data.report);
+};
+
+/**
+ * Process a report
+ * Hiding or deleting notifies the content owner and may flag them once they
+ * reach the violation threshold.
+ * Requirements: FR-10 (AC-10.2, AC-10.3, AC-10.4)
+ * @param reportId Report ID
+ * @param action Moderation action
+ * @param adminNote Optional note about the decision
+ */
+export const processReport = async (
+  reportId: string,
+  action: ModerationAction,
+  adminNote?: string
+): Promise<ProcessReportResult> => {
+  const body: Record<string, string> = { moderation_action: action };
+  if (adminNote) {
+    body.admin_note = adminNote;
+  }
+
+  const response = await apiClient.post<{ data: RawProcessReportResponse }>(
+    `/admin/reports/${reportId}/process`,
+    body
+  );
+
+  const data = response.data.data;
+  return {
+    report: transformReportDetail(data.report),
+    message: data.message ?? '',
+    userFlagged: data.user_flagged ?? data.userFlagged ?? false,
+  };
+};
+
+/**
+ * Admin service object for convenience
+ */
+export const adminService = {
+  getReports,
+  getReport,
+  processReport,
+};
@@ -116,6 +116,11 @@ const createApiClient = (): AxiosInstance => {
   client.interceptors.response.use(
     (response) => response,
     async (error: AxiosError<ApiError>) => {
+      // Keep aborted requests recognizable (axios.isCancel) for callers
+      if (axios.isCancel(error)) {
+        return Promise.reject(error);
+      }
+
       // Track 5xx errors as Sentry breadcrumbs
       if (error.response && error.response.status >= 500) {
         addBreadcrumb('http', `Server error ${error.response.status}`, {
@@ -199,7 +204,14 @@ const refreshAccessToken = async (refreshToken: string): Promise<string> => {
 };
 
 /**
- * Normalize axios errors to a consistent format
+ * Axios error codes of requests that never reached the server
+ */
+const NETWORK_ERROR_CODES = ['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Normalize axios errors to a consistent format.
+ * Errors for requests that got a response carry its HTTP `status`;
+ * the others are flagged with `isNetworkError`.
  */
 const normalizeError = (error: AxiosError<ApiError>): Error => {
   if (error.response?.data?.error) {
@@ -207,21 +219,29 @@ const normalizeError = (error: AxiosError<ApiError>): Error => {
     const normalizedError = new Error(apiError.message) as Error & {
       code?: number;
       details?: Record<string, unknown>;
+      status?: number;
     };
     normalizedError.code = apiError.code;
     normalizedError.details = apiError.details;
+    normalizedError.status = error.response.status;
     return normalizedError;
   }
 
   if (error.code === 'ECONNABORTED') {
-    return new Error('Request timed out. Please check your connection.');
+    return Object.assign(new Error('Request timed out. Please check your connection.'), {
+      isNetworkError: true,
+    });
   }
 
   if (!error.response) {
-    return new Error('Network error. Please check your internet connection.');
+    return Object.assign(new Error('Network error. Please check your internet connection.'), {
+      isNetworkError: true,
+    });
   }
 
-  return new Error(error.message || 'An unexpected error occurred.');
+  return Object.assign(new Error(error.message || 'An unexpected error occurred.'), {
+    status: error.response.status,
+  });
 };
 
 /**
@@ -254,6 +274,31 @@ export const getErrorMessage = (error: unknown): string => {
   return 'An unexpected error occurred';
 };
 
+/**
+ * Helper to get the HTTP status of a failed request
+ * @returns undefined when no response was received (offline, timeout)
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  if (error instanceof AxiosError) {
+    return error.response?.status;
+  }
+  if (error instanceof Error && 'status' in error) {
+    return (error as Error & { status?: number }).status;
+  }
+  return undefined;
+};
+
+/**
+ * Helper to check if a request failed without reaching the server
+ * (offline, dropped connection, timeout)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (error instanceof AxiosError) {
+    return !error.response && NETWORK_ERROR_CODES.includes(error.code ?? '');
+  }
+  return (error as { isNetworkError?: unknown } | null)?.isNetworkError === true;
+};
+
 /**
  * Helper to get error code from API error
  */
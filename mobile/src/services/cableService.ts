@@ -7,20 +7,58 @@
  * Channels:
  * - PhotoFeedChannel: new photo broadcasts
  * - NotificationsChannel: per-user like/comment/alert notifications
+ * - RainbowMomentChannel: participation and live photos for an active moment
+ *
+ * Connection management:
+ * - Subscriptions are kept in a registry, so several screens can listen to
+ *   the same channel and everything is resubscribed after a reconnect
+ * - A new access token (e.g. after a refresh in apiClient) reconnects the
+ *   socket so the server sees the current token
+ * - When the server drops the connection without retrying (e.g. an expired
+ *   token), reconnects back off exponentially up to RECONNECT_MAX_DELAY_MS
  *
  * Requirements: F-5 (Real-time Updates)
  */
 
 import { createConsumer, Consumer, Subscription } from '@rails/actioncable';
 
-import { getAccessToken } from './tokenStorage';
+import { addAccessTokenListener, getAccessToken } from './tokenStorage';
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
 
+/** First reconnect delay; doubled after each failed attempt */
+const RECONNECT_BASE_DELAY_MS = 1000;
+/** Upper bound for the reconnect delay */
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * Connection state
+ * - disconnected: not connected (logged out or never connected)
+ * - connecting: socket is being opened
+ * - connected: at least one channel is confirmed
+ * - reconnecting: connection lost, waiting for the next attempt
+ */
+export type CableConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+type ChannelParams = string | { channel: string; [key: string]: unknown };
+
+/** A registered channel and everyone listening to it */
+interface ChannelEntry {
+  params: ChannelParams;
+  handlers: Set<(data: unknown) => void>;
+  subscription: Subscription | null;
+}
+
 let consumer: Consumer | null = null;
-let photoFeedSubscription: Subscription | null = null;
-let notificationsSubscription: Subscription | null = null;
-let rainbowMomentSubscription: Subscription | null = null;
+let connectionState: CableConnectionState = 'disconnected';
+let shouldConnect = false;
+let pendingConnect: Promise<void> | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let removeTokenListener: (() => void) | null = null;
+
+const channels = new Map<string, ChannelEntry>();
+const connectionStateListeners = new Set<(state: CableConnectionState) => void>();
 
 /**
  * Build the WebSocket URL with JWT token for authentication.
@@ -31,40 +69,235 @@ async function buildCableUrl(): Promise<string> {
   return `${wsBase}/cable?token=${token ?? ''}`;
 }
 
+const getChannelKey = (params: ChannelParams): string => JSON.stringify(params);
+
+function setConnectionState(state: CableConnectionState): void {
+  if (connectionState === state) {
+    return;
+  }
+  connectionState = state;
+  connectionStateListeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Create the ActionCable subscription for a registered channel.
+ * Callbacks from a consumer that has since been replaced are ignored.
+ */
+function createChannelSubscription(entry: ChannelEntry): void {
+  if (!consumer) {
+    return;
+  }
+
+  const owner = consumer;
+  entry.subscription = owner.subscriptions.create(entry.params, {
+    connected() {
+      if (owner !== consumer) return;
+      reconnectAttempts = 0;
+      setConnectionState('connected');
+    },
+    disconnected(data) {
+      if (owner !== consumer) return;
+      if (data?.willAttemptReconnect) {
+        // ActionCable retries on its own with the same URL
+        setConnectionState('reconnecting');
+      } else {
+        scheduleReconnect();
+      }
+    },
+    rejected() {
+      console.warn(`[Cable] Subscription rejected: ${getChannelKey(entry.params)}`);
+    },
+    received(data: unknown) {
+      entry.handlers.forEach((handler) => handler(data));
+    },
+  });
+}
+
+/**
+ * Open a consumer with the current token and subscribe all registered channels.
+ */
+function openConsumer(): Promise<void> {
+  if (consumer) {
+    return Promise.resolve();
+  }
+
+  if (!pendingConnect) {
+    pendingConnect = (async () => {
+      if (connectionState === 'disconnected') {
+        setConnectionState('connecting');
+      }
+
+      const url = await buildCableUrl();
+      // Logged out while the token was being read
+      if (!shouldConnect || consumer) {
+        return;
+      }
+
+      consumer = createConsumer(url);
+      channels.forEach(createChannelSubscription);
+    })().finally(() => {
+      pendingConnect = null;
+    });
+  }
+
+  return pendingConnect;
+}
+
+/**
+ * Drop the current consumer. Registered channels are kept for the next one.
+ */
+function closeConsumer(): void {
+  channels.forEach((entry) => {
+    entry.subscription = null;
+  });
+  if (consumer) {
+    const closing = consumer;
+    consumer = null;
+    closing.disconnect();
+  }
+}
+
+/**
+ * Replace the consumer so the socket authenticates with the latest token.
+ */
+async function reopenConsumer(): Promise<void> {
+  closeConsumer();
+  await openConsumer();
+}
+
+function scheduleReconnect(): void {
+  if (!shouldConnect || reconnectTimer) {
+    return;
+  }
+
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+  reconnectAttempts += 1;
+  setConnectionState('reconnecting');
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    reopenConsumer().catch((error) => {
+      console.warn('[Cable] Reconnect failed:', error);
+      scheduleReconnect();
+    });
+  }, delay);
+}
+
+function clearReconnectTimer(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  reconnectAttempts = 0;
+}
+
+/**
+ * Register a handler for a channel, sharing one subscription per channel.
+ * The subscription is created now if connected, otherwise on connect.
+ * @returns function that removes the handler
+ */
+function subscribeToChannel<T>(
+  params: ChannelParams,
+  onReceived: (message: T) => void
+): () => void {
+  const key = getChannelKey(params);
+  let entry = channels.get(key);
+
+  if (!entry) {
+    entry = { params, handlers: new Set(), subscription: null };
+    channels.set(key, entry);
+    createChannelSubscription(entry);
+  }
+
+  const handler = onReceived as (data: unknown) => void;
+  entry.handlers.add(handler);
+
+  return () => {
+    const current = channels.get(key);
+    if (!current) {
+      return;
+    }
+    current.handlers.delete(handler);
+    if (current.handlers.size === 0) {
+      current.subscription?.unsubscribe();
+      channels.delete(key);
+    }
+  };
+}
+
 /**
  * Connect to ActionCable.
  * Call after successful login or session restore.
  */
 export async function connectCable(): Promise<void> {
-  if (consumer) {
-    return; // Already connected
+  shouldConnect = true;
+
+  if (!removeTokenListener) {
+    removeTokenListener = addAccessTokenListener(() => {
+      if (consumer) {
+        clearReconnectTimer();
+        reopenConsumer().catch((error) => {
+          console.warn('[Cable] Reconnect with new token failed:', error);
+          scheduleReconnect();
+        });
+      }
+    });
   }
 
-  const url = await buildCableUrl();
-  consumer = createConsumer(url);
+  await openConsumer();
 }
 
 /**
  * Disconnect from ActionCable.
- * Call on logout.
+ * Call on logout. Removes every subscription.
  */
 export function disconnectCable(): void {
-  if (photoFeedSubscription) {
-    photoFeedSubscription.unsubscribe();
-    photoFeedSubscription = null;
-  }
-  if (notificationsSubscription) {
-    notificationsSubscription.unsubscribe();
-    notificationsSubscription = null;
-  }
-  if (rainbowMomentSubscription) {
-    rainbowMomentSubscription.unsubscribe();
-    rainbowMomentSubscription = null;
+  shouldConnect = false;
+  clearReconnectTimer();
+
+  if (removeTokenListener) {
+    removeTokenListener();
+    removeTokenListener = null;
   }
-  if (consumer) {
-    consumer.disconnect();
-    consumer = null;
+
+  channels.forEach((entry) => {
+    entry.subscription?.unsubscribe();
+  });
+  channels.clear();
+
+  closeConsumer();
+  setConnectionState('disconnected');
+}
+
+/**
+ * Reconnect now with a fresh token, e.g. when the user taps retry.
+ */
+export async function reconnectCable(): Promise<void> {
+  if (!shouldConnect) {
+    return;
   }
+  clearReconnectTimer();
+  await reopenConsumer();
+}
+
+/**
+ * Current connection state
+ */
+export function getCableConnectionState(): CableConnectionState {
+  return connectionState;
+}
+
+/**
+ * Listen for connection state changes.
+ * @returns function that removes the listener
+ */
+export function addCableConnectionListener(
+  listener: (state: CableConnectionState) => void
+): () => void {
+  connectionStateListeners.add(listener);
+  return () => {
+    connectionStateListeners.delete(listener);
+  };
 }
 
 /** Payload received from the PhotoFeedChannel */
@@ -73,11 +306,13 @@ export interface PhotoFeedMessage {
   photo: {
     id: string;
     title?: string;
+    description?: string;
     user: { id: string; display_name: string };
-    latitude: number;
-    longitude: number;
+    latitude: number | null;
+    longitude: number | null;
     thumbnail_url: string | null;
-    captured_at: string;
+    medium_url?: string | null;
+    captured_at: string | null;
     created_at: string;
   };
 }
@@ -87,24 +322,8 @@ export interface PhotoFeedMessage {
  * @param onReceived callback for each new photo broadcast
  * @returns unsubscribe function
  */
-export function subscribeToPhotoFeed(
-  onReceived: (message: PhotoFeedMessage) => void
-): () => void {
-  if (!consumer) {
-    console.warn('[Cable] Not connected — call connectCable() first');
-    return () => {};
-  }
-
-  photoFeedSubscription = consumer.subscriptions.create('PhotoFeedChannel', {
-    received(data: PhotoFeedMessage) {
-      onReceived(data);
-    },
-  });
-
-  return () => {
-    photoFeedSubscription?.unsubscribe();
-    photoFeedSubscription = null;
-  };
+export function subscribeToPhotoFeed(onReceived: (message: PhotoFeedMessage) => void): () => void {
+  return subscribeToChannel('PhotoFeedChannel', onReceived);
 }
 
 /** Payload received from the NotificationsChannel */
@@ -129,27 +348,23 @@ export interface NotificationMessage {
 export function subscribeToNotifications(
   onReceived: (message: NotificationMessage) => void
 ): () => void {
-  if (!consumer) {
-    console.warn('[Cable] Not connected — call connectCable() first');
-    return () => {};
-  }
-
-  notificationsSubscription = consumer.subscriptions.create('NotificationsChannel', {
-    received(data: NotificationMessage) {
-      onReceived(data);
-    },
-  });
-
-  return () => {
-    notificationsSubscription?.unsubscribe();
-    notificationsSubscription = null;
-  };
+  return subscribeToChannel('NotificationsChannel', onReceived);
 }
 
 /** Payload received from the RainbowMomentChannel */
 export interface RainbowMomentMessage {
-  type: 'initial_state' | 'participant_joined' | 'participant_left' | 'participant_count' | 'new_photo' | 'moment_closing' | 'moment_archived';
+  type:
+    | 'initial_state'
+    | 'participant_joined'
+    | 'participant_left'
+    | 'participant_count'
+    | 'join_rejected'
+    | 'new_photo'
+    | 'moment_closing'
+    | 'moment_archived';
   moment_id?: string;
+  /** Why a join was refused (join_rejected only) */
+  reason?: 'inactive' | 'out_of_range';
   participant_count?: number;
   participants?: Array<{ id: string; display_name: string; joined_at: string }>;
   user?: { id: string; display_name: string };
@@ -164,6 +379,11 @@ export interface RainbowMomentMessage {
   status?: string;
 }
 
+const rainbowMomentChannel = (momentId: string) => ({
+  channel: 'RainbowMomentChannel',
+  moment_id: momentId,
+});
+
 /**
  * Subscribe to a Rainbow Moment channel for real-time participation updates.
  * @param momentId The Rainbow Moment ID to subscribe to
@@ -174,22 +394,42 @@ export function subscribeToRainbowMoment(
   momentId: string,
   onReceived: (message: RainbowMomentMessage) => void
 ): () => void {
-  if (!consumer) {
-    console.warn('[Cable] Not connected — call connectCable() first');
-    return () => {};
+  return subscribeToChannel(rainbowMomentChannel(momentId), onReceived);
+}
+
+/**
+ * Get the live subscription for a Rainbow Moment channel, if any.
+ */
+function getRainbowMomentSubscription(momentId: string): Subscription | null {
+  const entry = channels.get(getChannelKey(rainbowMomentChannel(momentId)));
+  if (!entry?.subscription) {
+    console.warn('[Cable] Not subscribed to this Rainbow Moment');
+    return null;
   }
+  return entry.subscription;
+}
 
-  rainbowMomentSubscription = consumer.subscriptions.create(
-    { channel: 'RainbowMomentChannel', moment_id: momentId },
-    {
-      received(data: RainbowMomentMessage) {
-        onReceived(data);
-      },
-    }
-  );
+/**
+ * Join a subscribed Rainbow Moment.
+ * The server checks the position against the moment location and answers
+ * with participant_joined (broadcast) or join_rejected.
+ * @param momentId The Rainbow Moment ID
+ * @param location current device position, sent as location proof
+ */
+export function joinRainbowMoment(
+  momentId: string,
+  location: { latitude: number; longitude: number }
+): void {
+  getRainbowMomentSubscription(momentId)?.perform('join', {
+    latitude: location.latitude,
+    longitude: location.longitude,
+  });
+}
 
-  return () => {
-    rainbowMomentSubscription?.unsubscribe();
-    rainbowMomentSubscription = null;
-  };
+/**
+ * Leave a subscribed Rainbow Moment while keeping the subscription open.
+ * @param momentId The Rainbow Moment ID
+ */
+export function leaveRainbowMoment(momentId: string): void {
+  getRainbowMomentSubscription(momentId)?.perform('leave');
 }
@@ -10,3 +10,6 @@ export * from './dataManagementService';
 export * from './photoService';
 export * from './mapService';
 export * from './userService';
+export * from './statisticsService';
+export * from './adminService';
+export * from './weatherService';
@@ -36,6 +36,10 @@ export interface MapMarker {
   thumbnailUrl: string;
   title?: string;
   capturedAt: string;
+  /** Photographer (used to hide blocked users' photos) */
+  userId?: string;
+  /** Posted during the active Rainbow Moment (highlighted on the map) */
+  isLive?: boolean;
 }
 
 /**
@@ -344,36 +348,65 @@ export async function getRegionAtLocation(
 // Cache Functions
 // ============================================
 
+/**
+ * Last queued marker cache write. Each write reads, merges and rewrites the
+ * whole cache, so writes are chained to keep one from dropping another's markers.
+ */
+let markerCacheWrite: Promise<void> = Promise.resolve();
+
 /**
  * Cache markers for offline use
  * Requirements: FR-5 (AC-5.6)
  *
  * @param markers - Markers to cache
+ * @param updateTimestamp - Whether this is a fresh load (marks the cache as valid)
+ */
+function cacheMarkers(markers: MapMarker[], updateTimestamp = true): Promise<void> {
+  markerCacheWrite = markerCacheWrite.then(() => mergeIntoMarkerCache(markers, updateTimestamp));
+  return markerCacheWrite;
+}
+
+/**
+ * Merge markers into the cached ones (never rejects, so the write chain keeps going)
  */
-async function cacheMarkers(markers: MapMarker[]): Promise<void> {
+async function mergeIntoMarkerCache(markers: MapMarker[], updateTimestamp: boolean): Promise<void> {
   try {
     // Get existing cached markers
     const existingMarkers = await getCachedMarkers();
 
-    // Merge new markers with existing ones (avoid duplicates)
+    // Merge new markers with existing ones (avoid duplicates).
+    // The live highlight only applies while the moment is running.
     const markerMap = new Map<string, MapMarker>();
     existingMarkers.forEach((marker) => markerMap.set(marker.id, marker));
-    markers.forEach((marker) => markerMap.set(marker.id, marker));
+    markers.forEach(({ isLive: _isLive, ...marker }) => markerMap.set(marker.id, marker));
 
     // Limit cache size to prevent storage issues
     const allMarkers = Array.from(markerMap.values());
     const limitedMarkers = allMarkers.slice(-1000); // Keep last 1000 markers
 
     await AsyncStorage.setItem(CACHE_KEYS.MARKERS, JSON.stringify(limitedMarkers));
-    await AsyncStorage.setItem(
-      CACHE_KEYS.MARKERS_TIMESTAMP,
-      Date.now().toString()
-    );
+    if (updateTimestamp) {
+      await AsyncStorage.setItem(
+        CACHE_KEYS.MARKERS_TIMESTAMP,
+        Date.now().toString()
+      );
+    }
   } catch (error) {
     console.error('Error caching markers:', error);
   }
 }
 
+/**
+ * Add markers received in real time to the offline cache.
+ * Does not refresh the cache timestamp, since the rest of the cache is not reloaded.
+ * Requirements: FR-5 (AC-5.6), F-5 (Real-time Updates)
+ *
+ * @param markers - Markers to add
+ */
+export async function addMarkersToCache(markers: MapMarker[]): Promise<void> {
+  await cacheMarkers(markers, false);
+}
+
 /**
  * Get cached markers
  * Requirements: FR-5 (AC-5.6)
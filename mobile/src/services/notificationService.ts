@@ -58,6 +58,8 @@ interface RawNotificationsResponse {
 
 /** Raw notification settings from the API (snake_case or camelCase) */
 interface RawNotificationSettings {
+  push_enabled?: boolean;
+  pushEnabled?: boolean;
   rainbow_alerts?: boolean;
   rainbowAlerts?: boolean;
   likes?: boolean;
@@ -222,6 +224,7 @@ export const getNotificationSettings = async (): Promise<NotificationSettings> =
 
   // Transform snake_case to camelCase
   return {
+    pushEnabled: settings.push_enabled ?? settings.pushEnabled ?? true,
     rainbowAlerts: settings.rainbow_alerts ?? settings.rainbowAlerts ?? true,
     likes: settings.likes ?? true,
     comments: settings.comments ?? true,
@@ -243,6 +246,7 @@ export const updateNotificationSettings = async (
   // Transform camelCase to snake_case for API
   const apiSettings: Record<string, unknown> = {};
 
+  if (settings.pushEnabled !== undefined) apiSettings.push_enabled = settings.pushEnabled;
   if (settings.rainbowAlerts !== undefined) apiSettings.rainbow_alerts = settings.rainbowAlerts;
   if (settings.likes !== undefined) apiSettings.likes = settings.likes;
   if (settings.comments !== undefined) apiSettings.comments = settings.comments;
@@ -257,6 +261,7 @@ export const updateNotificationSettings = async (
   const responseSettings = response.data.data.settings;
 
   return {
+    pushEnabled: responseSettings.push_enabled ?? responseSettings.pushEnabled ?? true,
     rainbowAlerts: responseSettings.rainbow_alerts ?? responseSettings.rainbowAlerts ?? true,
     likes: responseSettings.likes ?? true,
     comments: responseSettings.comments ?? true,
@@ -305,6 +310,14 @@ export const getLastNotificationResponse = async (): Promise<Notifications.Notif
   return Notifications.getLastNotificationResponseAsync();
 };
 
+/**
+ * Clear the last notification response once it has been routed,
+ * so it is not handled again when the navigator remounts
+ */
+export const clearLastNotificationResponse = (): void => {
+  Notifications.clearLastNotificationResponse();
+};
+
 /**
  * Get the current badge count
  */
@@ -379,6 +392,7 @@ export const notificationService = {
   updateSettings: updateNotificationSettings,
   setupListeners: setupNotificationListeners,
   getLastResponse: getLastNotificationResponse,
+  clearLastResponse: clearLastNotificationResponse,
   getBadgeCount,
   setBadgeCount,
   clearAll: clearAllNotifications,
@@ -4,15 +4,30 @@
  * Handles photo capture, gallery selection, location retrieval,
  * image compression, and photo upload/management API calls.
  *
+ * Photos are compressed once, right before upload (compressPhoto): the
+ * pickers return full-quality images, which are downscaled, re-encoded to
+ * JPEG within a byte budget and given back the EXIF fields the backend reads.
+ *
  * Requirements: FR-2 (AC-2.1 to AC-2.9)
  */
 
+import axios, { type AxiosProgressEvent } from 'axios';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat, type ImageRef } from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 
-import { apiClient } from './apiClient';
+import {
+  apiClient,
+  getErrorCode,
+  getErrorMessage,
+  getErrorStatus,
+  isNetworkError,
+} from './apiClient';
+import { buildExifSegment, formatExifDateTime, insertExifSegment } from '../utils/exifWriter';
 
+import type { UploadErrorClass } from '../store/uploadQueueStore';
 import type {
   CapturedPhoto,
   Location as LocationType,
@@ -28,9 +43,32 @@ import type {
 // Maximum file size before compression (10MB as per AC-2.9)
 const MAX_FILE_SIZE_BEFORE_COMPRESSION = 10 * 1024 * 1024;
 
-// JPEG quality for compression (80% as per AC-2.5)
+// JPEG quality for compression (80% as per AC-2.5); lowered only to fit the byte budget
 const JPEG_QUALITY = 0.8;
 
+// Lowest JPEG quality tried when fitting a photo into the byte budget
+const MIN_JPEG_QUALITY = 0.5;
+
+// Encodes tried while searching for the highest quality within the budget
+const QUALITY_SEARCH_STEPS = 4;
+
+// "YYYY:MM:DD HH:MM:SS", as found in EXIF
+const EXIF_DATE_TIME_PATTERN = /^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}$/;
+
+// Default longest edge of uploaded photos, in pixels
+export const DEFAULT_MAX_EDGE = 2560;
+
+// Default upload size budgets; cellular links get the smaller one
+export const UPLOAD_BYTE_BUDGET = 3 * 1024 * 1024;
+export const CELLULAR_UPLOAD_BYTE_BUDGET = 1.5 * 1024 * 1024;
+
+// Timeout for a single chunk of a resumable upload
+const CHUNK_TIMEOUT_MS = 30000;
+
+// API error codes handled by resumable uploads
+const UPLOAD_OFFSET_MISMATCH_ERROR_CODE = 2004;
+const RESOURCE_NOT_FOUND_ERROR_CODE = 3003;
+
 /**
  * Request camera permissions
  * @returns Permission granted status
@@ -129,6 +167,30 @@ export async function watchLocation(
   }
 }
 
+/**
+ * Watch the compass heading (bearing the top of the device points to)
+ * @param callback Function to call with the heading in degrees (0 = north)
+ * @returns Subscription to remove when done, or null without a compass
+ */
+export async function watchHeading(
+  callback: (heading: number) => void
+): Promise<Location.LocationSubscription | null> {
+  try {
+    const hasPermission = await requestLocationPermission();
+    if (!hasPermission) {
+      return null;
+    }
+
+    return await Location.watchHeadingAsync(({ trueHeading, magHeading }) => {
+      // trueHeading is -1 until the device knows its location
+      callback(trueHeading >= 0 ? trueHeading : magHeading);
+    });
+  } catch (error) {
+    console.error('Error watching heading:', error);
+    return null;
+  }
+}
+
 /**
  * Extract EXIF data from image URI (basic extraction)
  * Requirements: FR-2 (AC-2.4)
@@ -168,7 +230,8 @@ export async function capturePhoto(): Promise<CapturedPhoto | null> {
     const result = await ImagePicker.launchCameraAsync({
       mediaTypes: ['images'],
       allowsEditing: false,
-      quality: JPEG_QUALITY,
+      // Full quality; compressPhoto encodes once before upload
+      quality: 1,
       exif: true,
     });
 
@@ -228,7 +291,8 @@ export async function selectFromGallery(): Promise<CapturedPhoto | null> {
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ['images'],
       allowsEditing: false,
-      quality: JPEG_QUALITY,
+      // Full quality; compressPhoto encodes once before upload
+      quality: 1,
       exif: true,
     });
 
@@ -316,6 +380,157 @@ export function getMimeType(uri: string): string {
   }
 }
 
+/**
+ * Options for compressPhoto
+ */
+export interface CompressionOptions {
+  /** Longest edge in pixels; larger photos are downscaled (default DEFAULT_MAX_EDGE) */
+  maxEdge?: number;
+  /** Target file size in bytes; defaults to the budget for the connection */
+  maxBytes?: number;
+  /** Use the smaller cellular budget */
+  isCellular?: boolean;
+}
+
+/**
+ * A photo ready for upload
+ */
+export interface CompressedPhoto extends CapturedPhoto {
+  /** Size of the file at uri in bytes */
+  byteSize: number;
+}
+
+/**
+ * EXIF fields to carry over to a re-encoded photo.
+ * Orientation is 1 because decoding already rotated the pixels upright.
+ */
+function exifFieldsFor(photo: CapturedPhoto) {
+  const exif = photo.exifData;
+
+  // Gallery photos carry the EXIF date string itself; camera photos an ISO timestamp
+  let dateTimeOriginal = exif?.DateTimeOriginal;
+  if (!dateTimeOriginal && photo.timestamp) {
+    const timestamp = new Date(photo.timestamp);
+    dateTimeOriginal = EXIF_DATE_TIME_PATTERN.test(photo.timestamp)
+      ? photo.timestamp
+      : isNaN(timestamp.getTime())
+        ? undefined
+        : formatExifDateTime(timestamp);
+  }
+
+  return {
+    orientation: 1,
+    dateTimeOriginal,
+    latitude: photo.location?.latitude ?? exif?.GPSLatitude,
+    longitude: photo.location?.longitude ?? exif?.GPSLongitude,
+    altitude: photo.location?.altitude ?? exif?.GPSAltitude,
+  };
+}
+
+/**
+ * Encode as JPEG at the highest quality that fits the budget.
+ * Tries JPEG_QUALITY, then binary-searches down to MIN_JPEG_QUALITY;
+ * if even that is over budget, it is returned as the smallest encode.
+ * Rejected encodes are deleted.
+ */
+async function encodeWithinBudget(
+  image: ImageRef,
+  maxBytes: number
+): Promise<{ uri: string; byteSize: number }> {
+  const encode = async (quality: number) => {
+    const { uri } = await image.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+    return { uri, byteSize: new File(uri).size };
+  };
+  const discard = (uri: string) => new File(uri).delete();
+
+  // Most photos fit at the default quality
+  const first = await encode(JPEG_QUALITY);
+  if (first.byteSize <= maxBytes) {
+    return first;
+  }
+  discard(first.uri);
+
+  let best = await encode(MIN_JPEG_QUALITY);
+  if (best.byteSize > maxBytes) {
+    return best;
+  }
+
+  let low = MIN_JPEG_QUALITY;
+  let high = JPEG_QUALITY;
+  for (let step = 2; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const encoded = await encode(quality);
+    if (encoded.byteSize <= maxBytes) {
+      discard(best.uri);
+      best = encoded;
+      low = quality;
+    } else {
+      discard(encoded.uri);
+      high = quality;
+    }
+  }
+  return best;
+}
+
+/**
+ * Prepare a photo for upload
+ *
+ * Downscales to maxEdge, re-encodes HEIC/PNG/etc. to JPEG with the highest
+ * quality that fits the byte budget, and writes back the capture time and
+ * GPS position as EXIF. JPEGs already within both limits are returned
+ * untouched so their original EXIF is kept.
+ *
+ * Requirements: FR-2 (AC-2.5, AC-2.9)
+ * @param photo Photo from the camera or gallery
+ * @param options Size limits
+ * @returns Photo pointing at the file to upload
+ */
+export async function compressPhoto(
+  photo: CapturedPhoto,
+  options: CompressionOptions = {}
+): Promise<CompressedPhoto> {
+  const maxEdge = options.maxEdge ?? DEFAULT_MAX_EDGE;
+  const maxBytes =
+    options.maxBytes ?? (options.isCellular ? CELLULAR_UPLOAD_BYTE_BUDGET : UPLOAD_BYTE_BUDGET);
+
+  // Decoding applies the EXIF orientation, so these dimensions are upright
+  const decoded = await ImageManipulator.manipulate(photo.uri).renderAsync();
+  const longestEdge = Math.max(decoded.width, decoded.height);
+  const originalSize = new File(photo.uri).size;
+
+  if (getMimeType(photo.uri) === 'image/jpeg' && longestEdge <= maxEdge && originalSize <= maxBytes) {
+    return { ...photo, width: decoded.width, height: decoded.height, byteSize: originalSize };
+  }
+
+  const image =
+    longestEdge > maxEdge
+      ? await ImageManipulator.manipulate(decoded)
+          .resize(decoded.width >= decoded.height ? { width: maxEdge } : { height: maxEdge })
+          .renderAsync()
+      : decoded;
+
+  // Leave room for the EXIF block added after encoding
+  const exifSegment = buildExifSegment(exifFieldsFor(photo));
+  const encoded = await encodeWithinBudget(image, maxBytes - (exifSegment?.length ?? 0));
+
+  let byteSize = encoded.byteSize;
+  if (exifSegment) {
+    const file = new File(encoded.uri);
+    const bytes = insertExifSegment(await file.bytes(), exifSegment);
+    file.write(bytes);
+    byteSize = bytes.length;
+  }
+
+  return {
+    ...photo,
+    uri: encoded.uri,
+    width: image.width,
+    height: image.height,
+    exifData: photo.exifData ? { ...photo.exifData, Orientation: 1 } : undefined,
+    byteSize,
+  };
+}
+
 /**
  * Generate filename for upload
  * @param extension File extension
@@ -351,13 +566,100 @@ export function prepareUploadRequest(
   };
 }
 
+/**
+ * Byte-level progress of a photo upload
+ */
+export interface UploadProgress {
+  /** Bytes sent so far */
+  loaded: number;
+  /** Total request size in bytes, when known */
+  total?: number;
+  /** 0-100; stays at 0 while the total is unknown */
+  percent: number;
+}
+
+/**
+ * Options for uploadPhoto
+ */
+export interface UploadPhotoOptions {
+  /** Called as the request body is sent */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Aborts the request; the upload then rejects with a cancel error (see isUploadCanceled) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Convert an axios progress event to upload progress
+ */
+export function toUploadProgress(event: AxiosProgressEvent): UploadProgress {
+  return progressOf(event.loaded, event.total || undefined);
+}
+
+/**
+ * Build upload progress from a byte count
+ */
+function progressOf(loaded: number, total?: number): UploadProgress {
+  const percent = total ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+  return { loaded, total, percent };
+}
+
+/**
+ * Whether an upload failed because it was aborted through its signal
+ */
+export function isUploadCanceled(error: unknown): boolean {
+  return axios.isCancel(error);
+}
+
+/**
+ * Classify a failed upload to decide whether retrying can help.
+ * Requests that never reached the server are network failures; timeouts (408)
+ * and rate limiting (429) are treated like server errors since they are
+ * transient. Anything else without a response failed on the device (e.g. the
+ * photo file is gone), which retrying cannot fix.
+ */
+export function classifyUploadError(error: unknown): UploadErrorClass {
+  if (isNetworkError(error)) {
+    return 'network';
+  }
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    return 'local';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return 'server';
+  }
+  return status >= 400 ? 'validation' : 'server';
+}
+
+/**
+ * Message for a failed upload, including the server's validation errors
+ * (e.g. "Validation failed: Title is too long")
+ */
+export function getUploadErrorMessage(error: unknown): string {
+  const message = getErrorMessage(error);
+  const details = (error as { details?: { errors?: unknown } } | null)?.details;
+  const errors = Array.isArray(details?.errors)
+    ? details.errors.filter((item): item is string => typeof item === 'string')
+    : [];
+  return errors.length > 0 ? `${message}: ${errors.join(', ')}` : message;
+}
+
 /**
  * Upload photo to server
  * Requirements: FR-2 (AC-2.6, AC-2.7, AC-2.8)
  * @param request Upload request
+ * @param options Progress callback and abort signal
  * @returns Uploaded photo data
  */
-export async function uploadPhoto(request: PhotoUploadRequest): Promise<Photo> {
+export async function uploadPhoto(
+  request: PhotoUploadRequest,
+  options: UploadPhotoOptions = {}
+): Promise<Photo> {
+  const { onProgress, signal } = options;
+
   const formData = new FormData();
 
   // Add image file
@@ -388,11 +690,243 @@ export async function uploadPhoto(request: PhotoUploadRequest): Promise<Photo> {
       'Content-Type': 'multipart/form-data',
     },
     timeout: 60000, // 60 second timeout for uploads
+    signal,
+    onUploadProgress: onProgress ? (event) => onProgress(toUploadProgress(event)) : undefined,
   });
 
   return response.data.data;
 }
 
+/**
+ * Server-side state of a resumable (chunked) upload
+ */
+export interface ChunkedUploadSession {
+  id: string;
+  /** Declared file size in bytes */
+  byteSize: number;
+  /** Bytes acknowledged so far; the next chunk starts here */
+  receivedBytes: number;
+  /** Largest chunk the server accepts */
+  chunkSize: number;
+  /** Unfinished uploads are discarded after this time */
+  expiresAt: string | null;
+}
+
+/**
+ * Options for uploadPhotoResumable
+ */
+export interface ResumableUploadOptions extends UploadPhotoOptions {
+  /** Upload to resume, as reported by an earlier onAcknowledged */
+  uploadId?: string;
+  /** Bytes acknowledged for uploadId, as reported by the same onAcknowledged */
+  receivedBytes?: number;
+  /** Called whenever the server acknowledges bytes; persist these to resume later */
+  onAcknowledged?: (uploadId: string, receivedBytes: number) => void;
+}
+
+/**
+ * Start a resumable upload
+ * @param image Image to upload
+ * @param byteSize File size in bytes
+ * @param signal Optional abort signal
+ * @returns New upload session
+ */
+export async function startChunkedUpload(
+  image: PhotoUploadRequest['image'],
+  byteSize: number,
+  signal?: AbortSignal
+): Promise<ChunkedUploadSession> {
+  const response = await apiClient.post<{ data: { upload: ChunkedUploadSession } }>(
+    '/photos/uploads',
+    {
+      upload: {
+        filename: image.name,
+        content_type: image.type,
+        byte_size: byteSize,
+      },
+    },
+    { signal }
+  );
+  return response.data.data.upload;
+}
+
+/**
+ * Get the state of a resumable upload
+ * @param uploadId Upload ID
+ * @param signal Optional abort signal
+ * @returns Upload session
+ */
+export async function getChunkedUpload(
+  uploadId: string,
+  signal?: AbortSignal
+): Promise<ChunkedUploadSession> {
+  const response = await apiClient.get<{ data: { upload: ChunkedUploadSession } }>(
+    `/photos/uploads/${uploadId}`,
+    { signal }
+  );
+  return response.data.data.upload;
+}
+
+/**
+ * Send one chunk of a resumable upload
+ * @param uploadId Upload ID
+ * @param offset Position of the chunk's first byte
+ * @param chunk Chunk contents
+ * @param options Progress callback (bytes of this chunk) and abort signal
+ * @returns Upload session with the new acknowledged offset
+ */
+export async function uploadChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Uint8Array,
+  options: UploadPhotoOptions = {}
+): Promise<ChunkedUploadSession> {
+  const { onProgress, signal } = options;
+
+  const response = await apiClient.patch<{ data: { upload: ChunkedUploadSession } }>(
+    `/photos/uploads/${uploadId}`,
+    chunk,
+    {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Upload-Offset': offset.toString(),
+      },
+      timeout: CHUNK_TIMEOUT_MS,
+      signal,
+      onUploadProgress: onProgress ? (event) => onProgress(toUploadProgress(event)) : undefined,
+    }
+  );
+  return response.data.data.upload;
+}
+
+/**
+ * Create the photo from a fully sent resumable upload
+ * @param uploadId Upload ID
+ * @param metadata Upload metadata
+ * @param signal Optional abort signal
+ * @returns Uploaded photo data
+ */
+export async function completeChunkedUpload(
+  uploadId: string,
+  metadata: PhotoUploadMetadata,
+  signal?: AbortSignal
+): Promise<Photo> {
+  const response = await apiClient.post<{ data: { photo: Photo } }>(
+    `/photos/uploads/${uploadId}/complete`,
+    {
+      photo: {
+        title: metadata.title,
+        description: metadata.comment,
+        latitude: metadata.latitude,
+        longitude: metadata.longitude,
+        location_name: metadata.locationName,
+        captured_at: metadata.capturedAt,
+      },
+    },
+    { signal }
+  );
+  return response.data.data.photo;
+}
+
+/**
+ * Find an earlier upload to resume
+ * @returns The session, or null if it expired or belongs to a different file
+ */
+async function resumeChunkedUpload(
+  uploadId: string,
+  byteSize: number,
+  signal?: AbortSignal
+): Promise<ChunkedUploadSession | null> {
+  try {
+    const session = await getChunkedUpload(uploadId, signal);
+    return session.byteSize === byteSize ? session : null;
+  } catch (error) {
+    if (getErrorCode(error) === RESOURCE_NOT_FOUND_ERROR_CODE) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Upload photo to server in chunks, resuming an earlier attempt if possible
+ *
+ * Only the chunk in flight is lost when the connection drops. Pass the
+ * uploadId and receivedBytes from the last onAcknowledged call to continue
+ * from the last acknowledged byte; an expired upload silently starts over.
+ * Once every byte was acknowledged the upload is only completed again: the
+ * server returns the photo if it already created one, so a lost completion
+ * response does not create a duplicate.
+ *
+ * Requirements: FR-2 (AC-2.6, AC-2.7, AC-2.8)
+ * @param request Upload request
+ * @param options Progress callback, abort signal and resume state
+ * @returns Uploaded photo data
+ */
+export async function uploadPhotoResumable(
+  request: PhotoUploadRequest,
+  options: ResumableUploadOptions = {}
+): Promise<Photo> {
+  const { onProgress, signal, uploadId, receivedBytes: acknowledgedBytes, onAcknowledged } =
+    options;
+
+  const file = new File(request.image.uri);
+  const byteSize = file.size;
+
+  let session = uploadId ? await resumeChunkedUpload(uploadId, byteSize, signal) : null;
+  if (!session && uploadId && acknowledgedBytes === byteSize) {
+    // Everything was sent, so the photo may exist already: never start over
+    return completeChunkedUpload(uploadId, request.metadata, signal);
+  }
+  if (!session) {
+    session = await startChunkedUpload(request.image, byteSize, signal);
+    onAcknowledged?.(session.id, session.receivedBytes);
+  }
+
+  let receivedBytes = session.receivedBytes;
+  onProgress?.(progressOf(receivedBytes, byteSize));
+
+  const handle = file.open();
+  try {
+    while (receivedBytes < byteSize) {
+      const offset = receivedBytes;
+      handle.offset = offset;
+      const chunk = handle.readBytes(Math.min(session.chunkSize, byteSize - offset));
+
+      try {
+        const acknowledged = await uploadChunk(session.id, offset, chunk, {
+          signal,
+          onProgress: onProgress
+            ? (event) => onProgress(progressOf(offset + event.loaded, byteSize))
+            : undefined,
+        });
+        if (acknowledged.receivedBytes <= offset) {
+          throw new Error('Upload did not advance. Please try again.');
+        }
+        receivedBytes = acknowledged.receivedBytes;
+      } catch (error) {
+        // The server holds fewer bytes than we sent from; continue from its offset
+        const serverOffset = (error as { details?: { received_bytes?: unknown } }).details
+          ?.received_bytes;
+        if (
+          getErrorCode(error) !== UPLOAD_OFFSET_MISMATCH_ERROR_CODE ||
+          typeof serverOffset !== 'number'
+        ) {
+          throw error;
+        }
+        receivedBytes = serverOffset;
+      }
+
+      onAcknowledged?.(session.id, receivedBytes);
+      onProgress?.(progressOf(receivedBytes, byteSize));
+    }
+  } finally {
+    handle.close();
+  }
+
+  return completeChunkedUpload(session.id, request.metadata, signal);
+}
+
 /**
  * Get photo by ID
  * @param photoId Photo ID
@@ -6,7 +6,8 @@
 
 import { apiClient } from './apiClient';
 
-import type { RainbowMoment } from '../store/rainbowMomentStore';
+import type { MomentPhoto, RainbowMoment } from '../store/rainbowMomentStore';
+import type { WeatherCondition } from '../types/photo';
 
 interface PaginationMeta {
   currentPage: number;
@@ -24,10 +25,28 @@ interface ActiveMomentsResponse {
   data: { moments: RainbowMoment[] };
 }
 
+/**
+ * User who joined a moment
+ */
+export interface MomentParticipant {
+  id: string;
+  displayName: string;
+  joinedAt: string;
+}
+
+/**
+ * Moment with its participants and the photos taken during it
+ */
+export interface MomentDetail extends RainbowMoment {
+  participants: MomentParticipant[];
+  photos: MomentPhoto[];
+}
+
 interface MomentDetailResponse {
   data: {
     moment: RainbowMoment & {
-      participants?: Array<{ id: string; displayName: string; joinedAt: string }>;
+      participants?: MomentParticipant[];
+      photos?: MomentPhoto[];
     };
   };
 }
@@ -58,9 +77,44 @@ export async function fetchPastMoments(
 /**
  * Fetch a single rainbow moment detail.
  */
-export async function fetchMomentDetail(momentId: string): Promise<MomentDetailResponse['data']['moment']> {
+export async function fetchMomentDetail(momentId: string): Promise<MomentDetail> {
   const response = await apiClient.get<MomentDetailResponse>(`/rainbow_moments/${momentId}`);
-  return response.data.data.moment;
+  const { moment } = response.data.data;
+  return { ...moment, participants: moment.participants ?? [], photos: moment.photos ?? [] };
+}
+
+/**
+ * Convert a moment's weather snapshot (snake_case, as recorded by the alert
+ * job) into a WeatherCondition for WeatherSummary.
+ * Returns undefined when the snapshot has no readings.
+ */
+export function momentWeatherCondition(moment: RainbowMoment): WeatherCondition | undefined {
+  const snapshot = moment.weatherSnapshot ?? {};
+  const number = (key: string): number | undefined => {
+    const value = snapshot[key];
+    if (value === null || value === undefined || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+
+  const condition: WeatherCondition = {
+    id: moment.id,
+    timestamp: moment.startsAt,
+    temperature: number('temperature'),
+    humidity: number('humidity'),
+    cloudCover: number('cloud_cover'),
+    visibility: number('visibility'),
+    sunAltitude: number('sun_altitude'),
+    weatherCode: number('weather_code'),
+    weatherDescription:
+      typeof snapshot.weather_description === 'string' ? snapshot.weather_description : undefined,
+    precipitation: number('precipitation_mm'),
+  };
+
+  const hasReadings = Object.entries(condition).some(
+    ([key, value]) => key !== 'id' && key !== 'timestamp' && value !== undefined
+  );
+  return hasReadings ? condition : undefined;
 }
 
 /**
@@ -0,0 +1,729 @@
+/**
+ * Statistics Service
+ *
+ * Client for the public statistics endpoints used by the Trends screen
+ * and for sharing figures outside the app.
+ *
+ * Features:
+ * - Available regions list
+ * - Region statistics, occurrence trends and weather correlations
+ * - Multi-region comparison (also in the map's RegionStats shape)
+ * - Dataset export (JSON/CSV)
+ *
+ * Requirements: FR-6 (AC-6.1 to AC-6.5)
+ */
+
+import { apiClient } from './apiClient';
+
+import type { RegionStats } from './mapService';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Trend grouping period
+ */
+export type TrendGroupBy = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Direction of the occurrence trend over the requested period
+ */
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+
+/**
+ * Optional period filter (ISO8601 dates, e.g. "2026-01-01")
+ */
+export interface StatisticsPeriod {
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Predefined analysis region
+ */
+export interface StatisticsRegion {
+  id: string;
+  name: string;
+  center: { lat: number; lng: number };
+  /** Radius in meters */
+  radius: number;
+}
+
+/**
+ * Aggregated statistics for a single region
+ */
+export interface RegionStatistics {
+  totalSightings: number;
+  uniqueUsers: number;
+  dateRange: { firstSighting: string | null; lastSighting: string | null } | null;
+  weather: {
+    averageTemperature: number | null;
+    averageHumidity: number | null;
+    averageCloudCover: number | null;
+    typicalSunAltitude: number | null;
+    precipitationPresentRate: number | null;
+    commonWeatherCodes: { code: string; count: number }[];
+  };
+  timeDistribution: {
+    peakHour: number | null;
+    hourDistribution: { hour: number; count: number }[];
+    morningRate: number | null;
+    afternoonRate: number | null;
+    eveningRate: number | null;
+  };
+  sightingsPerMonth: number;
+}
+
+/**
+ * Region statistics response
+ */
+export interface RegionStatisticsResult {
+  region: StatisticsRegion;
+  period: StatisticsPeriod;
+  statistics: RegionStatistics;
+}
+
+/**
+ * Single point of a trend time series
+ */
+export interface TrendPoint {
+  date: string;
+  count: number;
+}
+
+/**
+ * Rainbow occurrence trends response
+ */
+export interface TrendsResult {
+  period: StatisticsPeriod;
+  groupBy: TrendGroupBy;
+  regionId: string | null;
+  trends: TrendPoint[];
+  summary: {
+    total: number;
+    average: number;
+    max: number;
+    min: number;
+    trendDirection: TrendDirection;
+  };
+}
+
+/**
+ * Weather correlation response
+ */
+export interface WeatherCorrelationsResult {
+  period: StatisticsPeriod;
+  regionId: string | null;
+  correlations: {
+    totalSamples: number;
+    weatherDistribution: { code: string; count: number }[];
+    favorableSunPositionRate: number | null;
+    temperatureRange: { min: number | null; max: number | null; average: number | null } | null;
+    humidityRange: { min: number | null; max: number | null; average: number | null } | null;
+    precipitationCorrelation: {
+      withPrecipitation: number;
+      withoutPrecipitation: number;
+      correlationRate: number;
+    } | null;
+  };
+}
+
+/**
+ * Region comparison response
+ */
+export interface RegionComparisonResult {
+  period: StatisticsPeriod;
+  regions: { regionId: string; regionName: string; statistics: RegionStatistics }[];
+  rankings: {
+    byTotalSightings: { regionId: string; value: number }[];
+    byMonthlyAverage: { regionId: string; value: number }[];
+  };
+}
+
+/**
+ * Export options
+ */
+export interface ExportOptions extends StatisticsPeriod {
+  regionId?: string;
+  format?: 'json' | 'csv';
+  includeWeather?: boolean;
+}
+
+/**
+ * Dataset export response
+ * Large datasets are queued on the server and only return a job ID.
+ */
+export type ExportResult =
+  | {
+      status: 'complete';
+      format: 'json' | 'csv';
+      recordCount: number;
+      data: unknown;
+      exportedAt: string | null;
+    }
+  | {
+      status: 'queued';
+      jobId: string;
+      estimatedRecords: number;
+      message: string;
+    };
+
+/** Raw period from the API */
+interface RawPeriod {
+  start_date?: string | null;
+  startDate?: string | null;
+  end_date?: string | null;
+  endDate?: string | null;
+}
+
+/** Raw region statistics from the API (snake_case or camelCase) */
+interface RawRegionStatistics {
+  total_sightings?: number;
+  totalSightings?: number;
+  unique_users?: number;
+  uniqueUsers?: number;
+  date_range?: RawDateRange | null;
+  dateRange?: RawDateRange | null;
+  weather?: {
+    average_temperature?: number | null;
+    averageTemperature?: number | null;
+    average_humidity?: number | null;
+    averageHumidity?: number | null;
+    average_cloud_cover?: number | null;
+    averageCloudCover?: number | null;
+    typical_sun_altitude?: number | null;
+    typicalSunAltitude?: number | null;
+    precipitation_present_rate?: number | null;
+    precipitationPresentRate?: number | null;
+    common_weather_codes?: Record<string, number>;
+    commonWeatherCodes?: Record<string, number>;
+  };
+  time_distribution?: RawTimeDistribution;
+  timeDistribution?: RawTimeDistribution;
+  sightings_per_month?: number;
+  sightingsPerMonth?: number;
+}
+
+interface RawDateRange {
+  first_sighting?: string | null;
+  firstSighting?: string | null;
+  last_sighting?: string | null;
+  lastSighting?: string | null;
+}
+
+interface RawTimeDistribution {
+  peak_hour?: number | null;
+  peakHour?: number | null;
+  hour_distribution?: Record<string, number>;
+  hourDistribution?: Record<string, number>;
+  morning_rate?: number | null;
+  morningRate?: number | null;
+  afternoon_rate?: number | null;
+  afternoonRate?: number | null;
+  evening_rate?: number | null;
+  eveningRate?: number | null;
+}
+
+interface RawRange {
+  min?: number | null;
+  max?: number | null;
+  average?: number | null;
+}
+
+interface RawRegionStatisticsResponse {
+  region: StatisticsRegion;
+  period?: RawPeriod;
+  statistics: RawRegionStatistics;
+}
+
+interface RawTrendsResponse {
+  period?: RawPeriod;
+  group_by?: TrendGroupBy;
+  groupBy?: TrendGroupBy;
+  region_id?: string | null;
+  regionId?: string | null;
+  trends?: TrendPoint[];
+  summary?: {
+    total?: number;
+    average?: number;
+    max?: number;
+    min?: number;
+    trend_direction?: TrendDirection;
+    trendDirection?: TrendDirection;
+  };
+}
+
+interface RawWeatherCorrelationsResponse {
+  period?: RawPeriod;
+  region_id?: string | null;
+  regionId?: string | null;
+  correlations?: {
+    total_samples?: number;
+    totalSamples?: number;
+    weather_distribution?: Record<string, number>;
+    weatherDistribution?: Record<string, number>;
+    favorable_sun_position_rate?: number | null;
+    favorableSunPositionRate?: number | null;
+    temperature_range?: RawRange | null;
+    temperatureRange?: RawRange | null;
+    humidity_range?: RawRange | null;
+    humidityRange?: RawRange | null;
+    precipitation_correlation?: RawPrecipitationCorrelation | null;
+    precipitationCorrelation?: RawPrecipitationCorrelation | null;
+  };
+}
+
+interface RawPrecipitationCorrelation {
+  with_precipitation?: number;
+  withPrecipitation?: number;
+  without_precipitation?: number;
+  withoutPrecipitation?: number;
+  correlation_rate?: number;
+  correlationRate?: number;
+}
+
+interface RawRanking {
+  region_id?: string;
+  regionId?: string;
+  value: number | null;
+}
+
+interface RawCompareResponse {
+  period?: RawPeriod;
+  regions?: {
+    region_id?: string;
+    regionId?: string;
+    region_name?: string;
+    regionName?: string;
+    statistics: RawRegionStatistics;
+  }[];
+  rankings?: {
+    by_total_sightings?: RawRanking[];
+    byTotalSightings?: RawRanking[];
+    by_monthly_average?: RawRanking[];
+    byMonthlyAverage?: RawRanking[];
+  };
+}
+
+interface RawExportResponse {
+  status: 'complete' | 'queued';
+  format?: 'json' | 'csv';
+  record_count?: number;
+  recordCount?: number;
+  data?: unknown;
+  metadata?: { exported_at?: string; exportedAt?: string };
+  job_id?: string;
+  jobId?: string;
+  estimated_records?: number;
+  estimatedRecords?: number;
+  message?: string;
+}
+
+// ============================================
+// Transformers
+// ============================================
+
+/**
+ * Build query params for a period filter
+ */
+const periodParams = (period?: StatisticsPeriod): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (period?.startDate) params.start_date = period.startDate;
+  if (period?.endDate) params.end_date = period.endDate;
+  return params;
+};
+
+const transformPeriod = (period?: RawPeriod): StatisticsPeriod => ({
+  startDate: period?.start_date ?? period?.startDate ?? undefined,
+  endDate: period?.end_date ?? period?.endDate ?? undefined,
+});
+
+/**
+ * Convert a `{ key: count }` hash to a list sorted by count (descending)
+ */
+const toCountList = (counts?: Record<string, number>): { code: string; count: number }[] =>
+  Object.entries(counts ?? {})
+    .map(([code, count]) => ({ code, count }))
+    .sort((a, b) => b.count - a.count);
+
+const transformRange = (range?: RawRange | null) =>
+  range ? { min: range.min ?? null, max: range.max ?? null, average: range.average ?? null } : null;
+
+/**
+ * Transform region statistics from API response to local type
+ */
+const transformRegionStatistics = (stats: RawRegionStatistics): RegionStatistics => {
+  const dateRange = stats.date_range ?? stats.dateRange;
+  const weather = stats.weather ?? {};
+  const time = stats.time_distribution ?? stats.timeDistribution ?? {};
+  const hours = time.hour_distribution ?? time.hourDistribution ?? {};
+
+  return {
+    totalSightings: stats.total_sightings ?? stats.totalSightings ?? 0,
+    uniqueUsers: stats.unique_users ?? stats.uniqueUsers ?? 0,
+    dateRange: dateRange
+      ? {
+          firstSighting: dateRange.first_sighting ?? dateRange.firstSighting ?? null,
+          lastSighting: dateRange.last_sighting ?? dateRange.lastSighting ?? null,
+        }
+      : null,
+    weather: {
+      averageTemperature: weather.average_temperature ?? weather.averageTemperature ?? null,
+      averageHumidity: weather.average_humidity ?? weather.averageHumidity ?? null,
+      averageCloudCover: weather.average_cloud_cover ?? weather.averageCloudCover ?? null,
+      typicalSunAltitude: weather.typical_sun_altitude ?? weather.typicalSunAltitude ?? null,
+      precipitationPresentRate:
+        weather.precipitation_present_rate ?? weather.precipitationPresentRate ?? null,
+      commonWeatherCodes: toCountList(weather.common_weather_codes ?? weather.commonWeatherCodes),
+    },
+    timeDistribution: {
+      peakHour: time.peak_hour ?? time.peakHour ?? null,
+      hourDistribution: Object.entries(hours)
+        .map(([hour, count]) => ({ hour: Number(hour), count }))
+        .sort((a, b) => a.hour - b.hour),
+      morningRate: time.morning_rate ?? time.morningRate ?? null,
+      afternoonRate: time.afternoon_rate ?? time.afternoonRate ?? null,
+      eveningRate: time.evening_rate ?? time.eveningRate ?? null,
+    },
+    sightingsPerMonth: stats.sightings_per_month ?? stats.sightingsPerMonth ?? 0,
+  };
+};
+
+const transformRanking = (ranking: RawRanking) => ({
+  regionId: ranking.region_id ?? ranking.regionId ?? '',
+  value: ranking.value ?? 0,
+});
+
+/**
+ * Map an OpenWeatherMap weather code to the condition keys used by RegionStats
+ */
+export const weatherCodeToCondition = (code: string): string => {
+  const value = Number(code);
+  if (Number.isNaN(value)) return code;
+  if (value === 800) return 'sunny';
+  if (value === 801 || value === 802) return 'partly_cloudy';
+  if (value === 803 || value === 804) return 'cloudy';
+  if ((value >= 300 && value <= 321) || value === 500 || value === 501) return 'light_rain';
+  if (value >= 520 && value <= 531) return 'shower';
+  if ((value >= 200 && value <= 232) || (value >= 502 && value <= 511)) return 'rainy';
+  return code;
+};
+
+/**
+ * Merge weather code counts into condition counts (descending)
+ */
+const toConditionCounts = (
+  codes: { code: string; count: number }[]
+): RegionStats['typicalWeather']['conditions'] => {
+  const counts = new Map<string, number>();
+  codes.forEach(({ code, count }) => {
+    const condition = weatherCodeToCondition(code);
+    counts.set(condition, (counts.get(condition) ?? 0) + count);
+  });
+
+  return Array.from(counts, ([condition, count]) => ({ condition, count })).sort(
+    (a, b) => b.count - a.count
+  );
+};
+
+/**
+ * Aggregate a monthly trend series by month of year (1-12, descending by count)
+ * Dates are ISO8601 ("2026-03-01"), so the month is read directly to avoid
+ * time zone shifts.
+ */
+const toPeakMonths = (trends: TrendPoint[]): RegionStats['peakMonths'] => {
+  const counts = new Map<number, number>();
+  trends.forEach(({ date, count }) => {
+    const month = Number(date.slice(5, 7));
+    if (month >= 1 && month <= 12) {
+      counts.set(month, (counts.get(month) ?? 0) + count);
+    }
+  });
+
+  return Array.from(counts, ([month, count]) => ({ month, count })).sort(
+    (a, b) => b.count - a.count
+  );
+};
+
+/**
+ * Convert a statistics range to RegionStats min/max/avg, falling back to the
+ * region average when the correlation endpoint has no samples
+ */
+const toMinMaxAvg = (
+  range: WeatherCorrelationsResult['correlations']['temperatureRange'],
+  fallback: number | null
+): { min: number; max: number; avg: number } => {
+  const avg = range?.average ?? fallback ?? 0;
+  return { min: range?.min ?? avg, max: range?.max ?? avg, avg };
+};
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * Get the list of predefined analysis regions
+ * Requirements: FR-6 (AC-6.1)
+ */
+export const getStatisticsRegions = async (): Promise<StatisticsRegion[]> => {
+  const response = await apiClient.get<{ data: { regions: StatisticsRegion[] } }>(
+    '/statistics/regions'
+  );
+
+  return response.data.data.regions || [];
+};
+
+/**
+ * Get statistics for a predefined region
+ * Requirements: FR-6 (AC-6.1)
+ * @param regionId Region identifier (e.g. "daimon")
+ * @param period Optional period filter
+ */
+export const getRegionStatistics = async (
+  regionId: string,
+  period?: StatisticsPeriod
+): Promise<RegionStatisticsResult> => {
+  const response = await apiClient.get<{ data: RawRegionStatisticsResponse }>(
+    `/statistics/region/${regionId}`,
+    { params: periodParams(period) }
+  );
+
+  const data = response.data.data;
+  return {
+    region: data.region,
+    period: transformPeriod(data.period),
+    statistics: transformRegionStatistics(data.statistics),
+  };
+};
+
+/**
+ * Get rainbow occurrence trends over time
+ * Requirements: FR-6 (AC-6.2)
+ * @param groupBy Grouping period (default: month)
+ * @param regionId Optional region filter
+ * @param period Optional period filter
+ */
+export const getTrends = async (
+  groupBy: TrendGroupBy = 'month',
+  regionId?: string,
+  period?: StatisticsPeriod
+): Promise<TrendsResult> => {
+  const params: Record<string, string> = { group_by: groupBy, ...periodParams(period) };
+  if (regionId) {
+    params.region_id = regionId;
+  }
+
+  const response = await apiClient.get<{ data: RawTrendsResponse }>('/statistics/trends', {
+    params,
+  });
+
+  const data = response.data.data;
+  return {
+    period: transformPeriod(data.period),
+    groupBy: data.group_by ?? data.groupBy ?? groupBy,
+    regionId: data.region_id ?? data.regionId ?? null,
+    trends: data.trends || [],
+    summary: {
+      total: data.summary?.total ?? 0,
+      average: data.summary?.average ?? 0,
+      max: data.summary?.max ?? 0,
+      min: data.summary?.min ?? 0,
+      trendDirection: data.summary?.trend_direction ?? data.summary?.trendDirection ?? 'stable',
+    },
+  };
+};
+
+/**
+ * Get weather condition correlations with rainbow sightings
+ * Requirements: FR-6 (AC-6.3)
+ * @param regionId Optional region filter
+ * @param period Optional period filter
+ */
+export const getWeatherCorrelations = async (
+  regionId?: string,
+  period?: StatisticsPeriod
+): Promise<WeatherCorrelationsResult> => {
+  const params: Record<string, string> = periodParams(period);
+  if (regionId) {
+    params.region_id = regionId;
+  }
+
+  const response = await apiClient.get<{ data: RawWeatherCorrelationsResponse }>(
+    '/statistics/weather',
+    { params }
+  );
+
+  const data = response.data.data;
+  const correlations = data.correlations ?? {};
+  const precipitation =
+    correlations.precipitation_correlation ?? correlations.precipitationCorrelation;
+
+  return {
+    period: transformPeriod(data.period),
+    regionId: data.region_id ?? data.regionId ?? null,
+    correlations: {
+      totalSamples: correlations.total_samples ?? correlations.totalSamples ?? 0,
+      weatherDistribution: toCountList(
+        correlations.weather_distribution ?? correlations.weatherDistribution
+      ),
+      favorableSunPositionRate:
+        correlations.favorable_sun_position_rate ?? correlations.favorableSunPositionRate ?? null,
+      temperatureRange: transformRange(
+        correlations.temperature_range ?? correlations.temperatureRange
+      ),
+      humidityRange: transformRange(correlations.humidity_range ?? correlations.humidityRange),
+      precipitationCorrelation: precipitation
+        ? {
+            withPrecipitation:
+              precipitation.with_precipitation ?? precipitation.withPrecipitation ?? 0,
+            withoutPrecipitation:
+              precipitation.without_precipitation ?? precipitation.withoutPrecipitation ?? 0,
+            correlationRate: precipitation.correlation_rate ?? precipitation.correlationRate ?? 0,
+          }
+        : null,
+    },
+  };
+};
+
+/**
+ * Compare statistics between multiple regions
+ * Requirements: FR-6 (AC-6.4)
+ * @param regionIds Regions to compare
+ * @param period Optional period filter
+ */
+export const compareRegions = async (
+  regionIds: string[],
+  period?: StatisticsPeriod
+): Promise<RegionComparisonResult> => {
+  const response = await apiClient.get<{ data: RawCompareResponse }>('/statistics/compare', {
+    params: { region_ids: regionIds.join(','), ...periodParams(period) },
+  });
+
+  const data = response.data.data;
+  return {
+    period: transformPeriod(data.period),
+    regions: (data.regions || []).map((region) => ({
+      regionId: region.region_id ?? region.regionId ?? '',
+      regionName: region.region_name ?? region.regionName ?? '',
+      statistics: transformRegionStatistics(region.statistics),
+    })),
+    rankings: {
+      byTotalSightings: (
+        data.rankings?.by_total_sightings ??
+        data.rankings?.byTotalSightings ??
+        []
+      ).map(transformRanking),
+      byMonthlyAverage: (
+        data.rankings?.by_monthly_average ??
+        data.rankings?.byMonthlyAverage ??
+        []
+      ).map(transformRanking),
+    },
+  };
+};
+
+/**
+ * Compare regions in the same RegionStats shape used by the map
+ * Combines /statistics/compare with per-region monthly trends and weather
+ * correlations so peak hours, peak months and typical weather can be
+ * overlaid in one chart.
+ * Requirements: FR-6 (AC-6.4), FR-13 (AC-13.6)
+ * @param regionIds Regions to compare (two or more)
+ * @param period Optional period filter
+ */
+export const getRegionComparison = async (
+  regionIds: string[],
+  period?: StatisticsPeriod
+): Promise<RegionStats[]> => {
+  const comparison = await compareRegions(regionIds, period);
+
+  return Promise.all(
+    comparison.regions.map(async ({ regionId, regionName, statistics }) => {
+      const [trends, weather] = await Promise.all([
+        getTrends('month', regionId, period),
+        getWeatherCorrelations(regionId, period),
+      ]);
+
+      const stats: RegionStats = {
+        regionId,
+        regionName,
+        totalSightings: statistics.totalSightings,
+        averageSightingsPerMonth: statistics.sightingsPerMonth,
+        peakHours: [...statistics.timeDistribution.hourDistribution].sort(
+          (a, b) => b.count - a.count
+        ),
+        peakMonths: toPeakMonths(trends.trends),
+        typicalWeather: {
+          temperature: toMinMaxAvg(
+            weather.correlations.temperatureRange,
+            statistics.weather.averageTemperature
+          ),
+          humidity: toMinMaxAvg(
+            weather.correlations.humidityRange,
+            statistics.weather.averageHumidity
+          ),
+          conditions: toConditionCounts(
+            weather.correlations.weatherDistribution.length > 0
+              ? weather.correlations.weatherDistribution
+              : statistics.weather.commonWeatherCodes
+          ),
+        },
+      };
+      return stats;
+    })
+  );
+};
+
+/**
+ * Export the sighting dataset for research
+ * Requirements: FR-6 (AC-6.5)
+ * @param options Format, region and period filters
+ */
+export const exportDataset = async (options: ExportOptions = {}): Promise<ExportResult> => {
+  const params: Record<string, string> = {
+    export_format: options.format ?? 'json',
+    ...periodParams(options),
+  };
+  if (options.regionId) {
+    params.region_id = options.regionId;
+  }
+  if (options.includeWeather === false) {
+    params.include_weather = 'false';
+  }
+
+  const response = await apiClient.get<{ data: RawExportResponse }>('/statistics/export', {
+    params,
+  });
+
+  const data = response.data.data;
+  if (data.status === 'queued') {
+    return {
+      status: 'queued',
+      jobId: data.job_id ?? data.jobId ?? '',
+      estimatedRecords: data.estimated_records ?? data.estimatedRecords ?? 0,
+      message: data.message ?? '',
+    };
+  }
+
+  return {
+    status: 'complete',
+    format: data.format ?? options.format ?? 'json',
+    recordCount: data.record_count ?? data.recordCount ?? 0,
+    data: data.data,
+    exportedAt: data.metadata?.exported_at ?? data.metadata?.exportedAt ?? null,
+  };
+};
+
+/**
+ * Statistics service object for convenience
+ */
+export const statisticsService = {
+  getRegions: getStatisticsRegions,
+  getRegionStatistics,
+  getTrends,
+  getWeatherCorrelations,
+  compareRegions,
+  getRegionComparison,
+  exportDataset,
+};
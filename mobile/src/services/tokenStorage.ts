@@ -35,6 +35,22 @@ export const isSecureStoreAvailable = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Listeners notified when a new access token is stored
+ */
+const accessTokenListeners = new Set<(token: string) => void>();
+
+/**
+ * Listen for new access tokens (login, session restore or refresh)
+ * @returns function that removes the listener
+ */
+export const addAccessTokenListener = (listener: (token: string) => void): (() => void) => {
+  accessTokenListeners.add(listener);
+  return () => {
+    accessTokenListeners.delete(listener);
+  };
+};
+
 /**
  * Store access token securely
  */
@@ -51,6 +67,8 @@ export const storeAccessToken = async (
     console.error('Failed to store access token:', error);
     throw error;
   }
+
+  accessTokenListeners.forEach((listener) => listener(token));
 };
 
 /**
@@ -3,26 +3,158 @@
  *
  * Handles user profile management:
  * - Get user profile with stats
- * - Update user profile (display name, profile image)
+ * - Update user profile (display name, profile image, privacy)
+ * - Get other users' public profiles and photos
+ * - Block and unblock users
  *
- * Requirements: FR-9 (AC-9.1, AC-9.2)
+ * Requirements: FR-9 (AC-9.1, AC-9.2, AC-9.3)
  */
 
-import { apiClient } from './apiClient';
+import { apiClient, getErrorCode } from './apiClient';
 
 import type { User } from '../types/auth';
+import type { Photo, PhotoListResponse } from '../types/photo';
+
+/**
+ * Backend error code returned when the viewer may not see a resource
+ * (a private profile answers GET /users/:id with 403 and this code)
+ */
+const NOT_AUTHORIZED_ERROR_CODE = 1003;
 
 /**
  * User profile with extended information
  */
 export interface UserProfile extends User {
   profileImageUrl?: string;
+  /** False when the user has hidden their stats and photos from other users */
+  isPublic: boolean;
   stats: {
     photosCount: number;
     totalLikesReceived: number;
   };
 }
 
+/**
+ * Raw profile from GET/PATCH /users/me (snake_case or camelCase)
+ */
+interface RawMyProfile {
+  id: string;
+  email: string;
+  display_name?: string;
+  displayName?: string;
+  profile_image_url?: string | null;
+  profileImageUrl?: string | null;
+  role?: 'user' | 'admin';
+  locale?: 'ja' | 'en';
+  confirmed?: boolean;
+  is_public?: boolean;
+  isPublic?: boolean;
+  created_at?: string;
+  createdAt?: string;
+  stats?: {
+    photos_count?: number;
+    photoCount?: number;
+    total_likes_received?: number;
+    likesReceived?: number;
+  };
+}
+
+/** /users/me responses wrap the profile in `user` */
+type RawMyProfileResponse = RawMyProfile | { user: RawMyProfile };
+
+/**
+ * Another user's profile as seen by the signed-in user
+ */
+export interface PublicUserProfile {
+  id: string;
+  displayName: string;
+  profileImageUrl?: string;
+  /** False when the user has made their profile private */
+  isPublic: boolean;
+  createdAt: string;
+  stats: {
+    photosCount: number;
+    totalLikesReceived: number;
+    commentsCount: number;
+  };
+}
+
+/**
+ * Raw public profile from GET /users/:id (stats keys are camelCase)
+ */
+interface RawPublicUserProfile {
+  id: string;
+  display_name?: string;
+  displayName?: string;
+  profile_image_url?: string | null;
+  profileImageUrl?: string | null;
+  is_public?: boolean;
+  isPublic?: boolean;
+  created_at?: string;
+  createdAt?: string;
+  stats?: {
+    photoCount?: number;
+    photo_count?: number;
+    likesReceived?: number;
+    likes_received?: number;
+    commentsCount?: number;
+    comments_count?: number;
+  };
+}
+
+/**
+ * Raw photo from GET /users/:id/photos
+ */
+interface RawUserPhoto {
+  id: string;
+  title?: string | null;
+  description?: string | null;
+  thumbnail_url?: string | null;
+  image_url?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  location_name?: string | null;
+  captured_at?: string | null;
+  created_at: string;
+  like_count?: number;
+  comment_count?: number;
+  user: { id: string; display_name?: string; displayName?: string };
+}
+
+interface RawUserPhotosResponse {
+  photos: RawUserPhoto[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalCount: number;
+    perPage: number;
+  };
+}
+
+/**
+ * A user the signed-in user has blocked
+ */
+export interface BlockedUser {
+  id: string;
+  displayName: string;
+  profileImageUrl?: string;
+  /** When the block was made (ISO 8601) */
+  blockedAt: string;
+}
+
+/**
+ * Raw blocked user from GET /users/me/blocks and POST /users/:id/block
+ */
+interface RawBlockedUser {
+  id: string;
+  display_name?: string;
+  displayName?: string;
+  profile_image_url?: string | null;
+  profileImageUrl?: string | null;
+  blocked_at?: string | null;
+  blockedAt?: string | null;
+}
+
 /**
  * User profile update request
  */
@@ -33,6 +165,8 @@ export interface UpdateProfileRequest {
     type: string;
     name: string;
   };
+  /** Whether other users can see stats and photos */
+  publicProfile?: boolean;
 }
 
 /**
@@ -41,43 +175,15 @@ export interface UpdateProfileRequest {
  * @returns User profile with stats
  */
 export async function getMyProfile(): Promise<UserProfile> {
-  const response = await apiClient.get<{ data: {
-    id: string;
-    email: string;
-    display_name: string;
-    profile_image_url?: string;
-    role: 'user' | 'admin';
-    locale: 'ja' | 'en';
-    confirmed: boolean;
-    created_at: string;
-    stats: {
-      photos_count: number;
-      total_likes_received: number;
-    };
-  } }>('/users/me');
+  const response = await apiClient.get<{ data: RawMyProfileResponse }>('/users/me');
 
-  const data = response.data.data;
-
-  return {
-    id: data.id,
-    email: data.email,
-    displayName: data.display_name,
-    profileImageUrl: data.profile_image_url,
-    role: data.role,
-    locale: data.locale,
-    confirmed: data.confirmed,
-    createdAt: data.created_at,
-    stats: {
-      photosCount: data.stats.photos_count,
-      totalLikesReceived: data.stats.total_likes_received,
-    },
-  };
+  return transformMyProfile(response.data.data);
 }
 
 /**
  * Update current user's profile
  * Requirements: FR-9 (AC-9.2)
- * @param request Update request with display name and/or profile image
+ * @param request Update request with display name, profile image and/or privacy setting
  * @returns Updated user profile
  */
 export async function updateMyProfile(
@@ -97,41 +203,185 @@ export async function updateMyProfile(
     });
   }
 
-  const response = await apiClient.patch<{ data: {
-    id: string;
-    email: string;
-    display_name: string;
-    profile_image_url?: string;
-    role: 'user' | 'admin';
-    locale: 'ja' | 'en';
-    confirmed: boolean;
-    created_at: string;
-    stats: {
-      photos_count: number;
-      total_likes_received: number;
-    };
-  } }>('/users/me', formData, {
+  if (request.publicProfile !== undefined) {
+    formData.append('user[public_profile]', String(request.publicProfile));
+  }
+
+  const response = await apiClient.patch<{ data: RawMyProfileResponse }>('/users/me', formData, {
     headers: {
       'Content-Type': 'multipart/form-data',
     },
   });
 
-  const data = response.data.data;
+  return transformMyProfile(response.data.data);
+}
+
+/**
+ * Transform the signed-in user's raw profile into UserProfile
+ */
+const transformMyProfile = (response: RawMyProfileResponse): UserProfile => {
+  const data = 'user' in response ? response.user : response;
 
   return {
     id: data.id,
     email: data.email,
-    displayName: data.display_name,
-    profileImageUrl: data.profile_image_url,
-    role: data.role,
-    locale: data.locale,
-    confirmed: data.confirmed,
-    createdAt: data.created_at,
+    displayName: data.displayName ?? data.display_name ?? '',
+    profileImageUrl: data.profileImageUrl ?? data.profile_image_url ?? undefined,
+    role: data.role ?? 'user',
+    locale: data.locale ?? 'ja',
+    confirmed: data.confirmed ?? true,
+    createdAt: data.createdAt ?? data.created_at ?? '',
+    // Profiles are public unless the user has opted out
+    isPublic: data.isPublic ?? data.is_public ?? true,
     stats: {
-      photosCount: data.stats.photos_count,
-      totalLikesReceived: data.stats.total_likes_received,
+      photosCount: data.stats?.photos_count ?? data.stats?.photoCount ?? 0,
+      totalLikesReceived: data.stats?.total_likes_received ?? data.stats?.likesReceived ?? 0,
     },
   };
+};
+
+/**
+ * Transform a raw public profile into PublicUserProfile
+ */
+const transformPublicProfile = (raw: RawPublicUserProfile): PublicUserProfile => ({
+  id: raw.id,
+  displayName: raw.displayName ?? raw.display_name ?? '',
+  profileImageUrl: raw.profileImageUrl ?? raw.profile_image_url ?? undefined,
+  // Profiles are public unless the user has opted out
+  isPublic: raw.isPublic ?? raw.is_public ?? true,
+  createdAt: raw.createdAt ?? raw.created_at ?? '',
+  stats: {
+    photosCount: raw.stats?.photoCount ?? raw.stats?.photo_count ?? 0,
+    totalLikesReceived: raw.stats?.likesReceived ?? raw.stats?.likes_received ?? 0,
+    commentsCount: raw.stats?.commentsCount ?? raw.stats?.comments_count ?? 0,
+  },
+});
+
+/**
+ * Transform a raw user photo into Photo
+ */
+const transformUserPhoto = (raw: RawUserPhoto): Photo => {
+  const imageUrl = raw.image_url ?? '';
+
+  return {
+    id: raw.id,
+    title: raw.title ?? undefined,
+    description: raw.description ?? undefined,
+    capturedAt: raw.captured_at ?? raw.created_at,
+    location:
+      typeof raw.latitude === 'number' && typeof raw.longitude === 'number'
+        ? {
+            latitude: raw.latitude,
+            longitude: raw.longitude,
+            name: raw.location_name ?? undefined,
+          }
+        : null,
+    imageUrls: {
+      thumbnail: raw.thumbnail_url ?? imageUrl,
+      medium: imageUrl,
+      original: imageUrl || undefined,
+    },
+    likeCount: raw.like_count ?? 0,
+    commentCount: raw.comment_count ?? 0,
+    user: {
+      id: raw.user.id,
+      displayName: raw.user.displayName ?? raw.user.display_name ?? '',
+    },
+    createdAt: raw.created_at,
+  };
+};
+
+/**
+ * Get another user's public profile with stats
+ * Requirements: FR-9 (AC-9.1)
+ * @param userId User ID
+ * @returns Public profile (a 403 means the profile is private)
+ */
+export async function getUserProfile(userId: string): Promise<PublicUserProfile> {
+  const response = await apiClient.get<{ data: { user: RawPublicUserProfile } }>(
+    `/users/${userId}`
+  );
+
+  return transformPublicProfile(response.data.data.user);
+}
+
+/**
+ * Get another user's photos
+ * Requirements: FR-9 (AC-9.3)
+ * @param userId User ID
+ * @param page Page number
+ * @param perPage Photos per page
+ * @returns Photo list response
+ */
+export async function getUserPhotos(
+  userId: string,
+  page: number = 1,
+  perPage: number = 30
+): Promise<PhotoListResponse> {
+  const response = await apiClient.get<{ data: RawUserPhotosResponse }>(
+    `/users/${userId}/photos`,
+    { params: { page, per_page: perPage } }
+  );
+
+  const { photos, pagination } = response.data.data;
+
+  return {
+    data: photos.map(transformUserPhoto),
+    meta: {
+      currentPage: pagination.currentPage,
+      totalPages: pagination.totalPages,
+      totalCount: pagination.totalCount,
+      perPage: pagination.perPage,
+    },
+  };
+}
+
+/**
+ * Whether a getUserProfile/getUserPhotos error means the profile is private
+ */
+export function isPrivateProfileError(error: unknown): boolean {
+  return getErrorCode(error) === NOT_AUTHORIZED_ERROR_CODE;
+}
+
+/**
+ * Transform a raw blocked user into BlockedUser
+ */
+const transformBlockedUser = (raw: RawBlockedUser): BlockedUser => ({
+  id: raw.id,
+  displayName: raw.displayName ?? raw.display_name ?? '',
+  profileImageUrl: raw.profileImageUrl ?? raw.profile_image_url ?? undefined,
+  blockedAt: raw.blockedAt ?? raw.blocked_at ?? '',
+});
+
+/**
+ * Get the users the signed-in user has blocked, most recent first
+ * @returns Blocked users
+ */
+export async function getBlockedUsers(): Promise<BlockedUser[]> {
+  const response = await apiClient.get<{ data: { users: RawBlockedUser[] } }>('/users/me/blocks');
+
+  return response.data.data.users.map(transformBlockedUser);
+}
+
+/**
+ * Block a user. Their photos and comments are hidden in the app.
+ * @param userId ID of the user to block
+ * @returns The blocked user
+ */
+export async function blockUser(userId: string): Promise<BlockedUser> {
+  const response = await apiClient.post<{ data: { user: RawBlockedUser } }>(
+    `/users/${userId}/block`
+  );
+
+  return transformBlockedUser(response.data.data.user);
+}
+
+/**
+ * Unblock a user
+ * @param userId ID of the user to unblock
+ */
+export async function unblockUser(userId: string): Promise<void> {
+  await apiClient.delete(`/users/${userId}/block`);
 }
 
 /**
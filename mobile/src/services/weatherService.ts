@@ -0,0 +1,45 @@
+/**
+ * Weather Service
+ *
+ * API calls for weather endpoints that are not tied to a photo.
+ *
+ * Requirements: FR-13
+ */
+
+import { apiClient } from './apiClient';
+
+import type { RadarData, WeatherCondition } from '../types/photo';
+
+/**
+ * Hourly forecast around a location.
+ * radarData holds the forecast precipitation at sample points around the
+ * location, in the same shape as a photo's radar data.
+ */
+export interface WeatherForecast {
+  hours: number;
+  weatherConditions: WeatherCondition[];
+  radarData: RadarData[];
+}
+
+interface WeatherForecastResponse {
+  data: WeatherForecast;
+}
+
+/**
+ * Fetch the hourly forecast for a location.
+ *
+ * @param latitude - Latitude
+ * @param longitude - Longitude
+ * @param hours - Forecast length (the server caps it at 12)
+ */
+export async function fetchWeatherForecast(
+  latitude: number,
+  longitude: number,
+  hours?: number
+): Promise<WeatherForecast> {
+  const params: Record<string, number> = { lat: latitude, lng: longitude };
+  if (hours !== undefined) params.hours = hours;
+
+  const response = await apiClient.get<WeatherForecastResponse>('/weather/forecast', { params });
+  return response.data.data;
+}
@@ -186,6 +186,45 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     }
   },
 
+  /**
+   * Set a new password with the token from the reset email, then sign in
+   * with it. Returns false when the reset succeeded but signing in did not
+   * (e.g. the email is not verified yet), so the user can sign in manually.
+   */
+  confirmPasswordReset: async (token: string, password: string): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    let user: User;
+    try {
+      user = await authService.confirmPasswordReset(token, password);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      set({ isLoading: false, error: message });
+      throw error;
+    }
+
+    try {
+      await get().login(user.email, password);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Confirm an email address with the token from the verification link.
+   * Updates the signed-in user when they confirmed their own address.
+   */
+  verifyEmail: async (token: string): Promise<User> => {
+    const user = await authService.verifyEmail(token);
+
+    if (get().user?.id === user.id) {
+      set({ user });
+    }
+
+    return user;
+  },
+
   /**
    * Clear error state
    */
@@ -0,0 +1,164 @@
+/**
+ * Block Store (Zustand)
+ *
+ * Global state for the users the signed-in user has blocked:
+ * - Blocked user list for the BlockedUsers screen
+ * - Optimistic block/unblock with rollback
+ * - Blocked user IDs for hiding photos, markers and comments on the client
+ */
+
+import { useMemo } from 'react';
+
+import { create } from 'zustand';
+
+import { getErrorMessage } from '../services/apiClient';
+import {
+  blockUser as requestBlockUser,
+  getBlockedUsers,
+  unblockUser as requestUnblockUser,
+} from '../services/userService';
+
+import type { BlockedUser } from '../services/userService';
+
+/**
+ * The parts of a user needed to block them
+ */
+export interface BlockableUser {
+  id: string;
+  displayName: string;
+  profileImageUrl?: string;
+}
+
+interface BlockState {
+  /** Blocked users, most recent first */
+  blockedUsers: BlockedUser[];
+  /** Loading the list from the server */
+  isLoading: boolean;
+  /** Last error message */
+  error: string | null;
+}
+
+interface BlockActions {
+  /** Load the blocked user list */
+  fetchBlockedUsers: () => Promise<void>;
+  /** Block a user (optimistic, throws on failure) */
+  blockUser: (user: BlockableUser) => Promise<void>;
+  /** Unblock a user (optimistic, throws on failure) */
+  unblockUser: (userId: string) => Promise<void>;
+  /** Reset to the initial state (e.g. on logout) */
+  reset: () => void;
+}
+
+type BlockStore = BlockState & BlockActions;
+
+/**
+ * Initial state
+ */
+const initialState: BlockState = {
+  blockedUsers: [],
+  isLoading: false,
+  error: null,
+};
+
+/**
+ * Create block store
+ */
+export const useBlockStore = create<BlockStore>((set, get) => ({
+  // Initial state
+  ...initialState,
+
+  /**
+   * Load the blocked user list
+   */
+  fetchBlockedUsers: async (): Promise<void> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const blockedUsers = await getBlockedUsers();
+      set({ blockedUsers, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false, error: getErrorMessage(error) });
+    }
+  },
+
+  /**
+   * Block a user
+   * Content is hidden immediately and shown again if the request fails.
+   */
+  blockUser: async (user: BlockableUser): Promise<void> => {
+    if (get().blockedUsers.some((blocked) => blocked.id === user.id)) {
+      return;
+    }
+
+    const optimistic: BlockedUser = { ...user, blockedAt: new Date().toISOString() };
+    set((state) => ({ blockedUsers: [optimistic, ...state.blockedUsers], error: null }));
+
+    try {
+      const blocked = await requestBlockUser(user.id);
+      set((state) => ({
+        blockedUsers: state.blockedUsers.map((b) => (b.id === user.id ? blocked : b)),
+      }));
+    } catch (error) {
+      set((state) => ({
+        blockedUsers: state.blockedUsers.filter((b) => b.id !== user.id),
+        error: getErrorMessage(error),
+      }));
+      throw error;
+    }
+  },
+
+  /**
+   * Unblock a user
+   * The user is removed from the list immediately and restored if the request fails.
+   */
+  unblockUser: async (userId: string): Promise<void> => {
+    const { blockedUsers } = get();
+    const index = blockedUsers.findIndex((blocked) => blocked.id === userId);
+    if (index < 0) {
+      return;
+    }
+
+    const removed = blockedUsers[index];
+    set({ blockedUsers: blockedUsers.filter((b) => b.id !== userId), error: null });
+
+    try {
+      await requestUnblockUser(userId);
+    } catch (error) {
+      // Put the user back where it was, unless it was blocked again meanwhile
+      set((state) => {
+        if (state.blockedUsers.some((b) => b.id === userId)) {
+          return { error: getErrorMessage(error) };
+        }
+        const restored = [...state.blockedUsers];
+        restored.splice(Math.min(index, restored.length), 0, removed);
+        return { blockedUsers: restored, error: getErrorMessage(error) };
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Reset store to initial state
+   */
+  reset: (): void => {
+    set(initialState);
+  },
+}));
+
+/**
+ * Selectors for common state access patterns
+ */
+export const selectBlockedUsers = (state: BlockStore): BlockedUser[] => state.blockedUsers;
+
+/**
+ * Hook for the blocked user list
+ */
+export const useBlockedUsers = (): BlockedUser[] => useBlockStore(selectBlockedUsers);
+
+/**
+ * Hook for the set of blocked user IDs (for filtering content)
+ */
+export const useBlockedUserIds = (): ReadonlySet<string> => {
+  const blockedUsers = useBlockStore(selectBlockedUsers);
+  return useMemo(() => new Set(blockedUsers.map((user) => user.id)), [blockedUsers]);
+};
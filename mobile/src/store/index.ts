@@ -30,8 +30,15 @@ export {
   useUploadQueueStore,
   usePendingUploadCount,
   useFailedUploadCount,
+  useDeadLetterUploads,
+  useUploadProgress,
+} from './uploadQueueStore';
+export type {
+  QueuedUpload,
+  UploadCheckpoint,
+  UploadErrorClass,
+  UploadStatus,
 } from './uploadQueueStore';
-export type { QueuedUpload, UploadStatus } from './uploadQueueStore';
 
 export {
   useRainbowMomentStore,
@@ -45,3 +52,21 @@ export {
   selectLivePhotos,
 } from './rainbowMomentStore';
 export type { RainbowMoment, MomentPhoto } from './rainbowMomentStore';
+
+export {
+  useNotificationStore,
+  useUnreadNotificationCount,
+  useNotifications,
+  selectNotifications,
+  selectUnreadCount,
+  selectNotificationFilter,
+  selectHasMoreNotifications,
+} from './notificationStore';
+
+export {
+  useBlockStore,
+  useBlockedUsers,
+  useBlockedUserIds,
+  selectBlockedUsers,
+} from './blockStore';
+export type { BlockableUser } from './blockStore';
@@ -0,0 +1,288 @@
+/**
+ * Notification Store (Zustand)
+ *
+ * Global state for the notification inbox:
+ * - Paginated notification list with per-type filter
+ * - Unread count for the tab badge
+ * - Optimistic mark-as-read with rollback
+ * - Notification settings and device registration
+ *
+ * Requirements: FR-7 (AC-7.1 to AC-7.6)
+ */
+
+import { create } from 'zustand';
+
+import { getErrorMessage } from '../services/apiClient';
+import { notificationService } from '../services/notificationService';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../types/notification';
+
+import type {
+  NotificationActions,
+  NotificationSettings,
+  NotificationState,
+  NotificationType,
+} from '../types/notification';
+
+/**
+ * Inbox pagination state (in addition to NotificationState)
+ */
+interface NotificationInboxState {
+  /** Active type filter (null = all) */
+  filter: NotificationType | null;
+  /** Last loaded page */
+  currentPage: number;
+  /** Total pages for the active filter */
+  totalPages: number;
+  /** Loading an additional page */
+  isLoadingMore: boolean;
+}
+
+interface NotificationInboxActions {
+  /** Load the next page for the active filter */
+  fetchNextPage: () => Promise<void>;
+  /** Reset to the initial state (e.g. on logout) */
+  reset: () => void;
+}
+
+/**
+ * Combined notification store type
+ */
+type NotificationStore = NotificationState &
+  NotificationInboxState &
+  NotificationActions &
+  NotificationInboxActions;
+
+/**
+ * Items per page for the inbox
+ */
+const PER_PAGE = 20;
+
+/**
+ * Initial state
+ */
+const initialState: NotificationState & NotificationInboxState = {
+  notifications: [],
+  settings: DEFAULT_NOTIFICATION_SETTINGS,
+  unreadCount: 0,
+  isLoading: false,
+  error: null,
+  hasPermission: false,
+  expoPushToken: null,
+  filter: null,
+  currentPage: 0,
+  totalPages: 0,
+  isLoadingMore: false,
+};
+
+/**
+ * Create notification store
+ */
+export const useNotificationStore = create<NotificationStore>((set, get) => ({
+  // Initial state
+  ...initialState,
+
+  /**
+   * Fetch a page of notifications
+   * Page 1 replaces the list (and switches the filter); later pages are appended.
+   */
+  fetchNotifications: async (page = 1, filter?: NotificationType): Promise<void> => {
+    const requestedFilter = filter ?? null;
+    const isFirstPage = page <= 1;
+
+    set(
+      isFirstPage
+        ? { isLoading: true, error: null, filter: requestedFilter }
+        : { isLoadingMore: true, error: null }
+    );
+
+    try {
+      const result = await notificationService.fetchNotifications(
+        page,
+        PER_PAGE,
+        requestedFilter ?? undefined
+      );
+
+      // Drop responses for a filter the user has already switched away from
+      if (get().filter !== requestedFilter) {
+        return;
+      }
+
+      set((state) => {
+        const existingIds = new Set(isFirstPage ? [] : state.notifications.map((n) => n.id));
+        const incoming = result.notifications.filter((n) => !existingIds.has(n.id));
+
+        return {
+          notifications: isFirstPage ? incoming : [...state.notifications, ...incoming],
+          currentPage: result.pagination.currentPage,
+          totalPages: result.pagination.totalPages,
+          unreadCount: result.unreadCount,
+          isLoading: false,
+          isLoadingMore: false,
+        };
+      });
+    } catch (error) {
+      set({ isLoading: false, isLoadingMore: false, error: getErrorMessage(error) });
+    }
+  },
+
+  /**
+   * Load the next page for the active filter (no-op while loading or at the end)
+   */
+  fetchNextPage: async (): Promise<void> => {
+    const { currentPage, totalPages, isLoading, isLoadingMore, filter, fetchNotifications } = get();
+    if (isLoading || isLoadingMore || currentPage >= totalPages) {
+      return;
+    }
+
+    await fetchNotifications(currentPage + 1, filter ?? undefined);
+  },
+
+  /**
+   * Mark notifications as read (all when no IDs are given)
+   * Updates the list optimistically and rolls back on failure.
+   */
+  markAsRead: async (notificationIds?: string[]): Promise<void> => {
+    const { notifications, unreadCount } = get();
+    const targetIds = notificationIds ? new Set(notificationIds) : null;
+    const newlyReadIds = new Set(
+      notifications
+        .filter((n) => !n.isRead && (targetIds === null || targetIds.has(n.id)))
+        .map((n) => n.id)
+    );
+
+    if (targetIds !== null && newlyReadIds.size === 0) {
+      return;
+    }
+
+    set({
+      notifications: notifications.map((n) =>
+        newlyReadIds.has(n.id) ? { ...n, isRead: true } : n
+      ),
+      unreadCount: targetIds === null ? 0 : Math.max(0, unreadCount - newlyReadIds.size),
+      error: null,
+    });
+
+    try {
+      await notificationService.markAsRead(notificationIds);
+    } catch (error) {
+      // Roll back only the items changed here; pages loaded meanwhile are kept
+      set((state) => ({
+        notifications: state.notifications.map((n) =>
+          newlyReadIds.has(n.id) ? { ...n, isRead: false } : n
+        ),
+        unreadCount,
+        error: getErrorMessage(error),
+      }));
+      throw error;
+    }
+  },
+
+  /**
+   * Fetch notification settings
+   */
+  fetchSettings: async (): Promise<void> => {
+    try {
+      const settings = await notificationService.getSettings();
+      set({ settings });
+    } catch (error) {
+      set({ error: getErrorMessage(error) });
+    }
+  },
+
+  /**
+   * Update notification settings (optimistic with rollback)
+   */
+  updateSettings: async (changes: Partial<NotificationSettings>): Promise<void> => {
+    const previous = get().settings;
+    set({ settings: { ...previous, ...changes }, error: null });
+
+    try {
+      const settings = await notificationService.updateSettings(changes);
+      set({ settings });
+    } catch (error) {
+      set({ settings: previous, error: getErrorMessage(error) });
+      throw error;
+    }
+  },
+
+  /**
+   * Register this device for push notifications
+   */
+  registerDevice: async (): Promise<void> => {
+    const granted = await get().requestPermission();
+    if (!granted) {
+      return;
+    }
+
+    const token = await notificationService.getExpoPushToken();
+    if (!token) {
+      return;
+    }
+
+    try {
+      await notificationService.registerDeviceToken(token);
+      set({ expoPushToken: token });
+    } catch (error) {
+      set({ error: getErrorMessage(error) });
+    }
+  },
+
+  /**
+   * Unregister this device from push notifications
+   */
+  unregisterDevice: async (): Promise<void> => {
+    const { expoPushToken } = get();
+    if (!expoPushToken) {
+      return;
+    }
+
+    try {
+      await notificationService.unregisterDeviceToken(expoPushToken);
+      set({ expoPushToken: null });
+    } catch (error) {
+      set({ error: getErrorMessage(error) });
+    }
+  },
+
+  /**
+   * Request OS notification permission
+   */
+  requestPermission: async (): Promise<boolean> => {
+    const granted = await notificationService.requestPermission();
+    set({ hasPermission: granted });
+    return granted;
+  },
+
+  /**
+   * Clear error state
+   */
+  clearError: (): void => {
+    set({ error: null });
+  },
+
+  /**
+   * Reset store to initial state
+   */
+  reset: (): void => {
+    set(initialState);
+  },
+}));
+
+/**
+ * Selectors for common state access patterns
+ */
+export const selectNotifications = (state: NotificationStore) => state.notifications;
+export const selectUnreadCount = (state: NotificationStore): number => state.unreadCount;
+export const selectNotificationFilter = (state: NotificationStore) => state.filter;
+export const selectHasMoreNotifications = (state: NotificationStore): boolean =>
+  state.currentPage < state.totalPages;
+
+/**
+ * Hook for the unread count (tab badge)
+ */
+export const useUnreadNotificationCount = (): number => useNotificationStore(selectUnreadCount);
+
+/**
+ * Hook for the notification list
+ */
+export const useNotifications = () => useNotificationStore(selectNotifications);
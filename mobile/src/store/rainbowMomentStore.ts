@@ -3,9 +3,13 @@
  *
  * Zustand store for managing Rainbow Moment state.
  * Tracks active moments, participation status, and real-time counts.
+ * The joined moment is persisted so participation can be restored after
+ * the app restarts.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
 
 export interface RainbowMoment {
   id: string;
@@ -33,6 +37,8 @@ interface RainbowMomentState {
   activeMoment: RainbowMoment | null;
   /** Whether the current user is participating */
   isParticipating: boolean;
+  /** Moment the user last joined, kept until they leave it */
+  joinedMomentId: string | null;
   /** Real-time participant count */
   participantCount: number;
   /** Photos streamed during the moment */
@@ -58,47 +64,60 @@ interface RainbowMomentActions {
 const initialState: RainbowMomentState = {
   activeMoment: null,
   isParticipating: false,
+  joinedMomentId: null,
   participantCount: 0,
   livePhotos: [],
   pastMoments: [],
   isLoading: false,
 };
 
-export const useRainbowMomentStore = create<RainbowMomentState & RainbowMomentActions>(
-  (set) => ({
-    ...initialState,
-
-    setActiveMoment: (moment) =>
-      set({
-        activeMoment: moment,
-        participantCount: moment?.participantsCount ?? 0,
-        livePhotos: [],
-      }),
-
-    setParticipating: (participating) => set({ isParticipating: participating }),
-
-    updateParticipantCount: (count) => set({ participantCount: count }),
-
-    addLivePhoto: (photo) =>
-      set((state) => ({
-        livePhotos: [photo, ...state.livePhotos].slice(0, 50), // Keep last 50
-      })),
-
-    clearLivePhotos: () => set({ livePhotos: [] }),
-
-    updateMomentStatus: (status) =>
-      set((state) => ({
-        activeMoment: state.activeMoment
-          ? { ...state.activeMoment, status }
-          : null,
-      })),
-
-    setPastMoments: (moments) => set({ pastMoments: moments }),
-
-    setLoading: (loading) => set({ isLoading: loading }),
-
-    reset: () => set(initialState),
-  })
+export const useRainbowMomentStore = create<RainbowMomentState & RainbowMomentActions>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setActiveMoment: (moment) =>
+        set({
+          activeMoment: moment,
+          participantCount: moment?.participantsCount ?? 0,
+          livePhotos: [],
+        }),
+
+      setParticipating: (participating) =>
+        set((state) => ({
+          isParticipating: participating,
+          joinedMomentId: participating ? (state.activeMoment?.id ?? null) : null,
+        })),
+
+      updateParticipantCount: (count) => set({ participantCount: count }),
+
+      addLivePhoto: (photo) =>
+        set((state) => ({
+          livePhotos: [photo, ...state.livePhotos].slice(0, 50), // Keep last 50
+        })),
+
+      clearLivePhotos: () => set({ livePhotos: [] }),
+
+      updateMomentStatus: (status) =>
+        set((state) => ({
+          activeMoment: state.activeMoment
+            ? { ...state.activeMoment, status }
+            : null,
+        })),
+
+      setPastMoments: (moments) => set({ pastMoments: moments }),
+
+      setLoading: (loading) => set({ isLoading: loading }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'rainbow-moment-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Only the joined moment survives restarts; everything else comes from the server
+      partialize: (state) => ({ joinedMomentId: state.joinedMomentId }),
+    }
+  )
 );
 
 // Selectors
@@ -106,6 +125,8 @@ export const selectActiveMoment = (state: RainbowMomentState & RainbowMomentActi
   state.activeMoment;
 export const selectIsParticipating = (state: RainbowMomentState & RainbowMomentActions) =>
   state.isParticipating;
+export const selectJoinedMomentId = (state: RainbowMomentState & RainbowMomentActions) =>
+  state.joinedMomentId;
 export const selectParticipantCount = (state: RainbowMomentState & RainbowMomentActions) =>
   state.participantCount;
 export const selectLivePhotos = (state: RainbowMomentState & RainbowMomentActions) =>
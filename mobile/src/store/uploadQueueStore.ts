@@ -4,9 +4,17 @@
  * Manages offline photo upload queue using Zustand with persistence.
  * Automatically retries uploads when network is restored.
  *
- * Requirements: FR-2 (AC-2.7)
+ * Failures are classified (see UploadErrorClass). Transient ones (network,
+ * server) are retried with exponential backoff; the time of the next attempt
+ * is stored on the item so backoff survives app restarts. Items that fail
+ * permanently, or run out of retries, stay in the queue with status 'error'
+ * as a dead-letter list the user can review, edit and retry.
+ *
+ * Requirements: FR-2 (AC-2.7, AC-2.8)
  */
 
+import { useMemo } from 'react';
+
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
@@ -14,10 +22,30 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import type { PhotoUploadMetadata } from '../types/photo';
 
 /**
- * Upload queue item status
+ * Upload queue item status ('error' items form the dead-letter list)
  */
 export type UploadStatus = 'pending' | 'uploading' | 'success' | 'error';
 
+/**
+ * Why an upload failed
+ * - network: no response (offline, timeout, dropped connection)
+ * - auth: session expired or not allowed (401/403)
+ * - validation: rejected request (other 4xx, e.g. 422)
+ * - server: server-side failure (5xx) or rate limiting
+ * - local: failed on the device (photo file missing or unreadable, upload not advancing)
+ */
+export type UploadErrorClass = 'network' | 'auth' | 'validation' | 'server' | 'local';
+
+/**
+ * Last acknowledged position of a resumable upload
+ */
+export interface UploadCheckpoint {
+  /** Server-side upload ID */
+  uploadId: string;
+  /** Bytes the server has acknowledged */
+  receivedBytes: number;
+}
+
 /**
  * Upload queue item
  */
@@ -27,9 +55,16 @@ export interface QueuedUpload {
   metadata: PhotoUploadMetadata;
   status: UploadStatus;
   errorMessage?: string;
+  /** Consecutive failures of the current errorClass */
   retryCount: number;
   createdAt: string;
   lastAttemptAt?: string;
+  /** Class of the last failure */
+  errorClass?: UploadErrorClass;
+  /** Earliest time of the next automatic attempt (ISO 8601) */
+  nextAttemptAt?: string;
+  /** Where to resume the upload; kept across retries and app restarts */
+  checkpoint?: UploadCheckpoint;
 }
 
 /**
@@ -38,22 +73,54 @@ export interface QueuedUpload {
 interface UploadQueueState {
   queue: QueuedUpload[];
   isProcessing: boolean;
+  /** Upload progress (0-100) of items being uploaded, by item ID */
+  uploadProgress: Record<string, number>;
 
   // Actions
-  addToQueue: (photoUri: string, metadata: PhotoUploadMetadata) => string;
+  addToQueue: (
+    photoUri: string,
+    metadata: PhotoUploadMetadata,
+    checkpoint?: UploadCheckpoint
+  ) => string;
   removeFromQueue: (id: string) => void;
   updateStatus: (id: string, status: UploadStatus, errorMessage?: string) => void;
-  incrementRetryCount: (id: string) => void;
-  getNextPending: () => QueuedUpload | undefined;
+  recordFailure: (id: string, errorClass: UploadErrorClass, errorMessage: string) => void;
+  retryUpload: (id: string, metadata?: Partial<PhotoUploadMetadata>) => void;
+  setUploadProgress: (id: string, percent: number) => void;
+  setCheckpoint: (id: string, checkpoint: UploadCheckpoint) => void;
+  requeue: (id: string) => void;
+  getNextPending: (now?: number) => QueuedUpload | undefined;
   setProcessing: (isProcessing: boolean) => void;
   clearCompleted: () => void;
   clearAll: () => void;
 }
 
 /**
- * Maximum retry attempts
+ * Attempts allowed per failure class before an item is dead-lettered.
+ * Auth, validation and local failures need the user, so they are not retried.
  */
-const MAX_RETRIES = 3;
+export const RETRY_LIMITS: Record<UploadErrorClass, number> = {
+  network: 10,
+  server: 5,
+  auth: 1,
+  validation: 1,
+  local: 1,
+};
+
+/**
+ * Exponential backoff configuration
+ */
+const INITIAL_RETRY_DELAY_MS = 1000; // 1 second
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+const BACKOFF_MULTIPLIER = 2;
+
+/**
+ * Delay before the next attempt after `retryCount` failures
+ */
+export const calculateRetryDelay = (retryCount: number): number => {
+  const delay = INITIAL_RETRY_DELAY_MS * Math.pow(BACKOFF_MULTIPLIER, Math.max(0, retryCount - 1));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+};
 
 /**
  * Generate unique ID
@@ -62,6 +129,21 @@ const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 };
 
+/**
+ * Drop the progress entry for an item
+ */
+const withoutProgress = (
+  uploadProgress: Record<string, number>,
+  id: string
+): Record<string, number> => {
+  if (!(id in uploadProgress)) {
+    return uploadProgress;
+  }
+  const rest = { ...uploadProgress };
+  delete rest[id];
+  return rest;
+};
+
 /**
  * Upload queue store with persistence
  */
@@ -70,11 +152,12 @@ export const useUploadQueueStore = create<UploadQueueState>()(
     (set, get) => ({
       queue: [],
       isProcessing: false,
+      uploadProgress: {},
 
       /**
-       * Add a new upload to the queue
+       * Add a new upload to the queue, optionally resuming a partial upload
        */
-      addToQueue: (photoUri, metadata) => {
+      addToQueue: (photoUri, metadata, checkpoint) => {
         const id = generateId();
         const newItem: QueuedUpload = {
           id,
@@ -83,6 +166,7 @@ export const useUploadQueueStore = create<UploadQueueState>()(
           status: 'pending',
           retryCount: 0,
           createdAt: new Date().toISOString(),
+          checkpoint,
         };
 
         set((state) => ({
@@ -98,11 +182,12 @@ export const useUploadQueueStore = create<UploadQueueState>()(
       removeFromQueue: (id) => {
         set((state) => ({
           queue: state.queue.filter((item) => item.id !== id),
+          uploadProgress: withoutProgress(state.uploadProgress, id),
         }));
       },
 
       /**
-       * Update upload status
+       * Update upload status (progress restarts from 0)
        */
       updateStatus: (id, status, errorMessage) => {
         set((state) => ({
@@ -116,25 +201,57 @@ export const useUploadQueueStore = create<UploadQueueState>()(
                 }
               : item
           ),
+          uploadProgress: withoutProgress(state.uploadProgress, id),
+        }));
+      },
+
+      /**
+       * Record a failed attempt: schedule a retry with backoff, or move the
+       * item to the dead-letter list if the failure is permanent or it is
+       * out of retries. Failures are counted per class, so the count starts
+       * over when the class changes.
+       */
+      recordFailure: (id, errorClass, errorMessage) => {
+        const now = Date.now();
+        set((state) => ({
+          queue: state.queue.map((item) => {
+            if (item.id !== id) {
+              return item;
+            }
+            const retryCount = item.errorClass === errorClass ? item.retryCount + 1 : 1;
+            const willRetry = retryCount < RETRY_LIMITS[errorClass];
+            return {
+              ...item,
+              status: willRetry ? 'pending' : 'error',
+              errorMessage,
+              errorClass,
+              retryCount,
+              lastAttemptAt: new Date(now).toISOString(),
+              nextAttemptAt: willRetry
+                ? new Date(now + calculateRetryDelay(retryCount)).toISOString()
+                : undefined,
+            };
+          }),
+          uploadProgress: withoutProgress(state.uploadProgress, id),
         }));
       },
 
       /**
-       * Increment retry count for an upload
+       * Retry a dead-lettered upload now, optionally with corrected metadata.
+       * The sent chunks (checkpoint) are kept.
        */
-      incrementRetryCount: (id) => {
+      retryUpload: (id, metadata) => {
         set((state) => ({
           queue: state.queue.map((item) =>
             item.id === id
               ? {
                   ...item,
-                  retryCount: item.retryCount + 1,
-                  // Mark as error if max retries exceeded
-                  status: item.retryCount + 1 >= MAX_RETRIES ? 'error' : item.status,
-                  errorMessage:
-                    item.retryCount + 1 >= MAX_RETRIES
-                      ? 'Maximum retry attempts exceeded'
-                      : item.errorMessage,
+                  metadata: metadata ? { ...item.metadata, ...metadata } : item.metadata,
+                  status: 'pending',
+                  retryCount: 0,
+                  errorMessage: undefined,
+                  errorClass: undefined,
+                  nextAttemptAt: undefined,
                 }
               : item
           ),
@@ -142,13 +259,52 @@ export const useUploadQueueStore = create<UploadQueueState>()(
       },
 
       /**
-       * Get next pending upload
+       * Record upload progress for an item
        */
-      getNextPending: () => {
+      setUploadProgress: (id, percent) => {
+        set((state) => ({
+          uploadProgress: { ...state.uploadProgress, [id]: percent },
+        }));
+      },
+
+      /**
+       * Record the last acknowledged position of an item's upload
+       */
+      setCheckpoint: (id, checkpoint) => {
+        set((state) => ({
+          queue: state.queue.map((item) => (item.id === id ? { ...item, checkpoint } : item)),
+        }));
+      },
+
+      /**
+       * Return a canceled upload to the end of the queue as pending.
+       * The retry count is kept since the user, not the network, stopped it.
+       */
+      requeue: (id) => {
+        set((state) => {
+          const item = state.queue.find((queued) => queued.id === id);
+          if (!item) {
+            return state;
+          }
+          return {
+            queue: [
+              ...state.queue.filter((queued) => queued.id !== id),
+              { ...item, status: 'pending', errorMessage: undefined },
+            ],
+            uploadProgress: withoutProgress(state.uploadProgress, id),
+          };
+        });
+      },
+
+      /**
+       * Get the next pending upload whose backoff has elapsed
+       */
+      getNextPending: (now = Date.now()) => {
         const { queue } = get();
         return queue.find(
           (item) =>
-            item.status === 'pending' && item.retryCount < MAX_RETRIES
+            item.status === 'pending' &&
+            (!item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= now)
         );
       },
 
@@ -172,14 +328,25 @@ export const useUploadQueueStore = create<UploadQueueState>()(
        * Clear all uploads
        */
       clearAll: () => {
-        set({ queue: [], isProcessing: false });
+        set({ queue: [], isProcessing: false, uploadProgress: {} });
       },
     }),
     {
       name: 'upload-queue-storage',
       storage: createJSONStorage(() => AsyncStorage),
-      // Only persist queue, not processing state
+      // Only persist queue, not processing state or progress
       partialize: (state) => ({ queue: state.queue }),
+      // Uploads cut off by the app closing resume from their checkpoint
+      onRehydrateStorage: () => (state) => {
+        if (!state?.queue.some((item) => item.status === 'uploading')) {
+          return;
+        }
+        useUploadQueueStore.setState({
+          queue: state.queue.map((item) =>
+            item.status === 'uploading' ? { ...item, status: 'pending' } : item
+          ),
+        });
+      },
     }
   )
 );
@@ -201,3 +368,18 @@ export const useFailedUploadCount = (): number => {
     state.queue.filter((item) => item.status === 'error').length
   );
 };
+
+/**
+ * Get dead-lettered uploads (failed permanently or out of retries)
+ */
+export const useDeadLetterUploads = (): QueuedUpload[] => {
+  const queue = useUploadQueueStore((state) => state.queue);
+  return useMemo(() => queue.filter((item) => item.status === 'error'), [queue]);
+};
+
+/**
+ * Get upload progress (0-100) for a queued item
+ */
+export const useUploadProgress = (id: string): number => {
+  return useUploadQueueStore((state) => state.uploadProgress[id] ?? 0);
+};
@@ -14,7 +14,7 @@ declare module '@rails/actioncable' {
     received?(data: unknown): void;
     initialized?(): void;
     connected?(): void;
-    disconnected?(): void;
+    disconnected?(data?: { willAttemptReconnect: boolean }): void;
     rejected?(): void;
   }
 
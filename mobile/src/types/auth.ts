@@ -127,6 +127,8 @@ export interface AuthActions {
   refreshToken: () => Promise<boolean>;
   checkAuth: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
+  verifyEmail: (token: string) => Promise<User>;
+  confirmPasswordReset: (token: string, password: string) => Promise<boolean>;
   clearError: () => void;
   setLoading: (loading: boolean) => void;
 }
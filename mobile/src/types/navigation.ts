@@ -15,6 +15,7 @@ export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
   ForgotPassword: undefined;
+  ResetPassword: { token?: string } | undefined;
 };
 
 // ============================================
@@ -24,14 +25,35 @@ export type AuthStackParamList = {
 export type FeedStackParamList = {
   Feed: undefined;
   PhotoDetail: { photoId: string };
+  /** displayName is shown while the profile loads (and if it is private) */
+  UserProfile: { userId: string; displayName?: string };
 };
 
 // ============================================
 // Map Stack - Map screens
 // ============================================
 
+/**
+ * Location to focus on when the map is opened from a rainbow alert
+ */
+export interface MapFocusTarget {
+  latitude: number;
+  longitude: number;
+  /** Direction to look (e.g. "NE") */
+  direction?: string;
+  /** Rainbow probability (0.0-1.0) */
+  probability?: number;
+  /** Distinguishes repeated alerts for the same location */
+  requestedAt: number;
+}
+
 export type MapStackParamList = {
-  Map: undefined;
+  Map: { focus?: MapFocusTarget } | undefined;
+  Trends: undefined;
+  RegionComparison: { regionIds?: string[] } | undefined;
+  MomentArchive: undefined;
+  MomentDetail: { momentId: string };
+  Forecast: undefined;
 };
 
 // ============================================
@@ -48,6 +70,15 @@ export type CameraStackParamList = {
     longitude?: number;
     timestamp?: string;
   };
+  FailedUploads: undefined;
+};
+
+// ============================================
+// Notifications Stack - Notification inbox
+// ============================================
+
+export type NotificationsStackParamList = {
+  Notifications: undefined;
 };
 
 // ============================================
@@ -59,6 +90,16 @@ export type ProfileStackParamList = {
   EditProfile: undefined;
   Settings: undefined;
   NotificationSettings: undefined;
+  BlockedUsers: undefined;
+};
+
+// ============================================
+// Admin Stack - Moderation screens (admin role only)
+// ============================================
+
+export type AdminStackParamList = {
+  ModerationReports: undefined;
+  ReportDetail: { reportId: string };
 };
 
 // ============================================
@@ -69,7 +110,10 @@ export type MainTabParamList = {
   FeedTab: NavigatorScreenParams<FeedStackParamList>;
   MapTab: NavigatorScreenParams<MapStackParamList>;
   CameraTab: NavigatorScreenParams<CameraStackParamList>;
+  NotificationsTab: NavigatorScreenParams<NotificationsStackParamList>;
   ProfileTab: NavigatorScreenParams<ProfileStackParamList>;
+  /** Only registered for admins */
+  AdminTab: NavigatorScreenParams<AdminStackParamList>;
 };
 
 // ============================================
@@ -80,6 +124,7 @@ export type RootStackParamList = {
   Onboarding: undefined;
   Auth: NavigatorScreenParams<AuthStackParamList>;
   Main: NavigatorScreenParams<MainTabParamList>;
+  VerifyEmail: { token: string };
 };
 
 // ============================================
@@ -92,6 +137,11 @@ export type OnboardingScreenProps = NativeStackScreenProps<
   'Onboarding'
 >;
 
+export type VerifyEmailScreenProps = NativeStackScreenProps<
+  RootStackParamList,
+  'VerifyEmail'
+>;
+
 // Auth Stack Screen Props
 export type LoginScreenProps = NativeStackScreenProps<
   AuthStackParamList,
@@ -105,6 +155,10 @@ export type ForgotPasswordScreenProps = NativeStackScreenProps<
   AuthStackParamList,
   'ForgotPassword'
 >;
+export type ResetPasswordScreenProps = NativeStackScreenProps<
+  AuthStackParamList,
+  'ResetPassword'
+>;
 
 // Feed Stack Screen Props
 export type FeedScreenProps = CompositeScreenProps<
@@ -122,6 +176,14 @@ export type PhotoDetailScreenProps = CompositeScreenProps<
   >
 >;
 
+export type UserProfileScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<FeedStackParamList, 'UserProfile'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
 // Map Stack Screen Props
 export type MapScreenProps = CompositeScreenProps<
   NativeStackScreenProps<MapStackParamList, 'Map'>,
@@ -131,6 +193,46 @@ export type MapScreenProps = CompositeScreenProps<
   >
 >;
 
+export type TrendsScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<MapStackParamList, 'Trends'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
+export type RegionComparisonScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<MapStackParamList, 'RegionComparison'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
+export type MomentArchiveScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<MapStackParamList, 'MomentArchive'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
+export type MomentDetailScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<MapStackParamList, 'MomentDetail'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
+export type ForecastScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<MapStackParamList, 'Forecast'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
 // Camera Stack Screen Props
 export type CameraScreenProps = CompositeScreenProps<
   NativeStackScreenProps<CameraStackParamList, 'Camera'>,
@@ -146,6 +248,22 @@ export type PhotoUploadScreenProps = CompositeScreenProps<
     NativeStackScreenProps<RootStackParamList>
   >
 >;
+export type FailedUploadsScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<CameraStackParamList, 'FailedUploads'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
+// Notifications Stack Screen Props
+export type NotificationsScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<NotificationsStackParamList, 'Notifications'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
 
 // Profile Stack Screen Props
 export type ProfileScreenProps = CompositeScreenProps<
@@ -176,6 +294,29 @@ export type NotificationSettingsScreenProps = CompositeScreenProps<
     NativeStackScreenProps<RootStackParamList>
   >
 >;
+export type BlockedUsersScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<ProfileStackParamList, 'BlockedUsers'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+
+// Admin Stack Screen Props
+export type ModerationReportsScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<AdminStackParamList, 'ModerationReports'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
+export type ReportDetailScreenProps = CompositeScreenProps<
+  NativeStackScreenProps<AdminStackParamList, 'ReportDetail'>,
+  CompositeScreenProps<
+    BottomTabScreenProps<MainTabParamList>,
+    NativeStackScreenProps<RootStackParamList>
+  >
+>;
 
 // ============================================
 // Global Navigation Type Declaration
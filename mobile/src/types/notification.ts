@@ -46,6 +46,8 @@ export interface NotificationData {
  * Notification settings
  */
 export interface NotificationSettings {
+  /** Deliver notifications to this user's devices (in-app notifications are always kept) */
+  pushEnabled: boolean;
   rainbowAlerts: boolean;
   likes: boolean;
   comments: boolean;
@@ -70,6 +72,7 @@ export const ALERT_RADIUS_OPTIONS = [
  * Default notification settings
  */
 export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  pushEnabled: true,
   rainbowAlerts: true,
   likes: true,
   comments: true,
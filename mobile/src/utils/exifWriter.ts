@@ -0,0 +1,257 @@
+/**
+ * EXIF Writer
+ *
+ * Re-encoding an image drops its EXIF block, but the backend reads the
+ * capture time and GPS position from it (ImageProcessingJob). These helpers
+ * build a minimal EXIF APP1 segment and put it into a JPEG:
+ * - buildExifSegment: fields → APP1 segment bytes
+ * - insertExifSegment: replace any EXIF segment of a JPEG with a new one
+ * - formatExifDateTime: Date → "YYYY:MM:DD HH:MM:SS"
+ *
+ * Requirements: FR-2 (AC-2.4, AC-2.5)
+ */
+
+/**
+ * EXIF fields written to processed photos
+ */
+export interface ExifFields {
+  /** "YYYY:MM:DD HH:MM:SS" in the camera's local time */
+  dateTimeOriginal?: string;
+  latitude?: number;
+  longitude?: number;
+  /** Meters above sea level */
+  altitude?: number;
+  /** 1-8; 1 means the pixels are already upright */
+  orientation?: number;
+}
+
+// TIFF field types
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+const TYPE_SIZES: Record<number, number> = {
+  [BYTE]: 1,
+  [ASCII]: 1,
+  [SHORT]: 2,
+  [LONG]: 4,
+  [RATIONAL]: 8,
+};
+
+// Tags
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_VERSION = 0x0000;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+// "Exif\0\0"
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+const TIFF_HEADER_SIZE = 8;
+const MAX_SEGMENT_LENGTH = 0xffff;
+
+/**
+ * One IFD entry. RATIONAL values are [numerator, denominator] pairs, flattened.
+ */
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[];
+}
+
+const entryCount = (entry: IfdEntry): number =>
+  entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length;
+
+const entryDataSize = (entry: IfdEntry): number => TYPE_SIZES[entry.type] * entryCount(entry);
+
+/** Bytes an IFD takes, including values too large for the entry itself */
+const ifdSize = (entries: IfdEntry[]): number =>
+  entries.reduce(
+    (size, entry) => {
+      const dataSize = entryDataSize(entry);
+      return dataSize > 4 ? size + dataSize + (dataSize % 2) : size;
+    },
+    2 + entries.length * 12 + 4
+  );
+
+const ascii = (text: string): number[] => [...Array.from(text, (c) => c.charCodeAt(0) & 0x7f), 0];
+
+/** Decimal degrees → degrees, minutes, seconds (1/1000 s) as rationals */
+const toDmsRationals = (decimal: number): number[] => {
+  const value = Math.abs(decimal);
+  const degrees = Math.floor(value);
+  const minutes = Math.floor((value - degrees) * 60);
+  const seconds = Math.round(((value - degrees) * 60 - minutes) * 60 * 1000);
+  return [degrees, 1, minutes, 1, seconds, 1000];
+};
+
+/**
+ * Write an IFD at `offset` (relative to the TIFF header)
+ */
+const writeIfd = (view: DataView, offset: number, entries: IfdEntry[]): void => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  view.setUint16(offset, sorted.length);
+  sorted.forEach((entry, index) => {
+    const entryOffset = offset + 2 + index * 12;
+    view.setUint16(entryOffset, entry.tag);
+    view.setUint16(entryOffset + 2, entry.type);
+    view.setUint32(entryOffset + 4, entryCount(entry));
+
+    const dataSize = entryDataSize(entry);
+    let valueOffset = entryOffset + 8;
+    if (dataSize > 4) {
+      view.setUint32(entryOffset + 8, dataOffset);
+      valueOffset = dataOffset;
+      dataOffset += dataSize + (dataSize % 2);
+    }
+
+    entry.values.forEach((value, i) => {
+      switch (entry.type) {
+        case BYTE:
+        case ASCII:
+          view.setUint8(valueOffset + i, value);
+          break;
+        case SHORT:
+          view.setUint16(valueOffset + i * 2, value);
+          break;
+        default:
+          // LONG, and RATIONAL as consecutive LONG pairs
+          view.setUint32(valueOffset + i * 4, value);
+      }
+    });
+  });
+
+  // No next IFD
+  view.setUint32(offset + 2 + sorted.length * 12, 0);
+};
+
+/**
+ * Format a date as an EXIF date/time in the device's local time
+ */
+export const formatExifDateTime = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return (
+    `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+};
+
+/**
+ * Build an EXIF APP1 segment (big-endian TIFF) with the given fields
+ * @returns Segment bytes including the APP1 marker, or null if there is nothing to write
+ */
+export const buildExifSegment = (fields: ExifFields): Uint8Array | null => {
+  const ifd0: IfdEntry[] = [];
+  const exifIfd: IfdEntry[] = [];
+  const gpsIfd: IfdEntry[] = [];
+
+  if (fields.orientation !== undefined) {
+    ifd0.push({ tag: TAG_ORIENTATION, type: SHORT, values: [fields.orientation] });
+  }
+  if (fields.dateTimeOriginal) {
+    exifIfd.push({ tag: TAG_DATE_TIME_ORIGINAL, type: ASCII, values: ascii(fields.dateTimeOriginal) });
+  }
+  if (fields.latitude !== undefined && fields.longitude !== undefined) {
+    gpsIfd.push(
+      { tag: TAG_GPS_VERSION, type: BYTE, values: [2, 3, 0, 0] },
+      { tag: TAG_GPS_LATITUDE_REF, type: ASCII, values: ascii(fields.latitude < 0 ? 'S' : 'N') },
+      { tag: TAG_GPS_LATITUDE, type: RATIONAL, values: toDmsRationals(fields.latitude) },
+      { tag: TAG_GPS_LONGITUDE_REF, type: ASCII, values: ascii(fields.longitude < 0 ? 'W' : 'E') },
+      { tag: TAG_GPS_LONGITUDE, type: RATIONAL, values: toDmsRationals(fields.longitude) }
+    );
+    if (fields.altitude !== undefined) {
+      gpsIfd.push(
+        { tag: TAG_GPS_ALTITUDE_REF, type: BYTE, values: [fields.altitude < 0 ? 1 : 0] },
+        {
+          tag: TAG_GPS_ALTITUDE,
+          type: RATIONAL,
+          values: [Math.round(Math.abs(fields.altitude) * 100), 100],
+        }
+      );
+    }
+  }
+
+  if (ifd0.length === 0 && exifIfd.length === 0 && gpsIfd.length === 0) {
+    return null;
+  }
+
+  // Pointer values are filled in once the layout is known
+  const exifPointer: IfdEntry = { tag: TAG_EXIF_IFD, type: LONG, values: [0] };
+  const gpsPointer: IfdEntry = { tag: TAG_GPS_IFD, type: LONG, values: [0] };
+  if (exifIfd.length > 0) ifd0.push(exifPointer);
+  if (gpsIfd.length > 0) ifd0.push(gpsPointer);
+
+  const exifOffset = TIFF_HEADER_SIZE + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exifIfd.length > 0 ? ifdSize(exifIfd) : 0);
+  const tiffSize = gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0);
+  exifPointer.values = [exifOffset];
+  gpsPointer.values = [gpsOffset];
+
+  // Marker (2) + length (2) + "Exif\0\0" (6) + TIFF data
+  const segment = new Uint8Array(4 + EXIF_HEADER.length + tiffSize);
+  const segmentView = new DataView(segment.buffer);
+  segmentView.setUint16(0, 0xffe1);
+  segmentView.setUint16(2, segment.length - 2);
+  segment.set(EXIF_HEADER, 4);
+
+  const tiff = new DataView(segment.buffer, 4 + EXIF_HEADER.length);
+  tiff.setUint16(0, 0x4d4d); // "MM"
+  tiff.setUint16(2, 0x002a);
+  tiff.setUint32(4, TIFF_HEADER_SIZE);
+  writeIfd(tiff, TIFF_HEADER_SIZE, ifd0);
+  if (exifIfd.length > 0) writeIfd(tiff, exifOffset, exifIfd);
+  if (gpsIfd.length > 0) writeIfd(tiff, gpsOffset, gpsIfd);
+
+  return segment.length - 2 <= MAX_SEGMENT_LENGTH ? segment : null;
+};
+
+/**
+ * Whether the bytes at `offset` start an EXIF APP1 segment
+ */
+const isExifSegment = (jpeg: Uint8Array, offset: number): boolean =>
+  jpeg[offset + 1] === 0xe1 &&
+  EXIF_HEADER.every((byte, i) => jpeg[offset + 4 + i] === byte);
+
+/**
+ * Put an EXIF segment right after the JPEG start-of-image marker,
+ * dropping any EXIF segment the encoder wrote
+ * @throws Error if the data is not a JPEG
+ */
+export const insertExifSegment = (jpeg: Uint8Array, segment: Uint8Array): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  // Keep the other APPn/COM segments that precede the image data
+  const kept: Uint8Array[] = [];
+  let offset = 2;
+  while (
+    offset + 4 <= jpeg.length &&
+    jpeg[offset] === 0xff &&
+    ((jpeg[offset + 1] >= 0xe0 && jpeg[offset + 1] <= 0xef) || jpeg[offset + 1] === 0xfe)
+  ) {
+    const length = 2 + ((jpeg[offset + 2] << 8) | jpeg[offset + 3]);
+    if (!isExifSegment(jpeg, offset)) {
+      kept.push(jpeg.subarray(offset, offset + length));
+    }
+    offset += length;
+  }
+
+  const parts = [jpeg.subarray(0, 2), segment, ...kept, jpeg.subarray(offset)];
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    result.set(part, position);
+    return position + part.length;
+  }, 0);
+  return result;
+};
@@ -5,3 +5,10 @@
 export * from './validation';
 export * from './accessibility';
 export * from './testMode';
+export * from './notificationRouting';
+export * from './liveFeed';
+export * from './liveMarkers';
+export * from './exifWriter';
+export * from './sunPosition';
+export * from './rainbowGeometry';
+export * from './rainbowForecast';
@@ -0,0 +1,236 @@
+/**
+ * Live Feed
+ *
+ * Helpers for merging PhotoFeedChannel broadcasts into the paginated feed:
+ * - photoFromFeedMessage: broadcast payload → Photo list item
+ * - matchesPhotoFilters: the same keyword/radius/date rules as GET /photos
+ * - mergeNewPhotos: prepend new photos to the first cached page
+ *
+ * and NotificationsChannel like/comment counts into every cached copy of a
+ * photo (feed, profile grids, photo detail):
+ * - photoCountsFromNotification: new_like/new_comment → PhotoCounts
+ * - updateCachedPhotoCounts: write the counts to the React Query cache
+ *
+ * Requirements: F-5 (Real-time Updates), FR-4 (AC-4.3 to AC-4.5)
+ */
+
+import { calculateDistance } from '../services/mapService';
+
+import type { NotificationMessage, PhotoFeedMessage } from '../services/cableService';
+import type { Photo, PhotoFilters, PhotoListResponse } from '../types/photo';
+import type { PhotoWithSocial } from '../types/social';
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+
+/**
+ * Latest like/comment totals for a photo. Missing values are left as cached.
+ */
+export interface PhotoCounts {
+  likeCount?: number;
+  commentCount?: number;
+}
+
+/**
+ * Convert a PhotoFeedChannel broadcast into a feed list item
+ */
+export const photoFromFeedMessage = ({ photo }: PhotoFeedMessage): Photo => {
+  const hasLocation = photo.latitude !== null && photo.longitude !== null;
+  const thumbnail = photo.thumbnail_url ?? '';
+
+  return {
+    id: photo.id,
+    title: photo.title ?? undefined,
+    description: photo.description ?? undefined,
+    capturedAt: photo.captured_at ?? photo.created_at,
+    location: hasLocation
+      ? { latitude: photo.latitude as number, longitude: photo.longitude as number }
+      : null,
+    imageUrls: {
+      thumbnail,
+      medium: photo.medium_url ?? thumbnail,
+    },
+    likeCount: 0,
+    commentCount: 0,
+    user: { id: photo.user.id, displayName: photo.user.display_name },
+    createdAt: photo.created_at,
+  };
+};
+
+/**
+ * Whether a photo would be returned by GET /photos with these filters.
+ * Dates are whole days ('yyyy-MM-dd'), inclusive on both ends.
+ */
+export const matchesPhotoFilters = (photo: Photo, filters: PhotoFilters): boolean => {
+  if (filters.userId && photo.user.id !== filters.userId) {
+    return false;
+  }
+
+  if (filters.keyword) {
+    const keyword = filters.keyword.toLowerCase();
+    const text = [photo.title, photo.description].filter(Boolean).join('\n').toLowerCase();
+    if (!text.includes(keyword)) {
+      return false;
+    }
+  }
+
+  if (filters.latitude !== undefined && filters.longitude !== undefined) {
+    if (!photo.location) {
+      return false;
+    }
+    const distance = calculateDistance(
+      filters.latitude,
+      filters.longitude,
+      photo.location.latitude,
+      photo.location.longitude
+    );
+    if (distance > (filters.radiusKm ?? 10) * 1000) {
+      return false;
+    }
+  }
+
+  if (filters.startDate || filters.endDate) {
+    const capturedAt = new Date(photo.capturedAt).getTime();
+    if (Number.isNaN(capturedAt)) {
+      return false;
+    }
+    if (filters.startDate && capturedAt < new Date(`${filters.startDate}T00:00:00`).getTime()) {
+      return false;
+    }
+    if (filters.endDate && capturedAt > new Date(`${filters.endDate}T23:59:59.999`).getTime()) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Prepend new photos to the first page of a cached feed.
+ * Photos already in the cache are skipped; other pages are left untouched so
+ * nothing is refetched.
+ */
+export const mergeNewPhotos = (
+  data: InfiniteData<PhotoListResponse>,
+  newPhotos: Photo[]
+): InfiniteData<PhotoListResponse> => {
+  if (data.pages.length === 0) {
+    return data;
+  }
+
+  const cachedIds = new Set(data.pages.flatMap((page) => page.data.map((photo) => photo.id)));
+  const added = newPhotos.filter((photo) => !cachedIds.has(photo.id));
+  if (added.length === 0) {
+    return data;
+  }
+
+  const [firstPage, ...restPages] = data.pages;
+  return {
+    ...data,
+    pages: [
+      {
+        ...firstPage,
+        data: [...added, ...firstPage.data],
+        meta: { ...firstPage.meta, totalCount: firstPage.meta.totalCount + added.length },
+      },
+      ...restPages,
+    ],
+  };
+};
+
+/**
+ * Extract the new totals from a NotificationsChannel message.
+ * @returns null for messages that do not carry photo counts
+ */
+export const photoCountsFromNotification = (
+  message: NotificationMessage
+): { photoId: string; counts: PhotoCounts } | null => {
+  if (!message.photo_id) {
+    return null;
+  }
+
+  if (message.type === 'new_like' && typeof message.like_count === 'number') {
+    return { photoId: message.photo_id, counts: { likeCount: message.like_count } };
+  }
+  if (message.type === 'new_comment' && typeof message.comment_count === 'number') {
+    return { photoId: message.photo_id, counts: { commentCount: message.comment_count } };
+  }
+  return null;
+};
+
+/**
+ * Apply counts to a single photo, keeping the reference when nothing changes
+ */
+const applyPhotoCounts = <T extends Photo | PhotoWithSocial>(photo: T, counts: PhotoCounts): T => {
+  const likeCount = counts.likeCount ?? photo.likeCount;
+  const commentCount = counts.commentCount ?? photo.commentCount;
+  if (likeCount === photo.likeCount && commentCount === photo.commentCount) {
+    return photo;
+  }
+  return { ...photo, likeCount, commentCount };
+};
+
+const updatePageCounts = (
+  page: PhotoListResponse,
+  photoId: string,
+  counts: PhotoCounts
+): PhotoListResponse => {
+  let changed = false;
+  const data = page.data.map((photo) => {
+    if (photo.id !== photoId) {
+      return photo;
+    }
+    const updated = applyPhotoCounts(photo, counts);
+    changed = changed || updated !== photo;
+    return updated;
+  });
+  return changed ? { ...page, data } : page;
+};
+
+/**
+ * Update the counts of a photo in a cached page of photos
+ */
+export const updatePhotoCountsInPage = (
+  data: PhotoListResponse | undefined,
+  photoId: string,
+  counts: PhotoCounts
+): PhotoListResponse | undefined => (data ? updatePageCounts(data, photoId, counts) : data);
+
+/**
+ * Update the counts of a photo in every page of a cached infinite list
+ */
+export const updatePhotoCountsInPages = (
+  data: InfiniteData<PhotoListResponse> | undefined,
+  photoId: string,
+  counts: PhotoCounts
+): InfiniteData<PhotoListResponse> | undefined => {
+  if (!data) {
+    return data;
+  }
+
+  const pages = data.pages.map((page) => updatePageCounts(page, photoId, counts));
+  return pages.some((page, index) => page !== data.pages[index]) ? { ...data, pages } : data;
+};
+
+/**
+ * Write a photo's latest counts to every query that caches it:
+ * the feed (['photos', filters]), another user's grid (['userPhotos', userId]),
+ * the own profile grid (['myPhotos']) and the photo detail (['photo', photoId]).
+ */
+export const updateCachedPhotoCounts = (
+  queryClient: QueryClient,
+  photoId: string,
+  counts: PhotoCounts
+): void => {
+  queryClient.setQueriesData<InfiniteData<PhotoListResponse>>({ queryKey: ['photos'] }, (data) =>
+    updatePhotoCountsInPages(data, photoId, counts)
+  );
+  queryClient.setQueriesData<InfiniteData<PhotoListResponse>>(
+    { queryKey: ['userPhotos'] },
+    (data) => updatePhotoCountsInPages(data, photoId, counts)
+  );
+  queryClient.setQueryData<PhotoListResponse>(['myPhotos'], (data) =>
+    updatePhotoCountsInPage(data, photoId, counts)
+  );
+  queryClient.setQueryData<PhotoWithSocial>(['photo', photoId], (data) =>
+    data ? applyPhotoCounts(data, counts) : data
+  );
+};
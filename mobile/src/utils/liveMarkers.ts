@@ -0,0 +1,108 @@
+/**
+ * Live Markers
+ *
+ * Helpers for adding photos received in real time to the map:
+ * - markerFromMomentPhoto / markerFromFeedMessage: broadcast payload → MapMarker
+ * - addLiveMarker: remember a new marker and the moment it arrived in
+ * - mergeLiveMarkers: combine with loaded markers, highlighting those from
+ *   the moment that is still running
+ *
+ * Requirements: F-5 (Real-time Updates), FR-5 (AC-5.1)
+ */
+
+import type { PhotoFeedMessage } from '../services/cableService';
+import type { MapMarker } from '../services/mapService';
+import type { MomentPhoto } from '../store/rainbowMomentStore';
+
+/** Most live markers kept; older ones come back with the next marker load */
+export const MAX_LIVE_MARKERS = 100;
+
+/**
+ * A marker received in real time
+ */
+export interface LiveMapMarker {
+  marker: MapMarker;
+  /** Rainbow Moment that was active when the photo arrived, if any */
+  momentId: string | null;
+}
+
+/**
+ * Convert a photo from the RainbowMomentChannel into a map marker
+ */
+export const markerFromMomentPhoto = (photo: MomentPhoto): MapMarker => ({
+  id: photo.id,
+  latitude: photo.latitude,
+  longitude: photo.longitude,
+  thumbnailUrl: photo.thumbnailUrl ?? '',
+  capturedAt: photo.capturedAt,
+  userId: photo.user.id,
+});
+
+/**
+ * Convert a PhotoFeedChannel broadcast into a map marker
+ * @returns null for photos without a location
+ */
+export const markerFromFeedMessage = ({ photo }: PhotoFeedMessage): MapMarker | null => {
+  if (photo.latitude === null || photo.longitude === null) {
+    return null;
+  }
+
+  return {
+    id: photo.id,
+    latitude: photo.latitude,
+    longitude: photo.longitude,
+    thumbnailUrl: photo.thumbnail_url ?? '',
+    title: photo.title,
+    capturedAt: photo.captured_at ?? photo.created_at,
+    userId: photo.user.id,
+  };
+};
+
+/**
+ * Add a live marker, newest first. A photo that arrives on both channels is
+ * kept once, with the first moment it was seen in.
+ */
+export const addLiveMarker = (
+  liveMarkers: LiveMapMarker[],
+  marker: MapMarker,
+  momentId: string | null
+): LiveMapMarker[] => {
+  if (liveMarkers.some((live) => live.marker.id === marker.id)) {
+    return liveMarkers;
+  }
+  return [{ marker, momentId }, ...liveMarkers].slice(0, MAX_LIVE_MARKERS);
+};
+
+/**
+ * Combine loaded markers with live ones.
+ * Markers from the running moment are flagged isLive; once the moment is
+ * archived (liveMomentId is null or another moment) they render normally.
+ *
+ * @param markers - Markers loaded for the current region
+ * @param liveMarkers - Markers received in real time
+ * @param liveMomentId - ID of the moment that is still running, if any
+ */
+export const mergeLiveMarkers = (
+  markers: MapMarker[],
+  liveMarkers: LiveMapMarker[],
+  liveMomentId: string | null
+): MapMarker[] => {
+  if (liveMarkers.length === 0) {
+    return markers;
+  }
+
+  const liveIds = new Set(
+    liveMarkers
+      .filter((live) => liveMomentId !== null && live.momentId === liveMomentId)
+      .map((live) => live.marker.id)
+  );
+  const loadedIds = new Set(markers.map((marker) => marker.id));
+
+  const added = liveMarkers
+    .filter((live) => !loadedIds.has(live.marker.id))
+    .map((live) => live.marker);
+
+  return [...added, ...markers].map((marker) =>
+    liveIds.has(marker.id) ? { ...marker, isLive: true } : marker
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * Notification Routing
+ *
+ * Maps a notification payload to the screen it should open:
+ * - photoId  → PhotoDetail (likes, comments)
+ * - location → Map centred on the rainbow alert with direction/probability
+ * - userId   → the user's profile (own profile in the Profile tab)
+ * Anything else opens the notification inbox.
+ *
+ * Push payloads from the backend use snake_case keys while in-app
+ * notifications are camelCase, so both are accepted.
+ *
+ * Requirements: FR-7 (AC-7.1)
+ */
+
+import type { MainTabParamList } from '../types/navigation';
+import type { NotificationData } from '../types/notification';
+import type { NavigatorScreenParams } from '@react-navigation/native';
+
+/**
+ * Navigation target inside the main tabs
+ */
+export type NotificationRoute = NavigatorScreenParams<MainTabParamList>;
+
+interface RoutingContext {
+  /** Signed-in user's ID (their own profile lives in the Profile tab) */
+  currentUserId?: string | null;
+  /** Clock for MapFocusTarget.requestedAt (injectable for tests) */
+  now?: () => number;
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0
+    ? value
+    : typeof value === 'number'
+      ? String(value)
+      : undefined;
+
+const asNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Normalize a raw payload (snake_case or camelCase) into NotificationData
+ */
+export const normalizeNotificationData = (raw: Record<string, unknown>): NotificationData => {
+  const location = raw.location as { lat?: unknown; lng?: unknown } | undefined;
+  const lat = asNumber(location?.lat);
+  const lng = asNumber(location?.lng);
+
+  return {
+    ...raw,
+    photoId: asString(raw.photoId ?? raw.photo_id),
+    userId: asString(raw.userId ?? raw.user_id),
+    location: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+    direction: asString(raw.direction),
+    probability: asNumber(raw.probability),
+    estimatedDuration: asNumber(raw.estimatedDuration ?? raw.estimated_duration),
+  };
+};
+
+/**
+ * Resolve where a notification tap should take the user
+ * @param raw Notification data (from the inbox or a push payload)
+ * @param context Current user and clock
+ */
+export const resolveNotificationRoute = (
+  raw: Record<string, unknown> | null | undefined,
+  context: RoutingContext = {}
+): NotificationRoute => {
+  const data = normalizeNotificationData(raw ?? {});
+  const now = context.now ?? Date.now;
+
+  if (data.photoId) {
+    return {
+      screen: 'FeedTab',
+      params: { screen: 'PhotoDetail', params: { photoId: data.photoId } },
+    };
+  }
+
+  if (data.location) {
+    return {
+      screen: 'MapTab',
+      params: {
+        screen: 'Map',
+        params: {
+          focus: {
+            latitude: data.location.lat,
+            longitude: data.location.lng,
+            direction: data.direction,
+            probability: data.probability,
+            requestedAt: now(),
+          },
+        },
+      },
+    };
+  }
+
+  if (data.userId) {
+    if (data.userId === context.currentUserId) {
+      return { screen: 'ProfileTab', params: { screen: 'Profile' } };
+    }
+
+    return {
+      screen: 'FeedTab',
+      params: { screen: 'UserProfile', params: { userId: data.userId } },
+    };
+  }
+
+  return { screen: 'NotificationsTab', params: { screen: 'Notifications' } };
+};
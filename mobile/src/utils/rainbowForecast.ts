@@ -0,0 +1,208 @@
+/**
+ * Rainbow Forecast
+ *
+ * Scores upcoming 10-minute slots for the chance of a rainbow from the
+ * forecast weather at a location and the forecast precipitation around it.
+ * A slot scores when all of these hold:
+ * - the sun is between the horizon and 42° (calculated on the device)
+ * - rain is falling on the side opposite the sun, where the bow forms
+ * - skies toward the sun are clear of rain and cloud, so sunlight gets through
+ *
+ * Requirements: FR-13
+ */
+
+import {
+  bearingDifference,
+  getAntisolarAzimuth,
+  getRainbowVisibility,
+} from './rainbowGeometry';
+import { getSunPosition, normalizeDegrees, type SunPosition } from './sunPosition';
+
+import type { RadarData, WeatherCondition } from '../types/photo';
+
+/** Length of a forecast slot, in minutes */
+export const FORECAST_SLOT_MINUTES = 10;
+/** Slots scoring at least this are shown as good windows */
+export const GOOD_SLOT_SCORE = 50;
+
+/** Precipitation (mm/h) that counts as full rain for a rainbow */
+const RAIN_SATURATION = 1;
+/** Half-width of the sectors toward and away from the sun, in degrees */
+const SECTOR_HALF_WIDTH = 60;
+/** Cloud cover assumed when the forecast has none, in percent */
+const DEFAULT_CLOUD_COVER = 50;
+
+const SLOT_MS = FORECAST_SLOT_MINUTES * 60 * 1000;
+const RAD = Math.PI / 180;
+
+/**
+ * A scored forecast slot
+ */
+export interface ForecastSlot {
+  /** Start of the slot */
+  time: Date;
+  /** Chance of a rainbow, 0-100 */
+  score: number;
+  sun: SunPosition;
+  /** Compass bearing to face for the rainbow (opposite the sun) */
+  rainbowAzimuth: number;
+  /** How much rain there is opposite the sun, 0-1 */
+  rainOpposite: number;
+  /** How clear it is toward the sun, 0-1 */
+  clearTowardSun: number;
+}
+
+/**
+ * Consecutive slots scoring at least GOOD_SLOT_SCORE
+ */
+export interface ForecastWindow {
+  start: Date;
+  end: Date;
+  peakScore: number;
+  peakTime: Date;
+  /** Bearing to face at the peak */
+  rainbowAzimuth: number;
+}
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Initial compass bearing from one point to another
+ */
+const bearingBetween = (from: Coordinates, to: Coordinates): number => {
+  const phi1 = from.latitude * RAD;
+  const phi2 = to.latitude * RAD;
+  const deltaLambda = (to.longitude - from.longitude) * RAD;
+  const y = Math.sin(deltaLambda) * Math.cos(phi2);
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda);
+  return normalizeDegrees(Math.atan2(y, x) / RAD);
+};
+
+/**
+ * Entries of the forecast hour covering a time: those with the latest
+ * timestamp not after it, or the earliest ones if the forecast starts later
+ */
+const entriesAt = <T extends { timestamp: string }>(entries: T[], time: Date): T[] => {
+  const timestamps = [...new Set(entries.map((entry) => new Date(entry.timestamp).getTime()))].sort(
+    (a, b) => a - b
+  );
+  if (timestamps.length === 0) {
+    return [];
+  }
+
+  const covering = timestamps.filter((timestamp) => timestamp <= time.getTime()).pop();
+  const chosen = covering ?? timestamps[0];
+  return entries.filter((entry) => new Date(entry.timestamp).getTime() === chosen);
+};
+
+/**
+ * Heaviest precipitation among cells within the sector around a bearing
+ */
+const precipitationToward = (
+  location: Coordinates,
+  cells: RadarData[],
+  bearing: number
+): number =>
+  cells.reduce((heaviest, cell) => {
+    if (cell.centerLatitude === undefined || cell.centerLongitude === undefined) {
+      return heaviest;
+    }
+    const toCell = bearingBetween(location, {
+      latitude: cell.centerLatitude,
+      longitude: cell.centerLongitude,
+    });
+    return Math.abs(bearingDifference(bearing, toCell)) <= SECTOR_HALF_WIDTH
+      ? Math.max(heaviest, cell.precipitationIntensity ?? 0)
+      : heaviest;
+  }, 0);
+
+/**
+ * Score a slot from the forecast
+ */
+export const scoreForecastSlot = (
+  time: Date,
+  location: Coordinates,
+  weatherConditions: WeatherCondition[],
+  radarData: RadarData[]
+): ForecastSlot => {
+  const sun = getSunPosition(time, location.latitude, location.longitude);
+  const rainbowAzimuth = getAntisolarAzimuth(sun.azimuth);
+  const cells = entriesAt(radarData, time);
+  const cloudCover = entriesAt(weatherConditions, time)[0]?.cloudCover ?? DEFAULT_CLOUD_COVER;
+
+  const rainOpposite = Math.min(
+    1,
+    precipitationToward(location, cells, rainbowAzimuth) / RAIN_SATURATION
+  );
+  const rainTowardSun = Math.min(
+    1,
+    precipitationToward(location, cells, sun.azimuth) / RAIN_SATURATION
+  );
+  // Even full cloud cover leaves gaps for the sun some of the time
+  const clearTowardSun = (1 - rainTowardSun) * (1 - cloudCover / 200);
+
+  const score =
+    getRainbowVisibility(sun.altitude) === 'possible'
+      ? Math.round(100 * rainOpposite * clearTowardSun)
+      : 0;
+
+  return { time, score, sun, rainbowAzimuth, rainOpposite, clearTowardSun };
+};
+
+/**
+ * Score consecutive slots from the slot containing `start`
+ */
+export const buildForecastSlots = (
+  start: Date,
+  hours: number,
+  location: Coordinates,
+  weatherConditions: WeatherCondition[],
+  radarData: RadarData[]
+): ForecastSlot[] => {
+  const first = Math.floor(start.getTime() / SLOT_MS) * SLOT_MS;
+  const count = Math.round((hours * 60) / FORECAST_SLOT_MINUTES);
+
+  return Array.from({ length: count }, (_, index) =>
+    scoreForecastSlot(new Date(first + index * SLOT_MS), location, weatherConditions, radarData)
+  );
+};
+
+/**
+ * Merge consecutive good slots into windows
+ */
+export const getForecastWindows = (slots: ForecastSlot[]): ForecastWindow[] => {
+  const windows: ForecastWindow[] = [];
+  let current: ForecastWindow | null = null;
+
+  for (const slot of slots) {
+    if (slot.score < GOOD_SLOT_SCORE) {
+      current = null;
+      continue;
+    }
+
+    const end = new Date(slot.time.getTime() + SLOT_MS);
+    if (!current) {
+      current = {
+        start: slot.time,
+        end,
+        peakScore: slot.score,
+        peakTime: slot.time,
+        rainbowAzimuth: slot.rainbowAzimuth,
+      };
+      windows.push(current);
+    } else {
+      current.end = end;
+      if (slot.score > current.peakScore) {
+        current.peakScore = slot.score;
+        current.peakTime = slot.time;
+        current.rainbowAzimuth = slot.rainbowAzimuth;
+      }
+    }
+  }
+
+  return windows;
+};
@@ -0,0 +1,223 @@
+/**
+ * Rainbow Geometry
+ *
+ * Where a rainbow can appear for a given sun position. Rainbows are circles
+ * centered on the antisolar point (opposite the sun, as far below the
+ * horizon as the sun is above it): the primary bow at 42° and the secondary
+ * bow at 51°. A bow is visible only while its top is above the horizon, so
+ * the primary is impossible once the sun is higher than 42°.
+ *
+ * The arcs are projected onto the camera preview assuming the phone is held
+ * upright, with the horizon across the middle of the preview.
+ *
+ * Rainbow windows are the parts of a day when the sun is up but no higher
+ * than 42° — usually one after sunrise and one before sunset, merged into a
+ * single window on days the sun never climbs that high.
+ *
+ * Requirements: FR-2 (AC-2.1)
+ */
+
+import {
+  getAltitudeTimes,
+  getSunTimes,
+  normalizeDegrees,
+  type SunPosition,
+} from './sunPosition';
+
+/** Angular radius of the primary rainbow, in degrees */
+export const PRIMARY_RAINBOW_RADIUS = 42;
+/** Angular radius of the secondary rainbow, in degrees */
+export const SECONDARY_RAINBOW_RADIUS = 51;
+/** Typical horizontal field of view of a phone's main camera in portrait */
+export const DEFAULT_HORIZONTAL_FOV = 50;
+
+/** Azimuth step between arc points, in degrees */
+const ARC_STEP = 1;
+
+const RAD = Math.PI / 180;
+
+/**
+ * Whether the sun allows a rainbow
+ * - possible: sun between the horizon and the primary bow's radius
+ * - sunTooHigh: the bows would be entirely below the horizon
+ * - sunBelowHorizon: no direct sunlight
+ */
+export type RainbowVisibility = 'possible' | 'sunTooHigh' | 'sunBelowHorizon';
+
+/**
+ * Camera preview to project onto
+ */
+export interface CameraViewGeometry {
+  /** Compass bearing the camera faces */
+  heading: number;
+  /** Preview size in points */
+  width: number;
+  height: number;
+  /** Horizontal field of view in degrees */
+  horizontalFov?: number;
+}
+
+/**
+ * A period when the sun is low enough for a rainbow
+ */
+export interface RainbowWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A point in preview coordinates
+ */
+export interface ArcPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Whether a rainbow can appear with the sun at this altitude
+ */
+export const getRainbowVisibility = (sunAltitude: number): RainbowVisibility => {
+  if (sunAltitude < 0) {
+    return 'sunBelowHorizon';
+  }
+  return sunAltitude > PRIMARY_RAINBOW_RADIUS ? 'sunTooHigh' : 'possible';
+};
+
+/**
+ * Compass bearing of the rainbow's center (opposite the sun)
+ */
+export const getAntisolarAzimuth = (sunAzimuth: number): number =>
+  normalizeDegrees(sunAzimuth + 180);
+
+/**
+ * 16-point compass direction of a bearing (same as the backend's rainbow direction)
+ */
+export const getCardinalDirection = (azimuth: number): string => {
+  const directions = [
+    'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+    'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+  ];
+  return directions[Math.floor((normalizeDegrees(azimuth) + 11.25) / 22.5) % 16];
+};
+
+/**
+ * Signed difference between two bearings, in (-180, 180]
+ */
+export const bearingDifference = (from: number, to: number): number => {
+  const difference = normalizeDegrees(to - from);
+  return difference > 180 ? difference - 360 : difference;
+};
+
+/**
+ * Elevation of the upper part of a bow at an azimuth offset from the
+ * antisolar point, or null if the bow does not reach that azimuth.
+ *
+ * Solves cos(radius) = cos(e)·cos(h)·cos(offset) − sin(e)·sin(h) for the
+ * elevation e, where h is the sun altitude.
+ */
+const bowElevation = (sunAltitude: number, radius: number, azimuthOffset: number): number | null => {
+  const a = Math.cos(sunAltitude * RAD) * Math.cos(azimuthOffset * RAD);
+  const b = -Math.sin(sunAltitude * RAD);
+  const ratio = Math.cos(radius * RAD) / Math.hypot(a, b);
+  if (Math.abs(ratio) > 1) {
+    return null;
+  }
+  return (Math.atan2(b, a) + Math.acos(ratio)) / RAD;
+};
+
+/**
+ * Project the visible part of a bow onto the camera preview.
+ * Points above the horizon are returned as continuous segments; segments
+ * may extend past the preview edges and are clipped when drawn.
+ *
+ * @returns Segments of points, empty if the bow is out of view
+ */
+export const getRainbowArc = (
+  sun: SunPosition,
+  radius: number,
+  view: CameraViewGeometry
+): ArcPoint[][] => {
+  if (sun.altitude < 0 || sun.altitude >= radius) {
+    return [];
+  }
+
+  const horizontalFov = view.horizontalFov ?? DEFAULT_HORIZONTAL_FOV;
+  const verticalFov =
+    (2 * Math.atan(Math.tan((horizontalFov / 2) * RAD) * (view.height / view.width))) / RAD;
+  const antisolarAzimuth = getAntisolarAzimuth(sun.azimuth);
+
+  const segments: ArcPoint[][] = [];
+  let current: ArcPoint[] = [];
+
+  for (let offset = -radius; offset <= radius; offset += ARC_STEP) {
+    const elevation = bowElevation(sun.altitude, radius, offset);
+    // Beyond a quarter turn from the camera the flat projection breaks down
+    const fromCamera = bearingDifference(view.heading, antisolarAzimuth + offset);
+
+    if (elevation === null || elevation < 0 || Math.abs(fromCamera) > 90) {
+      if (current.length > 1) {
+        segments.push(current);
+      }
+      current = [];
+      continue;
+    }
+
+    current.push({
+      x: view.width / 2 + (fromCamera / (horizontalFov / 2)) * (view.width / 2),
+      y: view.height / 2 - (elevation / (verticalFov / 2)) * (view.height / 2),
+    });
+  }
+
+  if (current.length > 1) {
+    segments.push(current);
+  }
+
+  // Drop segments entirely outside the preview
+  return segments.filter((segment) =>
+    segment.some(({ x, y }) => x >= 0 && x <= view.width && y >= 0 && y <= view.height)
+  );
+};
+
+/**
+ * Periods of the day containing `date` when the sun allows a rainbow.
+ * Empty during polar night, and also during midnight sun, when the sun
+ * never sets and the windows cannot be bounded by sunrise and sunset.
+ */
+export const getRainbowWindows = (
+  date: Date,
+  latitude: number,
+  longitude: number
+): RainbowWindow[] => {
+  const { sunrise, sunset } = getSunTimes(date, latitude, longitude);
+  if (!sunrise || !sunset) {
+    return [];
+  }
+
+  const tooHigh = getAltitudeTimes(date, latitude, longitude, PRIMARY_RAINBOW_RADIUS);
+  if (!tooHigh) {
+    return [{ start: sunrise, end: sunset }];
+  }
+
+  return [
+    { start: sunrise, end: tooHigh.rising },
+    { start: tooHigh.setting, end: sunset },
+  ];
+};
+
+/**
+ * The rainbow window in progress at `now`, or the next one today or tomorrow
+ *
+ * @returns null if there is none within that time (polar day or night)
+ */
+export const getNextRainbowWindow = (
+  now: Date,
+  latitude: number,
+  longitude: number
+): RainbowWindow | null => {
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  const windows = [
+    ...getRainbowWindows(now, latitude, longitude),
+    ...getRainbowWindows(tomorrow, latitude, longitude),
+  ];
+  return windows.find((window) => window.end.getTime() > now.getTime()) ?? null;
+};
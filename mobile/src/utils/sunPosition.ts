@@ -0,0 +1,187 @@
+/**
+ * Sun Position
+ *
+ * Offline solar calculations for a place and time, using the same algorithm
+ * as the SunCalc library the backend uses for WeatherCondition sunAzimuth
+ * and sunAltitude (accurate to a fraction of a degree, times to about a
+ * minute):
+ * - getSunPosition: azimuth and altitude
+ * - getSunTimes: sunrise, solar noon and sunset
+ * - getAltitudeTimes: when the sun passes a given altitude
+ *
+ * Requirements: FR-2 (AC-2.1)
+ */
+
+/**
+ * Position of the sun in the sky, in degrees
+ */
+export interface SunPosition {
+  /** Compass bearing (0 = north, 90 = east) */
+  azimuth: number;
+  /** Elevation above the horizon (negative when below it) */
+  altitude: number;
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+/** Obliquity of the Earth */
+const OBLIQUITY = RAD * 23.4397;
+/** Sun altitude at sunrise/sunset, allowing for refraction and the sun's radius */
+const SUNRISE_ALTITUDE = -0.833;
+const J0 = 0.0009;
+
+/**
+ * Sunrise, solar noon and sunset of a day.
+ * sunrise and sunset are null when the sun stays up or down all day.
+ */
+export interface SunTimes {
+  sunrise: Date | null;
+  solarNoon: Date;
+  sunset: Date | null;
+}
+
+/**
+ * When the sun rises above and sinks below an altitude on a day.
+ * null when it never reaches the altitude, or never drops below it.
+ */
+export interface AltitudeTimes {
+  rising: Date;
+  setting: Date;
+}
+
+/** Days since the J2000 epoch */
+const toDays = (date: Date): number => date.valueOf() / DAY_MS - 0.5 + J1970 - J2000;
+
+const fromJulian = (julian: number): Date => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+const solarMeanAnomaly = (days: number): number => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (meanAnomaly: number): number => {
+  const center =
+    RAD *
+    (1.9148 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly) +
+      0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+};
+
+const siderealTime = (days: number, westLongitude: number): number =>
+  RAD * (280.16 + 360.9856235 * days) - westLongitude;
+
+const declinationOf = (eclipticLong: number): number =>
+  Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLong));
+
+const approxTransit = (hourAngle: number, westLongitude: number, cycle: number): number =>
+  J0 + (hourAngle + westLongitude) / (2 * Math.PI) + cycle;
+
+const solarTransitJulian = (days: number, meanAnomaly: number, eclipticLong: number): number =>
+  J2000 + days + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLong);
+
+/**
+ * Solar noon of the day containing `date` and what is needed to find the
+ * times the sun passes an altitude around it
+ */
+const solarDay = (date: Date, latitude: number, longitude: number) => {
+  const westLongitude = RAD * -longitude;
+  const cycle = Math.round(toDays(date) - J0 - westLongitude / (2 * Math.PI));
+  const days = approxTransit(0, westLongitude, cycle);
+  const meanAnomaly = solarMeanAnomaly(days);
+  const eclipticLong = eclipticLongitude(meanAnomaly);
+
+  return {
+    phi: RAD * latitude,
+    westLongitude,
+    cycle,
+    meanAnomaly,
+    eclipticLong,
+    declination: declinationOf(eclipticLong),
+    noon: solarTransitJulian(days, meanAnomaly, eclipticLong),
+  };
+};
+
+/**
+ * Julian dates the sun passes an altitude, or null if it does not that day
+ */
+const passesAltitude = (
+  day: ReturnType<typeof solarDay>,
+  altitude: number
+): { rising: number; setting: number } | null => {
+  const cosHourAngle =
+    (Math.sin(RAD * altitude) - Math.sin(day.phi) * Math.sin(day.declination)) /
+    (Math.cos(day.phi) * Math.cos(day.declination));
+  if (Math.abs(cosHourAngle) > 1) {
+    return null;
+  }
+
+  const transit = approxTransit(Math.acos(cosHourAngle), day.westLongitude, day.cycle);
+  const setting = solarTransitJulian(transit, day.meanAnomaly, day.eclipticLong);
+  return { rising: day.noon - (setting - day.noon), setting };
+};
+
+/**
+ * Normalize an angle in degrees to [0, 360)
+ */
+export const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/**
+ * Calculate the sun's position for a place and time
+ */
+export const getSunPosition = (date: Date, latitude: number, longitude: number): SunPosition => {
+  const days = toDays(date);
+  const phi = RAD * latitude;
+
+  const longitudeOnEcliptic = eclipticLongitude(solarMeanAnomaly(days));
+  const declination = declinationOf(longitudeOnEcliptic);
+  const rightAscension = Math.atan2(
+    Math.sin(longitudeOnEcliptic) * Math.cos(OBLIQUITY),
+    Math.cos(longitudeOnEcliptic)
+  );
+  const hourAngle = siderealTime(days, RAD * -longitude) - rightAscension;
+
+  // Measured from south, positive westward
+  const azimuthFromSouth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  );
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) +
+      Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+
+  return {
+    azimuth: normalizeDegrees(azimuthFromSouth / RAD + 180),
+    altitude: altitude / RAD,
+  };
+};
+
+/**
+ * Calculate sunrise, solar noon and sunset for the day containing `date`
+ * (days run from solar midnight to solar midnight at the longitude)
+ */
+export const getSunTimes = (date: Date, latitude: number, longitude: number): SunTimes => {
+  const day = solarDay(date, latitude, longitude);
+  const sun = passesAltitude(day, SUNRISE_ALTITUDE);
+
+  return {
+    sunrise: sun ? fromJulian(sun.rising) : null,
+    solarNoon: fromJulian(day.noon),
+    sunset: sun ? fromJulian(sun.setting) : null,
+  };
+};
+
+/**
+ * Calculate when the sun rises above and sinks below an altitude on the
+ * day containing `date`
+ */
+export const getAltitudeTimes = (
+  date: Date,
+  latitude: number,
+  longitude: number,
+  altitude: number
+): AltitudeTimes | null => {
+  const times = passesAltitude(solarDay(date, latitude, longitude), altitude);
+  return times ? { rising: fromJulian(times.rising), setting: fromJulian(times.setting) } : null;
+};